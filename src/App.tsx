@@ -60,6 +60,21 @@ import ErrorBoundary from './components/ErrorBoundary';
 import AdminChatPage from './pages/AdminChatPage';
 import Analytics from './pages/Analytics'; // Ensure this matches the export
 import AdminChatDetailsPage from './pages/AdminChatDetailsPage';
+import ImportHistoryPage from './pages/ImportHistoryPage';
+import ImportHistoryDetailsPage from './pages/ImportHistoryDetailsPage';
+import AdminPermissionsPage from './pages/AdminPermissionsPage';
+import AuditLogPage from './pages/AuditLogPage';
+import PayoutReconciliationPage from './pages/PayoutReconciliationPage';
+import VendorStatementsPage from './pages/VendorStatementsPage';
+import SalesTaxPage from './pages/SalesTaxPage';
+import OverdueInstallmentsPage from './pages/OverdueInstallmentsPage';
+import DunningTemplatesPage from './pages/DunningTemplatesPage';
+import CancellationPolicyPage from './pages/CancellationPolicyPage';
+import ApplicationRubricPage from './pages/ApplicationRubricPage';
+import GearCatalogPage from './pages/GearCatalogPage';
+import StripeEventsPage from './pages/StripeEventsPage';
+import DisputesPage from './pages/DisputesPage';
+import DisputeDetailsPage from './pages/DisputeDetailsPage';
 
 function App() {
   return (
@@ -77,7 +92,14 @@ function App() {
                 </ProtectedRoute>
               }
             >
-              <Route path="/dashboard/analytics" element={<Analytics />} />
+              <Route
+                path="/dashboard/analytics"
+                element={
+                  <ProtectedRoute permission="analytics.read">
+                    <Analytics />
+                  </ProtectedRoute>
+                }
+              />
               <Route index element={<Dashboard />} />
               <Route path="vendors" element={<VendorsPage />} />
               <Route
@@ -88,7 +110,14 @@ function App() {
                   </ErrorBoundary>
                 }
               />
-              <Route path="vendor/:id/edit" element={<EditVendorPage />} />
+              <Route
+                path="vendor/:id/edit"
+                element={
+                  <ProtectedRoute permission="vendors.write">
+                    <EditVendorPage />
+                  </ProtectedRoute>
+                }
+              />
               <Route path="couples" element={<CouplesPage />} />
               <Route path="couplespage" element={<Navigate to="/dashboard/couples" replace />} />
               <Route
@@ -99,13 +128,22 @@ function App() {
                   </ErrorBoundary>
                 }
               />
-              <Route path="ad-purchase" element={<AdPurchasesPage />} />
+              <Route
+                path="ad-purchase"
+                element={
+                  <ProtectedRoute permission="ads.manage">
+                    <AdPurchasesPage />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="ad-purchase/:id"
                 element={
-                  <ErrorBoundary>
-                    <AdPurchaseDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="ads.manage">
+                    <ErrorBoundary>
+                      <AdPurchaseDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
                 }
               />
                 <Route path="bookings" element={<BookingAndEventsPage />} />
@@ -117,22 +155,56 @@ function App() {
                   </ErrorBoundary>
                 }
               />
-              <Route path="inquiries" element={<AdminInquiriesPage />} />
+              <Route
+                path="inquiries"
+                element={
+                  <ProtectedRoute permission="support.manage">
+                    <AdminInquiriesPage />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="inquiries/:id"
                 element={
-                  <ErrorBoundary>
-                    <AdminInquiryDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="support.manage">
+                    <ErrorBoundary>
+                      <AdminInquiryDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="vendor-application"
+                element={
+                  <ProtectedRoute permission="applications.review">
+                    <VendorApplicationsPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="application-rubric"
+                element={
+                  <ProtectedRoute permission="applications.review">
+                    <ApplicationRubricPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="gear-catalog"
+                element={
+                  <ProtectedRoute permission="applications.review">
+                    <GearCatalogPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="vendor-application" element={<VendorApplicationsPage />} />
               <Route
                 path="vendor-application/:id"
                 element={
-                  <ErrorBoundary>
-                    <VendorApplicationDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="applications.review">
+                    <ErrorBoundary>
+                      <VendorApplicationDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
                 }
               />
               <Route
@@ -152,55 +224,128 @@ function App() {
                   </ErrorBoundary>
                 }
               />
-              <Route path="service-packages" element={<ServicePackagesPage />} />
+              <Route
+                path="service-packages"
+                element={
+                  <ProtectedRoute permission="services.manage">
+                    <ServicePackagesPage />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="service-package/:id"
                 element={
-                  <ErrorBoundary>
-                    <ServicePackageDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="services.manage">
+                    <ErrorBoundary>
+                      <ServicePackageDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="payments"
+                element={
+                  <ProtectedRoute permission="payments.read">
+                    <PaymentsPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="payments" element={<PaymentsPage />} />
               <Route
                 path="payment/:id"
                 element={
-                  <ErrorBoundary>
-                    <PaymentDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="payments.read">
+                    <ErrorBoundary>
+                      <PaymentDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="send-emails"
+                element={
+                  <ProtectedRoute permission="emails.send">
+                    <SendEmailPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="send-emails" element={<SendEmailPage />} />
               <Route
                 path="email/:id"
                 element={
-                  <ErrorBoundary>
-                    <SendEmailDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="emails.send">
+                    <ErrorBoundary>
+                      <SendEmailDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="leads"
+                element={
+                  <ProtectedRoute permission="leads.manage">
+                    <LeadsPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="leads" element={<LeadsPage />} />
               <Route
                 path="lead/:id"
                 element={
-                  <ErrorBoundary>
-                    <LeadDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="leads.manage">
+                    <ErrorBoundary>
+                      <LeadDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="forum"
+                element={
+                  <ProtectedRoute permission="support.manage">
+                    <ForumPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="forum" element={<ForumPage />} />
               <Route
                 path="forum/:id"
                 element={
-                  <ErrorBoundary>
-                    <ForumPostDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="support.manage">
+                    <ErrorBoundary>
+                      <ForumPostDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="reviews"
+                element={
+                  <ProtectedRoute permission="reviews.manage">
+                    <ReviewsPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="analytics"
+                element={
+                  <ProtectedRoute permission="analytics.read">
+                    <Analytics />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="rewards-leaderboard"
+                element={
+                  <ProtectedRoute permission="rewards.manage">
+                    <AdminRewardsLeaderboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="support-reviews"
+                element={
+                  <ProtectedRoute permission="reviews.manage">
+                    <SupportReviewsPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="reviews" element={<ReviewsPage />} />
-              <Route path="analytics" element={<Analytics />} />
-              <Route path="rewards-leaderboard" element={<AdminRewardsLeaderboard />} />
-              <Route path="support-reviews" element={<SupportReviewsPage />} />
               <Route path="contracts" element={<ContractsPage />} />
               <Route path="timelines" element={<TimelinesPage />} />
               <Route
@@ -211,99 +356,301 @@ function App() {
                   </ErrorBoundary>
                 }
               />
-              <Route path="issues" element={<IssuesPage />} />
+              <Route
+                path="issues"
+                element={
+                  <ProtectedRoute permission="reviews.manage">
+                    <IssuesPage />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="issues/:id"
                 element={
-                  <ErrorBoundary>
-                    <IssueDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="reviews.manage">
+                    <ErrorBoundary>
+                      <IssueDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="job-board"
+                element={
+                  <ProtectedRoute permission="tools.manage">
+                    <JobBoardPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="job-board" element={<JobBoardPage />} />
               <Route
                 path="job-board/:id"
                 element={
-                  <ErrorBoundary>
-                    <JobBoardDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="tools.manage">
+                    <ErrorBoundary>
+                      <JobBoardDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="storage"
+                element={
+                  <ProtectedRoute permission="tools.manage">
+                    <StorageSubscriptionsPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="storage" element={<StorageSubscriptionsPage />} />
               <Route
                 path="storage/:id"
                 element={
-                  <ErrorBoundary>
-                    <StorageDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="tools.manage">
+                    <ErrorBoundary>
+                      <StorageDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="faq"
+                element={
+                  <ProtectedRoute permission="reviews.manage">
+                    <FAQPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="faq" element={<FAQPage />} />
               <Route
                 path="faq/:id"
                 element={
-                  <ErrorBoundary>
-                    <FAQDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="reviews.manage">
+                    <ErrorBoundary>
+                      <FAQDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="messages"
+                element={
+                  <ProtectedRoute permission="support.manage">
+                    <MessagesPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="messages" element={<MessagesPage />} />
               <Route
                 path="messages/:id"
                 element={
-                  <ErrorBoundary>
-                    <MessageDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="support.manage">
+                    <ErrorBoundary>
+                      <MessageDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="chats"
+                element={
+                  <ProtectedRoute permission="support.manage">
+                    <AdminChatPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="chats" element={<AdminChatPage />} />
               <Route
                 path="chats/:session_id"
                 element={
-                  <ErrorBoundary>
-                    <AdminChatDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="support.manage">
+                    <ErrorBoundary>
+                      <AdminChatDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="blogposts"
+                element={
+                  <ProtectedRoute permission="blog.write">
+                    <BlogPostManagement />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="blogposts" element={<BlogPostManagement />} />
               <Route
                 path="blogposts/:id"
                 element={
-                  <ErrorBoundary>
-                    <BlogPostDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="blog.write">
+                    <ErrorBoundary>
+                      <BlogPostDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="messages/new"
+                element={
+                  <ProtectedRoute permission="support.manage">
+                    <MessagesPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="orders"
+                element={
+                  <ProtectedRoute permission="orders.manage">
+                    <OrdersPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="messages/new" element={<MessagesPage />} />
-              <Route path="orders" element={<OrdersPage />} />
               <Route
                 path="orders/:id"
                 element={
-                  <ErrorBoundary>
-                    <OrderDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="orders.manage">
+                    <ErrorBoundary>
+                      <OrderDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="products"
+                element={
+                  <ProtectedRoute permission="services.manage">
+                    <ProductsPage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="products" element={<ProductsPage />} />
               <Route
                 path="products/:id"
                 element={
-                  <ErrorBoundary>
-                    <ProductDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="services.manage">
+                    <ErrorBoundary>
+                      <ProductDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="invoices"
+                element={
+                  <ProtectedRoute permission="payments.read">
+                    <InvoicePage />
+                  </ProtectedRoute>
                 }
               />
-              <Route path="invoices" element={<InvoicePage />} />
               <Route
                 path="invoices/:id"
                 element={
-                  <ErrorBoundary>
-                    <InvoiceDetailsPage />
-                  </ErrorBoundary>
+                  <ProtectedRoute permission="payments.read">
+                    <ErrorBoundary>
+                      <InvoiceDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="payout-reconciliation"
+                element={
+                  <ProtectedRoute permission="payments.read">
+                    <PayoutReconciliationPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="payout-statements"
+                element={
+                  <ProtectedRoute permission="payments.read">
+                    <VendorStatementsPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="sales-tax"
+                element={
+                  <ProtectedRoute permission="payments.read">
+                    <SalesTaxPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="overdue-installments"
+                element={
+                  <ProtectedRoute permission="payments.read">
+                    <OverdueInstallmentsPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="dunning-templates"
+                element={
+                  <ProtectedRoute permission="payments.read">
+                    <DunningTemplatesPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="cancellation-policy"
+                element={
+                  <ProtectedRoute permission="payments.read">
+                    <CancellationPolicyPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="disputes"
+                element={
+                  <ProtectedRoute permission="payments.read">
+                    <DisputesPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="disputes/:id"
+                element={
+                  <ProtectedRoute permission="payments.read">
+                    <DisputeDetailsPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="stripe-events"
+                element={
+                  <ProtectedRoute permission="payments.read">
+                    <StripeEventsPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin-permissions"
+                element={
+                  <ProtectedRoute requireSuperAdmin>
+                    <AdminPermissionsPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="audit-log"
+                element={
+                  <ProtectedRoute permission="audit.read">
+                    <AuditLogPage />
+                  </ProtectedRoute>
                 }
               />
               <Route path="emails" element={<div className="p-8 text-center text-gray-500">Email notifications page coming soon</div>} />
-              <Route path="logs" element={<div className="p-8 text-center text-gray-500">Import history page coming soon</div>} />
+              <Route
+                path="logs"
+                element={
+                  <ProtectedRoute permission="tools.manage">
+                    <ImportHistoryPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="logs/:id"
+                element={
+                  <ProtectedRoute permission="tools.manage">
+                    <ErrorBoundary>
+                      <ImportHistoryDetailsPage />
+                    </ErrorBoundary>
+                  </ProtectedRoute>
+                }
+              />
             </Route>
           </Routes>
           <Toaster position="top-right" />
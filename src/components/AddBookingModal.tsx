@@ -2,9 +2,17 @@ import React, { useState, useEffect } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
 import { Plus, Save } from 'lucide-react';
-import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
+import { addDays, subDays } from 'date-fns';
 import AddVenueModal from './AddVenueModal';
+import { createBookingsBatch } from '../repositories/bookings';
+import { listCoupleOptions, CoupleOption } from '../repositories/couples';
+import { listServicePackageOptions, ServicePackageOption } from '../repositories/servicePackages';
+import { listVendorOptions, VendorOption } from '../repositories/vendors';
+import { listVenues, VenueSummary } from '../repositories/venues';
+import { getVendorSchedule } from '../repositories/vendorAvailability';
+import { findScheduleConflicts } from '../utils/vendorAvailability';
+import type { BookingStatus } from '../utils/bookingStatus';
 import Select from 'react-select';
 
 interface AddBookingModalProps {
@@ -13,39 +21,6 @@ interface AddBookingModalProps {
   onSuccess: () => void;
 }
 
-interface Couple {
-  id: string;
-  name: string;
-  partner1_name: string;
-  partner2_name: string;
-}
-
-interface Vendor {
-  id: string;
-  name: string;
-}
-
-interface ServicePackage {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  service_type: string;
-}
-
-interface Venue {
-  id: string;
-  name: string;
-  phone: string | null;
-  email: string | null;
-  contact_name: string | null;
-  street_address: string | null;
-  city: string | null;
-  state: string | null;
-  zip: string | null;
-  region: string | null;
-}
-
 interface Option {
   value: string;
   label: string;
@@ -58,16 +33,16 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess }: AddBooki
     service_type: '',
     event_type: 'wedding',
     amount: '',
-    status: 'pending',
+    status: 'inquiry',
     venue_id: '',
     package_id: '',
     start_time: '',
     end_time: ''
   });
-  const [couples, setCouples] = useState<Couple[]>([]);
-  const [vendors, setVendors] = useState<Vendor[]>([]);
-  const [servicePackages, setServicePackages] = useState<ServicePackage[]>([]);
-  const [venues, setVenues] = useState<Venue[]>([]);
+  const [couples, setCouples] = useState<CoupleOption[]>([]);
+  const [vendors, setVendors] = useState<VendorOption[]>([]);
+  const [servicePackages, setServicePackages] = useState<ServicePackageOption[]>([]);
+  const [venues, setVenues] = useState<VenueSummary[]>([]);
   const [searchVenue, setSearchVenue] = useState('');
   const [isAddVenueOpen, setIsAddVenueOpen] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -80,19 +55,15 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess }: AddBooki
   const fetchOptions = async () => {
     try {
       const [couplesData, vendorsData, packagesData, venuesData] = await Promise.all([
-        supabase.from('couples').select('id, name, partner1_name, partner2_name'),
-        supabase.from('vendors').select('id, name'),
-        supabase.from('service_packages').select('id, name, description, price, service_type'),
-        supabase.from('venues').select('id, name, phone, email, contact_name, street_address, city, state, zip, region')
+        listCoupleOptions(),
+        listVendorOptions(),
+        listServicePackageOptions(),
+        listVenues()
       ]);
-      if (couplesData.error) throw couplesData.error;
-      if (vendorsData.error) throw vendorsData.error;
-      if (packagesData.error) throw packagesData.error;
-      if (venuesData.error) throw venuesData.error;
-      setCouples(couplesData.data || []);
-      setVendors(vendorsData.data || []);
-      setServicePackages(packagesData.data || []);
-      setVenues(venuesData.data || []);
+      setCouples(couplesData);
+      setVendors(vendorsData);
+      setServicePackages(packagesData);
+      setVenues(venuesData);
     } catch (error: any) {
       console.error('Error fetching options:', error);
       toast.error('Failed to load options');
@@ -123,7 +94,7 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess }: AddBooki
 
   const handleVenueAdded = (venueId: string) => {
     setFormData(prev => ({ ...prev, venue_id: venueId }));
-    setVenues(prev => [...prev, { id: venueId, name: 'New Venue' } as Venue]);
+    setVenues(prev => [...prev, { id: venueId, name: 'New Venue' } as VenueSummary]);
     setSearchVenue('New Venue');
   };
 
@@ -146,61 +117,43 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess }: AddBooki
         throw new Error('Please fill all required fields');
       }
 
-      const amount = formData.amount ? parseInt(formData.amount) * 100 : 0;
-      console.log('Submitting booking with data:', {
-        p_couple_id: formData.couple_id,
-        p_vendor_id: formData.vendor_id,
-        p_status: formData.status,
-        p_amount: amount,
-        p_service_type: formData.service_type || 'Unknown',
-        p_event_type: formData.event_type || 'wedding',
-        p_package_id: formData.package_id || null,
-        p_venue_id: formData.venue_id || null,
-        p_event_id: null,
-      });
-
-      // Create the event
-      const { data: eventData, error: eventError } = await supabase
-        .from('events')
-        .insert({
-          couple_id: formData.couple_id,
-          vendor_id: formData.vendor_id,
-          start_time: new Date(formData.start_time).toISOString(),
-          end_time: new Date(formData.end_time).toISOString(),
-          type: formData.event_type,
-          title: `${formData.service_type} Event`,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          is_blocked_time: true
-        })
-        .select('id')
-        .single();
+      const startTime = new Date(formData.start_time).toISOString();
+      const endTime = new Date(formData.end_time).toISOString();
 
-      if (eventError) throw eventError;
-      if (!eventData) throw new Error('Failed to create event');
+      // Blackouts and overlaps are refused by the RPC too; travel warnings are
+      // the booker's call
+      const schedule = await getVendorSchedule(
+        formData.vendor_id,
+        subDays(new Date(startTime), 1).toISOString(),
+        addDays(new Date(endTime), 1).toISOString()
+      );
+      const conflicts = findScheduleConflicts({ start_time: startTime, end_time: endTime, venue_id: formData.venue_id }, schedule);
+      const blocking = conflicts.find(conflict => conflict.blocking);
+      if (blocking) throw new Error(blocking.message);
+      if (conflicts.length > 0 && !window.confirm(`${conflicts.map(conflict => conflict.message).join('\n')}\n\nBook anyway?`)) {
+        return;
+      }
 
-      const eventId = eventData.id;
+      const amount = formData.amount ? parseInt(formData.amount) * 100 : 0;
 
-      // Create the booking
-      const { data: bookingData, error: bookingError } = await supabase.rpc('create_booking', {
-        p_couple_id: formData.couple_id,
-        p_vendor_id: formData.vendor_id,
-        p_status: formData.status,
-        p_amount: amount,
-        p_service_type: formData.service_type || 'Unknown',
-        p_event_type: formData.event_type || 'wedding',
-        p_package_id: formData.package_id || null,
-        p_venue_id: formData.venue_id || null,
-        p_event_id: eventId
-      });
+      // Create the event and booking together; the RPC rolls both back on failure
+      const result = await createBookingsBatch([{
+        couple_id: formData.couple_id,
+        vendor_id: formData.vendor_id,
+        status: formData.status as BookingStatus,
+        amount,
+        service_type: formData.service_type || 'Unknown',
+        event_type: formData.event_type || 'wedding',
+        package_id: formData.package_id || null,
+        venue_id: formData.venue_id || null,
+        start_time: startTime,
+        end_time: endTime,
+        title: `${formData.service_type} Event`,
+        is_blocked_time: true
+      }]);
 
-      if (bookingError) {
-        // Roll back the event if booking fails
-        await supabase.from('events').delete().eq('id', eventId);
-        throw bookingError;
-      }
+      if (!result.success) throw new Error(result.error || 'Failed to create booking');
 
-      console.log('Booking and event created:', bookingData);
       toast.success('Booking and event added successfully!');
       onSuccess();
       onClose();
@@ -355,9 +308,8 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess }: AddBooki
                         onChange={handleChange}
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                       >
-                        <option value="pending">Pending</option>
-                        <option value="confirmed">Confirmed</option>
-                        <option value="cancelled">Cancelled</option>
+                        <option value="inquiry">Inquiry</option>
+                        <option value="pending_deposit">Pending deposit</option>
                       </select>
                     </div>
                     <div>
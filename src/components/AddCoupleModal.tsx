@@ -62,13 +62,8 @@ export default function AddCoupleModal({ isOpen, onClose, onSuccess }: AddCouple
     setLoading(true);
 
     try {
-      const response = await fetch('https://eecbrvehrhrvdzuutliq.supabase.co/functions/v1/create-couple', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-        },
-        body: JSON.stringify({
+      const { error } = await supabase.functions.invoke('create-couple', {
+        body: {
           email: formData.email,
           name: formData.name,
           partner1_name: formData.partner1_name,
@@ -81,13 +76,12 @@ export default function AddCoupleModal({ isOpen, onClose, onSuccess }: AddCouple
           guest_count: formData.guest_count,
           venue_city: formData.venue_city,
           venue_state: formData.venue_state,
-        }),
+        },
       });
 
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to add couple');
+      if (error) {
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || 'Failed to add couple');
       }
 
       toast.success('Couple added and welcome email sent!');
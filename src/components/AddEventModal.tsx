@@ -2,7 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
 import { Plus, Save } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { listCoupleOptions } from '../repositories/couples';
+import { createEvent } from '../repositories/events';
+import { listVendorOptions } from '../repositories/vendors';
 import toast from 'react-hot-toast';
 
 interface AddEventModalProps {
@@ -41,13 +43,11 @@ export default function AddEventModal({ isOpen, onClose, onSuccess }: AddEventMo
   const fetchOptions = async () => {
     try {
       const [couplesData, vendorsData] = await Promise.all([
-        supabase.from('couples').select('id, name'),
-        supabase.from('vendors').select('id, name')
+        listCoupleOptions(),
+        listVendorOptions()
       ]);
-      if (couplesData.error) throw couplesData.error;
-      if (vendorsData.error) throw vendorsData.error;
-      setCouples(couplesData.data || []);
-      setVendors(vendorsData.data || []);
+      setCouples(couplesData);
+      setVendors(vendorsData);
     } catch (error: any) {
       console.error('Error fetching options:', error);
       toast.error('Failed to load couples and vendors');
@@ -79,9 +79,7 @@ export default function AddEventModal({ isOpen, onClose, onSuccess }: AddEventMo
         updated_at: new Date().toISOString()
       };
 
-      const { error } = await supabase.from('events').insert(eventData);
-
-      if (error) throw error;
+      await createEvent(eventData);
 
       toast.success('Event added successfully!');
       onSuccess();
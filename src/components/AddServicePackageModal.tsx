@@ -54,7 +54,7 @@ export default function AddServicePackageModal({ isOpen, onClose, onPackageAdded
     setLoading(true);
     try {
       const packageData = {
-        service_type: newPackage.service_type.trim() || null,
+        service_type: newPackage.service_type.trim(),
         name: newPackage.name.trim(),
         description: newPackage.description.trim() || null,
         price: newPackage.price,
@@ -136,13 +136,14 @@ export default function AddServicePackageModal({ isOpen, onClose, onPackageAdded
                 <div className="mt-2">
                   <form onSubmit={handleSubmit} className="space-y-4">
                     <div>
-                      <label htmlFor="new_package_service_type" className="block text-sm font-medium text-gray-700">Service Type</label>
+                      <label htmlFor="new_package_service_type" className="block text-sm font-medium text-gray-700">Service Type *</label>
                       <input
                         type="text"
                         id="new_package_service_type"
                         name="service_type"
                         value={newPackage.service_type}
                         onChange={handleChange}
+                        required
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                       />
                     </div>
@@ -80,13 +80,8 @@ export default function AddVendorModal({ isOpen, onClose }: AddVendorModalProps)
     setLoading(true);
 
     try {
-      const response = await fetch('https://eecbrvehrhrvdzuutliq.supabase.co/functions/v1/create-vendor', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-        },
-        body: JSON.stringify({
+      const { error } = await supabase.functions.invoke('create-vendor', {
+        body: {
           email: formData.user_id,
           name: formData.name,
           profile_photo: formData.profile_photo,
@@ -108,13 +103,12 @@ export default function AddVendorModal({ isOpen, onClose }: AddVendorModalProps)
           insurance_info: formData.insurance_info,
           business_license: formData.business_license,
           service_types: formData.service_types,
-        }),
+        },
       });
 
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to add vendor');
+      if (error) {
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || 'Failed to add vendor');
       }
 
       toast.success('Vendor added and welcome email sent! Vendor must set their password to log in.');
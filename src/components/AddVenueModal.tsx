@@ -28,7 +28,7 @@ interface Venue {
 
 interface ServiceArea {
   id: string;
-  region: string;
+  region: string | null;
 }
 
 export default function AddVenueModal({ isOpen, onClose, onVenueAdded }: AddVenueModalProps) {
@@ -142,7 +142,7 @@ export default function AddVenueModal({ isOpen, onClose, onVenueAdded }: AddVenu
   // Format service areas for react-select
   const serviceAreaOptions = serviceAreas.map(area => ({
     value: area.id,
-    label: area.region
+    label: area.region || ''
   }));
 
   if (!isOpen) return null;
@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, ClipboardCheck, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { saveApplicationScores } from '../repositories/applicationReviews';
+import {
+  ApplicationScore,
+  DISAGREEMENT_THRESHOLD,
+  RubricCriterion,
+  summarizeApplicationReview,
+} from '../utils/applicationReviews';
+
+interface ApplicationReviewPanelProps {
+  applicationId: string;
+  criteria: RubricCriterion[];
+  scores: ApplicationScore[];
+  quorum: number;
+  reviewerId: string | null;
+  reviewerEmails: Record<string, string>;
+  onSaved: () => void;
+}
+
+type Draft = Record<string, { score: string; comment: string }>;
+
+export default function ApplicationReviewPanel({
+  applicationId,
+  criteria,
+  scores,
+  quorum,
+  reviewerId,
+  reviewerEmails,
+  onSaved,
+}: ApplicationReviewPanelProps) {
+  const active = criteria.filter(criterion => criterion.is_active);
+  const summary = summarizeApplicationReview(scores, criteria, quorum, reviewerId);
+  const [draft, setDraft] = useState<Draft>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const mine = scores.filter(score => score.reviewer_id === reviewerId);
+    setDraft(Object.fromEntries(criteria.filter(criterion => criterion.is_active).map(criterion => {
+      const existing = mine.find(score => score.criterion_id === criterion.id);
+      return [criterion.id, { score: existing ? String(existing.score) : '', comment: existing?.comment ?? '' }];
+    })));
+    // Reset whenever a save reloads the scores
+  }, [scores, criteria, reviewerId]);
+
+  const handleSave = async () => {
+    if (!reviewerId) return;
+    const filled = active.filter(criterion => draft[criterion.id]?.score !== '');
+    const invalid = filled.find(criterion => {
+      const value = Number(draft[criterion.id].score);
+      return !Number.isInteger(value) || value < 0 || value > criterion.max_score;
+    });
+    if (invalid) {
+      toast.error(`${invalid.name} is scored from 0 to ${invalid.max_score}`);
+      return;
+    }
+    if (filled.length === 0) {
+      toast.error('Score at least one criterion');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveApplicationScores(applicationId, reviewerId, filled.map(criterion => ({
+        criterion_id: criterion.id,
+        score: Number(draft[criterion.id].score),
+        comment: draft[criterion.id].comment.trim() || null,
+      })));
+      toast.success(filled.length === active.length ? 'Review saved' : 'Scores saved; finish every criterion to complete your review');
+      onSaved();
+    } catch (error) {
+      console.error('Error saving application scores:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save scores');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const criterionScores = (criterionId: string) => scores.filter(score => score.criterion_id === criterionId);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <ClipboardCheck className="h-5 w-5 text-gray-500 mr-2" />
+          Review Scores
+        </h2>
+        <div className="text-right">
+          <p className="text-2xl font-bold text-gray-900">{summary.aggregate !== null ? `${summary.aggregate}/100` : '—'}</p>
+          <p className={`text-sm ${summary.quorumMet ? 'text-green-600' : 'text-yellow-600'}`}>
+            {summary.completeReviews} of {quorum} review{quorum === 1 ? '' : 's'} needed
+          </p>
+        </div>
+      </div>
+
+      {summary.spread !== null && summary.spread > DISAGREEMENT_THRESHOLD && (
+        <p className="flex items-center rounded-lg bg-yellow-50 p-3 text-sm text-yellow-800">
+          <AlertTriangle className="h-4 w-4 mr-2" />
+          Reviewers are {summary.spread} points apart. Talk it through before deciding.
+        </p>
+      )}
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Your scores</h3>
+        <div className="space-y-3">
+          {active.map(criterion => (
+            <div key={criterion.id} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-start">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{criterion.name}</p>
+                <p className="text-xs text-gray-500">
+                  {criterion.description ? `${criterion.description}. ` : ''}Weight {Number(criterion.weight)}
+                </p>
+              </div>
+              <input
+                type="number"
+                min="0"
+                max={criterion.max_score}
+                step="1"
+                value={draft[criterion.id]?.score ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, [criterion.id]: { ...prev[criterion.id], score: e.target.value } }))}
+                placeholder={`0–${criterion.max_score}`}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="text"
+                value={draft[criterion.id]?.comment ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, [criterion.id]: { ...prev[criterion.id], comment: e.target.value } }))}
+                placeholder="Comment (optional)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={saving || !reviewerId}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Scores'}
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">All reviewers</h3>
+        {!summary.myReviewComplete ? (
+          <p className="text-sm text-gray-500">
+            Other reviewers' scores show once you have completed your own review, so each review stays independent.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Criterion</th>
+                  {summary.reviewers.map(reviewer => (
+                    <th key={reviewer.reviewerId} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {reviewer.reviewerId === reviewerId ? 'You' : reviewerEmails[reviewer.reviewerId] || 'Reviewer'}
+                    </th>
+                  ))}
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Spread</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {active.map(criterion => {
+                  const values = criterionScores(criterion.id).map(score => score.score);
+                  const spread = values.length > 1 ? Math.max(...values) - Math.min(...values) : 0;
+                  return (
+                    <tr key={criterion.id}>
+                      <td className="px-4 py-2 text-gray-900">{criterion.name}</td>
+                      {summary.reviewers.map(reviewer => {
+                        const score = criterionScores(criterion.id).find(row => row.reviewer_id === reviewer.reviewerId);
+                        return (
+                          <td key={reviewer.reviewerId} className="px-4 py-2 text-gray-700" title={score?.comment ?? undefined}>
+                            {score ? `${score.score}/${criterion.max_score}` : '—'}
+                          </td>
+                        );
+                      })}
+                      <td className={`px-4 py-2 ${spread > criterion.max_score / 2 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                        {spread}
+                      </td>
+                    </tr>
+                  );
+                })}
+                <tr className="bg-gray-50 font-medium">
+                  <td className="px-4 py-2 text-gray-900">Total</td>
+                  {summary.reviewers.map(reviewer => (
+                    <td key={reviewer.reviewerId} className="px-4 py-2 text-gray-900">
+                      {reviewer.score}/100{!reviewer.complete && ' (incomplete)'}
+                    </td>
+                  ))}
+                  <td className="px-4 py-2 text-gray-900">{summary.spread ?? '—'}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
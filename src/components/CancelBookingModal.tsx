@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { Fragment } from 'react';
+import { Ban } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { cancelBooking, listCancellationPolicyTiers, sendBookingNotice } from '../repositories/bookingChanges';
+import { getEventWithParties } from '../repositories/events';
+import type { Payment } from '../repositories/payments';
+import type { Refund } from '../repositories/refunds';
+import {
+  CancellationPolicyTier,
+  daysBeforeEvent,
+  planCancellationRefunds,
+  policyRefundPercentage,
+} from '../utils/bookingChanges';
+import type { Tables } from '../types/database';
+
+interface CancelBookingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  booking: Pick<
+    Tables<'bookings'>,
+    'id' | 'event_id' | 'vendor_deposit_share' | 'platform_deposit_share' | 'vendor_final_share' | 'platform_final_share'
+  >;
+  payments: Payment[];
+  refunds: Refund[];
+  onCancelled: () => void;
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default function CancelBookingModal({ isOpen, onClose, booking, payments, refunds, onCancelled }: CancelBookingModalProps) {
+  const [tiers, setTiers] = useState<CancellationPolicyTier[]>([]);
+  const [eventStart, setEventStart] = useState<string | null>(null);
+  const [percentage, setPercentage] = useState('');
+  const [reason, setReason] = useState('');
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+  const [loading, setLoading] = useState(false);
+
+  const daysBefore = eventStart ? daysBeforeEvent(eventStart) : null;
+  const policyPercentage = policyRefundPercentage(tiers, daysBefore);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setReason('');
+    setIdempotencyKey(crypto.randomUUID());
+
+    Promise.all([
+      listCancellationPolicyTiers(),
+      booking.event_id ? getEventWithParties(booking.event_id) : Promise.resolve(null),
+    ])
+      .then(([tiersData, event]) => {
+        setTiers(tiersData);
+        setEventStart(event?.start_time ?? null);
+        const days = event ? daysBeforeEvent(event.start_time) : null;
+        setPercentage(policyRefundPercentage(tiersData, days).toString());
+      })
+      .catch(error => {
+        console.error('[CancelBookingModal] Error fetching cancellation policy:', error);
+        toast.error('Failed to load the cancellation policy');
+      });
+  }, [isOpen, booking.event_id]);
+
+  const percentageValue = parseFloat(percentage);
+  const isValidPercentage = !isNaN(percentageValue) && percentageValue >= 0 && percentageValue <= 100;
+  const plan = planCancellationRefunds(payments, refunds, booking, isValidPercentage ? percentageValue : 0);
+  const totals = plan.reduce(
+    (sum, refund) => ({
+      amount: sum.amount + refund.amount,
+      vendor: sum.vendor + refund.vendorAmount,
+      platform: sum.platform + refund.platformAmount,
+    }),
+    { amount: 0, vendor: 0, platform: 0 },
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPercentage) {
+      toast.error('Enter a refund percentage between 0 and 100');
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error('Enter a reason for the cancellation');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await cancelBooking({
+        bookingId: booking.id,
+        reason: reason.trim(),
+        refundPercentage: percentageValue,
+        refunds: plan,
+        idempotencyKey,
+      });
+      toast.success(totals.amount > 0 ? `Booking cancelled and ${formatCents(totals.amount)} refunded` : 'Booking cancelled');
+      // The cancellation stands even if the emails fail
+      try {
+        await sendBookingNotice(booking.id, 'cancelled');
+      } catch (error) {
+        console.error('[CancelBookingModal] Error sending cancellation notice:', error);
+        toast.error('The couple and vendor could not be emailed about the cancellation');
+      }
+      onCancelled();
+      onClose();
+    } catch (error) {
+      console.error('[CancelBookingModal] Error cancelling booking:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel booking');
+      onCancelled(); // Some refunds may have gone through; show them
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-75" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                  Cancel Booking
+                </Dialog.Title>
+                <p className="mt-1 text-sm text-gray-500">
+                  {daysBefore === null
+                    ? 'This booking has no event date, so the most generous tier of the policy applies.'
+                    : `The event is ${daysBefore} day${daysBefore === 1 ? '' : 's'} away, so the policy refunds ${policyPercentage}% of what was paid.`}
+                </p>
+                <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+                  <div>
+                    <label htmlFor="cancel_percentage" className="block text-sm font-medium text-gray-700">Refund (%)</label>
+                    <input
+                      type="number"
+                      id="cancel_percentage"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={percentage}
+                      onChange={(e) => setPercentage(e.target.value)}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {isValidPercentage && percentageValue !== policyPercentage && (
+                      <p className="mt-1 text-xs text-yellow-700">Overrides the policy's {policyPercentage}%.</p>
+                    )}
+                  </div>
+                  <div>
+                    <label htmlFor="cancel_reason" className="block text-sm font-medium text-gray-700">Reason</label>
+                    <textarea
+                      id="cancel_reason"
+                      rows={3}
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="rounded-lg bg-gray-50 p-4 text-sm text-gray-700 space-y-2">
+                    {plan.length > 0 ? (
+                      <>
+                        {plan.map(refund => (
+                          <p key={refund.payment.id}>
+                            <strong>{refund.payment.payment_type || 'Payment'}</strong> of {formatCents(refund.payment.amount)}:
+                            refund {formatCents(refund.amount)}
+                            {!refund.payment.stripe_payment_id && ' (manual, return it outside the platform)'}
+                          </p>
+                        ))}
+                        <p><strong>Total refund:</strong> {formatCents(totals.amount)}</p>
+                        <p><strong>From vendor share:</strong> {formatCents(totals.vendor)}</p>
+                        <p><strong>From platform share:</strong> {formatCents(totals.platform)}</p>
+                      </>
+                    ) : (
+                      <p>Nothing is refunded.</p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Invoices with nothing left paid are voided; the unpaid balance of the rest is credited. The couple and vendor are emailed.
+                    </p>
+                  </div>
+                  <div className="mt-4">
+                    <button
+                      type="submit"
+                      disabled={loading || !isValidPercentage || !reason.trim()}
+                      className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-red-500 disabled:bg-red-400 disabled:cursor-not-allowed"
+                    >
+                      {loading ? (
+                        <>
+                          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                          Cancelling...
+                        </>
+                      ) : (
+                        <>
+                          <Ban className="h-5 w-5 mr-2" />
+                          Cancel Booking
+                        </>
+                      )}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="ml-2 inline-flex justify-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 border border-transparent rounded-md hover:bg-gray-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-gray-500"
+                    >
+                      Keep Booking
+                    </button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,51 @@
+import { ReceiptText } from 'lucide-react';
+import type { CreditNote } from '../repositories/creditNotes';
+
+interface CreditNoteHistoryProps {
+  creditNotes: CreditNote[];
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default function CreditNoteHistory({ creditNotes }: CreditNoteHistoryProps) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <ReceiptText className="h-5 w-5 text-blue-600 mr-2" />
+        Credit Notes
+      </h2>
+      {creditNotes.length === 0 ? (
+        <p className="text-sm text-gray-500">No credit notes.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Credit Note</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lines Credited</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {creditNotes.map(creditNote => (
+                <tr key={creditNote.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{new Date(creditNote.created_at).toLocaleDateString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-mono">CN-{creditNote.id.slice(0, 8).toUpperCase()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">-{formatCents(creditNote.amount)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {creditNote.credit_note_lines.map(line => (
+                      <p key={line.id}>{line.description || 'Line item'}: {formatCents(line.amount)}</p>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">{creditNote.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
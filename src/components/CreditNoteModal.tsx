@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { Fragment } from 'react';
+import { ReceiptText } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { CreditNoteLine, issueCreditNote } from '../repositories/creditNotes';
+import { creditableAmount } from '../utils/creditNotes';
+import type { PricingLineItem } from '../utils/invoicePricing';
+
+interface CreditNoteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  invoiceId: string;
+  lineItems: (PricingLineItem & { id: string; description: string })[];
+  // Lines of the credit notes already issued on this invoice
+  creditLines: Pick<CreditNoteLine, 'invoice_line_item_id' | 'amount'>[];
+  balanceDue: number;
+  onIssued: () => void;
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default function CreditNoteModal({ isOpen, onClose, invoiceId, lineItems, creditLines, balanceDue, onIssued }: CreditNoteModalProps) {
+  // Dollar amounts as typed, keyed by line item id
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setAmounts({});
+    setReason('');
+  }, [isOpen]);
+
+  const lines = lineItems.map(item => {
+    const creditable = creditableAmount(item, creditLines);
+    const cents = Math.round(parseFloat(amounts[item.id] || '0') * 100) || 0;
+    return { item, creditable, cents, isValid: cents >= 0 && cents <= creditable };
+  });
+  const total = lines.reduce((sum, line) => sum + line.cents, 0);
+  const isValid = total > 0 && reason.trim() !== '' && lines.every(line => line.isValid);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) {
+      toast.error('Enter a reason and an amount no larger than what is left to credit on each line');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await issueCreditNote(
+        invoiceId,
+        reason.trim(),
+        lines
+          .filter(line => line.cents > 0)
+          .map(line => ({ invoiceLineItemId: line.item.id, amount: line.cents, description: line.item.description })),
+      );
+      toast.success(`Credit note for ${formatCents(total)} issued`);
+      onIssued();
+      onClose();
+    } catch (error) {
+      console.error('[CreditNoteModal] Error issuing credit note:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to issue credit note');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-75" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                  Issue Credit Note
+                </Dialog.Title>
+                <p className="mt-1 text-sm text-gray-500">
+                  Credit the lines being corrected. The invoice itself stays as it was sent.
+                </p>
+                <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+                  {lines.map(({ item, creditable, isValid: lineValid }) => (
+                    <div key={item.id} className="flex items-center justify-between space-x-4">
+                      <div className="text-sm">
+                        <p className="text-gray-900">{item.description}</p>
+                        <p className="text-xs text-gray-500">{formatCents(creditable)} left to credit</p>
+                      </div>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        max={(creditable / 100).toFixed(2)}
+                        value={amounts[item.id] || ''}
+                        onChange={(e) => setAmounts(prev => ({ ...prev, [item.id]: e.target.value }))}
+                        disabled={creditable === 0}
+                        placeholder="0.00"
+                        className={`w-32 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${lineValid ? 'border-gray-300' : 'border-red-500'}`}
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <label htmlFor="credit_reason" className="block text-sm font-medium text-gray-700">Reason</label>
+                    <textarea
+                      id="credit_reason"
+                      rows={3}
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="rounded-lg bg-gray-50 p-4 text-sm text-gray-700 space-y-1">
+                    <p><strong>Credit:</strong> {formatCents(total)}</p>
+                    <p><strong>Balance due after:</strong> {formatCents(Math.max(balanceDue - total, 0))}</p>
+                    {total > balanceDue && (
+                      <p className="text-xs text-gray-500">
+                        {formatCents(total - balanceDue)} more than is owed has already been paid. Refund it from the payment.
+                      </p>
+                    )}
+                  </div>
+                  <div className="mt-4">
+                    <button
+                      type="submit"
+                      disabled={loading || !isValid}
+                      className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-blue-500 disabled:bg-blue-400 disabled:cursor-not-allowed"
+                    >
+                      {loading ? (
+                        <>
+                          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                          Issuing...
+                        </>
+                      ) : (
+                        <>
+                          <ReceiptText className="h-5 w-5 mr-2" />
+                          Issue Credit Note
+                        </>
+                      )}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="ml-2 inline-flex justify-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 border border-transparent rounded-md hover:bg-gray-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-gray-500"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
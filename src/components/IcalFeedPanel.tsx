@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { CalendarDays, Copy, Download, Eye, EyeOff, RefreshCw, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
+import {
+  getIcalFeedToken,
+  icalFeedUrl,
+  previewIcalFeed,
+  regenerateIcalFeedToken,
+  revokeIcalFeedToken,
+} from '../repositories/icalFeeds';
+import type { IcalFeedKind } from '../utils/icalendar';
+
+interface IcalFeedPanelProps {
+  kind: IcalFeedKind;
+  ownerId: string;
+}
+
+export default function IcalFeedPanel({ kind, ownerId }: IcalFeedPanelProps) {
+  const [token, setToken] = useState<string | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const canEdit = usePermission(kind === 'vendor' ? 'vendors.write' : 'couples.write');
+
+  useEffect(() => {
+    const fetchToken = async () => {
+      try {
+        setLoading(true);
+        setToken(await getIcalFeedToken(kind, ownerId));
+      } catch (error) {
+        console.error('Error fetching calendar feed:', error);
+        toast.error('Failed to load calendar feed');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    setPreview(null);
+    fetchToken();
+  }, [kind, ownerId]);
+
+  const handleRegenerate = async () => {
+    if (token && !window.confirm('Create a new feed link? Calendars subscribed to the current link will stop updating.')) return;
+    try {
+      setWorking(true);
+      setToken(await regenerateIcalFeedToken(kind, ownerId));
+      setPreview(null);
+      toast.success(token ? 'Feed link regenerated' : 'Feed link created');
+    } catch (error) {
+      console.error('Error regenerating calendar feed token:', error);
+      toast.error('Failed to create feed link');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!window.confirm('Turn off the calendar feed? Calendars subscribed to it will stop updating.')) return;
+    try {
+      setWorking(true);
+      await revokeIcalFeedToken(kind, ownerId);
+      setToken(null);
+      setPreview(null);
+      toast.success('Calendar feed turned off');
+    } catch (error) {
+      console.error('Error revoking calendar feed token:', error);
+      toast.error('Failed to turn off calendar feed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopy = () => {
+    if (!token) return;
+    navigator.clipboard.writeText(icalFeedUrl(token));
+    toast.success('Feed link copied to clipboard!');
+  };
+
+  const loadPreview = async () => {
+    if (!token) return null;
+    try {
+      setWorking(true);
+      const feed = await previewIcalFeed(token);
+      setPreview(feed);
+      return feed;
+    } catch (error) {
+      console.error('Error previewing calendar feed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load the feed');
+      return null;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    const feed = preview ?? await loadPreview();
+    if (!feed) return;
+    const blob = new Blob([feed], { type: 'text/calendar' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${kind}-calendar.ics`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const eventCount = preview ? (preview.match(/^BEGIN:VEVENT/gm) || []).length : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-2 flex items-center">
+        <CalendarDays className="h-5 w-5 text-blue-600 mr-2" /> Calendar Feed
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        {kind === 'vendor'
+          ? "The vendor's bookings as a calendar that Google Calendar, Apple Calendar or Outlook can subscribe to."
+          : "The couple's bookings and wedding-day timeline as a calendar that Google Calendar, Apple Calendar or Outlook can subscribe to."}{' '}
+        Anyone with the link can see it.
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : token ? (
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              readOnly
+              value={icalFeedUrl(token)}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-sm font-mono"
+            />
+            <button
+              onClick={handleCopy}
+              className="inline-flex items-center px-3 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300"
+            >
+              <Copy className="h-4 w-4 mr-1" /> Copy
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => (preview ? setPreview(null) : loadPreview())}
+              disabled={working}
+              className="inline-flex items-center px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded-md hover:bg-gray-300 disabled:opacity-50"
+            >
+              {preview ? <EyeOff className="h-4 w-4 mr-1" /> : <Eye className="h-4 w-4 mr-1" />}
+              {preview ? 'Hide Preview' : 'Preview'}
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={working}
+              className="inline-flex items-center px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded-md hover:bg-gray-300 disabled:opacity-50"
+            >
+              <Download className="h-4 w-4 mr-1" /> Download .ics
+            </button>
+            {canEdit && (
+              <>
+                <button
+                  onClick={handleRegenerate}
+                  disabled={working}
+                  className="inline-flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <RefreshCw className="h-4 w-4 mr-1" /> Regenerate Link
+                </button>
+                <button
+                  onClick={handleRevoke}
+                  disabled={working}
+                  className="inline-flex items-center px-3 py-1 bg-red-600 text-white text-sm rounded-md hover:bg-red-700 disabled:opacity-50"
+                >
+                  <XCircle className="h-4 w-4 mr-1" /> Turn Off
+                </button>
+              </>
+            )}
+          </div>
+          {preview && (
+            <div>
+              <p className="text-xs text-gray-500 mb-1">{eventCount} {eventCount === 1 ? 'event' : 'events'} in the feed</p>
+              <pre className="max-h-80 overflow-auto bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs font-mono whitespace-pre">
+                {preview}
+              </pre>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500">The calendar feed is off.</p>
+          {canEdit && (
+            <button
+              onClick={handleRegenerate}
+              disabled={working}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <CalendarDays className="h-4 w-4 mr-2" /> Create Feed Link
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
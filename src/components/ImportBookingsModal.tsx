@@ -1,9 +1,23 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
-import { Upload, CheckCircle } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { Upload, CheckCircle, Search, AlertTriangle, XCircle } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { recordImportHistory, ImportErrorDetail } from '../utils/importHistory';
+import { createBookingsBatch } from '../repositories/bookings';
+import {
+  BookingPreviewRow,
+  EntityMatch,
+  PreviewStatus,
+  parseBookingsCsv,
+  resolveBookingRows,
+  getPreviewStatus,
+  describePreviewRow,
+  findImportConflicts,
+  parseAmountCents,
+  parseBookingStatus,
+} from '../utils/bookingImport';
+import { ScheduleConflict, isBlocked } from '../utils/vendorAvailability';
 
 interface ImportBookingsModalProps {
   isOpen: boolean;
@@ -12,15 +26,49 @@ interface ImportBookingsModalProps {
 }
 
 const csvTemplate = `couple_name,vendor_name,service_type,amount,status,venue_name,start_time,end_time
-"Smith & Johnson","Floral Co","Floral Arrangement",2750,confirmed,Willow Creek,2025-06-15T10:00:00,2025-06-15T12:00:00`;
+"Smith & Johnson","Floral Co","Floral Arrangement",2750,pending_deposit,"Willow Creek Vineyard, Napa",2025-06-15T10:00:00,2025-06-15T12:00:00`;
+
+// Rows per create_bookings_batch call; each batch commits or rolls back as a unit
+const BATCH_SIZE = 25;
+
+const describeConflicts = (rowConflicts: ScheduleConflict[] = []) =>
+  rowConflicts.filter(conflict => conflict.blocking).map(conflict => conflict.message).join('; ');
+
+const previewStatusStyles: Record<PreviewStatus, { label: string; className: string }> = {
+  create: { label: 'Will create', className: 'bg-green-100 text-green-800' },
+  ambiguous: { label: 'Ambiguous match', className: 'bg-yellow-100 text-yellow-800' },
+  not_found: { label: 'Not found', className: 'bg-red-100 text-red-800' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-800' },
+};
 
 export default function ImportBookingsModal({ isOpen, onClose, onSuccess }: ImportBookingsModalProps) {
   const [file, setFile] = useState<File | null>(null);
   const [progress, setProgress] = useState(0);
-  const [importedItems, setImportedItems] = useState<{ name: string; status: string; error?: string }[]>([]);
+  const [previewRows, setPreviewRows] = useState<BookingPreviewRow[]>([]);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [conflicts, setConflicts] = useState<Record<number, ScheduleConflict[]>>({});
+  const [importedItems, setImportedItems] = useState<{ row: number; name: string; status: string; error?: string }[]>([]);
+  const [rolledBackRows, setRolledBackRows] = useState<number[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [success, setSuccess] = useState(false);
 
+  useEffect(() => {
+    // Clean up state when modal closes
+    if (!isOpen) {
+      setFile(null);
+      setProgress(0);
+      setPreviewRows([]);
+      setSelectedRows(new Set());
+      setConflicts({});
+      setImportedItems([]);
+      setRolledBackRows([]);
+      setIsValidating(false);
+      setIsImporting(false);
+      setSuccess(false);
+    }
+  }, [isOpen]);
+
   const handleDownloadTemplate = () => {
     const blob = new Blob([csvTemplate], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -34,105 +82,198 @@ export default function ImportBookingsModal({ isOpen, onClose, onSuccess }: Impo
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       setFile(e.target.files[0]);
+      setPreviewRows([]);
+      setSelectedRows(new Set());
+      setConflicts({});
+      setImportedItems([]);
+      setSuccess(false);
     }
   };
 
-  const handleImport = async () => {
+  // Rows that resolve but would double-book their vendor cannot be imported
+  const isCreatable = (row: BookingPreviewRow, rowConflicts = conflicts) =>
+    getPreviewStatus(row) === 'create' && !isBlocked(rowConflicts[row.row] || []);
+
+  const handleValidate = async () => {
     if (!file) return;
 
+    setIsValidating(true);
+    setPreviewRows([]);
+    setImportedItems([]);
+    setSuccess(false);
+
+    try {
+      const { rows, missingColumns, fileErrors } = await parseBookingsCsv(file);
+      if (missingColumns.length > 0) {
+        throw new Error(`Missing required columns: ${missingColumns.join(', ')}`);
+      }
+      if (fileErrors.length > 0) {
+        throw new Error(`The file could not be read: ${fileErrors.join('; ')}`);
+      }
+      if (rows.length === 0) {
+        throw new Error('The file has no data rows');
+      }
+
+      const resolvedRows = await resolveBookingRows(rows);
+      const rowConflicts = await findImportConflicts(resolvedRows);
+      setPreviewRows(resolvedRows);
+      setConflicts(rowConflicts);
+      setSelectedRows(new Set(resolvedRows.filter(row => isCreatable(row, rowConflicts)).map(row => row.row)));
+    } catch (error: any) {
+      console.error('Error validating bookings file:', error);
+      toast.error(error.message || 'Failed to validate file');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleSelectCandidate = async (rowNumber: number, entity: 'couple' | 'vendor' | 'venue', candidateId: string) => {
+    const row = previewRows.find(previewRow => previewRow.row === rowNumber);
+    if (!row) return;
+    const updatedRow = { ...row, [entity]: { ...row[entity], selectedId: candidateId || null } };
+    const updatedRows = previewRows.map(previewRow => (previewRow.row === rowNumber ? updatedRow : previewRow));
+    setPreviewRows(updatedRows);
+
+    // A new vendor or venue can change the conflicts of later rows too
+    let rowConflicts = conflicts;
+    try {
+      rowConflicts = await findImportConflicts(updatedRows);
+      setConflicts(rowConflicts);
+    } catch (error) {
+      console.error('Error checking vendor availability:', error);
+      toast.error('Failed to check vendor availability');
+    }
+    setSelectedRows(prev => {
+      const next = new Set([...prev].filter(selected => {
+        const selectedRow = updatedRows.find(previewRow => previewRow.row === selected);
+        return selectedRow && isCreatable(selectedRow, rowConflicts);
+      }));
+      if (isCreatable(updatedRow, rowConflicts)) next.add(rowNumber);
+      return next;
+    });
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setSelectedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) next.delete(rowNumber);
+      else next.add(rowNumber);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!file || selectedRows.size === 0) return;
+
     setIsImporting(true);
     setProgress(0);
     setImportedItems([]);
+    setRolledBackRows([]);
     setSuccess(false);
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const text = e.target?.result as string;
-      const rows = text.split('\n').slice(1).filter(row => row.trim());
-      const total = rows.length;
-
-      for (let i = 0; i < rows.length; i++) {
-        const [couple_name, vendor_name, service_type, amount, status, venue_name, start_time, end_time] = rows[i].split(',').map(field => field.replace(/^"|"$/g, '').trim());
-        const progressPercent = Math.round(((i + 1) / total) * 100);
-        setProgress(progressPercent);
-
-        try {
-          // Fetch couple and vendor IDs
-          const { data: coupleData } = await supabase
-            .from('couples')
-            .select('id, name')
-            .ilike('name', couple_name)
-            .single();
-          const { data: vendorData } = await supabase
-            .from('vendors')
-            .select('id, name')
-            .ilike('name', vendor_name)
-            .single();
-
-          if (!coupleData || !vendorData) {
-            throw new Error(`Couple or Vendor not found: ${couple_name}, ${vendor_name}`);
-          }
-
-          const coupleId = coupleData.id;
-          const vendorId = vendorData.id;
-
-          // Insert booking
-          const bookingData = {
-            couple_id: coupleId,
-            vendor_id: vendorId,
-            status: status || 'pending',
-            amount: parseInt(amount) * 100, // Store as cents
-            service_type: service_type || 'Unknown',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          };
-
-          const { data: bookingResult, error: bookingError } = await supabase
-            .from('bookings')
-            .insert(bookingData)
-            .select('id')
-            .single();
-
-          if (bookingError) throw bookingError;
-
-          const bookingId = bookingResult.id;
-
-          // Insert event for couple and vendor
-          const eventData = {
-            couple_id: coupleId,
-            vendor_id: vendorId,
-            start_time: new Date(start_time).toISOString(),
-            end_time: new Date(end_time).toISOString(),
-            type: service_type || 'Event',
-            title: `${couple_name} - ${service_type}`,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          };
-
-          await supabase.from('events').insert(eventData);
-
-          setImportedItems(prev => [...prev, { name: couple_name, status: 'Success' }]);
-        } catch (error: any) {
-          console.error(`Error importing booking for ${couple_name}:`, error);
-          setImportedItems(prev => [...prev, { name: couple_name, status: 'Failed', error: error.message }]);
-        }
-      }
+    const rowsToImport = previewRows.filter(row => selectedRows.has(row.row) && isCreatable(row));
+    // Rows that could not be resolved or booked are logged as failures so they can be fixed and re-imported
+    const errorDetails: ImportErrorDetail[] = previewRows
+      .filter(row => !isCreatable(row))
+      .map(row => ({
+        row: row.row,
+        data: row.data,
+        error: getPreviewStatus(row) === 'create' ? describeConflicts(conflicts[row.row]) : describePreviewRow(row),
+      }));
+    const rolledBack: number[] = [];
+    let rowsAdded = 0;
 
-      setProgress(100);
-      setIsImporting(false);
-      setSuccess(true);
-      const successfulImports = importedItems.filter(i => i.status === 'Success').length;
-      toast.success(`Imported ${successfulImports} bookings successfully!`);
-      if (importedItems.some(i => i.status === 'Failed')) {
-        toast.error(`Failed to import ${importedItems.filter(i => i.status === 'Failed').length} bookings. Check logs.`);
+    for (let start = 0; start < rowsToImport.length; start += BATCH_SIZE) {
+      const batch = rowsToImport.slice(start, start + BATCH_SIZE);
+      const result = await createBookingsBatch(batch.map(({ values, couple, vendor, venue }) => ({
+        couple_id: couple.selectedId!,
+        vendor_id: vendor.selectedId!,
+        venue_id: venue.selectedId,
+        package_id: null,
+        status: parseBookingStatus(values.status),
+        amount: parseAmountCents(values.amount), // Store as cents
+        service_type: values.service_type || 'Unknown',
+        event_type: values.event_type || 'wedding',
+        start_time: new Date(values.start_time).toISOString(),
+        end_time: new Date(values.end_time).toISOString(),
+        title: `${values.couple_name} - ${values.service_type}`,
+      })));
+
+      if (result.success) {
+        rowsAdded += batch.length;
+        setImportedItems(prev => [...prev, ...batch.map(row => ({ row: row.row, name: row.values.couple_name, status: 'Success' }))]);
+      } else {
+        // The whole batch was rolled back; blame the failing row and mark the rest as collateral
+        const failedRow = result.failedIndex !== null ? batch[result.failedIndex]?.row : null;
+        console.error(`Booking batch starting at row ${batch[0].row} rolled back:`, result.error);
+        const batchItems = batch.map(row => {
+          const error = row.row === failedRow || failedRow === null
+            ? result.error || 'Batch failed'
+            : `Rolled back because row ${failedRow} failed`;
+          errorDetails.push({ row: row.row, data: row.data, error });
+          rolledBack.push(row.row);
+          return { row: row.row, name: row.values.couple_name, status: row.row === failedRow ? 'Failed' : 'Rolled back', error };
+        });
+        setImportedItems(prev => [...prev, ...batchItems]);
       }
-      onSuccess();
-    };
-    reader.readAsText(file);
+      setProgress(Math.round((Math.min(start + BATCH_SIZE, rowsToImport.length) / rowsToImport.length) * 100));
+    }
+
+    await recordImportHistory({
+      type: 'bookings',
+      filename: file.name,
+      rowsAdded,
+      errorDetails: errorDetails.sort((a, b) => a.row - b.row),
+    });
+
+    setRolledBackRows(rolledBack);
+    setProgress(100);
+    setIsImporting(false);
+    setSuccess(true);
+    setPreviewRows([]);
+    toast.success(`Imported ${rowsAdded} bookings successfully!`);
+    if (rolledBack.length > 0) {
+      toast.error(`Rolled back ${rolledBack.length} bookings. Check the import summary.`);
+    }
+    onSuccess();
+  };
+
+  const renderMatch = (row: BookingPreviewRow, entity: 'couple' | 'vendor' | 'venue', match: EntityMatch, name: string) => {
+    if (match.status === 'empty') return <span className="text-gray-400">-</span>;
+    if (match.status === 'not_found') {
+      return (
+        <span className="inline-flex items-center text-red-600">
+          <XCircle className="h-4 w-4 mr-1" />
+          {name}
+        </span>
+      );
+    }
+    if (match.status === 'ambiguous') {
+      return (
+        <select
+          value={match.selectedId || ''}
+          onChange={(e) => handleSelectCandidate(row.row, entity, e.target.value)}
+          className="px-2 py-1 border border-yellow-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Choose {name}...</option>
+          {match.candidates.map(candidate => (
+            <option key={candidate.id} value={candidate.id}>{candidate.label}</option>
+          ))}
+        </select>
+      );
+    }
+    return <span className="text-gray-900">{match.candidates[0]?.label || name}</span>;
   };
 
   if (!isOpen) return null;
 
+  const statusCounts = previewRows.reduce((acc, row) => {
+    const status = getPreviewStatus(row);
+    acc[status] = (acc[status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<PreviewStatus, number>>);
+  const unavailableCount = previewRows.filter(row => getPreviewStatus(row) === 'create' && !isCreatable(row)).length;
+
   return (
     <Transition appear show={isOpen} as={Fragment}>
       <Dialog as="div" className="relative z-10" onClose={onClose}>
@@ -159,7 +300,7 @@ export default function ImportBookingsModal({ isOpen, onClose, onSuccess }: Impo
               leaveFrom="opacity-100 scale-100"
               leaveTo="opacity-0 scale-95"
             >
-              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+              <Dialog.Panel className={`w-full ${previewRows.length > 0 ? 'max-w-5xl' : 'max-w-md'} transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all`}>
                 <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
                   Import Bookings
                 </Dialog.Title>
@@ -175,6 +316,7 @@ export default function ImportBookingsModal({ isOpen, onClose, onSuccess }: Impo
                     type="file"
                     accept=".csv"
                     onChange={handleFileChange}
+                    disabled={isImporting}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 mb-4"
                   />
                   {isImporting && (
@@ -188,11 +330,91 @@ export default function ImportBookingsModal({ isOpen, onClose, onSuccess }: Impo
                       <p className="text-sm text-gray-600 mt-1">{progress}%</p>
                     </div>
                   )}
+                  {previewRows.length > 0 && !isImporting && (
+                    <div className="mb-4">
+                      <div className="flex flex-wrap gap-2 mb-3 text-sm">
+                        {(Object.keys(previewStatusStyles) as PreviewStatus[]).map(status => (
+                          <span key={status} className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${previewStatusStyles[status].className}`}>
+                            {previewStatusStyles[status].label}: {statusCounts[status] || 0}
+                          </span>
+                        ))}
+                        {unavailableCount > 0 && (
+                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            Vendor unavailable: {unavailableCount}
+                          </span>
+                        )}
+                        <span className="text-gray-600 ml-auto">{selectedRows.size} of {previewRows.length} rows selected</span>
+                      </div>
+                      <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead className="bg-gray-50 sticky top-0">
+                            <tr>
+                              <th className="px-3 py-2"></th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Couple</th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Venue</th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Start</th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                            {previewRows.map(row => {
+                              const status = getPreviewStatus(row);
+                              const rowConflicts = status === 'create' ? conflicts[row.row] || [] : [];
+                              const blocked = isBlocked(rowConflicts);
+                              return (
+                                <tr key={row.row} className={isCreatable(row) ? '' : 'bg-gray-50'}>
+                                  <td className="px-3 py-2">
+                                    <input
+                                      type="checkbox"
+                                      checked={selectedRows.has(row.row)}
+                                      disabled={!isCreatable(row)}
+                                      onChange={() => toggleRow(row.row)}
+                                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                    />
+                                  </td>
+                                  <td className="px-3 py-2 whitespace-nowrap">{row.row}</td>
+                                  <td className="px-3 py-2 whitespace-nowrap">{renderMatch(row, 'couple', row.couple, row.values.couple_name)}</td>
+                                  <td className="px-3 py-2 whitespace-nowrap">{renderMatch(row, 'vendor', row.vendor, row.values.vendor_name)}</td>
+                                  <td className="px-3 py-2 whitespace-nowrap">{renderMatch(row, 'venue', row.venue, row.values.venue_name)}</td>
+                                  <td className="px-3 py-2 whitespace-nowrap">{row.values.start_time || '-'}</td>
+                                  <td className="px-3 py-2 whitespace-nowrap">{row.values.amount ? `$${row.values.amount}` : '-'}</td>
+                                  <td className="px-3 py-2">
+                                    {blocked ? (
+                                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                        Vendor unavailable
+                                      </span>
+                                    ) : (
+                                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${previewStatusStyles[status].className}`}>
+                                        {status === 'ambiguous' && <AlertTriangle className="h-3 w-3 mr-1" />}
+                                        {previewStatusStyles[status].label}
+                                      </span>
+                                    )}
+                                    {status !== 'create' && (
+                                      <p className="text-xs text-gray-500 mt-1">{describePreviewRow(row)}</p>
+                                    )}
+                                    {rowConflicts.map((conflict, index) => (
+                                      <p key={index} className={`text-xs mt-1 ${conflict.blocking ? 'text-red-600' : 'text-amber-600'}`}>
+                                        {conflict.message}
+                                      </p>
+                                    ))}
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  )}
                   {importedItems.length > 0 && (
                     <div className="overflow-x-auto mb-4">
                       <table className="min-w-full divide-y divide-gray-200">
                         <thead className="bg-gray-50">
                           <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Couple Name</th>
                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Error</th>
@@ -201,21 +423,35 @@ export default function ImportBookingsModal({ isOpen, onClose, onSuccess }: Impo
                         <tbody className="bg-white divide-y divide-gray-200">
                           {importedItems.map((item, index) => (
                             <tr key={index}>
+                              <td className="px-4 py-2 whitespace-nowrap">{item.row}</td>
                               <td className="px-4 py-2 whitespace-nowrap">{item.name}</td>
                               <td className="px-4 py-2 whitespace-nowrap">
                                 {item.status === 'Success' ? (
                                   <span className="text-green-600">Success</span>
+                                ) : item.status === 'Rolled back' ? (
+                                  <span className="text-amber-600">Rolled back</span>
                                 ) : (
                                   <span className="text-red-600">Failed</span>
                                 )}
                               </td>
-                              <td className="px-4 py-2 whitespace-nowrap">{item.error || '-'}</td>
+                              <td className="px-4 py-2">{item.error || '-'}</td>
                             </tr>
                           ))}
                         </tbody>
                       </table>
                     </div>
                   )}
+                  {rolledBackRows.length > 0 && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-md p-3 mb-4">
+                      <div className="flex items-center text-amber-700 mb-1">
+                        <AlertTriangle className="h-4 w-4 mr-1" />
+                        <span className="text-sm font-medium">{rolledBackRows.length} rows rolled back</span>
+                      </div>
+                      <p className="text-xs text-amber-700">
+                        No bookings or events were saved for rows {rolledBackRows.join(', ')}. They are listed in Import History for re-import.
+                      </p>
+                    </div>
+                  )}
                   {success && (
                     <div className="text-green-600 flex items-center mb-4">
                       <CheckCircle className="h-5 w-5 mr-2" />
@@ -224,14 +460,26 @@ export default function ImportBookingsModal({ isOpen, onClose, onSuccess }: Impo
                   )}
                 </div>
                 <div className="mt-4">
-                  <button
-                    type="button"
-                    onClick={handleImport}
-                    disabled={!file || isImporting}
-                    className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-blue-500 disabled:bg-blue-400 disabled:cursor-not-allowed"
-                  >
-                    Import
-                  </button>
+                  {previewRows.length === 0 ? (
+                    <button
+                      type="button"
+                      onClick={handleValidate}
+                      disabled={!file || isValidating || isImporting}
+                      className="inline-flex justify-center items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-blue-500 disabled:bg-blue-400 disabled:cursor-not-allowed"
+                    >
+                      <Search className="h-4 w-4 mr-1" />
+                      {isValidating ? 'Validating...' : 'Validate'}
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={handleImport}
+                      disabled={selectedRows.size === 0 || isImporting}
+                      className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-blue-500 disabled:bg-blue-400 disabled:cursor-not-allowed"
+                    >
+                      Import {selectedRows.size} Selected
+                    </button>
+                  )}
                   <button
                     type="button"
                     onClick={onClose}
@@ -247,4 +495,4 @@ export default function ImportBookingsModal({ isOpen, onClose, onSuccess }: Impo
       </Dialog>
     </Transition>
   );
-}
\ No newline at end of file
+}
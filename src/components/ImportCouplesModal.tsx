@@ -4,6 +4,7 @@ import { Fragment } from 'react';
 import { Upload, CheckCircle } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { supabase } from '../lib/supabase';
+import { recordImportHistory, toRowRecord, ImportErrorDetail } from '../utils/importHistory';
 
 interface ImportCouplesModalProps {
   isOpen: boolean;
@@ -73,8 +74,11 @@ export default function ImportCouplesModal({ isOpen, onClose, onSuccess }: Impor
     const reader = new FileReader();
     reader.onload = async (e) => {
       const text = e.target?.result as string;
+      const headers = text.split('\n')[0].split(',').map(header => header.replace(/^"|"$/g, '').trim());
       const rows = text.split('\n').slice(1).filter(row => row.trim());
       const total = rows.length;
+      const errorDetails: ImportErrorDetail[] = [];
+      let rowsAdded = 0;
 
       for (let i = 0; i < rows.length; i++) {
         // Handle CSV parsing with potential commas in fields (e.g., vibe_tags)
@@ -122,25 +126,23 @@ export default function ImportCouplesModal({ isOpen, onClose, onSuccess }: Impor
           // Add venue_id to payload if found
           const finalPayload = { ...payload, venue_id, venue_street_address: venue_street_address?.trim() || null, venue_zip: venue_zip?.trim() || null };
 
-          const response = await fetch('https://eecbrvehrhrvdzuutliq.supabase.co/functions/v1/create-couple', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-            },
-            body: JSON.stringify(finalPayload),
-          });
-
-          const result = await response.json();
-          if (!response.ok) throw new Error(result.error || 'Failed to create couple via function');
+          const { error: functionError } = await supabase.functions.invoke('create-couple', { body: finalPayload });
+          if (functionError) {
+            const body = await functionError.context?.json?.().catch(() => null);
+            throw new Error(body?.error || 'Failed to create couple via function');
+          }
 
+          rowsAdded++;
           setImportedCouples(prev => [...prev, { name, status: 'Success', email, venue_id }]);
         } catch (error: any) {
           console.error('Import error:', error);
+          errorDetails.push({ row: i + 1, data: toRowRecord(headers, rowValues), error: error.message });
           setImportedCouples(prev => [...prev, { name, status: 'Failed', email }]);
         }
       }
 
+      await recordImportHistory({ type: 'couples', filename: file.name, rowsAdded, errorDetails });
+
       setProgress(100);
       setIsImporting(false);
       setSuccess(true);
@@ -4,6 +4,7 @@ import { Fragment } from 'react';
 import { Upload, CheckCircle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
+import { recordImportHistory, toRowRecord, ImportErrorDetail } from '../utils/importHistory';
 
 interface ImportServicePackagesModalProps {
   isOpen: boolean;
@@ -49,17 +50,22 @@ export default function ImportServicePackagesModal({ isOpen, onClose, onSuccess
     const reader = new FileReader();
     reader.onload = async (e) => {
       const text = e.target?.result as string;
+      const headers = text.split('\n')[0].split(',').map(header => header.replace(/^"|"$/g, '').trim());
       const rows = text.split('\n').slice(1).filter(row => row.trim());
       const total = rows.length;
+      const errorDetails: ImportErrorDetail[] = [];
+      let rowsAdded = 0;
 
       for (let i = 0; i < rows.length; i++) {
-        const [service_type, name, description, price, features, coverage, status, vendor_id, hour_amount, lookup_key, event_type] = rows[i].split(',').map(field => field.replace(/^"|"$/g, '').trim());
+        const values = rows[i].split(',').map(field => field.replace(/^"|"$/g, '').trim());
+        const [service_type, name, description, price, features, coverage, status, vendor_id, hour_amount, lookup_key, event_type] = values;
         const progressPercent = Math.round(((i + 1) / total) * 100);
         setProgress(progressPercent);
 
         try {
+          if (!service_type) throw new Error('Missing service type');
           const packageData = {
-            service_type: service_type || null,
+            service_type,
             name: name || 'Unnamed Package',
             description: description || null,
             price: parseInt(price) || 0,
@@ -82,20 +88,23 @@ export default function ImportServicePackagesModal({ isOpen, onClose, onSuccess
 
           if (error) throw error;
 
+          rowsAdded++;
           setImportedItems(prev => [...prev, { name, status: 'Success' }]);
         } catch (error: any) {
           console.error(`Error importing package ${name}:`, error);
+          errorDetails.push({ row: i + 1, data: toRowRecord(headers, values), error: error.message });
           setImportedItems(prev => [...prev, { name, status: 'Failed', error: error.message }]);
         }
       }
 
+      await recordImportHistory({ type: 'service_packages', filename: file.name, rowsAdded, errorDetails });
+
       setProgress(100);
       setIsImporting(false);
       setSuccess(true);
-      const successfulImports = importedItems.filter(i => i.status === 'Success').length;
-      toast.success(`Imported ${successfulImports} packages successfully!`);
-      if (importedItems.some(i => i.status === 'Failed')) {
-        toast.error(`Failed to import ${importedItems.filter(i => i.status === 'Failed').length} packages. Check logs.`);
+      toast.success(`Imported ${rowsAdded} packages successfully!`);
+      if (errorDetails.length > 0) {
+        toast.error(`Failed to import ${errorDetails.length} packages. Check Import History.`);
       }
       onSuccess();
     };
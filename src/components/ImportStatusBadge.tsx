@@ -0,0 +1,31 @@
+import { CheckCircle, XCircle, AlertTriangle } from 'lucide-react'
+
+interface ImportStatusBadgeProps {
+  status: string
+}
+
+export function ImportStatusBadge({ status }: ImportStatusBadgeProps) {
+  switch (status) {
+    case 'success':
+      return (
+        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          Success
+        </span>
+      )
+    case 'partial':
+      return (
+        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          Partial
+        </span>
+      )
+    default:
+      return (
+        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+          <XCircle className="h-3 w-3 mr-1" />
+          Failed
+        </span>
+      )
+  }
+}
@@ -3,6 +3,8 @@ import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
 import { Upload, CheckCircle } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { recordImportHistory, toRowRecord, ImportErrorDetail } from '../utils/importHistory';
 
 interface ImportVendorsModalProps {
   isOpen: boolean;
@@ -46,11 +48,15 @@ export default function ImportVendorsModal({ isOpen, onClose }: ImportVendorsMod
     const reader = new FileReader();
     reader.onload = async (e) => {
       const text = e.target?.result as string;
+      const headers = text.split('\n')[0].split(',').map(header => header.replace(/^"|"$/g, '').trim());
       const rows = text.split('\n').slice(1).filter(row => row.trim());
       const total = rows.length;
+      const errorDetails: ImportErrorDetail[] = [];
+      let rowsAdded = 0;
 
       for (let i = 0; i < rows.length; i++) {
-        const [name, profile_photo, phone, years_experience, profile, service_areas, specialties, stripe_account_id, user_id] = rows[i].split(',');
+        const values = rows[i].split(',');
+        const [name, profile_photo, phone, years_experience, profile, service_areas, specialties, stripe_account_id, user_id] = values;
         const progressPercent = Math.round(((i + 1) / total) * 100);
         setProgress(progressPercent);
 
@@ -67,25 +73,23 @@ export default function ImportVendorsModal({ isOpen, onClose }: ImportVendorsMod
             stripe_account_id: stripe_account_id?.trim(),
           };
 
-          const response = await fetch('https://eecbrvehrhrvdzuutliq.supabase.co/functions/v1/create-vendor', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-            },
-            body: JSON.stringify(payload),
-          });
-
-          const result = await response.json();
-          if (!response.ok) throw new Error(result.error || 'Failed to create vendor via function');
+          const { error: functionError } = await supabase.functions.invoke('create-vendor', { body: payload });
+          if (functionError) {
+            const body = await functionError.context?.json?.().catch(() => null);
+            throw new Error(body?.error || 'Failed to create vendor via function');
+          }
 
+          rowsAdded++;
           setImportedVendors(prev => [...prev, { name, status: 'Success', email: user_id }]);
         } catch (error: any) {
           console.error('Import error:', error);
+          errorDetails.push({ row: i + 1, data: toRowRecord(headers, values), error: error.message });
           setImportedVendors(prev => [...prev, { name, status: 'Failed', email: user_id }]);
         }
       }
 
+      await recordImportHistory({ type: 'vendors', filename: file.name, rowsAdded, errorDetails });
+
       setProgress(100);
       setIsImporting(false);
       setSuccess(true);
@@ -4,6 +4,7 @@ import { Fragment } from 'react';
 import { Upload, CheckCircle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
+import { recordImportHistory, toRowRecord, ImportErrorDetail } from '../utils/importHistory';
 
 interface ImportVenuesModalProps {
   isOpen: boolean;
@@ -61,17 +62,22 @@ export default function ImportVenuesModal({ isOpen, onClose, onSuccess }: Import
     const reader = new FileReader();
     reader.onload = async (e) => {
       const text = e.target?.result as string;
+      const headers = text.split('\n')[0].split(',').map(header => header.replace(/^"|"$/g, '').trim());
       const rows = text.split('\n').slice(1).filter(row => row.trim());
       const total = rows.length;
+      const errorDetails: ImportErrorDetail[] = [];
+      let rowsAdded = 0;
 
       for (let i = 0; i < rows.length; i++) {
-        const [name, phone, email, , street_address, city, state, zip, region] = rows[i].split(',').map(field => field.replace(/^"|"$/g, '').trim()); // Skip contract_name
+        const values = rows[i].split(',').map(field => field.replace(/^"|"$/g, '').trim());
+        const [name, phone, email, , street_address, city, state, zip, region] = values; // Skip contract_name
         const progressPercent = Math.round(((i + 1) / total) * 100);
         setProgress(progressPercent);
 
         // Validate state
         if (!state || !validStates.includes(state)) {
           console.warn(`Invalid state "${state}" for venue ${name}, skipping row`);
+          errorDetails.push({ row: i + 1, data: toRowRecord(headers, values), error: `Invalid state: ${state}` });
           setImportedItems(prev => [...prev, { name, status: 'Failed', error: `Invalid state: ${state} (must be MA, RI, NH, CT, ME, or VT)` }]);
           continue;
         }
@@ -100,20 +106,23 @@ export default function ImportVenuesModal({ isOpen, onClose, onSuccess }: Import
 
           if (error) throw error;
 
+          rowsAdded++;
           setImportedItems(prev => [...prev, { name, status: 'Success' }]);
         } catch (error: any) {
           console.error(`Error importing venue ${name}:`, error);
+          errorDetails.push({ row: i + 1, data: toRowRecord(headers, values), error: error.message });
           setImportedItems(prev => [...prev, { name, status: 'Failed', error: error.message }]);
         }
       }
 
+      await recordImportHistory({ type: 'venues', filename: file.name, rowsAdded, errorDetails });
+
       setProgress(100);
       setIsImporting(false);
       setSuccess(true);
-      const successfulImports = importedItems.filter(i => i.status === 'Success').length;
-      toast.success(`Imported ${successfulImports} venues successfully!`);
-      if (importedItems.some(i => i.status === 'Failed')) {
-        toast.error(`Failed to import ${importedItems.filter(i => i.status === 'Failed').length} venues. Check logs.`);
+      toast.success(`Imported ${rowsAdded} venues successfully!`);
+      if (errorDetails.length > 0) {
+        toast.error(`Failed to import ${errorDetails.length} venues. Check Import History.`);
       }
       onSuccess();
     };
@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { CalendarClock, Copy, Mail, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Installment, createInstallments, deleteInstallmentsForInvoice } from '../repositories/installments';
+import { sendInvoiceEmail } from '../repositories/invoices';
+import {
+  INSTALLMENT_INTERVALS,
+  InstallmentInterval,
+  buildInstallmentSchedule,
+  installmentPaymentLink,
+  isInstallmentOverdue,
+} from '../utils/installments';
+
+interface InstallmentScheduleProps {
+  invoiceId: string;
+  installments: Installment[];
+  // What the schedule splits: the invoice total less its deposit, in cents
+  amount: number;
+  canEdit: boolean;
+  onChange: () => void;
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const statusStyles: Record<Installment['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  partially_paid: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+};
+
+export default function InstallmentSchedule({ invoiceId, installments, amount, canEdit, onChange }: InstallmentScheduleProps) {
+  const [count, setCount] = useState(3);
+  const [firstDueDate, setFirstDueDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [frequency, setFrequency] = useState<InstallmentInterval>('monthly');
+  const [saving, setSaving] = useState(false);
+  const [remindingId, setRemindingId] = useState<string | null>(null);
+
+  // Once money has gone against the schedule it stays as it is
+  const hasPayments = installments.some(installment => installment.paid_amount > 0);
+  // The date input is empty while it is being cleared and retyped
+  const preview = firstDueDate ? buildInstallmentSchedule({ amount, count, firstDueDate, interval: frequency }) : [];
+
+  const handleCreate = async () => {
+    if (amount <= 0) {
+      toast.error('Nothing is left to schedule after the deposit');
+      return;
+    }
+    if (count < 2 || count > 24) {
+      toast.error('Choose between 2 and 24 installments');
+      return;
+    }
+    try {
+      setSaving(true);
+      await createInstallments(invoiceId, preview);
+      toast.success('Installment plan created');
+      onChange();
+    } catch (error) {
+      console.error('[InstallmentSchedule] Error creating installments:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create installment plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Remove this installment plan? Payment links already sent for it will stop working.')) return;
+    try {
+      setSaving(true);
+      await deleteInstallmentsForInvoice(invoiceId);
+      toast.success('Installment plan removed');
+      onChange();
+    } catch (error) {
+      console.error('[InstallmentSchedule] Error removing installments:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove installment plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemind = async (installment: Installment) => {
+    try {
+      setRemindingId(installment.id);
+      await sendInvoiceEmail(invoiceId, installment.id);
+      toast.success(`Reminder sent for installment ${installment.sequence}`);
+      onChange();
+    } catch (error) {
+      console.error('[InstallmentSchedule] Error sending reminder:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send reminder');
+    } finally {
+      setRemindingId(null);
+    }
+  };
+
+  const copyLink = (installment: Installment) => {
+    navigator.clipboard.writeText(installmentPaymentLink(installment.payment_token));
+    toast.success('Installment link copied to clipboard!');
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <CalendarClock className="h-5 w-5 text-blue-600 mr-2" />
+          Installment Plan
+        </h2>
+        {canEdit && installments.length > 0 && !hasPayments && (
+          <button
+            onClick={handleDelete}
+            disabled={saving}
+            className="inline-flex items-center px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4 mr-1" /> Remove Plan
+          </button>
+        )}
+      </div>
+
+      {installments.length === 0 ? (
+        canEdit ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Split the {formatCents(amount)} left after the deposit into scheduled payments, each with its own payment link.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Installments</label>
+                <input
+                  type="number"
+                  min="2"
+                  max="24"
+                  value={count}
+                  onChange={(e) => setCount(parseInt(e.target.value, 10) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">First Due Date</label>
+                <input
+                  type="date"
+                  value={firstDueDate}
+                  onChange={(e) => setFirstDueDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Frequency</label>
+                <select
+                  value={frequency}
+                  onChange={(e) => setFrequency(e.target.value as InstallmentInterval)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {INSTALLMENT_INTERVALS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {amount > 0 && count >= 2 && preview.length > 0 && (
+              <p className="text-sm text-gray-600">
+                {preview.map(row => `${formatCents(row.amount)} on ${format(new Date(`${row.due_date}T00:00:00`), 'MMM d, yyyy')}`).join(' · ')}
+              </p>
+            )}
+            <button
+              onClick={handleCreate}
+              disabled={saving || !firstDueDate}
+              className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+            >
+              <CalendarClock className="h-4 w-4 mr-1" /> Create Plan
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No installment plan.</p>
+        )
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Paid</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Reminder</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {installments.map(installment => {
+                const overdue = isInstallmentOverdue(installment);
+                return (
+                  <tr key={installment.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{installment.sequence}</td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${overdue ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                      {format(new Date(`${installment.due_date}T00:00:00`), 'MMM d, yyyy')}
+                      {overdue && ' (overdue)'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCents(installment.amount)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCents(installment.paid_amount)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusStyles[installment.status]}`}>
+                        {installment.status.replace('_', ' ')}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {installment.last_reminded_at ? new Date(installment.last_reminded_at).toLocaleDateString() : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm space-x-2">
+                      {installment.status !== 'paid' && (
+                        <>
+                          <button
+                            onClick={() => copyLink(installment)}
+                            className="inline-flex items-center px-2 py-1 border border-blue-600 text-blue-600 bg-white rounded-lg hover:bg-blue-50 text-xs"
+                          >
+                            <Copy className="h-3 w-3 mr-1" /> Link
+                          </button>
+                          {canEdit && (
+                            <button
+                              onClick={() => handleRemind(installment)}
+                              disabled={remindingId === installment.id}
+                              className="inline-flex items-center px-2 py-1 border border-blue-600 text-blue-600 bg-white rounded-lg hover:bg-blue-50 text-xs disabled:opacity-50"
+                            >
+                              <Mail className="h-3 w-3 mr-1" /> Remind
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import type { TaxRate } from '../repositories/salesTax';
+import { DEFAULT_CARD_FEE_PERCENTAGE } from '../utils/invoicePricing';
+
+interface InvoiceTaxFieldsProps {
+  taxRates: TaxRate[];
+  taxState: string;
+  // Rate the invoice will be saved with; may differ from the current rate on a saved invoice
+  taxRate: number;
+  onTaxStateChange: (state: string) => void;
+  cardFeePercentage: number;
+  onCardFeePercentageChange: (percentage: number) => void;
+}
+
+export default function InvoiceTaxFields({
+  taxRates,
+  taxState,
+  taxRate,
+  onTaxStateChange,
+  cardFeePercentage,
+  onCardFeePercentageChange,
+}: InvoiceTaxFieldsProps) {
+  const hasCurrentRate = taxRates.some(rate => rate.state === taxState);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Sales Tax State</label>
+        <select
+          value={taxState}
+          onChange={(e) => onTaxStateChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">No sales tax</option>
+          {taxRates.map(rate => (
+            <option key={rate.state} value={rate.state}>{rate.state} ({rate.rate}%)</option>
+          ))}
+          {taxState && !hasCurrentRate && <option value={taxState}>{taxState} ({taxRate}%)</option>}
+        </select>
+        {taxState && (
+          <p className="mt-1 text-xs text-gray-500">{taxRate}% on line items marked taxable</p>
+        )}
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Card Processing Fee</label>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={cardFeePercentage > 0}
+              onChange={(e) => onCardFeePercentageChange(e.target.checked ? DEFAULT_CARD_FEE_PERCENTAGE : 0)}
+              className="mr-1"
+            />
+            Add fee line
+          </label>
+          {cardFeePercentage > 0 && (
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={cardFeePercentage}
+              onChange={(e) => onCardFeePercentageChange(parseFloat(e.target.value) || 0)}
+              placeholder="Percentage (%)"
+              className="w-1/3 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,8 @@ import {
   Package,
   AlertTriangle,
   Briefcase,
+  ClipboardCheck,
+  Camera,
   Database,
   HelpCircle,
   MessageSquare,
@@ -28,9 +30,28 @@ import {
   HelpCircleIcon,
   Target,
   TrendingUp,
+  Lock,
+  History,
+  Scale,
+  FileSpreadsheet,
+  Percent,
+  AlarmClock,
+  BellRing,
+  Ban,
+  Webhook,
+  ShieldAlert,
 } from 'lucide-react';
+import { Permission } from '../lib/permissions';
 
-const navigation = [
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: React.ElementType;
+  permission?: Permission;
+  superAdminOnly?: boolean;
+}
+
+const navigation: { group: string; items: NavigationItem[] }[] = [
   {
     group: 'Main',
     items: [{ name: 'Dashboard', href: '/dashboard', icon: Home }],
@@ -38,41 +59,51 @@ const navigation = [
   {
     group: 'Users & Leads',
     items: [
-      { name: 'Analytics', href: '/dashboard/analytics', icon: TrendingUp },
-      { name: 'Advertising', href: '/dashboard/ad-purchase', icon: Target },
+      { name: 'Analytics', href: '/dashboard/analytics', icon: TrendingUp, permission: 'analytics.read' },
+      { name: 'Advertising', href: '/dashboard/ad-purchase', icon: Target, permission: 'ads.manage' },
       { name: 'Vendors', href: '/dashboard/vendors', icon: Building2 },
-       { name: 'Rewards', href: '/dashboard/rewards-leaderboard', icon: Trophy }, // Updated from /rewardsleaderboard to /rewards-leaderboard
+       { name: 'Rewards', href: '/dashboard/rewards-leaderboard', icon: Trophy, permission: 'rewards.manage' }, // Updated from /rewardsleaderboard to /rewards-leaderboard
       { name: 'Couples', href: '/dashboard/couples', icon: Heart }, // Updated from /couplespage to /couples
-      { name: 'Leads', href: '/dashboard/leads', icon: Users },
-      { name: 'Applications', href: '/dashboard/vendor-application', icon: Briefcase },
+      { name: 'Leads', href: '/dashboard/leads', icon: Users, permission: 'leads.manage' },
+      { name: 'Applications', href: '/dashboard/vendor-application', icon: Briefcase, permission: 'applications.review' },
+      { name: 'Application Rubric', href: '/dashboard/application-rubric', icon: ClipboardCheck, permission: 'applications.review' },
+      { name: 'Gear Catalog', href: '/dashboard/gear-catalog', icon: Camera, permission: 'applications.review' },
     ],
   },
   {
     group: 'Communication',
     items: [
-      { name: 'Send Emails', href: '/dashboard/send-emails', icon: Mail },
-      { name:  'Support Inquiries', href: '/dashboard/inquiries', icon: HelpCircleIcon },
-      { name: 'Forum', href: '/dashboard/forum', icon: Mail },
-      { name: 'Messages', href: '/dashboard/messages', icon: MessageSquare },
-     { name: 'Chat Bot', href: '/dashboard/chats', icon: HeadsetIcon },
-     { name: 'Blog Posts', href: '/dashboard/blogposts', icon: FileText },
+      { name: 'Send Emails', href: '/dashboard/send-emails', icon: Mail, permission: 'emails.send' },
+      { name:  'Support Inquiries', href: '/dashboard/inquiries', icon: HelpCircleIcon, permission: 'support.manage' },
+      { name: 'Forum', href: '/dashboard/forum', icon: Mail, permission: 'support.manage' },
+      { name: 'Messages', href: '/dashboard/messages', icon: MessageSquare, permission: 'support.manage' },
+     { name: 'Chat Bot', href: '/dashboard/chats', icon: HeadsetIcon, permission: 'support.manage' },
+     { name: 'Blog Posts', href: '/dashboard/blogposts', icon: FileText, permission: 'blog.write' },
     ],
   },
   {
     group: 'Orders & Payments',
     items: [
-      { name: 'Orders', href: '/dashboard/orders', icon: ShoppingCart },
-      { name: 'Payments', href: '/dashboard/payments', icon: CreditCard },
-      { name: 'Invoices', href: '/dashboard/invoices', icon: FileText },
+      { name: 'Orders', href: '/dashboard/orders', icon: ShoppingCart, permission: 'orders.manage' },
+      { name: 'Payments', href: '/dashboard/payments', icon: CreditCard, permission: 'payments.read' },
+      { name: 'Invoices', href: '/dashboard/invoices', icon: FileText, permission: 'payments.read' },
+      { name: 'Reconciliation', href: '/dashboard/payout-reconciliation', icon: Scale, permission: 'payments.read' },
+      { name: 'Payout Statements', href: '/dashboard/payout-statements', icon: FileSpreadsheet, permission: 'payments.read' },
+      { name: 'Sales Tax', href: '/dashboard/sales-tax', icon: Percent, permission: 'payments.read' },
+      { name: 'Overdue Installments', href: '/dashboard/overdue-installments', icon: AlarmClock, permission: 'payments.read' },
+      { name: 'Payment Reminders', href: '/dashboard/dunning-templates', icon: BellRing, permission: 'payments.read' },
+      { name: 'Cancellation Policy', href: '/dashboard/cancellation-policy', icon: Ban, permission: 'payments.read' },
+      { name: 'Disputes', href: '/dashboard/disputes', icon: ShieldAlert, permission: 'payments.read' },
+      { name: 'Stripe Events', href: '/dashboard/stripe-events', icon: Webhook, permission: 'payments.read' },
     ],
   },
   {
     group: 'Feedback & Support',
     items: [
-      { name: 'Reviews', href: '/dashboard/reviews', icon: Calendar },
-      { name: 'Support Reviews', href: '/dashboard/support-reviews', icon: Calendar },
-      { name: 'FAQ', href: '/dashboard/faq', icon: HelpCircle },
-      { name: 'Issues', href: '/dashboard/issues', icon: AlertTriangle },
+      { name: 'Reviews', href: '/dashboard/reviews', icon: Calendar, permission: 'reviews.manage' },
+      { name: 'Support Reviews', href: '/dashboard/support-reviews', icon: Calendar, permission: 'reviews.manage' },
+      { name: 'FAQ', href: '/dashboard/faq', icon: HelpCircle, permission: 'reviews.manage' },
+      { name: 'Issues', href: '/dashboard/issues', icon: AlertTriangle, permission: 'reviews.manage' },
     ],
   },
   {
@@ -87,24 +118,36 @@ const navigation = [
   {
     group: 'Services & Products',
     items: [
-      { name: 'Service Packages', href: '/dashboard/service-packages', icon: Package },
-      { name: 'Products', href: '/dashboard/products', icon: PackageOpen },
+      { name: 'Service Packages', href: '/dashboard/service-packages', icon: Package, permission: 'services.manage' },
+      { name: 'Products', href: '/dashboard/products', icon: PackageOpen, permission: 'services.manage' },
     ],
   },
   {
     group: 'Admin Tools',
     items: [
-      { name: 'Job Board', href: '/dashboard/job-board', icon: Briefcase },
-      { name: 'Storage', href: '/dashboard/storage', icon: Database },
-      { name: 'Import History', href: '/dashboard/logs', icon: FileText },
+      { name: 'Job Board', href: '/dashboard/job-board', icon: Briefcase, permission: 'tools.manage' },
+      { name: 'Storage', href: '/dashboard/storage', icon: Database, permission: 'tools.manage' },
+      { name: 'Import History', href: '/dashboard/logs', icon: FileText, permission: 'tools.manage' },
+      { name: 'Audit Log', href: '/dashboard/audit-log', icon: History, permission: 'audit.read' },
+      { name: 'Admin Permissions', href: '/dashboard/admin-permissions', icon: Lock, superAdminOnly: true },
     ],
   },
 ];
 
 export function Layout() {
-  const { signOut, profile, isSuperAdmin } = useAuth();
+  const { signOut, profile, isSuperAdmin, hasPermission } = useAuth();
   const location = useLocation();
 
+  // Hide items the admin cannot open, and groups left with nothing in them
+  const visibleNavigation = navigation
+    .map(section => ({
+      ...section,
+      items: section.items.filter(item =>
+        (!item.superAdminOnly || isSuperAdmin) && (!item.permission || hasPermission(item.permission))
+      ),
+    }))
+    .filter(section => section.items.length > 0);
+
   const getAdminLevelDisplay = () => {
     if (!profile) return 'Admin User';
     switch (profile.admin_level) {
@@ -162,7 +205,7 @@ export function Layout() {
 
         {/* Navigation */}
         <nav className="flex-1 px-4 py-6 space-y-4 overflow-y-auto">
-          {navigation.map((section) => (
+          {visibleNavigation.map((section) => (
             <div key={section.group}>
               <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wide px-3 mb-1">
                 {section.group}
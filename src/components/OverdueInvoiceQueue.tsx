@@ -0,0 +1,177 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Eye, History, Send } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
+import { DunningStep, InvoiceReminder, listDunningSteps, listInvoiceReminders, sendDunningReminder } from '../repositories/dunning';
+import { daysPastDue, nextDunningTouch } from '../utils/dunning';
+
+interface OverdueInvoice {
+  id: string;
+  recipient_name: string;
+  status: string;
+  remaining_balance: number;
+  due_date: string | null;
+}
+
+interface OverdueInvoiceQueueProps {
+  // Already filtered down to overdue invoices
+  invoices: OverdueInvoice[];
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const reminderKindLabels: Record<InvoiceReminder['kind'], string> = {
+  invoice: 'Invoice email',
+  dunning: 'Reminder',
+  installment: 'Installment reminder',
+};
+
+export default function OverdueInvoiceQueue({ invoices }: OverdueInvoiceQueueProps) {
+  const [steps, setSteps] = useState<DunningStep[]>([]);
+  const [reminders, setReminders] = useState<InvoiceReminder[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const canSend = usePermission('payments.write');
+
+  // Refetch only when the set of invoices changes, not on every parent render
+  const invoiceIdsKey = invoices.map(invoice => invoice.id).join(',');
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const [stepsData, remindersData] = await Promise.all([
+          listDunningSteps(),
+          listInvoiceReminders(invoiceIdsKey ? invoiceIdsKey.split(',') : []),
+        ]);
+        setSteps(stepsData);
+        setReminders(remindersData);
+      } catch (error) {
+        console.error('Error fetching reminder history:', error);
+        toast.error('Failed to load reminder history');
+      }
+    };
+
+    fetchHistory();
+  }, [invoiceIdsKey]);
+
+  const stepName = (stepId: string | null) => steps.find(step => step.id === stepId)?.name;
+
+  const handleSend = async (invoiceId: string) => {
+    try {
+      setSendingId(invoiceId);
+      await sendDunningReminder(invoiceId);
+      setReminders(await listInvoiceReminders(invoiceIdsKey.split(',')));
+      toast.success('Reminder sent');
+    } catch (error) {
+      console.error('Error sending reminder:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send reminder');
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due Date</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Days Past Due</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reminders Sent</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Reminder</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {invoices.map(invoice => {
+            const history = reminders.filter(reminder => reminder.invoice_id === invoice.id);
+            const next = nextDunningTouch(invoice, steps, history);
+            const overdueDays = invoice.due_date ? daysPastDue(invoice.due_date) : 0;
+            return (
+              <Fragment key={invoice.id}>
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{invoice.recipient_name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCents(invoice.remaining_balance)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {invoice.due_date ? format(parseISO(invoice.due_date), 'MMM d, yyyy') : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        overdueDays >= 14 ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}
+                    >
+                      {overdueDays} day{overdueDays === 1 ? '' : 's'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {history.length === 0 ? (
+                      <span className="text-gray-500">None</span>
+                    ) : (
+                      <button
+                        onClick={() => setExpandedId(expandedId === invoice.id ? null : invoice.id)}
+                        className="inline-flex items-center text-blue-600 hover:text-blue-800"
+                      >
+                        <History className="h-4 w-4 mr-1" />
+                        {history.length} · last {format(parseISO(history[0].sent_at), 'MMM d')}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {next ? (
+                      <>
+                        {next.step.name}
+                        <span className="block text-xs text-gray-500">
+                          {next.date <= format(new Date(), 'yyyy-MM-dd') ? 'Next daily run' : format(parseISO(next.date), 'MMM d, yyyy')}
+                        </span>
+                      </>
+                    ) : (
+                      <span className="text-gray-500">Schedule finished</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <Link
+                      to={`/dashboard/invoices/${invoice.id}`}
+                      className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-600 hover:text-blue-800 mr-2"
+                    >
+                      <Eye className="h-4 w-4 mr-1" /> View
+                    </Link>
+                    {canSend && (
+                      <button
+                        onClick={() => handleSend(invoice.id)}
+                        disabled={sendingId === invoice.id}
+                        className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        <Send className="h-4 w-4 mr-1" /> {sendingId === invoice.id ? 'Sending...' : 'Send Reminder'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {expandedId === invoice.id && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={7} className="px-6 py-3">
+                      <ul className="space-y-1 text-sm text-gray-700">
+                        {history.map(reminder => (
+                          <li key={reminder.id}>
+                            {format(parseISO(reminder.sent_at), 'MMM d, yyyy h:mm a')} ·{' '}
+                            {stepName(reminder.step_id) || reminderKindLabels[reminder.kind]}
+                            {reminder.recipient_email && ` to ${reminder.recipient_email}`}
+                            {!reminder.sent_by && reminder.kind === 'dunning' && ' (automatic)'}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
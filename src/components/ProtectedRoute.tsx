@@ -1,14 +1,17 @@
 import React from 'react'
 import { Navigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
-import { AlertCircle, User, Shield, Database, Code, Crown, RefreshCw } from 'lucide-react'
+import { AlertCircle, User, Shield, Database, Code, Crown, RefreshCw, Lock } from 'lucide-react'
+import { Permission } from '../lib/permissions'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
+  permission?: Permission
+  requireSuperAdmin?: boolean
 }
 
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { user, profile, loading, isAdmin, isSuperAdmin, error, profileError, signOut, debugInfo, refetchProfile } = useAuth()
+export function ProtectedRoute({ children, permission, requireSuperAdmin = false }: ProtectedRouteProps) {
+  const { user, profile, loading, isAdmin, isSuperAdmin, error, profileError, signOut, debugInfo, refetchProfile, hasPermission } = useAuth()
 
   if (loading) {
     return (
@@ -231,5 +234,19 @@ ON CONFLICT (id) DO UPDATE SET
     return <Navigate to="/login" replace />
   }
 
+  if ((requireSuperAdmin && !isSuperAdmin) || (permission && !hasPermission(permission))) {
+    return (
+      <div className="text-center py-12">
+        <Lock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Access restricted</h3>
+        <p className="text-gray-500">
+          {requireSuperAdmin
+            ? 'This page is only available to super administrators.'
+            : `Your admin account does not have the "${permission}" permission. Ask a super administrator to grant it.`}
+        </p>
+      </div>
+    )
+  }
+
   return <>{children}</>
 }
\ No newline at end of file
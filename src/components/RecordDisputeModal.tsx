@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { Fragment } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { createDispute } from '../repositories/disputes';
+import { DISPUTE_REASONS, formatDisputeReason } from '../utils/disputes';
+
+interface RecordDisputeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  payment: { id: string; amount: number; booking_id: string | null; vendor_id: string | null };
+  onRecorded: () => void;
+}
+
+export default function RecordDisputeModal({ isOpen, onClose, payment, onRecorded }: RecordDisputeModalProps) {
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState<string>('fraudulent');
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setAmount((payment.amount / 100).toFixed(2));
+    setReason('fraudulent');
+    setDueDate('');
+    setNotes('');
+  }, [isOpen, payment.amount]);
+
+  const cents = Math.round(parseFloat(amount || '0') * 100) || 0;
+  const isValid = cents > 0 && cents <= payment.amount;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) {
+      toast.error('Enter an amount no larger than the payment');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await createDispute({
+        payment_id: payment.id,
+        booking_id: payment.booking_id,
+        vendor_id: payment.vendor_id,
+        amount: cents,
+        reason,
+        status: 'needs_response',
+        evidence_due_by: dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : null,
+        notes: notes.trim() || null,
+      });
+      toast.success('Dispute recorded');
+      onRecorded();
+      onClose();
+    } catch (error) {
+      console.error('[RecordDisputeModal] Error recording dispute:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record dispute');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-75" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                  Record Dispute
+                </Dialog.Title>
+                <p className="mt-1 text-sm text-gray-500">
+                  For disputes raised outside Stripe. Disputes opened in Stripe are added automatically.
+                </p>
+                <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+                  <div>
+                    <label htmlFor="dispute_amount" className="block text-sm font-medium text-gray-700">Disputed Amount ($)</label>
+                    <input
+                      id="dispute_amount"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      max={(payment.amount / 100).toFixed(2)}
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      required
+                      className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${isValid ? 'border-gray-300' : 'border-red-500'}`}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="dispute_reason" className="block text-sm font-medium text-gray-700">Reason</label>
+                    <select
+                      id="dispute_reason"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {DISPUTE_REASONS.map(value => (
+                        <option key={value} value={value}>{formatDisputeReason(value)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="dispute_due_date" className="block text-sm font-medium text-gray-700">Evidence Due</label>
+                    <input
+                      id="dispute_due_date"
+                      type="date"
+                      value={dueDate}
+                      onChange={(e) => setDueDate(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="dispute_new_notes" className="block text-sm font-medium text-gray-700">Notes</label>
+                    <textarea
+                      id="dispute_new_notes"
+                      rows={3}
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="mt-4">
+                    <button
+                      type="submit"
+                      disabled={loading || !isValid}
+                      className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-red-500 disabled:bg-red-400 disabled:cursor-not-allowed"
+                    >
+                      {loading ? (
+                        <>
+                          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                          Recording...
+                        </>
+                      ) : (
+                        <>
+                          <ShieldAlert className="h-5 w-5 mr-2" />
+                          Record Dispute
+                        </>
+                      )}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="ml-2 inline-flex justify-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 border border-transparent rounded-md hover:bg-gray-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-gray-500"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,75 @@
+import { Link } from 'react-router-dom';
+import { RotateCcw } from 'lucide-react';
+import type { Refund } from '../repositories/refunds';
+
+interface RefundHistoryProps {
+  refunds: Refund[];
+  // Booking pages list refunds across several payments, so they link to each one
+  showPayment?: boolean;
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const statusStyles: Record<Refund['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export default function RefundHistory({ refunds, showPayment = false }: RefundHistoryProps) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <RotateCcw className="h-5 w-5 text-blue-600 mr-2" />
+        Refund History
+      </h2>
+      {refunds.length === 0 ? (
+        <p className="text-sm text-gray-500">No refunds.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor / Platform</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                {showPayment && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {refunds.map(refund => (
+                <tr key={refund.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{new Date(refund.created_at).toLocaleDateString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCents(refund.amount)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCents(refund.vendor_amount)} / {formatCents(refund.platform_amount)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${statusStyles[refund.status]}`}>
+                      {refund.status}
+                    </span>
+                    {refund.stripe_refund_id && (
+                      <span className="block mt-1 text-xs text-gray-500 font-mono">{refund.stripe_refund_id}</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">{refund.reason || '—'}</td>
+                  {showPayment && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Link to={`/dashboard/payment/${refund.payment_id}`} className="text-blue-600 hover:text-blue-800">
+                        {refund.payment_id.slice(0, 8)}
+                      </Link>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { Fragment } from 'react';
+import { RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getBooking } from '../repositories/bookings';
+import { Refund, refundPayment } from '../repositories/refunds';
+import { splitRefund, refundableAmount } from '../utils/refunds';
+import type { Tables } from '../types/database';
+
+interface RefundPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  payment: Pick<Tables<'payments'>, 'id' | 'amount' | 'payment_type' | 'to_platform' | 'booking_id' | 'stripe_payment_id'>;
+  refunds: Refund[];
+  onRefunded: (refund: Refund) => void;
+}
+
+type BookingShares = Awaited<ReturnType<typeof getBooking>>;
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default function RefundPaymentModal({ isOpen, onClose, payment, refunds, onRefunded }: RefundPaymentModalProps) {
+  const [mode, setMode] = useState<'full' | 'partial'>('full');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [booking, setBooking] = useState<BookingShares | null>(null);
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+  const [loading, setLoading] = useState(false);
+
+  const refundable = refundableAmount(payment, refunds);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setMode('full');
+    setAmount('');
+    setReason('');
+    setIdempotencyKey(crypto.randomUUID());
+
+    if (!payment.booking_id) {
+      setBooking(null);
+      return;
+    }
+    getBooking(payment.booking_id)
+      .then(setBooking)
+      .catch(error => {
+        console.error('[RefundPaymentModal] Error fetching booking shares:', error);
+        setBooking(null);
+      });
+  }, [isOpen, payment.booking_id]);
+
+  const refundCents = mode === 'full' ? refundable : Math.round(parseFloat(amount || '0') * 100);
+  const isValid = refundCents > 0 && refundCents <= refundable;
+  const split = splitRefund(isValid ? refundCents : 0, payment, booking);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) {
+      toast.error(`Enter an amount between $0.01 and ${formatCents(refundable)}`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const refund = await refundPayment({
+        paymentId: payment.id,
+        amount: refundCents,
+        reason: reason.trim(),
+        idempotencyKey,
+      });
+      toast.success(`Refunded ${formatCents(refund.amount)}`);
+      onRefunded(refund);
+      onClose();
+    } catch (error) {
+      console.error('[RefundPaymentModal] Error refunding payment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to refund payment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-75" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                  Refund Payment
+                </Dialog.Title>
+                <p className="mt-1 text-sm text-gray-500">
+                  {formatCents(refundable)} of {formatCents(payment.amount)} left to refund.
+                  {payment.stripe_payment_id
+                    ? ' The refund is sent to the card through Stripe.'
+                    : ' This was a manual payment, so return the money outside the platform; the refund is only recorded.'}
+                </p>
+                <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+                  <div className="flex space-x-4">
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        checked={mode === 'full'}
+                        onChange={() => setMode('full')}
+                        className="mr-2 h-4 w-4 text-blue-600 border-gray-300"
+                      />
+                      Full refund
+                    </label>
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        checked={mode === 'partial'}
+                        onChange={() => setMode('partial')}
+                        className="mr-2 h-4 w-4 text-blue-600 border-gray-300"
+                      />
+                      Partial refund
+                    </label>
+                  </div>
+                  {mode === 'partial' && (
+                    <div>
+                      <label htmlFor="refund_amount" className="block text-sm font-medium text-gray-700">Amount ($)</label>
+                      <input
+                        type="number"
+                        id="refund_amount"
+                        min="0.01"
+                        step="0.01"
+                        max={(refundable / 100).toFixed(2)}
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        required
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label htmlFor="refund_reason" className="block text-sm font-medium text-gray-700">Reason</label>
+                    <textarea
+                      id="refund_reason"
+                      rows={3}
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="rounded-lg bg-gray-50 p-4 text-sm text-gray-700 space-y-1">
+                    <p><strong>Refund:</strong> {isValid ? formatCents(refundCents) : '—'}</p>
+                    <p><strong>From vendor share:</strong> {formatCents(split.vendorAmount)}</p>
+                    <p><strong>From platform share:</strong> {formatCents(split.platformAmount)}</p>
+                    <p className="text-xs text-gray-500">The invoice balance goes back up by the refunded amount.</p>
+                  </div>
+                  <div className="mt-4">
+                    <button
+                      type="submit"
+                      disabled={loading || !isValid}
+                      className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-red-500 disabled:bg-red-400 disabled:cursor-not-allowed"
+                    >
+                      {loading ? (
+                        <>
+                          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                          Refunding...
+                        </>
+                      ) : (
+                        <>
+                          <RotateCcw className="h-5 w-5 mr-2" />
+                          Refund
+                        </>
+                      )}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="ml-2 inline-flex justify-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 border border-transparent rounded-md hover:bg-gray-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-gray-500"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
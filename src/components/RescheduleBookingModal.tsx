@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { Fragment } from 'react';
+import { CalendarClock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { addDays, subDays } from 'date-fns';
+import { getRescheduleEvents, rescheduleBooking, sendBookingNotice } from '../repositories/bookingChanges';
+import { getVendorSchedule } from '../repositories/vendorAvailability';
+import { shiftEvents } from '../utils/bookingChanges';
+import { findScheduleConflicts } from '../utils/vendorAvailability';
+import type { Tables } from '../types/database';
+
+interface RescheduleBookingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  booking: Pick<Tables<'bookings'>, 'id' | 'couple_id' | 'vendor_id' | 'event_id' | 'venue_id'>;
+  onRescheduled: () => void;
+}
+
+type RescheduleEvents = Awaited<ReturnType<typeof getRescheduleEvents>>;
+
+// datetime-local inputs take the local time without a zone
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export default function RescheduleBookingModal({ isOpen, onClose, booking, onRescheduled }: RescheduleBookingModalProps) {
+  const [events, setEvents] = useState<RescheduleEvents>([]);
+  const [startTime, setStartTime] = useState('');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const bookingEvent = events.find(event => event.id === booking.event_id) ?? null;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setReason('');
+
+    getRescheduleEvents({ couple_id: booking.couple_id, vendor_id: booking.vendor_id, event_id: booking.event_id })
+      .then(data => {
+        setEvents(data);
+        const current = data.find(event => event.id === booking.event_id);
+        setStartTime(current ? toLocalInput(current.start_time) : '');
+      })
+      .catch(error => {
+        console.error('[RescheduleBookingModal] Error fetching events:', error);
+        toast.error('Failed to load the booking events');
+      });
+  }, [isOpen, booking.couple_id, booking.vendor_id, booking.event_id]);
+
+  const newStart = startTime ? new Date(startTime) : null;
+  const shiftMs = bookingEvent && newStart ? newStart.getTime() - Date.parse(bookingEvent.start_time) : 0;
+  const moved = shiftMs !== 0 ? shiftEvents(events, shiftMs) : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bookingEvent || !newStart || shiftMs === 0) {
+      toast.error('Pick a new start time');
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      // Blackouts and overlaps are refused by the RPC too; travel warnings are
+      // the booker's call. The moved events are checked against the rest of
+      // the vendor's calendar, not against where they are now.
+      const movedIds = new Set(moved.map(event => event.id));
+      const schedule = await getVendorSchedule(
+        booking.vendor_id,
+        subDays(new Date(Math.min(...moved.map(event => Date.parse(event.start_time)))), 1).toISOString(),
+        addDays(new Date(Math.max(...moved.map(event => Date.parse(event.end_time)))), 1).toISOString()
+      );
+      const rest = { ...schedule, events: schedule.events.filter(event => !movedIds.has(event.id)) };
+      const conflicts = moved
+        .filter(event => event.is_blocked_time)
+        .flatMap(event => findScheduleConflicts({
+          start_time: event.start_time,
+          end_time: event.end_time,
+          venue_id: event.id === booking.event_id ? booking.venue_id : null,
+        }, rest));
+      const blocking = conflicts.find(conflict => conflict.blocking);
+      if (blocking) throw new Error(blocking.message);
+      if (conflicts.length > 0 && !window.confirm(`${conflicts.map(conflict => conflict.message).join('\n')}\n\nReschedule anyway?`)) {
+        return;
+      }
+
+      const reschedules = await rescheduleBooking(booking.id, newStart.toISOString(), reason.trim() || null);
+      toast.success(`Moved ${reschedules.length} event${reschedules.length === 1 ? '' : 's'}`);
+      try {
+        await sendBookingNotice(booking.id, 'rescheduled');
+      } catch (error) {
+        console.error('[RescheduleBookingModal] Error sending reschedule notice:', error);
+        toast.error('The couple and vendor could not be emailed about the new date');
+      }
+      onRescheduled();
+      onClose();
+    } catch (error) {
+      console.error('[RescheduleBookingModal] Error rescheduling booking:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reschedule booking');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-75" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                  Reschedule Booking
+                </Dialog.Title>
+                <p className="mt-1 text-sm text-gray-500">
+                  The booking's event and the couple's other upcoming events with this vendor move by the same amount.
+                </p>
+                {bookingEvent ? (
+                  <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+                    <div>
+                      <label htmlFor="reschedule_start" className="block text-sm font-medium text-gray-700">New start</label>
+                      <input
+                        type="datetime-local"
+                        id="reschedule_start"
+                        value={startTime}
+                        onChange={(e) => setStartTime(e.target.value)}
+                        required
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="reschedule_reason" className="block text-sm font-medium text-gray-700">Reason</label>
+                      <textarea
+                        id="reschedule_reason"
+                        rows={2}
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    {moved.length > 0 && (
+                      <div className="rounded-lg bg-gray-50 p-4 text-sm text-gray-700 space-y-1">
+                        {moved.map(event => {
+                          const previous = events.find(candidate => candidate.id === event.id);
+                          return (
+                            <p key={event.id}>
+                              <strong>{event.title || event.type}:</strong>{' '}
+                              {previous && new Date(previous.start_time).toLocaleString()} &rarr; {new Date(event.start_time).toLocaleString()}
+                            </p>
+                          );
+                        })}
+                      </div>
+                    )}
+                    <div className="mt-4">
+                      <button
+                        type="submit"
+                        disabled={loading || moved.length === 0}
+                        className="inline-flex justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-blue-500 disabled:bg-blue-400 disabled:cursor-not-allowed"
+                      >
+                        {loading ? (
+                          <>
+                            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                            Rescheduling...
+                          </>
+                        ) : (
+                          <>
+                            <CalendarClock className="h-5 w-5 mr-2" />
+                            Reschedule
+                          </>
+                        )}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={onClose}
+                        className="ml-2 inline-flex justify-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 border border-transparent rounded-md hover:bg-gray-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-gray-500"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <p className="mt-4 text-sm text-gray-500">This booking has no event to move.</p>
+                )}
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
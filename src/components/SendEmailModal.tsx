@@ -4,6 +4,7 @@ import { Fragment } from 'react';
 import { Save, X } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
 import ReactQuill from 'react-quill';
 import 'react-quill/dist/quill.snow.css';
 
@@ -33,6 +34,7 @@ export default function SendEmailModal({ isOpen, onClose, onEmailSent }: SendEma
   const [subject, setSubject] = useState('');
   const [body, setBody] = useState('');
   const [loading, setLoading] = useState(false);
+  const canBroadcast = usePermission('emails.broadcast');
   const [attachment, setAttachment] = useState<File | null>(null);
 
   const quillRef = useRef<ReactQuill>(null);
@@ -100,7 +102,7 @@ export default function SendEmailModal({ isOpen, onClose, onEmailSent }: SendEma
       }
 
       const vendorsData = vendorsResult.data
-        .map((vendor) => {
+        .map((vendor): Recipient | null => {
           const email = vendor.user_id ? userEmails[vendor.user_id] : '';
           if (!email) {
             console.warn(`No email found for vendor ${vendor.id} (user_id: ${vendor.user_id})`);
@@ -111,7 +113,7 @@ export default function SendEmailModal({ isOpen, onClose, onEmailSent }: SendEma
         .filter((v): v is Recipient => v !== null);
 
       const couplesData = couplesResult.data
-        .map((couple) => {
+        .map((couple): Recipient | null => {
           const email = couple.user_id ? userEmails[couple.user_id] : '';
           if (!email) {
             console.warn(`No email found for couple ${couple.id} (user_id: ${couple.user_id})`);
@@ -127,14 +129,14 @@ export default function SendEmailModal({ isOpen, onClose, onEmailSent }: SendEma
         })
         .filter((c): c is Recipient => c !== null);
 
-      const leadsData = leadsResult.data.map((lead) => ({
+      const leadsData = leadsResult.data.map((lead): Recipient => ({
         id: lead.id,
         name: lead.partner_name ? `${lead.name} & ${lead.partner_name}` : lead.name,
         email: lead.email,
         type: 'lead',
       }));
 
-      const subscribersData = subscribersResult.data.map((sub) => ({
+      const subscribersData = subscribersResult.data.map((sub): Recipient => ({
         id: sub.id,
         name: sub.name || 'Subscriber',
         email: sub.email,
@@ -258,6 +260,9 @@ export default function SendEmailModal({ isOpen, onClose, onEmailSent }: SendEma
       if (recipients.length === 0 && !recipientEmail) {
         throw new Error('Please select at least one recipient or enter an email address');
       }
+      if (!canBroadcast && recipients.length + (recipientEmail ? 1 : 0) > 1) {
+        throw new Error('You do not have permission to email multiple recipients');
+      }
 
       let attachmentUrl = null;
       if (attachment) {
@@ -350,11 +355,15 @@ export default function SendEmailModal({ isOpen, onClose, onEmailSent }: SendEma
     onClose();
   };
 
-  const isSendDisabled = loading || (getSelectedRecipients().length === 0 && !recipientEmail) || !subject || !body;
+  const recipientCount = getSelectedRecipients().length + (recipientEmail ? 1 : 0);
+  const exceedsBroadcastPermission = !canBroadcast && recipientCount > 1;
+  const isSendDisabled = loading || recipientCount === 0 || exceedsBroadcastPermission || !subject || !body;
 
   const sendButtonTooltip = isSendDisabled
-    ? ((getSelectedRecipients().length === 0 && !recipientEmail)
+    ? (recipientCount === 0
         ? 'Select at least one recipient or enter an email'
+        : exceedsBroadcastPermission
+        ? 'You can only email one recipient at a time'
         : !subject
         ? 'Subject is required'
         : !body
@@ -0,0 +1,287 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  areIntervalsOverlapping,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { CalendarDays, ChevronLeft, ChevronRight, Plus, Save, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
+import { addVendorBlackout, deleteVendorBlackout, getVendorSchedule } from '../repositories/vendorAvailability';
+import { updateVendor } from '../repositories/vendors';
+import type { VendorSchedule } from '../utils/vendorAvailability';
+
+interface VendorAvailabilityCalendarProps {
+  vendorId: string;
+}
+
+type View = 'month' | 'week';
+
+const dayInterval = (day: Date) => ({ start: startOfDay(day), end: endOfDay(day) });
+const spans = (day: Date, start: string, end: string) =>
+  areIntervalsOverlapping(dayInterval(day), { start: parseISO(start), end: parseISO(end) });
+
+export default function VendorAvailabilityCalendar({ vendorId }: VendorAvailabilityCalendarProps) {
+  const [view, setView] = useState<View>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [schedule, setSchedule] = useState<VendorSchedule | null>(null);
+  const [travelBuffer, setTravelBuffer] = useState('');
+  const [blackout, setBlackout] = useState({ start: '', end: '', reason: '' });
+  const [saving, setSaving] = useState(false);
+  const canEdit = usePermission('vendors.write');
+
+  const rangeStart = view === 'month' ? startOfWeek(startOfMonth(anchor)) : startOfWeek(anchor);
+  const rangeEnd = view === 'month' ? endOfWeek(endOfMonth(anchor)) : endOfWeek(anchor);
+  const days = eachDayOfInterval({ start: rangeStart, end: rangeEnd });
+  const from = rangeStart.toISOString();
+  const to = rangeEnd.toISOString();
+
+  const fetchSchedule = useCallback(async () => {
+    try {
+      const data = await getVendorSchedule(vendorId, from, to);
+      setSchedule(data);
+      setTravelBuffer(String(data.travelBufferMinutes));
+    } catch (error) {
+      console.error('Error fetching vendor availability:', error);
+      toast.error('Failed to load availability');
+    }
+  }, [vendorId, from, to]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  const step = (direction: 1 | -1) =>
+    setAnchor(prev => (view === 'month' ? addMonths(prev, direction) : addWeeks(prev, direction)));
+
+  const handleAddBlackout = async () => {
+    if (!blackout.start) {
+      toast.error('Pick the first day of the blackout');
+      return;
+    }
+    const end = blackout.end || blackout.start;
+    if (end < blackout.start) {
+      toast.error('The blackout must end on or after its first day');
+      return;
+    }
+    try {
+      setSaving(true);
+      await addVendorBlackout({
+        vendor_id: vendorId,
+        starts_at: startOfDay(parseISO(blackout.start)).toISOString(),
+        // Through the end of the last day
+        ends_at: startOfDay(addDays(parseISO(end), 1)).toISOString(),
+        reason: blackout.reason.trim() || null,
+      });
+      setBlackout({ start: '', end: '', reason: '' });
+      toast.success('Blackout added');
+      fetchSchedule();
+    } catch (error) {
+      console.error('Error adding blackout:', error);
+      toast.error('Failed to add blackout');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteBlackout = async (id: string) => {
+    if (!window.confirm('Remove this blackout? The vendor can be booked on these days again.')) return;
+    try {
+      await deleteVendorBlackout(id);
+      toast.success('Blackout removed');
+      fetchSchedule();
+    } catch (error) {
+      console.error('Error removing blackout:', error);
+      toast.error('Failed to remove blackout');
+    }
+  };
+
+  const handleSaveTravelBuffer = async () => {
+    const minutes = parseInt(travelBuffer, 10);
+    if (!Number.isInteger(minutes) || minutes < 0) {
+      toast.error('The travel buffer is a number of minutes, 0 or more');
+      return;
+    }
+    try {
+      setSaving(true);
+      await updateVendor(vendorId, { travel_buffer_minutes: minutes });
+      setSchedule(prev => (prev ? { ...prev, travelBufferMinutes: minutes } : prev));
+      toast.success('Travel buffer saved');
+    } catch (error) {
+      console.error('Error saving travel buffer:', error);
+      toast.error('Failed to save travel buffer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const title = view === 'month'
+    ? format(anchor, 'MMMM yyyy')
+    : `${format(rangeStart, 'MMM d')} – ${format(rangeEnd, 'MMM d, yyyy')}`;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <CalendarDays className="h-5 w-5 text-blue-600 mr-2" />
+          Availability
+        </h2>
+        <div className="flex items-center space-x-2">
+          <button onClick={() => step(-1)} className="p-2 rounded-md hover:bg-gray-100" aria-label="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="text-sm font-medium text-gray-900 w-48 text-center">{title}</span>
+          <button onClick={() => step(1)} className="p-2 rounded-md hover:bg-gray-100" aria-label="Next">
+            <ChevronRight className="h-4 w-4" />
+          </button>
+          <button onClick={() => setAnchor(new Date())} className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50">
+            Today
+          </button>
+          <select
+            value={view}
+            onChange={(e) => setView(e.target.value as View)}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="month">Month</option>
+            <option value="week">Week</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 border-t border-l border-gray-200 text-sm">
+        {days.slice(0, 7).map(day => (
+          <div key={`head-${day.toISOString()}`} className="px-2 py-1 border-r border-b border-gray-200 bg-gray-50 text-xs font-medium text-gray-500 uppercase">
+            {format(day, 'EEE')}
+          </div>
+        ))}
+        {days.map(day => {
+          const dayEvents = (schedule?.events || [])
+            .filter(event => spans(day, event.start_time, event.end_time))
+            .sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time));
+          const blackedOut = (schedule?.blackouts || []).find(item => spans(day, item.starts_at, item.ends_at));
+          const shown = view === 'month' ? dayEvents.slice(0, 3) : dayEvents;
+          return (
+            <div
+              key={day.toISOString()}
+              className={`border-r border-b border-gray-200 p-1 ${view === 'month' ? 'min-h-24' : 'min-h-48'} ${
+                blackedOut ? 'bg-gray-100' : ''
+              } ${view === 'month' && !isSameMonth(day, anchor) ? 'text-gray-400' : ''}`}
+              title={blackedOut ? `Blacked out${blackedOut.reason ? `: ${blackedOut.reason}` : ''}` : undefined}
+            >
+              <div className={`text-xs font-medium mb-1 ${isToday(day) ? 'text-blue-600' : ''}`}>{format(day, 'd')}</div>
+              {blackedOut && <div className="text-xs text-gray-600 italic mb-1">Blacked out</div>}
+              {shown.map(event => (
+                <div
+                  key={event.id}
+                  className={`text-xs rounded px-1 py-0.5 mb-1 truncate ${
+                    event.is_blocked_time ? 'bg-blue-100 text-blue-800' : 'bg-gray-50 text-gray-600 border border-dashed border-gray-300'
+                  }`}
+                  title={`${event.title}: ${format(parseISO(event.start_time), 'MMM d h:mm a')} – ${format(parseISO(event.end_time), 'MMM d h:mm a')}`}
+                >
+                  {format(parseISO(event.start_time), 'h:mm a')} {event.title}
+                </div>
+              ))}
+              {dayEvents.length > shown.length && (
+                <div className="text-xs text-gray-500">+{dayEvents.length - shown.length} more</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Blackouts</h3>
+          {(schedule?.blackouts || []).length === 0 ? (
+            <p className="text-sm text-gray-500">No blackouts in this period.</p>
+          ) : (
+            <ul className="space-y-1 mb-3">
+              {schedule!.blackouts.map(item => (
+                <li key={item.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    {format(parseISO(item.starts_at), 'MMM d, yyyy')} – {format(addDays(parseISO(item.ends_at), -1), 'MMM d, yyyy')}
+                    {item.reason && <span className="text-gray-500"> ({item.reason})</span>}
+                  </span>
+                  {canEdit && (
+                    <button onClick={() => handleDeleteBlackout(item.id)} className="text-red-600 hover:text-red-800" aria-label="Remove blackout">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {canEdit && (
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <input
+                type="date"
+                value={blackout.start}
+                onChange={(e) => setBlackout(prev => ({ ...prev, start: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+              <input
+                type="date"
+                value={blackout.end}
+                min={blackout.start || undefined}
+                onChange={(e) => setBlackout(prev => ({ ...prev, end: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+              <input
+                type="text"
+                value={blackout.reason}
+                onChange={(e) => setBlackout(prev => ({ ...prev, reason: e.target.value }))}
+                placeholder="Reason (optional)"
+                className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+              <button
+                onClick={handleAddBlackout}
+                disabled={saving}
+                className="col-span-2 inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4 mr-2" /> Add Blackout
+              </button>
+            </div>
+          )}
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Travel buffer</h3>
+          <p className="text-sm text-gray-500 mb-2">
+            Minutes the vendor needs between bookings at different venues. Bookings closer together than this get a warning.
+          </p>
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              min="0"
+              step="15"
+              value={travelBuffer}
+              onChange={(e) => setTravelBuffer(e.target.value)}
+              disabled={!canEdit}
+              className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {canEdit && (
+              <button
+                onClick={handleSaveTravelBuffer}
+                disabled={saving}
+                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+              >
+                <Save className="h-4 w-4 mr-2" /> Save
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
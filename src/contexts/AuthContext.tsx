@@ -1,15 +1,16 @@
 import React, { createContext, useContext, useEffect, useState } from 'react'
 import { User, Session } from '@supabase/supabase-js'
-import { supabase } from '../lib/supabase'
+import { supabase, isMockBackend } from '../lib/supabase'
 import toast from 'react-hot-toast'
 import { useNavigate, useLocation } from 'react-router-dom'
+import { Permission, PermissionSet, resolvePermissions } from '../lib/permissions'
 
 interface Profile {
   id: string
   role: string
   admin_level: string
   description: string | null
-  permissions: any
+  permissions: PermissionSet | null
 }
 
 interface AuthContextType {
@@ -24,6 +25,8 @@ interface AuthContextType {
   signOut: () => Promise<void>
   isAdmin: boolean
   isSuperAdmin: boolean
+  permissions: PermissionSet
+  hasPermission: (permission: Permission) => boolean
   profileError: string | null
   debugInfo: any
   refetchProfile: () => Promise<void>
@@ -41,7 +44,7 @@ const ADMIN_LEVELS = {
 type AdminLevel = keyof typeof ADMIN_LEVELS
 
 // Timeout wrapper for database queries (but not for auth operations)
-function withTimeout<T>(promise: Promise<T>, timeoutMs: number = 10000): Promise<T> {
+function withTimeout<T>(promise: PromiseLike<T>, timeoutMs: number = 10000): Promise<T> {
   return Promise.race([
     promise,
     new Promise<T>((_, reject) => 
@@ -64,22 +67,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     const initializeAuth = async () => {
       try {
-        // Check if Supabase is properly configured
-        if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY) {
-          setError('Supabase configuration missing. Please click "Connect to Supabase" in the top right to set up your project.')
-          setLoading(false)
-          return
-        }
+        // The mock backend (see lib/supabase.ts) needs no project and always has a
+        // session for the seeded admin
+        if (!isMockBackend) {
+          // Check if Supabase is properly configured
+          if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY) {
+            setError('Supabase configuration missing. Please click "Connect to Supabase" in the top right to set up your project.')
+            setLoading(false)
+            return
+          }
 
-        // Check if we have placeholder values (not connected yet)
-        if (import.meta.env.VITE_SUPABASE_URL === 'https://placeholder.supabase.co' || 
-            import.meta.env.VITE_SUPABASE_ANON_KEY === 'placeholder-key') {
-          setError('Supabase not connected. Please click "Connect to Supabase" in the top right to set up your project.')
-          setLoading(false)
-          return
+          // Check if we have placeholder values (not connected yet)
+          if (import.meta.env.VITE_SUPABASE_URL === 'https://placeholder.supabase.co' || 
+              import.meta.env.VITE_SUPABASE_ANON_KEY === 'placeholder-key') {
+            setError('Supabase not connected. Please click "Connect to Supabase" in the top right to set up your project.')
+            setLoading(false)
+            return
+          }
         }
 
-        console.log('Initializing auth...')
+        console.log('Initializing auth...', isMockBackend ? '(mock backend)' : '')
 
         // Get initial session WITHOUT timeout wrapper - let Supabase handle its own timeouts
         const { data: { session }, error: sessionError } = await supabase.auth.getSession()
@@ -444,6 +451,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const isAdmin = profile?.role === 'admin' && ADMIN_LEVELS[profile.admin_level as AdminLevel] >= ADMIN_LEVELS.admin
   const isSuperAdmin = profile?.role === 'admin' && profile.admin_level === 'super_admin'
+  const permissions = profile ? resolvePermissions(profile.admin_level, profile.permissions) : {}
+  const hasPermission = (permission: Permission) => !!permissions[permission]
 
   const value = {
     user,
@@ -457,6 +466,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     signOut,
     isAdmin,
     isSuperAdmin,
+    permissions,
+    hasPermission,
     profileError,
     debugInfo,
     refetchProfile,
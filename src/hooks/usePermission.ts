@@ -0,0 +1,7 @@
+import { useAuth } from '../contexts/AuthContext';
+import { Permission } from '../lib/permissions';
+
+export function usePermission(permission: Permission) {
+  const { hasPermission } = useAuth();
+  return hasPermission(permission);
+}
@@ -6,16 +6,16 @@ import { Vendor, VendorService, VendorServicePackage, VendorReview, VendorGear }
 export function useVendorData(id?: string) {
   const [vendor, setVendor] = useState<Vendor | null>(null);
   const [vendorEmail, setVendorEmail] = useState<string | null>(null);
-  const [availableServicePackages, setAvailableServicePackages] = useState<{ id: string; name: string; service_type: string; event_type: string }[]>([]);
+  const [availableServicePackages, setAvailableServicePackages] = useState<{ id: string; name: string; service_type: string; event_type: string | null }[]>([]);
   const [couples, setCouples] = useState<{ id: string; name: string }[]>([]);
-  const [serviceAreaOptions, setServiceAreaOptions] = useState<{ id: string; region: string; state: string }[]>([]);
+  const [serviceAreaOptions, setServiceAreaOptions] = useState<{ id: string; region: string | null; state: string }[]>([]);
   const [vendorServiceAreas, setVendorServiceAreas] = useState<{ id: string; service_area_id: string; state: string; region: string }[]>([]);
   const [languageOptions, setLanguageOptions] = useState<{ id: string; language: string }[]>([]);
   const [vendorLanguages, setVendorLanguages] = useState<{ id: string; vendor_id: string; language_id: string; language: string }[]>([]);
   const [vendorGear, setVendorGear] = useState<VendorGear[]>([]);
-  const [styleTagOptions, setStyleTagOptions] = useState<{ id: number; label: string; description?: string }[]>([]);
+  const [styleTagOptions, setStyleTagOptions] = useState<{ id: number; label: string; description?: string | null }[]>([]);
   const [vendorStyleTags, setVendorStyleTags] = useState<{ id: string; vendor_id: string; style_id: number; label: string; description?: string }[]>([]);
-  const [vibeTagOptions, setVibeTagOptions] = useState<{ id: number; label: string; description?: string }[]>([]);
+  const [vibeTagOptions, setVibeTagOptions] = useState<{ id: number; label: string; description?: string | null }[]>([]);
   const [vendorVibeTags, setVendorVibeTags] = useState<{ id: string; vendor_id: string; vibe_id: number; label: string; description?: string }[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -45,19 +45,24 @@ export function useVendorData(id?: string) {
         throw error;
       }
       console.log('Fetched vendor data:', data);
-      setVendor({ ...data, languages: data.vendor_languages?.map((lang: any) => lang.languages.language).sort() || [] });
+      const vendorLanguages = data.vendor_languages?.map(lang => ({
+        id: lang.id,
+        vendor_id: lang.vendor_id,
+        language_id: lang.language_id,
+        language: lang.languages?.language || 'Unknown',
+      })) || [];
+      setVendor({
+        ...data,
+        vendor_languages: vendorLanguages,
+        languages: vendorLanguages.map(lang => lang.language).sort(),
+      });
       setVendorServiceAreas(data.vendor_service_areas?.map((area: any) => ({
         id: area.id,
         service_area_id: area.service_area_id,
         state: area.state || area.service_areas?.state || 'N/A',
         region: area.region || area.service_areas?.region || 'N/A',
       })) || []);
-      setVendorLanguages(data.vendor_languages?.map((lang: any) => ({
-        id: lang.id,
-        vendor_id: lang.vendor_id,
-        language_id: lang.language_id,
-        language: lang.languages?.language || 'Unknown',
-      })) || []);
+      setVendorLanguages(vendorLanguages);
       setVendorGear(data.vendor_gear || []);
 
       if (data.user_id) {
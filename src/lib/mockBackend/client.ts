@@ -0,0 +1,164 @@
+import { MockQueryBuilder, mockError } from './query';
+import { runRpc, invokeFunction } from './handlers';
+import { getTable, resetMockBackend } from './store';
+import { MOCK_ADMIN_ID, MOCK_ADMIN_EMAIL } from './fixtures';
+
+type AuthEvent = 'SIGNED_IN' | 'SIGNED_OUT' | 'PASSWORD_RECOVERY';
+type AuthListener = (event: AuthEvent, session: MockSession | null) => void;
+
+interface MockSession {
+  access_token: string;
+  refresh_token: string;
+  token_type: 'bearer';
+  expires_in: number;
+  user: MockUser;
+}
+
+interface MockUser {
+  id: string;
+  email: string;
+  aud: 'authenticated';
+  role: 'authenticated';
+  app_metadata: Record<string, unknown>;
+  user_metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+// Signed-out state is remembered so "Sign out" sticks across reloads; any
+// sign-in method logs back in as the seeded admin.
+const SIGNED_OUT_KEY = 'mock-backend:signed-out';
+
+function createAuth() {
+  const listeners = new Set<AuthListener>();
+
+  const adminUser = (): MockUser => {
+    const row = getTable('users').find(user => user.id === MOCK_ADMIN_ID);
+    return {
+      id: MOCK_ADMIN_ID,
+      email: MOCK_ADMIN_EMAIL,
+      aud: 'authenticated',
+      role: 'authenticated',
+      app_metadata: { provider: 'email' },
+      user_metadata: {},
+      created_at: String(row?.created_at ?? new Date().toISOString()),
+    };
+  };
+
+  const currentSession = (): MockSession | null => {
+    if (localStorage.getItem(SIGNED_OUT_KEY)) return null;
+    return {
+      access_token: 'mock-access-token',
+      refresh_token: 'mock-refresh-token',
+      token_type: 'bearer',
+      expires_in: 3600,
+      user: adminUser(),
+    };
+  };
+
+  const emit = (event: AuthEvent) => {
+    const session = currentSession();
+    // Supabase notifies listeners asynchronously; keep the same ordering here
+    setTimeout(() => listeners.forEach(listener => listener(event, session)), 0);
+  };
+
+  const signIn = async () => {
+    localStorage.removeItem(SIGNED_OUT_KEY);
+    emit('SIGNED_IN');
+    const session = currentSession();
+    return { data: { user: session?.user ?? null, session }, error: null };
+  };
+
+  return {
+    getSession: async () => ({ data: { session: currentSession() }, error: null }),
+    getUser: async () => ({ data: { user: currentSession()?.user ?? null }, error: null }),
+    onAuthStateChange: (listener: AuthListener) => {
+      listeners.add(listener);
+      return { data: { subscription: { id: crypto.randomUUID(), unsubscribe: () => listeners.delete(listener) } } };
+    },
+    signInWithPassword: signIn,
+    signInWithOtp: signIn,
+    signInWithOAuth: signIn,
+    signOut: async () => {
+      localStorage.setItem(SIGNED_OUT_KEY, 'true');
+      emit('SIGNED_OUT');
+      return { error: null };
+    },
+    resetPasswordForEmail: async () => ({ data: {}, error: null }),
+  };
+}
+
+// Uploaded files live only for the page session; getPublicUrl hands back an
+// object URL for them and a placeholder URL for paths that were never uploaded.
+function createStorage() {
+  const buckets = new Map<string, Map<string, Blob>>();
+
+  const bucket = (name: string) => {
+    if (!buckets.has(name)) buckets.set(name, new Map());
+    return buckets.get(name)!;
+  };
+
+  const urlFor = (name: string, path: string) => {
+    const file = bucket(name).get(path);
+    return file ? URL.createObjectURL(file) : `https://mock-storage.local/${name}/${path}`;
+  };
+
+  return {
+    from: (name: string) => ({
+      upload: async (path: string, file: Blob, options: { upsert?: boolean } = {}) => {
+        if (bucket(name).has(path) && !options.upsert) {
+          return { data: null, error: mockError('The resource already exists', '409') };
+        }
+        bucket(name).set(path, file);
+        return { data: { path, id: crypto.randomUUID(), fullPath: `${name}/${path}` }, error: null };
+      },
+      getPublicUrl: (path: string) => ({ data: { publicUrl: urlFor(name, path) } }),
+      createSignedUrl: async (path: string) => ({ data: { signedUrl: urlFor(name, path) }, error: null }),
+      download: async (path: string) => {
+        const file = bucket(name).get(path);
+        return file
+          ? { data: file, error: null }
+          : { data: null, error: mockError('Object not found', '404') };
+      },
+      remove: async (paths: string[]) => {
+        paths.forEach(path => bucket(name).delete(path));
+        return { data: paths.map(path => ({ name: path })), error: null };
+      },
+      list: async (prefix = '') => ({
+        data: [...bucket(name).keys()]
+          .filter(path => path.startsWith(prefix))
+          .map(path => ({ name: path.slice(prefix ? prefix.length + 1 : 0), id: path })),
+        error: null,
+      }),
+    }),
+  };
+}
+
+// Realtime has nothing to push offline; channels accept subscriptions and never fire.
+function createChannel(topic: string) {
+  const channel = {
+    topic,
+    on: () => channel,
+    subscribe: () => channel,
+    unsubscribe: async () => 'ok' as const,
+  };
+  return channel;
+}
+
+// A stand-in for the supabase-js client covering the surface the dashboard uses.
+// lib/supabase.ts hands it out instead of the real client in dev builds run with
+// VITE_USE_MOCK_BACKEND=true, seeded from ./fixtures.
+export function createMockClient() {
+  return {
+    from: (table: string) => new MockQueryBuilder(table),
+    rpc: (name: string, args?: Record<string, unknown>) => Promise.resolve(runRpc(name, args)),
+    functions: {
+      invoke: async (name: string, options: { body?: Record<string, unknown> } = {}) =>
+        invokeFunction(name, options.body),
+    },
+    storage: createStorage(),
+    auth: createAuth(),
+    channel: createChannel,
+    removeChannel: async () => 'ok' as const,
+    reset: resetMockBackend,
+  };
+}
@@ -0,0 +1,640 @@
+// Seed data for the mock backend: enough vendors, couples, bookings, invoices
+// and payments for every list and detail page to render something. Ids are
+// fixed so links survive a reset. Amounts are in cents.
+
+const id = (prefix: string, n: number) => `${prefix}-0000-4000-8000-${String(n).padStart(12, '0')}`;
+
+export const MOCK_ADMIN_ID = id('00000000', 1);
+export const MOCK_ADMIN_EMAIL = 'admin@example.com';
+
+const timestamp = '2026-01-15T15:00:00.000Z';
+
+const vendorNames = [
+  ['Golden Hour Photography', 'Photography', 'CA', 'Los Angeles'],
+  ['Reel Love Films', 'Videography', 'CA', 'San Francisco Bay Area'],
+  ['Beat Drop DJs', 'DJ Services', 'NY', 'New York City'],
+  ['Petal & Stem Florals', 'Floral Design', 'TX', 'Austin'],
+  ['Vow Keeper Officiants', 'Officiant', 'FL', 'Miami'],
+] as const;
+
+const coupleNames = [
+  ['Alex', 'Jordan', '2026-06-20'],
+  ['Sam', 'Taylor', '2026-08-08'],
+  ['Morgan', 'Casey', '2026-09-12'],
+  ['Riley', 'Avery', '2026-10-03'],
+  ['Jamie', 'Quinn', '2027-04-17'],
+  ['Drew', 'Parker', '2027-05-29'],
+] as const;
+
+const venues = [
+  { id: id('30000000', 1), name: 'Rosewood Estate', phone: '(555) 010-2000', email: 'events@rosewood.example.com', contact_name: 'Dana Lee', street_address: '12 Vineyard Rd', city: 'Napa', state: 'CA', zip: '94558', region: 'Northern California', service_area_id: null, insurance: null, time_zone: 'America/Los_Angeles', created_at: timestamp, updated_at: timestamp },
+  { id: id('30000000', 2), name: 'The Foundry Loft', phone: '(555) 010-2001', email: 'hello@foundry.example.com', contact_name: 'Chris Ng', street_address: '400 Water St', city: 'Brooklyn', state: 'NY', zip: '11201', region: 'New York City', service_area_id: null, insurance: null, time_zone: 'America/New_York', created_at: timestamp, updated_at: timestamp },
+  { id: id('30000000', 3), name: 'Lakeside Pavilion', phone: null, email: null, contact_name: null, street_address: '9 Shore Dr', city: 'Austin', state: 'TX', zip: '78703', region: 'Austin', service_area_id: null, insurance: null, time_zone: 'America/Chicago', created_at: timestamp, updated_at: timestamp },
+];
+
+const servicePackages = vendorNames.map(([, serviceType], index) => ({
+  id: id('40000000', index + 1),
+  service_type: serviceType,
+  name: `${serviceType} - 8 Hours`,
+  description: `Full-day ${serviceType.toLowerCase()} coverage`,
+  price: 250000 + index * 50000,
+  features: ['8 hours of coverage', 'Online gallery', 'Planning call'],
+  coverage: { events: ['Ceremony', 'Reception'] },
+  hour_amount: 8,
+  event_type: 'Wedding',
+  status: 'approved',
+  vendor_id: null,
+  lookup_key: null,
+  primary_image: null,
+  created_at: timestamp,
+  updated_at: timestamp,
+}));
+
+const serviceAreas = vendorNames.map(([, , state, region], index) => ({ id: id('50000000', index + 1), state, region }));
+
+const vendorUsers = vendorNames.map(([name], index) => ({
+  id: id('10000000', index + 1),
+  email: `${name.toLowerCase().replace(/[^a-z]+/g, '.').replace(/\.$/, '')}@example.com`,
+  created_at: timestamp,
+}));
+
+const coupleUsers = coupleNames.map(([partner1], index) => ({
+  id: id('11000000', index + 1),
+  email: `${partner1.toLowerCase()}@example.com`,
+  created_at: timestamp,
+}));
+
+const vendors = vendorNames.map(([name, serviceType, state, region], index) => ({
+  id: id('20000000', index + 1),
+  user_id: vendorUsers[index].id,
+  auth_id: null,
+  name,
+  profile: `${name} has been serving couples across ${region} for years.`,
+  phone: `(555) 010-10${String(index).padStart(2, '0')}`,
+  phone_number: null,
+  rating: 4.5 + (index % 2) * 0.3,
+  years_experience: 4 + index * 2,
+  profile_photo: null,
+  intro_video: null,
+  portfolio_photos: [],
+  portfolio_videos: [],
+  specialties: [serviceType, 'Weddings'],
+  awards: [],
+  education: null,
+  equipment: null,
+  gear_list: [],
+  social_media: null,
+  business_hours: null,
+  languages: ['English'],
+  service_areas: [state],
+  service_types: [serviceType],
+  travel_buffer_minutes: 60,
+  insurance_info: null,
+  business_license: null,
+  stripe_account_id: index % 2 === 0 ? `acct_mock${index + 1}` : null,
+  stripe_customer_id: null,
+  stripe_status: index % 2 === 0 ? 'active' : null,
+  google_calendar_token: null,
+  google_access_token: null,
+  google_refresh_token: null,
+  google_account_email: null,
+  outlook_access_token: null,
+  calcom_api_key: null,
+  ical_feed_token: null,
+  created_at: timestamp,
+  updated_at: timestamp,
+}));
+
+const couples = coupleNames.map(([partner1, partner2, weddingDate], index) => ({
+  id: id('21000000', index + 1),
+  user_id: coupleUsers[index].id,
+  name: `${partner1} & ${partner2}`,
+  partner1_name: partner1,
+  partner2_name: partner2,
+  email: coupleUsers[index].email,
+  phone: `(555) 010-30${String(index).padStart(2, '0')}`,
+  wedding_date: weddingDate,
+  budget: 3000000 + index * 500000,
+  vibe_tags: index % 2 === 0 ? ['Romantic', 'Classic'] : ['Modern'],
+  guest_count: 80 + index * 20,
+  venue_id: venues[index % venues.length].id,
+  venue_name: venues[index % venues.length].name,
+  venue_street_address: venues[index % venues.length].street_address,
+  venue_city: venues[index % venues.length].city,
+  venue_state: venues[index % venues.length].state,
+  ical_feed_token: null,
+  created_at: timestamp,
+  updated_at: timestamp,
+}));
+
+// Every couple books the photographer and one other vendor
+const bookingPairs = couples.flatMap((couple, index) => {
+  const vendorIndexes = [...new Set([0, (index + 1) % vendors.length])];
+  return vendorIndexes.map(vendorIndex => ({ couple, coupleIndex: index, vendorIndex }));
+});
+
+const events = bookingPairs.map(({ couple, vendorIndex }, index) => ({
+  id: id('60000000', index + 1),
+  vendor_id: vendors[vendorIndex].id,
+  couple_id: couple.id,
+  start_time: `${couple.wedding_date}T21:00:00.000Z`,
+  end_time: new Date(Date.parse(`${couple.wedding_date}T21:00:00.000Z`) + 8 * 60 * 60 * 1000).toISOString(),
+  type: 'Wedding',
+  title: `${couple.name} Wedding`,
+  description: null,
+  location: couple.venue_name,
+  is_blocked_time: true,
+  created_at: timestamp,
+  updated_at: timestamp,
+}));
+
+const bookings = bookingPairs.map(({ couple, coupleIndex, vendorIndex }, index) => {
+  const servicePackage = servicePackages[vendorIndex];
+  const deposit = Math.round(servicePackage.price / 2);
+  const paid = coupleIndex < 3;
+  return {
+    id: id('70000000', index + 1),
+    couple_id: couple.id,
+    vendor_id: vendors[vendorIndex].id,
+    event_id: events[index].id,
+    package_id: servicePackage.id,
+    venue_id: couple.venue_id,
+    status: coupleIndex === 5 ? 'pending_deposit' : 'confirmed',
+    amount: servicePackage.price,
+    service_type: servicePackage.service_type,
+    initial_payment: deposit,
+    final_payment: servicePackage.price - deposit,
+    platform_fee: Math.round(servicePackage.price * 0.1),
+    paid_amount: paid ? servicePackage.price : deposit,
+    vendor_deposit_share: Math.round(deposit * 0.5),
+    platform_deposit_share: deposit - Math.round(deposit * 0.5),
+    vendor_final_share: servicePackage.price - deposit,
+    platform_final_share: 0,
+    platform_total_earnings: deposit - Math.round(deposit * 0.5),
+    vendor_total_earnings: servicePackage.price - deposit + Math.round(deposit * 0.5),
+    tip_amount: null,
+    final_payment_status: paid ? 'paid' : 'pending',
+    cancelled_at: null,
+    cancellation_reason: null,
+    cancellation_refund_percentage: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+});
+
+// Bookings start their history where they were when the lifecycle was introduced
+const bookingStatusHistory = bookings.map((booking, index) => ({
+  id: id('88000000', index + 1),
+  booking_id: booking.id,
+  from_status: null,
+  to_status: booking.status,
+  note: 'Status before the booking lifecycle was introduced',
+  changed_by: null,
+  changed_at: booking.created_at,
+}));
+
+const invoices = bookings.map((booking, index) => ({
+  id: id('80000000', index + 1),
+  recipient_type: 'couple',
+  couple_id: booking.couple_id,
+  vendor_id: booking.vendor_id,
+  total_amount: booking.amount,
+  remaining_balance: booking.amount - booking.paid_amount,
+  discount_amount: 0,
+  discount_percentage: 0,
+  deposit_amount: booking.initial_payment,
+  tax_state: null,
+  tax_rate: 0,
+  tax_amount: 0,
+  card_fee_percentage: 0,
+  card_fee_amount: 0,
+  status: booking.amount === booking.paid_amount ? 'paid' : index % 3 === 0 ? 'draft' : 'pending',
+  // Open invoices fall at different points of the reminder schedule
+  due_date: booking.amount === booking.paid_amount || index % 3 === 0
+    ? null
+    : ['2026-09-20', '2026-10-05', '2026-10-12', '2026-10-21'][index % 4],
+  credited_amount: 0,
+  voided_at: null,
+  void_reason: null,
+  voided_by: null,
+  paid_at: booking.amount === booking.paid_amount ? timestamp : null,
+  payment_token: id('81000000', index + 1),
+  stripe_payment_intent_id: null,
+  created_at: timestamp,
+  updated_at: timestamp,
+}));
+
+const invoiceLineItems = bookings.map((booking, index) => ({
+  id: id('82000000', index + 1),
+  invoice_id: invoices[index].id,
+  type: 'service_package',
+  service_package_id: booking.package_id,
+  store_product_id: null,
+  booking_id: booking.id,
+  vendor_id: booking.vendor_id,
+  stripe_account_id: null,
+  custom_description: null,
+  custom_price: booking.amount,
+  quantity: 1,
+  taxable: false,
+  created_at: timestamp,
+}));
+
+const payments = bookings.flatMap((booking, index) => {
+  const deposit = {
+    id: id('90000000', index * 2 + 1),
+    invoice_id: invoices[index].id,
+    booking_id: booking.id,
+    amount: booking.initial_payment,
+    status: 'succeeded',
+    payment_type: 'deposit',
+    stripe_payment_id: `pi_mock_deposit_${index + 1}`,
+    to_platform: true,
+    installment_id: null,
+    created_at: '2026-02-01T18:00:00.000Z',
+  };
+  if (booking.final_payment_status !== 'paid') return [deposit];
+  return [deposit, {
+    ...deposit,
+    id: id('90000000', index * 2 + 2),
+    amount: booking.final_payment,
+    payment_type: 'final',
+    stripe_payment_id: `pi_mock_final_${index + 1}`,
+    created_at: '2026-05-01T18:00:00.000Z',
+  }];
+});
+
+// The first open invoice pays its balance in three monthly installments, the
+// first two of them already overdue
+const plannedInvoice = invoices.find(invoice => invoice.status === 'pending');
+const invoiceInstallments = plannedInvoice
+  ? ['2026-09-01', '2026-10-01', '2026-11-01'].map((dueDate, index) => ({
+    id: id('84000000', index + 1),
+    invoice_id: plannedInvoice.id,
+    sequence: index + 1,
+    amount: Math.floor(plannedInvoice.remaining_balance / 3) + (index < plannedInvoice.remaining_balance % 3 ? 1 : 0),
+    due_date: dueDate,
+    payment_token: id('85000000', index + 1),
+    paid_amount: 0,
+    status: 'pending',
+    paid_at: null,
+    last_reminded_at: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+  }))
+  : [];
+
+const dunningSteps = [
+  {
+    name: 'Upcoming',
+    offset_days: -3,
+    subject: 'Invoice {{invoice_number}} is due {{due_date}}',
+    body: 'Hi {{recipient_name}},\n\nA friendly reminder that {{amount_due}} on invoice {{invoice_number}} is due on {{due_date}}.\n\nYou can pay online here: {{payment_link}}',
+  },
+  {
+    name: 'Due today',
+    offset_days: 0,
+    subject: 'Invoice {{invoice_number}} is due today',
+    body: 'Hi {{recipient_name}},\n\nInvoice {{invoice_number}} for {{amount_due}} is due today.\n\nPay online here: {{payment_link}}',
+  },
+  {
+    name: '7 days overdue',
+    offset_days: 7,
+    subject: 'Invoice {{invoice_number}} is {{days_past_due}} days past due',
+    body: 'Hi {{recipient_name}},\n\nWe have not yet received {{amount_due}} for invoice {{invoice_number}}, which was due on {{due_date}}.\n\nPlease pay here: {{payment_link}}\n\nIf you have already paid, please disregard this email.',
+  },
+  {
+    name: '14 days overdue',
+    offset_days: 14,
+    subject: 'Final reminder: invoice {{invoice_number}} is {{days_past_due}} days past due',
+    body: 'Hi {{recipient_name}},\n\nInvoice {{invoice_number}} for {{amount_due}} is now {{days_past_due}} days past due. Please pay as soon as possible or reply to this email so we can help.\n\nPay here: {{payment_link}}',
+  },
+].map((step, index) => ({
+  id: id('86000000', index + 1),
+  ...step,
+  is_active: true,
+  created_at: timestamp,
+  updated_at: timestamp,
+}));
+
+// Applicants waiting on review, one of them ready to onboard
+const vendorApplications = [
+  {
+    name: 'Lantern Light Studio',
+    email: 'hello@lanternlight.example.com',
+    phone: '(555) 010-4000',
+    address: { street: '12 Harbor Way', city: 'Oakland', state: 'CA', zip: '94607' },
+    service_locations: [serviceAreas[0].id, serviceAreas[1].id],
+    services_applying_for: ['Photography', 'Videography'],
+    gear: [
+      { gear_type: 'Camera', brand: 'Sony', model: 'A7 IV', year: '2023', condition: 'Excellent' },
+      { gear_type: 'Lens', brand: 'Sigma', model: '35mm f/1.4 Art', year: '2021', condition: 'Good' },
+    ],
+    profile_photo: 'profile/lantern.jpg',
+    description: 'Documentary wedding photo and film duo.',
+    work_links: ['https://lanternlight.example.com'],
+    work_samples: ['work-samples/first-look.jpg', 'work-samples/highlight.mp4'],
+    status: 'pending',
+  },
+  {
+    name: 'Sparkler Sendoffs',
+    email: 'team@sparkler.example.com',
+    phone: '(555) 010-4001',
+    address: null,
+    service_locations: [serviceAreas[2].id],
+    services_applying_for: ['DJ Services'],
+    gear: [],
+    profile_photo: null,
+    description: null,
+    work_links: [],
+    work_samples: [],
+    status: 'rejected',
+  },
+].map((application, index) => ({
+  id: id('91000000', index + 1),
+  ...application,
+  drivers_license_front: null,
+  drivers_license_back: null,
+  admin_notes: null,
+  reviewed_at: application.status === 'pending' ? null : timestamp,
+  reviewed_by: application.status === 'pending' ? null : MOCK_ADMIN_ID,
+  vendor_id: null,
+  created_at: timestamp,
+  updated_at: timestamp,
+}));
+
+// The seeded gear catalog
+const gearCatalog = [
+  ['Photography', 'Camera', 'Sony', 'A7 IV', 'approved', null],
+  ['Photography', 'Camera', 'Canon', 'EOS R6', 'approved', null],
+  ['Photography', 'Camera', 'Nikon', 'Z6 II', 'approved', null],
+  ['Photography', 'Camera', 'Canon', 'EOS Rebel T7', 'borderline', 'Entry-level body; needs a fast lens for receptions'],
+  ['Photography', 'Camera', 'Canon', 'EOS 5D Mark II', 'rejected', 'Single card slot and poor low-light performance'],
+  ['Photography', 'Lens', 'Sigma', '35mm f/1.4 Art', 'approved', null],
+  ['Videography', 'Camera', 'Sony', 'FX3', 'approved', null],
+  ['Videography', 'Camera', 'Sony', 'A7 IV', 'approved', null],
+  ['Videography', 'Camera', 'Panasonic', 'GH5', 'borderline', 'Fine in daylight, noisy at receptions'],
+  ['DJ Services', 'Controller', 'Pioneer', 'DDJ-FLX10', 'approved', null],
+  ['DJ Services', 'Controller', 'Pioneer', 'DDJ-200', 'rejected', 'Hobbyist controller without booth outputs'],
+].map(([service_type, gear_type, brand, model, rating, notes], index) => ({
+  id: id('94000000', index + 1),
+  service_type,
+  gear_type,
+  brand,
+  model,
+  rating,
+  notes,
+  created_at: timestamp,
+  updated_at: timestamp,
+}));
+
+// Rated as the rate_vendor_gear trigger would; the photographer still shoots
+// on a body below the minimum
+const vendorGear = [
+  [0, 'Camera', 'Sony', 'A7 IV', 2023, 'Excellent', 'approved', 'Approved for Photography'],
+  [0, 'Camera', 'Canon', 'EOS 5D Mark II', 2010, 'Good', 'rejected', 'Single card slot and poor low-light performance'],
+  [1, 'Camera', 'Panasonic', 'GH5', 2018, 'Fair', 'borderline', 'Fine in daylight, noisy at receptions'],
+  [2, 'Controller', 'Pioneer', 'DDJ-FLX10', 2024, 'Excellent', 'approved', 'Approved for DJ Services'],
+  [2, 'Speaker', 'QSC', 'K12.2', 2022, 'Good', 'borderline', 'Not in the gear catalog; rate it by hand'],
+].map(([vendorIndex, gear_type, brand, model, year, condition, auto_rating, auto_rating_reason], index) => ({
+  id: id('95000000', index + 1),
+  vendor_id: vendors[vendorIndex as number].id,
+  gear_type,
+  brand,
+  model,
+  year,
+  condition,
+  gear_rating: null,
+  review_notes: null,
+  auto_rating,
+  auto_rating_reason,
+  submitted_at: timestamp,
+}));
+
+// The first couple's wedding-day timeline, in the venue's local time
+const timelineEvents = [
+  ['Getting Ready', 'preparation', '13:00:00', 120, 'Bridal suite'],
+  ['Ceremony', 'ceremony', '16:00:00', 30, null],
+  ['Reception', 'reception', '18:00:00', 300, null],
+].map(([title, type, time, duration, location], index) => ({
+  id: id('97000000', index + 1),
+  couple_id: couples[0].id,
+  title,
+  description: null,
+  event_date: couples[0].wedding_date,
+  event_time: time,
+  location,
+  type,
+  duration_minutes: duration,
+  is_standard: true,
+  music_notes: null,
+  playlist_requests: null,
+  photo_shotlist: null,
+  created_at: timestamp,
+  updated_at: null,
+}));
+
+// The photographer is away over the holidays
+const vendorBlackouts = [{
+  id: id('96000000', 1),
+  vendor_id: vendors[0].id,
+  starts_at: '2026-12-24T08:00:00.000Z',
+  ends_at: '2026-12-28T08:00:00.000Z',
+  reason: 'Holiday travel',
+  created_by: MOCK_ADMIN_ID,
+  created_at: timestamp,
+}];
+
+// The seeded rubric, with the admin's review of the pending application done
+// and a second review still needed for the quorum
+const applicationRubricCriteria = [
+  ['Portfolio quality', 'Composition, consistency and storytelling in the work samples and links', 2],
+  ['Gear', 'Professional, backed-up equipment in good condition', 1],
+  ['Experience', 'Weddings and comparable events worked', 1.5],
+  ['Coverage area demand', 'How much we need more vendors in the areas they cover', 1],
+].map(([name, description, weight], index) => ({
+  id: id('92000000', index + 1),
+  name,
+  description,
+  weight,
+  max_score: 5,
+  position: index + 1,
+  is_active: true,
+  created_at: timestamp,
+  updated_at: timestamp,
+}));
+
+const applicationScores = [4, 5, 3, 4].map((score, index) => ({
+  id: id('93000000', index + 1),
+  application_id: vendorApplications[0].id,
+  criterion_id: applicationRubricCriteria[index].id,
+  reviewer_id: MOCK_ADMIN_ID,
+  score,
+  comment: null,
+  created_at: timestamp,
+  updated_at: timestamp,
+}));
+
+const cancellationPolicyTiers = [[90, 100], [30, 50], [0, 0]].map(([minDaysBefore, refundPercentage], index) => ({
+  id: id('89000000', index + 1),
+  min_days_before: minDaysBefore,
+  refund_percentage: refundPercentage,
+  created_at: timestamp,
+  updated_at: timestamp,
+}));
+
+// One webhook delivery of each outcome: applied, failed to apply (checkout
+// never recorded the payment and the intent names no invoice) and ignored
+const stripeEvents = [
+  {
+    type: 'payment_intent.succeeded',
+    object: { id: payments[0].stripe_payment_id, object: 'payment_intent', amount: payments[0].amount, amount_received: payments[0].amount, metadata: { invoice_id: payments[0].invoice_id } },
+    status: 'processed',
+    error: null,
+  },
+  {
+    type: 'payment_intent.succeeded',
+    object: { id: 'pi_mock_unmatched_1', object: 'payment_intent', amount: 50000, amount_received: 50000, metadata: {} },
+    status: 'failed',
+    error: 'No payment is recorded for payment intent pi_mock_unmatched_1 and its metadata names no invoice',
+  },
+  {
+    type: 'charge.dispute.created',
+    object: { id: 'dp_mock_1', object: 'dispute', amount: payments[0].amount, payment_intent: payments[0].stripe_payment_id, metadata: {}, reason: 'fraudulent', status: 'needs_response', evidence_details: { due_by: Date.parse('2026-10-21T23:59:59.000Z') / 1000 } },
+    status: 'processed',
+    error: null,
+  },
+].map(({ type, object, status, error }, index) => {
+  const receivedAt = `2026-10-${String(16 + index).padStart(2, '0')}T14:00:00.000Z`;
+  const eventId = `evt_mock_${index + 1}`;
+  return {
+    id: eventId,
+    type,
+    livemode: false,
+    payload: { id: eventId, object: 'event', type, created: Date.parse(receivedAt) / 1000, livemode: false, data: { object } },
+    status,
+    error,
+    attempts: 1,
+    received_at: receivedAt,
+    processed_at: receivedAt,
+  };
+});
+
+// The dispute opened by the last of those events
+const disputes = [{
+  id: id('87000000', 1),
+  payment_id: payments[0].id,
+  booking_id: payments[0].booking_id,
+  vendor_id: bookings[0].vendor_id,
+  stripe_dispute_id: 'dp_mock_1',
+  amount: payments[0].amount,
+  reason: 'fraudulent',
+  status: 'needs_response',
+  evidence_due_by: '2026-10-21T23:59:59.000Z',
+  evidence_files: [],
+  notes: null,
+  opened_at: '2026-10-18T14:00:00.000Z',
+  closed_at: null,
+  created_at: '2026-10-18T14:00:00.000Z',
+  updated_at: '2026-10-18T14:00:00.000Z',
+}];
+
+export const fixtures: Record<string, Record<string, unknown>[]> = {
+  users: [{ id: MOCK_ADMIN_ID, email: MOCK_ADMIN_EMAIL, created_at: timestamp }, ...vendorUsers, ...coupleUsers],
+  profiles: [{
+    id: MOCK_ADMIN_ID,
+    role: 'admin',
+    admin_level: 'super_admin',
+    description: 'Mock backend administrator',
+    permissions: {},
+    created_at: timestamp,
+    updated_at: timestamp,
+  }],
+  vendors,
+  couples,
+  venues,
+  service_packages: servicePackages,
+  service_areas: serviceAreas,
+  vendor_services: vendors.map((vendor, index) => ({
+    id: id('22000000', index + 1),
+    vendor_id: vendor.id,
+    service_type: vendor.service_types[0],
+    is_active: true,
+    package_status: 'approved',
+    created_at: timestamp,
+    updated_at: timestamp,
+  })),
+  vendor_service_packages: vendors.map((vendor, index) => ({
+    id: id('23000000', index + 1),
+    vendor_id: vendor.id,
+    service_package_id: servicePackages[index].id,
+    service_type: servicePackages[index].service_type,
+    status: 'approved',
+    created_at: timestamp,
+    updated_at: timestamp,
+  })),
+  vendor_service_areas: vendors.map((vendor, index) => ({
+    id: id('24000000', index + 1),
+    vendor_id: vendor.id,
+    service_area_id: serviceAreas[index].id,
+    state: serviceAreas[index].state,
+    region: serviceAreas[index].region,
+  })),
+  vendor_reviews: bookings.filter(booking => booking.final_payment_status === 'paid').map((booking, index) => ({
+    id: id('25000000', index + 1),
+    vendor_id: booking.vendor_id,
+    couple_id: booking.couple_id,
+    rating: 5,
+    review_text: 'Wonderful to work with from start to finish.',
+    communication_rating: 5,
+    experience_rating: 5,
+    quality_rating: 5,
+    overall_rating: 5,
+    feedback: null,
+    vendor_response: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+  })),
+  vendor_rewards_points: vendors.map((vendor, index) => ({
+    id: id('26000000', index + 1),
+    vendor_id: vendor.id,
+    year: 2025,
+    points: 100 * (index + 1),
+  })),
+  vendor_applications: vendorApplications,
+  gear_catalog: gearCatalog,
+  vendor_gear: vendorGear,
+  vendor_blackouts: vendorBlackouts,
+  timeline_events: timelineEvents,
+  application_rubric_criteria: applicationRubricCriteria,
+  application_review_settings: [{ id: true, quorum: 2, updated_at: timestamp }],
+  application_scores: applicationScores,
+  events,
+  booking_reschedules: [],
+  booking_status_history: bookingStatusHistory,
+  bookings,
+  cancellation_policy_tiers: cancellationPolicyTiers,
+  invoices,
+  invoice_installments: invoiceInstallments,
+  invoice_line_items: invoiceLineItems,
+  invoice_reminders: [],
+  credit_notes: [],
+  credit_note_lines: [],
+  disputes,
+  dunning_steps: dunningSteps,
+  payments,
+  stripe_events: stripeEvents,
+  tax_rates: [
+    ['CA', 7.25],
+    ['FL', 6],
+    ['NY', 4],
+    ['TX', 6.25],
+  ].map(([state, rate], index) => ({
+    id: id('83000000', index + 1),
+    state,
+    rate,
+    updated_by: MOCK_ADMIN_ID,
+    created_at: timestamp,
+    updated_at: timestamp,
+  })),
+};
@@ -0,0 +1,971 @@
+import { getTable, transaction, persist, newId, MockRow } from './store';
+import { mockError, MockError } from './query';
+import { MOCK_ADMIN_ID } from './fixtures';
+import { splitRefund, refundableAmount } from '../../utils/refunds';
+import { daysPastDue, isInvoiceOpen, nextDunningTouch } from '../../utils/dunning';
+import { creditableAmount } from '../../utils/creditNotes';
+import { bookingTransitionError, BookingStatus, initialBookingStatusError } from '../../utils/bookingStatus';
+import { shiftEvents } from '../../utils/bookingChanges';
+import { quorumError, summarizeApplicationReview } from '../../utils/applicationReviews';
+import { rateGear } from '../../utils/gearEligibility';
+import { applyPaymentToInstallments, refundFromInstallments } from '../../utils/installments';
+import { findScheduleConflicts } from '../../utils/vendorAvailability';
+import {
+  DEFAULT_TIME_ZONE,
+  FEED_HISTORY_MS,
+  FeedEvent,
+  FeedTimelineEvent,
+  FeedVenue,
+  bookingFeedEvents,
+  buildIcsCalendar,
+  coupleFeedEvents,
+} from '../../utils/icalendar';
+import type { Tables } from '../../types/database';
+
+type Handler = (args: Record<string, unknown>) => unknown;
+
+export interface HandlerResult {
+  data: unknown;
+  error: MockError | null;
+}
+
+// What the apply_payment_on_success trigger does when a payment is recorded
+// as succeeded or paid (see the apply_every_payment_to_installments migration)
+function applyPaymentOnSuccess(payment: MockRow, paidAt: string) {
+  if (!payment.invoice_id || payment.payment_type === 'deposit') return;
+  const invoice = getTable('invoices').find(row => row.id === payment.invoice_id);
+  if (!invoice || invoice.status === 'void') return;
+  const installments = getTable('invoice_installments').filter(row => row.invoice_id === invoice.id);
+  const now = new Date().toISOString();
+  applyPaymentToInstallments(
+    installments as unknown as Tables<'invoice_installments'>[],
+    Number(payment.amount),
+    paidAt,
+    payment.installment_id as string | null,
+  ).forEach(update => {
+    Object.assign(installments.find(row => row.id === update.id)!, update, { updated_at: now });
+  });
+}
+
+// What process_stripe_event does for each event type (see the
+// create_stripe_events migration)
+function applyPaymentIntentSucceeded(intent: MockRow, at: string) {
+  const metadata = (intent.metadata ?? {}) as MockRow;
+  const invoice = getTable('invoices').find(row =>
+    metadata.invoice_id ? row.id === metadata.invoice_id : row.stripe_payment_intent_id === intent.id);
+  const payments = getTable('payments').filter(row => row.stripe_payment_id === intent.id);
+  const flipped = payments.filter(payment => !['succeeded', 'paid'].includes(String(payment.status)));
+  flipped.forEach(payment => {
+    payment.status = 'succeeded';
+    applyPaymentOnSuccess(payment, new Date().toISOString());
+  });
+  let settled = flipped.reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+  if (payments.length === 0) {
+    if (!invoice) throw new Error(`No payment is recorded for payment intent ${intent.id} and its metadata names no invoice`);
+    const payment = {
+      id: newId(),
+      invoice_id: invoice.id,
+      booking_id: metadata.booking_id || null,
+      amount: Number(intent.amount_received),
+      status: 'succeeded',
+      payment_type: metadata.payment_type || 'invoice',
+      stripe_payment_id: intent.id,
+      to_platform: false,
+      installment_id: metadata.installment_id || null,
+      created_at: at,
+    };
+    getTable('payments').push(payment);
+    payments.push(payment);
+    applyPaymentOnSuccess(payment, at);
+    settled = payment.amount;
+  }
+
+  if (invoice && settled > 0 && invoice.status !== 'void') {
+    invoice.remaining_balance = Math.max(Number(invoice.remaining_balance) - settled, 0);
+    invoice.updated_at = new Date().toISOString();
+  }
+
+  if (invoice && Number(invoice.remaining_balance) <= 0 && !['paid', 'void', 'draft'].includes(String(invoice.status))) {
+    Object.assign(invoice, {
+      status: 'paid',
+      paid_at: invoice.paid_at ?? at,
+      stripe_payment_intent_id: invoice.stripe_payment_intent_id ?? intent.id,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  payments
+    .filter(payment => ['final', 'final_payment', 'full_payment'].includes(String(payment.payment_type)))
+    .forEach(payment => {
+      const booking = getTable('bookings').find(row => row.id === payment.booking_id);
+      if (booking && booking.final_payment_status !== 'paid') {
+        booking.final_payment_status = 'paid';
+        booking.updated_at = new Date().toISOString();
+      }
+    });
+}
+
+function applyPaymentIntentFailed(intent: MockRow) {
+  getTable('payments')
+    .filter(row => row.stripe_payment_id === intent.id && !['succeeded', 'paid', 'failed'].includes(String(row.status)))
+    .forEach(payment => { payment.status = 'failed'; });
+}
+
+function applyRefund(refund: MockRow) {
+  if (refund.status !== 'succeeded' || getTable('refunds').some(row => row.stripe_refund_id === refund.id)) return;
+  const payment = getTable('payments')
+    .filter(row => row.stripe_payment_id === refund.payment_intent && ['succeeded', 'paid'].includes(String(row.status)))
+    .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)))[0];
+  if (!payment) throw new Error(`No succeeded payment is recorded for payment intent ${refund.payment_intent}`);
+  rpcHandlers.record_refund({
+    p_payment_id: payment.id,
+    p_amount: refund.amount,
+    p_reason: refund.reason || 'Refunded in Stripe',
+    p_stripe_refund_id: refund.id,
+  });
+}
+
+// Mirrors apply_stripe_dispute in the create_disputes migration
+function applyDispute(dispute: MockRow) {
+  const payment = getTable('payments')
+    .filter(row => row.stripe_payment_id === dispute.payment_intent)
+    .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)))[0];
+  if (!payment) throw new Error(`No payment is recorded for payment intent ${dispute.payment_intent}`);
+
+  const now = new Date().toISOString();
+  const closed = ['won', 'lost', 'warning_closed'].includes(String(dispute.status));
+  const dueBy = (dispute.evidence_details as MockRow | undefined)?.due_by;
+  const fields = {
+    amount: Number(dispute.amount),
+    reason: dispute.reason || 'general',
+    status: dispute.status,
+    evidence_due_by: dueBy ? new Date(Number(dueBy) * 1000).toISOString() : null,
+  };
+
+  const existing = getTable('disputes').find(row => row.stripe_dispute_id === dispute.id);
+  if (existing) {
+    Object.assign(existing, fields, { closed_at: closed ? existing.closed_at ?? now : null, updated_at: now });
+    return;
+  }
+
+  const booking = getTable('bookings').find(row => row.id === payment.booking_id);
+  const invoice = getTable('invoices').find(row => row.id === payment.invoice_id);
+  getTable('disputes').push({
+    id: newId(),
+    payment_id: payment.id,
+    booking_id: payment.booking_id ?? null,
+    vendor_id: booking?.vendor_id ?? invoice?.vendor_id ?? null,
+    stripe_dispute_id: dispute.id,
+    ...fields,
+    evidence_files: [],
+    notes: null,
+    opened_at: dispute.created ? new Date(Number(dispute.created) * 1000).toISOString() : now,
+    closed_at: closed ? now : null,
+    created_at: now,
+    updated_at: now,
+  });
+}
+
+function applicationQuorumError(applicationId: unknown) {
+  const quorum = Number(getTable('application_review_settings')[0]?.quorum ?? 1);
+  const summary = summarizeApplicationReview(
+    getTable('application_scores').filter(row => row.application_id === applicationId) as unknown as Tables<'application_scores'>[],
+    getTable('application_rubric_criteria') as unknown as Tables<'application_rubric_criteria'>[],
+    quorum,
+    null,
+  );
+  return quorumError(summary, quorum);
+}
+
+// What the guards of enforce_booking_status look at, from the mock tables
+function bookingTransitionFacts(booking: MockRow) {
+  const event = getTable('events').find(row => row.id === booking.event_id);
+  return {
+    depositPaid: getTable('payments').some(row =>
+      row.booking_id === booking.id && row.payment_type === 'deposit' && ['succeeded', 'paid'].includes(String(row.status))),
+    eventEndsAt: event ? String(event.end_time) : null,
+    coupleReviewedVendor: getTable('vendor_reviews').some(row =>
+      row.vendor_id === booking.vendor_id && row.couple_id === booking.couple_id),
+    refundSucceeded: getTable('refunds').some(row => row.booking_id === booking.id && row.status === 'succeeded'),
+  };
+}
+
+// What booking_cancellation_error returns (see the
+// settle_only_the_cancelled_booking migration)
+function bookingCancellationError(args: Record<string, unknown>) {
+  if (!String(args.p_reason ?? '').trim()) return 'A cancellation needs a reason';
+  const percentage = Number(args.p_refund_percentage);
+  if (!(percentage >= 0 && percentage <= 100)) return 'The refund percentage must be between 0 and 100';
+  const booking = getTable('bookings').find(row => row.id === args.p_booking_id);
+  if (!booking) return `Booking ${args.p_booking_id} not found`;
+  return bookingTransitionError(booking.status as BookingStatus, 'cancelled', bookingTransitionFacts(booking));
+}
+
+// What vendor_schedule_conflict returns: why the vendor cannot take the slot,
+// or null (see the create_vendor_availability migration)
+function vendorScheduleConflict(vendorId: unknown, start: unknown, end: unknown, ignoreEventId: unknown = null) {
+  const conflicts = findScheduleConflicts({ start_time: String(start), end_time: String(end), venue_id: null }, {
+    events: getTable('events')
+      .filter(row => row.vendor_id === vendorId)
+      .map(row => ({
+        id: String(row.id),
+        title: String(row.title || row.type),
+        start_time: String(row.start_time),
+        end_time: String(row.end_time),
+        venue_id: null,
+        is_blocked_time: Boolean(row.is_blocked_time),
+      })),
+    blackouts: getTable('vendor_blackouts').filter(row => row.vendor_id === vendorId) as unknown as Tables<'vendor_blackouts'>[],
+    // Travel conflicts only warn, so the buffer does not matter here
+    travelBufferMinutes: 0,
+  }, ignoreEventId ? String(ignoreEventId) : null);
+  return conflicts.find(conflict => conflict.blocking)?.message ?? null;
+}
+
+// The owner's events from the last year on, with the status and venue of each
+// event's booking, as the ical-feed function loads them
+function feedEvents(column: 'vendor_id' | 'couple_id', ownerId: unknown): FeedEvent[] {
+  const since = Date.now() - FEED_HISTORY_MS;
+  return getTable('events')
+    .filter(row => row[column] === ownerId && Date.parse(String(row.end_time)) > since)
+    .sort((a, b) => String(a.start_time).localeCompare(String(b.start_time)))
+    .map(row => {
+      const booking = getTable('bookings').find(candidate => candidate.event_id === row.id);
+      const venue = booking && getTable('venues').find(candidate => candidate.id === booking.venue_id);
+      return {
+        ...(row as unknown as Tables<'events'>),
+        booking_status: booking ? String(booking.status) : null,
+        venue: (venue ?? null) as unknown as FeedVenue | null,
+      };
+    });
+}
+
+// In-memory stand-ins for the Postgres functions in supabase/migrations
+const rpcHandlers: Record<string, Handler> = {
+  application_quorum_error: args => applicationQuorumError(args.p_application_id),
+  booking_cancellation_error: args => bookingCancellationError(args),
+  cancel_booking: args => {
+    const error = bookingCancellationError(args);
+    if (error) throw new Error(error);
+    const reason = String(args.p_reason).trim();
+    const percentage = Number(args.p_refund_percentage);
+
+    return transaction(() => {
+      rpcHandlers.transition_booking_status({ p_booking_id: args.p_booking_id, p_status: 'cancelled', p_note: reason });
+      const booking = getTable('bookings').find(row => row.id === args.p_booking_id)!;
+      const now = new Date().toISOString();
+      Object.assign(booking, {
+        cancelled_at: now,
+        cancellation_reason: reason,
+        cancellation_refund_percentage: percentage,
+        updated_at: now,
+      });
+
+      const invoiceIds = new Set([
+        ...getTable('invoice_line_items').filter(row => row.booking_id === booking.id).map(row => row.invoice_id),
+        ...getTable('payments').filter(row => row.booking_id === booking.id).map(row => row.invoice_id),
+      ]);
+      getTable('invoices')
+        .filter(invoice => invoiceIds.has(invoice.id) && invoice.status !== 'void')
+        .forEach(invoice => {
+          const items = getTable('invoice_line_items').filter(row => row.invoice_id === invoice.id);
+          const wholeInvoice = items.every(item => item.booking_id === booking.id);
+          const creditable = (item: MockRow) => creditableAmount(
+            item as unknown as Tables<'invoice_line_items'>,
+            getTable('credit_note_lines') as unknown as Tables<'credit_note_lines'>[],
+          );
+          const paidOn = (payments: MockRow[]) => payments
+            .filter(row => ['succeeded', 'paid'].includes(String(row.status)))
+            .reduce((sum, payment) => sum + Number(payment.amount) - getTable('refunds')
+              .filter(row => row.payment_id === payment.id && row.status !== 'failed')
+              .reduce((refunded, row) => refunded + Number(row.amount), 0), 0);
+          const payments = getTable('payments').filter(row => row.invoice_id === invoice.id);
+          if (wholeInvoice && paidOn(payments) <= 0) {
+            rpcHandlers.void_invoice({ p_invoice_id: invoice.id, p_reason: `Booking cancelled: ${reason}` });
+            return;
+          }
+          if (invoice.status === 'draft' || !(Number(invoice.remaining_balance) > 0)) return;
+
+          const bookingItems = wholeInvoice ? items : items.filter(item => item.booking_id === booking.id);
+          let remaining = wholeInvoice
+            ? Number(invoice.remaining_balance)
+            : Math.min(
+              bookingItems.reduce((sum, item) => sum + creditable(item), 0)
+                - paidOn(payments.filter(row => row.booking_id === booking.id)),
+              Number(invoice.remaining_balance),
+            );
+          const lines: MockRow[] = [];
+          bookingItems.forEach(item => {
+            const take = Math.min(creditable(item), remaining);
+            if (take > 0) {
+              lines.push({ invoice_line_item_id: item.id, amount: take, description: 'Booking cancelled' });
+              remaining -= take;
+            }
+          });
+          if (lines.length > 0) {
+            rpcHandlers.issue_credit_note({ p_invoice_id: invoice.id, p_reason: `Booking cancelled: ${reason}`, p_lines: lines });
+          }
+        });
+
+      if (getTable('refunds').some(row => row.booking_id === booking.id && row.status === 'succeeded')) {
+        rpcHandlers.transition_booking_status({ p_booking_id: booking.id, p_status: 'refunded', p_note: 'Cancellation refunds issued' });
+      }
+      return booking;
+    });
+  },
+
+  create_booking: args => {
+    const statusError = initialBookingStatusError(String(args.p_status ?? 'inquiry'));
+    if (statusError) throw new Error(statusError);
+    const now = new Date().toISOString();
+    const booking = {
+      id: newId(),
+      couple_id: args.p_couple_id,
+      vendor_id: args.p_vendor_id,
+      status: args.p_status ?? 'inquiry',
+      amount: args.p_amount ?? 0,
+      service_type: args.p_service_type,
+      package_id: args.p_package_id ?? null,
+      venue_id: args.p_venue_id ?? null,
+      event_id: args.p_event_id ?? null,
+      created_at: now,
+      updated_at: now,
+    };
+    getTable('bookings').push(booking);
+    getTable('booking_status_history').push({
+      id: newId(),
+      booking_id: booking.id,
+      from_status: null,
+      to_status: booking.status,
+      note: null,
+      changed_by: MOCK_ADMIN_ID,
+      changed_at: now,
+    });
+    return booking.id;
+  },
+
+  create_bookings_batch: args => {
+    const items = args.p_bookings as MockRow[];
+    return transaction(() => items.map((item, index) => {
+      if (!item.couple_id || !item.vendor_id) {
+        throw Object.assign(mockError(`Booking ${index + 1} of ${items.length} failed: couple and vendor are required`, 'P0001'), {
+          details: JSON.stringify({ failed_index: index + 1 }),
+        });
+      }
+      const failure = initialBookingStatusError(String(item.status || 'inquiry')) ?? ((item.is_blocked_time ?? true)
+        ? vendorScheduleConflict(item.vendor_id, new Date(String(item.start_time)).toISOString(), new Date(String(item.end_time)).toISOString())
+        : null);
+      if (failure) {
+        throw Object.assign(mockError(`Booking ${index + 1} of ${items.length} failed: ${failure}`, 'P0001'), {
+          details: JSON.stringify({ failed_index: index + 1 }),
+        });
+      }
+      const now = new Date().toISOString();
+      const event = {
+        id: newId(),
+        couple_id: item.couple_id,
+        vendor_id: item.vendor_id,
+        start_time: item.start_time,
+        end_time: item.end_time,
+        type: item.event_type || 'wedding',
+        title: item.title,
+        is_blocked_time: item.is_blocked_time ?? true,
+        created_at: now,
+        updated_at: now,
+      };
+      getTable('events').push(event);
+      rpcHandlers.create_booking({
+        p_couple_id: item.couple_id,
+        p_vendor_id: item.vendor_id,
+        p_status: item.status || 'inquiry',
+        p_amount: item.amount || 0,
+        p_service_type: item.service_type || 'Unknown',
+        p_event_type: item.event_type || 'wedding',
+        p_package_id: item.package_id || null,
+        p_venue_id: item.venue_id || null,
+        p_event_id: event.id,
+      });
+      return { index: index + 1, event_id: event.id };
+    }));
+  },
+
+  issue_credit_note: args => {
+    const invoice = getTable('invoices').find(row => row.id === args.p_invoice_id);
+    if (!invoice) throw new Error(`Invoice ${args.p_invoice_id} not found`);
+    if (invoice.status === 'draft') throw new Error('Draft invoices can still be edited; credit notes are for sent invoices');
+    if (invoice.status === 'void') throw new Error(`Invoice ${invoice.id} is void`);
+    const reason = String(args.p_reason ?? '').trim();
+    if (!reason) throw new Error('A credit note needs a reason');
+    const lines = (args.p_lines as MockRow[] | null) ?? [];
+    if (lines.length === 0) throw new Error('A credit note needs at least one line');
+
+    return transaction(() => {
+      const now = new Date().toISOString();
+      const creditNote = {
+        id: newId(),
+        invoice_id: invoice.id,
+        amount: 0,
+        reason,
+        created_by: MOCK_ADMIN_ID,
+        created_at: now,
+      };
+      getTable('credit_notes').push(creditNote);
+
+      lines.forEach(line => {
+        const item = getTable('invoice_line_items')
+          .find(row => row.id === line.invoice_line_item_id && row.invoice_id === invoice.id);
+        if (!item) throw new Error(`Line item ${line.invoice_line_item_id} is not on invoice ${invoice.id}`);
+        const amount = Number(line.amount);
+        if (!(amount > 0)) throw new Error('Credit amounts must be greater than zero');
+        const left = creditableAmount(
+          item as unknown as Tables<'invoice_line_items'>,
+          getTable('credit_note_lines') as unknown as Tables<'credit_note_lines'>[],
+        );
+        if (amount > left) throw new Error(`Credit of ${amount} exceeds the ${left} left to credit on line item ${item.id}`);
+        getTable('credit_note_lines').push({
+          id: newId(),
+          credit_note_id: creditNote.id,
+          invoice_line_item_id: item.id,
+          amount,
+          description: String(line.description ?? '').trim() || null,
+          created_at: now,
+        });
+        creditNote.amount += amount;
+      });
+
+      const left = Number(invoice.total_amount) - Number(invoice.credited_amount || 0);
+      if (creditNote.amount > left) throw new Error(`Credit of ${creditNote.amount} exceeds the ${left} left to credit on the invoice`);
+
+      invoice.credited_amount = Number(invoice.credited_amount || 0) + creditNote.amount;
+      invoice.remaining_balance = Math.max(Number(invoice.remaining_balance) - creditNote.amount, 0);
+      if (invoice.remaining_balance === 0) {
+        invoice.status = 'paid';
+        invoice.paid_at = invoice.paid_at ?? now;
+      }
+      invoice.updated_at = now;
+      return creditNote;
+    });
+  },
+
+  get_top_screens: args => {
+    const counts = new Map<string, number>();
+    getTable('analytics_events')
+      .filter(row => row.site === args.site_input && String(row.timestamp) >= String(args.timestamp_input) && row.screen_name)
+      .forEach(row => counts.set(String(row.screen_name), (counts.get(String(row.screen_name)) || 0) + 1));
+    return [...counts.entries()]
+      .map(([screen_name, count]) => ({ screen_name, count }))
+      .sort((a, b) => b.count - a.count);
+  },
+
+  process_stripe_event: args => {
+    const event = getTable('stripe_events').find(row => row.id === args.p_event_id);
+    if (!event) throw new Error(`Stripe event ${args.p_event_id} not found`);
+    const payload = event.payload as { created: number; data: { object: MockRow } };
+    const object = payload.data.object;
+
+    let status = 'processed';
+    let error: string | null = null;
+    try {
+      transaction(() => {
+        if (event.type === 'payment_intent.succeeded') {
+          applyPaymentIntentSucceeded(object, new Date(payload.created * 1000).toISOString());
+        } else if (['payment_intent.payment_failed', 'payment_intent.canceled'].includes(String(event.type))) {
+          applyPaymentIntentFailed(object);
+        } else if (['refund.created', 'refund.updated'].includes(String(event.type))) {
+          applyRefund(object);
+        } else if ([
+          'charge.dispute.created', 'charge.dispute.updated', 'charge.dispute.closed',
+          'charge.dispute.funds_withdrawn', 'charge.dispute.funds_reinstated',
+        ].includes(String(event.type))) {
+          applyDispute(object);
+        } else {
+          status = 'ignored';
+        }
+      });
+    } catch (failure) {
+      status = 'failed';
+      error = (failure as Error).message;
+    }
+
+    // A rollback replaces the tables, so look the event up again
+    const row = getTable('stripe_events').find(candidate => candidate.id === event.id)!;
+    Object.assign(row, {
+      status,
+      error,
+      attempts: Number(row.attempts) + 1,
+      processed_at: new Date().toISOString(),
+    });
+    persist();
+    return row;
+  },
+
+  regenerate_ical_feed_token: args => {
+    const table = args.p_kind === 'vendor' ? 'vendors' : args.p_kind === 'couple' ? 'couples' : null;
+    if (!table) throw new Error(`Unknown feed kind: ${args.p_kind}`);
+    const row = getTable(table).find(candidate => candidate.id === args.p_id);
+    if (!row) throw new Error(`No ${args.p_kind} with id ${args.p_id}`);
+    Object.assign(row, { ical_feed_token: (newId() + newId()).replace(/-/g, ''), updated_at: new Date().toISOString() });
+    persist();
+    return row.ical_feed_token;
+  },
+  record_refund: args => {
+    const payment = getTable('payments').find(row => row.id === args.p_payment_id);
+    if (!payment) throw new Error(`Payment ${args.p_payment_id} not found`);
+    if (!['succeeded', 'paid'].includes(String(payment.status))) {
+      throw new Error(`Only succeeded payments can be refunded (status is ${payment.status})`);
+    }
+    const amount = Number(args.p_amount);
+    const refunds = getTable('refunds').filter(row => row.payment_id === payment.id) as unknown as Tables<'refunds'>[];
+    const left = refundableAmount(payment as unknown as Tables<'payments'>, refunds);
+    if (!(amount > 0)) throw new Error('Refund amount must be greater than zero');
+    if (amount > left) throw new Error(`Refund of ${amount} exceeds the ${left} left to refund on this payment`);
+
+    return transaction(() => {
+      const booking = getTable('bookings').find(row => row.id === payment.booking_id);
+      const split = splitRefund(
+        amount,
+        payment as unknown as Tables<'payments'>,
+        (booking as unknown as Tables<'bookings'>) ?? null,
+      );
+      const now = new Date().toISOString();
+      const refund = {
+        id: newId(),
+        payment_id: payment.id,
+        booking_id: payment.booking_id ?? null,
+        invoice_id: payment.invoice_id ?? null,
+        amount,
+        vendor_amount: split.vendorAmount,
+        platform_amount: split.platformAmount,
+        reason: String(args.p_reason ?? '').trim() || null,
+        status: 'succeeded',
+        stripe_refund_id: args.p_stripe_refund_id ?? null,
+        created_by: MOCK_ADMIN_ID,
+        created_at: now,
+      };
+      getTable('refunds').push(refund);
+
+      if (booking) {
+        booking.paid_amount = Math.max(Number(booking.paid_amount || 0) - amount, 0);
+        booking.vendor_total_earnings = Number(booking.vendor_total_earnings || 0) - split.vendorAmount;
+        booking.platform_total_earnings = Number(booking.platform_total_earnings || 0) - split.platformAmount;
+        if (['final', 'final_payment', 'full_payment'].includes(String(payment.payment_type))) {
+          booking.final_payment_status = 'pending';
+        }
+        booking.updated_at = now;
+      }
+
+      const invoice = getTable('invoices').find(row => row.id === payment.invoice_id);
+      if (invoice && invoice.status !== 'void') {
+        invoice.remaining_balance = Math.min(
+          Number(invoice.remaining_balance) + amount,
+          Number(invoice.total_amount) - Number(invoice.credited_amount || 0),
+        );
+        if (invoice.status === 'paid' && Number(invoice.remaining_balance) > 0) {
+          invoice.status = 'sent';
+          invoice.paid_at = null;
+        }
+        invoice.updated_at = now;
+
+        const installments = getTable('invoice_installments').filter(row => row.invoice_id === invoice.id);
+        refundFromInstallments(
+          installments as unknown as Tables<'invoice_installments'>[],
+          amount,
+          payment.installment_id as string | null,
+        ).forEach(update => {
+          Object.assign(installments.find(row => row.id === update.id)!, update, { updated_at: now });
+        });
+      }
+      return refund;
+    });
+  },
+
+  reschedule_booking: args => {
+    const booking = getTable('bookings').find(row => row.id === args.p_booking_id);
+    if (!booking) throw new Error(`Booking ${args.p_booking_id} not found`);
+    if (!['inquiry', 'pending_deposit', 'confirmed'].includes(String(booking.status))) {
+      throw new Error(`A ${booking.status} booking cannot be rescheduled`);
+    }
+    const event = getTable('events').find(row => row.id === booking.event_id);
+    if (!event) throw new Error(`Booking ${booking.id} has no event to move`);
+    const shiftMs = Date.parse(String(args.p_start_time)) - Date.parse(String(event.start_time));
+    if (shiftMs === 0) throw new Error('The booking already starts at that time');
+
+    const vendorEvents = getTable('events').filter(row => row.vendor_id === booking.vendor_id) as unknown as Tables<'events'>[];
+    const now = Date.now();
+    const linked = vendorEvents.filter(row =>
+      row.id === booking.event_id || (row.couple_id === booking.couple_id && Date.parse(row.end_time) > now));
+    const moved = shiftEvents(linked, shiftMs);
+
+    // Moved first and then checked, like the RPC; a conflict rolls the move back
+    return transaction(() => {
+      const at = new Date().toISOString();
+      const reschedules = moved.map(next => {
+        const row = getTable('events').find(candidate => candidate.id === next.id)!;
+        const reschedule = {
+          id: newId(),
+          booking_id: booking.id,
+          event_id: row.id,
+          previous_start_time: row.start_time,
+          previous_end_time: row.end_time,
+          new_start_time: next.start_time,
+          new_end_time: next.end_time,
+          reason: String(args.p_reason ?? '').trim() || null,
+          created_by: MOCK_ADMIN_ID,
+          created_at: at,
+        };
+        Object.assign(row, { start_time: next.start_time, end_time: next.end_time, updated_at: at });
+        getTable('booking_reschedules').push(reschedule);
+        return reschedule;
+      });
+      moved.filter(next => next.is_blocked_time).forEach(next => {
+        const conflict = vendorScheduleConflict(booking.vendor_id, next.start_time, next.end_time, next.id);
+        if (conflict) throw new Error(conflict);
+      });
+      return reschedules;
+    });
+  },
+
+  // The guards of enforce_booking_status, evaluated against the mock tables
+  transition_booking_status: args => {
+    const booking = getTable('bookings').find(row => row.id === args.p_booking_id);
+    if (!booking) throw new Error(`Booking ${args.p_booking_id} not found`);
+    const error = bookingTransitionError(booking.status as BookingStatus, args.p_status as BookingStatus, bookingTransitionFacts(booking));
+    if (error) throw new Error(error);
+
+    const now = new Date().toISOString();
+    getTable('booking_status_history').push({
+      id: newId(),
+      booking_id: booking.id,
+      from_status: booking.status,
+      to_status: args.p_status,
+      note: args.p_note || null,
+      changed_by: MOCK_ADMIN_ID,
+      changed_at: now,
+    });
+    Object.assign(booking, { status: args.p_status, updated_at: now });
+    persist();
+    return booking;
+  },
+
+  vendor_schedule_conflict: args =>
+    vendorScheduleConflict(args.p_vendor_id, args.p_start, args.p_end, args.p_ignore_event_id),
+  void_invoice: args => {
+    const invoice = getTable('invoices').find(row => row.id === args.p_invoice_id);
+    if (!invoice) throw new Error(`Invoice ${args.p_invoice_id} not found`);
+    if (invoice.status === 'void') throw new Error(`Invoice ${invoice.id} is already void`);
+    const reason = String(args.p_reason ?? '').trim();
+    if (!reason) throw new Error('Voiding an invoice needs a reason');
+
+    const paid = getTable('payments')
+      .filter(row => row.invoice_id === invoice.id && ['succeeded', 'paid'].includes(String(row.status)))
+      .reduce((sum, payment) => sum + Number(payment.amount) - getTable('refunds')
+        .filter(row => row.payment_id === payment.id && row.status !== 'failed')
+        .reduce((refunded, row) => refunded + Number(row.amount), 0), 0);
+    if (paid > 0) throw new Error(`Refund the ${paid} paid on this invoice before voiding it`);
+
+    const now = new Date().toISOString();
+    Object.assign(invoice, {
+      status: 'void',
+      remaining_balance: 0,
+      voided_at: now,
+      void_reason: reason,
+      voided_by: MOCK_ADMIN_ID,
+      updated_at: now,
+    });
+    persist();
+    return invoice;
+  },
+};
+
+// Edge functions answer with a plausible success payload and log what they were
+// sent, so flows that email or charge can be clicked through offline
+const functionHandlers: Record<string, Handler> = {
+  'admin-email-system': body => ({ sent: Array.isArray(body.recipients) ? body.recipients : [], errors: [] }),
+  // What approve-vendor-application creates, with storage copies standing in
+  // as mock-storage URLs
+  'approve-vendor-application': body => {
+    const application = getTable('vendor_applications').find(row => row.id === body.application_id);
+    if (!application) throw new Error('Application not found');
+    if (application.vendor_id) throw new Error('This application has already been turned into a vendor');
+    const notReviewed = applicationQuorumError(application.id);
+    if (notReviewed) throw new Error(notReviewed);
+    if (getTable('users').some(row => row.email === application.email)) {
+      throw new Error('A user with this email address has already been registered');
+    }
+
+    return transaction(() => {
+      const now = new Date().toISOString();
+      const userId = newId();
+      const vendorId = newId();
+      const areas = getTable('service_areas').filter(row => (application.service_locations as string[]).includes(String(row.id)));
+      const gear = application.gear as Tables<'vendor_applications'>['gear'];
+      const mediaUrl = (value: string, target: string) =>
+        `https://mock-storage.local/vendor-media/${vendorId}/${target}/${value.split('/').pop()}`;
+      const samples = (application.work_samples as string[]).map(sample => mediaUrl(sample, 'portfolio'));
+      const isVideo = (url: string) => /\.(mp4|mov|webm|m4v|avi)$/i.test(url);
+
+      getTable('users').push({ id: userId, email: application.email, created_at: now });
+      getTable('vendors').push({
+        id: vendorId,
+        user_id: userId,
+        auth_id: userId,
+        name: application.name,
+        phone: application.phone,
+        profile: application.description,
+        profile_photo: application.profile_photo ? mediaUrl(String(application.profile_photo), 'profile') : null,
+        portfolio_photos: samples.filter(url => !isVideo(url)),
+        portfolio_videos: samples.filter(isVideo),
+        service_types: application.services_applying_for,
+        service_areas: areas.map(area => (area.region ? `${area.state}, ${area.region}` : area.state)),
+        gear_list: gear.map(item => `${item.gear_type}: ${item.brand} ${item.model}`),
+        created_at: now,
+        updated_at: now,
+      });
+      (application.services_applying_for as string[]).forEach(serviceType => getTable('vendor_services').push({
+        id: newId(),
+        vendor_id: vendorId,
+        service_type: serviceType,
+        is_active: true,
+        package_status: 'pending',
+        created_at: now,
+        updated_at: now,
+      }));
+      areas.forEach(area => getTable('vendor_service_areas').push({
+        id: newId(),
+        vendor_id: vendorId,
+        service_area_id: area.id,
+        state: area.state,
+        region: area.region,
+      }));
+      const catalog = getTable('gear_catalog') as unknown as Tables<'gear_catalog'>[];
+      gear.forEach(item => {
+        const { rating, reason } = rateGear(item, application.services_applying_for as string[], catalog);
+        getTable('vendor_gear').push({
+          id: newId(),
+          vendor_id: vendorId,
+          gear_type: item.gear_type,
+          brand: item.brand,
+          model: item.model,
+          year: parseInt(item.year, 10) || null,
+          condition: item.condition,
+          gear_rating: null,
+          review_notes: null,
+          auto_rating: rating,
+          auto_rating_reason: reason,
+          submitted_at: application.created_at,
+        });
+      });
+      Object.assign(application, {
+        status: 'approved',
+        vendor_id: vendorId,
+        reviewed_at: now,
+        reviewed_by: MOCK_ADMIN_ID,
+        updated_at: now,
+      });
+      return { vendor_id: vendorId, email_sent: true };
+    });
+  },
+  // The login user and couple row create-couple makes, without the welcome email
+  'create-couple': body => {
+    if (!body.email || !body.name) throw new Error('Email and name are required');
+    if (getTable('users').some(row => row.email === body.email)) {
+      throw new Error('A user with this email address has already been registered');
+    }
+    const now = new Date().toISOString();
+    const userId = newId();
+    const coupleId = newId();
+    getTable('users').push({ id: userId, email: body.email, created_at: now });
+    getTable('couples').push({
+      id: coupleId,
+      user_id: userId,
+      name: body.name,
+      email: body.email,
+      partner1_name: body.partner1_name || null,
+      partner2_name: body.partner2_name || null,
+      wedding_date: body.wedding_date || null,
+      budget: body.budget ? Number(body.budget) : null,
+      vibe_tags: body.vibe_tags || null,
+      phone: body.phone || null,
+      guest_count: body.guest_count ? Number(body.guest_count) : null,
+      venue_id: body.venue_id || null,
+      venue_name: body.venue_name || null,
+      venue_street_address: body.venue_street_address || null,
+      venue_city: body.venue_city || null,
+      venue_state: body.venue_state || null,
+      created_at: now,
+      updated_at: now,
+    });
+    persist();
+    return { couple_id: coupleId };
+  },
+  'create-payment': () => ({ client_secret: `pi_mock_${newId()}_secret_mock` }),
+  // The login user and vendor row create-vendor makes; email holds the login
+  // address, as the dashboard sends it
+  'create-vendor': body => {
+    if (!body.email || !body.name) throw new Error('Email and name are required');
+    if (getTable('users').some(row => row.email === body.email)) {
+      throw new Error('A user with this email address has already been registered');
+    }
+    const now = new Date().toISOString();
+    const userId = newId();
+    const vendorId = newId();
+    getTable('users').push({ id: userId, email: body.email, created_at: now });
+    getTable('vendors').push({
+      id: vendorId,
+      user_id: userId,
+      auth_id: userId,
+      name: body.name,
+      phone: body.phone || null,
+      profile: body.profile || null,
+      profile_photo: body.profile_photo || null,
+      years_experience: body.years_experience ? Number(body.years_experience) : null,
+      stripe_account_id: body.stripe_account_id || null,
+      created_at: now,
+      updated_at: now,
+    });
+    persist();
+    return { vendor_id: vendorId };
+  },
+  // What ical-feed serves for the token
+  'ical-feed': body => {
+    const vendor = getTable('vendors').find(row => body.token && row.ical_feed_token === body.token);
+    if (vendor) {
+      return buildIcsCalendar(`${vendor.name} bookings`, DEFAULT_TIME_ZONE, bookingFeedEvents(feedEvents('vendor_id', vendor.id)));
+    }
+    const couple = getTable('couples').find(row => body.token && row.ical_feed_token === body.token);
+    if (!couple) throw new Error('Feed not found');
+    const venue = (getTable('venues').find(row => row.id === couple.venue_id) ?? null) as unknown as FeedVenue | null;
+    const timeline = getTable('timeline_events')
+      .filter(row => row.couple_id === couple.id)
+      .sort((a, b) => `${a.event_date} ${a.event_time ?? ''}`.localeCompare(`${b.event_date} ${b.event_time ?? ''}`));
+    return buildIcsCalendar(
+      `${couple.name} wedding`,
+      venue?.time_zone || DEFAULT_TIME_ZONE,
+      coupleFeedEvents(feedEvents('couple_id', couple.id), timeline as unknown as FeedTimelineEvent[], venue),
+    );
+  },
+  'refund-payment': body => {
+    const payment = getTable('payments').find(row => row.id === body.payment_id);
+    return {
+      refund: rpcHandlers.record_refund({
+        p_payment_id: body.payment_id,
+        p_amount: body.amount,
+        p_reason: body.reason,
+        p_stripe_refund_id: payment?.stripe_payment_id ? `re_mock_${newId()}` : null,
+      }),
+    };
+  },
+  'send-booking-notice': body => {
+    const booking = getTable('bookings').find(row => row.id === body.booking_id);
+    if (!booking) throw new Error('Booking not found');
+    if (body.kind === 'cancelled' && !['cancelled', 'refunded'].includes(String(booking.status))) {
+      throw new Error('This booking has not been cancelled');
+    }
+    if (body.kind === 'rescheduled' && !getTable('booking_reschedules').some(row => row.booking_id === booking.id)) {
+      throw new Error('This booking has not been rescheduled');
+    }
+    const couple = getTable('couples').find(row => row.id === booking.couple_id);
+    const vendor = getTable('vendors').find(row => row.id === booking.vendor_id);
+    const vendorUser = getTable('users').find(row => row.id === vendor?.user_id);
+    const subject = body.kind === 'cancelled' ? `Booking cancelled: ${booking.service_type}` : `Booking rescheduled: ${booking.service_type}`;
+    const sent = [couple?.email, vendorUser?.email].filter((email): email is string => typeof email === 'string');
+    sent.forEach(email => getTable('email_logs').push({
+      id: newId(),
+      booking_id: booking.id,
+      vendor_id: booking.vendor_id,
+      couple_id: booking.couple_id,
+      email_to: email,
+      subject,
+      content: subject,
+      type: body.kind === 'cancelled' ? 'Cancellation' : 'Reschedule',
+      sent_at: new Date().toISOString(),
+      opened: false,
+      opened_at: null,
+    }));
+    persist();
+    return { sent };
+  },
+  'send-dunning-reminders': body => {
+    const steps = getTable('dunning_steps')
+      .filter(row => row.is_active)
+      .sort((a, b) => (a.offset_days as number) - (b.offset_days as number)) as Tables<'dunning_steps'>[];
+    const invoices = (getTable('invoices') as Tables<'invoices'>[])
+      .filter(invoice => invoice.due_date && isInvoiceOpen(invoice) && (!body.invoice_id || invoice.id === body.invoice_id));
+    if (body.invoice_id && invoices.length === 0) throw new Error('Invoice is not open or has no due date');
+
+    const sent: { invoice_id: string; step: string }[] = [];
+    for (const invoice of invoices) {
+      const history = getTable('invoice_reminders').filter(row => row.invoice_id === invoice.id) as Tables<'invoice_reminders'>[];
+      const next = nextDunningTouch(invoice, steps, history);
+      const elapsed = daysPastDue(invoice.due_date!);
+      // Like the edge function, a manual send resends the latest step that applies
+      const step = body.step_id
+        ? steps.find(row => row.id === body.step_id)
+        : next && daysPastDue(next.date) >= 0
+          ? next.step
+          : body.invoice_id ? steps.filter(row => row.offset_days <= elapsed).pop() : undefined;
+      if (!step) {
+        if (body.invoice_id) throw new Error('No reminder is due for this invoice yet');
+        continue;
+      }
+      const couple = getTable('couples').find(row => row.id === invoice.couple_id);
+      getTable('invoice_reminders').push({
+        id: newId(),
+        invoice_id: invoice.id,
+        step_id: step.id,
+        installment_id: null,
+        kind: 'dunning',
+        recipient_email: couple?.email ?? null,
+        subject: step.subject,
+        sent_by: body.invoice_id ? MOCK_ADMIN_ID : null,
+        sent_at: new Date().toISOString(),
+      });
+      sent.push({ invoice_id: invoice.id, step: step.name });
+    }
+    persist();
+    return { sent, errors: [] };
+  },
+  'send-invoice-email': body => {
+    const now = new Date().toISOString();
+    const installment = getTable('invoice_installments').find(row => row.id === body.installment_id);
+    if (installment) installment.last_reminded_at = now;
+    const invoice = getTable('invoices').find(row => row.id === body.invoice_id);
+    const couple = getTable('couples').find(row => row.id === invoice?.couple_id);
+    getTable('invoice_reminders').push({
+      id: newId(),
+      invoice_id: body.invoice_id,
+      step_id: null,
+      installment_id: installment?.id ?? null,
+      kind: installment ? 'installment' : 'invoice',
+      recipient_email: couple?.email ?? null,
+      subject: null,
+      sent_by: MOCK_ADMIN_ID,
+      sent_at: now,
+    });
+    persist();
+    return { success: true };
+  },
+};
+
+function run(handler: Handler | undefined, name: string, kind: string, args: Record<string, unknown>): HandlerResult {
+  if (!handler) {
+    return { data: null, error: mockError(`${kind} "${name}" is not available in the mock backend`, 'PGRST202') };
+  }
+  try {
+    return { data: handler(args), error: null };
+  } catch (error) {
+    const failure = error as Partial<MockError> & Error;
+    return { data: null, error: mockError(failure.message, failure.code || 'P0001', failure.details ?? null) };
+  }
+}
+
+export function runRpc(name: string, args: Record<string, unknown> = {}): HandlerResult {
+  return run(rpcHandlers[name], name, 'Function', args);
+}
+
+export function invokeFunction(name: string, body: Record<string, unknown> = {}): HandlerResult {
+  console.info(`[mock backend] ${name} invoked with`, body);
+  const handler = functionHandlers[name] || (() => ({ success: true }));
+  return run(handler, name, 'Edge function', body);
+}
@@ -0,0 +1,452 @@
+import { getTable, setTable, persist, newId, MockRow } from './store';
+
+export interface MockError {
+  message: string;
+  details: string | null;
+  hint: string | null;
+  code: string;
+}
+
+export interface MockResponse {
+  data: unknown;
+  error: MockError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+type Filter = (row: MockRow) => boolean;
+
+type SelectNode =
+  | { kind: 'all' }
+  | { kind: 'column'; name: string; alias: string }
+  | { kind: 'embed'; table: string; alias: string; hint: string | null; inner: boolean; children: SelectNode[] };
+
+export function mockError(message: string, code = 'MOCK', details: string | null = null): MockError {
+  return { message, details, hint: null, code };
+}
+
+// ---------------------------------------------------------------------------
+// Select parsing and embedding
+// ---------------------------------------------------------------------------
+
+// Splits on commas that are not inside parentheses
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+function parseSelect(columns: string): SelectNode[] {
+  const compact = columns.replace(/\s+/g, '');
+  if (!compact) return [{ kind: 'all' }];
+
+  return splitTopLevel(compact).map((token): SelectNode => {
+    if (token === '*') return { kind: 'all' };
+
+    const open = token.indexOf('(');
+    if (open !== -1) {
+      const head = token.slice(0, open);
+      const body = token.slice(open + 1, token.lastIndexOf(')'));
+      const [alias, relation] = head.includes(':') ? head.split(':') : [null, head];
+      const [table, ...modifiers] = relation.split('!');
+      const hint = modifiers.find(modifier => modifier !== 'inner' && modifier !== 'left') || null;
+      return {
+        kind: 'embed',
+        table,
+        alias: alias || table,
+        hint,
+        inner: modifiers.includes('inner'),
+        children: parseSelect(body),
+      };
+    }
+
+    const [alias, column] = token.includes(':') ? token.split(':') : [null, token];
+    const name = column.split('::')[0];
+    return { kind: 'column', name, alias: alias || name };
+  });
+}
+
+const singular = (table: string) =>
+  table.endsWith('ies') ? `${table.slice(0, -3)}y` : table.endsWith('s') ? table.slice(0, -1) : table;
+
+// Column holding the foreign key, taken from a constraint hint such as
+// bookings_couple_id_fkey, a plain column hint, or the <table>_id convention
+function foreignKeyColumn(owner: string, referenced: string, hint: string | null): string {
+  if (hint) return hint.replace(new RegExp(`^${owner}_`), '').replace(/_fkey$/, '');
+  return `${singular(referenced)}_id`;
+}
+
+function resolveEmbed(parentTable: string, row: MockRow, node: Extract<SelectNode, { kind: 'embed' }>): unknown {
+  const target = getTable(node.table);
+
+  // Many-to-one: the parent row holds the key (bookings.couple_id -> couples)
+  const parentKey = foreignKeyColumn(parentTable, node.table, node.hint);
+  if (parentKey in row) {
+    const match = target.find(candidate => candidate.id === row[parentKey]);
+    return match ? project(node.table, match, node.children) : null;
+  }
+
+  // One-to-many: the embedded rows point back at the parent (invoices -> invoice_line_items)
+  const childKey = foreignKeyColumn(node.table, parentTable, node.hint);
+  return target
+    .filter(candidate => candidate[childKey] === row.id)
+    .map(candidate => project(node.table, candidate, node.children));
+}
+
+function project(table: string, row: MockRow, nodes: SelectNode[]): MockRow {
+  const result: MockRow = {};
+  for (const node of nodes) {
+    if (node.kind === 'all') Object.assign(result, row);
+    else if (node.kind === 'column') result[node.alias] = row[node.name] ?? null;
+    else result[node.alias] = resolveEmbed(table, row, node);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Filters
+// ---------------------------------------------------------------------------
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b);
+
+function likePattern(pattern: string, caseInsensitive: boolean): RegExp {
+  const source = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/[%*]/g, '.*')
+    .replace(/_/g, '.');
+  return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '');
+}
+
+// '{a,b}' (PostgREST array literal) or a real array
+function toArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    return value.replace(/^[{(]|[})]$/g, '').split(',').map(item => item.trim().replace(/^"|"$/g, '')).filter(Boolean);
+  }
+  return [value];
+}
+
+function buildFilter(column: string, operator: string, value: unknown): Filter {
+  // Filters on embedded resources (couples.name) are not evaluated by the mock
+  if (column.includes('.')) return () => true;
+
+  switch (operator) {
+    case 'eq': return row => sameValue(row[column], value);
+    case 'neq': return row => !sameValue(row[column], value);
+    case 'gt': return row => row[column] != null && compareValues(row[column], value) > 0;
+    case 'gte': return row => row[column] != null && compareValues(row[column], value) >= 0;
+    case 'lt': return row => row[column] != null && compareValues(row[column], value) < 0;
+    case 'lte': return row => row[column] != null && compareValues(row[column], value) <= 0;
+    case 'like': return row => row[column] != null && likePattern(String(value), false).test(String(row[column]));
+    case 'ilike': return row => row[column] != null && likePattern(String(value), true).test(String(row[column]));
+    case 'in': {
+      const values = toArray(value);
+      return row => values.some(candidate => sameValue(row[column], candidate));
+    }
+    case 'is': return row => (value === null || value === 'null' ? row[column] == null : String(row[column]) === String(value));
+    case 'cs': {
+      const values = toArray(value);
+      return row => Array.isArray(row[column]) && values.every(candidate => (row[column] as unknown[]).some(item => sameValue(item, candidate)));
+    }
+    case 'ov': {
+      const values = toArray(value);
+      return row => Array.isArray(row[column]) && values.some(candidate => (row[column] as unknown[]).some(item => sameValue(item, candidate)));
+    }
+    default:
+      throw new Error(`Filter operator "${operator}" is not supported by the mock backend`);
+  }
+}
+
+function parseFilterValue(operator: string, raw: string): unknown {
+  if (operator === 'in') return raw;
+  if (operator === 'is') return raw === 'null' ? null : raw;
+  return raw.replace(/^"|"$/g, '');
+}
+
+// PostgREST logic trees as passed to .or(): 'a.eq.1,b.in.(x,y),and(c.gt.2,d.is.null)'
+function parseLogicTree(expression: string): Filter[] {
+  return splitTopLevel(expression).map(condition => {
+    const nested = condition.match(/^(and|or)\((.*)\)$/);
+    if (nested) {
+      const children = parseLogicTree(nested[2]);
+      return nested[1] === 'and'
+        ? (row: MockRow) => children.every(filter => filter(row))
+        : (row: MockRow) => children.some(filter => filter(row));
+    }
+
+    const [column, ...rest] = condition.split('.');
+    const negated = rest[0] === 'not';
+    if (negated) rest.shift();
+    const operator = rest.shift() || 'eq';
+    const filter = buildFilter(column, operator, parseFilterValue(operator, rest.join('.')));
+    return negated ? (row: MockRow) => !filter(row) : filter;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Query builder
+// ---------------------------------------------------------------------------
+
+// Mirrors the PostgrestQueryBuilder / PostgrestFilterBuilder chain closely enough
+// for the dashboard: every method returns the builder and awaiting it runs the query.
+export class MockQueryBuilder implements PromiseLike<MockResponse> {
+  private operation: Operation = 'select';
+  private columns = '*';
+  private returning = false;
+  private filters: Filter[] = [];
+  private orderings: { column: string; ascending: boolean; nullsFirst: boolean }[] = [];
+  private rangeFrom: number | null = null;
+  private rangeTo: number | null = null;
+  private countMode: 'exact' | null = null;
+  private headOnly = false;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+  private payload: MockRow[] = [];
+  private onConflict = 'id';
+  private failure: MockError | null = null;
+
+  constructor(private readonly table: string) {}
+
+  select(columns = '*', options: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean } = {}) {
+    if (this.operation === 'select') {
+      this.columns = columns;
+      this.countMode = options.count ? 'exact' : null;
+      this.headOnly = !!options.head;
+    } else {
+      this.returning = true;
+      this.columns = columns;
+    }
+    return this;
+  }
+
+  insert(values: MockRow | MockRow[]) {
+    this.operation = 'insert';
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: MockRow | MockRow[], options: { onConflict?: string } = {}) {
+    this.operation = 'upsert';
+    this.payload = Array.isArray(values) ? values : [values];
+    this.onConflict = options.onConflict || 'id';
+    return this;
+  }
+
+  update(values: MockRow) {
+    this.operation = 'update';
+    this.payload = [values];
+    return this;
+  }
+
+  delete() {
+    this.operation = 'delete';
+    return this;
+  }
+
+  private addFilter(column: string, operator: string, value: unknown) {
+    try {
+      this.filters.push(buildFilter(column, operator, value));
+    } catch (error) {
+      this.failure = mockError((error as Error).message);
+    }
+    return this;
+  }
+
+  eq(column: string, value: unknown) { return this.addFilter(column, 'eq', value); }
+  neq(column: string, value: unknown) { return this.addFilter(column, 'neq', value); }
+  gt(column: string, value: unknown) { return this.addFilter(column, 'gt', value); }
+  gte(column: string, value: unknown) { return this.addFilter(column, 'gte', value); }
+  lt(column: string, value: unknown) { return this.addFilter(column, 'lt', value); }
+  lte(column: string, value: unknown) { return this.addFilter(column, 'lte', value); }
+  like(column: string, pattern: string) { return this.addFilter(column, 'like', pattern); }
+  ilike(column: string, pattern: string) { return this.addFilter(column, 'ilike', pattern); }
+  in(column: string, values: unknown[]) { return this.addFilter(column, 'in', values); }
+  is(column: string, value: unknown) { return this.addFilter(column, 'is', value); }
+  contains(column: string, value: unknown) { return this.addFilter(column, 'cs', value); }
+  overlaps(column: string, value: unknown) { return this.addFilter(column, 'ov', value); }
+
+  match(query: Record<string, unknown>) {
+    Object.entries(query).forEach(([column, value]) => this.eq(column, value));
+    return this;
+  }
+
+  filter(column: string, operator: string, value: unknown) {
+    return this.addFilter(column, operator, typeof value === 'string' ? parseFilterValue(operator, value) : value);
+  }
+
+  not(column: string, operator: string, value: unknown) {
+    try {
+      const filter = buildFilter(column, operator, value);
+      this.filters.push(row => !filter(row));
+    } catch (error) {
+      this.failure = mockError((error as Error).message);
+    }
+    return this;
+  }
+
+  or(expression: string) {
+    try {
+      const alternatives = parseLogicTree(expression);
+      this.filters.push(row => alternatives.some(filter => filter(row)));
+    } catch (error) {
+      this.failure = mockError((error as Error).message);
+    }
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+    this.orderings.push({ column, ascending: options.ascending ?? true, nullsFirst: options.nullsFirst ?? false });
+    return this;
+  }
+
+  limit(count: number) {
+    this.rangeFrom = this.rangeFrom ?? 0;
+    this.rangeTo = this.rangeFrom + count - 1;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.rangeFrom = from;
+    this.rangeTo = to;
+    return this;
+  }
+
+  single() {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = MockResponse, TResult2 = never>(
+    onfulfilled?: ((value: MockResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matches(row: MockRow) {
+    return this.filters.every(filter => filter(row));
+  }
+
+  private withDefaults(row: MockRow, sample: MockRow | undefined): MockRow {
+    const now = new Date().toISOString();
+    return {
+      id: newId(),
+      created_at: now,
+      ...(sample && 'updated_at' in sample ? { updated_at: now } : {}),
+      ...row,
+    };
+  }
+
+  private execute(): MockResponse {
+    if (this.failure) return this.respond(null, this.failure, 400);
+
+    const rows = getTable(this.table);
+    let affected: MockRow[];
+
+    switch (this.operation) {
+      case 'insert':
+        affected = this.payload.map(row => this.withDefaults(row, rows[0]));
+        setTable(this.table, [...rows, ...affected]);
+        persist();
+        break;
+      case 'upsert': {
+        const keys = this.onConflict.split(',').map(key => key.trim());
+        affected = this.payload.map(row => {
+          const existing = rows.find(candidate => keys.every(key => row[key] !== undefined && sameValue(candidate[key], row[key])));
+          if (!existing) {
+            const inserted = this.withDefaults(row, rows[0]);
+            rows.push(inserted);
+            return inserted;
+          }
+          Object.assign(existing, row);
+          return existing;
+        });
+        persist();
+        break;
+      }
+      case 'update': {
+        const now = new Date().toISOString();
+        affected = rows.filter(row => this.matches(row));
+        affected.forEach(row => Object.assign(row, 'updated_at' in row ? { updated_at: now } : {}, this.payload[0]));
+        persist();
+        break;
+      }
+      case 'delete':
+        affected = rows.filter(row => this.matches(row));
+        setTable(this.table, rows.filter(row => !affected.includes(row)));
+        persist();
+        break;
+      default:
+        affected = rows.filter(row => this.matches(row));
+    }
+
+    if (this.operation !== 'select' && !this.returning) {
+      return this.respond(null, null, this.operation === 'insert' ? 201 : 204);
+    }
+
+    const nodes = parseSelect(this.columns);
+    let result = affected.map(row => project(this.table, row, nodes));
+
+    // !inner embeds drop parent rows whose embedded resource is missing
+    nodes.forEach(node => {
+      if (node.kind === 'embed' && node.inner) {
+        result = result.filter(row => Array.isArray(row[node.alias]) ? (row[node.alias] as unknown[]).length > 0 : row[node.alias] != null);
+      }
+    });
+
+    this.orderings.slice().reverse().forEach(({ column, ascending, nullsFirst }) => {
+      result.sort((a, b) => {
+        if (a[column] == null && b[column] != null) return nullsFirst ? -1 : 1;
+        if (b[column] == null && a[column] != null) return nullsFirst ? 1 : -1;
+        return ascending ? compareValues(a[column], b[column]) : compareValues(b[column], a[column]);
+      });
+    });
+
+    const count = this.countMode ? result.length : null;
+    if (this.rangeFrom !== null) result = result.slice(this.rangeFrom, (this.rangeTo ?? result.length - 1) + 1);
+
+    if (this.cardinality !== 'many') {
+      if (result.length > 1 || (result.length === 0 && this.cardinality === 'single')) {
+        return this.respond(
+          null,
+          mockError('JSON object requested, multiple (or no) rows returned', 'PGRST116', `The result contains ${result.length} rows`),
+          406
+        );
+      }
+      return this.respond(result[0] ?? null, null, 200, count);
+    }
+
+    return this.respond(this.headOnly ? null : result, null, 200, count);
+  }
+
+  private respond(data: unknown, error: MockError | null, status: number, count: number | null = null): MockResponse {
+    return { data, error, count, status, statusText: error ? 'Error' : 'OK' };
+  }
+}
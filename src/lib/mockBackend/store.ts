@@ -0,0 +1,63 @@
+import { fixtures } from './fixtures';
+
+export type MockRow = Record<string, unknown>;
+export type MockTables = Record<string, MockRow[]>;
+
+// Tables are kept in localStorage so edits survive the full page reloads the
+// auth flow does; resetMockBackend() goes back to the seed fixtures.
+const STORAGE_KEY = 'mock-backend:tables';
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+function load(): MockTables {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    // Tables added to the fixtures since the data was saved start from their seed rows
+    if (saved) return { ...clone(fixtures), ...JSON.parse(saved) };
+  } catch {
+    // localStorage unavailable or holding something unreadable; start from the fixtures
+  }
+  return clone(fixtures);
+}
+
+let tables = load();
+
+export function getTable(name: string): MockRow[] {
+  if (!tables[name]) tables[name] = [];
+  return tables[name];
+}
+
+export function setTable(name: string, rows: MockRow[]) {
+  tables[name] = rows;
+}
+
+export function persist() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tables));
+  } catch {
+    // Quota exceeded or storage disabled: the data stays in memory for this session
+  }
+}
+
+// Runs fn against the tables and rolls every change back if it throws, the way a
+// database transaction would (used by batch RPCs).
+export function transaction<T>(fn: () => T): T {
+  const before = clone(tables);
+  try {
+    const result = fn();
+    persist();
+    return result;
+  } catch (error) {
+    tables = before;
+    throw error;
+  }
+}
+
+export function resetMockBackend() {
+  tables = clone(fixtures);
+  persist();
+}
+
+export function newId(): string {
+  return crypto.randomUUID();
+}
@@ -0,0 +1,80 @@
+// Permission model stored in profiles.permissions as { [permission]: boolean }.
+// Missing keys fall back to the admin defaults; super admins always hold every
+// permission and are the only ones who can edit other admins' sets.
+
+export const PERMISSION_GROUPS = [
+  {
+    group: 'Users & Leads',
+    permissions: [
+      { key: 'analytics.read', label: 'View analytics' },
+      { key: 'ads.manage', label: 'Manage advertising' },
+      { key: 'vendors.write', label: 'Create and edit vendors' },
+      { key: 'vendors.delete', label: 'Delete vendors' },
+      { key: 'applications.review', label: 'Review vendor applications' },
+      { key: 'rewards.manage', label: 'Manage rewards' },
+      { key: 'couples.write', label: 'Create and edit couples' },
+      { key: 'leads.manage', label: 'Manage leads' },
+    ],
+  },
+  {
+    group: 'Communication',
+    permissions: [
+      { key: 'emails.send', label: 'Send individual emails' },
+      { key: 'emails.broadcast', label: 'Send emails to multiple recipients' },
+      { key: 'support.manage', label: 'Handle inquiries, forum, messages and chats' },
+      { key: 'blog.write', label: 'Write blog posts' },
+      { key: 'blog.publish', label: 'Publish blog posts' },
+    ],
+  },
+  {
+    group: 'Orders & Payments',
+    permissions: [
+      { key: 'orders.manage', label: 'Manage store orders' },
+      { key: 'payments.read', label: 'View payments and invoices' },
+      { key: 'payments.write', label: 'Record payments and edit invoices' },
+    ],
+  },
+  {
+    group: 'Operations',
+    permissions: [
+      { key: 'reviews.manage', label: 'Manage reviews, FAQ and issues' },
+      { key: 'bookings.write', label: 'Create and edit bookings, venues, timelines and contracts' },
+      { key: 'services.manage', label: 'Manage service packages and products' },
+      { key: 'tools.manage', label: 'Use job board, storage and imports' },
+      { key: 'audit.read', label: 'View the audit log' },
+    ],
+  },
+] as const;
+
+export type Permission = typeof PERMISSION_GROUPS[number]['permissions'][number]['key'];
+
+export type PermissionSet = Partial<Record<Permission, boolean>>;
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSION_GROUPS.flatMap(group =>
+  group.permissions.map(permission => permission.key)
+);
+
+// Destructive or outward-facing actions are opt-in for regular admins. The
+// database resolves permissions the same way (admin_has_permission in the
+// check_admin_permissions_in_the_database migration); keep the lists in step.
+const RESTRICTED_PERMISSIONS: Permission[] = [
+  'vendors.delete',
+  'payments.write',
+  'emails.broadcast',
+  'blog.publish',
+];
+
+export const DEFAULT_ADMIN_PERMISSIONS: PermissionSet = ALL_PERMISSIONS.reduce((acc, permission) => {
+  acc[permission] = !RESTRICTED_PERMISSIONS.includes(permission);
+  return acc;
+}, {} as PermissionSet);
+
+export function resolvePermissions(adminLevel: string | undefined, permissions: PermissionSet | null | undefined): PermissionSet {
+  if (adminLevel === 'super_admin') {
+    return ALL_PERMISSIONS.reduce((acc, permission) => {
+      acc[permission] = true;
+      return acc;
+    }, {} as PermissionSet);
+  }
+  return { ...DEFAULT_ADMIN_PERMISSIONS, ...(permissions || {}) };
+}
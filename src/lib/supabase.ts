@@ -1,4 +1,6 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../types/database';
+import { createMockClient } from './mockBackend/client';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -24,315 +26,48 @@ export const isSupabaseConfigured = () => {
   return isValid;
 };
 
-// Only create client if properly configured
-export const supabase = isSupabaseConfigured()
-  ? createClient(supabaseUrl!, supabaseAnonKey!)
-  : null;
+// With VITE_USE_MOCK_BACKEND=true in a dev build the app runs against the
+// in-memory mock backend in ./mockBackend, signed in as a seeded admin. Production
+// builds always talk to the configured project.
+export const isMockBackend =
+  import.meta.env.DEV && import.meta.env.VITE_USE_MOCK_BACKEND === 'true';
 
-export type Database = {
-  public: {
-    Tables: {
-      profiles: {
-        Row: {
-          id: string;
-          role: string;
-          admin_level: string;
-          description: string | null;
-          permissions: any;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id: string;
-          role?: string;
-          admin_level?: string;
-          description?: string | null;
-          permissions?: any;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          role?: string;
-          admin_level?: string;
-          description?: string | null;
-          permissions?: any;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-      vendors: {
-        Row: {
-          id: string;
-          name: string;
-          email: string;
-          phone: string | null;
-          service_types: string[];
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          name: string;
-          email: string;
-          phone?: string | null;
-          service_types?: string[];
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          name?: string;
-          email?: string;
-          phone?: string | null;
-          service_types?: string[];
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-      couples: {
-        Row: {
-          id: string;
-          partner1_name: string;
-          partner2_name: string;
-          email: string;
-          phone: string | null;
-          wedding_date: string | null;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          partner1_name: string;
-          partner2_name: string;
-          email: string;
-          phone?: string | null;
-          wedding_date?: string | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          partner1_name?: string;
-          partner2_name?: string;
-          email?: string;
-          phone?: string | null;
-          wedding_date?: string | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-      bookings: {
-        Row: {
-          id: string;
-          couple_id: string;
-          vendor_id: string;
-          event_date: string;
-          location: string | null;
-          service_type: string;
-          status: string;
-          amount: number;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          couple_id: string;
-          vendor_id: string;
-          event_date: string;
-          location?: string | null;
-          service_type: string;
-          status?: string;
-          amount: number;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          couple_id?: string;
-          vendor_id?: string;
-          event_date?: string;
-          location?: string | null;
-          service_type?: string;
-          status?: string;
-          amount?: number;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-      events: {
-        Row: {
-          id: string;
-          vendor_id: string;
-          couple_id: string | null;
-          start_time: string;
-          end_time: string;
-          title: string | null;
-          description: string | null;
-          location: string | null;
-          type: string;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          vendor_id: string;
-          couple_id?: string | null;
-          start_time: string;
-          end_time: string;
-          title?: string | null;
-          description?: string | null;
-          location?: string | null;
-          type: string;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          vendor_id?: string;
-          couple_id?: string | null;
-          start_time?: string;
-          end_time?: string;
-          title?: string | null;
-          description?: string | null;
-          location?: string | null;
-          type?: string;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-      payments: {
-        Row: {
-          id: string;
-          booking_id: string;
-          amount: number;
-          status: string;
-          stripe_payment_id: string | null;
-          created_at: string;
-        };
-        Insert: {
-          id?: string;
-          booking_id: string;
-          amount: number;
-          status?: string;
-          stripe_payment_id?: string | null;
-          created_at?: string;
-        };
-        Update: {
-          id?: string;
-          booking_id?: string;
-          amount?: number;
-          status?: string;
-          stripe_payment_id?: string | null;
-          created_at?: string;
-        };
-      };
-      import_history: {
-        Row: {
-          id: string;
-          type: string;
-          filename: string;
-          user_id: string;
-          timestamp: string;
-          rows_added: number;
-          errors: number;
-          status: string;
-          error_details: any;
-          created_at: string;
-        };
-        Insert: {
-          id?: string;
-          type: string;
-          filename: string;
-          user_id: string;
-          timestamp?: string;
-          rows_added?: number;
-          errors?: number;
-          status: string;
-          error_details?: any;
-          created_at?: string;
-        };
-        Update: {
-          id?: string;
-          type?: string;
-          filename?: string;
-          user_id?: string;
-          timestamp?: string;
-          rows_added?: number;
-          errors?: number;
-          status?: string;
-          error_details?: any;
-          created_at?: string;
-        };
-      };
-      vendor_applications: {
-        Row: {
-          id: string;
-          name: string;
-          phone: string;
-          email: string;
-          address: { street: string; city: string; state: string; zip: string } | null;
-          service_locations: string[];
-          services_applying_for: string[];
-          gear: { gear_type: string; brand: string; model: string; year: string; condition: string }[];
-          profile_photo: string | null;
-          drivers_license_front: string | null;
-          drivers_license_back: string | null;
-          description: string | null;
-          work_links: string[];
-          work_samples: string[];
-          status: string;
-          admin_notes: string | null;
-          reviewed_at: string | null;
-          reviewed_by: string | null;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          name: string;
-          phone: string;
-          email: string;
-          address?: { street: string; city: string; state: string; zip: string } | null;
-          service_locations?: string[];
-          services_applying_for?: string[];
-          gear?: { gear_type: string; brand: string; model: string; year: string; condition: string }[];
-          profile_photo?: string | null;
-          drivers_license_front?: string | null;
-          drivers_license_back?: string | null;
-          description?: string | null;
-          work_links?: string[];
-          work_samples?: string[];
-          status?: string;
-          admin_notes?: string | null;
-          reviewed_at?: string | null;
-          reviewed_by?: string | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          name?: string;
-          phone?: string;
-          email?: string;
-          address?: { street: string; city: string; state: string; zip: string } | null;
-          service_locations?: string[];
-          services_applying_for?: string[];
-          gear?: { gear_type: string; brand: string; model: string; year: string; condition: string }[];
-          profile_photo?: string | null;
-          drivers_license_front?: string | null;
-          drivers_license_back?: string | null;
-          description?: string | null;
-          work_links?: string[];
-          work_samples?: string[];
-          status?: string;
-          admin_notes?: string | null;
-          reviewed_at?: string | null;
-          reviewed_by?: string | null;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-    };
-  };
-};
\ No newline at end of file
+if (isMockBackend) {
+  console.info('Using the local mock backend; data is stored in this browser only.');
+}
+
+export const supabase = isMockBackend
+  ? (createMockClient() as unknown as SupabaseClient<Database>)
+  // AuthProvider reports a missing configuration before anything queries the
+  // placeholder project
+  : createClient<Database>(
+      supabaseUrl || 'https://placeholder.supabase.co',
+      supabaseAnonKey || 'placeholder-key'
+    );
+
+// The handle src/repositories query through. It is the same typed client as
+// `supabase`. The booking, couple, vendor, vendor application, invoice,
+// payment, job board and admin permission pages read and write through the
+// repositories. useVendorData and utils/vendorUtils (the vendor detail page's
+// gear, tags and photos), and the pages and modals for entities with no
+// repository yet (orders, products, blog, forum, messages, timelines, ...),
+// still build their own queries on `supabase`.
+export const db = supabase;
+
+// PostgREST returns at most 1000 rows per request. Reads a whole result one
+// page at a time; the query must have a stable order for the pages to line up.
+const PAGE_SIZE = 1000;
+
+export async function selectAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export type { Database, Tables, TablesInsert, TablesUpdate } from '../types/database';
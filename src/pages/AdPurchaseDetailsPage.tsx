@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Briefcase, Mail, Phone, FileText, Image as ImageIcon } from 'lucide-react';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
 import { Button } from '../components/ui/Button';
 import { Card } from '../components/ui/Card';
@@ -9,13 +9,13 @@ import { Card } from '../components/ui/Card';
 interface AdPurchase {
   id: string;
   sponsor_name: string;
-  phone: string;
+  phone: string | null;
   email: string;
   placement_type: string;
-  billing_cycle: string;
-  total_price: number;
-  start_date: string;
-  end_date: string;
+  billing_cycle: string | null;
+  total_price: number | null;
+  start_date: string | null;
+  end_date: string | null;
   status: string;
   created_at: string;
   updated_at: string;
@@ -69,12 +69,9 @@ export default function AdPurchaseDetailsPage() {
   }, []);
 
   const fetchPurchaseDetails = async () => {
+    if (!id) return;
     try {
       setLoading(true);
-      if (!isSupabaseConfigured() || !supabase) {
-        throw new Error('Supabase is not configured');
-      }
-
       // Fetch the ad purchase
       const { data, error } = await supabase
         .from('ads')
@@ -367,7 +364,7 @@ export default function AdPurchaseDetailsPage() {
                 <Phone className="h-5 w-5 text-gray-500 mr-2 mt-1" />
                 <div>
                   <label className="text-sm font-medium text-gray-500">Phone</label>
-                  <p className="text-sm text-gray-900">{purchase.phone}</p>
+                  <p className="text-sm text-gray-900">{purchase.phone || 'N/A'}</p>
                 </div>
               </div>
               <div className="flex items-start">
@@ -381,28 +378,28 @@ export default function AdPurchaseDetailsPage() {
                 <FileText className="h-5 w-5 text-gray-500 mr-2 mt-1" />
                 <div>
                   <label className="text-sm font-medium text-gray-500">Billing Cycle</label>
-                  <p className="text-sm text-gray-900">{purchase.billing_cycle.charAt(0).toUpperCase() + purchase.billing_cycle.slice(1)}</p>
+                  <p className="text-sm text-gray-900">{purchase.billing_cycle ? purchase.billing_cycle.charAt(0).toUpperCase() + purchase.billing_cycle.slice(1) : 'N/A'}</p>
                 </div>
               </div>
               <div className="flex items-start">
                 <FileText className="h-5 w-5 text-gray-500 mr-2 mt-1" />
                 <div>
                   <label className="text-sm font-medium text-gray-500">Total Price</label>
-                  <p className="text-sm text-gray-900">${purchase.total_price.toFixed(2)}</p>
+                  <p className="text-sm text-gray-900">${(purchase.total_price || 0).toFixed(2)}</p>
                 </div>
               </div>
               <div className="flex items-start">
                 <FileText className="h-5 w-5 text-gray-500 mr-2 mt-1" />
                 <div>
                   <label className="text-sm font-medium text-gray-500">Start Date</label>
-                  <p className="text-sm text-gray-900">{new Date(purchase.start_date).toLocaleDateString()}</p>
+                  <p className="text-sm text-gray-900">{purchase.start_date ? new Date(purchase.start_date).toLocaleDateString() : 'N/A'}</p>
                 </div>
               </div>
               <div className="flex items-start">
                 <FileText className="h-5 w-5 text-gray-500 mr-2 mt-1" />
                 <div>
                   <label className="text-sm font-medium text-gray-500">End Date</label>
-                  <p className="text-sm text-gray-900">{new Date(purchase.end_date).toLocaleDateString()}</p>
+                  <p className="text-sm text-gray-900">{purchase.end_date ? new Date(purchase.end_date).toLocaleDateString() : 'N/A'}</p>
                 </div>
               </div>
               <div className="flex items-start">
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Briefcase, Eye } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import type { Json } from '../types/database';
 import toast from 'react-hot-toast';
 import { Button } from '../components/ui/Button';
 import { Card } from '../components/ui/Card';
@@ -55,19 +56,29 @@ const adTypes = [
   },
 ];
 
+// What the sponsor chose in the ad purchase form, kept as JSON on the ads table
+interface AdSelection {
+  billingCycle?: string;
+  selectedEmails?: string[];
+  numPhotos?: number;
+  selectedServices?: number[];
+  selectedVendors?: number[];
+  selectedMains?: string[];
+}
+
 interface AdPurchase {
   id: string;
   sponsor_name: string;
   email: string;
-  phone: string;
+  phone: string | null;
   placement_type: string;
   billing_cycle: string;
   total_price: number;
-  start_date: string;
-  end_date: string;
+  start_date: string | null;
+  end_date: string | null;
   status: string;
   created_at: string;
-  selected_pages: any; // JSON object from ads table
+  selected_pages: Json | null;
 }
 
 export default function AdPurchasesPage() {
@@ -96,36 +107,39 @@ export default function AdPurchasesPage() {
       // Calculate total_price and status
       const purchasesWithDetails = data?.map((purchase) => {
         const ad = adTypes.find((a) => a.name === purchase.placement_type);
+        const selection = (purchase.selected_pages || {}) as AdSelection;
         let totalPrice = 0;
         let status = 'Inactive';
 
         if (ad) {
-          const billing = purchase.selected_pages.billingCycle || 'monthly';
+          const billing = selection.billingCycle || 'monthly';
           if (purchase.placement_type === 'Email Sponsorship') {
-            const emailCount = purchase.selected_pages.selectedEmails?.length || 0;
+            const emailCount = selection.selectedEmails?.length || 0;
             const emailPrice = billing === 'monthly' ? ad.monthlyPrice : billing === 'quarterly' ? ad.quarterlyPrice : ad.yearlyPrice;
             totalPrice = emailCount * emailPrice;
           } else if (['Photo Ad', 'Featured Photo Ad'].includes(purchase.placement_type)) {
-            const numPhotos = purchase.selected_pages.numPhotos || 1;
+            const numPhotos = selection.numPhotos || 1;
             const photoPrice = billing === 'monthly' ? ad.monthlyPrice : billing === 'quarterly' ? ad.quarterlyPrice : ad.yearlyPrice;
             totalPrice = numPhotos * photoPrice;
           } else {
-            const serviceCount = (purchase.selected_pages.selectedServices?.length || 0) + (purchase.selected_pages.selectedVendors?.length || 0);
-            const mainCount = purchase.selected_pages.selectedMains?.length || 0;
+            const serviceCount = (selection.selectedServices?.length || 0) + (selection.selectedVendors?.length || 0);
+            const mainCount = selection.selectedMains?.length || 0;
             const servicePrice = billing === 'monthly' ? ad.monthlyPrice : billing === 'quarterly' ? ad.quarterlyPrice : ad.yearlyPrice;
             const mainPrice = billing === 'monthly' ? ad.mainMonthlyPrice : billing === 'quarterly' ? ad.mainQuarterlyPrice : ad.yearlyPrice;
             totalPrice = serviceCount * servicePrice + mainCount * mainPrice;
           }
 
           // Determine status based on start_date and end_date
-          const startDate = new Date(purchase.start_date);
-          const endDate = new Date(purchase.end_date);
-          status = currentDate >= startDate && currentDate <= endDate ? 'Active' : 'Inactive';
+          if (purchase.start_date && purchase.end_date) {
+            const startDate = new Date(purchase.start_date);
+            const endDate = new Date(purchase.end_date);
+            status = currentDate >= startDate && currentDate <= endDate ? 'Active' : 'Inactive';
+          }
         }
 
         return {
           ...purchase,
-          billing_cycle: purchase.selected_pages.billingCycle || 'monthly',
+          billing_cycle: selection.billingCycle || 'monthly',
           total_price: totalPrice,
           status,
         };
@@ -249,8 +263,8 @@ export default function AdPurchasesPage() {
                       <td className="px-6 py-4 whitespace-nowrap">{purchase.placement_type}</td>
                       <td className="px-6 py-4 whitespace-nowrap">{purchase.billing_cycle.charAt(0).toUpperCase() + purchase.billing_cycle.slice(1)}</td>
                       <td className="px-6 py-4 whitespace-nowrap">${purchase.total_price.toFixed(2)}</td>
-                      <td className="px-6 py-4 whitespace-nowrap">{new Date(purchase.start_date).toLocaleDateString()}</td>
-                      <td className="px-6 py-4 whitespace-nowrap">{new Date(purchase.end_date).toLocaleDateString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">{purchase.start_date ? new Date(purchase.start_date).toLocaleDateString() : 'N/A'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">{purchase.end_date ? new Date(purchase.end_date).toLocaleDateString() : 'N/A'}</td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <select
                           value={purchase.status}
@@ -29,7 +29,7 @@ interface Lead {
   wedding_date: string | null;
   city: string | null;
   state: string | null;
-  services_requested: string[] | null;
+  services_requested: string | null;
   form_notes: string | null;
   response_status: string | null;
   lead_source: string | null;
@@ -56,6 +56,7 @@ export default function AdminChatDetailsPage() {
 
   useEffect(() => {
     const fetchChatData = async () => {
+      if (!session_id) return;
       try {
         setLoading(true);
 
@@ -203,7 +204,7 @@ export default function AdminChatDetailsPage() {
               </div>
               <div>
                 <p className="text-sm font-medium text-gray-900">Services Requested</p>
-                <p className="text-sm text-gray-700">{lead.services_requested?.join(', ') || 'N/A'}</p>
+                <p className="text-sm text-gray-700">{lead.services_requested || 'N/A'}</p>
               </div>
               <div>
                 <p className="text-sm font-medium text-gray-900">Status</p>
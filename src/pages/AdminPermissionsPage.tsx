@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { Shield, Crown, Save, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  PERMISSION_GROUPS,
+  DEFAULT_ADMIN_PERMISSIONS,
+  Permission,
+  PermissionSet,
+  resolvePermissions,
+} from '../lib/permissions';
+import { AdminProfile, listAdminProfiles, updateAdminPermissions } from '../repositories/adminProfiles';
+
+export default function AdminPermissionsPage() {
+  const { user, refetchProfile } = useAuth();
+  const [admins, setAdmins] = useState<AdminProfile[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PermissionSet>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchAdmins = async () => {
+      try {
+        setLoading(true);
+        setAdmins(await listAdminProfiles());
+      } catch (error) {
+        console.error('Error fetching admins:', error);
+        toast.error('Failed to load admins');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAdmins();
+  }, []);
+
+  const selectedAdmin = admins.find(admin => admin.id === selectedId) || null;
+  const isSelectedSuperAdmin = selectedAdmin?.admin_level === 'super_admin';
+
+  const handleSelectAdmin = (admin: AdminProfile) => {
+    setSelectedId(admin.id);
+    setDraft(resolvePermissions(admin.admin_level, admin.permissions));
+  };
+
+  const togglePermission = (permission: Permission) => {
+    setDraft(prev => ({ ...prev, [permission]: !prev[permission] }));
+  };
+
+  const handleSave = async (permissions: PermissionSet) => {
+    if (!selectedAdmin) return;
+    setSaving(true);
+    try {
+      await updateAdminPermissions(selectedAdmin.id, permissions);
+
+      setAdmins(prev => prev.map(admin => (admin.id === selectedAdmin.id ? { ...admin, permissions } : admin)));
+      setDraft(resolvePermissions(selectedAdmin.admin_level, permissions));
+      toast.success('Permissions updated');
+      if (selectedAdmin.id === user?.id) await refetchProfile();
+    } catch (error) {
+      console.error('Error updating permissions:', error);
+      toast.error('Failed to update permissions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <Shield className="h-8 w-8 text-blue-600 mr-3" />
+          Admin Permissions
+        </h1>
+        <p className="mt-2 text-gray-500">Choose what each administrator can see and do.</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Admins ({admins.length})</h2>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {admins.map(admin => (
+              <li
+                key={admin.id}
+                onClick={() => handleSelectAdmin(admin)}
+                className={`px-6 py-4 cursor-pointer hover:bg-gray-50 ${selectedId === admin.id ? 'bg-blue-50' : ''}`}
+              >
+                <div className="flex items-center">
+                  {admin.admin_level === 'super_admin'
+                    ? <Crown className="h-4 w-4 text-purple-600 mr-2" />
+                    : <Shield className="h-4 w-4 text-blue-600 mr-2" />}
+                  <span className="text-sm font-medium text-gray-900 truncate">{admin.email || admin.description || admin.id}</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {admin.admin_level === 'super_admin' ? 'Super Administrator' : 'Administrator'}
+                  {admin.description && admin.email ? ` · ${admin.description}` : ''}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          {!selectedAdmin ? (
+            <div className="text-center py-12">
+              <Shield className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Select an admin</h3>
+              <p className="text-gray-500">Pick an administrator to review their permissions.</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">{selectedAdmin.email || selectedAdmin.description}</h2>
+                {isSelectedSuperAdmin && (
+                  <p className="mt-1 text-sm text-purple-700">Super administrators always have every permission.</p>
+                )}
+              </div>
+              {PERMISSION_GROUPS.map(group => (
+                <div key={group.group}>
+                  <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{group.group}</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {group.permissions.map(permission => (
+                      <label key={permission.key} className="flex items-start p-2 rounded-lg hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={!!draft[permission.key]}
+                          disabled={isSelectedSuperAdmin || saving}
+                          onChange={() => togglePermission(permission.key)}
+                          className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                        <span className="ml-2">
+                          <span className="block text-sm text-gray-900">{permission.label}</span>
+                          <span className="block text-xs text-gray-500 font-mono">{permission.key}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {!isSelectedSuperAdmin && (
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => handleSave({})}
+                    disabled={saving}
+                    className="inline-flex items-center px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Reset to Defaults
+                  </button>
+                  <button
+                    onClick={() => handleSave({ ...DEFAULT_ADMIN_PERMISSIONS, ...draft })}
+                    disabled={saving}
+                    className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-400"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {saving ? 'Saving...' : 'Save Permissions'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react';
+import { ClipboardCheck, Plus, Save, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  listRubricCriteria,
+  saveRubricCriterion,
+  deleteRubricCriterion,
+  getReviewQuorum,
+  updateReviewQuorum,
+} from '../repositories/applicationReviews';
+import type { RubricCriterion } from '../utils/applicationReviews';
+
+type CriterionDraft = {
+  id?: string;
+  // Local key so unsaved criteria can be told apart
+  key: string;
+  name: string;
+  description: string;
+  weight: number;
+  max_score: number;
+  position: number;
+  is_active: boolean;
+};
+
+const toDraft = (criterion: RubricCriterion): CriterionDraft => ({
+  id: criterion.id,
+  key: criterion.id,
+  name: criterion.name,
+  description: criterion.description ?? '',
+  weight: Number(criterion.weight),
+  max_score: criterion.max_score,
+  position: criterion.position,
+  is_active: criterion.is_active,
+});
+
+export default function ApplicationRubricPage() {
+  const [drafts, setDrafts] = useState<CriterionDraft[]>([]);
+  const [quorum, setQuorum] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRubric = async () => {
+      try {
+        setLoading(true);
+        const [criteria, quorumData] = await Promise.all([listRubricCriteria(), getReviewQuorum()]);
+        setDrafts(criteria.map(toDraft));
+        setQuorum(quorumData);
+      } catch (error) {
+        console.error('Error fetching application rubric:', error);
+        toast.error('Failed to load rubric');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRubric();
+  }, []);
+
+  const updateDraft = (key: string, changes: Partial<CriterionDraft>) => {
+    setDrafts(prev => prev.map(draft => (draft.key === key ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleAdd = () => {
+    const last = drafts.reduce((max, draft) => Math.max(max, draft.position), 0);
+    setDrafts(prev => [
+      ...prev,
+      { key: `new-${Date.now()}`, name: '', description: '', weight: 1, max_score: 5, position: last + 1, is_active: true },
+    ]);
+  };
+
+  const handleSave = async (draft: CriterionDraft) => {
+    if (!draft.name.trim()) {
+      toast.error('Name the criterion');
+      return;
+    }
+    if (draft.weight <= 0 || draft.max_score < 1 || draft.max_score > 10) {
+      toast.error('Weight must be above 0 and the top score between 1 and 10');
+      return;
+    }
+    try {
+      setSavingKey(draft.key);
+      const saved = await saveRubricCriterion({
+        id: draft.id,
+        name: draft.name.trim(),
+        description: draft.description.trim() || null,
+        weight: draft.weight,
+        max_score: draft.max_score,
+        position: draft.position,
+        is_active: draft.is_active,
+      });
+      setDrafts(prev => prev
+        .map(other => (other.key === draft.key ? toDraft(saved) : other))
+        .sort((a, b) => a.position - b.position));
+      toast.success('Criterion saved');
+    } catch (error) {
+      console.error('Error saving rubric criterion:', error);
+      toast.error('Failed to save criterion');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleDelete = async (draft: CriterionDraft) => {
+    if (!draft.id) {
+      setDrafts(prev => prev.filter(other => other.key !== draft.key));
+      return;
+    }
+    if (!window.confirm(`Delete "${draft.name}" and every score given for it? Deactivate it instead to keep past scores.`)) return;
+    try {
+      setSavingKey(draft.key);
+      await deleteRubricCriterion(draft.id);
+      setDrafts(prev => prev.filter(other => other.key !== draft.key));
+      toast.success('Criterion deleted');
+    } catch (error) {
+      console.error('Error deleting rubric criterion:', error);
+      toast.error('Failed to delete criterion');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleSaveQuorum = async () => {
+    if (!Number.isInteger(quorum) || quorum < 1) {
+      toast.error('At least one review is needed');
+      return;
+    }
+    try {
+      setSavingKey('quorum');
+      await updateReviewQuorum(quorum);
+      toast.success('Quorum saved');
+    } catch (error) {
+      console.error('Error saving review quorum:', error);
+      toast.error('Failed to save quorum');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <ClipboardCheck className="h-8 w-8 text-blue-600 mr-3" />
+            Application Rubric
+          </h1>
+          <p className="mt-2 text-gray-500">
+            What reviewers score vendor applications on. Each criterion counts towards the score out of 100 by its
+            weight; a review is complete once every active criterion is scored.
+          </p>
+        </div>
+        <button
+          onClick={handleAdd}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Criterion
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 flex items-end justify-between">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Complete reviews needed to approve</label>
+          <input
+            type="number"
+            min="1"
+            value={quorum}
+            onChange={(e) => setQuorum(parseInt(e.target.value, 10) || 0)}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          onClick={handleSaveQuorum}
+          disabled={savingKey === 'quorum'}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          Save Quorum
+        </button>
+      </div>
+
+      {drafts.length === 0 && (
+        <div className="text-center py-12 bg-white rounded-xl shadow-sm border border-gray-100">
+          <p className="text-gray-500">No criteria. Add one so reviewers can score applications.</p>
+        </div>
+      )}
+
+      {drafts.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Criterion</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Weight</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Top Score</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Active</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {drafts.map(draft => (
+                <tr key={draft.key}>
+                  <td className="px-6 py-4">
+                    <input
+                      type="number"
+                      value={draft.position}
+                      onChange={(e) => updateDraft(draft.key, { position: parseInt(e.target.value, 10) || 0 })}
+                      className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="px-6 py-4 space-y-2">
+                    <input
+                      type="text"
+                      value={draft.name}
+                      onChange={(e) => updateDraft(draft.key, { name: e.target.value })}
+                      placeholder="Name"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <input
+                      type="text"
+                      value={draft.description}
+                      onChange={(e) => updateDraft(draft.key, { description: e.target.value })}
+                      placeholder="What reviewers should look for"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                  </td>
+                  <td className="px-6 py-4">
+                    <input
+                      type="number"
+                      min="0.25"
+                      step="0.25"
+                      value={draft.weight}
+                      onChange={(e) => updateDraft(draft.key, { weight: parseFloat(e.target.value) || 0 })}
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="px-6 py-4">
+                    <input
+                      type="number"
+                      min="1"
+                      max="10"
+                      value={draft.max_score}
+                      onChange={(e) => updateDraft(draft.key, { max_score: parseInt(e.target.value, 10) || 0 })}
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="px-6 py-4">
+                    <input
+                      type="checkbox"
+                      checked={draft.is_active}
+                      onChange={(e) => updateDraft(draft.key, { is_active: e.target.checked })}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                  </td>
+                  <td className="px-6 py-4 text-right space-x-2 whitespace-nowrap">
+                    <button
+                      onClick={() => handleDelete(draft)}
+                      disabled={savingKey === draft.key}
+                      className="inline-flex items-center px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm disabled:opacity-50"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" /> Delete
+                    </button>
+                    <button
+                      onClick={() => handleSave(draft)}
+                      disabled={savingKey === draft.key}
+                      className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+                    >
+                      <Save className="h-4 w-4 mr-1" /> Save
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
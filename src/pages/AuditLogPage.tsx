@@ -0,0 +1,265 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { History, ExternalLink } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import toast from 'react-hot-toast';
+import {
+  AuditLogEntry,
+  AuditAction,
+  auditEntityLabels,
+  getAuditEntityLabel,
+  getAuditRecordLink,
+  formatAuditValue,
+} from '../utils/auditLog';
+
+const PAGE_SIZE = 100;
+
+const actionStyles: Record<AuditAction, string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+interface AdminOption {
+  id: string;
+  email: string;
+}
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [admins, setAdmins] = useState<AdminOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [filterAdmin, setFilterAdmin] = useState('all');
+  const [filterEntity, setFilterEntity] = useState('all');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchAdmins = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('id')
+          .eq('role', 'admin');
+        if (error) throw error;
+
+        const ids = (data || []).map(profile => profile.id);
+        if (ids.length === 0) return;
+        const { data: users, error: usersError } = await supabase
+          .from('users')
+          .select('id, email')
+          .in('id', ids);
+        if (usersError) throw usersError;
+        setAdmins((users || []).sort((a, b) => a.email.localeCompare(b.email)));
+      } catch (error) {
+        console.error('Error fetching admins:', error);
+      }
+    };
+
+    fetchAdmins();
+  }, []);
+
+  const fetchEntries = useCallback(async (offset: number) => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (filterAdmin !== 'all') query = query.eq('actor_id', filterAdmin);
+      if (filterEntity !== 'all') query = query.eq('table_name', filterEntity);
+      if (dateFrom) query = query.gte('created_at', new Date(`${dateFrom}T00:00:00`).toISOString());
+      if (dateTo) query = query.lte('created_at', new Date(`${dateTo}T23:59:59.999`).toISOString());
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEntries(prev => (offset === 0 ? data || [] : [...prev, ...(data || [])]));
+      setHasMore((data || []).length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast.error('Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [filterAdmin, filterEntity, dateFrom, dateTo]);
+
+  useEffect(() => {
+    fetchEntries(0);
+  }, [fetchEntries]);
+
+  const adminEmail = (actorId: string | null) =>
+    admins.find(admin => admin.id === actorId)?.email || 'Unknown admin';
+
+  const clearFilters = () => {
+    setFilterAdmin('all');
+    setFilterEntity('all');
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <History className="h-8 w-8 text-blue-600 mr-3" />
+          Audit Log
+        </h1>
+        <p className="mt-2 text-gray-500">Every insert, update and delete made by an admin.</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Admin</label>
+            <select
+              value={filterAdmin}
+              onChange={(e) => setFilterAdmin(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All Admins</option>
+              {admins.map(admin => (
+                <option key={admin.id} value={admin.id}>{admin.email}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Entity</label>
+            <select
+              value={filterEntity}
+              onChange={(e) => setFilterEntity(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All Entities</option>
+              {Object.entries(auditEntityLabels)
+                .sort(([, a], [, b]) => a.localeCompare(b))
+                .map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">From</label>
+            <input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">To</label>
+            <input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            onClick={clearFilters}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+          >
+            Clear Filters
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Changes ({entries.length}{hasMore ? '+' : ''})</h2>
+        </div>
+        {loading && entries.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12">
+            <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No changes found</h3>
+            <p className="text-gray-500">Try widening the filters.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Timestamp</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Admin</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entity</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changes</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Record</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map(entry => {
+                  const link = getAuditRecordLink(entry);
+                  return (
+                    <tr key={entry.id} className="align-top">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{new Date(entry.created_at).toLocaleString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{adminEmail(entry.actor_id)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${actionStyles[entry.action]}`}>
+                          {entry.action}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {getAuditEntityLabel(entry.table_name)}
+                        {entry.row_id && <span className="block text-xs text-gray-500 font-mono">{entry.row_id.slice(0, 8)}</span>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {entry.action === 'update' ? (
+                          <ul className="space-y-1">
+                            {entry.changed_fields.map(field => (
+                              <li key={field} className="max-w-md break-words">
+                                <span className="font-medium">{field}:</span>{' '}
+                                <span className="text-red-700 line-through">{formatAuditValue(entry.before?.[field])}</span>{' → '}
+                                <span className="text-green-700">{formatAuditValue(entry.after?.[field])}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <span className="text-gray-500">
+                            {entry.action === 'insert' ? 'Created' : 'Deleted'} with {entry.changed_fields.length} fields
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {link ? (
+                          <button
+                            onClick={() => navigate(link)}
+                            className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                          >
+                            <ExternalLink className="h-4 w-4 mr-1" />
+                            Open
+                          </button>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {hasMore && (
+          <div className="px-6 py-4 border-t border-gray-200 text-center">
+            <button
+              onClick={() => fetchEntries(entries.length)}
+              disabled={loading}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Load More'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
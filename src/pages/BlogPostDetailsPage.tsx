@@ -3,12 +3,13 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { Calendar, Save, Edit, Trash2, ArrowLeft } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
 
 interface BlogCategory {
   id: string;
   name: string;
   slug: string;
-  description?: string;
+  description?: string | null;
   color: string;
   post_count: number;
   created_at: string;
@@ -20,8 +21,8 @@ interface BlogPost {
   slug: string;
   excerpt: string;
   content: string;
-  featured_image?: string;
-  author_id?: string;
+  featured_image?: string | null;
+  author_id?: string | null;
   category: string;
   tags: string[] | null;
   status: 'draft' | 'published' | 'archived';
@@ -29,16 +30,17 @@ interface BlogPost {
   read_time: number;
   view_count: number;
   like_count: number;
-  published_at?: string;
+  published_at?: string | null;
   created_at: string;
   updated_at: string;
   author?: { id: string; name: string; email: string };
-  category_info?: BlogCategory;
+  category_info?: BlogCategory | null;
 }
 
 export default function BlogPostDetailsPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const canPublish = usePermission('blog.publish');
   const [post, setPost] = useState<BlogPost | null>(null);
   const [loading, setLoading] = useState(true);
   const [editMode, setEditMode] = useState(false);
@@ -57,6 +59,7 @@ export default function BlogPostDetailsPage() {
 
   useEffect(() => {
     const fetchData = async () => {
+      if (!id) return;
       try {
         setLoading(true);
         console.log(`Fetching post with id ${id} and views from Supabase...`);
@@ -118,7 +121,7 @@ export default function BlogPostDetailsPage() {
   const handleSave = async () => {
     if (!post) return;
 
-    let featuredImageUrl: string | null = post.featured_image;
+    let featuredImageUrl: string | null = post.featured_image ?? null;
     if (formData.featured_image) {
       try {
         const fileExt = formData.featured_image.name.split('.').pop();
@@ -295,7 +298,7 @@ export default function BlogPostDetailsPage() {
                 className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value="draft">Draft</option>
-                <option value="published">Published</option>
+                <option value="published" disabled={!canPublish && post.status !== 'published'}>Published</option>
                 <option value="archived">Archived</option>
               </select>
             ) : (
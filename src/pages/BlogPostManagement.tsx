@@ -3,12 +3,13 @@ import { useNavigate } from 'react-router-dom';
 import { Calendar, Plus, Eye, Search } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
 
 interface BlogCategory {
   id: string;
   name: string;
   slug: string;
-  description?: string;
+  description?: string | null;
   color: string;
   post_count: number;
   created_at: string;
@@ -20,20 +21,20 @@ interface BlogPost {
   slug: string;
   excerpt: string;
   content: string;
-  featured_image?: string;
-  author_id?: string;
+  featured_image?: string | null;
+  author_id?: string | null;
   category: string;
-  tags: string[];
+  tags: string[] | null;
   status: 'draft' | 'published' | 'archived';
   featured: boolean;
   read_time: number;
   view_count: number;
   like_count: number;
-  published_at?: string;
+  published_at?: string | null;
   created_at: string;
   updated_at: string;
   author?: { id: string; name: string; email: string };
-  category_info?: BlogCategory;
+  category_info?: BlogCategory | null;
 }
 
 interface BlogSubscriber {
@@ -64,6 +65,7 @@ export default function BlogPostManagement() {
   const [subscribers, setSubscribers] = useState<BlogSubscriber[]>([]);
   const [loading, setLoading] = useState(true);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const canPublish = usePermission('blog.publish');
   const [categoryViewCounts, setCategoryViewCounts] = useState<{ [key: string]: number }>({});
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('All');
@@ -159,8 +161,8 @@ export default function BlogPostManagement() {
 
         // Calculate view trends
         const viewTrendsData = viewsResponse.data.reduce((acc, view) => {
-          if (!view.view_at) return acc;
-          const date = new Date(view.view_at).toISOString().split('T')[0];
+          if (!view.viewed_at) return acc;
+          const date = new Date(view.viewed_at).toISOString().split('T')[0];
           acc[date] = (acc[date] || 0) + 1;
           return acc;
         }, {} as { [key: string]: number });
@@ -253,8 +255,8 @@ export default function BlogPostManagement() {
       excerpt: formData.get('excerpt') as string,
       category: formData.get('category') as string,
       content: formData.get('content') as string,
-      status: formData.get('published') === 'on' ? 'published' : 'draft',
-      published_at: formData.get('published') === 'on' ? new Date().toISOString() : null,
+      status: canPublish && formData.get('published') === 'on' ? 'published' as const : 'draft' as const,
+      published_at: canPublish && formData.get('published') === 'on' ? new Date().toISOString() : null,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
       featured_image: featuredImageUrl,
@@ -777,6 +779,8 @@ export default function BlogPostManagement() {
                   type="checkbox"
                   id="published"
                   name="published"
+                  disabled={!canPublish}
+                  title={canPublish ? undefined : 'You do not have permission to publish posts'}
                   className="mt-1"
                 />
               </div>
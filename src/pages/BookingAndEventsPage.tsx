@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Calendar, Upload, Plus, Eye } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { listBookingsWithParties } from '../repositories/bookings';
+import { listEventsWithParties } from '../repositories/events';
 import toast from 'react-hot-toast';
 import ImportBookingsModal from '../components/ImportBookingsModal';
 import AddBookingModal from '../components/AddBookingModal';
@@ -17,19 +18,19 @@ interface Booking {
   amount: number;
   service_type: string;
   event_start_datetime: string; // Combined date and time in EST
-  event_id: string; // To store event_id for lookup
+  event_id: string | null; // To store event_id for lookup
 }
 
 interface Event {
   id: string;
-  couple_id: string;
+  couple_id: string | null;
   couple_name: string;
   vendor_id: string;
   vendor_name: string;
   start_time: string;
   end_time: string;
   type: string;
-  title: string;
+  title: string | null;
   created_at: string;
 }
 
@@ -54,55 +55,23 @@ export default function BookingAndEventsPage() {
     try {
       setLoading(true);
       const [bookingsData, eventsData] = await Promise.all([
-        supabase
-          .from('bookings')
-          .select(`
-            id, couple_id, vendor_id, status, amount, service_type, event_id,
-            couples!bookings_couple_id_fkey(name),
-            vendors!bookings_vendor_id_fkey(name)
-          `),
-        supabase
-          .from('events')
-          .select(`
-            id, couple_id, vendor_id, start_time, end_time, type, title, created_at,
-            couples!events_couple_id_fkey(name),
-            vendors!events_vendor_id_fkey(name)
-          `)
-          .order('start_time', { ascending: true })
+        listBookingsWithParties(),
+        listEventsWithParties()
       ]);
 
-      if (bookingsData.error) throw bookingsData.error;
-      if (eventsData.error) throw eventsData.error;
-
-      // Fetch event start times for bookings
-      const bookingsWithEvents = await Promise.all(bookingsData.data.map(async (b) => {
-        if (b.event_id) {
-          const { data: eventData, error: eventError } = await supabase
-            .from('events')
-            .select('start_time')
-            .eq('id', b.event_id)
-            .single();
-          if (eventError) throw eventError;
-          const startTimeUTC = eventData?.start_time;
-          const startTimeEST = startTimeUTC
-            ? new Date(new Date(startTimeUTC).toLocaleString('en-US', { timeZone: 'America/New_York' })).toISOString()
-            : null;
-          return {
-            ...b,
-            couple_name: b.couples?.name || 'Unknown',
-            vendor_name: b.vendors?.name || 'Unknown',
-            event_start_datetime: startTimeEST || 'N/A',
-            event_id: b.event_id
-          };
-        }
+      const bookingsWithEvents = bookingsData.map(b => {
+        const startTimeUTC = b.events?.start_time;
+        const startTimeEST = startTimeUTC
+          ? new Date(new Date(startTimeUTC).toLocaleString('en-US', { timeZone: 'America/New_York' })).toISOString()
+          : null;
         return {
           ...b,
           couple_name: b.couples?.name || 'Unknown',
           vendor_name: b.vendors?.name || 'Unknown',
-          event_start_datetime: 'N/A',
+          event_start_datetime: startTimeEST || 'N/A',
           event_id: b.event_id
         };
-      }));
+      });
 
       // Sort bookings by event_start_datetime (ascending for upcoming, descending for past)
       const sortedBookings = bookingsWithEvents.sort((a, b) => {
@@ -112,7 +81,7 @@ export default function BookingAndEventsPage() {
       });
 
       setBookings(sortedBookings || []);
-      setEvents(eventsData.data.map(e => ({
+      setEvents(eventsData.map(e => ({
         ...e,
         couple_name: e.couples?.name || 'Unknown',
         vendor_name: e.vendors?.name || 'Unknown'
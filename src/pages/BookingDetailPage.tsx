@@ -1,9 +1,46 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Calendar, Edit, Save, X, Check, Clock, AlertCircle, CreditCard, Package, MapPin, Eye, Mail, MessageSquare, Plus, Download } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { Calendar, Edit, Save, X, Check, Clock, AlertCircle, CreditCard, Package, MapPin, Eye, Mail, MessageSquare, Plus, Download, History, Ban, CalendarClock } from 'lucide-react';
+import {
+  getBooking,
+  updateBooking,
+  listBookingOptions,
+  BookingOption,
+  transitionBookingStatus,
+  listBookingStatusHistory,
+  getBookingTransitionFacts,
+  BookingStatusChange,
+} from '../repositories/bookings';
+import { listBookingReschedules, BookingReschedule } from '../repositories/bookingChanges';
+import { listCoupleOptions, CoupleOption, getCouple } from '../repositories/couples';
+import { createContract, listContractsForBooking } from '../repositories/contracts';
+import { listUpcomingEvents } from '../repositories/events';
+import { listInvoicesWithParties } from '../repositories/invoices';
+import { listPaymentsForBooking, createPayments, Payment } from '../repositories/payments';
+import { listRefundsForBooking, Refund } from '../repositories/refunds';
+import {
+  listEmailLogsForBooking,
+  listUpcomingRemindersForBooking,
+  requestCoupleFeedback,
+  sendVendorReminderEmail,
+  sendVendorReminderText,
+} from '../repositories/reminders';
+import { getServicePackage, listServicePackageOptions } from '../repositories/servicePackages';
+import { listVendorOptions, VendorOption, getVendorContact } from '../repositories/vendors';
+import { getVenue, listVenues } from '../repositories/venues';
 import toast from 'react-hot-toast';
 import Select from 'react-select';
+import { usePermission } from '../hooks/usePermission';
+import RefundHistory from '../components/RefundHistory';
+import CancelBookingModal from '../components/CancelBookingModal';
+import RescheduleBookingModal from '../components/RescheduleBookingModal';
+import {
+  BookingStatus,
+  BookingTransitionFacts,
+  bookingStatusLabels,
+  bookingStatusStyles,
+  nextBookingStatuses,
+} from '../utils/bookingStatus';
 
 interface Booking {
   id: string;
@@ -14,7 +51,8 @@ interface Booking {
   vendor_name: string | null;
   vendor_phone: string | null;
   vendor_email: string | null;
-  status: string;
+  event_id: string | null;
+  status: BookingStatus;
   amount: number;
   service_type: string;
   package_id: string | null;
@@ -36,8 +74,11 @@ interface Booking {
   platform_total_earnings: number | null;
   vendor_total_earnings: number | null;
   tip_amount: number | null;
-  final_payment_status: 'pending' | 'paid';
-  events: Array<{ id: string; start_time: string; end_time: string; title: string }>;
+  final_payment_status: 'pending' | 'paid' | null;
+  cancelled_at: string | null;
+  cancellation_reason: string | null;
+  cancellation_refund_percentage: number | null;
+  events: Array<{ id: string; start_time: string; end_time: string; title: string | null }>;
 }
 
 interface Venue {
@@ -57,18 +98,6 @@ interface ServicePackage {
   service_type: string;
 }
 
-interface Payment {
-  id: string;
-  invoice_id?: string;
-  booking_id?: string;
-  amount: number;
-  status: string;
-  stripe_payment_id?: string | null;
-  to_platform?: boolean;
-  created_at: string;
-  payment_type?: string;
-}
-
 interface EmailLog {
   id: string;
   booking_id: string;
@@ -99,19 +128,8 @@ interface Invoice {
   service_name: string;
   remaining_balance: number;
   status: string;
-  couple_id?: string;
-  vendor_id?: string;
-}
-
-interface Vendor {
-  id: string;
-  name: string;
-}
-
-interface Couple {
-  id: string;
-  partner1_name: string;
-  partner2_name?: string;
+  couple_id?: string | null;
+  vendor_id?: string | null;
 }
 
 interface Contract {
@@ -128,6 +146,11 @@ interface Contract {
   package_name: string | null;
 }
 
+// Cancelling goes through CancelBookingModal, which settles the refunds and
+// invoices along with the status
+const manualNextStatuses = (status: BookingStatus, facts: BookingTransitionFacts) =>
+  nextBookingStatuses(status, facts).filter(option => option.status !== 'cancelled');
+
 const PaymentEntryModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
@@ -142,33 +165,28 @@ const PaymentEntryModal: React.FC<{
   const [status, setStatus] = useState('succeeded');
   const [paymentType, setPaymentType] = useState('deposit');
   const [createdAt, setCreatedAt] = useState(new Date().toISOString().slice(0, 16));
-  const [vendors, setVendors] = useState<Vendor[]>([]);
-  const [couples, setCouples] = useState<Couple[]>([]);
-  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [vendors, setVendors] = useState<VendorOption[]>([]);
+  const [couples, setCouples] = useState<CoupleOption[]>([]);
+  const [bookings, setBookings] = useState<BookingOption[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
-  const [filteredBookings, setFilteredBookings] = useState<Booking[]>([]);
+  const [filteredBookings, setFilteredBookings] = useState<BookingOption[]>([]);
   const [filteredInvoices, setFilteredInvoices] = useState<Invoice[]>([]);
 
   useEffect(() => {
     if (isOpen) {
       const fetchData = async () => {
         try {
-          const [vendorsResponse, couplesResponse, bookingsResponse, invoicesResponse] = await Promise.all([
-            supabase.from('vendors').select('id, name'),
-            supabase.from('couples').select('id, partner1_name, partner2_name'),
-            supabase.from('bookings').select('id, couple_id, vendor_id, package_id, service_type'),
-            supabase.from('invoices').select('id, couple_id, vendor_id, status, remaining_balance, couples!left(partner1_name, partner2_name), vendors!left(name), invoice_line_items!left(service_packages(name))')
+          const [vendorsData, couplesData, bookingsData, invoicesData] = await Promise.all([
+            listVendorOptions(),
+            listCoupleOptions(),
+            listBookingOptions(),
+            listInvoicesWithParties()
           ]);
 
-          if (vendorsResponse.error) throw vendorsResponse.error;
-          if (couplesResponse.error) throw couplesResponse.error;
-          if (bookingsResponse.error) throw bookingsResponse.error;
-          if (invoicesResponse.error) throw invoicesResponse.error;
-
-          setVendors(vendorsResponse.data || []);
-          setCouples(couplesResponse.data || []);
-          setBookings(bookingsResponse.data || []);
-          setInvoices(invoicesResponse.data.map(invoice => ({
+          setVendors(vendorsData);
+          setCouples(couplesData);
+          setBookings(bookingsData);
+          setInvoices(invoicesData.map(invoice => ({
             id: invoice.id,
             couple_name: invoice.couples
               ? `${invoice.couples.partner1_name || ''} ${invoice.couples.partner2_name || ''}`.trim() || 'Unknown'
@@ -487,6 +505,7 @@ const AddContractModal: React.FC<{
 export default function BookingDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const canWritePayments = usePermission('payments.write');
   const [booking, setBooking] = useState<Booking | null>(null);
   const [venue, setVenue] = useState<Venue | null>(null);
   const [packages, setPackages] = useState<ServicePackage[]>([]);
@@ -518,6 +537,13 @@ export default function BookingDetailPage() {
   const [loading, setLoading] = useState(true);
   const [eventPage, setEventPage] = useState(0);
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [statusHistory, setStatusHistory] = useState<BookingStatusChange[]>([]);
+  const [transitionFacts, setTransitionFacts] = useState<BookingTransitionFacts | null>(null);
+  const [statusNote, setStatusNote] = useState('');
+  const [reschedules, setReschedules] = useState<BookingReschedule[]>([]);
+  const [isCancelModalOpen, setIsCancelModalOpen] = useState(false);
+  const [isRescheduleModalOpen, setIsRescheduleModalOpen] = useState(false);
   const [emailLogs, setEmailLogs] = useState<EmailLog[]>([]);
   const [upcomingReminders, setUpcomingReminders] = useState<UpcomingReminder[]>([]);
   const [isPaymentEntryModalOpen, setIsPaymentEntryModalOpen] = useState(false);
@@ -536,71 +562,39 @@ export default function BookingDetailPage() {
       setLoading(true);
       if (!id) throw new Error('Booking ID is undefined');
 
-      const [bookingData, emailLogsData, remindersData, contractData] = await Promise.all([
-        supabase
-          .from('bookings')
-          .select('id, couple_id, vendor_id, status, amount, service_type, package_id, created_at, venue_id, initial_payment, final_payment, platform_fee, paid_amount, vendor_deposit_share, platform_deposit_share, vendor_final_share, platform_final_share, platform_total_earnings, vendor_total_earnings, tip_amount, final_payment_status')
-          .eq('id', id)
-          .single(),
-        supabase
-          .from('email_logs')
-          .select('*')
-          .eq('booking_id', id),
-        supabase
-          .from('upcoming_reminders')
-          .select('*')
-          .eq('booking_id', id),
-        supabase
-          .from('contracts')
-          .select('*')
-          .eq('booking_id', id)
-          .order('created_at', { ascending: false })
+      const [bookingRecord, emailLogsData, remindersData, contractData] = await Promise.all([
+        getBooking(id),
+        listEmailLogsForBooking(id),
+        listUpcomingRemindersForBooking(id),
+        listContractsForBooking(id)
       ]);
 
-      if (bookingData.error) throw bookingData.error;
-      if (emailLogsData.error) throw emailLogsData.error;
-      if (remindersData.error) throw remindersData.error;
-      if (contractData.error) throw contractData.error;
+      console.log('Booking data from Supabase:', bookingRecord);
 
-      console.log('Booking data from Supabase:', bookingData.data);
+      // A missing couple, vendor, venue or package shows as unknown rather
+      // than failing the page
+      const [coupleData, vendorData, venueData, packageData] = await Promise.all([
+        bookingRecord.couple_id ? getCouple(bookingRecord.couple_id).catch(() => null) : null,
+        bookingRecord.vendor_id ? getVendorContact(bookingRecord.vendor_id).catch(() => null) : null,
+        bookingRecord.venue_id ? getVenue(bookingRecord.venue_id).catch(() => null) : null,
+        bookingRecord.package_id ? getServicePackage(bookingRecord.package_id).catch(() => null) : null,
+      ]);
 
       let coupleName = null, coupleEmail = null;
-      if (bookingData.data.couple_id) {
-        const { data: coupleData } = await supabase
-          .from('couples')
-          .select('partner1_name, email')
-          .eq('id', bookingData.data.couple_id)
-          .single();
+      if (bookingRecord.couple_id) {
         coupleName = coupleData?.partner1_name || 'Unknown';
         coupleEmail = coupleData?.email || null;
       }
 
       let vendorName = null, vendorPhone = null, vendorEmail = null;
-      if (bookingData.data.vendor_id) {
-        const { data: vendorData } = await supabase
-          .from('vendors')
-          .select('name, phone, user_id')
-          .eq('id', bookingData.data.vendor_id)
-          .single();
+      if (bookingRecord.vendor_id) {
         vendorName = vendorData?.name || 'Unknown';
         vendorPhone = vendorData?.phone || null;
-        if (vendorData?.user_id) {
-          const { data: userData } = await supabase
-            .from('users')
-            .select('email')
-            .eq('id', vendorData.user_id)
-            .single();
-          vendorEmail = userData?.email || null;
-        }
+        vendorEmail = vendorData?.email || null;
       }
 
       let venueName = null, venueAddress = null;
-      if (bookingData.data.venue_id) {
-        const { data: venueData } = await supabase
-          .from('venues')
-          .select('name, street_address, city, state, zip')
-          .eq('id', bookingData.data.venue_id)
-          .single();
+      if (bookingRecord.venue_id) {
         venueName = venueData?.name || null;
         venueAddress = venueData
           ? `${venueData.street_address || ''}${venueData.city && venueData.state ? `, ${venueData.city}, ${venueData.state} ${venueData.zip || ''}` : ''}`.trim()
@@ -608,74 +602,28 @@ export default function BookingDetailPage() {
         setVenue(venueData || null);
       }
 
-      let packageName = null, packageDescription = null, packagePrice = null;
-      if (bookingData.data.package_id) {
-        const { data: packageData } = await supabase
-          .from('service_packages')
-          .select('name, description, price')
-          .eq('id', bookingData.data.package_id)
-          .single();
-        packageName = packageData?.name || null;
-        packageDescription = packageData?.description || null;
-        packagePrice = packageData?.price || null;
-      }
+      const packageName = packageData?.name || null;
+      const packageDescription = packageData?.description || null;
+      const packagePrice = packageData?.price || null;
+
+      const [eventsData, paymentsData, refundsData, historyData, factsData, reschedulesData] = await Promise.all([
+        listUpcomingEvents(bookingRecord.couple_id, bookingRecord.vendor_id, eventPage),
+        listPaymentsForBooking(id),
+        listRefundsForBooking(id),
+        listBookingStatusHistory(id),
+        getBookingTransitionFacts(bookingRecord),
+        listBookingReschedules(id)
+      ]);
 
-      const { data: eventsData } = await supabase
-        .from('events')
-        .select('id, start_time, end_time, title')
-        .eq('couple_id', bookingData.data.couple_id)
-        .eq('vendor_id', bookingData.data.vendor_id)
-        .gte('start_time', new Date().toISOString())
-        .order('start_time', { ascending: true })
-        .range(eventPage * 5, eventPage * 5 + 4);
-
-      const { data: paymentsData, error: paymentsError } = await supabase
-        .from('payments')
-        .select('id, invoice_id, booking_id, amount, status, stripe_payment_id, to_platform, created_at, payment_type')
-        .eq('booking_id', id);
-
-      if (paymentsError) throw paymentsError;
-
-      // Map contracts with couple and package names
-      const mappedContracts = await Promise.all(
-        contractData.data.map(async (contract) => {
-          const booking = await supabase
-            .from('bookings')
-            .select('id, couple_id, package_id')
-            .eq('id', contract.booking_id)
-            .single();
-          
-          let coupleName = 'N/A';
-          let packageName = 'N/A';
-
-          if (booking.data?.couple_id) {
-            const { data: coupleData } = await supabase
-              .from('couples')
-              .select('partner1_name')
-              .eq('id', booking.data.couple_id)
-              .single();
-            coupleName = coupleData?.partner1_name || 'N/A';
-          }
-
-          if (booking.data?.package_id) {
-            const { data: packageData } = await supabase
-              .from('service_packages')
-              .select('name')
-              .eq('id', booking.data.package_id)
-              .single();
-            packageName = packageData?.name || 'N/A';
-          }
-
-          return {
-            ...contract,
-            couple_name: coupleName,
-            package_name: packageName
-          };
-        })
-      );
+      // Every contract here belongs to this booking, so they share its couple and package
+      const mappedContracts = contractData.map(contract => ({
+        ...contract,
+        couple_name: coupleData?.partner1_name || 'N/A',
+        package_name: packageName || 'N/A'
+      }));
 
       const newBooking = {
-        ...bookingData.data,
+        ...bookingRecord,
         couple_name: coupleName,
         couple_email: coupleEmail,
         vendor_name: vendorName,
@@ -686,30 +634,34 @@ export default function BookingDetailPage() {
         package_price: packagePrice,
         venue_name: venueName,
         venue_address: venueAddress,
-        events: eventsData || []
+        events: eventsData
       };
 
       setBooking(newBooking);
-      setPayments(paymentsData || []);
-      setEmailLogs(emailLogsData.data || []);
-      setUpcomingReminders(remindersData.data || []);
-      setContracts(mappedContracts || []);
+      setPayments(paymentsData);
+      setRefunds(refundsData);
+      setStatusHistory(historyData);
+      setTransitionFacts(factsData);
+      setReschedules(reschedulesData);
+      setEmailLogs(emailLogsData);
+      setUpcomingReminders(remindersData);
+      setContracts(mappedContracts);
       setFormData({
-        status: bookingData.data.status,
-        package_id: bookingData.data.package_id || '',
-        venue_id: bookingData.data.venue_id || '',
-        initial_payment: bookingData.data.initial_payment ? (bookingData.data.initial_payment / 100).toString() : '',
-        final_payment: bookingData.data.final_payment ? (bookingData.data.final_payment / 100).toString() : '',
-        platform_fee: bookingData.data.platform_fee ? (bookingData.data.platform_fee / 100).toString() : '',
-        paid_amount: bookingData.data.paid_amount ? (bookingData.data.paid_amount / 100).toString() : '',
-        vendor_deposit_share: bookingData.data.vendor_deposit_share ? (bookingData.data.vendor_deposit_share / 100).toString() : '',
-        platform_deposit_share: bookingData.data.platform_deposit_share ? (bookingData.data.platform_deposit_share / 100).toString() : '',
-        vendor_final_share: bookingData.data.vendor_final_share ? (bookingData.data.vendor_final_share / 100).toString() : '',
-        platform_final_share: bookingData.data.platform_final_share ? (bookingData.data.platform_final_share / 100).toString() : '',
-        platform_total_earnings: bookingData.data.platform_total_earnings ? (bookingData.data.platform_total_earnings / 100).toString() : '',
-        vendor_total_earnings: bookingData.data.vendor_total_earnings ? (bookingData.data.vendor_total_earnings / 100).toString() : '',
-        tip_amount: bookingData.data.tip_amount ? (bookingData.data.tip_amount / 100).toString() : '',
-        final_payment_status: bookingData.data.final_payment_status || 'pending'
+        status: bookingRecord.status,
+        package_id: bookingRecord.package_id || '',
+        venue_id: bookingRecord.venue_id || '',
+        initial_payment: bookingRecord.initial_payment ? (bookingRecord.initial_payment / 100).toString() : '',
+        final_payment: bookingRecord.final_payment ? (bookingRecord.final_payment / 100).toString() : '',
+        platform_fee: bookingRecord.platform_fee ? (bookingRecord.platform_fee / 100).toString() : '',
+        paid_amount: bookingRecord.paid_amount ? (bookingRecord.paid_amount / 100).toString() : '',
+        vendor_deposit_share: bookingRecord.vendor_deposit_share ? (bookingRecord.vendor_deposit_share / 100).toString() : '',
+        platform_deposit_share: bookingRecord.platform_deposit_share ? (bookingRecord.platform_deposit_share / 100).toString() : '',
+        vendor_final_share: bookingRecord.vendor_final_share ? (bookingRecord.vendor_final_share / 100).toString() : '',
+        platform_final_share: bookingRecord.platform_final_share ? (bookingRecord.platform_final_share / 100).toString() : '',
+        platform_total_earnings: bookingRecord.platform_total_earnings ? (bookingRecord.platform_total_earnings / 100).toString() : '',
+        vendor_total_earnings: bookingRecord.vendor_total_earnings ? (bookingRecord.vendor_total_earnings / 100).toString() : '',
+        tip_amount: bookingRecord.tip_amount ? (bookingRecord.tip_amount / 100).toString() : '',
+        final_payment_status: bookingRecord.final_payment_status || 'pending'
       });
     } catch (error: any) {
       console.error('Error fetching booking:', error);
@@ -723,10 +675,7 @@ export default function BookingDetailPage() {
   const fetchPackages = async () => {
     try {
       console.log('Fetching all packages from service_packages');
-      const { data, error } = await supabase
-        .from('service_packages')
-        .select('id, name, description, price, service_type');
-      if (error) throw error;
+      const data = await listServicePackageOptions();
       console.log('Fetched packages:', data);
       setPackages(data || []);
       if (!data || data.length === 0) {
@@ -742,10 +691,7 @@ export default function BookingDetailPage() {
   const fetchVenues = async () => {
     try {
       console.log('Fetching all venues');
-      const { data, error } = await supabase
-        .from('venues')
-        .select('id, name, street_address, city, state, zip');
-      if (error) throw error;
+      const data = await listVenues();
       console.log('Fetched venues:', data);
       setVenues(data || []);
       if (!data || data.length === 0) {
@@ -783,12 +729,7 @@ export default function BookingDetailPage() {
         }
       }
 
-      const { error } = await supabase
-        .from('bookings')
-        .update(updateData)
-        .eq('id', booking.id);
-
-      if (error) throw error;
+      await updateBooking(booking.id, updateData);
 
       if (field === 'package_id' || field === 'venue_id') {
         await fetchBooking(); // Refresh booking to update dependent fields
@@ -806,6 +747,30 @@ export default function BookingDetailPage() {
     }
   };
 
+  const startStatusEdit = () => {
+    if (!booking || !transitionFacts) return;
+    const next = manualNextStatuses(booking.status, transitionFacts).find(option => !option.blockedBy);
+    setFormData(prev => ({ ...prev, status: next?.status || '' }));
+    setStatusNote('');
+    setEditMode(prev => ({ ...prev, status: true }));
+  };
+
+  const handleTransitionStatus = async () => {
+    if (!booking || !formData.status) return;
+
+    setLoading(true);
+    try {
+      await transitionBookingStatus(booking.id, formData.status as BookingStatus, statusNote.trim() || null);
+      setEditMode(prev => ({ ...prev, status: false }));
+      toast.success(`Booking moved to ${bookingStatusLabels[formData.status as BookingStatus].toLowerCase()}`);
+      await fetchBooking(); // Refresh the history and the guard facts
+    } catch (error) {
+      console.error('Error changing booking status:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change booking status');
+      setLoading(false);
+    }
+  };
+
   const handleSavePayments = async () => {
     if (!booking) return;
 
@@ -833,12 +798,7 @@ export default function BookingDetailPage() {
         updateData[field] = formData[field] ? Math.round(parseFloat(formData[field]) * 100) : null;
       });
 
-      const { error } = await supabase
-        .from('bookings')
-        .update(updateData)
-        .eq('id', booking.id);
-
-      if (error) throw error;
+      await updateBooking(booking.id, updateData);
 
       setBooking(prev => prev ? { ...prev, ...updateData } : null);
       setEditMode(prev => ({ ...prev, payments: false }));
@@ -873,21 +833,15 @@ export default function BookingDetailPage() {
 
   const handlePaymentEntry = async (payment: { invoice_id?: string; booking_id?: string; amount: number; status: string; payment_type: string; created_at: string }) => {
     try {
-      const { error } = await supabase
-        .from('payments')
-        .insert({
-          invoice_id: payment.invoice_id,
-          booking_id: payment.booking_id || id,
-          amount: payment.amount,
-          status: payment.status,
-          payment_type: payment.payment_type,
-          created_at: payment.created_at,
-          to_platform: true,
-        });
-      if (error) {
-        console.error('[BookingDetailPage] Payment insert error:', JSON.stringify(error, null, 2));
-        throw error;
-      }
+      await createPayments([{
+        invoice_id: payment.invoice_id,
+        booking_id: payment.booking_id || id,
+        amount: payment.amount,
+        status: payment.status,
+        payment_type: payment.payment_type,
+        created_at: payment.created_at,
+        to_platform: true,
+      }]);
       toast.success('Payment recorded successfully!');
       await fetchBooking(); // Refresh payments and booking data
     } catch (error: any) {
@@ -898,22 +852,16 @@ export default function BookingDetailPage() {
 
   const handleAddContract = async (contract: { booking_id: string; content: string; signature: string; signed_at: string; status: string }) => {
     try {
-      const { error } = await supabase
-        .from('contracts')
-        .insert({
-          booking_id: contract.booking_id,
-          content: contract.content,
-          signature: contract.signature,
-          signed_at: contract.signed_at,
-          status: contract.status,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          booking_intent_id: null
-        });
-      if (error) {
-        console.error('[BookingDetailPage] Contract insert error:', JSON.stringify(error, null, 2));
-        throw error;
-      }
+      await createContract({
+        booking_id: contract.booking_id,
+        content: contract.content,
+        signature: contract.signature,
+        signed_at: contract.signed_at,
+        status: contract.status,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        booking_intent_id: null
+      });
       toast.success('Contract added successfully!');
       await fetchBooking(); // Refresh contracts and booking data
     } catch (error: any) {
@@ -937,11 +885,15 @@ export default function BookingDetailPage() {
     window.URL.revokeObjectURL(url);
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status.toLowerCase()) {
-      case 'confirmed': return <Check className="h-4 w-4 text-green-600" />;
-      case 'pending': return <Clock className="h-4 w-4 text-yellow-600" />;
-      case 'cancelled': return <X className="h-4 w-4 text-red-600" />;
+  const getStatusIcon = (status: BookingStatus) => {
+    switch (status) {
+      case 'confirmed':
+      case 'completed':
+      case 'reviewed': return <Check className="h-4 w-4 text-green-600" />;
+      case 'inquiry':
+      case 'pending_deposit': return <Clock className="h-4 w-4 text-yellow-600" />;
+      case 'cancelled':
+      case 'refunded': return <X className="h-4 w-4 text-red-600" />;
       default: return <AlertCircle className="h-4 w-4 text-gray-600" />;
     }
   };
@@ -953,10 +905,7 @@ export default function BookingDetailPage() {
     }
 
     try {
-      const { error } = await supabase.functions.invoke('send-reminder-email', {
-        body: { user_id: booking.vendor_email, booking_id: booking.id },
-      });
-      if (error) throw error;
+      await sendVendorReminderEmail(booking.vendor_email, booking.id);
       toast.success('Reminder email sent successfully');
       fetchBooking();
     } catch (error: any) {
@@ -972,10 +921,7 @@ export default function BookingDetailPage() {
     }
 
     try {
-      const { error } = await supabase.functions.invoke('send-reminder-text', {
-        body: { phone: booking.vendor_phone, booking_id: booking.id },
-      });
-      if (error) throw error;
+      await sendVendorReminderText(booking.vendor_phone, booking.id);
       toast.success('Reminder text sent successfully');
       fetchBooking();
     } catch (error: any) {
@@ -991,11 +937,7 @@ export default function BookingDetailPage() {
     }
 
     try {
-      const { error } = await supabase
-        .from('review_trigger')
-        .insert({ couple_id: booking.couple_id, send_request: true });
-
-      if (error) throw error;
+      await requestCoupleFeedback(booking.couple_id);
 
       toast.success('Feedback request recorded successfully');
       fetchBooking();
@@ -1014,6 +956,8 @@ export default function BookingDetailPage() {
   }
 
   const hasMoreEvents = booking.events.length === 5;
+  const canReschedule = ['inquiry', 'pending_deposit', 'confirmed'].includes(booking.status);
+  const canCancel = canWritePayments && ['inquiry', 'pending_deposit', 'confirmed'].includes(booking.status);
 
   return (
     <div className="container mx-auto p-6 space-y-6">
@@ -1077,22 +1021,34 @@ export default function BookingDetailPage() {
           <div>
             {editMode.status ? (
               <>
-                <label htmlFor="status" className="text-sm font-medium text-gray-700 mb-2">Status</label>
+                <label htmlFor="status" className="text-sm font-medium text-gray-700 mb-2">
+                  Move from {bookingStatusLabels[booking.status].toLowerCase()} to
+                </label>
                 <select
                   id="status"
                   value={formData.status}
                   onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value }))}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
-                  <option value="pending">Pending</option>
-                  <option value="confirmed">Confirmed</option>
-                  <option value="cancelled">Cancelled</option>
+                  <option value="" disabled>Select a status</option>
+                  {transitionFacts && manualNextStatuses(booking.status, transitionFacts).map(({ status, blockedBy }) => (
+                    <option key={status} value={status} disabled={!!blockedBy}>
+                      {bookingStatusLabels[status]}{blockedBy ? ` (${blockedBy})` : ''}
+                    </option>
+                  ))}
                 </select>
+                <textarea
+                  value={statusNote}
+                  onChange={(e) => setStatusNote(e.target.value)}
+                  rows={2}
+                  placeholder="Note (optional)"
+                  className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                />
                 <div className="mt-2 space-x-2">
                   <button
-                    onClick={() => handleSaveField('status')}
-                    className="inline-flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
-                    disabled={loading}
+                    onClick={handleTransitionStatus}
+                    className="inline-flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed"
+                    disabled={loading || !formData.status}
                   >
                     <Save className="h-4 w-4 mr-1" />
                     Save
@@ -1110,15 +1066,45 @@ export default function BookingDetailPage() {
                 <label className="text-sm font-medium text-gray-500">Status</label>
                 <p className="text-sm text-gray-900 flex items-center">
                   {getStatusIcon(booking.status)}
-                  <span className="ml-2 capitalize">{booking.status}</span>
+                  <span className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${bookingStatusStyles[booking.status]}`}>
+                    {bookingStatusLabels[booking.status]}
+                  </span>
                 </p>
-                <button
-                  onClick={() => setEditMode(prev => ({ ...prev, status: true }))}
-                  className="mt-2 inline-flex items-center px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded-md hover:bg-gray-300"
-                >
-                  <Edit className="h-4 w-4 mr-1" />
-                  Edit
-                </button>
+                {booking.cancellation_reason && (
+                  <p className="mt-1 text-sm text-gray-600">
+                    Cancelled{booking.cancelled_at ? ` ${new Date(booking.cancelled_at).toLocaleDateString()}` : ''}: {booking.cancellation_reason}
+                    {booking.cancellation_refund_percentage !== null && ` (${Number(booking.cancellation_refund_percentage)}% refunded)`}
+                  </p>
+                )}
+                <div className="mt-2 space-x-2">
+                  {transitionFacts && manualNextStatuses(booking.status, transitionFacts).length > 0 && (
+                    <button
+                      onClick={startStatusEdit}
+                      className="inline-flex items-center px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded-md hover:bg-gray-300"
+                    >
+                      <Edit className="h-4 w-4 mr-1" />
+                      Change Status
+                    </button>
+                  )}
+                  {canReschedule && (
+                    <button
+                      onClick={() => setIsRescheduleModalOpen(true)}
+                      className="inline-flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+                    >
+                      <CalendarClock className="h-4 w-4 mr-1" />
+                      Reschedule
+                    </button>
+                  )}
+                  {canCancel && (
+                    <button
+                      onClick={() => setIsCancelModalOpen(true)}
+                      className="inline-flex items-center px-3 py-1 bg-red-600 text-white text-sm rounded-md hover:bg-red-700"
+                    >
+                      <Ban className="h-4 w-4 mr-1" />
+                      Cancel Booking
+                    </button>
+                  )}
+                </div>
               </>
             )}
           </div>
@@ -1191,6 +1177,60 @@ export default function BookingDetailPage() {
         </div>
       </div>
 
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <History className="h-5 w-5 text-blue-600 mr-2" />
+          Status History
+        </h2>
+        {statusHistory.length > 0 ? (
+          <ol className="space-y-3">
+            {statusHistory.map((change) => (
+              <li key={change.id} className="flex items-start justify-between text-sm">
+                <div>
+                  <p className="text-gray-900">
+                    {change.from_status ? (
+                      <>
+                        {bookingStatusLabels[change.from_status]}
+                        <span className="mx-2 text-gray-400">&rarr;</span>
+                      </>
+                    ) : (
+                      <span className="text-gray-500 mr-1">Created as</span>
+                    )}
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${bookingStatusStyles[change.to_status]}`}>
+                      {bookingStatusLabels[change.to_status]}
+                    </span>
+                  </p>
+                  {change.note && <p className="mt-1 text-gray-600">{change.note}</p>}
+                </div>
+                <span className="ml-4 whitespace-nowrap text-gray-500">{new Date(change.changed_at).toLocaleString()}</span>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-gray-500">No status changes recorded.</p>
+        )}
+        {reschedules.length > 0 && (
+          <>
+            <h3 className="mt-6 mb-3 text-sm font-semibold text-gray-900">Reschedules</h3>
+            <ol className="space-y-3">
+              {reschedules.map((reschedule) => (
+                <li key={reschedule.id} className="flex items-start justify-between text-sm">
+                  <div>
+                    <p className="text-gray-900">
+                      {new Date(reschedule.previous_start_time).toLocaleString()}
+                      <span className="mx-2 text-gray-400">&rarr;</span>
+                      {new Date(reschedule.new_start_time).toLocaleString()}
+                    </p>
+                    {reschedule.reason && <p className="mt-1 text-gray-600">{reschedule.reason}</p>}
+                  </div>
+                  <span className="ml-4 whitespace-nowrap text-gray-500">{new Date(reschedule.created_at).toLocaleString()}</span>
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+      </div>
+
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
           <MapPin className="h-5 w-5 text-blue-600 mr-2" />
@@ -1301,13 +1341,15 @@ export default function BookingDetailPage() {
             <CreditCard className="h-5 w-5 text-blue-600 mr-2" />
             Payments ({payments.length})
           </h2>
-          <button
-            onClick={() => setIsPaymentEntryModalOpen(true)}
-            className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
-          >
-            <Plus className="h-4 w-4 mr-1 inline" />
-            Enter Payment
-          </button>
+          {canWritePayments && (
+            <button
+              onClick={() => setIsPaymentEntryModalOpen(true)}
+              className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+            >
+              <Plus className="h-4 w-4 mr-1 inline" />
+              Enter Payment
+            </button>
+          )}
         </div>
         {!editMode.payments ? (
           <>
@@ -1457,6 +1499,8 @@ export default function BookingDetailPage() {
         )}
       </div>
 
+      <RefundHistory refunds={refunds} showPayment />
+
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-semibold text-gray-900 flex items-center">
@@ -1536,6 +1580,22 @@ export default function BookingDetailPage() {
         defaultBookingId={id!}
       />
 
+      <CancelBookingModal
+        isOpen={isCancelModalOpen}
+        onClose={() => setIsCancelModalOpen(false)}
+        booking={booking}
+        payments={payments}
+        refunds={refunds}
+        onCancelled={fetchBooking}
+      />
+
+      <RescheduleBookingModal
+        isOpen={isRescheduleModalOpen}
+        onClose={() => setIsRescheduleModalOpen(false)}
+        booking={booking}
+        onRescheduled={fetchBooking}
+      />
+
       {isViewContractOpen && selectedContract && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-2xl max-h-[80vh] overflow-y-auto">
@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { Ban, Plus, Save, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
+import {
+  listCancellationPolicyTiers,
+  saveCancellationPolicyTier,
+  deleteCancellationPolicyTier,
+} from '../repositories/bookingChanges';
+import type { CancellationPolicyTier } from '../utils/bookingChanges';
+
+type TierDraft = {
+  id?: string;
+  // Local key so unsaved tiers can be told apart
+  key: string;
+  min_days_before: number;
+  refund_percentage: number;
+};
+
+const toDraft = (tier: CancellationPolicyTier): TierDraft => ({
+  id: tier.id,
+  key: tier.id,
+  min_days_before: tier.min_days_before,
+  refund_percentage: Number(tier.refund_percentage),
+});
+
+const byDaysDescending = (a: TierDraft, b: TierDraft) => b.min_days_before - a.min_days_before;
+
+export default function CancellationPolicyPage() {
+  const [drafts, setDrafts] = useState<TierDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const canEdit = usePermission('payments.write');
+
+  useEffect(() => {
+    const fetchTiers = async () => {
+      try {
+        setLoading(true);
+        setDrafts((await listCancellationPolicyTiers()).map(toDraft));
+      } catch (error) {
+        console.error('Error fetching cancellation policy:', error);
+        toast.error('Failed to load cancellation policy');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTiers();
+  }, []);
+
+  const updateDraft = (key: string, changes: Partial<TierDraft>) => {
+    setDrafts(prev => prev.map(draft => (draft.key === key ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleAdd = () => {
+    const furthest = drafts.reduce((max, draft) => Math.max(max, draft.min_days_before), 0);
+    setDrafts(prev => [{ key: `new-${Date.now()}`, min_days_before: furthest + 30, refund_percentage: 100 }, ...prev]);
+  };
+
+  const handleSave = async (draft: TierDraft) => {
+    if (draft.min_days_before < 0 || draft.refund_percentage < 0 || draft.refund_percentage > 100) {
+      toast.error('Days must be 0 or more and the refund between 0 and 100%');
+      return;
+    }
+    if (drafts.some(other => other.key !== draft.key && other.min_days_before === draft.min_days_before)) {
+      toast.error('Another tier already starts at that many days');
+      return;
+    }
+    try {
+      setSavingKey(draft.key);
+      const saved = await saveCancellationPolicyTier({
+        id: draft.id,
+        min_days_before: draft.min_days_before,
+        refund_percentage: draft.refund_percentage,
+      });
+      setDrafts(prev => prev
+        .map(other => (other.key === draft.key ? toDraft(saved) : other))
+        .sort(byDaysDescending));
+      toast.success('Tier saved');
+    } catch (error) {
+      console.error('Error saving cancellation tier:', error);
+      toast.error('Failed to save tier');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleDelete = async (draft: TierDraft) => {
+    if (!draft.id) {
+      setDrafts(prev => prev.filter(other => other.key !== draft.key));
+      return;
+    }
+    if (!window.confirm(`Delete the ${draft.min_days_before}+ days tier? Bookings already cancelled keep their refunds.`)) return;
+    try {
+      setSavingKey(draft.key);
+      await deleteCancellationPolicyTier(draft.id);
+      setDrafts(prev => prev.filter(other => other.key !== draft.key));
+      toast.success('Tier deleted');
+    } catch (error) {
+      console.error('Error deleting cancellation tier:', error);
+      toast.error('Failed to delete tier');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <Ban className="h-8 w-8 text-blue-600 mr-3" />
+            Cancellation Policy
+          </h1>
+          <p className="mt-2 text-gray-500">
+            How much of what was paid a cancelled booking gets back. The tier with the most days the cancellation still
+            meets applies; staff can override it when cancelling.
+          </p>
+        </div>
+        {canEdit && (
+          <button
+            onClick={handleAdd}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Tier
+          </button>
+        )}
+      </div>
+
+      {drafts.length === 0 && (
+        <div className="text-center py-12 bg-white rounded-xl shadow-sm border border-gray-100">
+          <p className="text-gray-500">No tiers. Cancelled bookings are not refunded unless staff set a percentage.</p>
+        </div>
+      )}
+
+      {drafts.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cancelled at least (days before event)</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Refund (%)</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {drafts.map(draft => (
+                <tr key={draft.key}>
+                  <td className="px-6 py-4">
+                    <input
+                      type="number"
+                      min="0"
+                      value={draft.min_days_before}
+                      onChange={(e) => updateDraft(draft.key, { min_days_before: parseInt(e.target.value, 10) || 0 })}
+                      disabled={!canEdit}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="px-6 py-4">
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={draft.refund_percentage}
+                      onChange={(e) => updateDraft(draft.key, { refund_percentage: parseFloat(e.target.value) || 0 })}
+                      disabled={!canEdit}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="px-6 py-4 text-right space-x-2">
+                    {canEdit && (
+                      <>
+                        <button
+                          onClick={() => handleDelete(draft)}
+                          disabled={savingKey === draft.key}
+                          className="inline-flex items-center px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm disabled:opacity-50"
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" /> Delete
+                        </button>
+                        <button
+                          onClick={() => handleSave(draft)}
+                          disabled={savingKey === draft.key}
+                          className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+                        >
+                          <Save className="h-4 w-4 mr-1" /> Save
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
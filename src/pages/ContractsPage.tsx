@@ -17,7 +17,7 @@ interface Booking {
   couple_id: string;
   vendor_id: string | null;
   status: string;
-  package_id: string;
+  package_id: string | null;
   created_at: string;
   updated_at: string | null;
 }
@@ -89,8 +89,8 @@ export default function ContractsPage() {
         }
 
         // Fetch all related bookings
-        const bookingIds = contractData.map(c => c.booking_id).filter(id => id);
-        let bookings: Booking[] = [];
+        const bookingIds = contractData.map(c => c.booking_id).filter((id): id is string => !!id);
+        let bookings: Pick<Booking, 'id' | 'couple_id' | 'package_id'>[] = [];
         if (bookingIds.length > 0) {
           const { data: bookingsData, error: bookingError } = await supabase
             .from('bookings')
@@ -101,7 +101,7 @@ export default function ContractsPage() {
         }
 
         // Fetch couple names
-        const coupleIds = bookings.map(b => b.couple_id).filter(id => id);
+        const coupleIds = bookings.map(b => b.couple_id).filter((id): id is string => !!id);
         let coupleNames: { [key: string]: string } = {};
         if (coupleIds.length > 0) {
           const { data: couples, error: coupleError } = await supabase
@@ -116,7 +116,7 @@ export default function ContractsPage() {
         }
 
         // Fetch package names
-        const packageIds = bookings.map(b => b.package_id).filter(id => id);
+        const packageIds = bookings.map(b => b.package_id).filter((id): id is string => !!id);
         let packageNames: { [key: string]: string } = {};
         if (packageIds.length > 0) {
           const { data: packages, error: packageError } = await supabase
@@ -136,7 +136,7 @@ export default function ContractsPage() {
           return {
             ...contract,
             couple_name: booking ? coupleNames[booking.couple_id] || 'N/A' : 'N/A',
-            package_name: booking ? packageNames[booking.package_id] || 'N/A' : 'N/A',
+            package_name: booking?.package_id ? packageNames[booking.package_id] || 'N/A' : 'N/A',
           };
         });
         setContracts(mappedContracts || []);
@@ -4,26 +4,17 @@ import { Users, User, MapPin, Calendar, Package, CreditCard, MessageSquare, Cloc
 import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
 import { supabase } from '../lib/supabase';
+import type { TablesUpdate } from '../lib/supabase';
+import { listBookingsForCouple } from '../repositories/bookings';
+import { getCouple, getCoupleLoginEmail, sendCoupleLoginLink, updateCouple, CoupleSummary } from '../repositories/couples';
+import { listEventsForCouple } from '../repositories/events';
+import { listPaymentsForBookings } from '../repositories/payments';
+import { listVendorLoginEmails, listVendorOptions } from '../repositories/vendors';
+import { createVenue, getVenue, searchVenues } from '../repositories/venues';
 import toast from 'react-hot-toast';
 import { format, parseISO } from 'date-fns';
-
-interface Couple {
-  id: string;
-  user_id: string;
-  name: string;
-  partner1_name: string | null;
-  partner2_name: string | null;
-  wedding_date: string | null;
-  budget: number | null;
-  vibe_tags: string[] | null;
-  phone: string | null;
-  email: string | null;
-  venue_id: string | null;
-  venue_name: string | null;
-  venue_city: string | null;
-  venue_state: string | null;
-  guest_count: number | null;
-}
+import { bookingStatusLabels, isBookingStatus } from '../utils/bookingStatus';
+import IcalFeedPanel from '../components/IcalFeedPanel';
 
 interface Venue {
   id: string;
@@ -56,11 +47,11 @@ interface Booking {
 
 interface Event {
   id: string;
-  couple_id: string;
+  couple_id: string | null;
   start_time: string;
   end_time: string;
   type: string;
-  title: string;
+  title: string | null;
   created_at: string;
 }
 
@@ -70,13 +61,13 @@ interface ServicePackage {
   service_type: string;
   description: string | null;
   price: number;
-  vendor_id: string;
+  vendor_id: string | null;
   event_type: string | null;
 }
 
 interface Payment {
   id: string;
-  booking_id: string;
+  booking_id: string | null;
   amount: number;
   status: string;
   created_at: string;
@@ -85,7 +76,7 @@ interface Payment {
 export default function CoupleDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [couple, setCouple] = useState<Couple | null>(null);
+  const [couple, setCouple] = useState<CoupleSummary | null>(null);
   const [coupleEmail, setCoupleEmail] = useState<string | null>(null);
   const [venue, setVenue] = useState<Venue | null>(null);
   const [bookings, setBookings] = useState<Booking[]>([]);
@@ -143,18 +134,7 @@ export default function CoupleDetailPage() {
     try {
       setLoading(true);
       if (!id) throw new Error('Couple ID is undefined');
-      const { data: coupleData, error: coupleError } = await supabase
-        .from('couples')
-        .select(`
-          id, user_id, name, partner1_name, partner2_name, wedding_date, budget, vibe_tags, phone, email,
-          venue_id, venue_name, venue_city, venue_state, guest_count
-        `)
-        .eq('id', id)
-        .single();
-      if (coupleError) {
-        console.error('Couple fetch error:', coupleError);
-        throw coupleError;
-      }
+      const coupleData = await getCouple(id);
       console.log('Fetched couple:', coupleData);
       setCouple(coupleData);
       setFormData({
@@ -179,178 +159,60 @@ export default function CoupleDetailPage() {
         venue_contact_name: '',
       });
       if (coupleData.user_id) {
-        const { data: userData, error: userError } = await supabase
-          .from('users')
-          .select('email')
-          .eq('id', coupleData.user_id)
-          .maybeSingle();
-        if (userError) {
-          console.error('User fetch error:', userError);
-          throw userError;
-        }
-        console.log('Fetched user email:', userData?.email);
-        setCoupleEmail(userData?.email || null);
-        if (!userData) {
+        const email = await getCoupleLoginEmail(coupleData.user_id);
+        console.log('Fetched user email:', email);
+        setCoupleEmail(email);
+        if (!email) {
           console.warn(`No user found for user_id: ${coupleData.user_id}`);
           toast.warn('No email found for this couple in users table.');
         }
       }
       if (coupleData.venue_id) {
-        const { data: venueData, error: venueError } = await supabase
-          .from('venues')
-          .select('id, name, street_address, city, state, zip')
-          .eq('id', coupleData.venue_id)
-          .single();
-        if (venueError) {
-          console.error('Venue fetch error:', venueError);
-          throw venueError;
-        }
+        const venueData = await getVenue(coupleData.venue_id);
         console.log('Fetched venue:', venueData);
         setVenue(venueData);
       }
-      const { data: bookingsData, error: bookingsError } = await supabase
-        .from('bookings')
-        .select(`
-          id, couple_id, vendor_id, status, amount, service_type, package_id, created_at, venue_id
-        `)
-        .eq('couple_id', id);
-      if (bookingsError) {
-        console.error('Bookings fetch error:', bookingsError);
-        throw bookingsError;
-      }
+      const bookingsData = await listBookingsForCouple(id);
       console.log('Fetched bookings:', bookingsData);
-      let bookingsWithDetails: Booking[] = [];
-      if (bookingsData && bookingsData.length > 0) {
-        const vendorIds = [...new Set(bookingsData.map(b => b.vendor_id).filter(id => id))];
-        let vendorMap = new Map<string, { name: string; phone: string | null; user_id: string | null }>();
-        if (vendorIds.length > 0) {
-          const { data: vendorsData, error: vendorsError } = await supabase
-            .from('vendors')
-            .select('id, name, phone, user_id')
-            .in('id', vendorIds);
-          if (vendorsError) {
-            console.error('Vendors for bookings fetch error:', vendorsError);
-            toast.warn('Failed to fetch vendor details for bookings');
-          } else {
-            console.log('Fetched vendors for bookings:', vendorsData);
-            vendorMap = new Map(vendorsData?.map(v => [v.id, { name: v.name, phone: v.phone, user_id: v.user_id }]) || []);
-          }
-        }
-        const vendorUserIds = [...new Set([...vendorMap.values()].map(v => v.user_id).filter(id => id))];
-        let emailMap = new Map<string, string | null>();
-        if (vendorUserIds.length > 0) {
-          const { data: usersData, error: usersError } = await supabase
-            .from('users')
-            .select('id, email')
-            .in('id', vendorUserIds as string[]);
-          if (usersError) {
-            console.error('Users for vendor emails fetch error:', usersError);
-            toast.warn('Failed to fetch vendor emails');
-          } else {
-            console.log('Fetched vendor emails:', usersData);
-            emailMap = new Map(usersData?.map(u => [u.id, u.email]) || []);
-          }
-        }
-        const packageIds = [...new Set(bookingsData.map(b => b.package_id).filter(id => id))];
-        let packageMap = new Map<string, { name: string; description: string | null; price: number | null }>();
-        if (packageIds.length > 0) {
-          const { data: packagesData, error: packagesError } = await supabase
-            .from('service_packages')
-            .select('id, name, description, price')
-            .in('id', packageIds);
-          if (packagesError) {
-            console.error('Service packages for bookings fetch error:', packagesError);
-            toast.warn('Failed to fetch service package details');
-          } else {
-            console.log('Fetched service packages for bookings:', packagesData);
-            packageMap = new Map(packagesData?.map(p => [p.id, { name: p.name, description: p.description, price: p.price }]) || []);
-          }
-        }
-        const venueIds = [...new Set(bookingsData.map(b => b.venue_id).filter(id => id))];
-        let venueMap = new Map<string, { name: string; address: string | null }>();
-        if (venueIds.length > 0) {
-          const { data: venuesData, error: venuesError } = await supabase
-            .from('venues')
-            .select('id, name, street_address, city, state, zip')
-            .in('id', venueIds);
-          if (venuesError) {
-            console.error('Venues for bookings fetch error:', venuesError);
-            toast.warn('Failed to fetch venue details for bookings');
-          } else {
-            console.log('Fetched venues for bookings:', venuesData);
-            venueMap = new Map(venuesData?.map(v => [
-              v.id,
-              {
-                name: v.name,
-                address: `${v.street_address || ''}${v.city && v.state ? `, ${v.city}, ${v.state} ${v.zip || ''}` : ''}`.trim() || null
-              }
-            ]) || []);
-          }
-        }
-        bookingsWithDetails = bookingsData.map(b => ({
-          id: b.id,
-          couple_id: b.couple_id,
-          vendor_id: b.vendor_id,
-          vendor_name: vendorMap.get(b.vendor_id)?.name || null,
-          vendor_phone: vendorMap.get(b.vendor_id)?.phone || null,
-          vendor_email: b.vendor_id && vendorMap.get(b.vendor_id)?.user_id
-            ? emailMap.get(vendorMap.get(b.vendor_id)!.user_id!) || null
-            : null,
-          status: b.status,
-          amount: b.amount,
-          service_type: b.service_type,
-          package_id: b.package_id,
-          package_name: b.package_id ? packageMap.get(b.package_id)?.name || null : null,
-          package_description: b.package_id ? packageMap.get(b.package_id)?.description || null : null,
-          package_price: b.package_id ? packageMap.get(b.package_id)?.price || null : null,
-          venue_id: b.venue_id,
-          venue_name: b.venue_id ? venueMap.get(b.venue_id)?.name || null : null,
-          venue_address: b.venue_id ? venueMap.get(b.venue_id)?.address || null : null,
-          created_at: b.created_at
-        }));
+      const vendorUserIds = [...new Set(bookingsData.map(b => b.vendors?.user_id).filter((id): id is string => !!id))];
+      let emailMap: Record<string, string> = {};
+      try {
+        emailMap = await listVendorLoginEmails(vendorUserIds);
+      } catch (usersError) {
+        console.error('Users for vendor emails fetch error:', usersError);
+        toast.warn('Failed to fetch vendor emails');
       }
+      const bookingsWithDetails: Booking[] = bookingsData.map(b => ({
+        id: b.id,
+        couple_id: b.couple_id,
+        vendor_id: b.vendor_id,
+        vendor_name: b.vendors?.name || null,
+        vendor_phone: b.vendors?.phone || null,
+        vendor_email: b.vendors?.user_id ? emailMap[b.vendors.user_id] || null : null,
+        status: b.status,
+        amount: b.amount,
+        service_type: b.service_type,
+        package_id: b.package_id,
+        package_name: b.service_packages?.name || null,
+        package_description: b.service_packages?.description || null,
+        package_price: b.service_packages?.price || null,
+        venue_id: b.venue_id,
+        venue_name: b.venues?.name || null,
+        venue_address: b.venues
+          ? `${b.venues.street_address || ''}${b.venues.city && b.venues.state ? `, ${b.venues.city}, ${b.venues.state} ${b.venues.zip || ''}` : ''}`.trim() || null
+          : null,
+        created_at: b.created_at
+      }));
       setBookings(bookingsWithDetails);
       console.log('Bookings with details:', bookingsWithDetails);
-      const packageIdsForDisplay = bookingsData?.map(b => b.package_id).filter(id => id) || [];
-      if (packageIdsForDisplay.length > 0) {
-        const { data: packagesData, error: packagesError } = await supabase
-          .from('service_packages')
-          .select(`
-            id, name, service_type, description, price, vendor_id, event_type
-          `)
-          .in('id', packageIdsForDisplay);
-        if (packagesError) {
-          console.error('Service packages fetch error:', packagesError);
-          toast.warn('Failed to fetch service packages');
-        } else {
-          console.log('Fetched service packages:', packagesData);
-          setServicePackages(packagesData || []);
-        }
-      }
-      const bookingIds = bookingsData?.map(b => b.id) || [];
-      if (bookingIds.length > 0) {
-        const { data: paymentsData, error: paymentsError } = await supabase
-          .from('payments')
-          .select('id, booking_id, amount, status, created_at')
-          .in('id', bookingIds);
-        if (paymentsError) {
-          console.error('Payments fetch error:', paymentsError);
-          throw paymentsError;
-        }
-        console.log('Fetched payments:', paymentsData);
-        setPayments(paymentsData || []);
-      }
-      const { data: eventsData, error: eventsError } = await supabase
-        .from('events')
-        .select('id, couple_id, start_time, end_time, type, title, created_at')
-        .eq('couple_id', id)
-        .order('start_time', { ascending: true });
-      if (eventsError) {
-        console.error('Events fetch error:', eventsError);
-        throw eventsError;
-      }
+      const packagesById = new Map(bookingsData.flatMap(b => (b.service_packages ? [[b.service_packages.id, b.service_packages] as const] : [])));
+      setServicePackages([...packagesById.values()]);
+      const paymentsData = await listPaymentsForBookings(bookingsData.map(b => b.id));
+      console.log('Fetched payments:', paymentsData);
+      setPayments(paymentsData);
+      const eventsData = await listEventsForCouple(id);
       console.log('Fetched events:', eventsData);
-      setEvents(eventsData || []);
+      setEvents(eventsData);
     } catch (error: any) {
       console.error('Error fetching couple data:', error);
       toast.error('Failed to load couple data');
@@ -362,16 +224,9 @@ export default function CoupleDetailPage() {
 
   const fetchVendors = async () => {
     try {
-      const { data, error } = await supabase
-        .from('vendors')
-        .select('id, name')
-        .order('name', { ascending: true });
-      if (error) {
-        console.error('Vendors fetch error:', error);
-        throw error;
-      }
+      const data = await listVendorOptions();
       console.log('Fetched vendors:', data);
-      setVendors(data || []);
+      setVendors(data);
     } catch (error: any) {
       console.error('Error fetching vendors:', error);
       toast.error('Failed to load vendors');
@@ -382,7 +237,7 @@ export default function CoupleDetailPage() {
     if (!couple) return;
     setLoading(true);
     try {
-      const updateData: Partial<Couple> = {};
+      const updateData: TablesUpdate<'couples'> = {};
       switch (field) {
         case 'name':
           updateData.name = formData.name.trim() || null;
@@ -422,22 +277,10 @@ export default function CoupleDetailPage() {
         default:
           return;
       }
-      const { error } = await supabase
-        .from('couples')
-        .update(updateData)
-        .eq('id', couple.id);
-      if (error) {
-        console.error('Update error:', error);
-        throw error;
-      }
+      await updateCouple(couple.id, updateData);
       setCouple(prev => prev ? { ...prev, ...updateData } : null);
       if (field === 'venue' && formData.venue_id) {
-        const { data: venueData } = await supabase
-          .from('venues')
-          .select('id, name, street_address, city, state, zip')
-          .eq('id', formData.venue_id)
-          .single();
-        setVenue(venueData);
+        setVenue(await getVenue(formData.venue_id).catch(() => null));
       } else if (field === 'venue' && !formData.venue_id) {
         setVenue(null);
       }
@@ -457,14 +300,9 @@ export default function CoupleDetailPage() {
       return;
     }
     try {
-      const { data, error } = await supabase
-        .from('venues')
-        .select('id, name, street_address, city, state, zip')
-        .or(`name.ilike.%${query}%,street_address.ilike.%${query}%,city.ilike.%${query}%,state.ilike.%${query}%,zip.ilike.%${query}%`)
-        .limit(5);
-      if (error) throw error;
+      const data = await searchVenues(query);
       console.log('Venue suggestions:', data);
-      setVenueSuggestions(data || []);
+      setVenueSuggestions(data);
     } catch (error: any) {
       console.error('Venue search error:', error);
       toast.error('Failed to search venues');
@@ -504,15 +342,8 @@ export default function CoupleDetailPage() {
         contact_name: formData.venue_contact_name.trim() || null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
-        booking_count: 0,
       };
-      const { error } = await supabase
-        .from('venues')
-        .insert(newVenue);
-      if (error) {
-        console.error('Add venue error:', error);
-        throw error;
-      }
+      await createVenue(newVenue);
       setFormData({
         ...formData,
         venue_id: newVenue.id,
@@ -561,23 +392,7 @@ export default function CoupleDetailPage() {
   }
   try {
     console.log('Requesting magic link email via edge function:', coupleEmail);
-    const res = await fetch(
-  'https://eecbrvehrhrvdzuutliq.supabase.co/functions/v1/send-email',
-  {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      apikey: process.env.VITE_SUPABASE_ANON_KEY!,
-      Authorization: `Bearer ${process.env.VITE_SUPABASE_ANON_KEY!}`,
-    },
-    body: JSON.stringify({ email: coupleEmail }),
-  }
-);
-
-
-    if (!res.ok) {
-      throw new Error(`Failed: ${res.statusText}`);
-    }
+    await sendCoupleLoginLink(coupleEmail);
 
     toast.success('Magic link email sent via Resend!');
   } catch (error: any) {
@@ -588,18 +403,26 @@ export default function CoupleDetailPage() {
 
   const getStatusIcon = (status: string) => {
     switch (status.toLowerCase()) {
-      case 'confirmed': return <Check className="h-4 w-4 text-green-600" />;
-      case 'pending': return <Clock className="h-4 w-4 text-yellow-600" />;
-      case 'cancelled': return <XCircle className="h-4 w-4 text-red-600" />;
+      case 'confirmed':
+      case 'completed':
+      case 'reviewed': return <Check className="h-4 w-4 text-green-600" />;
+      case 'inquiry':
+      case 'pending_deposit': return <Clock className="h-4 w-4 text-yellow-600" />;
+      case 'cancelled':
+      case 'refunded': return <XCircle className="h-4 w-4 text-red-600" />;
       default: return <AlertCircle className="h-4 w-4 text-gray-600" />;
     }
   };
 
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
-      case 'confirmed': return 'bg-green-100 text-green-800 border-green-200';
-      case 'pending': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      case 'cancelled': return 'bg-red-100 text-red-800 border-red-200';
+      case 'confirmed':
+      case 'completed':
+      case 'reviewed': return 'bg-green-100 text-green-800 border-green-200';
+      case 'inquiry':
+      case 'pending_deposit': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+      case 'cancelled':
+      case 'refunded': return 'bg-red-100 text-red-800 border-red-200';
       default: return 'bg-gray-100 text-gray-800 border-gray-200';
     }
   };
@@ -1373,7 +1196,7 @@ export default function CoupleDetailPage() {
                     <div>
                       <span className={`inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium border ${getStatusColor(booking.status)}`}>
                         {getStatusIcon(booking.status)}
-                        <span className="ml-2 capitalize">{booking.status}</span>
+                        <span className="ml-2">{isBookingStatus(booking.status) ? bookingStatusLabels[booking.status] : booking.status}</span>
                       </span>
                       <p className="text-sm text-gray-600 mt-1">{formatCurrency(booking.amount)}</p>
                     </div>
@@ -1493,6 +1316,7 @@ export default function CoupleDetailPage() {
           </div>
         )}
       </div>
+      <IcalFeedPanel kind="couple" ownerId={couple.id} />
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
           <Package className="h-5 w-5 text-blue-600 mr-2" />
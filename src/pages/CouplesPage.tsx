@@ -1,34 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Users, Plus, Upload, Eye, Phone, Calendar, Heart } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { listCouples, CoupleSummary } from '../repositories/couples';
 import { useAuth } from '../contexts/AuthContext';
 import toast from 'react-hot-toast';
 import ImportCouplesModal from '../components/ImportCouplesModal';
 import AddCoupleModal from '../components/AddCoupleModal';
 import { format, parseISO } from 'date-fns';
 
-interface Couple {
-  id: string;
-  user_id: string;
-  name: string;
-  wedding_date: string | null;
-  budget: number | null;
-  vibe_tags: string[] | null;
-  created_at: string;
-  updated_at: string;
-  partner1_name: string | null;
-  partner2_name: string | null;
-  venue_name: string | null;
-  guest_count: number | null;
-  phone: string | null;
-  email: string | null;
-  venue_city: string | null;
-  venue_state: string | null;
-}
-
 export function CouplesPage() {
-  const [couples, setCouples] = useState<Couple[]>([]);
+  const [couples, setCouples] = useState<CoupleSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [vibeFilter, setVibeFilter] = useState('');
@@ -45,21 +26,9 @@ export function CouplesPage() {
     try {
       setLoading(true);
       console.log('Fetching couples from Supabase...');
-      const { data: couplesData, error: couplesError } = await supabase
-        .from('couples')
-        .select(`
-          id, user_id, name, wedding_date, budget, vibe_tags, created_at, updated_at,
-          partner1_name, partner2_name, venue_name, guest_count, phone, email,
-          venue_city, venue_state
-        `)
-        .order('created_at', { ascending: false });
-
-      if (couplesError) {
-        console.error('Supabase error fetching couples:', couplesError);
-        throw couplesError;
-      }
+      const couplesData = await listCouples();
       console.log('Couples data fetched:', couplesData);
-      setCouples(couplesData || []);
+      setCouples(couplesData);
     } catch (error: any) {
       console.error('Error fetching couples:', error);
       toast.error('Failed to load couples');
@@ -0,0 +1,321 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { ShieldAlert, Paperclip, Download, Trash2, Upload } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
+import {
+  DisputeWithDetails,
+  getDisputeWithDetails,
+  getDisputeEvidenceUrl,
+  removeDisputeEvidence,
+  updateDispute,
+  uploadDisputeEvidence,
+} from '../repositories/disputes';
+import {
+  DisputeStatus,
+  daysUntilEvidenceDue,
+  disputeStatusLabels,
+  disputeStatusStyles,
+  formatDisputeReason,
+  holdsVendorShare,
+  isDisputeOpen,
+} from '../utils/disputes';
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// Uploaded names are prefixed with a timestamp to keep them unique
+const evidenceName = (path: string) => path.split('/').pop()?.replace(/^\d+-/, '') || path;
+
+export default function DisputeDetailsPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [dispute, setDispute] = useState<DisputeWithDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<DisputeStatus>('needs_response');
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const canEdit = usePermission('payments.write');
+
+  useEffect(() => {
+    const fetchDispute = async () => {
+      if (!id) return;
+      try {
+        setLoading(true);
+        const data = await getDisputeWithDetails(id);
+        setDispute(data);
+        setStatus(data.status);
+        setDueDate(data.evidence_due_by ? format(parseISO(data.evidence_due_by), 'yyyy-MM-dd') : '');
+        setNotes(data.notes || '');
+      } catch (error) {
+        console.error('Error fetching dispute:', error);
+        toast.error('Failed to load dispute');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDispute();
+  }, [id]);
+
+  // Keeps the joined payment, booking and vendor when a bare row comes back
+  const applyUpdate = (updated: Partial<DisputeWithDetails>) =>
+    setDispute(prev => (prev ? { ...prev, ...updated } : prev));
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dispute) return;
+    try {
+      setSaving(true);
+      const closing = !isDisputeOpen(status);
+      applyUpdate(await updateDispute(dispute.id, {
+        status,
+        evidence_due_by: dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : null,
+        notes: notes.trim() || null,
+        closed_at: closing ? dispute.closed_at || new Date().toISOString() : null,
+      }));
+      toast.success('Dispute saved');
+    } catch (error) {
+      console.error('Error saving dispute:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save dispute');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !dispute) return;
+    try {
+      setUploading(true);
+      applyUpdate(await uploadDisputeEvidence(dispute, file));
+      toast.success(`${file.name} uploaded`);
+    } catch (error) {
+      console.error('Error uploading dispute evidence:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to upload evidence');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDownload = async (path: string) => {
+    try {
+      window.open(await getDisputeEvidenceUrl(path), '_blank', 'noopener');
+    } catch (error) {
+      console.error('Error opening dispute evidence:', error);
+      toast.error('Failed to open file');
+    }
+  };
+
+  const handleRemove = async (path: string) => {
+    if (!dispute || !window.confirm(`Remove ${evidenceName(path)}?`)) return;
+    try {
+      applyUpdate(await removeDisputeEvidence(dispute, path));
+      toast.success('Evidence removed');
+    } catch (error) {
+      console.error('Error removing dispute evidence:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove evidence');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!dispute) {
+    return (
+      <div className="container mx-auto p-6">
+        <p className="text-red-600">Dispute not found.</p>
+      </div>
+    );
+  }
+
+  const daysLeft = daysUntilEvidenceDue(dispute);
+  // Stripe owns the status of disputes it raised; the webhook keeps it current
+  const fromStripe = Boolean(dispute.stripe_dispute_id);
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <ShieldAlert className="h-8 w-8 text-blue-600 mr-3" />
+          Dispute: {formatCents(dispute.amount)}
+          <span className={`ml-3 px-2 py-1 text-sm font-medium rounded-full ${disputeStatusStyles[dispute.status]}`}>
+            {disputeStatusLabels[dispute.status]}
+          </span>
+        </h1>
+        <button
+          onClick={() => navigate('/dashboard/disputes')}
+          className="px-3 py-1 bg-gray-600 text-white rounded-lg hover:bg-gray-700 text-sm"
+        >
+          Back to Disputes
+        </button>
+      </div>
+
+      {holdsVendorShare(dispute.status) && dispute.booking_id && (
+        <div className="rounded-lg border border-orange-200 bg-orange-50 p-4 text-sm text-orange-800">
+          {dispute.status === 'lost'
+            ? 'This dispute was lost, so the vendor share of the booking stays off their payout statements.'
+            : 'The vendor share of this booking is held from payout statements until the dispute is closed.'}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Dispute Information</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="text-sm font-medium text-gray-500">Reason</label>
+            <p className="text-sm text-gray-900">{formatDisputeReason(dispute.reason)}</p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500">Evidence Due</label>
+            <p className={`text-sm ${isDisputeOpen(dispute.status) && daysLeft !== null && daysLeft <= 3 ? 'text-red-600' : 'text-gray-900'}`}>
+              {dispute.evidence_due_by ? format(parseISO(dispute.evidence_due_by), 'MMM d, yyyy h:mm a') : 'No deadline'}
+              {isDisputeOpen(dispute.status) && daysLeft !== null && (
+                <span className="ml-2">({daysLeft < 0 ? `${-daysLeft} days overdue` : `${daysLeft} days left`})</span>
+              )}
+            </p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500">Opened</label>
+            <p className="text-sm text-gray-900">{new Date(dispute.opened_at).toLocaleString()}</p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500">Closed</label>
+            <p className="text-sm text-gray-900">{dispute.closed_at ? new Date(dispute.closed_at).toLocaleString() : 'Open'}</p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500">Payment</label>
+            <p className="text-sm">
+              <Link to={`/dashboard/payment/${dispute.payment_id}`} className="text-blue-600 hover:text-blue-800">
+                {dispute.payments?.stripe_payment_id || dispute.payment_id}
+              </Link>
+              {dispute.payments && (
+                <span className="text-gray-500"> ({formatCents(dispute.payments.amount)} {dispute.payments.payment_type || 'payment'})</span>
+              )}
+            </p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500">Stripe Dispute ID</label>
+            <p className="text-sm text-gray-900">{dispute.stripe_dispute_id || 'Recorded by hand'}</p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500">Booking</label>
+            <p className="text-sm">
+              {dispute.bookings ? (
+                <Link to={`/dashboard/booking/${dispute.bookings.id}`} className="text-blue-600 hover:text-blue-800">
+                  {dispute.bookings.couples?.name || 'Unknown couple'}, {dispute.bookings.service_type}
+                </Link>
+              ) : 'N/A'}
+            </p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500">Vendor</label>
+            <p className="text-sm">
+              {dispute.vendors ? (
+                <Link to={`/dashboard/vendor/${dispute.vendors.id}`} className="text-blue-600 hover:text-blue-800">
+                  {dispute.vendors.name}
+                </Link>
+              ) : 'N/A'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <form onSubmit={handleSave} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">Response</h2>
+        <fieldset disabled={!canEdit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="dispute_status" className="block text-sm font-medium text-gray-700">Status</label>
+            <select
+              id="dispute_status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as DisputeStatus)}
+              disabled={fromStripe}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            >
+              {Object.entries(disputeStatusLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            {fromStripe && <p className="mt-1 text-xs text-gray-500">Updated by Stripe.</p>}
+          </div>
+          <div>
+            <label htmlFor="dispute_due" className="block text-sm font-medium text-gray-700">Evidence Due</label>
+            <input
+              id="dispute_due"
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              disabled={fromStripe}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="dispute_notes" className="block text-sm font-medium text-gray-700">Notes</label>
+            <textarea
+              id="dispute_notes"
+              rows={4}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </fieldset>
+        {canEdit && (
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        )}
+      </form>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Paperclip className="h-5 w-5 text-blue-600 mr-2" />
+            Evidence ({dispute.evidence_files.length})
+          </h2>
+          {canEdit && (
+            <label className={`inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+              <Upload className="h-4 w-4 mr-1" />
+              {uploading ? 'Uploading...' : 'Upload File'}
+              <input type="file" className="hidden" onChange={handleUpload} disabled={uploading} />
+            </label>
+          )}
+        </div>
+        {dispute.evidence_files.length === 0 ? (
+          <p className="text-sm text-gray-500">No evidence uploaded yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {dispute.evidence_files.map(path => (
+              <li key={path} className="py-2 flex items-center justify-between text-sm">
+                <span className="text-gray-900">{evidenceName(path)}</span>
+                <span className="space-x-2">
+                  <button onClick={() => handleDownload(path)} className="inline-flex items-center text-blue-600 hover:text-blue-800">
+                    <Download className="h-4 w-4 mr-1" /> Open
+                  </button>
+                  {canEdit && (
+                    <button onClick={() => handleRemove(path)} className="inline-flex items-center text-red-600 hover:text-red-800">
+                      <Trash2 className="h-4 w-4 mr-1" /> Remove
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
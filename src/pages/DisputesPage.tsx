@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import { DisputeWithDetails, listDisputesWithDetails } from '../repositories/disputes';
+import {
+  daysUntilEvidenceDue,
+  disputeStatusLabels,
+  disputeStatusStyles,
+  formatDisputeReason,
+  isDisputeOpen,
+} from '../utils/disputes';
+
+type DisputeFilter = 'open' | 'closed' | 'all';
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// Deadlines this close are flagged in red
+const URGENT_DAYS = 3;
+
+function DeadlineCell({ dispute }: { dispute: DisputeWithDetails }) {
+  const daysLeft = daysUntilEvidenceDue(dispute);
+  if (!dispute.evidence_due_by || daysLeft === null) return <span className="text-gray-400">No deadline</span>;
+  const open = isDisputeOpen(dispute.status);
+  return (
+    <span className={open && daysLeft <= URGENT_DAYS ? 'text-red-600' : 'text-gray-900'}>
+      {format(parseISO(dispute.evidence_due_by), 'MMM d, yyyy')}
+      {open && (
+        <span className="block text-xs">
+          {daysLeft < 0 ? `${-daysLeft} days overdue` : daysLeft === 0 ? 'Due today' : `${daysLeft} days left`}
+        </span>
+      )}
+    </span>
+  );
+}
+
+export default function DisputesPage() {
+  const [disputes, setDisputes] = useState<DisputeWithDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<DisputeFilter>('open');
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchDisputes = async () => {
+      try {
+        setLoading(true);
+        setDisputes(await listDisputesWithDetails());
+      } catch (error) {
+        console.error('Error fetching disputes:', error);
+        toast.error('Failed to load disputes');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDisputes();
+  }, []);
+
+  const openDisputes = disputes.filter(dispute => isDisputeOpen(dispute.status));
+  const shown = filter === 'all'
+    ? disputes
+    : disputes.filter(dispute => isDisputeOpen(dispute.status) === (filter === 'open'));
+  const atStake = openDisputes.reduce((sum, dispute) => sum + dispute.amount, 0);
+  const urgent = openDisputes.filter(dispute => {
+    const daysLeft = daysUntilEvidenceDue(dispute);
+    return daysLeft !== null && daysLeft <= URGENT_DAYS;
+  }).length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <ShieldAlert className="h-8 w-8 text-blue-600 mr-3" />
+          Disputes
+        </h1>
+        <p className="mt-2 text-gray-500">
+          {openDisputes.length} open dispute{openDisputes.length === 1 ? '' : 's'}, {formatCents(atStake)} at stake
+          {urgent > 0 && <span className="text-red-600">, {urgent} with evidence due within {URGENT_DAYS} days</span>}.
+          Vendor shares of disputed bookings are held from payout statements.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">Disputes ({shown.length})</h2>
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as DisputeFilter)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="open">Open</option>
+            <option value="closed">Closed</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+        {shown.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">No {filter === 'all' ? '' : `${filter} `}disputes.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Evidence Due</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Booking</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {shown.map(dispute => (
+                  <tr
+                    key={dispute.id}
+                    className="hover:bg-gray-50 cursor-pointer transition-colors"
+                    onClick={() => navigate(`/dashboard/disputes/${dispute.id}`)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm"><DeadlineCell dispute={dispute} /></td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${disputeStatusStyles[dispute.status]}`}>
+                        {disputeStatusLabels[dispute.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{formatCents(dispute.amount)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatDisputeReason(dispute.reason)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm" onClick={(e) => e.stopPropagation()}>
+                      {dispute.bookings ? (
+                        <Link to={`/dashboard/booking/${dispute.bookings.id}`} className="text-blue-600 hover:text-blue-800">
+                          {dispute.bookings.couples?.name || 'Unknown couple'}
+                          <span className="block text-xs text-gray-500">{dispute.bookings.service_type}</span>
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm" onClick={(e) => e.stopPropagation()}>
+                      {dispute.vendors ? (
+                        <Link to={`/dashboard/vendor/${dispute.vendors.id}`} className="text-blue-600 hover:text-blue-800">
+                          {dispute.vendors.name}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm" onClick={(e) => e.stopPropagation()}>
+                      <Link to={`/dashboard/payment/${dispute.payment_id}`} className="text-blue-600 hover:text-blue-800">
+                        {dispute.payment_id.slice(0, 8)}
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState, useEffect } from 'react';
+import { BellRing, Plus, Save, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
+import { DunningStep, listDunningSteps, saveDunningStep, deleteDunningStep } from '../repositories/dunning';
+import { DUNNING_PLACEHOLDERS, formatOffset, renderDunningTemplate } from '../utils/dunning';
+
+type StepDraft = Pick<DunningStep, 'name' | 'offset_days' | 'subject' | 'body' | 'is_active'> & {
+  id?: string;
+  // Local key so unsaved steps can be told apart
+  key: string;
+};
+
+const toDraft = (step: DunningStep): StepDraft => ({
+  id: step.id,
+  key: step.id,
+  name: step.name,
+  offset_days: step.offset_days,
+  subject: step.subject,
+  body: step.body,
+  is_active: step.is_active,
+});
+
+const exampleValues = Object.fromEntries(DUNNING_PLACEHOLDERS.map(placeholder => [placeholder.key, placeholder.example]));
+
+export default function DunningTemplatesPage() {
+  const [drafts, setDrafts] = useState<StepDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+  const canEdit = usePermission('payments.write');
+
+  useEffect(() => {
+    const fetchSteps = async () => {
+      try {
+        setLoading(true);
+        setDrafts((await listDunningSteps()).map(toDraft));
+      } catch (error) {
+        console.error('Error fetching dunning steps:', error);
+        toast.error('Failed to load reminder schedule');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSteps();
+  }, []);
+
+  const updateDraft = (key: string, changes: Partial<StepDraft>) => {
+    setDrafts(prev => prev.map(draft => (draft.key === key ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleAdd = () => {
+    const lastOffset = drafts.reduce((max, draft) => Math.max(max, draft.offset_days), 0);
+    setDrafts(prev => [...prev, {
+      key: `new-${Date.now()}`,
+      name: 'New reminder',
+      offset_days: lastOffset + 7,
+      subject: 'Invoice {{invoice_number}} is {{days_past_due}} days past due',
+      body: 'Hi {{recipient_name}},\n\n{{amount_due}} on invoice {{invoice_number}} is still outstanding.\n\nPay here: {{payment_link}}',
+      is_active: true,
+    }]);
+  };
+
+  const handleSave = async (draft: StepDraft) => {
+    if (!draft.name.trim() || !draft.subject.trim() || !draft.body.trim()) {
+      toast.error('Name, subject and body are required');
+      return;
+    }
+    if (drafts.some(other => other.key !== draft.key && other.offset_days === draft.offset_days)) {
+      toast.error('Another step already runs on that day');
+      return;
+    }
+    try {
+      setSavingKey(draft.key);
+      const saved = await saveDunningStep({
+        id: draft.id,
+        name: draft.name.trim(),
+        offset_days: draft.offset_days,
+        subject: draft.subject.trim(),
+        body: draft.body.trim(),
+        is_active: draft.is_active,
+      });
+      setDrafts(prev => prev
+        .map(other => (other.key === draft.key ? toDraft(saved) : other))
+        .sort((a, b) => a.offset_days - b.offset_days));
+      toast.success(`${saved.name} saved`);
+    } catch (error) {
+      console.error('Error saving dunning step:', error);
+      toast.error('Failed to save reminder step');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleDelete = async (draft: StepDraft) => {
+    if (!draft.id) {
+      setDrafts(prev => prev.filter(other => other.key !== draft.key));
+      return;
+    }
+    if (!window.confirm(`Delete the "${draft.name}" reminder? Reminders already sent stay in each invoice's history.`)) return;
+    try {
+      setSavingKey(draft.key);
+      await deleteDunningStep(draft.id);
+      setDrafts(prev => prev.filter(other => other.key !== draft.key));
+      toast.success(`${draft.name} deleted`);
+    } catch (error) {
+      console.error('Error deleting dunning step:', error);
+      toast.error('Failed to delete reminder step');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <BellRing className="h-8 w-8 text-blue-600 mr-3" />
+            Payment Reminders
+          </h1>
+          <p className="mt-2 text-gray-500">
+            Emails sent automatically to open invoices with a due date. Each invoice gets the latest step that is due, once.
+          </p>
+        </div>
+        {canEdit && (
+          <button
+            onClick={handleAdd}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Step
+          </button>
+        )}
+      </div>
+
+      <div className="bg-blue-50 border border-blue-100 rounded-lg p-4 text-sm text-blue-900">
+        Templates can use{' '}
+        {DUNNING_PLACEHOLDERS.map((placeholder, index) => (
+          <span key={placeholder.key}>
+            <code className="bg-white px-1 rounded">{`{{${placeholder.key}}}`}</code>
+            {index < DUNNING_PLACEHOLDERS.length - 1 ? ', ' : '.'}
+          </span>
+        ))}
+      </div>
+
+      {drafts.length === 0 && (
+        <div className="text-center py-12 bg-white rounded-xl shadow-sm border border-gray-100">
+          <p className="text-gray-500">No reminder steps. Invoices will not be chased automatically.</p>
+        </div>
+      )}
+
+      {drafts.map(draft => (
+        <div key={draft.key} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft(draft.key, { name: e.target.value })}
+                disabled={!canEdit}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Days from due date</label>
+              <input
+                type="number"
+                value={draft.offset_days}
+                onChange={(e) => updateDraft(draft.key, { offset_days: parseInt(e.target.value, 10) || 0 })}
+                disabled={!canEdit}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">{formatOffset(draft.offset_days)}</p>
+            </div>
+            <div className="flex items-center">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.is_active}
+                  onChange={(e) => updateDraft(draft.key, { is_active: e.target.checked })}
+                  disabled={!canEdit}
+                  className="mr-2"
+                />
+                Active
+              </label>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+            <input
+              type="text"
+              value={draft.subject}
+              onChange={(e) => updateDraft(draft.key, { subject: e.target.value })}
+              disabled={!canEdit}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Body</label>
+            <textarea
+              value={draft.body}
+              onChange={(e) => updateDraft(draft.key, { body: e.target.value })}
+              disabled={!canEdit}
+              rows={6}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+            />
+          </div>
+          {previewKey === draft.key && (
+            <div className="bg-gray-50 rounded-lg p-4 text-sm">
+              <p className="font-medium text-gray-900 mb-2">{renderDunningTemplate(draft.subject, exampleValues)}</p>
+              <p className="text-gray-700 whitespace-pre-line">{renderDunningTemplate(draft.body, exampleValues)}</p>
+            </div>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setPreviewKey(previewKey === draft.key ? null : draft.key)}
+              className="px-3 py-1 border border-blue-600 text-blue-600 bg-white rounded-lg hover:bg-blue-50 text-sm"
+            >
+              {previewKey === draft.key ? 'Hide Preview' : 'Preview'}
+            </button>
+            {canEdit && (
+              <>
+                <button
+                  onClick={() => handleDelete(draft)}
+                  disabled={savingKey === draft.key}
+                  className="inline-flex items-center px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm disabled:opacity-50"
+                >
+                  <Trash2 className="h-4 w-4 mr-1" /> Delete
+                </button>
+                <button
+                  onClick={() => handleSave(draft)}
+                  disabled={savingKey === draft.key}
+                  className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4 mr-1" /> Save
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
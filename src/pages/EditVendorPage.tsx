@@ -2,7 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Edit, Phone, User, Save, Plus, MessageSquare, Star, Camera } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { createVendorReview, getVendorProfile, updateVendor } from '../repositories/vendors';
 import toast from 'react-hot-toast';
 import { Vendor, VendorService, VendorReview } from '../types/types';
 
@@ -41,27 +41,7 @@ export default function EditVendorPage() {
       if (!id) {
         throw new Error('Vendor ID is undefined');
       }
-      const { data, error } = await supabase
-        .from('vendors')
-        .select(`
-          *,
-          vendor_services (
-            id, vendor_id, service_type, is_active, package_status, created_at, updated_at
-          ),
-          vendor_reviews (
-            id, vendor_id, couple_id, rating, review_text, vendor_response, created_at, updated_at
-          ),
-          vendor_service_packages (
-            id, vendor_id, service_package_id, service_type, status, created_at, updated_at,
-            service_packages (
-              id, service_type, name, description, price, features, coverage, hour_amount, event_type, status, created_at, updated_at
-            )
-          )
-        `)
-        .eq('id', id)
-        .single();
-
-      if (error) throw error;
+      const data = await getVendorProfile(id);
       setVendor(data);
       setFormData({
         name: data.name || '',
@@ -103,36 +83,8 @@ export default function EditVendorPage() {
         stripe_account_id: formData.stripe_account_id.trim() || null
       };
 
-      const { data, error } = await supabase
-        .from('vendors')
-        .update(updateData)
-        .eq('id', vendor.id)
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      const { data: updatedVendorData, error: fetchError } = await supabase
-        .from('vendors')
-        .select(`
-          *,
-          vendor_services (
-            id, vendor_id, service_type, is_active, package_status, created_at, updated_at
-          ),
-          vendor_reviews (
-            id, vendor_id, couple_id, rating, review_text, vendor_response, created_at, updated_at
-          ),
-          vendor_service_packages (
-            id, vendor_id, service_package_id, service_type, status, created_at, updated_at,
-            service_packages (
-              id, service_type, name, description, price, features, coverage, hour_amount, event_type, status, created_at, updated_at
-            )
-          )
-        `)
-        .eq('id', vendor.id)
-        .single();
-
-      if (fetchError) throw fetchError;
+      await updateVendor(vendor.id, updateData);
+      const updatedVendorData = await getVendorProfile(vendor.id);
 
       setVendor(updatedVendorData);
       toast.success('Vendor profile updated successfully!');
@@ -150,18 +102,12 @@ export default function EditVendorPage() {
 
     setAddingReview(true);
     try {
-      const { data, error } = await supabase
-        .from('vendor_reviews')
-        .insert({
-          vendor_id: vendor.id,
-          couple_id: newReview.couple_id,
-          rating: newReview.rating,
-          review_text: newReview.review_text.trim()
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await createVendorReview({
+        vendor_id: vendor.id,
+        couple_id: newReview.couple_id,
+        rating: newReview.rating,
+        review_text: newReview.review_text.trim()
+      });
 
       setVendor(prev => prev ? ({
         ...prev,
@@ -199,7 +145,7 @@ export default function EditVendorPage() {
     );
   };
 
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: string | null) => {
     switch (status) {
       case 'approved': return <Check className="h-4 w-4 text-green-600" />;
       case 'pending': return <Clock className="h-4 w-4 text-yellow-600" />;
@@ -208,7 +154,7 @@ export default function EditVendorPage() {
     }
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: string | null) => {
     switch (status) {
       case 'approved': return 'bg-green-100 text-green-800 border-green-200';
       case 'pending': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
@@ -243,7 +189,7 @@ export default function EditVendorPage() {
   const servicePackages = vendor.vendor_service_packages || [];
   const reviews = vendor.vendor_reviews || [];
   const averageRating = reviews.length > 0
-    ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
+    ? reviews.reduce((sum, review) => sum + (review.rating || 0), 0) / reviews.length
     : null;
 
   return (
@@ -728,7 +674,7 @@ export default function EditVendorPage() {
                 <div key={review.id} className="bg-gray-50 border border-gray-200 rounded-lg p-6">
                   <div className="flex items-start justify-between mb-3">
                     <div className="flex items-center space-x-3">
-                      {renderStars(review.rating)}
+                      {renderStars(review.rating || 0)}
                       <span className="text-sm font-medium text-gray-900">{review.rating}/5.0</span>
                     </div>
                     <span className="text-sm text-gray-500">
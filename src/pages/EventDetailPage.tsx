@@ -1,19 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Calendar, Edit, Save, X, Clock } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { getEventWithParties, updateEvent } from '../repositories/events';
 import toast from 'react-hot-toast';
 
 interface Event {
   id: string;
-  couple_id: string;
+  couple_id: string | null;
   couple_name: string | null;
   vendor_id: string;
   vendor_name: string | null;
   start_time: string;
   end_time: string;
   type: string;
-  title: string;
+  title: string | null;
   created_at: string;
 }
 
@@ -44,40 +44,12 @@ export default function EventDetailPage() {
       setLoading(true);
       if (!id) throw new Error('Event ID is undefined');
 
-      const { data: eventData, error: eventError } = await supabase
-        .from('events')
-        .select('id, couple_id, vendor_id, start_time, end_time, type, title, created_at')
-        .eq('id', id)
-        .single();
-
-      if (eventError) throw eventError;
-
-      // Lookup couple name
-      let coupleName = null;
-      if (eventData.couple_id) {
-        const { data: coupleData } = await supabase
-          .from('couples')
-          .select('name')
-          .eq('id', eventData.couple_id)
-          .single();
-        coupleName = coupleData?.name || 'Unknown';
-      }
-
-      // Lookup vendor name
-      let vendorName = null;
-      if (eventData.vendor_id) {
-        const { data: vendorData } = await supabase
-          .from('vendors')
-          .select('name')
-          .eq('id', eventData.vendor_id)
-          .single();
-        vendorName = vendorData?.name || 'Unknown';
-      }
+      const eventData = await getEventWithParties(id);
 
       const newEvent = {
         ...eventData,
-        couple_name: coupleName,
-        vendor_name: vendorName
+        couple_name: eventData.couple_id ? eventData.couples?.name || 'Unknown' : null,
+        vendor_name: eventData.vendors?.name || 'Unknown'
       };
 
       setEvent(newEvent);
@@ -102,12 +74,7 @@ export default function EventDetailPage() {
     setLoading(true);
     try {
       const updateData = { [field]: formData[field] };
-      const { error } = await supabase
-        .from('events')
-        .update(updateData)
-        .eq('id', event.id);
-
-      if (error) throw error;
+      await updateEvent(event.id, updateData);
 
       setEvent(prev => prev ? { ...prev, ...updateData } : null);
       setEditMode(prev => ({ ...prev, [field]: false }));
@@ -31,6 +31,7 @@ export default function FAQDetailsPage() {
 
   useEffect(() => {
     const fetchData = async () => {
+      if (!id) return;
       try {
         setLoading(true);
         const [faqResponse, logsResponse] = await Promise.all([
@@ -37,7 +37,7 @@ export default function ForumPage() {
           .order('created_at', { ascending: false });
         if (error) throw error;
 
-        const vendorIds = data.filter(post => post.vendor_id).map(post => post.vendor_id);
+        const vendorIds = data.map(post => post.vendor_id).filter((id): id is string => !!id);
         let vendorNames: { [key: string]: string } = {};
         if (vendorIds.length > 0) {
           const { data: vendors, error: vendorError } = await supabase
@@ -77,7 +77,7 @@ export default function ForumPage() {
         .order('created_at', { ascending: false });
       if (error) throw error;
 
-      const vendorIds = data.filter(post => post.vendor_id).map(post => post.vendor_id);
+      const vendorIds = data.map(post => post.vendor_id).filter((id): id is string => !!id);
       let vendorNames: { [key: string]: string } = {};
       if (vendorIds.length > 0) {
         const { data: vendors, error: vendorError } = await supabase
@@ -0,0 +1,261 @@
+import { useState, useEffect } from 'react';
+import { Camera, Plus, Save, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
+import { listGearCatalog, saveGearCatalogEntry, deleteGearCatalogEntry } from '../repositories/gearCatalog';
+import { GearCatalogEntry, GearRating, gearRatingLabels } from '../utils/gearEligibility';
+
+type EntryDraft = {
+  id?: string;
+  // Local key so unsaved entries can be told apart
+  key: string;
+  service_type: string;
+  gear_type: string;
+  brand: string;
+  model: string;
+  rating: GearRating;
+  notes: string;
+};
+
+const toDraft = (entry: GearCatalogEntry): EntryDraft => ({
+  id: entry.id,
+  key: entry.id,
+  service_type: entry.service_type,
+  gear_type: entry.gear_type,
+  brand: entry.brand,
+  model: entry.model,
+  rating: entry.rating as GearRating,
+  notes: entry.notes ?? '',
+});
+
+const sameModel = (a: EntryDraft, b: EntryDraft) =>
+  a.service_type === b.service_type &&
+  a.brand.trim().toLowerCase() === b.brand.trim().toLowerCase() &&
+  a.model.trim().toLowerCase() === b.model.trim().toLowerCase();
+
+export default function GearCatalogPage() {
+  const [drafts, setDrafts] = useState<EntryDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [serviceFilter, setServiceFilter] = useState('');
+  const canEdit = usePermission('vendors.write');
+
+  useEffect(() => {
+    const fetchCatalog = async () => {
+      try {
+        setLoading(true);
+        setDrafts((await listGearCatalog()).map(toDraft));
+      } catch (error) {
+        console.error('Error fetching gear catalog:', error);
+        toast.error('Failed to load gear catalog');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCatalog();
+  }, []);
+
+  const serviceTypes = [...new Set(drafts.map(draft => draft.service_type).filter(Boolean))].sort();
+  const visibleDrafts = drafts.filter(draft => !serviceFilter || draft.service_type === serviceFilter || !draft.id);
+
+  const updateDraft = (key: string, changes: Partial<EntryDraft>) => {
+    setDrafts(prev => prev.map(draft => (draft.key === key ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleAdd = () => {
+    setDrafts(prev => [
+      { key: `new-${Date.now()}`, service_type: serviceFilter, gear_type: '', brand: '', model: '', rating: 'approved', notes: '' },
+      ...prev,
+    ]);
+  };
+
+  const handleSave = async (draft: EntryDraft) => {
+    if (!draft.service_type.trim() || !draft.gear_type.trim() || !draft.brand.trim() || !draft.model.trim()) {
+      toast.error('Service type, gear type, brand and model are required');
+      return;
+    }
+    if (drafts.some(other => other.key !== draft.key && sameModel(other, draft))) {
+      toast.error(`${draft.brand} ${draft.model} is already listed for ${draft.service_type}`);
+      return;
+    }
+    try {
+      setSavingKey(draft.key);
+      const saved = await saveGearCatalogEntry({
+        id: draft.id,
+        service_type: draft.service_type.trim(),
+        gear_type: draft.gear_type.trim(),
+        brand: draft.brand.trim(),
+        model: draft.model.trim(),
+        rating: draft.rating,
+        notes: draft.notes.trim() || null,
+      });
+      setDrafts(prev => prev.map(other => (other.key === draft.key ? toDraft(saved) : other)));
+      toast.success('Catalog entry saved; vendor gear has been re-rated');
+    } catch (error) {
+      console.error('Error saving gear catalog entry:', error);
+      toast.error('Failed to save catalog entry');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleDelete = async (draft: EntryDraft) => {
+    if (!draft.id) {
+      setDrafts(prev => prev.filter(other => other.key !== draft.key));
+      return;
+    }
+    if (!window.confirm(`Remove ${draft.brand} ${draft.model} from the ${draft.service_type} catalog? Gear of this model will need rating by hand.`)) return;
+    try {
+      setSavingKey(draft.key);
+      await deleteGearCatalogEntry(draft.id);
+      setDrafts(prev => prev.filter(other => other.key !== draft.key));
+      toast.success('Catalog entry removed');
+    } catch (error) {
+      console.error('Error deleting gear catalog entry:', error);
+      toast.error('Failed to remove catalog entry');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <Camera className="h-8 w-8 text-blue-600 mr-3" />
+            Gear Catalog
+          </h1>
+          <p className="mt-2 text-gray-500">
+            Which gear models are good enough for each service. Vendor and applicant gear is rated against this list;
+            models that are not listed are borderline until rated by hand.
+          </p>
+        </div>
+        {canEdit && (
+          <button
+            onClick={handleAdd}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Model
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <label htmlFor="catalog-service-filter" className="block text-sm font-medium text-gray-700 mb-2">
+          Filter by Service Type
+        </label>
+        <select
+          id="catalog-service-filter"
+          value={serviceFilter}
+          onChange={(e) => setServiceFilter(e.target.value)}
+          className="w-full md:w-1/3 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All Service Types</option>
+          {serviceTypes.map(service => (
+            <option key={service} value={service}>{service}</option>
+          ))}
+        </select>
+      </div>
+
+      {visibleDrafts.length === 0 && (
+        <div className="text-center py-12 bg-white rounded-xl shadow-sm border border-gray-100">
+          <p className="text-gray-500">No models listed. All submitted gear will need rating by hand.</p>
+        </div>
+      )}
+
+      {visibleDrafts.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Service Type</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Gear Type</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Brand</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Model</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rating</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleDrafts.map(draft => (
+                <tr key={draft.key}>
+                  {(['service_type', 'gear_type', 'brand', 'model'] as const).map(field => (
+                    <td key={field} className="px-4 py-3">
+                      <input
+                        type="text"
+                        value={draft[field]}
+                        onChange={(e) => updateDraft(draft.key, { [field]: e.target.value })}
+                        disabled={!canEdit}
+                        list={field === 'service_type' ? 'catalog-service-types' : undefined}
+                        className="w-36 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </td>
+                  ))}
+                  <td className="px-4 py-3">
+                    <select
+                      value={draft.rating}
+                      onChange={(e) => updateDraft(draft.key, { rating: e.target.value as GearRating })}
+                      disabled={!canEdit}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {(Object.keys(gearRatingLabels) as GearRating[]).map(rating => (
+                        <option key={rating} value={rating}>{gearRatingLabels[rating]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="text"
+                      value={draft.notes}
+                      onChange={(e) => updateDraft(draft.key, { notes: e.target.value })}
+                      disabled={!canEdit}
+                      placeholder="Shown with the rating"
+                      className="w-56 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                    {canEdit && (
+                      <>
+                        <button
+                          onClick={() => handleDelete(draft)}
+                          disabled={savingKey === draft.key}
+                          className="inline-flex items-center px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm disabled:opacity-50"
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" /> Delete
+                        </button>
+                        <button
+                          onClick={() => handleSave(draft)}
+                          disabled={savingKey === draft.key}
+                          className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+                        >
+                          <Save className="h-4 w-4 mr-1" /> Save
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <datalist id="catalog-service-types">
+            {serviceTypes.map(service => (
+              <option key={service} value={service} />
+            ))}
+          </datalist>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { FileText, Download, ArrowLeft } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import toast from 'react-hot-toast';
+import { ImportStatusBadge } from '../components/ImportStatusBadge';
+import { ImportHistoryEntry, downloadFailedRows, getImportTypeLabel } from '../utils/importHistory';
+
+export default function ImportHistoryDetailsPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [entry, setEntry] = useState<ImportHistoryEntry | null>(null);
+  const [adminEmail, setAdminEmail] = useState<string>('Unknown admin');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchEntry = async () => {
+      if (!id) return;
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from('import_history')
+          .select('*')
+          .eq('id', id)
+          .single();
+        if (error) throw error;
+        setEntry(data as ImportHistoryEntry);
+
+        // Fetch admin email
+        const { data: userData } = await supabase
+          .from('users')
+          .select('email')
+          .eq('id', data.user_id)
+          .maybeSingle();
+        if (userData?.email) setAdminEmail(userData.email);
+      } catch (error) {
+        console.error('Error fetching import:', error);
+        toast.error('Failed to load import details');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntry();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!entry) {
+    return (
+      <div className="text-center py-12">
+        <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Import not found</h3>
+        <p className="text-gray-500">The requested import could not be loaded.</p>
+      </div>
+    );
+  }
+
+  const errorDetails = entry.error_details || [];
+  const columns = errorDetails.length > 0 ? Object.keys(errorDetails[0].data || {}) : [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <FileText className="h-8 w-8 text-blue-600 mr-3" />
+            Import Details
+          </h1>
+          <p className="mt-2 text-gray-500">{entry.filename}</p>
+        </div>
+        <button
+          onClick={() => navigate('/dashboard/logs')}
+          className="inline-flex items-center px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Type</label>
+            <p className="mt-1 text-sm text-gray-900">{getImportTypeLabel(entry.type)}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Admin</label>
+            <p className="mt-1 text-sm text-gray-900">{adminEmail}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Timestamp</label>
+            <p className="mt-1 text-sm text-gray-900">{new Date(entry.timestamp).toLocaleString()}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Status</label>
+            <p className="mt-1 text-sm text-gray-900"><ImportStatusBadge status={entry.status} /></p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Rows Added</label>
+            <p className="mt-1 text-sm text-gray-900">{entry.rows_added}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Errors</label>
+            <p className="mt-1 text-sm text-gray-900">{entry.errors}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">Failed Rows ({errorDetails.length})</h2>
+          <button
+            onClick={() => downloadFailedRows(entry)}
+            disabled={errorDetails.length === 0}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download Failed Rows
+          </button>
+        </div>
+        {errorDetails.length === 0 ? (
+          <div className="text-center py-12">
+            <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No failed rows</h3>
+            <p className="text-gray-500">Every row in this import was added successfully.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Error</th>
+                  {columns.map(column => (
+                    <th key={column} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{column}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {errorDetails.map((detail, index) => (
+                  <tr key={index}>
+                    <td className="px-6 py-4 whitespace-nowrap">{detail.row}</td>
+                    <td className="px-6 py-4 text-red-600">{detail.error}</td>
+                    {columns.map(column => (
+                      <td key={column} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{detail.data?.[column] || '-'}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
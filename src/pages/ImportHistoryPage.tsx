@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FileText, CheckCircle, XCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import toast from 'react-hot-toast';
+import { ImportStatusBadge } from '../components/ImportStatusBadge';
+import { ImportHistoryEntry, importTypeLabels, getImportTypeLabel } from '../utils/importHistory';
+
+interface ImportHistoryRow extends ImportHistoryEntry {
+  admin_email: string;
+}
+
+export default function ImportHistoryPage() {
+  const [imports, setImports] = useState<ImportHistoryRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterType, setFilterType] = useState<string>('all');
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchImports = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from('import_history')
+          .select('*')
+          .order('timestamp', { ascending: false });
+        if (error) throw error;
+
+        // Fetch admin emails
+        const userIds = [...new Set((data || []).map(entry => entry.user_id))];
+        let adminEmails: { [key: string]: string } = {};
+        if (userIds.length > 0) {
+          const { data: users, error: usersError } = await supabase
+            .from('users')
+            .select('id, email')
+            .in('id', userIds);
+          if (usersError) throw usersError;
+          adminEmails = users.reduce((acc, user) => {
+            acc[user.id] = user.email;
+            return acc;
+          }, {} as { [key: string]: string });
+        }
+
+        setImports((data || []).map(entry => ({
+          ...(entry as ImportHistoryEntry),
+          admin_email: adminEmails[entry.user_id] || 'Unknown admin',
+        })));
+      } catch (error) {
+        console.error('Error fetching import history:', error);
+        toast.error('Failed to load import history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchImports();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <FileText className="h-8 w-8 text-blue-600 mr-3" />
+            Import History
+          </h1>
+        </div>
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const filteredImports = filterType === 'all'
+    ? imports
+    : imports.filter(entry => entry.type === filterType);
+
+  const totalRowsAdded = imports.reduce((sum, entry) => sum + (entry.rows_added || 0), 0);
+  const totalErrors = imports.reduce((sum, entry) => sum + (entry.errors || 0), 0);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <FileText className="h-8 w-8 text-blue-600 mr-3" />
+          Import History
+        </h1>
+        <p className="mt-2 text-gray-500">Every CSV import run from the dashboard.</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="grid grid-cols-3 gap-4">
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <h2 className="text-lg font-medium text-gray-700 flex items-center">
+              <FileText className="h-5 w-5 text-blue-600 mr-2" />
+              Imports: {imports.length}
+            </h2>
+          </div>
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <h2 className="text-lg font-medium text-gray-700 flex items-center">
+              <CheckCircle className="h-5 w-5 text-green-600 mr-2" />
+              Rows Added: {totalRowsAdded}
+            </h2>
+          </div>
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <h2 className="text-lg font-medium text-gray-700 flex items-center">
+              <XCircle className="h-5 w-5 text-red-600 mr-2" />
+              Failed Rows: {totalErrors}
+            </h2>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">Imports ({filteredImports.length})</h2>
+          <select
+            value={filterType}
+            onChange={(e) => setFilterType(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All Types</option>
+            {Object.entries(importTypeLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        {filteredImports.length === 0 ? (
+          <div className="text-center py-12">
+            <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No imports found</h3>
+            <p className="text-gray-500">CSV imports will appear here once they have been run.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Filename</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Admin</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Timestamp</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rows Added</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Errors</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredImports.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-gray-50 cursor-pointer" onClick={() => navigate(`/dashboard/logs/${entry.id}`)}>
+                    <td className="px-6 py-4 whitespace-nowrap">{getImportTypeLabel(entry.type)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">{entry.filename}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">{entry.admin_email}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">{entry.rows_added}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">{entry.errors}</td>
+                    <td className="px-6 py-4 whitespace-nowrap"><ImportStatusBadge status={entry.status} /></td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); navigate(`/dashboard/logs/${entry.id}`); }}
+                        className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                      >
+                        View Details
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
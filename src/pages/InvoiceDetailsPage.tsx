@@ -1,10 +1,33 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
+import {
+  deleteInvoiceLineItem,
+  getInvoiceEditorInputs,
+  getInvoicePdfInputs,
+  saveInvoiceLineItems,
+  sendInvoiceEmail,
+  updateInvoice,
+} from '../repositories/invoices';
+import { createPayments } from '../repositories/payments';
+import { Refund, listRefundsForPayments } from '../repositories/refunds';
 import { loadStripe } from '@stripe/stripe-js';
-import { Calendar, Save, Plus, Trash2, Copy, Mail } from 'lucide-react';
+import { Calendar, Save, Plus, Trash2, Copy, Mail, FileDown, ReceiptText, Ban } from 'lucide-react';
 import toast from 'react-hot-toast';
 import TakePaymentModal from '../components/TakePaymentModal';
+import { usePermission } from '../hooks/usePermission';
+import { InvoiceDiscount, bookingLinePrice, isTaxableByDefault, priceInvoice } from '../utils/invoicePricing';
+import { TaxRate, listTaxRates } from '../repositories/salesTax';
+import InvoiceTaxFields from '../components/InvoiceTaxFields';
+import InstallmentSchedule from '../components/InstallmentSchedule';
+import { Installment, listInstallmentsForInvoice } from '../repositories/installments';
+import { buildInvoiceDocuments, downloadInvoicePdf, invoiceFileName, invoicePdfBase64 } from '../utils/invoicePdf';
+import { InvoiceReminder, listInvoiceReminders } from '../repositories/dunning';
+import { daysPastDue, isInvoiceOverdue } from '../utils/dunning';
+import { CreditNote, listCreditNotesForInvoice } from '../repositories/creditNotes';
+import { isInvoiceEditable } from '../utils/creditNotes';
+import CreditNoteModal from '../components/CreditNoteModal';
+import CreditNoteHistory from '../components/CreditNoteHistory';
+import VoidInvoiceModal from '../components/VoidInvoiceModal';
 
 const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY);
 if (!import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY) {
@@ -13,10 +36,10 @@ if (!import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY) {
 
 interface Couple {
   id: string;
-  partner1_name: string;
-  partner2_name: string;
-  email: string;
-  phone: string;
+  partner1_name: string | null;
+  partner2_name: string | null;
+  email: string | null;
+  phone: string | null;
 }
 
 interface Vendor {
@@ -24,8 +47,8 @@ interface Vendor {
   name: string;
   user_id: string;
   email: string;
-  phone: string;
-  stripe_account_id?: string;
+  phone: string | null;
+  stripe_account_id: string | null;
 }
 
 interface ServicePackage {
@@ -42,7 +65,7 @@ interface StoreProduct {
 
 interface Event {
   id: string;
-  title: string;
+  title: string | null;
   start_time: string;
 }
 
@@ -50,11 +73,11 @@ interface Booking {
   id: string;
   couple_id: string;
   vendor_id: string;
-  package_id: string;
+  package_id: string | null;
   amount: number;
-  initial_payment: number;
+  initial_payment: number | null;
   service_type: string;
-  event_id: string;
+  event_id: string | null;
 }
 
 interface VendorServicePackage {
@@ -72,6 +95,7 @@ interface InvoiceLineItem {
   custom_description?: string;
   custom_price: number;
   quantity: number;
+  taxable: boolean;
   vendor_id?: string;
   stripe_account_id?: string;
   service_package_name?: string;
@@ -82,44 +106,64 @@ interface InvoiceLineItem {
 
 interface Payment {
   id: string;
-  invoice_id?: string;
-  booking_id?: string;
+  invoice_id?: string | null;
+  booking_id?: string | null;
   amount: number;
   status: string;
-  stripe_payment_id?: string;
-  to_platform?: boolean;
+  stripe_payment_id?: string | null;
+  to_platform?: boolean | null;
   created_at: string;
-  payment_type?: string;
+  payment_type?: string | null;
 }
 
 interface Invoice {
   id: string;
   recipient_type: 'couple' | 'vendor';
-  couple_id?: string;
-  vendor_id?: string;
+  couple_id?: string | null;
+  vendor_id?: string | null;
   total_amount: number;
   remaining_balance: number;
   discount_amount: number;
   discount_percentage: number;
   deposit_amount: number;
+  tax_state?: string | null;
+  tax_rate: number;
+  tax_amount: number;
+  card_fee_percentage: number;
+  card_fee_amount: number;
   status: string;
-  paid_at?: string;
-  stripe_payment_intent_id?: string;
-  payment_token?: string;
+  due_date: string | null;
+  credited_amount: number;
+  voided_at?: string | null;
+  void_reason?: string | null;
+  paid_at?: string | null;
+  stripe_payment_intent_id?: string | null;
+  payment_token?: string | null;
   couple_name?: string;
   vendor_name?: string;
   invoice_line_items?: InvoiceLineItem[];
 }
 
+interface PaymentEntry {
+  amount: number;
+  status: string;
+  payment_type: string;
+  created_at: string;
+  installment_id: string | null;
+}
+
 const PaymentEntryModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
-  onSave: (payment: { amount: number; status: string; payment_type: string; created_at: string }) => void;
-}> = ({ isOpen, onClose, onSave }) => {
+  onSave: (payment: PaymentEntry) => void;
+  installments: Installment[];
+}> = ({ isOpen, onClose, onSave, installments }) => {
   const [amount, setAmount] = useState('');
   const [status, setStatus] = useState('succeeded');
   const [paymentType, setPaymentType] = useState('deposit');
   const [createdAt, setCreatedAt] = useState(new Date().toISOString().slice(0, 16));
+  const [installmentId, setInstallmentId] = useState('');
+  const openInstallments = installments.filter(installment => installment.status !== 'paid');
 
   const handleSubmit = () => {
     const parsedAmount = parseFloat(amount) * 100;
@@ -132,11 +176,13 @@ const PaymentEntryModal: React.FC<{
       status,
       payment_type: paymentType,
       created_at: createdAt,
+      installment_id: paymentType === 'deposit' ? null : installmentId || null,
     });
     setAmount('');
     setStatus('succeeded');
     setPaymentType('deposit');
     setCreatedAt(new Date().toISOString().slice(0, 16));
+    setInstallmentId('');
     onClose();
   };
 
@@ -181,6 +227,23 @@ const PaymentEntryModal: React.FC<{
               <option value="partial_payment">Partial Payment</option>
             </select>
           </div>
+          {paymentType !== 'deposit' && openInstallments.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Installment</label>
+              <select
+                value={installmentId}
+                onChange={(e) => setInstallmentId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Next due installment</option>
+                {openInstallments.map(installment => (
+                  <option key={installment.id} value={installment.id}>
+                    #{installment.sequence} due {installment.due_date} (${((installment.amount - installment.paid_amount) / 100).toFixed(2)} open)
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           <div>
             <label className="block text-sm font-medium text-gray-700">Created At</label>
             <input
@@ -213,6 +276,7 @@ const PaymentEntryModal: React.FC<{
 export default function InvoiceDetailsPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const canWritePayments = usePermission('payments.write');
   const [invoice, setInvoice] = useState<Invoice | null>(null);
   const [lineItems, setLineItems] = useState<InvoiceLineItem[]>([]);
   const [discountAmount, setDiscountAmount] = useState<number>(0);
@@ -226,9 +290,19 @@ export default function InvoiceDetailsPage() {
   const [events, setEvents] = useState<Event[]>([]);
   const [vendorServicePackages, setVendorServicePackages] = useState<VendorServicePackage[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [installments, setInstallments] = useState<Installment[]>([]);
+  const [reminders, setReminders] = useState<InvoiceReminder[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [isCreditNoteModalOpen, setIsCreditNoteModalOpen] = useState(false);
+  const [isVoidModalOpen, setIsVoidModalOpen] = useState(false);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [isPaymentEntryModalOpen, setIsPaymentEntryModalOpen] = useState(false);
   const [isDiscountPercentage, setIsDiscountPercentage] = useState(false);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [taxState, setTaxState] = useState('');
+  const [cardFeePercentage, setCardFeePercentage] = useState<number>(0);
+  const [dueDate, setDueDate] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [serverLineItems, setServerLineItems] = useState<InvoiceLineItem[]>([]);
 
@@ -244,80 +318,45 @@ export default function InvoiceDetailsPage() {
       setDiscountPercentage(invoice.discount_percentage || 0);
       setDepositPercentage((invoice.deposit_amount / (invoice.total_amount || 1)) * 100 || 0);
       setIsDiscountPercentage(invoice.discount_percentage > 0);
+      setTaxState(invoice.tax_state || '');
+      setCardFeePercentage(invoice.card_fee_percentage || 0);
+      setDueDate(invoice.due_date || '');
     }
   }, [invoice]);
 
   const fetchData = async () => {
+    if (!id) return;
     try {
       setIsLoading(true);
       console.log('[InvoiceDetailsPage] Fetching data for invoice:', id);
-      const [
-        invoiceResponse,
-        lineItemsResponse,
-        couplesResponse,
-        vendorsResponse,
-        usersResponse,
-        servicePackagesResponse,
-        storeProductsResponse,
-        bookingsResponse,
-        eventsResponse,
-        vendorServicePackagesResponse,
-        paymentsResponse
-      ] = await Promise.all([
-        supabase.from('invoices').select('id, recipient_type, couple_id, vendor_id, total_amount, remaining_balance, discount_amount, discount_percentage, deposit_amount, status, paid_at, payment_token, stripe_payment_intent_id').eq('id', id).single(),
-        supabase.from('invoice_line_items').select('id, invoice_id, type, service_package_id, store_product_id, booking_id, custom_description, custom_price, quantity, vendor_id, stripe_account_id').eq('invoice_id', id),
-        supabase.from('couples').select('id, partner1_name, partner2_name, email, phone'),
-        supabase.from('vendors').select('id, name, user_id, phone, stripe_account_id'),
-        supabase.from('users').select('id, email'),
-        supabase.from('service_packages').select('id, name, price'),
-        supabase.from('store_products').select('id, name, price'),
-        supabase.from('bookings').select('id, couple_id, vendor_id, package_id, amount, initial_payment, service_type, event_id'),
-        supabase.from('events').select('id, title, start_time'),
-        supabase.from('vendor_service_packages').select('vendor_id, service_package_id, service_type'),
-        supabase.from('payments').select('id, invoice_id, booking_id, amount, status, stripe_payment_id, to_platform, created_at, payment_type').or(`invoice_id.eq.${id},booking_id.in.(${lineItems.map(item => item.booking_id).filter(id => id).join(',')})`)
+      const [inputs, taxRatesData, installmentsData, remindersData, creditNotesData] = await Promise.all([
+        getInvoiceEditorInputs(id!),
+        listTaxRates(),
+        listInstallmentsForInvoice(id!),
+        listInvoiceReminders([id!]),
+        listCreditNotesForInvoice(id!)
       ]);
-
-      if (invoiceResponse.error) throw invoiceResponse.error;
-      if (lineItemsResponse.error) throw lineItemsResponse.error;
-      if (couplesResponse.error) throw couplesResponse.error;
-      if (vendorsResponse.error) throw vendorsResponse.error;
-      if (usersResponse.error) throw usersResponse.error;
-      if (servicePackagesResponse.error) throw servicePackagesResponse.error;
-      if (storeProductsResponse.error) throw storeProductsResponse.error;
-      if (bookingsResponse.error) throw bookingsResponse.error;
-      if (eventsResponse.error) throw eventsResponse.error;
-      if (vendorServicePackagesResponse.error) throw vendorServicePackagesResponse.error;
-      if (paymentsResponse.error) throw paymentsResponse.error;
+      const refundsData = await listRefundsForPayments(inputs.payments.map(payment => payment.id));
 
       console.log('[InvoiceDetailsPage] Data fetched:', {
-        invoice: invoiceResponse.data ? 1 : 0,
-        lineItems: lineItemsResponse.data.length,
-        couples: couplesResponse.data.length,
-        vendors: vendorsResponse.data.length,
-        servicePackages: servicePackagesResponse.data.length,
-        storeProducts: storeProductsResponse.data.length,
-        bookings: bookingsResponse.data.length,
-        events: eventsResponse.data.length,
-        vendorServicePackages: vendorServicePackagesResponse.data.length,
-        payments: paymentsResponse.data.length
-      });
-
-      // Combine vendor email
-      const vendorWithEmail = vendorsResponse.data.map((vendor: any) => {
-        const user = usersResponse.data.find((u: any) => u.id === vendor.user_id);
-        return {
-          ...vendor,
-          email: user ? user.email : '',
-        };
+        lineItems: inputs.lineItems.length,
+        couples: inputs.couples.length,
+        vendors: inputs.vendors.length,
+        servicePackages: inputs.servicePackages.length,
+        storeProducts: inputs.storeProducts.length,
+        bookings: inputs.bookings.length,
+        events: inputs.events.length,
+        vendorServicePackages: inputs.vendorServicePackages.length,
+        payments: inputs.payments.length
       });
 
       // Combine invoice line items with related data
-      const enrichedLineItems = lineItemsResponse.data.map((item: any) => {
-        const booking = item.booking_id ? bookingsResponse.data.find((b: any) => b.id === item.booking_id) : null;
-        const servicePackage = item.service_package_id ? servicePackagesResponse.data.find((sp: any) => sp.id === item.service_package_id) : null;
-        const storeProduct = item.store_product_id ? storeProductsResponse.data.find((sp: any) => sp.id === item.store_product_id) : null;
-        const vendor = item.vendor_id ? vendorWithEmail.find((v: any) => v.id === item.vendor_id) : null;
-        const event = booking && booking.event_id ? eventsResponse.data.find((e: any) => e.id === booking.event_id) : null;
+      const enrichedLineItems = inputs.lineItems.map((item: any) => {
+        const booking = item.booking_id ? inputs.bookings.find((b: any) => b.id === item.booking_id) : null;
+        const servicePackage = item.service_package_id ? inputs.servicePackages.find((sp: any) => sp.id === item.service_package_id) : null;
+        const storeProduct = item.store_product_id ? inputs.storeProducts.find((sp: any) => sp.id === item.store_product_id) : null;
+        const vendor = item.vendor_id ? inputs.vendors.find((v: any) => v.id === item.vendor_id) : null;
+        const event = booking && booking.event_id ? inputs.events.find((e: any) => e.id === booking.event_id) : null;
 
         return {
           ...item,
@@ -328,24 +367,29 @@ export default function InvoiceDetailsPage() {
         };
       });
 
-      const couple = invoiceResponse.data.couple_id ? couplesResponse.data.find((c: any) => c.id === invoiceResponse.data.couple_id) : null;
-      const vendor = invoiceResponse.data.vendor_id ? vendorWithEmail.find((v: any) => v.id === invoiceResponse.data.vendor_id) : null;
+      const couple = inputs.invoice.couple_id ? inputs.couples.find((c: any) => c.id === inputs.invoice.couple_id) : null;
+      const vendor = inputs.invoice.vendor_id ? inputs.vendors.find((v: any) => v.id === inputs.invoice.vendor_id) : null;
 
       setInvoice({
-        ...invoiceResponse.data,
+        ...inputs.invoice,
         couple_name: couple ? `${couple.partner1_name} ${couple.partner2_name || ''}` : undefined,
         vendor_name: vendor ? vendor.name : undefined,
         invoice_line_items: enrichedLineItems,
       });
       setServerLineItems(enrichedLineItems);
-      setCouples(couplesResponse.data || []);
-      setVendors(vendorWithEmail);
-      setServicePackages(servicePackagesResponse.data || []);
-      setStoreProducts(storeProductsResponse.data || []);
-      setBookings(bookingsResponse.data || []);
-      setEvents(eventsResponse.data || []);
-      setVendorServicePackages(vendorServicePackagesResponse.data || []);
-      setPayments(paymentsResponse.data || []);
+      setCouples(inputs.couples);
+      setVendors(inputs.vendors);
+      setServicePackages(inputs.servicePackages);
+      setStoreProducts(inputs.storeProducts);
+      setBookings(inputs.bookings);
+      setEvents(inputs.events);
+      setVendorServicePackages(inputs.vendorServicePackages);
+      setPayments(inputs.payments);
+      setRefunds(refundsData);
+      setTaxRates(taxRatesData);
+      setInstallments(installmentsData);
+      setReminders(remindersData);
+      setCreditNotes(creditNotesData);
     } catch (error: any) {
       console.error('[InvoiceDetailsPage] Error fetching data:', JSON.stringify(error, null, 2));
       toast.error('Failed to load invoice');
@@ -366,7 +410,9 @@ export default function InvoiceDetailsPage() {
       return;
     }
 
-    if (field === 'service_package_id' && value) {
+    if (field === 'type') {
+      item.taxable = isTaxableByDefault(value);
+    } else if (field === 'service_package_id' && value) {
       const pkg = servicePackages.find(sp => sp.id === value);
       if (pkg) {
         item.custom_price = pkg.price || 0; // Ensure non-null
@@ -383,13 +429,11 @@ export default function InvoiceDetailsPage() {
       if (booking) {
         const servicePackage = servicePackages.find(sp => sp.id === booking.package_id);
         item.type = 'service_package';
-        item.custom_price = (depositPercentage > 0 ? booking.initial_payment : booking.amount) || servicePackage?.price || 0; // Fallback to service package price
+        item.custom_price = bookingLinePrice(booking, depositPercentage, servicePackage?.price || 0); // Fallback to service package price
         item.vendor_id = booking.vendor_id;
         item.stripe_account_id = vendors.find(v => v.id === booking.vendor_id)?.stripe_account_id || undefined;
-        item.service_package_id = booking.package_id;
+        item.service_package_id = booking.package_id ?? undefined;
       }
-    } else if (field === 'custom_price') {
-      item.custom_price = parseInt(value, 10) * 100 || 0; // Ensure non-null
     }
     newLineItems[index] = { ...item, [field]: value };
     console.log('[InvoiceDetailsPage] Updated line item:', newLineItems[index]);
@@ -404,15 +448,7 @@ export default function InvoiceDetailsPage() {
     if (itemToRemove.id) {
       try {
         console.log('[InvoiceDetailsPage] Deleting line item from database:', itemToRemove.id);
-        const { error: deleteError } = await supabase
-          .from('invoice_line_items')
-          .delete()
-          .eq('id', itemToRemove.id);
-        if (deleteError) {
-          console.error('[InvoiceDetailsPage] Line item delete error:', JSON.stringify(deleteError, null, 2));
-          toast.error('Failed to delete line item: ' + deleteError.message);
-          return;
-        }
+        await deleteInvoiceLineItem(itemToRemove.id);
       } catch (error: any) {
         console.error('[InvoiceDetailsPage] Error deleting line item:', JSON.stringify(error, null, 2));
         toast.error('Failed to delete line item: ' + error.message);
@@ -443,6 +479,7 @@ export default function InvoiceDetailsPage() {
       custom_description: type === 'custom' ? '' : undefined,
       custom_price: 0, // Initialize with 0
       quantity: 1,
+      taxable: isTaxableByDefault(type),
       stripe_account_id: undefined,
     };
     console.log('[InvoiceDetailsPage] Adding line item:', newLineItem);
@@ -481,7 +518,7 @@ export default function InvoiceDetailsPage() {
   };
 
   const saveChanges = async (items: InvoiceLineItem[]) => {
-    if (!invoice) return;
+    if (!invoice || !id) return;
 
     // Validate line items
     const validTypes = ['service_package', 'store_product', 'custom'];
@@ -510,27 +547,24 @@ export default function InvoiceDetailsPage() {
       }
     }
 
-    const total = calculateTotal();
-    const deposit = calculateDepositAmount();
-    const otherPayments = calculateOtherPayments();
+    const itemTotals = priceInvoice({ lineItems: items, discount, depositPercentage, payments, refunds, credited: invoice.credited_amount, taxRate, cardFeePercentage });
     const updates = {
-      total_amount: total,
-      remaining_balance: Math.max(total - deposit - otherPayments, 0),
+      total_amount: itemTotals.total,
+      remaining_balance: itemTotals.balanceDue,
       discount_amount: isDiscountPercentage ? 0 : discountAmount,
       discount_percentage: isDiscountPercentage ? discountPercentage : 0,
-      deposit_amount: deposit,
+      deposit_amount: itemTotals.deposit,
+      tax_state: taxState || null,
+      tax_rate: taxRate,
+      tax_amount: itemTotals.tax,
+      card_fee_percentage: cardFeePercentage,
+      card_fee_amount: itemTotals.cardFee,
+      due_date: dueDate || null,
     };
 
     try {
       console.log('[InvoiceDetailsPage] Saving changes with updates:', JSON.stringify(updates, null, 2));
-      const { error } = await supabase
-        .from('invoices')
-        .update(updates)
-        .eq('id', id);
-      if (error) {
-        console.error('[InvoiceDetailsPage] Invoice update error:', JSON.stringify(error, null, 2));
-        throw error;
-      }
+      await updateInvoice(id, updates);
 
       // Separate line items for upsert (existing) and insert (new)
       const upsertItems = items
@@ -545,6 +579,7 @@ export default function InvoiceDetailsPage() {
           custom_description: item.custom_description,
           custom_price: item.custom_price,
           quantity: item.quantity,
+          taxable: item.taxable,
           vendor_id: item.vendor_id,
           stripe_account_id: item.stripe_account_id || null,
         }));
@@ -559,33 +594,13 @@ export default function InvoiceDetailsPage() {
           custom_description: item.custom_description,
           custom_price: item.custom_price,
           quantity: item.quantity,
+          taxable: item.taxable,
           vendor_id: item.vendor_id,
           stripe_account_id: item.stripe_account_id || null,
         }));
 
-      // Perform upsert for existing items
-      if (upsertItems.length > 0) {
-        console.log('[InvoiceDetailsPage] Upserting line items:', JSON.stringify(upsertItems, null, 2));
-        const { error: upsertError } = await supabase
-          .from('invoice_line_items')
-          .upsert(upsertItems, { onConflict: 'id' });
-        if (upsertError) {
-          console.error('[InvoiceDetailsPage] Line items upsert error:', JSON.stringify(upsertError, null, 2));
-          throw upsertError;
-        }
-      }
-
-      // Perform insert for new items
-      if (insertItems.length > 0) {
-        console.log('[InvoiceDetailsPage] Inserting line items:', JSON.stringify(insertItems, null, 2));
-        const { error: insertError } = await supabase
-          .from('invoice_line_items')
-          .insert(insertItems);
-        if (insertError) {
-          console.error('[InvoiceDetailsPage] Line items insert error:', JSON.stringify(insertError, null, 2));
-          throw insertError;
-        }
-      }
+      console.log('[InvoiceDetailsPage] Saving line items:', JSON.stringify({ upsertItems, insertItems }, null, 2));
+      await saveInvoiceLineItems(upsertItems, insertItems);
 
       toast.success('Changes saved successfully!');
       fetchData();
@@ -595,22 +610,37 @@ export default function InvoiceDetailsPage() {
     }
   };
 
-  const handlePaymentEntry = async (payment: { amount: number; status: string; payment_type: string; created_at: string }) => {
+  // The due date is the one thing a sent invoice still lets you change
+  const saveDueDate = async () => {
+    if (!id) return;
     try {
-      const { error } = await supabase
-        .from('payments')
-        .insert({
-          invoice_id: id,
-          amount: payment.amount,
-          status: payment.status,
-          payment_type: payment.payment_type,
-          created_at: payment.created_at,
-          to_platform: true,
-        });
-      if (error) {
-        console.error('[InvoiceDetailsPage] Payment insert error:', JSON.stringify(error, null, 2));
-        throw error;
-      }
+      await updateInvoice(id, { due_date: dueDate || null });
+      toast.success('Due date saved');
+      fetchData();
+    } catch (error) {
+      console.error('[InvoiceDetailsPage] Error saving due date:', error);
+      toast.error('Failed to save due date');
+    }
+  };
+
+  const lineItemDescription = (item: InvoiceLineItem) =>
+    item.custom_description
+    || item.store_product_name
+    || (item.booking_id && getBookingDetails(item.booking_id)?.packageName)
+    || item.service_package_name
+    || 'Line item';
+
+  const handlePaymentEntry = async (payment: PaymentEntry) => {
+    try {
+      await createPayments([{
+        invoice_id: id,
+        amount: payment.amount,
+        status: payment.status,
+        payment_type: payment.payment_type,
+        created_at: payment.created_at,
+        to_platform: true,
+        installment_id: payment.installment_id,
+      }]);
       toast.success('Payment recorded successfully!');
       fetchData();
     } catch (error: any) {
@@ -629,33 +659,20 @@ export default function InvoiceDetailsPage() {
     toast.success('Invoice link copied to clipboard!');
   };
 
-  const sendInvoiceEmail = async () => {
+  const handleSendInvoiceEmail = async () => {
     if (!invoice?.id) {
       toast.error('No invoice selected');
       return;
     }
     try {
-      const session = await supabase.auth.getSession();
-      const accessToken = session.data.session?.access_token;
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-invoice-email`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${accessToken}`,
-          },
-          body: JSON.stringify({ invoice_id: invoice.id }),
-        }
+      const [pdfDocument] = buildInvoiceDocuments(await getInvoicePdfInputs([invoice.id]));
+      await sendInvoiceEmail(
+        invoice.id,
+        undefined,
+        pdfDocument ? { filename: invoiceFileName(pdfDocument), content: invoicePdfBase64(pdfDocument) } : undefined
       );
-      const data = await response.json();
-      if (data.error) throw new Error(data.error);
 
-      const { error: updateError } = await supabase
-        .from('invoices')
-        .update({ status: 'sent' })
-        .eq('id', invoice.id);
-      if (updateError) throw updateError;
+      await updateInvoice(invoice.id, { status: 'sent' });
 
       const recipientEmail = invoice.recipient_type === 'couple' ? couples.find(c => c.id === invoice.couple_id)?.email : vendors.find(v => v.id === invoice.vendor_id)?.email;
       toast.success(`Invoice email sent to ${recipientEmail}`);
@@ -666,6 +683,19 @@ export default function InvoiceDetailsPage() {
     }
   };
 
+  // Renders what is saved, so unsaved line item edits are not in the PDF
+  const downloadPdf = async () => {
+    if (!invoice?.id) return;
+    try {
+      const [pdfDocument] = buildInvoiceDocuments(await getInvoicePdfInputs([invoice.id]));
+      if (!pdfDocument) throw new Error('Invoice not found');
+      downloadInvoicePdf(pdfDocument);
+    } catch (err) {
+      console.error('[InvoiceDetailsPage] Error generating invoice PDF:', err);
+      toast.error('Failed to generate invoice PDF');
+    }
+  };
+
   const getBookingDetails = (bookingId: string | undefined) => {
     if (!bookingId) return null;
     const booking = bookings.find(b => b.id === bookingId);
@@ -692,29 +722,16 @@ export default function InvoiceDetailsPage() {
     };
   };
 
-  const calculateTotal = () => {
-    const subtotal = lineItems.reduce((sum, item) => sum + (item.custom_price || 0) * item.quantity, 0);
-    const discount = isDiscountPercentage ? (subtotal * discountPercentage) / 100 : discountAmount;
-    return subtotal - (discount > subtotal ? subtotal : discount);
-  };
-
-  const calculateDiscount = () => {
-    const subtotal = lineItems.reduce((sum, item) => sum + (item.custom_price || 0) * item.quantity, 0);
-    const discount = isDiscountPercentage ? (subtotal * discountPercentage) / 100 : discountAmount;
-    return discount > subtotal ? subtotal : discount;
-  };
-
-  const calculateDepositAmount = () => {
-    return payments
-      .filter(payment => payment.status === 'succeeded' && payment.payment_type === 'deposit')
-      .reduce((sum, payment) => sum + (payment.amount || 0), 0);
-  };
-
-  const calculateOtherPayments = () => {
-    return payments
-      .filter(payment => payment.status === 'succeeded' && payment.payment_type !== 'deposit')
-      .reduce((sum, payment) => sum + (payment.amount || 0), 0);
-  };
+  const discount: InvoiceDiscount = isDiscountPercentage
+    ? { type: 'percentage', percentage: discountPercentage }
+    : { type: 'flat', amount: discountAmount };
+  // A saved invoice keeps the rate it was taxed at until its tax state is changed
+  const taxRate = taxState && taxState === invoice?.tax_state
+    ? invoice.tax_rate
+    : taxRates.find(rate => rate.state === taxState)?.rate || 0;
+  const totals = priceInvoice({ lineItems, discount, depositPercentage, payments, refunds, credited: invoice?.credited_amount, taxRate, cardFeePercentage });
+  // Once sent, what the invoice billed is fixed; corrections go through credit notes
+  const isEditable = invoice ? isInvoiceEditable(invoice) : false;
 
   if (isLoading) {
     return (
@@ -739,12 +756,20 @@ export default function InvoiceDetailsPage() {
           <Calendar className="h-8 w-8 text-blue-600 mr-3" />
           Invoice Details: {invoice.id}
         </h1>
-        <button
-          onClick={() => navigate('/dashboard/invoices')}
-          className="px-3 py-1 bg-gray-600 text-white rounded-lg hover:bg-gray-700 text-sm"
-        >
-          Back to Invoices
-        </button>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={downloadPdf}
+            className="inline-flex items-center px-3 py-1 border border-blue-600 text-blue-600 bg-white rounded-lg hover:bg-blue-50 text-sm"
+          >
+            <FileDown className="h-4 w-4 mr-1" /> Download PDF
+          </button>
+          <button
+            onClick={() => navigate('/dashboard/invoices')}
+            className="px-3 py-1 bg-gray-600 text-white rounded-lg hover:bg-gray-700 text-sm"
+          >
+            Back to Invoices
+          </button>
+        </div>
       </div>
 
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
@@ -752,8 +777,20 @@ export default function InvoiceDetailsPage() {
           <div>
             <h2 className="text-lg font-semibold text-gray-900 mb-4">Invoice Summary</h2>
             <div className="space-y-2">
-              <p><strong>Status:</strong> <span className={`px-2 py-1 text-xs font-medium rounded-full ${invoice.status === 'paid' ? 'bg-blue-100 text-blue-800' : 'bg-yellow-100 text-yellow-800'}`}>{invoice.status}</span></p>
+              <p><strong>Status:</strong> <span className={`px-2 py-1 text-xs font-medium rounded-full ${invoice.status === 'paid' ? 'bg-blue-100 text-blue-800' : invoice.status === 'void' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>{invoice.status}</span></p>
+              {invoice.voided_at && (
+                <p><strong>Voided:</strong> {new Date(invoice.voided_at).toLocaleDateString()} — {invoice.void_reason}</p>
+              )}
               <p><strong>Total Amount:</strong> ${(invoice.total_amount / 100).toFixed(2)}</p>
+              {invoice.tax_amount > 0 && (
+                <p><strong>Sales Tax ({invoice.tax_state} {invoice.tax_rate}%):</strong> ${(invoice.tax_amount / 100).toFixed(2)}</p>
+              )}
+              {invoice.card_fee_amount > 0 && (
+                <p><strong>Card Processing Fee ({invoice.card_fee_percentage}%):</strong> ${(invoice.card_fee_amount / 100).toFixed(2)}</p>
+              )}
+              {invoice.credited_amount > 0 && (
+                <p><strong>Credited:</strong> -${(invoice.credited_amount / 100).toFixed(2)}</p>
+              )}
               <p><strong>Remaining Balance:</strong> ${(invoice.remaining_balance / 100).toFixed(2)}</p>
               {invoice.paid_at && <p><strong>Paid At:</strong> {new Date(invoice.paid_at).toLocaleDateString()}</p>}
               {invoice.payment_token && (
@@ -769,7 +806,7 @@ export default function InvoiceDetailsPage() {
                   </a>
                 </p>
               )}
-              {payments.length > 0 && (
+              {(payments.length > 0 || creditNotes.length > 0) && (
                 <div className="mt-4">
                   <h3 className="text-md font-medium text-gray-900 mb-2">Payments</h3>
                   {payments.map(payment => (
@@ -777,6 +814,11 @@ export default function InvoiceDetailsPage() {
                       {payment.payment_type || 'Payment'} of ${(payment.amount / 100).toFixed(2)} ({payment.status}) on {new Date(payment.created_at).toLocaleDateString()}
                     </p>
                   ))}
+                  {creditNotes.map(creditNote => (
+                    <p key={creditNote.id} className="text-sm text-gray-600">
+                      Credit note of ${(creditNote.amount / 100).toFixed(2)} on {new Date(creditNote.created_at).toLocaleDateString()}
+                    </p>
+                  ))}
                 </div>
               )}
             </div>
@@ -800,20 +842,24 @@ export default function InvoiceDetailsPage() {
                 </div>
               )}
             </div>
-            {invoice.status !== 'paid' && (
+            {invoice.status !== 'paid' && invoice.status !== 'void' && (
               <div className="flex flex-wrap gap-2 mt-4">
-                <button
-                  onClick={() => setIsPaymentModalOpen(true)}
-                  className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
-                >
-                  <Plus className="h-4 w-4 mr-1 inline" /> Take Payment
-                </button>
-                <button
-                  onClick={() => setIsPaymentEntryModalOpen(true)}
-                  className="px-3 py-1 border border-blue-600 text-blue-600 bg-white rounded-lg hover:bg-blue-50 text-sm"
-                >
-                  <Plus className="h-4 w-4 mr-1 inline" /> Enter Payment
-                </button>
+                {canWritePayments && (
+                  <>
+                    <button
+                      onClick={() => setIsPaymentModalOpen(true)}
+                      className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+                    >
+                      <Plus className="h-4 w-4 mr-1 inline" /> Take Payment
+                    </button>
+                    <button
+                      onClick={() => setIsPaymentEntryModalOpen(true)}
+                      className="px-3 py-1 border border-blue-600 text-blue-600 bg-white rounded-lg hover:bg-blue-50 text-sm"
+                    >
+                      <Plus className="h-4 w-4 mr-1 inline" /> Enter Payment
+                    </button>
+                  </>
+                )}
                 <button
                   onClick={copyInvoiceLink}
                   className="px-3 py-1 border border-blue-600 text-blue-600 bg-white rounded-lg hover:bg-blue-50 text-sm"
@@ -821,17 +867,43 @@ export default function InvoiceDetailsPage() {
                   <Copy className="h-4 w-4 mr-1 inline" /> Copy Payment Link
                 </button>
                 <button
-                  onClick={sendInvoiceEmail}
+                  onClick={handleSendInvoiceEmail}
                   className="px-3 py-1 border border-blue-600 text-blue-600 bg-white rounded-lg hover:bg-blue-50 text-sm"
                 >
                   <Mail className="h-4 w-4 mr-1 inline" /> Send Email
                 </button>
               </div>
             )}
+            {canWritePayments && invoice.status !== 'void' && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {!isEditable && (
+                  <button
+                    onClick={() => setIsCreditNoteModalOpen(true)}
+                    className="px-3 py-1 border border-blue-600 text-blue-600 bg-white rounded-lg hover:bg-blue-50 text-sm"
+                  >
+                    <ReceiptText className="h-4 w-4 mr-1 inline" /> Issue Credit Note
+                  </button>
+                )}
+                <button
+                  onClick={() => setIsVoidModalOpen(true)}
+                  className="px-3 py-1 border border-red-600 text-red-600 bg-white rounded-lg hover:bg-red-50 text-sm"
+                >
+                  <Ban className="h-4 w-4 mr-1 inline" /> Void Invoice
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
-        <div className="mt-6">
+        {!isEditable && (
+          <div className="mt-6 rounded-lg bg-yellow-50 border border-yellow-200 p-4 text-sm text-yellow-800">
+            {invoice.status === 'void'
+              ? 'This invoice is void and can no longer be changed.'
+              : 'This invoice has been sent, so its line items and pricing can no longer be edited. Issue a credit note to correct it.'}
+          </div>
+        )}
+
+        <fieldset disabled={!isEditable} className="mt-6">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Line Items</h2>
           <div className="grid grid-cols-12 gap-4 mb-2 text-sm font-medium text-gray-700">
             <div className="col-span-3">Type</div>
@@ -936,20 +1008,33 @@ export default function InvoiceDetailsPage() {
                   />
                 </div>
                 <div className="col-span-1 flex space-x-2">
-                  <button
-                    onClick={() => saveLineItem(index)}
-                    className="px-2 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
-                  >
-                    <Save className="h-4 w-4" />
-                  </button>
-                  <button
-                    onClick={() => removeLineItem(index)}
-                    className="px-2 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </button>
+                  {isEditable && (
+                    <>
+                      <button
+                        onClick={() => saveLineItem(index)}
+                        className="px-2 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+                      >
+                        <Save className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => removeLineItem(index)}
+                        className="px-2 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
+              <label className="mt-2 flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={item.taxable}
+                  onChange={(e) => updateLineItem(index, 'taxable', e.target.checked)}
+                  className="mr-1"
+                />
+                Taxable
+              </label>
               {item.booking_id && getBookingDetails(item.booking_id) && (
                 <div className="mt-2 text-sm text-gray-600">
                   <p><strong>Package Name:</strong> {getBookingDetails(item.booking_id)?.packageName}</p>
@@ -973,16 +1058,18 @@ export default function InvoiceDetailsPage() {
               )}
             </div>
           ))}
-          <button
-            onClick={() => addLineItem('custom')}
-            className="mt-2 inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
-          >
-            <Plus className="h-4 w-4 mr-1" /> Add Line Item
-          </button>
-        </div>
+          {isEditable && (
+            <button
+              onClick={() => addLineItem('custom')}
+              className="mt-2 inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add Line Item
+            </button>
+          )}
+        </fieldset>
 
         <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div>
+          <fieldset disabled={!isEditable}>
             <label className="block text-sm font-medium text-gray-700 mb-1">Discount</label>
             <div className="flex items-center space-x-4">
               <label className="flex items-center">
@@ -1021,8 +1108,8 @@ export default function InvoiceDetailsPage() {
                 className="w-1/3 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
             </div>
-          </div>
-          <div>
+          </fieldset>
+          <fieldset disabled={!isEditable}>
             <label className="block text-sm font-medium text-gray-700 mb-1">Deposit</label>
             <input
               type="number"
@@ -1031,25 +1118,82 @@ export default function InvoiceDetailsPage() {
               placeholder="Percentage (%)"
               className="w-1/3 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
+          </fieldset>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Due Date</label>
+            <input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {invoice.due_date && isInvoiceOverdue(invoice) && (
+              <p className="mt-1 text-xs text-red-600">{daysPastDue(invoice.due_date)} days past due</p>
+            )}
           </div>
         </div>
 
+        <fieldset disabled={!isEditable} className="mt-6">
+          <InvoiceTaxFields
+            taxRates={taxRates}
+            taxState={taxState}
+            taxRate={taxRate}
+            onTaxStateChange={setTaxState}
+            cardFeePercentage={cardFeePercentage}
+            onCardFeePercentageChange={setCardFeePercentage}
+          />
+        </fieldset>
+
         <div className="mt-6 bg-gray-50 p-4 rounded-lg">
-          <p className="text-sm font-medium">Subtotal: ${(lineItems.reduce((sum, item) => sum + (item.custom_price || 0) * item.quantity, 0) / 100).toFixed(2)}</p>
-          <p className="text-sm font-medium">Discount: ${(calculateDiscount() / 100).toFixed(2)}</p>
-          <p className="text-sm font-medium">Deposit: ${(calculateDepositAmount() / 100).toFixed(2)}</p>
-          <p className="text-sm font-medium">Payments: ${(calculateOtherPayments() / 100).toFixed(2)}</p>
-          <p className="text-sm font-medium text-gray-900">Total Due: ${((calculateTotal() - calculateDepositAmount() - calculateOtherPayments()) / 100).toFixed(2)}</p>
+          <p className="text-sm font-medium">Subtotal: ${(totals.subtotal / 100).toFixed(2)}</p>
+          <p className="text-sm font-medium">Discount: ${(totals.discount / 100).toFixed(2)}</p>
+          {taxState && <p className="text-sm font-medium">Sales Tax ({taxState} {taxRate}%): ${(totals.tax / 100).toFixed(2)}</p>}
+          {totals.cardFee > 0 && <p className="text-sm font-medium">Card Processing Fee ({cardFeePercentage}%): ${(totals.cardFee / 100).toFixed(2)}</p>}
+          <p className="text-sm font-medium">Total: ${(totals.total / 100).toFixed(2)}</p>
+          <p className="text-sm font-medium">Deposit: ${(totals.deposit / 100).toFixed(2)} requested, ${(totals.depositPaid / 100).toFixed(2)} paid</p>
+          {totals.credited > 0 && <p className="text-sm font-medium">Credits: -${(totals.credited / 100).toFixed(2)}</p>}
+          <p className="text-sm font-medium">Payments: ${(totals.paid / 100).toFixed(2)}{totals.refunded > 0 && ` (after $${(totals.refunded / 100).toFixed(2)} refunded)`}</p>
+          <p className="text-sm font-medium text-gray-900">Total Due: ${((invoice.status === 'void' ? 0 : totals.balanceDue) / 100).toFixed(2)}</p>
         </div>
 
         <button
-          onClick={() => saveChanges(lineItems)}
+          onClick={() => (isEditable ? saveChanges(lineItems) : saveDueDate())}
           className="mt-4 inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
         >
-          <Save className="h-4 w-4 mr-1" /> Save Changes
+          <Save className="h-4 w-4 mr-1" /> {isEditable ? 'Save Changes' : 'Save Due Date'}
         </button>
       </div>
 
+      <InstallmentSchedule
+        invoiceId={invoice.id}
+        installments={installments}
+        amount={Math.max(invoice.total_amount - invoice.credited_amount - invoice.deposit_amount, 0)}
+        canEdit={canWritePayments && invoice.status !== 'void'}
+        onChange={fetchData}
+      />
+
+      {creditNotes.length > 0 && <CreditNoteHistory creditNotes={creditNotes} />}
+
+      {reminders.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Reminder History</h2>
+          <ul className="divide-y divide-gray-200">
+            {reminders.map(reminder => (
+              <li key={reminder.id} className="py-2 flex justify-between text-sm">
+                <span className="text-gray-900">
+                  {reminder.subject || reminder.kind}
+                  {reminder.recipient_email && <span className="text-gray-500"> to {reminder.recipient_email}</span>}
+                </span>
+                <span className="text-gray-500">
+                  {new Date(reminder.sent_at).toLocaleString()}
+                  {!reminder.sent_by && reminder.kind === 'dunning' && ' (automatic)'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <TakePaymentModal
         isOpen={isPaymentModalOpen}
         onClose={() => setIsPaymentModalOpen(false)}
@@ -1059,6 +1203,24 @@ export default function InvoiceDetailsPage() {
         isOpen={isPaymentEntryModalOpen}
         onClose={() => setIsPaymentEntryModalOpen(false)}
         onSave={handlePaymentEntry}
+        installments={installments}
+      />
+      <CreditNoteModal
+        isOpen={isCreditNoteModalOpen}
+        onClose={() => setIsCreditNoteModalOpen(false)}
+        invoiceId={invoice.id}
+        lineItems={serverLineItems
+          .filter((item): item is InvoiceLineItem & { id: string } => !!item.id)
+          .map(item => ({ ...item, description: lineItemDescription(item) }))}
+        creditLines={creditNotes.flatMap(creditNote => creditNote.credit_note_lines)}
+        balanceDue={invoice.remaining_balance}
+        onIssued={fetchData}
+      />
+      <VoidInvoiceModal
+        isOpen={isVoidModalOpen}
+        onClose={() => setIsVoidModalOpen(false)}
+        invoiceId={invoice.id}
+        onVoided={fetchData}
       />
     </div>
   );
@@ -2,16 +2,30 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
-import { supabase } from '../lib/supabase';
-import { Calendar, Plus, Trash2, Search, Eye, Copy, Mail, Save } from 'lucide-react';
+import { Calendar, Plus, Trash2, Search, Eye, Copy, Mail, Save, FileDown } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { InvoiceDiscount, bookingLinePrice, isTaxableByDefault, priceInvoice } from '../utils/invoicePricing';
+import { TaxRate, listTaxRates } from '../repositories/salesTax';
+import InvoiceTaxFields from '../components/InvoiceTaxFields';
+import {
+  createInvoice,
+  getInvoiceCatalog,
+  getInvoicePdfInputs,
+  listInvoicesWithLineItems,
+  sendInvoiceEmail,
+  updateInvoice,
+} from '../repositories/invoices';
+import { buildInvoiceDocuments, downloadInvoicesZip, invoiceFileName, invoicePdfBase64 } from '../utils/invoicePdf';
+import { isInvoiceOverdue } from '../utils/dunning';
+import OverdueInvoiceQueue from '../components/OverdueInvoiceQueue';
 
 interface Couple {
   id: string;
-  partner1_name: string;
-  partner2_name: string;
-  email: string;
-  phone: string;
+  partner1_name: string | null;
+  partner2_name: string | null;
+  email: string | null;
+  phone: string | null;
+  venue_state?: string | null;
 }
 
 interface Vendor {
@@ -19,8 +33,8 @@ interface Vendor {
   name: string;
   user_id: string;
   email: string;
-  phone: string;
-  stripe_account_id?: string;
+  phone: string | null;
+  stripe_account_id: string | null;
 }
 
 interface ServicePackage {
@@ -37,7 +51,7 @@ interface StoreProduct {
 
 interface Event {
   id: string;
-  title: string;
+  title: string | null;
   start_time: string;
 }
 
@@ -45,11 +59,11 @@ interface Booking {
   id: string;
   couple_id: string;
   vendor_id: string;
-  package_id: string;
+  package_id: string | null;
   amount: number;
-  initial_payment: number;
+  initial_payment: number | null;
   service_type: string;
-  event_id: string;
+  event_id: string | null;
 }
 
 interface VendorServicePackage {
@@ -67,6 +81,7 @@ interface InvoiceLineItem {
   custom_description?: string;
   custom_price: number;
   quantity: number;
+  taxable: boolean;
   vendor_id?: string;
   stripe_account_id?: string;
   service_package_name?: string;
@@ -86,6 +101,7 @@ interface Invoice {
   discount_percentage: number;
   deposit_amount: number;
   status: string;
+  due_date: string | null;
   paid_at?: string;
   payment_token?: string;
   couple_name?: string;
@@ -111,10 +127,16 @@ export default function InvoicePage() {
   const [depositPercentage, setDepositPercentage] = useState<number>(0);
   const [searchTerm, setSearchTerm] = useState('');
   const [isDiscountPercentage, setIsDiscountPercentage] = useState(false);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [taxState, setTaxState] = useState('');
+  const [cardFeePercentage, setCardFeePercentage] = useState<number>(0);
+  const [dueDate, setDueDate] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [filterStatus, setFilterStatus] = useState<string>('sent'); // Default to 'sent'
   const [recipientSearch, setRecipientSearch] = useState<string>(''); // Search term for recipient dropdown
+  const [selectedInvoiceIds, setSelectedInvoiceIds] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
   const recipientDropdownRef = useRef<HTMLDivElement>(null); // Ref for dropdown click-outside handling
 
   useEffect(() => {
@@ -135,73 +157,22 @@ export default function InvoicePage() {
   const fetchData = async () => {
     try {
       setIsLoading(true);
-      console.log('[InvoicePage] Fetching data...');
-      const [
-        couplesResponse,
-        vendorsResponse,
-        usersResponse,
-        servicePackagesResponse,
-        storeProductsResponse,
-        bookingsResponse,
-        eventsResponse,
-        vendorServicePackagesResponse,
-        invoicesResponse,
-        lineItemsResponse
-      ] = await Promise.all([
-        supabase.from('couples').select('id, partner1_name, partner2_name, email, phone'),
-        supabase.from('vendors').select('id, name, user_id, phone, stripe_account_id'),
-        supabase.from('users').select('id, email'),
-        supabase.from('service_packages').select('id, name, price'),
-        supabase.from('store_products').select('id, name, price'),
-        supabase.from('bookings').select('id, couple_id, vendor_id, package_id, amount, initial_payment, service_type, event_id'),
-        supabase.from('events').select('id, title, start_time'),
-        supabase.from('vendor_service_packages').select('vendor_id, service_package_id, service_type'),
-        supabase.from('invoices').select('id, recipient_type, couple_id, vendor_id, total_amount, remaining_balance, discount_amount, discount_percentage, deposit_amount, status, paid_at, payment_token'),
-        supabase.from('invoice_line_items').select('id, invoice_id, type, service_package_id, store_product_id, booking_id, custom_description, custom_price, quantity, vendor_id, stripe_account_id')
+      const [catalog, invoicesData, taxRatesData] = await Promise.all([
+        getInvoiceCatalog(),
+        listInvoicesWithLineItems(),
+        listTaxRates(),
       ]);
-
-      if (couplesResponse.error) throw couplesResponse.error;
-      if (vendorsResponse.error) throw vendorsResponse.error;
-      if (usersResponse.error) throw usersResponse.error;
-      if (servicePackagesResponse.error) throw servicePackagesResponse.error;
-      if (storeProductsResponse.error) throw storeProductsResponse.error;
-      if (bookingsResponse.error) throw bookingsResponse.error;
-      if (eventsResponse.error) throw eventsResponse.error;
-      if (vendorServicePackagesResponse.error) throw vendorServicePackagesResponse.error;
-      if (invoicesResponse.error) throw invoicesResponse.error;
-      if (lineItemsResponse.error) throw lineItemsResponse.error;
-
-      console.log('[InvoicePage] Data fetched:', {
-        couples: couplesResponse.data.length,
-        vendors: vendorsResponse.data.length,
-        servicePackages: servicePackagesResponse.data.length,
-        storeProducts: storeProductsResponse.data.length,
-        bookings: bookingsResponse.data.length,
-        events: eventsResponse.data.length,
-        vendorServicePackages: vendorServicePackagesResponse.data.length,
-        invoices: invoicesResponse.data.length,
-        lineItems: lineItemsResponse.data.length
-      });
-
-      // Combine vendor email
-      const vendorWithEmail = vendorsResponse.data.map((vendor: any) => {
-        const user = usersResponse.data.find((u: any) => u.id === vendor.user_id);
-        return {
-          ...vendor,
-          email: user ? user.email : '',
-        };
-      });
+      const { couples, vendors, servicePackages, storeProducts, bookings, events, vendorServicePackages } = catalog;
 
       // Combine invoice line items with related data
-      const enrichedInvoices = invoicesResponse.data.map((invoice: any) => {
-        const invoiceLineItems = lineItemsResponse.data
-          .filter((item: any) => item.invoice_id === invoice.id)
+      const enrichedInvoices = invoicesData.map((invoice: any) => {
+        const invoiceLineItems = invoice.invoice_line_items
           .map((item: any) => {
-            const booking = item.booking_id ? bookingsResponse.data.find((b: any) => b.id === item.booking_id) : null;
-            const servicePackage = item.service_package_id ? servicePackagesResponse.data.find((sp: any) => sp.id === item.service_package_id) : null;
-            const storeProduct = item.store_product_id ? storeProductsResponse.data.find((sp: any) => sp.id === item.store_product_id) : null;
-            const vendor = item.vendor_id ? vendorWithEmail.find((v: any) => v.id === item.vendor_id) : null;
-            const event = booking && booking.event_id ? eventsResponse.data.find((e: any) => e.id === booking.event_id) : null;
+            const booking = item.booking_id ? bookings.find((b: any) => b.id === item.booking_id) : null;
+            const servicePackage = item.service_package_id ? servicePackages.find((sp: any) => sp.id === item.service_package_id) : null;
+            const storeProduct = item.store_product_id ? storeProducts.find((sp: any) => sp.id === item.store_product_id) : null;
+            const vendor = item.vendor_id ? vendors.find((v: any) => v.id === item.vendor_id) : null;
+            const event = booking && booking.event_id ? events.find((e: any) => e.id === booking.event_id) : null;
 
             return {
               ...item,
@@ -212,8 +183,8 @@ export default function InvoicePage() {
             };
           });
 
-        const couple = invoice.couple_id ? couplesResponse.data.find((c: any) => c.id === invoice.couple_id) : null;
-        const vendor = invoice.vendor_id ? vendorWithEmail.find((v: any) => v.id === invoice.vendor_id) : null;
+        const couple = invoice.couple_id ? couples.find((c: any) => c.id === invoice.couple_id) : null;
+        const vendor = invoice.vendor_id ? vendors.find((v: any) => v.id === invoice.vendor_id) : null;
 
         return {
           ...invoice,
@@ -223,14 +194,15 @@ export default function InvoicePage() {
         };
       });
 
-      setCouples(couplesResponse.data || []);
-      setVendors(vendorWithEmail);
-      setServicePackages(servicePackagesResponse.data || []);
-      setStoreProducts(storeProductsResponse.data || []);
-      setBookings(bookingsResponse.data || []);
-      setEvents(eventsResponse.data || []);
-      setVendorServicePackages(vendorServicePackagesResponse.data || []);
+      setCouples(couples);
+      setVendors(vendors);
+      setServicePackages(servicePackages);
+      setStoreProducts(storeProducts);
+      setBookings(bookings);
+      setEvents(events);
+      setVendorServicePackages(vendorServicePackages);
       setInvoices(enrichedInvoices);
+      setTaxRates(taxRatesData);
     } catch (error: any) {
       console.error('[InvoicePage] Error fetching data:', JSON.stringify(error, null, 2));
       toast.error('Failed to load data');
@@ -249,6 +221,7 @@ export default function InvoicePage() {
       custom_description: '',
       custom_price: 0,
       quantity: 1,
+      taxable: false,
       stripe_account_id: undefined,
     };
     console.log('[InvoicePage] Adding line item:', newLineItem);
@@ -266,7 +239,9 @@ export default function InvoicePage() {
       return;
     }
 
-    if (field === 'service_package_id' && value) {
+    if (field === 'type') {
+      item.taxable = isTaxableByDefault(value);
+    } else if (field === 'service_package_id' && value) {
       const pkg = servicePackages.find(sp => sp.id === value);
       if (pkg) {
         item.custom_price = pkg.price;
@@ -282,10 +257,10 @@ export default function InvoicePage() {
       const booking = bookings.find(b => b.id === value);
       if (booking) {
         item.type = 'service_package'; // Bookings are treated as service packages
-        item.custom_price = depositPercentage > 0 ? booking.initial_payment : booking.amount;
+        item.custom_price = bookingLinePrice(booking, depositPercentage);
         item.vendor_id = booking.vendor_id;
         item.stripe_account_id = vendors.find(v => v.id === booking.vendor_id)?.stripe_account_id || undefined;
-        item.service_package_id = booking.package_id;
+        item.service_package_id = booking.package_id ?? undefined;
       }
     }
     newLineItems[index] = { ...item, [field]: value };
@@ -298,16 +273,11 @@ export default function InvoicePage() {
     setLineItems(lineItems.filter((_, i) => i !== index));
   };
 
-  const calculateTotal = () => {
-    const subtotal = lineItems.reduce((sum, item) => sum + (item.custom_price || 0) * item.quantity, 0);
-    const discount = isDiscountPercentage ? (subtotal * discountPercentage) / 100 : discountAmount;
-    return subtotal - (discount > subtotal ? subtotal : discount);
-  };
-
-  const calculateDeposit = () => {
-    const total = calculateTotal();
-    return depositPercentage ? (total * depositPercentage) / 100 : 0;
-  };
+  const discount: InvoiceDiscount = isDiscountPercentage
+    ? { type: 'percentage', percentage: discountPercentage }
+    : { type: 'flat', amount: discountAmount };
+  const taxRate = taxRates.find(rate => rate.state === taxState)?.rate || 0;
+  const totals = priceInvoice({ lineItems, discount, depositPercentage, taxRate, cardFeePercentage });
 
   const handleSaveInvoice = async () => {
     if (!recipientType || !recipientId || lineItems.length === 0) {
@@ -337,34 +307,26 @@ export default function InvoicePage() {
       }
     }
 
-    const total = calculateTotal();
-    const deposit = calculateDeposit();
     const newInvoice = {
       recipient_type: recipientType,
       couple_id: recipientType === 'couple' ? recipientId : null,
       vendor_id: recipientType === 'vendor' ? recipientId : null,
-      total_amount: total,
-      remaining_balance: total - deposit,
+      total_amount: totals.total,
+      remaining_balance: totals.balanceDue,
       discount_amount: isDiscountPercentage ? 0 : discountAmount,
       discount_percentage: isDiscountPercentage ? discountPercentage : 0,
-      deposit_amount: deposit,
+      deposit_amount: totals.deposit,
+      tax_state: taxState || null,
+      tax_rate: taxRate,
+      tax_amount: totals.tax,
+      card_fee_percentage: cardFeePercentage,
+      card_fee_amount: totals.cardFee,
+      due_date: dueDate || null,
       status: 'draft',
     };
 
     try {
-      console.log('[InvoicePage] Creating invoice with data:', JSON.stringify(newInvoice, null, 2));
-      const { data, error } = await supabase
-        .from('invoices')
-        .insert(newInvoice)
-        .select('*, payment_token')
-        .single();
-      if (error) {
-        console.error('[InvoicePage] Invoice insert error:', JSON.stringify(error, null, 2));
-        throw error;
-      }
-
-      const lineItemsData = lineItems.map(item => ({
-        invoice_id: data.id,
+      await createInvoice(newInvoice, lineItems.map(item => ({
         type: item.type,
         service_package_id: item.service_package_id,
         store_product_id: item.store_product_id,
@@ -372,15 +334,10 @@ export default function InvoicePage() {
         custom_description: item.custom_description,
         custom_price: item.custom_price,
         quantity: item.quantity,
+        taxable: item.taxable,
         vendor_id: item.vendor_id,
         stripe_account_id: item.stripe_account_id || null,
-      }));
-      console.log('[InvoicePage] Inserting line items:', JSON.stringify(lineItemsData, null, 2));
-      const { error: lineItemsError } = await supabase.from('invoice_line_items').insert(lineItemsData);
-      if (lineItemsError) {
-        console.error('[InvoicePage] Line items insert error:', JSON.stringify(lineItemsError, null, 2));
-        throw lineItemsError;
-      }
+      })));
 
       toast.success('Invoice created successfully!');
       setLineItems([]);
@@ -389,6 +346,9 @@ export default function InvoicePage() {
       setDiscountAmount(0);
       setDiscountPercentage(0);
       setDepositPercentage(0);
+      setTaxState('');
+      setCardFeePercentage(0);
+      setDueDate('');
       setIsCreateModalOpen(false);
       fetchData();
     } catch (error: any) {
@@ -403,29 +363,16 @@ export default function InvoicePage() {
     toast.success('Invoice link copied to clipboard!');
   };
 
-  const sendInvoiceEmail = async (invoice: Invoice) => {
+  const handleSendInvoiceEmail = async (invoice: Invoice) => {
     try {
-      const session = await supabase.auth.getSession();
-      const accessToken = session.data.session?.access_token;
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-invoice-email`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${accessToken}`,
-          },
-          body: JSON.stringify({ invoice_id: invoice.id }),
-        }
+      const [pdfDocument] = buildInvoiceDocuments(await getInvoicePdfInputs([invoice.id]));
+      await sendInvoiceEmail(
+        invoice.id,
+        undefined,
+        pdfDocument ? { filename: invoiceFileName(pdfDocument), content: invoicePdfBase64(pdfDocument) } : undefined
       );
-      const data = await response.json();
-      if (data.error) throw new Error(data.error);
 
-      const { error: updateError } = await supabase
-        .from('invoices')
-        .update({ status: 'sent' })
-        .eq('id', invoice.id);
-      if (updateError) throw updateError;
+      await updateInvoice(invoice.id, { status: 'sent' });
 
       const recipientEmail = invoice.recipient_type === 'couple' ? couples.find(c => c.id === invoice.couple_id)?.email : vendors.find(v => v.id === invoice.vendor_id)?.email;
       toast.success(`Invoice email sent to ${recipientEmail}`);
@@ -444,10 +391,47 @@ export default function InvoicePage() {
         ? invoice.vendor_name.toLowerCase().includes(searchTerm.toLowerCase())
         : false) ||
         invoice.id.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesStatus = filterStatus === 'all' || invoice.status === filterStatus;
+      const matchesStatus = filterStatus === 'all'
+        || (filterStatus === 'overdue' ? isInvoiceOverdue(invoice) : invoice.status === filterStatus);
       return matchesSearch && matchesStatus;
     })
-    .sort((a, b) => b.total_amount - a.total_amount); // Sort by total_amount descending
+    // Sort by total_amount descending; the overdue queue puts the longest overdue first
+    .sort((a, b) => filterStatus === 'overdue'
+      ? (a.due_date || '').localeCompare(b.due_date || '')
+      : b.total_amount - a.total_amount);
+
+  const toggleInvoiceSelected = (invoiceId: string) => {
+    setSelectedInvoiceIds(prev => {
+      const next = new Set(prev);
+      if (next.has(invoiceId)) next.delete(invoiceId);
+      else next.add(invoiceId);
+      return next;
+    });
+  };
+
+  // Exports the selected invoices, or every invoice in the current list when none are selected
+  const exportInvoiceIds = (selectedInvoiceIds.size > 0
+    ? filteredInvoices.filter(invoice => selectedInvoiceIds.has(invoice.id))
+    : filteredInvoices
+  ).map(invoice => invoice.id);
+
+  const exportPdfs = async () => {
+    const ids = exportInvoiceIds;
+    if (ids.length === 0) {
+      toast.error('No invoices to export');
+      return;
+    }
+    try {
+      setIsExporting(true);
+      await downloadInvoicesZip(buildInvoiceDocuments(await getInvoicePdfInputs(ids)));
+      toast.success(`Exported ${ids.length} invoice${ids.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('[InvoicePage] Error exporting invoice PDFs:', error);
+      toast.error('Failed to export invoice PDFs');
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   const getBookingDetails = (bookingId: string | undefined) => {
     if (!bookingId) return null;
@@ -522,7 +506,17 @@ export default function InvoicePage() {
               <option value="draft">Draft</option>
               <option value="sent">Sent</option>
               <option value="paid">Paid</option>
+              <option value="void">Void</option>
+              <option value="overdue">Overdue</option>
             </select>
+            <button
+              onClick={exportPdfs}
+              disabled={isExporting || exportInvoiceIds.length === 0}
+              className="inline-flex items-center px-3 py-2 border border-blue-600 text-blue-600 bg-white rounded-lg hover:bg-blue-50 whitespace-nowrap disabled:opacity-50"
+            >
+              <FileDown className="h-4 w-4 mr-2" />
+              {isExporting ? 'Exporting...' : `Download PDFs (${exportInvoiceIds.length})`}
+            </button>
           </div>
         </div>
         {filteredInvoices.length === 0 ? (
@@ -531,11 +525,25 @@ export default function InvoicePage() {
             <h3 className="text-lg font-medium text-gray-900 mb-2">No invoices found</h3>
             <p className="text-gray-500">Create a new invoice to get started.</p>
           </div>
+        ) : filterStatus === 'overdue' ? (
+          <OverdueInvoiceQueue
+            invoices={filteredInvoices.map(invoice => ({
+              ...invoice,
+              recipient_name: (invoice.recipient_type === 'couple' ? invoice.couple_name : invoice.vendor_name) || 'N/A',
+            }))}
+          />
         ) : (
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
+                  <th className="px-6 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={filteredInvoices.length > 0 && filteredInvoices.every(invoice => selectedInvoiceIds.has(invoice.id))}
+                      onChange={(e) => setSelectedInvoiceIds(e.target.checked ? new Set(filteredInvoices.map(invoice => invoice.id)) : new Set())}
+                    />
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">ID</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
@@ -547,6 +555,13 @@ export default function InvoicePage() {
               <tbody className="bg-white divide-y divide-gray-200">
                 {filteredInvoices.map(invoice => (
                   <tr key={invoice.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={selectedInvoiceIds.has(invoice.id)}
+                        onChange={() => toggleInvoiceSelected(invoice.id)}
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{invoice.id}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {invoice.recipient_type === 'couple' && invoice.couple_name
@@ -560,7 +575,7 @@ export default function InvoicePage() {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span
                         className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                          invoice.status === 'paid' ? 'bg-blue-100 text-blue-800' : invoice.status === 'sent' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800'
+                          invoice.status === 'paid' ? 'bg-blue-100 text-blue-800' : invoice.status === 'sent' ? 'bg-yellow-100 text-yellow-800' : invoice.status === 'void' ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-800'
                         }`}
                       >
                         {invoice.status}
@@ -573,7 +588,7 @@ export default function InvoicePage() {
                       >
                         <Eye className="h-4 w-4 mr-1" /> View
                       </Link>
-                      {invoice.status !== 'paid' && invoice.payment_token && (
+                      {invoice.status !== 'paid' && invoice.status !== 'void' && invoice.payment_token && (
                         <>
                           <button
                             onClick={() => copyInvoiceLink(invoice.payment_token!)}
@@ -582,7 +597,7 @@ export default function InvoicePage() {
                             <Copy className="h-4 w-4 mr-1" /> Copy Link
                           </button>
                           <button
-                            onClick={() => sendInvoiceEmail(invoice)}
+                            onClick={() => handleSendInvoiceEmail(invoice)}
                             className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-600 hover:text-blue-800"
                           >
                             <Mail className="h-4 w-4 mr-1" /> Send Email
@@ -681,6 +696,11 @@ export default function InvoicePage() {
                                 key={recipient.id}
                                 onClick={() => {
                                   setRecipientId(recipient.id);
+                                  // Couples are taxed where the wedding is, when that state has a rate
+                                  const venueState = recipientType === 'couple' ? couples.find(c => c.id === recipient.id)?.venue_state : undefined;
+                                  if (venueState && taxRates.some(rate => rate.state === venueState)) {
+                                    setTaxState(venueState);
+                                  }
                                   setRecipientSearch(recipientType === 'couple' ? `${recipient.partner1_name} ${recipient.partner2_name || ''}` : `${recipient.name} (${recipient.email})`);
                                 }}
                                 className="px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 cursor-pointer"
@@ -742,7 +762,7 @@ export default function InvoicePage() {
                                     return (
                                       <option key={booking.id} value={booking.id}>
                                         {servicePackage?.name || booking.service_type} by {vendors.find(v => v.id === booking.vendor_id)?.name || 'N/A'} - {event?.title || 'Event'} ($
-                                        {(depositPercentage > 0 ? booking.initial_payment : booking.amount) / 100}
+                                        {bookingLinePrice(booking, depositPercentage) / 100}
                                         )
                                       </option>
                                     );
@@ -802,6 +822,15 @@ export default function InvoicePage() {
                               placeholder="Qty"
                               className="w-1/6 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                             />
+                            <label className="flex items-center text-sm text-gray-700 whitespace-nowrap">
+                              <input
+                                type="checkbox"
+                                checked={item.taxable}
+                                onChange={(e) => updateLineItem(index, 'taxable', e.target.checked)}
+                                className="mr-1"
+                              />
+                              Taxable
+                            </label>
                             <button
                               onClick={() => removeLineItem(index)}
                               className="px-2 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700"
@@ -880,11 +909,32 @@ export default function InvoicePage() {
                           className="w-1/3 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                         />
                       </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Due Date</label>
+                        <input
+                          type="date"
+                          value={dueDate}
+                          onChange={(e) => setDueDate(e.target.value)}
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <p className="mt-1 text-xs text-gray-500">Payment reminders follow the schedule on the Payment Reminders page</p>
+                      </div>
                     </div>
+                    <InvoiceTaxFields
+                      taxRates={taxRates}
+                      taxState={taxState}
+                      taxRate={taxRate}
+                      onTaxStateChange={setTaxState}
+                      cardFeePercentage={cardFeePercentage}
+                      onCardFeePercentageChange={setCardFeePercentage}
+                    />
                     <div className="bg-gray-50 p-4 rounded-lg">
-                      <p className="text-sm font-medium">Subtotal: ${(calculateTotal() / 100).toFixed(2)}</p>
-                      <p className="text-sm font-medium">Deposit: ${(calculateDeposit() / 100).toFixed(2)}</p>
-                      <p className="text-sm font-medium text-gray-900">Total Due: ${((calculateTotal() - calculateDeposit()) / 100).toFixed(2)}</p>
+                      <p className="text-sm font-medium">Subtotal: ${(totals.subtotal / 100).toFixed(2)}</p>
+                      <p className="text-sm font-medium">Discount: ${(totals.discount / 100).toFixed(2)}</p>
+                      {taxState && <p className="text-sm font-medium">Sales Tax ({taxState} {taxRate}%): ${(totals.tax / 100).toFixed(2)}</p>}
+                      {totals.cardFee > 0 && <p className="text-sm font-medium">Card Processing Fee ({cardFeePercentage}%): ${(totals.cardFee / 100).toFixed(2)}</p>}
+                      <p className="text-sm font-medium text-gray-900">Total Due: ${(totals.total / 100).toFixed(2)}</p>
+                      <p className="text-sm font-medium">Deposit Due Up Front: ${(totals.deposit / 100).toFixed(2)}</p>
                     </div>
                     <div className="mt-4 flex space-x-2">
                       <button
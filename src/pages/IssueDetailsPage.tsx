@@ -32,6 +32,7 @@ export default function IssueDetailsPage() {
 
   useEffect(() => {
     const fetchIssue = async () => {
+      if (!id) return;
       try {
         setLoading(true);
         const { data, error } = await supabase
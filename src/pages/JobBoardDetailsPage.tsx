@@ -1,8 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Calendar, Save, Trash2, ArrowLeft } from 'lucide-react';
-import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
+import { addDays, subDays } from 'date-fns';
+import { deleteJob, getJob, updateJob } from '../repositories/jobBoard';
+import { getCouple } from '../repositories/couples';
+import { getServicePackage } from '../repositories/servicePackages';
+import { getVendorSchedule } from '../repositories/vendorAvailability';
+import { listVendorOptions } from '../repositories/vendors';
+import { listVenues } from '../repositories/venues';
+import { findScheduleConflicts } from '../utils/vendorAvailability';
 
 interface JobBoard {
   id: string;
@@ -13,9 +20,9 @@ interface JobBoard {
   created_at: string;
   updated_at: string | null;
   price: number | null;
-  service_package_id: string;
+  service_package_id: string | null;
   vendor_id: string | null;
-  venue_id: string;
+  venue_id: string | null;
   event_start_time: string | null;
   event_end_time: string | null;
   couple_name: string | null;
@@ -42,33 +49,21 @@ export default function JobBoardDetailsPage() {
 
   useEffect(() => {
     const fetchData = async () => {
+      if (!id) return;
       try {
         setLoading(true);
-        const [
-          jobResponse,
-          vendorsResponse,
-          venuesResponse
-        ] = await Promise.all([
-          supabase.from('job_board').select('*').eq('id', id).single().then(res => {
-            if (res.error) throw new Error(`Job fetch error: ${res.error.message}`);
-            return res;
-          }),
-          supabase.from('vendors').select('id, name').then(res => {
-            if (res.error) throw new Error(`Vendors fetch error: ${res.error.message}`);
-            return res;
-          }),
-          supabase.from('venues').select('id, name, city, state, region').then(res => {
-            if (res.error) throw new Error(`Venues fetch error: ${res.error.message}`);
-            return res;
-          }),
+        const [jobData, vendorsData, venuesData] = await Promise.all([
+          getJob(id),
+          listVendorOptions(),
+          listVenues(),
         ]);
 
-        const venue = venuesResponse.data.find(v => v.id === jobResponse.data.venue_id);
+        const venue = venuesData.find(v => v.id === jobData.venue_id);
         const mappedJob: JobBoard = {
-          ...jobResponse.data,
-          couple_name: jobResponse.data.couple_id ? (await supabase.from('couples').select('name').eq('id', jobResponse.data.couple_id).single()).data?.name || 'N/A' : 'N/A',
-          service_package_name: jobResponse.data.service_package_id ? (await supabase.from('service_packages').select('name').eq('id', jobResponse.data.service_package_id).single()).data?.name || 'N/A' : 'N/A',
-          vendor_name: jobResponse.data.vendor_id ? (vendorsResponse.data.find(v => v.id === jobResponse.data.vendor_id)?.name || 'N/A') : null,
+          ...jobData,
+          couple_name: jobData.couple_id ? (await getCouple(jobData.couple_id).catch(() => null))?.name || 'N/A' : 'N/A',
+          service_package_name: jobData.service_package_id ? (await getServicePackage(jobData.service_package_id).catch(() => null))?.name || 'N/A' : 'N/A',
+          vendor_name: jobData.vendor_id ? (vendorsData.find(v => v.id === jobData.vendor_id)?.name || 'N/A') : null,
           venue_name: venue ? venue.name : 'N/A',
           venue_city: venue ? venue.city : 'N/A',
           venue_state: venue ? venue.state : 'N/A',
@@ -76,7 +71,7 @@ export default function JobBoardDetailsPage() {
         };
         setJob(mappedJob);
         setVendorId(mappedJob.vendor_id);
-        setVendors(vendorsResponse.data || []);
+        setVendors(vendorsData);
       } catch (error: any) {
         console.error('Error fetching job details:', error);
         toast.error(error.message || 'Failed to load job details');
@@ -92,15 +87,32 @@ export default function JobBoardDetailsPage() {
     if (!job) return;
 
     try {
-      const { error } = await supabase
-        .from('job_board')
-        .update({
-          vendor_id: vendorId,
-          is_open: !vendorId,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', job.id);
-      if (error) throw error;
+      // Check the newly assigned vendor is free for the event
+      if (vendorId && vendorId !== job.vendor_id && job.event_start_time && job.event_end_time) {
+        const schedule = await getVendorSchedule(
+          vendorId,
+          subDays(new Date(job.event_start_time), 1).toISOString(),
+          addDays(new Date(job.event_end_time), 1).toISOString()
+        );
+        const conflicts = findScheduleConflicts(
+          { start_time: job.event_start_time, end_time: job.event_end_time, venue_id: job.venue_id },
+          schedule
+        );
+        const blocking = conflicts.find(conflict => conflict.blocking);
+        if (blocking) {
+          toast.error(`Cannot assign this vendor: ${blocking.message}`);
+          return;
+        }
+        if (conflicts.length > 0 && !window.confirm(`${conflicts.map(conflict => conflict.message).join('\n')}\n\nAssign anyway?`)) {
+          return;
+        }
+      }
+
+      await updateJob(job.id, {
+        vendor_id: vendorId,
+        is_open: !vendorId,
+        updated_at: new Date().toISOString(),
+      });
 
       toast.success('Job updated successfully!');
       navigate('/dashboard/job-board');
@@ -114,11 +126,7 @@ export default function JobBoardDetailsPage() {
     if (!job) return;
 
     try {
-      const { error } = await supabase
-        .from('job_board')
-        .delete()
-        .eq('id', job.id);
-      if (error) throw error;
+      await deleteJob(job.id);
 
       toast.success('Job deleted successfully!');
       navigate('/dashboard/job-board');
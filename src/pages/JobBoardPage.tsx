@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Calendar, Plus, Upload, Check, Filter } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { createJobs, listJobs } from '../repositories/jobBoard';
+import { listCouples } from '../repositories/couples';
+import { listServicePackageOptions } from '../repositories/servicePackages';
+import { listVenues } from '../repositories/venues';
+import { listVendorOptions } from '../repositories/vendors';
 import toast from 'react-hot-toast';
 import Select from 'react-select';
 
@@ -14,9 +18,9 @@ interface JobBoard {
   created_at: string;
   updated_at: string | null;
   price: number | null;
-  service_package_id: string;
+  service_package_id: string | null;
   vendor_id: string | null;
-  venue_id: string;
+  venue_id: string | null;
   event_start_time: string | null;
   event_end_time: string | null;
   couple_name: string | null;
@@ -34,14 +38,14 @@ interface ServicePackage {
   id: string;
   name: string;
   price: number;
-  description: string;
+  description: string | null;
 }
 
 interface Venue {
   id: string;
   name: string;
   city: string | null;
-  state: string;
+  state: string | null;
   region: string | null;
 }
 
@@ -76,39 +80,18 @@ export default function JobBoardPage() {
   const fetchData = async () => {
     try {
       setLoading(true);
-      const [
-        jobsResponse,
-        couplesResponse,
-        packagesResponse,
-        venuesResponse,
-        vendorsResponse
-      ] = await Promise.all([
-        supabase.from('job_board').select('*').order('created_at', { ascending: false }).then(res => {
-          if (res.error) throw new Error(`Jobs fetch error: ${res.error.message}`);
-          return res;
-        }),
-        supabase.from('couples').select('id, name, wedding_date').then(res => {
-          if (res.error) throw new Error(`Couples fetch error: ${res.error.message}`);
-          return res;
-        }),
-        supabase.from('service_packages').select('id, name, price, description').then(res => {
-          if (res.error) throw new Error(`Packages fetch error: ${res.error.message}`);
-          return res;
-        }),
-        supabase.from('venues').select('id, name, city, state, region').then(res => {
-          if (res.error) throw new Error(`Venues fetch error: ${res.error.message}`);
-          return res;
-        }),
-        supabase.from('vendors').select('id, name').then(res => {
-          if (res.error) throw new Error(`Vendors fetch error: ${res.error.message}`);
-          return res;
-        }),
+      const [jobsData, couplesData, packagesData, venuesData, vendorsData] = await Promise.all([
+        listJobs(),
+        listCouples(),
+        listServicePackageOptions(),
+        listVenues(),
+        listVendorOptions(),
       ]);
 
-      const mappedJobs = jobsResponse.data.map(job => {
-        const couple = couplesResponse.data.find(c => c.id === job.couple_id);
-        const packageData = packagesResponse.data.find(p => p.id === job.service_package_id);
-        const vendor = job.vendor_id ? (vendorsResponse.data.find(v => v.id === job.vendor_id) || { name: 'N/A' }) : null;
+      const mappedJobs = jobsData.map(job => {
+        const couple = couplesData.find(c => c.id === job.couple_id);
+        const packageData = packagesData.find(p => p.id === job.service_package_id);
+        const vendor = job.vendor_id ? (vendorsData.find(v => v.id === job.vendor_id) || { name: 'N/A' }) : null;
         return {
           ...job,
           couple_name: couple ? couple.name : 'N/A',
@@ -117,10 +100,10 @@ export default function JobBoardPage() {
         };
       });
       setJobs(mappedJobs);
-      setCouples(couplesResponse.data || []);
-      setServicePackages(packagesResponse.data || []);
-      setVenues(venuesResponse.data || []);
-      setVendors(vendorsResponse.data || []);
+      setCouples(couplesData);
+      setServicePackages(packagesData);
+      setVenues(venuesData);
+      setVendors(vendorsData);
       setOpenJobsCount(mappedJobs.filter(job => job.is_open).length);
     } catch (error: any) {
       console.error('Error fetching job board data:', error);
@@ -165,24 +148,21 @@ export default function JobBoardPage() {
         formattedEventEndTime = new Date(newJob.event_end_time).toISOString();
       }
 
-      const { error } = await supabase
-        .from('job_board')
-        .insert({
-          id: crypto.randomUUID(),
-          job_type: newJob.job_type,
-          description: newJob.description || null,
-          couple_id: newJob.couple_id,
-          is_open: true,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          price: newJob.price ? newJob.price * 100 : null,
-          service_package_id: newJob.service_package_id,
-          vendor_id: null,
-          venue_id: newJob.venue_id,
-          event_start_time: formattedEventStartTime,
-          event_end_time: formattedEventEndTime,
-        });
-      if (error) throw error;
+      await createJobs([{
+        id: crypto.randomUUID(),
+        job_type: newJob.job_type,
+        description: newJob.description || null,
+        couple_id: newJob.couple_id,
+        is_open: true,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        price: newJob.price ? newJob.price * 100 : null,
+        service_package_id: newJob.service_package_id,
+        vendor_id: null,
+        venue_id: newJob.venue_id,
+        event_start_time: formattedEventStartTime,
+        event_end_time: formattedEventEndTime,
+      }]);
 
       toast.success('Job added successfully!');
       setIsAddModalOpen(false);
@@ -243,8 +223,7 @@ export default function JobBoardPage() {
         }
       }
 
-      const { error } = await supabase.from('job_board').insert(jobsToInsert);
-      if (error) throw error;
+      await createJobs(jobsToInsert);
 
       toast.success('Jobs imported successfully!');
       setIsImportModalOpen(false);
@@ -260,7 +239,7 @@ export default function JobBoardPage() {
     setNewJob(prev => {
       const selectedPackage = servicePackages.find(pkg => pkg.id === selectedId);
       const newPrice = selectedPackage ? (selectedPackage.price / 100) * 0.5 : 0;
-      const newDescription = selectedPackage ? selectedPackage.description : '';
+      const newDescription = selectedPackage?.description || '';
       return { ...prev, service_package_id: selectedId, price: newPrice, description: newDescription };
     });
   };
@@ -279,7 +258,7 @@ export default function JobBoardPage() {
 
   const venueOptions = venues.map(venue => ({
     value: venue.id,
-    label: `${venue.name} (${venue.city || 'N/A'}, ${venue.state}${venue.region ? `, ${venue.region}` : ''})`,
+    label: `${venue.name} (${venue.city || 'N/A'}, ${venue.state || 'N/A'}${venue.region ? `, ${venue.region}` : ''})`,
   }));
 
   const handleVenueChange = (selectedOption: any) => {
@@ -36,7 +36,7 @@ interface LeadNote {
   id: string;
   lead_id: string;
   note_text: string;
-  created_by: string;
+  created_by: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -79,7 +79,7 @@ export default function LeadDetailsPage() {
 
   const handleAddNote = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newNote.trim()) return;
+    if (!id || !newNote.trim()) return;
 
     try {
       const { error } = await supabase
@@ -41,6 +41,7 @@ export default function MessageDetailsPage() {
 
   useEffect(() => {
     const fetchData = async () => {
+      if (!id) return;
       try {
         setLoading(true);
 
@@ -54,7 +55,7 @@ export default function MessageDetailsPage() {
         if (participantsRes.error) throw participantsRes.error;
         if (conversationRes.error) throw conversationRes.error;
 
-        const senderIds = messagesRes.data.map((m: Message) => m.sender_id);
+        const senderIds = messagesRes.data.map(m => m.sender_id);
         const participantIds = participantsRes.data.map((p: any) => p.user_id);
         const uniqueIds = [...new Set([...senderIds, ...participantIds])];
 
@@ -101,7 +102,7 @@ export default function MessageDetailsPage() {
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !newMessage.trim()) return;
+    if (!user || !id || !newMessage.trim()) return;
 
     const message = {
       sender_id: user.id,
@@ -132,7 +133,7 @@ export default function MessageDetailsPage() {
   };
 
   const handleJoinAsSupport = async () => {
-    if (!user) return;
+    if (!user || !id) return;
 
     try {
       const { data: existing } = await supabase
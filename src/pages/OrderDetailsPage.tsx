@@ -10,7 +10,7 @@ interface Order {
   status: string;
   total_amount: number;
   shipping_address: any;
-  payment_intent_id: string;
+  payment_intent_id: string | null;
   created_at: string;
   updated_at: string;
   vendor_id: string | null;
@@ -33,7 +33,7 @@ interface Order {
     rental_end_date: string | null;
     created_at: string;
     updated_at: string;
-    variants: string;
+    variants: string | null;
     product_name: string;
     rental_duration?: number;
     rental_price?: number;
@@ -51,6 +51,7 @@ export default function OrderDetailsPage() {
 
   useEffect(() => {
     const fetchData = async () => {
+      if (!id) return;
       try {
         setLoading(true);
 
@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { AlarmClock, Mail } from 'lucide-react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
+import { OverdueInstallment, listOverdueInstallments } from '../repositories/installments';
+import { sendInvoiceEmail } from '../repositories/invoices';
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const recipientName = (installment: OverdueInstallment) => {
+  const invoice = installment.invoices;
+  if (!invoice) return 'Unknown';
+  if (invoice.recipient_type === 'vendor') return invoice.vendors?.name || 'Unknown vendor';
+  const couple = invoice.couples;
+  return couple ? [couple.partner1_name, couple.partner2_name].filter(Boolean).join(' & ') : 'Unknown couple';
+};
+
+export default function OverdueInstallmentsPage() {
+  const [installments, setInstallments] = useState<OverdueInstallment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [remindingId, setRemindingId] = useState<string | null>(null);
+  const canRemind = usePermission('payments.write');
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  useEffect(() => {
+    const fetchInstallments = async () => {
+      try {
+        setLoading(true);
+        setInstallments(await listOverdueInstallments(today));
+      } catch (error) {
+        console.error('Error fetching overdue installments:', error);
+        toast.error('Failed to load overdue installments');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInstallments();
+  }, [today]);
+
+  const handleRemind = async (installment: OverdueInstallment) => {
+    try {
+      setRemindingId(installment.id);
+      await sendInvoiceEmail(installment.invoice_id, installment.id);
+      toast.success(`Reminder sent to ${recipientName(installment)}`);
+      const remindedAt = new Date().toISOString();
+      setInstallments(prev => prev.map(row => (row.id === installment.id ? { ...row, last_reminded_at: remindedAt } : row)));
+    } catch (error) {
+      console.error('Error sending installment reminder:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send reminder');
+    } finally {
+      setRemindingId(null);
+    }
+  };
+
+  const totalOverdue = installments.reduce((sum, installment) => sum + installment.amount - installment.paid_amount, 0);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <AlarmClock className="h-8 w-8 text-blue-600 mr-3" />
+          Overdue Installments
+        </h1>
+        <p className="mt-2 text-gray-500">
+          {installments.length} installment{installments.length === 1 ? '' : 's'} past due, {formatCents(totalOverdue)} outstanding.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {installments.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">No installments are overdue.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invoice</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Installment</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Reminder</th>
+                  {canRemind && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {installments.map(installment => (
+                  <tr key={installment.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{recipientName(installment)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Link to={`/dashboard/invoices/${installment.invoice_id}`} className="text-blue-600 hover:text-blue-800">
+                        {installment.invoice_id.slice(0, 8)}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">#{installment.sequence}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-red-600">
+                      {format(parseISO(installment.due_date), 'MMM d, yyyy')}
+                      <span className="block text-xs text-gray-500">
+                        {differenceInCalendarDays(parseISO(today), parseISO(installment.due_date))} days late
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatCents(installment.amount - installment.paid_amount)}
+                      {installment.paid_amount > 0 && (
+                        <span className="block text-xs text-gray-500">of {formatCents(installment.amount)}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {installment.last_reminded_at ? new Date(installment.last_reminded_at).toLocaleDateString() : 'Never'}
+                    </td>
+                    {canRemind && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <button
+                          onClick={() => handleRemind(installment)}
+                          disabled={remindingId === installment.id}
+                          className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          <Mail className="h-4 w-4 mr-1" /> Send Reminder
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
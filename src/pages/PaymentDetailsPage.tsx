@@ -1,20 +1,28 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { Calendar } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { Calendar, RotateCcw, ShieldAlert } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
+import { Refund, listRefundsForPayment } from '../repositories/refunds';
+import { refundableAmount } from '../utils/refunds';
+import RefundPaymentModal from '../components/RefundPaymentModal';
+import RefundHistory from '../components/RefundHistory';
+import RecordDisputeModal from '../components/RecordDisputeModal';
+import { Dispute, listDisputesForPayment } from '../repositories/disputes';
+import { getPaymentDetails } from '../repositories/payments';
+import { disputeStatusLabels, disputeStatusStyles, formatDisputeReason } from '../utils/disputes';
 
 interface InvoiceLineItem {
   id: string;
   type: 'service_package' | 'store_product' | 'custom';
-  service_package_id?: string;
-  store_product_id?: string;
-  booking_id?: string;
-  custom_description?: string;
+  service_package_id?: string | null;
+  store_product_id?: string | null;
+  booking_id?: string | null;
+  custom_description?: string | null;
   custom_price: number;
   quantity: number;
-  vendor_id?: string;
-  service_package_name?: string;
+  vendor_id?: string | null;
+  service_package_name?: string | null;
   booking_details?: {
     packageName: string;
     packagePrice: string;
@@ -24,54 +32,49 @@ interface InvoiceLineItem {
     stripeAccountId: string;
     eventTitle: string;
     payments: { amount: number; payment_type: string; created_at: string }[];
-  };
+  } | null;
 }
 
 interface Payment {
   id: string;
-  invoice_id?: string;
-  booking_id?: string;
+  invoice_id?: string | null;
+  booking_id?: string | null;
   amount: number;
   status: string;
-  stripe_payment_id?: string;
-  to_platform?: boolean;
+  stripe_payment_id?: string | null;
+  to_platform?: boolean | null;
   created_at: string;
-  payment_type?: string;
+  payment_type?: string | null;
   invoice?: {
     id: string;
-    couple_id?: string;
-    vendor_id?: string;
+    couple_id?: string | null;
+    vendor_id?: string | null;
     total_amount: number;
     remaining_balance: number;
     status: string;
     invoice_line_items?: InvoiceLineItem[];
-  };
+  } | null;
   booking?: {
     id: string;
-    package_id?: string;
-    couple_id?: string;
-    vendor_id?: string;
-  };
-  service_package?: { name: string };
-  couple?: { partner1_name: string; partner2_name?: string };
-  vendor?: { name: string; stripe_account_id?: string };
-}
-
-interface Vendor {
-  id: string;
-  name: string;
-  user_id: string;
-  email: string;
-  phone: string;
-  stripe_account_id?: string;
+    package_id?: string | null;
+    couple_id?: string | null;
+    vendor_id?: string | null;
+  } | null;
+  service_package?: { name: string } | null;
+  couple?: { partner1_name: string | null; partner2_name?: string | null } | null;
+  vendor?: { name: string; stripe_account_id?: string | null } | null;
 }
 
 export default function PaymentDetailsPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [payment, setPayment] = useState<Payment | null>(null);
-  const [vendors, setVendors] = useState<Vendor[]>([]);
   const [loading, setLoading] = useState(true);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [isRefundModalOpen, setIsRefundModalOpen] = useState(false);
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [isDisputeModalOpen, setIsDisputeModalOpen] = useState(false);
+  const canWritePayments = usePermission('payments.write');
 
   useEffect(() => {
     fetchPayment();
@@ -84,249 +87,58 @@ export default function PaymentDetailsPage() {
         throw new Error('Payment ID is undefined');
       }
 
-      console.log('[PaymentDetailsPage] Fetching payment with ID:', id);
-      const { data: paymentData, error: paymentError } = await supabase
-        .from('payments')
-        .select('id, invoice_id, booking_id, amount, status, stripe_payment_id, to_platform, created_at, payment_type')
-        .eq('id', id)
-        .single();
-
-      if (paymentError) {
-        console.error('[PaymentDetailsPage] Supabase payment error:', JSON.stringify(paymentError, null, 2));
-        throw new Error(`Failed to fetch payment: ${paymentError.message}`);
-      }
-
-      if (!paymentData) {
-        throw new Error('No payment found for the given ID');
-      }
-
-      let invoice = null;
-      let booking = null;
-      let service_package = null;
-      let couple = null;
-      let vendor = null;
-
-      // Fetch vendors and users to get email
-      const { data: vendorsData, error: vendorsError } = await supabase
-        .from('vendors')
-        .select('id, name, user_id, phone, stripe_account_id');
-      if (vendorsError) {
-        console.warn('[PaymentDetailsPage] Vendors fetch error:', JSON.stringify(vendorsError, null, 2));
-      }
-
-      const { data: usersData, error: usersError } = await supabase
-        .from('users')
-        .select('id, email');
-      if (usersError) {
-        console.warn('[PaymentDetailsPage] Users fetch error:', JSON.stringify(usersError, null, 2));
-      }
-
-      const vendorWithEmail = vendorsData?.map((v: any) => {
-        const user = usersData?.find((u: any) => u.id === v.user_id);
-        return {
-          ...v,
-          email: user ? user.email : 'N/A',
-        };
-      }) || [];
-      setVendors(vendorWithEmail);
-
-      // Fetch associated payments for bookings or invoice
-      let paymentsData: Payment[] = [];
-      if (paymentData.invoice_id || paymentData.booking_id) {
-        const conditions: string[] = [];
-        if (paymentData.invoice_id) conditions.push(`invoice_id.eq.${paymentData.invoice_id}`);
-        if (paymentData.booking_id) conditions.push(`booking_id.eq.${paymentData.booking_id}`);
-        const { data: fetchedPayments, error: paymentsError } = await supabase
-          .from('payments')
-          .select('id, invoice_id, booking_id, amount, status, stripe_payment_id, to_platform, created_at, payment_type')
-          .or(conditions.join(','));
-
-        if (paymentsError) {
-          console.warn('[PaymentDetailsPage] Payments fetch error:', JSON.stringify(paymentsError, null, 2));
-        } else {
-          paymentsData = fetchedPayments || [];
-        }
-      }
-
-      // Fetch invoice data if invoice_id exists
-      if (paymentData.invoice_id) {
-        const { data: invoiceData, error: invoiceError } = await supabase
-          .from('invoices')
-          .select('id, couple_id, vendor_id, total_amount, remaining_balance, status')
-          .eq('id', paymentData.invoice_id)
-          .single();
-
-        if (invoiceError) {
-          console.warn('[PaymentDetailsPage] Invoice fetch error:', JSON.stringify(invoiceError, null, 2));
-        } else {
-          console.log('[PaymentDetailsPage] Invoice data:', JSON.stringify(invoiceData, null, 2));
-          invoice = invoiceData;
-
-          // Fetch invoice line items
-          const { data: lineItemsData, error: lineItemsError } = await supabase
-            .from('invoice_line_items')
-            .select('id, type, service_package_id, store_product_id, booking_id, custom_description, custom_price, quantity, vendor_id')
-            .eq('invoice_id', paymentData.invoice_id);
-
-          if (lineItemsError) {
-            console.warn('[PaymentDetailsPage] Line items fetch error:', JSON.stringify(lineItemsError, null, 2));
-          } else {
-            console.log('[PaymentDetailsPage] Line items data:', JSON.stringify(lineItemsData, null, 2));
-            invoice.invoice_line_items = await Promise.all(
-              lineItemsData.map(async (item) => {
-                let service_package_name = null;
-                let booking_details = null;
-
-                if (item.service_package_id) {
-                  const { data: spData, error: spError } = await supabase
-                    .from('service_packages')
-                    .select('name')
-                    .eq('id', item.service_package_id)
-                    .single();
-                  if (!spError) {
-                    service_package_name = spData.name;
-                  } else {
-                    console.warn('[PaymentDetailsPage] Service package fetch error for ID:', item.service_package_id, JSON.stringify(spError, null, 2));
-                  }
-                }
-
-                if (item.booking_id) {
-                  const { data: bookingData, error: bookingError } = await supabase
-                    .from('bookings')
-                    .select('id, package_id, couple_id, vendor_id, amount, initial_payment, service_type, event_id')
-                    .eq('id', item.booking_id)
-                    .single();
-                  if (!bookingError) {
-                    const [packageData, eventData] = await Promise.all([
-                      bookingData.package_id
-                        ? supabase.from('service_packages').select('name, price').eq('id', bookingData.package_id).single()
-                        : Promise.resolve({ data: null, error: null }),
-                      bookingData.event_id
-                        ? supabase.from('events').select('title').eq('id', bookingData.event_id).single()
-                        : Promise.resolve({ data: null, error: null }),
-                    ]);
-
-                    const vendor = vendorWithEmail.find(v => v.id === bookingData.vendor_id);
-
-                    if (!packageData.error && !eventData.error) {
-                      booking_details = {
-                        packageName: packageData.data?.name || bookingData.service_type || 'N/A',
-                        packagePrice: packageData.data?.price ? (packageData.data.price / 100).toFixed(2) : (bookingData.amount / 100).toFixed(2) || 'N/A',
-                        vendorName: vendor?.name || 'N/A',
-                        vendorEmail: vendor?.email || 'N/A',
-                        vendorPhone: vendor?.phone || 'N/A',
-                        stripeAccountId: vendor?.stripe_account_id || 'N/A',
-                        eventTitle: eventData.data?.title || 'N/A',
-                        payments: paymentsData
-                          ?.filter(p => p.booking_id === item.booking_id && p.status === 'succeeded')
-                          .map(p => ({
-                            amount: p.amount,
-                            payment_type: p.payment_type || 'Payment',
-                            created_at: p.created_at,
-                          })) || [],
-                      };
-                    } else {
-                      console.warn('[PaymentDetailsPage] Booking details fetch errors:', {
-                        packageError: packageData.error,
-                        eventError: eventData.error,
-                      });
-                    }
-                  } else {
-                    console.warn('[PaymentDetailsPage] Booking fetch error for ID:', item.booking_id, JSON.stringify(bookingError, null, 2));
-                  }
-                }
-
-                return {
-                  ...item,
-                  service_package_name,
-                  booking_details,
-                };
-              })
-            );
-          }
-
-          if (invoiceData?.couple_id) {
-            const { data: coupleData, error: coupleError } = await supabase
-              .from('couples')
-              .select('partner1_name, partner2_name')
-              .eq('id', invoiceData.couple_id)
-              .single();
-            if (!coupleError) {
-              couple = coupleData;
-            } else {
-              console.warn('[PaymentDetailsPage] Couple fetch error for ID:', invoiceData.couple_id, JSON.stringify(coupleError, null, 2));
-            }
-          }
-
-          if (invoiceData?.vendor_id) {
-            const vendor = vendorWithEmail.find(v => v.id === invoiceData.vendor_id);
-            if (vendor) {
-              vendor = { name: vendor.name, stripe_account_id: vendor.stripe_account_id };
-            } else {
-              console.warn('[PaymentDetailsPage] Vendor not found for ID:', invoiceData.vendor_id);
-            }
-          }
-        }
-      }
-
-      // Fetch booking data if booking_id exists
-      if (paymentData.booking_id) {
-        const { data: bookingData, error: bookingError } = await supabase
-          .from('bookings')
-          .select('id, package_id, couple_id, vendor_id')
-          .eq('id', paymentData.booking_id)
-          .single();
-
-        if (bookingError) {
-          console.warn('[PaymentDetailsPage] Booking fetch error:', JSON.stringify(bookingError, null, 2));
-        } else {
-          booking = bookingData;
-
-          if (bookingData?.package_id) {
-            const { data: spData, error: spError } = await supabase
-              .from('service_packages')
-              .select('name')
-              .eq('id', bookingData.package_id)
-              .single();
-            if (!spError) {
-              service_package = spData;
-            } else {
-              console.warn('[PaymentDetailsPage] Service package fetch error for ID:', bookingData.package_id, JSON.stringify(spError, null, 2));
-            }
-          }
-
-          if (bookingData?.couple_id && !couple) {
-            const { data: coupleData, error: coupleError } = await supabase
-              .from('couples')
-              .select('partner1_name, partner2_name')
-              .eq('id', bookingData.couple_id)
-              .single();
-            if (!coupleError) {
-              couple = coupleData;
-            } else {
-              console.warn('[PaymentDetailsPage] Couple fetch error for ID:', bookingData.couple_id, JSON.stringify(coupleError, null, 2));
-            }
-          }
-
-          if (bookingData?.vendor_id && !vendor) {
-            const vendor = vendorWithEmail.find(v => v.id === bookingData.vendor_id);
-            if (vendor) {
-              vendor = { name: vendor.name, stripe_account_id: vendor.stripe_account_id };
-            } else {
-              console.warn('[PaymentDetailsPage] Vendor not found for ID:', bookingData.vendor_id);
-            }
-          }
-        }
-      }
+      const { payment: paymentData, relatedPayments, vendorEmails } = await getPaymentDetails(id);
+      const { invoices: invoiceData, bookings: bookingData, ...paymentFields } = paymentData;
+
+      const invoice: Payment['invoice'] = invoiceData && {
+        id: invoiceData.id,
+        couple_id: invoiceData.couple_id,
+        vendor_id: invoiceData.vendor_id,
+        total_amount: invoiceData.total_amount,
+        remaining_balance: invoiceData.remaining_balance,
+        status: invoiceData.status,
+        invoice_line_items: invoiceData.invoice_line_items.map(({ service_packages, bookings, ...item }) => ({
+          ...item,
+          service_package_name: service_packages?.name || null,
+          booking_details: bookings && {
+            packageName: bookings.service_packages?.name || bookings.service_type || 'N/A',
+            packagePrice: ((bookings.service_packages?.price || bookings.amount) / 100).toFixed(2),
+            vendorName: bookings.vendors?.name || 'N/A',
+            vendorEmail: (bookings.vendors?.user_id && vendorEmails[bookings.vendors.user_id]) || 'N/A',
+            vendorPhone: bookings.vendors?.phone || 'N/A',
+            stripeAccountId: bookings.vendors?.stripe_account_id || 'N/A',
+            eventTitle: bookings.events?.title || 'N/A',
+            payments: relatedPayments
+              .filter(p => p.booking_id === item.booking_id && p.status === 'succeeded')
+              .map(p => ({
+                amount: p.amount,
+                payment_type: p.payment_type || 'Payment',
+                created_at: p.created_at,
+              })),
+          },
+        })),
+      };
+      const booking: Payment['booking'] = bookingData && {
+        id: bookingData.id,
+        package_id: bookingData.package_id,
+        couple_id: bookingData.couple_id,
+        vendor_id: bookingData.vendor_id,
+      };
 
       setPayment({
-        ...paymentData,
+        ...paymentFields,
         invoice,
         booking,
-        service_package,
-        couple,
-        vendor,
+        service_package: bookingData?.service_packages || null,
+        couple: invoiceData?.couples || bookingData?.couples || null,
+        vendor: invoiceData?.vendors || bookingData?.vendors || null,
       });
+      const [refundRows, disputeRows] = await Promise.all([
+        listRefundsForPayment(paymentData.id),
+        listDisputesForPayment(paymentData.id),
+      ]);
+      setRefunds(refundRows);
+      setDisputes(disputeRows);
     } catch (error: any) {
       console.error('[PaymentDetailsPage] Fetch payment error:', JSON.stringify(error, null, 2));
       toast.error(error.message || 'Failed to load payment details');
@@ -352,6 +164,10 @@ export default function PaymentDetailsPage() {
     );
   }
 
+  const refundable = refundableAmount(payment, refunds);
+  const canRefund = canWritePayments && ['succeeded', 'paid'].includes(payment.status) && refundable > 0;
+  const canRecordDispute = canWritePayments && ['succeeded', 'paid'].includes(payment.status);
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       <div className="flex items-center justify-between">
@@ -359,12 +175,32 @@ export default function PaymentDetailsPage() {
           <Calendar className="h-8 w-8 text-blue-600 mr-3" />
           Payment Details: {payment.stripe_payment_id || payment.id}
         </h1>
-        <button
-          onClick={() => navigate('/dashboard/payments')}
-          className="px-3 py-1 bg-gray-600 text-white rounded-lg hover:bg-gray-700 text-sm"
-        >
-          Back to Payments
-        </button>
+        <div className="flex space-x-2">
+          {canRefund && (
+            <button
+              onClick={() => setIsRefundModalOpen(true)}
+              className="px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm flex items-center"
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Refund
+            </button>
+          )}
+          {canRecordDispute && (
+            <button
+              onClick={() => setIsDisputeModalOpen(true)}
+              className="px-3 py-1 bg-orange-600 text-white rounded-lg hover:bg-orange-700 text-sm flex items-center"
+            >
+              <ShieldAlert className="h-4 w-4 mr-1" />
+              Record Dispute
+            </button>
+          )}
+          <button
+            onClick={() => navigate('/dashboard/payments')}
+            className="px-3 py-1 bg-gray-600 text-white rounded-lg hover:bg-gray-700 text-sm"
+          >
+            Back to Payments
+          </button>
+        </div>
       </div>
 
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
@@ -401,9 +237,36 @@ export default function PaymentDetailsPage() {
             <label className="text-sm font-medium text-gray-500">Recipient</label>
             <p className="text-sm text-gray-900">{payment.to_platform ? 'B. Remembered' : payment.vendor?.stripe_account_id || 'N/A'}</p>
           </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500">Refunded</label>
+            <p className="text-sm text-gray-900">${((payment.amount - refundable) / 100).toFixed(2)}</p>
+          </div>
         </div>
       </div>
 
+      <RefundHistory refunds={refunds} />
+
+      {disputes.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <ShieldAlert className="h-5 w-5 text-blue-600 mr-2" />
+            Disputes
+          </h2>
+          <ul className="divide-y divide-gray-200">
+            {disputes.map(dispute => (
+              <li key={dispute.id} className="py-2 flex items-center justify-between text-sm">
+                <Link to={`/dashboard/disputes/${dispute.id}`} className="text-blue-600 hover:text-blue-800">
+                  ${(dispute.amount / 100).toFixed(2)} — {formatDisputeReason(dispute.reason)}
+                </Link>
+                <span className={`px-2 py-1 text-xs font-medium rounded-full ${disputeStatusStyles[dispute.status]}`}>
+                  {disputeStatusLabels[dispute.status]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {payment.invoice && (
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
           <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
@@ -519,6 +382,33 @@ export default function PaymentDetailsPage() {
           </div>
         </div>
       )}
+
+      <RefundPaymentModal
+        isOpen={isRefundModalOpen}
+        onClose={() => setIsRefundModalOpen(false)}
+        payment={{
+          id: payment.id,
+          amount: payment.amount,
+          payment_type: payment.payment_type ?? null,
+          to_platform: !!payment.to_platform,
+          booking_id: payment.booking_id ?? null,
+          stripe_payment_id: payment.stripe_payment_id ?? null,
+        }}
+        refunds={refunds}
+        onRefunded={() => fetchPayment()}
+      />
+
+      <RecordDisputeModal
+        isOpen={isDisputeModalOpen}
+        onClose={() => setIsDisputeModalOpen(false)}
+        payment={{
+          id: payment.id,
+          amount: payment.amount,
+          booking_id: payment.booking_id ?? null,
+          vendor_id: payment.booking?.vendor_id ?? payment.invoice?.vendor_id ?? null,
+        }}
+        onRecorded={() => fetchPayment()}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,31 +1,28 @@
 import React, { useState, useEffect, ChangeEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Calendar, Eye, Plus, Upload, ChevronLeft, ChevronRight } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { listBookingOptions, BookingOption } from '../repositories/bookings';
+import { listCoupleOptions, CoupleOption } from '../repositories/couples';
+import { listInvoicesWithParties } from '../repositories/invoices';
+import { CreditNoteWithParties, listCreditNotesWithParties } from '../repositories/creditNotes';
+import { listPaymentsWithDetails, createPayments, Payment as PaymentRecord } from '../repositories/payments';
+import { listVendorOptions, VendorOption } from '../repositories/vendors';
 import toast from 'react-hot-toast';
 import Select from 'react-select';
 import TakePaymentModal from '../components/TakePaymentModal';
+import { usePermission } from '../hooks/usePermission';
 
-interface Payment {
-  id: string;
-  invoice_id?: string;
-  booking_id?: string;
-  amount: number;
-  status: string;
-  stripe_payment_id?: string;
-  to_platform?: boolean;
-  created_at: string;
-  payment_type?: string;
-  invoice?: {
+type Payment = PaymentRecord & {
+  invoice: {
     id: string;
-    couple_id?: string;
-    vendor_id?: string;
+    couple_id: string | null;
+    vendor_id: string | null;
     remaining_balance: number;
-  };
-  service_package?: { name: string };
-  couple?: { partner1_name: string; partner2_name?: string };
-  vendor?: { name: string; stripe_account_id?: string };
-}
+  } | null;
+  service_package: { name: string } | null;
+  couple: { partner1_name: string | null; partner2_name: string | null } | null;
+  vendor: { name: string; stripe_account_id: string | null } | null;
+};
 
 interface Invoice {
   id: string;
@@ -33,26 +30,10 @@ interface Invoice {
   vendor_name: string;
   service_name: string;
   remaining_balance: number;
+  credited_amount: number;
   status: string;
-}
-
-interface Vendor {
-  id: string;
-  name: string;
-}
-
-interface Couple {
-  id: string;
-  partner1_name: string;
-  partner2_name?: string;
-}
-
-interface Booking {
-  id: string;
-  couple_id: string;
-  vendor_id: string;
-  package_id: string;
-  service_type: string;
+  couple_id?: string | null;
+  vendor_id?: string | null;
 }
 
 const PaymentEntryModal: React.FC<{
@@ -68,33 +49,29 @@ const PaymentEntryModal: React.FC<{
   const [status, setStatus] = useState('succeeded');
   const [paymentType, setPaymentType] = useState('deposit');
   const [createdAt, setCreatedAt] = useState(new Date().toISOString().slice(0, 16));
-  const [vendors, setVendors] = useState<Vendor[]>([]);
-  const [couples, setCouples] = useState<Couple[]>([]);
-  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [vendors, setVendors] = useState<VendorOption[]>([]);
+  const [couples, setCouples] = useState<CoupleOption[]>([]);
+  const [bookings, setBookings] = useState<BookingOption[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
-  const [filteredBookings, setFilteredBookings] = useState<Booking[]>([]);
+  const [filteredBookings, setFilteredBookings] = useState<BookingOption[]>([]);
   const [filteredInvoices, setFilteredInvoices] = useState<Invoice[]>([]);
 
   useEffect(() => {
     if (isOpen) {
       const fetchData = async () => {
         try {
-          const [vendorsResponse, couplesResponse, bookingsResponse, invoicesResponse] = await Promise.all([
-            supabase.from('vendors').select('id, name'),
-            supabase.from('couples').select('id, partner1_name, partner2_name'),
-            supabase.from('bookings').select('id, couple_id, vendor_id, package_id, service_type'),
-            supabase.from('invoices').select('id, couple_id, vendor_id, status, remaining_balance, couples!left(partner1_name, partner2_name), vendors!left(name), invoice_line_items!left(service_packages(name))')
+          const [vendorsData, couplesData, bookingsData, invoicesData] = await Promise.all([
+            listVendorOptions(),
+            listCoupleOptions(),
+            listBookingOptions(),
+            listInvoicesWithParties()
           ]);
 
-          if (vendorsResponse.error) throw vendorsResponse.error;
-          if (couplesResponse.error) throw couplesResponse.error;
-          if (bookingsResponse.error) throw bookingsResponse.error;
-          if (invoicesResponse.error) throw invoicesResponse.error;
-
-          setVendors(vendorsResponse.data || []);
-          setCouples(couplesResponse.data || []);
-          setBookings(bookingsResponse.data || []);
-          setInvoices(invoicesResponse.data.map(invoice => ({
+          setVendors(vendorsData);
+          setCouples(couplesData);
+          setBookings(bookingsData);
+          // Void invoices cannot take payments
+          setInvoices(invoicesData.filter(invoice => invoice.status !== 'void').map(invoice => ({
             id: invoice.id,
             couple_name: invoice.couples
               ? `${invoice.couples.partner1_name || ''} ${invoice.couples.partner2_name || ''}`.trim() || 'Unknown'
@@ -102,6 +79,7 @@ const PaymentEntryModal: React.FC<{
             vendor_name: invoice.vendors?.name || 'Unknown',
             service_name: invoice.invoice_line_items?.[0]?.service_packages?.name || 'Custom Service',
             remaining_balance: invoice.remaining_balance || 0,
+            credited_amount: invoice.credited_amount || 0,
             status: invoice.status || 'Unknown',
             couple_id: invoice.couple_id,
             vendor_id: invoice.vendor_id
@@ -313,6 +291,7 @@ const PaymentEntryModal: React.FC<{
 export default function PaymentsPage() {
   const [payments, setPayments] = useState<Payment[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNoteWithParties[]>([]);
   const [loading, setLoading] = useState(true);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [isPaymentEntryModalOpen, setIsPaymentEntryModalOpen] = useState(false);
@@ -323,6 +302,7 @@ export default function PaymentsPage() {
   const [paymentPage, setPaymentPage] = useState(1);
   const rowsPerPage = 10;
   const navigate = useNavigate();
+  const canWritePayments = usePermission('payments.write');
 
   useEffect(() => {
     fetchData();
@@ -332,111 +312,21 @@ export default function PaymentsPage() {
     try {
       setLoading(true);
 
-      // Fetch payments with invoice_id or booking_id
-      const { data: paymentData, error: paymentError } = await supabase
-        .from('payments')
-        .select('id, invoice_id, booking_id, amount, status, stripe_payment_id, to_platform, created_at, payment_type');
-
-      if (paymentError) throw paymentError;
-
-      const paymentsWithDetails = await Promise.all(
-        paymentData.map(async (payment) => {
-          let invoice = null;
-          let service_package = null;
-          let couple = null;
-          let vendor = null;
-
-          if (payment.invoice_id) {
-            const { data: invoiceData, error: invoiceError } = await supabase
-              .from('invoices')
-              .select('id, couple_id, vendor_id, remaining_balance')
-              .eq('id', payment.invoice_id)
-              .single();
-            if (invoiceError) console.warn('[PaymentsPage] Invoice fetch error:', JSON.stringify(invoiceError, null, 2));
-            else invoice = invoiceData;
-
-            if (invoiceData?.couple_id) {
-              const { data: coupleData, error: coupleError } = await supabase
-                .from('couples')
-                .select('partner1_name, partner2_name')
-                .eq('id', invoiceData.couple_id)
-                .single();
-              if (!coupleError) couple = coupleData;
-            }
-
-            if (invoiceData?.vendor_id) {
-              const { data: vendorData, error: vendorError } = await supabase
-                .from('vendors')
-                .select('name, stripe_account_id')
-                .eq('id', invoiceData.vendor_id)
-                .single();
-              if (!vendorError) vendor = vendorData;
-            }
-          }
-
-          if (payment.booking_id) {
-            const { data: bookingData, error: bookingError } = await supabase
-              .from('bookings')
-              .select('package_id, couple_id, vendor_id')
-              .eq('id', payment.booking_id)
-              .single();
-            if (bookingError) console.warn('[PaymentsPage] Booking fetch error:', JSON.stringify(bookingError, null, 2));
-            else {
-              if (bookingData?.package_id) {
-                const { data: packageData, error: packageError } = await supabase
-                  .from('service_packages')
-                  .select('name')
-                  .eq('id', bookingData.package_id)
-                  .single();
-                if (!packageError) service_package = packageData;
-              }
-
-              if (bookingData?.couple_id && !couple) {
-                const { data: coupleData, error: coupleError } = await supabase
-                  .from('couples')
-                  .select('partner1_name, partner2_name')
-                  .eq('id', bookingData.couple_id)
-                  .single();
-                if (!coupleError) couple = coupleData;
-              }
-
-              if (bookingData?.vendor_id && !vendor) {
-                const { data: vendorData, error: vendorError } = await supabase
-                  .from('vendors')
-                  .select('name, stripe_account_id')
-                  .eq('id', bookingData.vendor_id)
-                  .single();
-                if (!vendorError) vendor = vendorData;
-              }
-            }
-          }
-
-          return {
-            ...payment,
-            invoice,
-            service_package,
-            couple,
-            vendor,
-          };
-        })
-      );
+      // Fetch payments with the invoice or booking they were made against
+      const paymentData = await listPaymentsWithDetails();
+
+      const paymentsWithDetails = paymentData.map(({ invoices: invoice, bookings: booking, ...payment }) => ({
+        ...payment,
+        invoice: invoice
+          ? { id: invoice.id, couple_id: invoice.couple_id, vendor_id: invoice.vendor_id, remaining_balance: invoice.remaining_balance }
+          : null,
+        service_package: booking?.service_packages || null,
+        couple: invoice?.couples || booking?.couples || null,
+        vendor: invoice?.vendors || booking?.vendors || null,
+      }));
 
       // Fetch pending and draft invoices
-      const { data: invoicesData, error: invoicesError } = await supabase
-        .from('invoices')
-        .select(`
-          id,
-          couple_id,
-          vendor_id,
-          status,
-          remaining_balance,
-          couples!left(partner1_name, partner2_name),
-          vendors!left(name),
-          invoice_line_items!left(service_packages(name))
-        `)
-        .in('status', ['pending', 'draft']);
-
-      if (invoicesError) throw invoicesError;
+      const invoicesData = await listInvoicesWithParties(['pending', 'draft']);
 
       console.log('[PaymentsPage] Raw invoices data:', JSON.stringify(invoicesData, null, 2));
 
@@ -448,11 +338,13 @@ export default function PaymentsPage() {
         vendor_name: invoice.vendors?.name || 'Unknown',
         service_name: invoice.invoice_line_items?.[0]?.service_packages?.name || 'Custom Service',
         remaining_balance: invoice.remaining_balance || 0,
+        credited_amount: invoice.credited_amount || 0,
         status: invoice.status || 'Unknown',
       }));
 
       setPayments(paymentsWithDetails);
       setInvoices(invoicesWithDetails);
+      setCreditNotes(await listCreditNotesWithParties());
     } catch (error: any) {
       console.error('[PaymentsPage] Error fetching data:', JSON.stringify(error, null, 2));
       toast.error('Failed to load payments or invoices');
@@ -468,21 +360,15 @@ export default function PaymentsPage() {
 
   const handlePaymentEntry = async (payment: { invoice_id?: string; booking_id?: string; amount: number; status: string; payment_type: string; created_at: string }) => {
     try {
-      const { error } = await supabase
-        .from('payments')
-        .insert({
-          invoice_id: payment.invoice_id,
-          booking_id: payment.booking_id,
-          amount: payment.amount,
-          status: payment.status,
-          payment_type: payment.payment_type,
-          created_at: payment.created_at,
-          to_platform: true,
-        });
-      if (error) {
-        console.error('[PaymentsPage] Payment insert error:', JSON.stringify(error, null, 2));
-        throw error;
-      }
+      await createPayments([{
+        invoice_id: payment.invoice_id,
+        booking_id: payment.booking_id,
+        amount: payment.amount,
+        status: payment.status,
+        payment_type: payment.payment_type,
+        created_at: payment.created_at,
+        to_platform: true,
+      }]);
       toast.success('Payment recorded successfully!');
       fetchData();
     } catch (error: any) {
@@ -533,13 +419,7 @@ export default function PaymentsPage() {
       }
 
       try {
-        const { error } = await supabase
-          .from('payments')
-          .insert(paymentsToInsert);
-        if (error) {
-          console.error('[PaymentsPage] CSV payments insert error:', JSON.stringify(error, null, 2));
-          throw error;
-        }
+        await createPayments(paymentsToInsert);
         toast.success('Payments imported successfully!');
         fetchData();
       } catch (error: any) {
@@ -608,6 +488,7 @@ export default function PaymentsPage() {
           </h1>
           <p className="mt-2 text-gray-500">Manage and view all payments.</p>
         </div>
+        {canWritePayments && (
         <div className="flex gap-2">
           <button
             onClick={() => setIsPaymentEntryModalOpen(true)}
@@ -627,6 +508,7 @@ export default function PaymentsPage() {
             />
           </label>
         </div>
+        )}
       </div>
 
       {/* Invoices Table */}
@@ -657,6 +539,7 @@ export default function PaymentsPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Couple</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Service</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Credited</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount Due</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
@@ -673,19 +556,24 @@ export default function PaymentsPage() {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{invoice.couple_name}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{invoice.vendor_name}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{invoice.service_name}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {invoice.credited_amount > 0 ? `-$${(invoice.credited_amount / 100).toFixed(2)}` : '—'}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">${(invoice.remaining_balance / 100).toFixed(2)}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{invoice.status}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            openPaymentModal(invoice);
-                          }}
-                          className="inline-flex items-center px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
-                        >
-                          <Plus className="h-4 w-4 mr-1" />
-                          Take Payment
-                        </button>
+                        {canWritePayments && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              openPaymentModal(invoice);
+                            }}
+                            className="inline-flex items-center px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
+                          >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Take Payment
+                          </button>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -811,6 +699,54 @@ export default function PaymentsPage() {
         )}
       </div>
 
+      {/* Credit Notes Table */}
+      {creditNotes.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <h2 className="text-lg font-semibold text-gray-900">Credit Notes ({creditNotes.length})</h2>
+            <p className="text-sm text-gray-500">
+              ${(creditNotes.reduce((sum, creditNote) => sum + creditNote.amount, 0) / 100).toFixed(2)} credited in total
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Credit Note</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invoice ID</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Couple</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {creditNotes.map((creditNote) => (
+                  <tr
+                    key={creditNote.id}
+                    className="hover:bg-gray-50 cursor-pointer transition-colors"
+                    onClick={() => navigate(`/dashboard/invoices/${creditNote.invoice_id}`)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">-${(creditNote.amount / 100).toFixed(2)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-mono">CN-{creditNote.id.slice(0, 8).toUpperCase()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{creditNote.invoice_id}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{new Date(creditNote.created_at).toLocaleDateString()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {creditNote.invoices?.couples
+                        ? `${creditNote.invoices.couples.partner1_name} ${creditNote.invoices.couples.partner2_name || ''}`.trim()
+                        : 'N/A'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{creditNote.invoices?.vendors?.name || 'N/A'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{creditNote.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       <TakePaymentModal
         isOpen={isPaymentModalOpen}
         onClose={() => setIsPaymentModalOpen(false)}
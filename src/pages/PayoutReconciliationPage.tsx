@@ -0,0 +1,313 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Scale, Download, CheckCircle, Search } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { usePermission } from '../hooks/usePermission';
+import {
+  ReconciliationReview,
+  getReconciliationInputs,
+  listReconciliationReviews,
+  markReconciliationReviewed,
+} from '../repositories/payoutReconciliation';
+import {
+  ReconciliationIssue,
+  ReconciliationRow,
+  reconcileBookings,
+  reconciliationIssueLabels,
+  downloadReconciliationCsv,
+} from '../utils/payoutReconciliation';
+
+const issueStyles: Record<ReconciliationIssue, string> = {
+  overpaid: 'bg-purple-100 text-purple-800',
+  underpaid: 'bg-yellow-100 text-yellow-800',
+  missing_final_payment: 'bg-red-100 text-red-800',
+  share_mismatch: 'bg-orange-100 text-orange-800',
+  balance_mismatch: 'bg-blue-100 text-blue-800',
+};
+
+const formatCents = (cents: number | null) => (cents === null ? '—' : `$${(cents / 100).toFixed(2)}`);
+
+export default function PayoutReconciliationPage() {
+  const [rows, setRows] = useState<ReconciliationRow[]>([]);
+  const [reviews, setReviews] = useState<Record<string, ReconciliationReview>>({});
+  const [loading, setLoading] = useState(true);
+  const [filterIssue, setFilterIssue] = useState<'all' | ReconciliationIssue>('all');
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [showClean, setShowClean] = useState(false);
+  const [search, setSearch] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const canReview = usePermission('payments.write');
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        const [{ bookings, payments, invoices, refunds }, reviewRows] = await Promise.all([
+          getReconciliationInputs(),
+          listReconciliationReviews(),
+        ]);
+        setRows(reconcileBookings(bookings, payments, invoices, refunds));
+        setReviews(Object.fromEntries(reviewRows.map(review => [review.booking_id, review])));
+      } catch (error) {
+        console.error('Error building payout reconciliation:', error);
+        toast.error('Failed to load payout reconciliation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, []);
+
+  // A review only counts while the figures still match what was reviewed
+  const isReviewed = (row: ReconciliationRow) => reviews[row.bookingId]?.fingerprint === row.fingerprint;
+
+  const flaggedRows = rows.filter(row => row.findings.length > 0);
+  const openRows = flaggedRows.filter(row => !isReviewed(row));
+
+  const visibleRows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return rows.filter(row => {
+      if (row.findings.length === 0 && !showClean) return false;
+      if (row.findings.length > 0 && reviews[row.bookingId]?.fingerprint === row.fingerprint && !showReviewed) return false;
+      if (filterIssue !== 'all' && !row.findings.some(finding => finding.issue === filterIssue)) return false;
+      if (!term) return true;
+      return [row.coupleName, row.vendorName, row.bookingId].some(value => value.toLowerCase().includes(term));
+    });
+  }, [rows, reviews, search, filterIssue, showReviewed, showClean]);
+
+  const handleMarkReviewed = async (row: ReconciliationRow) => {
+    try {
+      setSavingId(row.bookingId);
+      const review = await markReconciliationReviewed({
+        booking_id: row.bookingId,
+        fingerprint: row.fingerprint,
+        issues: row.findings.map(finding => finding.issue),
+        reviewed_by: user?.id ?? null,
+      });
+      setReviews(prev => ({ ...prev, [row.bookingId]: review }));
+      toast.success('Marked as reviewed');
+    } catch (error) {
+      console.error('Error marking booking reviewed:', error);
+      toast.error('Failed to mark as reviewed');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleExport = () => {
+    if (visibleRows.length === 0) {
+      toast.error('Nothing to export');
+      return;
+    }
+    downloadReconciliationCsv(visibleRows, isReviewed);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <Scale className="h-8 w-8 text-blue-600 mr-3" />
+            Payout Reconciliation
+          </h1>
+          <p className="mt-2 text-gray-500">
+            Expected deposit and final splits per booking, checked against recorded payments and invoice balances.
+          </p>
+        </div>
+        <button
+          onClick={handleExport}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <p className="text-sm font-medium text-gray-500">Bookings checked</p>
+          <p className="mt-2 text-3xl font-bold text-gray-900">{rows.length}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <p className="text-sm font-medium text-gray-500">Needs review</p>
+          <p className="mt-2 text-3xl font-bold text-red-600">{openRows.length}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <p className="text-sm font-medium text-gray-500">Flagged and reviewed</p>
+          <p className="mt-2 text-3xl font-bold text-green-600">{flaggedRows.length - openRows.length}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Search</label>
+            <div className="mt-1 relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Couple, vendor or booking ID"
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Issue</label>
+            <select
+              value={filterIssue}
+              onChange={(e) => setFilterIssue(e.target.value as 'all' | ReconciliationIssue)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All Issues</option>
+              {Object.entries(reconciliationIssueLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showReviewed}
+              onChange={(e) => setShowReviewed(e.target.checked)}
+              className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            Show reviewed
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showClean}
+              onChange={(e) => setShowClean(e.target.checked)}
+              className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            Show bookings without issues
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Bookings ({visibleRows.length})</h2>
+        </div>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : visibleRows.length === 0 ? (
+          <div className="text-center py-12">
+            <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing to reconcile</h3>
+            <p className="text-gray-500">Every booking matching the filters agrees with its payments.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Booking</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected Split</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invoice Balance</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issues</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Review</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleRows.map(row => {
+                  const review = reviews[row.bookingId];
+                  const reviewed = isReviewed(row);
+                  return (
+                    <tr key={row.bookingId} className="align-top">
+                      <td className="px-6 py-4 text-sm">
+                        <button
+                          onClick={() => navigate(`/dashboard/booking/${row.bookingId}`)}
+                          className="text-left text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          {row.coupleName}
+                        </button>
+                        <span className="block text-gray-500">{row.vendorName}</span>
+                        <span className="block text-xs text-gray-400 capitalize">{row.status}</span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCents(row.amount)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        <div>Deposit {formatCents(row.expected.deposit)}</div>
+                        <div className="text-xs text-gray-500">
+                          Vendor {formatCents(row.expected.vendorDeposit)} / Platform {formatCents(row.expected.platformDeposit)}
+                        </div>
+                        <div className="mt-1">Final {formatCents(row.expected.final)}</div>
+                        <div className="text-xs text-gray-500">
+                          Vendor {formatCents(row.expected.vendorFinal)} / Platform {formatCents(row.expected.platformFinal)}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        <div className="font-medium text-gray-900">{formatCents(row.received.total)}</div>
+                        <div className="text-xs text-gray-500">
+                          Deposit {formatCents(row.received.deposit)} · Final {formatCents(row.received.final)}
+                          {row.received.other > 0 && ` · Other ${formatCents(row.received.other)}`}
+                          {row.received.refunded > 0 && ` · Refunded ${formatCents(row.received.refunded)}`}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          To platform {formatCents(row.received.toPlatform)} · To vendor {formatCents(row.received.toVendor)}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        <div>{formatCents(row.invoiceRemaining)}</div>
+                        {row.invoiceRemaining !== row.expectedRemaining && (
+                          <div className="text-xs text-gray-500">Expected {formatCents(row.expectedRemaining)}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {row.findings.length === 0 ? (
+                          <span className="text-gray-400">None</span>
+                        ) : (
+                          <ul className="space-y-2">
+                            {row.findings.map((finding, index) => (
+                              <li key={index} className="max-w-xs">
+                                <span className={`px-2 py-1 text-xs font-medium rounded-full ${issueStyles[finding.issue]}`}>
+                                  {reconciliationIssueLabels[finding.issue]}
+                                </span>
+                                <span className="block mt-1 text-xs text-gray-600">{finding.message}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {row.findings.length === 0 ? null : reviewed ? (
+                          <span className="inline-flex items-center text-green-700">
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            {new Date(review.reviewed_at).toLocaleDateString()}
+                          </span>
+                        ) : canReview ? (
+                          <button
+                            onClick={() => handleMarkReviewed(row)}
+                            disabled={savingId === row.bookingId}
+                            className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                          >
+                            {savingId === row.bookingId ? 'Saving...' : 'Mark Reviewed'}
+                          </button>
+                        ) : (
+                          <span className="text-gray-400">Open</span>
+                        )}
+                        {!reviewed && review && (
+                          <span className="block mt-1 text-xs text-gray-500">Changed since last review</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
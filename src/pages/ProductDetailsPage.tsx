@@ -45,6 +45,7 @@ export default function ProductDetailsPage() {
 
   useEffect(() => {
     const fetchData = async () => {
+      if (!id) return;
       try {
         setLoading(true);
         const [productResponse, categoriesResponse] = await Promise.all([
@@ -13,7 +13,7 @@ interface Product {
   rental_available: boolean;
   stock_quantity: number;
   rental_quantity: number;
-  images: string[];
+  images: string[] | null;
   features: string[];
   specifications: any;
   created_at: string;
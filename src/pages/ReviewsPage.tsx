@@ -17,15 +17,15 @@ interface Couple {
 interface VendorReview {
   id: string;
   vendor_id: string;
-  communication_rating: number;
-  experience_rating: number;
-  quality_rating: number;
-  overall_rating: number;
-  feedback: string;
+  communication_rating: number | null;
+  experience_rating: number | null;
+  quality_rating: number | null;
+  overall_rating: number | null;
+  feedback: string | null;
   vendor_response: string | null;
   created_at: string;
   updated_at: string | null;
-  couple_id: string;
+  couple_id: string | null;
   vendor_name: string | null;
   couple_name: string | null;
   showResponse: boolean;
@@ -79,7 +79,7 @@ export default function ReviewsPage() {
         }
 
         // Fetch couple names
-        const coupleIds = data.map(review => review.couple_id);
+        const coupleIds = data.map(review => review.couple_id).filter((id): id is string => !!id);
         let coupleNames: { [key: string]: string } = {};
         if (coupleIds.length > 0) {
           const { data: couples, error: coupleError } = await supabase
@@ -97,11 +97,11 @@ export default function ReviewsPage() {
         const mappedReviews = data.map(review => ({
           ...review,
           vendor_name: vendorNames[review.vendor_id] || 'N/A',
-          couple_name: coupleNames[review.couple_id] || 'N/A',
+          couple_name: review.couple_id ? coupleNames[review.couple_id] || 'N/A' : 'N/A',
           showResponse: false,
           avgRating: (
-            (review.communication_rating + review.experience_rating + review.quality_rating + review.overall_rating) / 4
-          ) || 0 // Default to 0 if undefined
+            ((review.communication_rating || 0) + (review.experience_rating || 0) + (review.quality_rating || 0) + (review.overall_rating || 0)) / 4
+          ) || 0 // Missing ratings count as 0
         }));
         setReviews(mappedReviews || []);
 
@@ -0,0 +1,288 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Percent, Download, Save, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
+import {
+  TaxRate,
+  listTaxRates,
+  saveTaxRate,
+  deleteTaxRate,
+  listServiceAreaStates,
+  getTaxReportInputs,
+} from '../repositories/salesTax';
+import { TaxReportRow, monthlyTaxCollected, downloadTaxReportCsv } from '../utils/salesTax';
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default function SalesTaxPage() {
+  const [rates, setRates] = useState<TaxRate[]>([]);
+  const [states, setStates] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [newState, setNewState] = useState('');
+  const [reportRows, setReportRows] = useState<TaxReportRow[]>([]);
+  const [filterState, setFilterState] = useState('all');
+  const [loading, setLoading] = useState(true);
+  const [savingState, setSavingState] = useState<string | null>(null);
+  const canEdit = usePermission('payments.write');
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        const [rateRows, areaStates, { invoices, payments, refunds }] = await Promise.all([
+          listTaxRates(),
+          listServiceAreaStates(),
+          getTaxReportInputs(),
+        ]);
+        setRates(rateRows);
+        setStates(areaStates);
+        setReportRows(monthlyTaxCollected(invoices, payments, refunds));
+      } catch (error) {
+        console.error('Error fetching sales tax data:', error);
+        toast.error('Failed to load sales tax');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  // Every service-area state gets a row, plus any state with a rate but no service area
+  const rateStates = useMemo(
+    () => [...new Set([...states, ...rates.map(rate => rate.state)])].sort(),
+    [states, rates],
+  );
+  const rateFor = (state: string) => rates.find(rate => rate.state === state);
+
+  const visibleReportRows = filterState === 'all' ? reportRows : reportRows.filter(row => row.state === filterState);
+  const totalNetTax = visibleReportRows.reduce((sum, row) => sum + row.netTax, 0);
+
+  const handleSave = async (state: string) => {
+    const value = parseFloat(drafts[state] ?? '');
+    if (isNaN(value) || value < 0 || value >= 100) {
+      toast.error('Enter a rate between 0 and 100');
+      return;
+    }
+    try {
+      setSavingState(state);
+      const saved = await saveTaxRate(state, value);
+      setRates(prev => [...prev.filter(rate => rate.state !== state), saved]);
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[state];
+        return next;
+      });
+      toast.success(`${state} tax rate saved`);
+    } catch (error) {
+      console.error('Error saving tax rate:', error);
+      toast.error('Failed to save tax rate');
+    } finally {
+      setSavingState(null);
+    }
+  };
+
+  const handleDelete = async (state: string) => {
+    if (!window.confirm(`Remove the ${state} tax rate? Invoices already saved keep their rate.`)) return;
+    try {
+      setSavingState(state);
+      await deleteTaxRate(state);
+      setRates(prev => prev.filter(rate => rate.state !== state));
+      toast.success(`${state} tax rate removed`);
+    } catch (error) {
+      console.error('Error removing tax rate:', error);
+      toast.error('Failed to remove tax rate');
+    } finally {
+      setSavingState(null);
+    }
+  };
+
+  const handleAddState = () => {
+    const state = newState.trim().toUpperCase();
+    if (!/^[A-Z]{2}$/.test(state)) {
+      toast.error('Use a two-letter state code');
+      return;
+    }
+    setStates(prev => [...new Set([...prev, state])]);
+    setDrafts(prev => ({ ...prev, [state]: prev[state] ?? '' }));
+    setNewState('');
+  };
+
+  const handleExport = () => {
+    if (visibleReportRows.length === 0) {
+      toast.error('Nothing to export');
+      return;
+    }
+    downloadTaxReportCsv(visibleReportRows);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <Percent className="h-8 w-8 text-blue-600 mr-3" />
+          Sales Tax
+        </h1>
+        <p className="mt-2 text-gray-500">
+          Tax rates per state and the tax collected each month on paid invoices.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Tax Rates</h2>
+          {canEdit && (
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={newState}
+                onChange={(e) => setNewState(e.target.value)}
+                placeholder="State (e.g. NV)"
+                maxLength={2}
+                className="w-32 px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={handleAddState}
+                className="px-3 py-1 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 text-sm"
+              >
+                Add State
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">State</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rate (%)</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Updated</th>
+                {canEdit && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rateStates.map(state => {
+                const rate = rateFor(state);
+                const draft = drafts[state];
+                return (
+                  <tr key={state}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{state}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {canEdit ? (
+                        <input
+                          type="number"
+                          min="0"
+                          max="99.999"
+                          step="0.001"
+                          value={draft ?? (rate ? String(rate.rate) : '')}
+                          onChange={(e) => setDrafts(prev => ({ ...prev, [state]: e.target.value }))}
+                          placeholder="Not taxed"
+                          className="w-32 px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      ) : rate ? `${rate.rate}%` : 'Not taxed'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {rate ? new Date(rate.updated_at).toLocaleDateString() : '—'}
+                    </td>
+                    {canEdit && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm space-x-2">
+                        <button
+                          onClick={() => handleSave(state)}
+                          disabled={draft === undefined || savingState === state}
+                          className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          <Save className="h-4 w-4 mr-1" /> Save
+                        </button>
+                        {rate && (
+                          <button
+                            onClick={() => handleDelete(state)}
+                            disabled={savingState === state}
+                            className="inline-flex items-center px-3 py-1 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" /> Remove
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Tax Collected by Month</h2>
+            <p className="text-sm text-gray-500">Net tax for the selection: {formatCents(totalNetTax)}</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={filterState}
+              onChange={(e) => setFilterState(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All States</option>
+              {[...new Set(reportRows.map(row => row.state))].sort().map(state => (
+                <option key={state} value={state}>{state}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleExport}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </button>
+          </div>
+        </div>
+        {visibleReportRows.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">No tax has been collected yet.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Month</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">State</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invoices</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Collected</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tax</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Refunded Tax</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Net Tax</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleReportRows.map(row => (
+                  <tr key={`${row.month}-${row.state}`}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.month}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.state}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{row.invoiceIds.length}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatCents(row.collected)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatCents(row.tax)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatCents(row.refundedTax)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{formatCents(row.netTax)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
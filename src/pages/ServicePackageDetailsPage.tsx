@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Calendar, Edit, Save, Upload, Trash2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import type { Json } from '../types/database';
 import toast from 'react-hot-toast';
 
 interface ServicePackage {
@@ -11,7 +12,7 @@ interface ServicePackage {
   description: string | null;
   price: number;
   features: string[] | null;
-  coverage: object | null;
+  coverage: Json;
   created_at: string;
   updated_at: string;
   status: string | null;
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Calendar, Plus, Eye, ChevronLeft, ChevronRight, Upload } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import type { Json } from '../types/database';
 import toast from 'react-hot-toast';
 import AddServicePackageModal from '../components/AddServicePackageModal';
 import ImportServicePackagesModal from '../components/ImportServicePackagesModal';
@@ -13,7 +14,7 @@ interface ServicePackage {
   description: string | null;
   price: number;
   features: string[] | null;
-  coverage: object | null;
+  coverage: Json;
   created_at: string;
   updated_at: string;
   status: string | null;
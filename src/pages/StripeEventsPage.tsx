@@ -0,0 +1,229 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Webhook, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePermission } from '../hooks/usePermission';
+import type { Json } from '../types/database';
+import { StripeEvent, StripeEventStatus, listStripeEvents, replayStripeEvent } from '../repositories/stripeEvents';
+
+const PAGE_SIZE = 50;
+
+const statusStyles: Record<StripeEventStatus, string> = {
+  received: 'bg-yellow-100 text-yellow-800',
+  processed: 'bg-green-100 text-green-800',
+  ignored: 'bg-gray-100 text-gray-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const isRecord = (value: Json | undefined): value is { [key: string]: Json | undefined } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The Stripe object an event is about (payment intent, refund, ...), and the
+// invoice it names in its metadata if any
+function describeObject(event: StripeEvent) {
+  const data = isRecord(event.payload) ? event.payload.data : undefined;
+  const object = isRecord(data) ? data.object : undefined;
+  if (!isRecord(object)) return null;
+  const metadata = isRecord(object.metadata) ? object.metadata : {};
+  return {
+    id: typeof object.id === 'string' ? object.id : null,
+    amount: typeof object.amount === 'number' ? object.amount : null,
+    invoiceId: typeof metadata.invoice_id === 'string' ? metadata.invoice_id : null,
+  };
+}
+
+export default function StripeEventsPage() {
+  const [events, setEvents] = useState<StripeEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [filterStatus, setFilterStatus] = useState<StripeEventStatus | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const canReplay = usePermission('payments.write');
+
+  const fetchEvents = useCallback(async (offset: number) => {
+    try {
+      setLoading(true);
+      const data = await listStripeEvents(filterStatus, offset, PAGE_SIZE);
+      setEvents(prev => (offset === 0 ? data : [...prev, ...data]));
+      setHasMore(data.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching Stripe events:', error);
+      toast.error('Failed to load Stripe events');
+    } finally {
+      setLoading(false);
+    }
+  }, [filterStatus]);
+
+  useEffect(() => {
+    fetchEvents(0);
+  }, [fetchEvents]);
+
+  const handleReplay = async (event: StripeEvent) => {
+    try {
+      setReplayingId(event.id);
+      const replayed = await replayStripeEvent(event.id);
+      if (replayed.status === 'failed') {
+        toast.error(`Replay failed: ${replayed.error}`);
+      } else {
+        toast.success(`Event ${replayed.status}`);
+      }
+      setEvents(prev => prev.map(row => (row.id === replayed.id ? replayed : row)));
+    } catch (error) {
+      console.error('Error replaying Stripe event:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to replay event');
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const failedCount = events.filter(event => event.status === 'failed').length;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <Webhook className="h-8 w-8 text-blue-600 mr-3" />
+          Stripe Events
+        </h1>
+        <p className="mt-2 text-gray-500">
+          Webhook deliveries from Stripe and what applying them to payments, invoices and bookings did.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Status</label>
+            <select
+              value={filterStatus}
+              onChange={(e) => setFilterStatus(e.target.value as StripeEventStatus | 'all')}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All Statuses</option>
+              <option value="failed">Failed</option>
+              <option value="processed">Processed</option>
+              <option value="ignored">Ignored</option>
+              <option value="received">Received</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">Events ({events.length}{hasMore ? '+' : ''})</h2>
+          {failedCount > 0 && (
+            <p className="text-sm text-red-600">{failedCount} failed to apply</p>
+          )}
+        </div>
+        {loading && events.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-12">
+            <Webhook className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No events found</h3>
+            <p className="text-gray-500">Events appear here as Stripe delivers them.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Object</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {events.map(event => {
+                  const object = describeObject(event);
+                  const isExpanded = expandedId === event.id;
+                  return (
+                    <Fragment key={event.id}>
+                      <tr className="align-top">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {new Date(event.received_at).toLocaleString()}
+                          {!event.livemode && <span className="block text-xs text-orange-600">Test mode</span>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {event.type}
+                          <span className="block text-xs text-gray-500 font-mono">{event.id}</span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                          {object?.id ? <span className="font-mono text-xs">{object.id}</span> : '—'}
+                          {object?.amount != null && <span className="block">{formatCents(object.amount)}</span>}
+                          {object?.invoiceId && (
+                            <Link to={`/dashboard/invoices/${object.invoiceId}`} className="block text-blue-600 hover:text-blue-800">
+                              Invoice {object.invoiceId.slice(0, 8)}
+                            </Link>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${statusStyles[event.status]}`}>
+                            {event.status}
+                          </span>
+                          {event.error && <p className="mt-2 max-w-md break-words text-xs text-red-600">{event.error}</p>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                          {event.attempts}
+                          {event.processed_at && (
+                            <span className="block text-xs text-gray-500">last {new Date(event.processed_at).toLocaleString()}</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm space-x-2">
+                          <button
+                            onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                            className="inline-flex items-center px-3 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+                          >
+                            {isExpanded ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                            Payload
+                          </button>
+                          {canReplay && (
+                            <button
+                              onClick={() => handleReplay(event)}
+                              disabled={replayingId === event.id}
+                              className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              {replayingId === event.id ? 'Replaying...' : 'Replay'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr>
+                          <td colSpan={6} className="px-6 py-4 bg-gray-50">
+                            <pre className="max-h-96 overflow-auto text-xs text-gray-800">{JSON.stringify(event.payload, null, 2)}</pre>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {hasMore && (
+          <div className="px-6 py-4 border-t border-gray-200 text-center">
+            <button
+              onClick={() => fetchEvents(events.length)}
+              disabled={loading}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Load More'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -16,16 +16,16 @@ interface TimelineEvent {
   type: string;
   duration_minutes: number | null;
   is_standard: boolean | null;
-  music_notes?: string;
-  playlist_requests?: string;
-  photo_shotlist?: string; // Added
+  music_notes?: string | null;
+  playlist_requests?: string | null;
+  photo_shotlist?: string | null; // Added
 }
 
 interface CoupleDetails {
   name: string;
-  wedding_date: string;
-  venue_name: string;
-  venue_street_address: string;
+  wedding_date: string | null;
+  venue_name: string | null;
+  venue_street_address: string | null;
 }
 
 export default function TimelineDetailsPage() {
@@ -38,6 +38,7 @@ export default function TimelineDetailsPage() {
 
   useEffect(() => {
     const fetchTimelineDetails = async () => {
+      if (!id) return;
       try {
         setIsLoading(true);
         const { data: coupleData, error: coupleError } = await supabase
@@ -28,7 +28,7 @@ interface TimelineEvent {
   updated_at: string | null;
   duration_minutes: number | null;
   is_standard: boolean | null;
-  couple_name: string | null;
+  couple_name?: string | null;
 }
 
 interface Couple {
@@ -66,7 +66,7 @@ export default function TimelinesPage() {
         if (shareError) throw shareError;
 
         // Lookup couple names for shares
-        const coupleIds = shareData.map(s => s.couple_id).filter(id => id);
+        const coupleIds = shareData.map(s => s.couple_id).filter((id): id is string => !!id);
         let coupleNames: { [key: string]: string } = {};
         if (coupleIds.length > 0) {
           const { data: couples, error: coupleError } = await supabase
@@ -81,7 +81,7 @@ export default function TimelinesPage() {
         }
 
         // Lookup vendor names for shares
-        const vendorIds = shareData.map(s => s.vendor_id).filter(id => id);
+        const vendorIds = shareData.map(s => s.vendor_id).filter((id): id is string => !!id);
         let vendorNames: { [key: string]: string } = {};
         if (vendorIds.length > 0) {
           const { data: vendors, error: vendorError } = await supabase
@@ -112,7 +112,7 @@ export default function TimelinesPage() {
         setAllEvents(timelineData || []);
 
         // Lookup couple names for timelines
-        const timelineCoupleIds = [...new Set(timelineData.map(t => t.couple_id).filter(id => id))];
+        const timelineCoupleIds = [...new Set(timelineData.map(t => t.couple_id).filter((id): id is string => !!id))];
         let timelineCoupleNames: { [key: string]: string } = {};
         if (timelineCoupleIds.length > 0) {
           const { data: timelineCouples, error: timelineCoupleError } = await supabase
@@ -1,7 +1,29 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Briefcase, User, Mail, Phone, MapPin, Award, Camera, Link, FileText } from 'lucide-react';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { Briefcase, User, Mail, Phone, MapPin, Award, Camera, Link, FileText, UserPlus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  approveVendorApplication,
+  getVendorApplication,
+  listServiceAreaNames,
+  updateVendorApplication,
+} from '../repositories/vendorApplications';
+import {
+  getReviewQuorum,
+  listApplicationScores,
+  listReviewerEmails,
+  listRubricCriteria,
+} from '../repositories/applicationReviews';
+import { listGearCatalog } from '../repositories/gearCatalog';
+import { useAuth } from '../contexts/AuthContext';
+import ApplicationReviewPanel from '../components/ApplicationReviewPanel';
+import {
+  ApplicationScore,
+  RubricCriterion,
+  quorumError,
+  summarizeApplicationReview,
+} from '../utils/applicationReviews';
+import { GearCatalogEntry, gearRatingLabels, gearRatingStyles, rateGear } from '../utils/gearEligibility';
 import toast from 'react-hot-toast';
 
 interface VendorApplication {
@@ -23,16 +45,11 @@ interface VendorApplication {
   admin_notes: string | null;
   reviewed_at: string | null;
   reviewed_by: string | null;
+  vendor_id: string | null;
   created_at: string;
   updated_at: string;
 }
 
-interface ServiceArea {
-  id: string;
-  state: string;
-  region: string | null;
-}
-
 export default function VendorApplicationDetailsPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -56,15 +73,26 @@ export default function VendorApplicationDetailsPage() {
   const [reviewTimestamp, setReviewTimestamp] = useState<string | null>(null);
   const [isEditingNotes, setIsEditingNotes] = useState<boolean>(false);
   const [isEditingReview, setIsEditingReview] = useState<boolean>(false);
+  const [onboarding, setOnboarding] = useState(false);
+  const { user } = useAuth();
+  const [criteria, setCriteria] = useState<RubricCriterion[]>([]);
+  const [scores, setScores] = useState<ApplicationScore[]>([]);
+  const [quorum, setQuorum] = useState(1);
+  const [reviewerEmails, setReviewerEmails] = useState<Record<string, string>>({});
+  const [gearCatalog, setGearCatalog] = useState<GearCatalogEntry[]>([]);
 
   useEffect(() => {
-    if (!id) {
-      toast.error('Application ID is undefined');
-      navigate('/dashboard/vendor-application');
-      return;
-    }
-    fetchApplicationDetails();
-  }, [id, navigate]);
+    const fetchGearCatalog = async () => {
+      try {
+        setGearCatalog(await listGearCatalog());
+      } catch (error) {
+        console.error('Error fetching gear catalog:', error);
+        toast.error('Failed to load gear catalog');
+      }
+    };
+
+    fetchGearCatalog();
+  }, []);
 
   useEffect(() => {
     // Fallback to hide placeholders after 5 seconds if onLoad doesn't fire
@@ -79,21 +107,12 @@ export default function VendorApplicationDetailsPage() {
     return () => clearTimeout(timeout);
   }, []);
 
-  const fetchApplicationDetails = async () => {
+  const fetchApplicationDetails = useCallback(async () => {
+    if (!id) return;
     try {
       setLoading(true);
-      if (!isSupabaseConfigured() || !supabase) {
-        throw new Error('Supabase is not configured');
-      }
-
       // Fetch the application
-      const { data, error } = await supabase
-        .from('vendor_applications')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (error) throw error;
+      const data = await getVendorApplication(id);
 
       // Log raw data from database
       console.log('Raw vendor_applications data:', {
@@ -167,22 +186,7 @@ export default function VendorApplicationDetailsPage() {
       }
 
       // Fetch service area names
-      let serviceAreaNames: string[] = data.service_locations;
-      if (data.service_locations && data.service_locations.length > 0) {
-        const { data: areasData, error: areasError } = await supabase
-          .from('service_areas')
-          .select('id, state, region')
-          .in('id', data.service_locations);
-
-        if (areasError) {
-          console.error('Error fetching service areas:', areasError);
-          throw areasError;
-        }
-
-        serviceAreaNames = areasData.map((area: ServiceArea) =>
-          area.region ? `${area.state}, ${area.region}` : area.state
-        );
-      }
+      const serviceAreaNames = await listServiceAreaNames(data.service_locations || []);
 
       setApplication(data);
       setProfilePhotoUrl(profilePhotoUrl);
@@ -205,7 +209,35 @@ export default function VendorApplicationDetailsPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [id, navigate]);
+
+  const fetchReviews = useCallback(async () => {
+    if (!id) return;
+    try {
+      const [criteriaData, scoreData, quorumData] = await Promise.all([
+        listRubricCriteria(),
+        listApplicationScores(id),
+        getReviewQuorum(),
+      ]);
+      setCriteria(criteriaData);
+      setScores(scoreData);
+      setQuorum(quorumData);
+      setReviewerEmails(await listReviewerEmails([...new Set(scoreData.map(score => score.reviewer_id))]));
+    } catch (error) {
+      console.error('Error fetching application reviews:', error);
+      toast.error('Failed to load review scores');
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) {
+      toast.error('Application ID is undefined');
+      navigate('/dashboard/vendor-application');
+      return;
+    }
+    fetchApplicationDetails();
+    fetchReviews();
+  }, [id, navigate, fetchApplicationDetails, fetchReviews]);
 
   const updateApplicationStatus = async (newStatus: string) => {
     try {
@@ -214,17 +246,12 @@ export default function VendorApplicationDetailsPage() {
       const { data: authData } = await supabase.auth.getUser();
       const userId = authData?.user?.id || null;
 
-      const { error } = await supabase
-        .from('vendor_applications')
-        .update({
-          status: newStatus,
-          updated_at: new Date().toISOString(),
-          reviewed_at: new Date().toISOString(),
-          reviewed_by: userId,
-        })
-        .eq('id', application.id);
-
-      if (error) throw error;
+      await updateVendorApplication(application.id, {
+        status: newStatus,
+        updated_at: new Date().toISOString(),
+        reviewed_at: new Date().toISOString(),
+        reviewed_by: userId,
+      });
 
       setApplication((prev) =>
         prev
@@ -236,7 +263,32 @@ export default function VendorApplicationDetailsPage() {
       toast.success('Status updated successfully');
     } catch (error: any) {
       console.error('Error updating application status:', error);
-      toast.error('Failed to update status');
+      toast.error(error?.message || 'Failed to update status');
+    }
+  };
+
+  const approveAndCreateVendor = async () => {
+    if (!application) return;
+    if (!window.confirm(`Create a vendor account for ${application.name} and email ${application.email} a login link?`)) return;
+
+    try {
+      setOnboarding(true);
+      const { vendorId, emailSent } = await approveVendorApplication(application.id);
+      const now = new Date().toISOString();
+      setApplication((prev) =>
+        prev ? { ...prev, status: 'approved', vendor_id: vendorId, reviewed_at: now, updated_at: now } : null
+      );
+      setReviewTimestamp(now);
+      if (emailSent) {
+        toast.success('Vendor created and login email sent');
+      } else {
+        toast.error('Vendor created, but the login email failed. Send them a password reset.');
+      }
+    } catch (error) {
+      console.error('Error creating vendor from application:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create vendor');
+    } finally {
+      setOnboarding(false);
     }
   };
 
@@ -249,15 +301,10 @@ export default function VendorApplicationDetailsPage() {
       }
 
       const currentTime = new Date().toISOString();
-      const { error } = await supabase
-        .from('vendor_applications')
-        .update({
-          admin_notes: adminNotes || null,
-          updated_at: currentTime,
-        })
-        .eq('id', application.id);
-
-      if (error) throw error;
+      await updateVendorApplication(application.id, {
+        admin_notes: adminNotes || null,
+        updated_at: currentTime,
+      });
 
       setApplication((prev) =>
         prev
@@ -298,19 +345,11 @@ export default function VendorApplicationDetailsPage() {
       }
 
       const currentTime = new Date().toISOString();
-      const { error } = await supabase
-        .from('vendor_applications')
-        .update({
-          reviewed_at: parsedReviewedAt,
-          reviewed_by: reviewedBy,
-          updated_at: currentTime,
-        })
-        .eq('id', application.id);
-
-      if (error) {
-        console.error('Supabase error details:', error);
-        throw error;
-      }
+      await updateVendorApplication(application.id, {
+        reviewed_at: parsedReviewedAt,
+        reviewed_by: reviewedBy,
+        updated_at: currentTime,
+      });
 
       setApplication((prev) =>
         prev
@@ -355,6 +394,8 @@ export default function VendorApplicationDetailsPage() {
     );
   }
 
+  const approvalBlocked = quorumError(summarizeApplicationReview(scores, criteria, quorum, user?.id ?? null), quorum);
+
   return (
     <div className="container mx-auto p-6 space-y-6 max-w-5xl">
       <div className="flex items-center justify-between mb-6">
@@ -564,12 +605,21 @@ export default function VendorApplicationDetailsPage() {
           Gear
         </h2>
         {application.gear.length > 0 ? (
-          <ul className="list-disc pl-5 mt-2">
-            {application.gear.map((item, index) => (
-              <li key={index} className="text-sm text-gray-900">
-                {item.gear_type}: {item.brand} {item.model} ({item.year}, {item.condition})
-              </li>
-            ))}
+          <ul className="space-y-2 mt-2">
+            {application.gear.map((item, index) => {
+              const assessment = rateGear(item, application.services_applying_for, gearCatalog);
+              return (
+                <li key={index} className="flex items-start justify-between text-sm text-gray-900">
+                  <span>{item.gear_type}: {item.brand} {item.model} ({item.year}, {item.condition})</span>
+                  <span className="ml-4 text-right">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${gearRatingStyles[assessment.rating]}`}>
+                      {gearRatingLabels[assessment.rating]}
+                    </span>
+                    <span className="block text-xs text-gray-500 mt-1">{assessment.reason}</span>
+                  </span>
+                </li>
+              );
+            })}
           </ul>
         ) : (
           <p className="text-sm text-gray-900">None</p>
@@ -690,6 +740,19 @@ export default function VendorApplicationDetailsPage() {
         </div>
       </div>
 
+      <ApplicationReviewPanel
+        applicationId={application.id}
+        criteria={criteria}
+        scores={scores}
+        quorum={quorum}
+        reviewerId={user?.id ?? null}
+        reviewerEmails={reviewerEmails}
+        onSaved={fetchReviews}
+      />
+
+      {approvalBlocked && application.status !== 'approved' && (
+        <p className="text-sm text-yellow-700 text-right">{approvalBlocked}</p>
+      )}
       <div className="flex justify-end space-x-4">
         <button
           onClick={() => updateApplicationStatus('rejected')}
@@ -700,11 +763,31 @@ export default function VendorApplicationDetailsPage() {
         </button>
         <button
           onClick={() => updateApplicationStatus('approved')}
-          className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-          disabled={application.status === 'approved'}
+          className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          disabled={application.status === 'approved' || !!approvalBlocked}
+          title={approvalBlocked ?? undefined}
         >
           Approve
         </button>
+        {application.vendor_id ? (
+          <button
+            onClick={() => navigate(`/dashboard/vendor/${application.vendor_id}`)}
+            className="inline-flex items-center px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <User className="h-5 w-5 mr-2" />
+            View Vendor
+          </button>
+        ) : (
+          <button
+            onClick={approveAndCreateVendor}
+            className="inline-flex items-center px-6 py-2 bg-green-700 text-white rounded-lg hover:bg-green-800 transition-colors disabled:opacity-50"
+            disabled={onboarding || !!approvalBlocked}
+            title={approvalBlocked ?? undefined}
+          >
+            <UserPlus className="h-5 w-5 mr-2" />
+            {onboarding ? 'Creating Vendor...' : 'Approve & Create Vendor'}
+          </button>
+        )}
       </div>
     </div>
   );
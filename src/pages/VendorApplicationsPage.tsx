@@ -1,7 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Briefcase, Eye } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { listVendorApplications, updateVendorApplication } from '../repositories/vendorApplications';
+import { getReviewQuorum, listApplicationScores, listRubricCriteria } from '../repositories/applicationReviews';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  ApplicationReviewSummary,
+  ApplicationScore,
+  RubricCriterion,
+  ReviewerStatus,
+  reviewerStatusLabels,
+  summarizeApplicationReview,
+} from '../utils/applicationReviews';
 import toast from 'react-hot-toast';
 
 interface VendorApplication {
@@ -14,11 +24,25 @@ interface VendorApplication {
   services_applying_for: string[];
 }
 
+type SortOrder = 'newest' | 'score_desc' | 'score_asc';
+
+const reviewerStatusStyles: Record<ReviewerStatus, string> = {
+  needs_my_review: 'text-blue-700 bg-blue-100',
+  awaiting_quorum: 'text-yellow-700 bg-yellow-100',
+  quorum_met: 'text-green-700 bg-green-100',
+};
+
 export default function VendorApplicationsPage() {
   const [applications, setApplications] = useState<VendorApplication[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
+  const [scores, setScores] = useState<ApplicationScore[]>([]);
+  const [criteria, setCriteria] = useState<RubricCriterion[]>([]);
+  const [quorum, setQuorum] = useState(1);
+  const [reviewFilter, setReviewFilter] = useState<'' | ReviewerStatus>('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const { user } = useAuth();
   const applicationsPerPage = 10;
   const navigate = useNavigate();
 
@@ -29,14 +53,17 @@ export default function VendorApplicationsPage() {
   const fetchApplications = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('vendor_applications')
-        .select('id, name, email, phone, status, created_at, services_applying_for')
-        .order('created_at', { ascending: false });
+      const [data, scoreData, criteriaData, quorumData] = await Promise.all([
+        listVendorApplications(),
+        listApplicationScores(),
+        listRubricCriteria(),
+        getReviewQuorum(),
+      ]);
 
-      if (error) throw error;
-
-      setApplications(data || []);
+      setApplications(data);
+      setScores(scoreData);
+      setCriteria(criteriaData);
+      setQuorum(quorumData);
     } catch (error: any) {
       console.error('Error fetching vendor applications:', error);
       toast.error('Failed to load vendor applications');
@@ -47,12 +74,7 @@ export default function VendorApplicationsPage() {
 
   const updateApplicationStatus = async (id: string, newStatus: string) => {
     try {
-      const { error } = await supabase
-        .from('vendor_applications')
-        .update({ status: newStatus, updated_at: new Date().toISOString() })
-        .eq('id', id);
-
-      if (error) throw error;
+      await updateVendorApplication(id, { status: newStatus, updated_at: new Date().toISOString() });
 
       setApplications((prev) =>
         prev.map((app) => (app.id === id ? { ...app, status: newStatus } : app))
@@ -60,20 +82,37 @@ export default function VendorApplicationsPage() {
       toast.success('Status updated successfully');
     } catch (error: any) {
       console.error('Error updating application status:', error);
-      toast.error('Failed to update status');
+      toast.error(error?.message || 'Failed to update status');
     }
   };
 
+  const reviews = new Map<string, ApplicationReviewSummary>(
+    applications.map((app) => [
+      app.id,
+      summarizeApplicationReview(scores.filter((score) => score.application_id === app.id), criteria, quorum, user?.id ?? null),
+    ])
+  );
+
+  // Unscored applications sort last either way
+  const compareScores = (a: VendorApplication, b: VendorApplication) => {
+    const scoreA = reviews.get(a.id)?.aggregate ?? null;
+    const scoreB = reviews.get(b.id)?.aggregate ?? null;
+    if (scoreA === null || scoreB === null) return (scoreA === null ? 1 : 0) - (scoreB === null ? 1 : 0);
+    return sortOrder === 'score_desc' ? scoreB - scoreA : scoreA - scoreB;
+  };
+
   const indexOfLastApplication = currentPage * applicationsPerPage;
   const indexOfFirstApplication = indexOfLastApplication - applicationsPerPage;
-  const currentApplications = applications
+  const filteredApplications = applications
     .filter((app) =>
       app.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       app.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
       app.status.toLowerCase().includes(searchQuery.toLowerCase())
     )
+    .filter((app) => !reviewFilter || reviews.get(app.id)?.status === reviewFilter);
+  const currentApplications = (sortOrder === 'newest' ? filteredApplications : [...filteredApplications].sort(compareScores))
     .slice(indexOfFirstApplication, indexOfLastApplication);
-  const totalPages = Math.ceil(applications.length / applicationsPerPage);
+  const totalPages = Math.ceil(filteredApplications.length / applicationsPerPage);
 
   const paginate = (pageNumber: number) => setCurrentPage(pageNumber);
 
@@ -108,13 +147,34 @@ export default function VendorApplicationsPage() {
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
           <h2 className="text-lg font-semibold text-gray-900">Applications ({applications.length})</h2>
-          <input
-            type="text"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search by name, email, or status..."
-            className="w-1/3 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-          />
+          <div className="flex items-center space-x-3 w-2/3 justify-end">
+            <select
+              value={reviewFilter}
+              onChange={(e) => { setReviewFilter(e.target.value as '' | ReviewerStatus); setCurrentPage(1); }}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All reviews</option>
+              {(Object.keys(reviewerStatusLabels) as ReviewerStatus[]).map((status) => (
+                <option key={status} value={status}>{reviewerStatusLabels[status]}</option>
+              ))}
+            </select>
+            <select
+              value={sortOrder}
+              onChange={(e) => { setSortOrder(e.target.value as SortOrder); setCurrentPage(1); }}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="newest">Newest first</option>
+              <option value="score_desc">Highest score</option>
+              <option value="score_asc">Lowest score</option>
+            </select>
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search by name, email, or status..."
+              className="w-1/2 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
         </div>
         {applications.length === 0 ? (
           <div className="text-center py-12">
@@ -133,6 +193,8 @@ export default function VendorApplicationsPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Phone</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Services</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Score</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reviews</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created At</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                   </tr>
@@ -161,6 +223,14 @@ export default function VendorApplicationsPage() {
                           <option value="rejected">Rejected</option>
                         </select>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {reviews.get(app.id)?.aggregate ?? '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${reviewerStatusStyles[reviews.get(app.id)!.status]}`}>
+                          {reviewerStatusLabels[reviews.get(app.id)!.status]} ({reviews.get(app.id)!.completeReviews}/{quorum})
+                        </span>
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">{new Date(app.created_at).toLocaleString()}</td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <button
@@ -7,7 +7,12 @@ import CreatableSelect from 'react-select/creatable';
 import { useVendorData } from '../hooks/useVendorData';
 import { Vendor, VendorService, VendorServicePackage, VendorReview, VendorGear } from '../types/types';
 import { handleImageUpload, handleDeleteVendor } from '../utils/vendorUtils';
+import { updateVendor } from '../repositories/vendors';
 import EditableField from '../components/EditableField';
+import VendorAvailabilityCalendar from '../components/VendorAvailabilityCalendar';
+import IcalFeedPanel from '../components/IcalFeedPanel';
+import { usePermission } from '../hooks/usePermission';
+import { GearRating, gearRatingLabels, gearRatingStyles, isBelowMinimum } from '../utils/gearEligibility';
 
 interface LanguageOption { id: string; language: string; }
 interface VendorLanguage { id: string; vendor_id: string; language_id: string; language: string; }
@@ -43,6 +48,7 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children }) => {
 export default function VendorDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const canDeleteVendor = usePermission('vendors.delete');
   const {
     vendor, vendorEmail, availableServicePackages, couples, serviceAreaOptions, vendorServiceAreas,
     vendorLanguages, languageOptions, vendorGear, styleTagOptions, vendorStyleTags, vibeTagOptions,
@@ -108,7 +114,7 @@ export default function VendorDetailPage() {
 
   const regionOptions = serviceAreaOptions
     .filter(option => option.region && !vendorServiceAreas.some(area => area.service_area_id === option.id))
-    .map(option => ({ value: option.id, label: option.region }));
+    .map(option => ({ value: option.id, label: option.region || '' }));
   const languageSelectOptions = languageOptions
     .filter(option => !vendorLanguages.some(vLang => vLang.language_id === option.id))
     .map(option => ({ value: option.id, label: option.language }));
@@ -128,11 +134,7 @@ export default function VendorDetailPage() {
       } else {
         updateData[field] = formData[field].trim() || null;
       }
-      const { error } = await supabase
-        .from('vendors')
-        .update(updateData)
-        .eq('id', vendor.id);
-      if (error) throw error;
+      await updateVendor(vendor.id, updateData);
       setVendor({ ...vendor, ...updateData });
       setEditMode({ ...editMode, [field]: false });
       toast.success(`${field.charAt(0).toUpperCase() + field.slice(1)} updated successfully!`);
@@ -199,6 +201,7 @@ export default function VendorDetailPage() {
   const pendingPackagesCount = vendorServicePackages.filter(pkg => pkg.status === 'pending').length;
   const reviews = vendor.vendor_reviews || [];
   const semiProGearCount = vendorGear.filter(g => g.gear_rating === 'semi-pro').length;
+  const belowMinimumGearCount = vendorGear.filter(g => isBelowMinimum([g.auto_rating])).length;
 
   return (
     <div className="container mx-auto p-6 space-y-6">
@@ -217,9 +220,11 @@ export default function VendorDetailPage() {
           />
         </h1>
         <div className="space-x-2">
-          <button onClick={() => handleDeleteVendor(vendor.id, navigate)} className="inline-flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors">
-            <XCircle className="h-4 w-4 mr-1" /> Delete Vendor
-          </button>
+          {canDeleteVendor && (
+            <button onClick={() => handleDeleteVendor(vendor.id, navigate)} className="inline-flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors">
+              <XCircle className="h-4 w-4 mr-1" /> Delete Vendor
+            </button>
+          )}
           <button onClick={() => navigate('/dashboard/vendors')} className="px-6 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors">
             Back to Vendors
           </button>
@@ -413,7 +418,7 @@ export default function VendorDetailPage() {
             <label className="block text-sm font-medium text-gray-600 mb-1">Review Notes</label>
             <input
               type="text"
-              value={newGear.review_notes}
+              value={newGear.review_notes || ''}
               onChange={e => setNewGear({ ...newGear, review_notes: e.target.value })}
               placeholder="Review Notes"
               className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
@@ -508,6 +513,10 @@ export default function VendorDetailPage() {
         />
       </div>
 
+      <VendorAvailabilityCalendar vendorId={vendor.id} />
+
+      <IcalFeedPanel kind="vendor" ownerId={vendor.id} />
+
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
         <div
           className="flex items-center justify-between cursor-pointer"
@@ -516,6 +525,11 @@ export default function VendorDetailPage() {
           <h2 className="text-lg font-semibold text-gray-900 flex items-center">
             <Camera className="h-5 w-5 text-blue-600 mr-2" />
             Vendor Gear ({vendorGear.length} total, {semiProGearCount} semi-pro)
+            {belowMinimumGearCount > 0 && (
+              <span className={`ml-3 px-2 py-1 text-xs font-medium rounded-full ${gearRatingStyles.rejected}`}>
+                {belowMinimumGearCount} below minimum
+              </span>
+            )}
           </h2>
           <span className="text-xl">{isVendorGearExpanded ? <ChevronDown /> : <ChevronRight />}</span>
         </div>
@@ -536,6 +550,17 @@ export default function VendorDetailPage() {
                         <p><strong>Condition:</strong> {gear.condition || 'N/A'}</p>
                         <p><strong>Submitted:</strong> {new Date(gear.submitted_at).toLocaleDateString()}</p>
                         <p><strong>Rating:</strong> {gear.gear_rating || 'Not rated'}</p>
+                        <p>
+                          <strong>Catalog check:</strong>{' '}
+                          {gear.auto_rating ? (
+                            <>
+                              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${gearRatingStyles[gear.auto_rating as GearRating]}`}>
+                                {gearRatingLabels[gear.auto_rating as GearRating]}
+                              </span>{' '}
+                              <span className="text-sm text-gray-600">{gear.auto_rating_reason}</span>
+                            </>
+                          ) : 'Not checked'}
+                        </p>
                         <p><strong>Notes:</strong> {gear.review_notes || 'None'}</p>
                       </div>
                     </div>
@@ -0,0 +1,283 @@
+import { Fragment, useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FileSpreadsheet, Download, FileText, Archive } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { VendorOption, listVendorOptions } from '../repositories/vendors';
+import { StatementBooking, StatementRefund, getStatementInputs } from '../repositories/vendorStatements';
+import type { BookingDispute } from '../repositories/disputes';
+import {
+  StatementPeriod,
+  buildVendorStatements,
+  downloadStatementPdf,
+  downloadStatementsZip,
+} from '../utils/vendorStatements';
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// Statements default to the last full month
+const lastMonth = (): StatementPeriod => {
+  const month = subMonths(new Date(), 1);
+  return {
+    start: format(startOfMonth(month), 'yyyy-MM-dd'),
+    end: format(endOfMonth(month), 'yyyy-MM-dd'),
+  };
+};
+
+export default function VendorStatementsPage() {
+  const [vendors, setVendors] = useState<VendorOption[]>([]);
+  const [bookings, setBookings] = useState<StatementBooking[]>([]);
+  const [refunds, setRefunds] = useState<StatementRefund[]>([]);
+  const [disputes, setDisputes] = useState<BookingDispute[]>([]);
+  const [vendorId, setVendorId] = useState('all');
+  const [period, setPeriod] = useState<StatementPeriod>(lastMonth);
+  const [loading, setLoading] = useState(true);
+  const [zipping, setZipping] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchInputs = async () => {
+      try {
+        setLoading(true);
+        const [vendorRows, inputs] = await Promise.all([listVendorOptions(), getStatementInputs()]);
+        setVendors(vendorRows);
+        setBookings(inputs.bookings);
+        setRefunds(inputs.refunds);
+        setDisputes(inputs.disputes);
+      } catch (error) {
+        console.error('Error fetching payout statement data:', error);
+        toast.error('Failed to load payout statements');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInputs();
+  }, []);
+
+  const statements = useMemo(() => {
+    if (!period.start || !period.end || period.start > period.end) return [];
+    const selected = vendorId === 'all' ? vendors : vendors.filter(vendor => vendor.id === vendorId);
+    return buildVendorStatements(selected, bookings, refunds, disputes, period);
+  }, [vendors, bookings, refunds, disputes, vendorId, period]);
+
+  const totalNet = statements.reduce((sum, statement) => sum + statement.totals.net, 0);
+  const totalFees = statements.reduce((sum, statement) => sum + statement.totals.platformFee, 0);
+
+  const handleDownloadAll = async () => {
+    if (statements.length === 0) {
+      toast.error('No statements for this period');
+      return;
+    }
+    try {
+      setZipping(true);
+      await downloadStatementsZip(statements, period);
+    } catch (error) {
+      console.error('Error generating payout statements:', error);
+      toast.error('Failed to generate statements');
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <FileSpreadsheet className="h-8 w-8 text-blue-600 mr-3" />
+            Payout Statements
+          </h1>
+          <p className="mt-2 text-gray-500">
+            Per-vendor statements of bookings held in the period, with platform fees withheld and the net payout.
+          </p>
+        </div>
+        <button
+          onClick={handleDownloadAll}
+          disabled={zipping || statements.length === 0}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Archive className="h-4 w-4 mr-2" />
+          {zipping ? 'Generating...' : `Download All (${statements.length})`}
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Vendor</label>
+            <select
+              value={vendorId}
+              onChange={(e) => setVendorId(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All Vendors</option>
+              {vendors.map(vendor => (
+                <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">From</label>
+            <input
+              type="date"
+              value={period.start}
+              onChange={(e) => setPeriod(prev => ({ ...prev, start: e.target.value }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">To</label>
+            <input
+              type="date"
+              value={period.end}
+              onChange={(e) => setPeriod(prev => ({ ...prev, end: e.target.value }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <p className="text-sm font-medium text-gray-500">Vendors with bookings</p>
+          <p className="mt-2 text-3xl font-bold text-gray-900">{statements.length}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <p className="text-sm font-medium text-gray-500">Platform fees withheld</p>
+          <p className="mt-2 text-3xl font-bold text-gray-900">{formatCents(totalFees)}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <p className="text-sm font-medium text-gray-500">Net payouts</p>
+          <p className="mt-2 text-3xl font-bold text-green-600">{formatCents(totalNet)}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Statements ({statements.length})</h2>
+        </div>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : statements.length === 0 ? (
+          <div className="text-center py-12">
+            <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No statements</h3>
+            <p className="text-gray-500">No confirmed bookings have events in this period.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bookings</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deposit / Final</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tips</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fees Withheld</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Refunds</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Held</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Net Payout</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Statement</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {statements.map(statement => (
+                  <Fragment key={statement.vendor.id}>
+                    <tr>
+                      <td className="px-6 py-4 text-sm">
+                        <button
+                          onClick={() => navigate(`/dashboard/vendor/${statement.vendor.id}`)}
+                          className="text-left text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          {statement.vendor.name}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <button
+                          onClick={() => setExpandedId(expandedId === statement.vendor.id ? null : statement.vendor.id)}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          {statement.lines.length} {expandedId === statement.vendor.id ? '(hide)' : '(show)'}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {formatCents(statement.totals.deposit)} / {formatCents(statement.totals.final)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatCents(statement.totals.tip)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatCents(statement.totals.platformFee)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatCents(statement.totals.refunded)}</td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm ${statement.totals.held > 0 ? 'text-orange-600' : 'text-gray-700'}`}>
+                        {formatCents(statement.totals.held)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{formatCents(statement.totals.net)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <button
+                          onClick={() => downloadStatementPdf(statement)}
+                          className="inline-flex items-center px-3 py-1 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+                        >
+                          <Download className="h-4 w-4 mr-1" />
+                          PDF
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedId === statement.vendor.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={9} className="px-6 py-4">
+                          <table className="min-w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-xs text-gray-500 uppercase">
+                                <th className="py-1 pr-4">Event Date</th>
+                                <th className="py-1 pr-4">Couple</th>
+                                <th className="py-1 pr-4">Service</th>
+                                <th className="py-1 pr-4">Deposit</th>
+                                <th className="py-1 pr-4">Final</th>
+                                <th className="py-1 pr-4">Tip</th>
+                                <th className="py-1 pr-4">Fees</th>
+                                <th className="py-1 pr-4">Refunds</th>
+                                <th className="py-1 pr-4">Held</th>
+                                <th className="py-1 pr-4">Net</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {statement.lines.map(line => (
+                                <tr key={line.bookingId} className="text-gray-700">
+                                  <td className="py-1 pr-4">{new Date(line.date).toLocaleDateString()}</td>
+                                  <td className="py-1 pr-4">
+                                    <button
+                                      onClick={() => navigate(`/dashboard/booking/${line.bookingId}`)}
+                                      className="text-blue-600 hover:text-blue-800"
+                                    >
+                                      {line.coupleName}
+                                    </button>
+                                  </td>
+                                  <td className="py-1 pr-4">{line.serviceType}</td>
+                                  <td className="py-1 pr-4">{formatCents(line.deposit)}</td>
+                                  <td className="py-1 pr-4">{formatCents(line.final)}</td>
+                                  <td className="py-1 pr-4">{formatCents(line.tip)}</td>
+                                  <td className="py-1 pr-4">{formatCents(line.platformFee)}</td>
+                                  <td className="py-1 pr-4">{formatCents(line.refunded)}</td>
+                                  <td className={`py-1 pr-4 ${line.held > 0 ? 'text-orange-600' : ''}`}>
+                                    {line.held > 0 ? `${formatCents(line.held)} (disputed)` : formatCents(0)}
+                                  </td>
+                                  <td className="py-1 pr-4 font-medium text-gray-900">{formatCents(line.net)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
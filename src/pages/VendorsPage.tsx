@@ -1,18 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Building2, Plus, Upload, Phone, CreditCard, Star, Edit } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { listVendorsWithServices, getVendorRewardPoints, VendorListItem } from '../repositories/vendors';
 import { useAuth } from '../contexts/AuthContext';
 import toast from 'react-hot-toast';
-import { Vendor, VendorService, VendorServicePackage, VendorReview } from '../types/types';
 import ImportVendorsModal from '../components/ImportVendorsModal';
 import AddVendorModal from '../components/AddVendorModal';
+import { gearRatingStyles, isBelowMinimum } from '../utils/gearEligibility';
+
+type VendorRow = VendorListItem & { states: string[]; points: number };
 
 export function VendorsPage() {
-  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [vendors, setVendors] = useState<VendorRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [serviceFilter, setServiceFilter] = useState('');
+  const [gearFilter, setGearFilter] = useState<'' | 'below_minimum'>('');
   const { user } = useAuth();
   const navigate = useNavigate();
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
@@ -25,43 +28,19 @@ export function VendorsPage() {
   const fetchVendors = async () => {
     try {
       setLoading(true);
-      const { data: vendorsData, error: vendorsError } = await supabase
-        .from('vendors')
-        .select(`
-          id, user_id, name, phone, years_experience, specialties, stripe_account_id, created_at, updated_at, rating,
-          vendor_services (id, vendor_id, service_type, is_active),
-          vendor_reviews (id, vendor_id),
-          vendor_service_packages (id, vendor_id, status),
-          vendor_service_areas (state)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (vendorsError) throw vendorsError;
+      const vendorsData = await listVendorsWithServices();
 
       // Fetch points for each vendor from vendor_rewards_points for 2025
-      const vendorIds = vendorsData?.map(vendor => vendor.id) || [];
-      const { data: pointsData, error: pointsError } = await supabase
-        .from('vendor_rewards_points')
-        .select('vendor_id, points')
-        .in('vendor_id', vendorIds)
-        .eq('year', 2025);
-
-      if (pointsError) throw pointsError;
-
-      // Aggregate points by vendor_id
-      const pointsByVendor = pointsData.reduce((acc, { vendor_id, points }) => {
-        acc[vendor_id] = (acc[vendor_id] || 0) + points;
-        return acc;
-      }, {} as Record<string, number>);
+      const pointsByVendor = await getVendorRewardPoints(vendorsData.map(vendor => vendor.id), 2025);
 
       console.log('Points by vendor:', pointsByVendor);
 
       // Transform vendor_service_areas to extract unique states and ensure points is defined
       const transformedVendors = vendorsData?.map(vendor => ({
         ...vendor,
-        states: [...new Set(vendor.vendor_service_areas.map((area: { state: string }) => area.state))].sort(),
+        states: [...new Set(vendor.vendor_service_areas.map(area => area.state))].sort(),
         points: pointsByVendor[vendor.id] ?? 0, // Use nullish coalescing to ensure 0
-      })) || [];
+      }));
 
       // Log vendors with missing points
       transformedVendors.forEach(vendor => {
@@ -89,7 +68,8 @@ export function VendorsPage() {
       (vendor.profile && vendor.profile.toLowerCase().includes(searchTerm.toLowerCase()));
     const vendorServiceTypes = vendor.vendor_services?.filter(service => service.is_active).map(service => service.service_type) || [];
     const matchesService = !serviceFilter || vendorServiceTypes.includes(serviceFilter);
-    return matchesSearch && matchesService;
+    const matchesGear = !gearFilter || isBelowMinimum(vendor.vendor_gear.map(gear => gear.auto_rating));
+    return matchesSearch && matchesService && matchesGear;
   });
 
   if (loading) {
@@ -137,7 +117,7 @@ export function VendorsPage() {
       </div>
 
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div>
             <label htmlFor="search" className="block text-sm font-medium text-gray-700 mb-2">
               Search Vendors
@@ -167,6 +147,20 @@ export function VendorsPage() {
               ))}
             </select>
           </div>
+          <div>
+            <label htmlFor="gear-filter" className="block text-sm font-medium text-gray-700 mb-2">
+              Filter by Gear
+            </label>
+            <select
+              id="gear-filter"
+              value={gearFilter}
+              onChange={(e) => setGearFilter(e.target.value as '' | 'below_minimum')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All Gear</option>
+              <option value="below_minimum">Gear below minimum</option>
+            </select>
+          </div>
         </div>
       </div>
 
@@ -181,7 +175,7 @@ export function VendorsPage() {
             <Building2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No vendors found</h3>
             <p className="text-gray-500">
-              {searchTerm || serviceFilter ? 'Try adjusting your filters' : 'No vendors have been added yet'}
+              {searchTerm || serviceFilter || gearFilter ? 'Try adjusting your filters' : 'No vendors have been added yet'}
             </p>
           </div>
         ) : (
@@ -235,6 +229,11 @@ export function VendorsPage() {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div>
                           <div className="text-sm font-medium text-gray-900">{vendor.name}</div>
+                          {isBelowMinimum(vendor.vendor_gear.map(gear => gear.auto_rating)) && (
+                            <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${gearRatingStyles.rejected}`}>
+                              Gear below minimum
+                            </span>
+                          )}
                           {vendor.phone && (
                             <div className="text-sm text-gray-500 flex items-center">
                               <Phone className="h-3 w-3 mr-1" />
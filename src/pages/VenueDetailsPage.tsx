@@ -18,14 +18,15 @@ interface Venue {
   region: string | null;
   service_area_id: string | null;
   insurance: string | null;
-  booking_count: number;
+  time_zone: string | null;
+  booking_count?: number;
   created_at: string;
   updated_at: string;
 }
 
 interface ServiceArea {
   id: string;
-  region: string;
+  region: string | null;
 }
 
 // List of U.S. states
@@ -36,6 +37,17 @@ const states = [
   'VA', 'WA', 'WV', 'WI', 'WY'
 ];
 
+// U.S. time zones; used to place couples' wedding-day timelines in calendar feeds
+const timeZones = [
+  ['America/New_York', 'Eastern'],
+  ['America/Chicago', 'Central'],
+  ['America/Denver', 'Mountain'],
+  ['America/Phoenix', 'Mountain (Arizona)'],
+  ['America/Los_Angeles', 'Pacific'],
+  ['America/Anchorage', 'Alaska'],
+  ['Pacific/Honolulu', 'Hawaii'],
+];
+
 export default function VenueDetailsPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -197,7 +209,7 @@ export default function VenueDetailsPage() {
   // Format service areas for react-select
   const serviceAreaOptions = serviceAreas.map(area => ({
     value: area.id,
-    label: area.region
+    label: area.region || ''
   }));
 
   if (loading || !venue || !formData) {
@@ -493,6 +505,44 @@ export default function VenueDetailsPage() {
               </>
             )}
           </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500">Time Zone</label>
+            {editMode.time_zone ? (
+              <>
+                <select
+                  value={formData.time_zone || ''}
+                  onChange={(e) => setFormData(prev => prev ? { ...prev, time_zone: e.target.value || null } : null)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Not set (Eastern)</option>
+                  {timeZones.map(([zone, label]) => (
+                    <option key={zone} value={zone}>{label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleSaveField('time_zone')}
+                  className="mt-2 inline-flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+                  disabled={loading}
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  Save
+                </button>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-gray-900">
+                  {timeZones.find(([zone]) => zone === venue.time_zone)?.[1] || venue.time_zone || 'Not set (Eastern)'}
+                </p>
+                <button
+                  onClick={() => setEditMode(prev => ({ ...prev, time_zone: true }))}
+                  className="mt-2 inline-flex items-center px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded-md hover:bg-gray-300"
+                >
+                  <Edit className="h-4 w-4 mr-1" />
+                  Edit
+                </button>
+              </>
+            )}
+          </div>
           <div>
             <label className="text-sm font-medium text-gray-500">Service Area</label>
             {editMode.service_area ? (
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Calendar, Upload, Plus, Eye, ChevronLeft, ChevronRight } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { listVenues, getVenueBookingCounts } from '../repositories/venues';
 import toast from 'react-hot-toast';
 import AddVenueModal from '../components/AddVenueModal';
 import ImportVenuesModal from '../components/ImportVenuesModal';
@@ -39,29 +39,15 @@ export default function VenuesPage() {
     try {
       setLoading(true);
       // Fetch venues and join with venue_booking_counts
-      const { data: venuesData, error: venuesError } = await supabase
-        .from('venues')
-        .select('id, name, phone, email, contact_name, street_address, city, state, zip, region, created_at');
-
-      if (venuesError) throw venuesError;
-
-      // Fetch booking counts from venue_booking_counts
-      const { data: bookingCounts, error: bookingError } = await supabase
-        .from('venue_booking_counts')
-        .select('name, booking_count');
-
-      if (bookingError) throw bookingError;
+      const [venuesData, bookingCounts] = await Promise.all([listVenues(), getVenueBookingCounts()]);
 
       // Map venues with booking counts, matching by name
-      const venuesWithCounts = venuesData.map(venue => {
-        const bookingData = bookingCounts.find(bc => bc.name === venue.name);
-        return {
-          ...venue,
-          booking_count: bookingData ? bookingData.booking_count : 0,
-        };
-      });
+      const venuesWithCounts = venuesData.map(venue => ({
+        ...venue,
+        booking_count: bookingCounts[venue.name] ?? 0,
+      }));
 
-      setVenues(venuesWithCounts || []);
+      setVenues(venuesWithCounts);
       setCurrentPage(1); // Reset to first page on data fetch
     } catch (error: any) {
       console.error('Error fetching venues:', error);
@@ -0,0 +1,43 @@
+import { db } from '../lib/supabase';
+import type { Tables } from '../types/database';
+import type { PermissionSet } from '../lib/permissions';
+
+export type AdminProfile = Pick<Tables<'profiles'>, 'id' | 'role' | 'admin_level' | 'description' | 'permissions'> & {
+  email: string | null;
+};
+
+// Admins with their login emails, super admins first
+export async function listAdminProfiles(): Promise<AdminProfile[]> {
+  const { data, error } = await db
+    .from('profiles')
+    .select('id, role, admin_level, description, permissions')
+    .eq('role', 'admin')
+    .order('admin_level', { ascending: false });
+  if (error) throw error;
+
+  const ids = (data || []).map(profile => profile.id);
+  let emails: Record<string, string> = {};
+  if (ids.length > 0) {
+    const { data: users, error: usersError } = await db
+      .from('users')
+      .select('id, email')
+      .in('id', ids);
+    if (usersError) throw usersError;
+    emails = (users || []).reduce((acc, row) => {
+      acc[row.id] = row.email;
+      return acc;
+    }, {} as Record<string, string>);
+  }
+
+  return (data || []).map(profile => ({ ...profile, email: emails[profile.id] || null }));
+}
+
+// Only super admins may change permissions (see the
+// check_admin_permissions_in_the_database migration)
+export async function updateAdminPermissions(id: string, permissions: PermissionSet): Promise<void> {
+  const { error } = await db
+    .from('profiles')
+    .update({ permissions, updated_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,78 @@
+import { db } from '../lib/supabase';
+import type { TablesInsert } from '../types/database';
+import type { ApplicationScore, RubricCriterion } from '../utils/applicationReviews';
+
+export async function listRubricCriteria(): Promise<RubricCriterion[]> {
+  const { data, error } = await db
+    .from('application_rubric_criteria')
+    .select('*')
+    .order('position', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function saveRubricCriterion(
+  criterion: Pick<TablesInsert<'application_rubric_criteria'>, 'id' | 'name' | 'description' | 'weight' | 'max_score' | 'position' | 'is_active'>,
+): Promise<RubricCriterion> {
+  // New criteria leave the id to the database
+  const { id, ...fields } = criterion;
+  const { data, error } = await db
+    .from('application_rubric_criteria')
+    .upsert({ ...(id ? { id } : {}), ...fields, updated_at: new Date().toISOString() })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteRubricCriterion(id: string): Promise<void> {
+  const { error } = await db.from('application_rubric_criteria').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export async function getReviewQuorum(): Promise<number> {
+  const { data, error } = await db.from('application_review_settings').select('quorum').maybeSingle();
+  if (error) throw error;
+  return data?.quorum ?? 1;
+}
+
+export async function updateReviewQuorum(quorum: number): Promise<void> {
+  const { error } = await db
+    .from('application_review_settings')
+    .upsert({ id: true, quorum, updated_at: new Date().toISOString() });
+  if (error) throw error;
+}
+
+// Every score when no application is given, for the applications list
+export async function listApplicationScores(applicationId?: string): Promise<ApplicationScore[]> {
+  let query = db.from('application_scores').select('*');
+  if (applicationId) query = query.eq('application_id', applicationId);
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+// Writes the reviewer's own scores; scoring a criterion again replaces the
+// earlier score
+export async function saveApplicationScores(
+  applicationId: string,
+  reviewerId: string,
+  scores: Pick<ApplicationScore, 'criterion_id' | 'score' | 'comment'>[],
+): Promise<ApplicationScore[]> {
+  const { data, error } = await db
+    .from('application_scores')
+    .upsert(
+      scores.map(score => ({ ...score, application_id: applicationId, reviewer_id: reviewerId })),
+      { onConflict: 'application_id,criterion_id,reviewer_id' },
+    )
+    .select('*');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listReviewerEmails(reviewerIds: string[]): Promise<Record<string, string>> {
+  if (reviewerIds.length === 0) return {};
+  const { data, error } = await db.from('users').select('id, email').in('id', reviewerIds);
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(user => [user.id, user.email]));
+}
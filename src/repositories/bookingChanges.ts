@@ -0,0 +1,128 @@
+import { db } from '../lib/supabase';
+import type { Tables, TablesInsert } from '../types/database';
+import type { CancellationPolicyTier, PlannedRefund } from '../utils/bookingChanges';
+import { Booking } from './bookings';
+import { refundPayment } from './refunds';
+
+export type BookingReschedule = Tables<'booking_reschedules'>;
+
+export async function listCancellationPolicyTiers(): Promise<CancellationPolicyTier[]> {
+  const { data, error } = await db
+    .from('cancellation_policy_tiers')
+    .select('*')
+    .order('min_days_before', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function saveCancellationPolicyTier(
+  tier: Pick<TablesInsert<'cancellation_policy_tiers'>, 'id' | 'min_days_before' | 'refund_percentage'>,
+): Promise<CancellationPolicyTier> {
+  // New tiers leave the id to the database
+  const { id, ...fields } = tier;
+  const { data, error } = await db
+    .from('cancellation_policy_tiers')
+    .upsert({ ...(id ? { id } : {}), ...fields, updated_at: new Date().toISOString() })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteCancellationPolicyTier(id: string): Promise<void> {
+  const { error } = await db.from('cancellation_policy_tiers').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export interface CancellationRequest {
+  bookingId: string;
+  reason: string;
+  refundPercentage: number;
+  refunds: PlannedRefund[];
+  // Each payment's refund reuses it (suffixed with the payment id) so a retried
+  // cancellation does not refund anything twice
+  idempotencyKey: string;
+}
+
+// Issues the planned refunds through refund-payment, then cancel_booking moves
+// the booking to cancelled (or refunded) and settles its invoices. The
+// cancellation is checked before any money moves. A refund that fails stops
+// the cancellation; the ones already issued are recorded and left out of the
+// plan when it is worked out again.
+export async function cancelBooking(request: CancellationRequest): Promise<Booking> {
+  const { data: refusal, error: checkError } = await db.rpc('booking_cancellation_error', {
+    p_booking_id: request.bookingId,
+    p_reason: request.reason,
+    p_refund_percentage: request.refundPercentage,
+  });
+  if (checkError) throw checkError;
+  if (refusal) throw new Error(refusal);
+
+  for (const refund of request.refunds) {
+    await refundPayment({
+      paymentId: refund.payment.id,
+      amount: refund.amount,
+      reason: `Booking cancelled: ${request.reason}`,
+      idempotencyKey: `${request.idempotencyKey}:${refund.payment.id}`,
+    });
+  }
+
+  const { data, error } = await db.rpc('cancel_booking', {
+    p_booking_id: request.bookingId,
+    p_reason: request.reason,
+    p_refund_percentage: request.refundPercentage,
+  });
+  if (error) throw error;
+  return data;
+}
+
+// The booking's event and the couple's other upcoming events with the vendor,
+// which reschedule_booking moves together
+export async function getRescheduleEvents(booking: Pick<Booking, 'couple_id' | 'vendor_id' | 'event_id'>) {
+  const { data, error } = await db
+    .from('events')
+    .select('id, couple_id, start_time, end_time, title, type, is_blocked_time')
+    .eq('vendor_id', booking.vendor_id)
+    .order('start_time');
+  if (error) throw error;
+  const now = Date.now();
+  return (data || []).filter(event =>
+    event.id === booking.event_id ||
+    (event.couple_id === booking.couple_id && Date.parse(event.end_time) > now));
+}
+
+export async function rescheduleBooking(bookingId: string, startTime: string, reason: string | null): Promise<BookingReschedule[]> {
+  const { data, error } = await db.rpc('reschedule_booking', {
+    p_booking_id: bookingId,
+    p_start_time: startTime,
+    p_reason: reason,
+  });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listBookingReschedules(bookingId: string): Promise<BookingReschedule[]> {
+  const { data, error } = await db
+    .from('booking_reschedules')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export type BookingNoticeKind = 'cancelled' | 'rescheduled';
+
+// Emails the couple and the vendor through send-booking-notice, which reads the
+// refunds or the last reschedule from the booking and logs each email in
+// email_logs
+export async function sendBookingNotice(bookingId: string, kind: BookingNoticeKind): Promise<string[]> {
+  const { data, error } = await db.functions.invoke<{ sent: string[] }>('send-booking-notice', {
+    body: { booking_id: bookingId, kind },
+  });
+  if (error) {
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+  return data?.sent || [];
+}
@@ -0,0 +1,142 @@
+import { db } from '../lib/supabase';
+import type { Tables, TablesUpdate } from '../types/database';
+import type { BookingStatus, BookingTransitionFacts } from '../utils/bookingStatus';
+
+export type Booking = Tables<'bookings'>;
+export type BookingStatusChange = Tables<'booking_status_history'>;
+export type BookingOption = Pick<Booking, 'id' | 'couple_id' | 'vendor_id' | 'package_id' | 'service_type'>;
+
+const BOOKING_COLUMNS = 'id, couple_id, vendor_id, event_id, status, amount, service_type, package_id, created_at, venue_id, initial_payment, final_payment, platform_fee, paid_amount, vendor_deposit_share, platform_deposit_share, vendor_final_share, platform_final_share, platform_total_earnings, vendor_total_earnings, tip_amount, final_payment_status, cancelled_at, cancellation_reason, cancellation_refund_percentage' as const;
+
+export type NewBookingInput = {
+  couple_id: string;
+  vendor_id: string;
+  status: BookingStatus;
+  amount: number; // cents
+  service_type: string;
+  event_type: string;
+  package_id: string | null;
+  venue_id: string | null;
+  start_time: string; // ISO timestamp
+  end_time: string; // ISO timestamp
+  title: string;
+  is_blocked_time?: boolean;
+};
+
+export interface BookingBatchResult {
+  success: boolean;
+  error: string | null;
+  failedIndex: number | null; // 0-based index into the submitted batch
+}
+
+export async function listBookingOptions(): Promise<BookingOption[]> {
+  const { data, error } = await db
+    .from('bookings')
+    .select('id, couple_id, vendor_id, package_id, service_type');
+  if (error) throw error;
+  return data || [];
+}
+
+// Bookings list: couple and vendor names plus the start of the booked event
+export async function listBookingsWithParties() {
+  const { data, error } = await db
+    .from('bookings')
+    .select(`
+      id, couple_id, vendor_id, status, amount, service_type, event_id,
+      couples!bookings_couple_id_fkey (name),
+      vendors!bookings_vendor_id_fkey (name),
+      events!bookings_event_id_fkey (start_time)
+    `);
+  if (error) throw error;
+  return data || [];
+}
+
+// A couple's bookings with the vendor, package and venue each one is for
+export async function listBookingsForCouple(coupleId: string) {
+  const { data, error } = await db
+    .from('bookings')
+    .select(`
+      id, couple_id, vendor_id, status, amount, service_type, package_id, created_at, venue_id,
+      vendors!bookings_vendor_id_fkey (name, phone, user_id),
+      service_packages!bookings_package_id_fkey (id, name, service_type, description, price, vendor_id, event_type),
+      venues!bookings_venue_id_fkey (name, street_address, city, state, zip)
+    `)
+    .eq('couple_id', coupleId);
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getBooking(id: string) {
+  const { data, error } = await db
+    .from('bookings')
+    .select(BOOKING_COLUMNS)
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateBooking(id: string, changes: TablesUpdate<'bookings'>): Promise<void> {
+  const { error } = await db.from('bookings').update(changes).eq('id', id);
+  if (error) throw error;
+}
+
+// Status changes go through transition_booking_status, which rejects moves the
+// lifecycle does not allow (see utils/bookingStatus)
+export async function transitionBookingStatus(id: string, status: BookingStatus, note: string | null): Promise<Booking> {
+  const { data, error } = await db.rpc('transition_booking_status', {
+    p_booking_id: id,
+    p_status: status,
+    p_note: note,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function listBookingStatusHistory(bookingId: string): Promise<BookingStatusChange[]> {
+  const { data, error } = await db
+    .from('booking_status_history')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('changed_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+// What the lifecycle guards check before a booking moves on
+export async function getBookingTransitionFacts(
+  booking: Pick<Booking, 'id' | 'couple_id' | 'vendor_id' | 'event_id'>,
+): Promise<BookingTransitionFacts> {
+  const [deposits, event, reviews, refunds] = await Promise.all([
+    db.from('payments').select('id').eq('booking_id', booking.id).eq('payment_type', 'deposit').in('status', ['succeeded', 'paid']).limit(1),
+    booking.event_id
+      ? db.from('events').select('end_time').eq('id', booking.event_id).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    db.from('vendor_reviews').select('id').eq('vendor_id', booking.vendor_id).eq('couple_id', booking.couple_id).limit(1),
+    db.from('refunds').select('id').eq('booking_id', booking.id).eq('status', 'succeeded').limit(1),
+  ]);
+  const error = deposits.error || event.error || reviews.error || refunds.error;
+  if (error) throw error;
+  return {
+    depositPaid: (deposits.data || []).length > 0,
+    eventEndsAt: event.data?.end_time ?? null,
+    coupleReviewedVendor: (reviews.data || []).length > 0,
+    refundSucceeded: (refunds.data || []).length > 0,
+  };
+}
+
+// Creates every booking and its event through create_bookings_batch, which runs
+// in a single transaction: either all rows are written or none are.
+export async function createBookingsBatch(bookings: NewBookingInput[]): Promise<BookingBatchResult> {
+  const { error } = await db.rpc('create_bookings_batch', { p_bookings: bookings });
+  if (!error) return { success: true, error: null, failedIndex: null };
+
+  let failedIndex: number | null = null;
+  try {
+    const details = JSON.parse(error.details || '{}');
+    if (typeof details.failed_index === 'number') failedIndex = details.failed_index - 1;
+  } catch {
+    // details is not JSON (e.g. a network or permission error); the whole batch failed
+  }
+  return { success: false, error: error.message, failedIndex };
+}
@@ -0,0 +1,19 @@
+import { db } from '../lib/supabase';
+import type { Tables, TablesInsert } from '../types/database';
+
+export type Contract = Tables<'contracts'>;
+
+export async function listContractsForBooking(bookingId: string): Promise<Contract[]> {
+  const { data, error } = await db
+    .from('contracts')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createContract(contract: TablesInsert<'contracts'>): Promise<void> {
+  const { error } = await db.from('contracts').insert(contract);
+  if (error) throw error;
+}
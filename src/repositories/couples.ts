@@ -0,0 +1,70 @@
+import { db, selectAllPages } from '../lib/supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../types/database';
+
+export type Couple = Tables<'couples'>;
+export type CoupleOption = Pick<Couple, 'id' | 'name' | 'partner1_name' | 'partner2_name' | 'email'>;
+
+const COUPLE_COLUMNS = `
+  id, user_id, name, wedding_date, budget, vibe_tags, created_at, updated_at,
+  partner1_name, partner2_name, venue_id, venue_name, guest_count, phone, email,
+  venue_city, venue_state
+` as const;
+
+export type CoupleSummary = Omit<Couple, 'venue_street_address' | 'ical_feed_token'>;
+
+export async function listCoupleOptions(): Promise<CoupleOption[]> {
+  return selectAllPages((from, to) =>
+    db
+      .from('couples')
+      .select('id, name, partner1_name, partner2_name, email')
+      .order('name', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+}
+
+export async function listCouples(): Promise<CoupleSummary[]> {
+  const { data, error } = await db
+    .from('couples')
+    .select(COUPLE_COLUMNS)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getCouple(id: string): Promise<CoupleSummary> {
+  const { data, error } = await db
+    .from('couples')
+    .select(COUPLE_COLUMNS)
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+// The email the couple logs in with, or null when they have no login row
+export async function getCoupleLoginEmail(userId: string): Promise<string | null> {
+  const { data, error } = await db.from('users').select('email').eq('id', userId).maybeSingle();
+  if (error) throw error;
+  return data?.email || null;
+}
+
+// Emails the couple a magic link to log in (the send-email edge function)
+export async function sendCoupleLoginLink(email: string): Promise<void> {
+  const { error } = await db.functions.invoke('send-email', { body: { email } });
+  if (error) {
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+}
+
+export async function createCouple(couple: TablesInsert<'couples'>): Promise<Couple> {
+  const { data, error } = await db.from('couples').insert(couple).select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateCouple(id: string, changes: TablesUpdate<'couples'>): Promise<void> {
+  const { error } = await db.from('couples').update(changes).eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,57 @@
+import { db } from '../lib/supabase';
+import type { Tables } from '../types/database';
+
+export type CreditNoteLine = Tables<'credit_note_lines'>;
+
+export interface CreditNoteLineInput {
+  invoiceLineItemId: string;
+  amount: number;
+  description?: string;
+}
+
+export async function listCreditNotesForInvoice(invoiceId: string) {
+  const { data, error } = await db
+    .from('credit_notes')
+    .select('*, credit_note_lines (*)')
+    .eq('invoice_id', invoiceId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export type CreditNote = Awaited<ReturnType<typeof listCreditNotesForInvoice>>[number];
+
+// Every credit note with the invoice it was issued against, for the Payments dashboard
+export async function listCreditNotesWithParties() {
+  const { data, error } = await db
+    .from('credit_notes')
+    .select(`
+      id, invoice_id, amount, reason, created_at,
+      invoices (
+        id, status,
+        couples (partner1_name, partner2_name),
+        vendors (name)
+      )
+    `)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export type CreditNoteWithParties = Awaited<ReturnType<typeof listCreditNotesWithParties>>[number];
+
+// issue_credit_note checks each line against what is left to credit on it and
+// takes the total off the invoice's remaining balance in one transaction
+export async function issueCreditNote(invoiceId: string, reason: string, lines: CreditNoteLineInput[]) {
+  const { data, error } = await db.rpc('issue_credit_note', {
+    p_invoice_id: invoiceId,
+    p_reason: reason,
+    p_lines: lines.map(line => ({
+      invoice_line_item_id: line.invoiceLineItemId,
+      amount: line.amount,
+      description: line.description || null,
+    })),
+  });
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,106 @@
+import { db } from '../lib/supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../types/database';
+
+export type Dispute = Tables<'disputes'>;
+
+const EVIDENCE_BUCKET = 'dispute-evidence';
+
+const DISPUTE_DETAIL_COLUMNS = `
+  *,
+  payments (id, amount, payment_type, stripe_payment_id, invoice_id, created_at),
+  bookings (id, service_type, couples!bookings_couple_id_fkey (name)),
+  vendors (id, name)
+` as const;
+
+// The disputes queue: open disputes first, soonest evidence deadline first
+export async function listDisputesWithDetails() {
+  const { data, error } = await db
+    .from('disputes')
+    .select(DISPUTE_DETAIL_COLUMNS)
+    .order('evidence_due_by', { ascending: true, nullsFirst: false })
+    .order('opened_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export type DisputeWithDetails = Awaited<ReturnType<typeof listDisputesWithDetails>>[number];
+
+export async function getDisputeWithDetails(id: string): Promise<DisputeWithDetails> {
+  const { data, error } = await db
+    .from('disputes')
+    .select(DISPUTE_DETAIL_COLUMNS)
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function listDisputesForPayment(paymentId: string): Promise<Dispute[]> {
+  const { data, error } = await db
+    .from('disputes')
+    .select('*')
+    .eq('payment_id', paymentId)
+    .order('opened_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+// Disputes that hold back a vendor share, for the payout statements
+export async function listBookingDisputes() {
+  const { data, error } = await db
+    .from('disputes')
+    .select('booking_id, status')
+    .not('booking_id', 'is', null);
+  if (error) throw error;
+  return data || [];
+}
+
+export type BookingDispute = Awaited<ReturnType<typeof listBookingDisputes>>[number];
+
+// For disputes recorded by hand; Stripe disputes arrive through the stripe-webhook function
+export async function createDispute(
+  dispute: Pick<TablesInsert<'disputes'>, 'payment_id' | 'booking_id' | 'vendor_id' | 'amount' | 'reason' | 'status' | 'evidence_due_by' | 'notes'>,
+): Promise<Dispute> {
+  const { data, error } = await db
+    .from('disputes')
+    .insert({ ...dispute, evidence_files: [], opened_at: new Date().toISOString() })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateDispute(
+  id: string,
+  updates: Pick<TablesUpdate<'disputes'>, 'status' | 'evidence_due_by' | 'notes' | 'closed_at' | 'evidence_files'>,
+): Promise<Dispute> {
+  const { data, error } = await db
+    .from('disputes')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+// Evidence files live under the dispute's id in a private bucket; the dispute
+// keeps the list of paths
+export async function uploadDisputeEvidence(dispute: Pick<Dispute, 'id' | 'evidence_files'>, file: File): Promise<Dispute> {
+  const path = `${dispute.id}/${Date.now()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+  const { error } = await db.storage.from(EVIDENCE_BUCKET).upload(path, file);
+  if (error) throw error;
+  return updateDispute(dispute.id, { evidence_files: [...dispute.evidence_files, path] });
+}
+
+export async function removeDisputeEvidence(dispute: Pick<Dispute, 'id' | 'evidence_files'>, path: string): Promise<Dispute> {
+  const { error } = await db.storage.from(EVIDENCE_BUCKET).remove([path]);
+  if (error) throw error;
+  return updateDispute(dispute.id, { evidence_files: dispute.evidence_files.filter(file => file !== path) });
+}
+
+export async function getDisputeEvidenceUrl(path: string): Promise<string> {
+  const { data, error } = await db.storage.from(EVIDENCE_BUCKET).createSignedUrl(path, 3600);
+  if (error) throw error;
+  return data.signedUrl;
+}
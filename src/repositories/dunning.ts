@@ -0,0 +1,55 @@
+import { db } from '../lib/supabase';
+import type { Tables, TablesInsert } from '../types/database';
+
+export type DunningStep = Tables<'dunning_steps'>;
+export type InvoiceReminder = Tables<'invoice_reminders'>;
+
+export async function listDunningSteps(): Promise<DunningStep[]> {
+  const { data, error } = await db
+    .from('dunning_steps')
+    .select('*')
+    .order('offset_days');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function saveDunningStep(
+  step: Pick<TablesInsert<'dunning_steps'>, 'id' | 'name' | 'offset_days' | 'subject' | 'body' | 'is_active'>,
+): Promise<DunningStep> {
+  // New steps leave the id to the database
+  const { id, ...fields } = step;
+  const { data, error } = await db
+    .from('dunning_steps')
+    .upsert({ ...(id ? { id } : {}), ...fields, updated_at: new Date().toISOString() })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteDunningStep(id: string): Promise<void> {
+  const { error } = await db.from('dunning_steps').delete().eq('id', id);
+  if (error) throw error;
+}
+
+// Newest first; pass invoice ids to limit the history to those invoices
+export async function listInvoiceReminders(invoiceIds?: string[]): Promise<InvoiceReminder[]> {
+  if (invoiceIds && invoiceIds.length === 0) return [];
+  let query = db.from('invoice_reminders').select('*').order('sent_at', { ascending: false });
+  if (invoiceIds) query = query.in('invoice_id', invoiceIds);
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+// Sends the invoice's next dunning step now (or the given step) through the
+// same send-dunning-reminders function the daily run uses
+export async function sendDunningReminder(invoiceId: string, stepId?: string): Promise<void> {
+  const { error } = await db.functions.invoke('send-dunning-reminders', {
+    body: { invoice_id: invoiceId, step_id: stepId },
+  });
+  if (error) {
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+}
@@ -0,0 +1,63 @@
+import { db } from '../lib/supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../types/database';
+
+export type CalendarEvent = Tables<'events'>;
+
+const EVENT_WITH_PARTIES_COLUMNS = `
+  id, couple_id, vendor_id, start_time, end_time, type, title, created_at,
+  couples!events_couple_id_fkey (name),
+  vendors!events_vendor_id_fkey (name)
+` as const;
+
+export async function listEventsWithParties() {
+  const { data, error } = await db
+    .from('events')
+    .select(EVENT_WITH_PARTIES_COLUMNS)
+    .order('start_time', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getEventWithParties(id: string) {
+  const { data, error } = await db
+    .from('events')
+    .select(EVENT_WITH_PARTIES_COLUMNS)
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function listEventsForCouple(coupleId: string) {
+  const { data, error } = await db
+    .from('events')
+    .select('id, couple_id, start_time, end_time, type, title, created_at')
+    .eq('couple_id', coupleId)
+    .order('start_time', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+// One page of a couple's upcoming events with a vendor, soonest first
+export async function listUpcomingEvents(coupleId: string, vendorId: string, page: number, pageSize = 5) {
+  const { data, error } = await db
+    .from('events')
+    .select('id, start_time, end_time, title')
+    .eq('couple_id', coupleId)
+    .eq('vendor_id', vendorId)
+    .gte('start_time', new Date().toISOString())
+    .order('start_time', { ascending: true })
+    .range(page * pageSize, page * pageSize + pageSize - 1);
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createEvent(event: TablesInsert<'events'>): Promise<void> {
+  const { error } = await db.from('events').insert(event);
+  if (error) throw error;
+}
+
+export async function updateEvent(id: string, changes: TablesUpdate<'events'>): Promise<void> {
+  const { error } = await db.from('events').update(changes).eq('id', id);
+  if (error) throw error;
+}
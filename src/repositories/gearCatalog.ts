@@ -0,0 +1,34 @@
+import { db } from '../lib/supabase';
+import type { TablesInsert } from '../types/database';
+import type { GearCatalogEntry } from '../utils/gearEligibility';
+
+export async function listGearCatalog(): Promise<GearCatalogEntry[]> {
+  const { data, error } = await db
+    .from('gear_catalog')
+    .select('*')
+    .order('service_type', { ascending: true })
+    .order('gear_type', { ascending: true })
+    .order('brand', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+// Saving re-rates every vendor's gear (see the create_gear_catalog migration)
+export async function saveGearCatalogEntry(
+  entry: Pick<TablesInsert<'gear_catalog'>, 'id' | 'service_type' | 'gear_type' | 'brand' | 'model' | 'rating' | 'notes'>,
+): Promise<GearCatalogEntry> {
+  // New entries leave the id to the database
+  const { id, ...fields } = entry;
+  const { data, error } = await db
+    .from('gear_catalog')
+    .upsert({ ...(id ? { id } : {}), ...fields, updated_at: new Date().toISOString() })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteGearCatalogEntry(id: string): Promise<void> {
+  const { error } = await db.from('gear_catalog').delete().eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,38 @@
+import { db } from '../lib/supabase';
+import type { IcalFeedKind } from '../utils/icalendar';
+
+export async function getIcalFeedToken(kind: IcalFeedKind, id: string): Promise<string | null> {
+  const { data, error } = kind === 'vendor'
+    ? await db.from('vendors').select('ical_feed_token').eq('id', id).single()
+    : await db.from('couples').select('ical_feed_token').eq('id', id).single();
+  if (error) throw error;
+  return data.ical_feed_token;
+}
+
+// Issues a new token; links built from the old one stop working
+export async function regenerateIcalFeedToken(kind: IcalFeedKind, id: string): Promise<string> {
+  const { data, error } = await db.rpc('regenerate_ical_feed_token', { p_kind: kind, p_id: id });
+  if (error) throw error;
+  return data;
+}
+
+export async function revokeIcalFeedToken(kind: IcalFeedKind, id: string): Promise<void> {
+  const { error } = kind === 'vendor'
+    ? await db.from('vendors').update({ ical_feed_token: null }).eq('id', id)
+    : await db.from('couples').update({ ical_feed_token: null }).eq('id', id);
+  if (error) throw error;
+}
+
+// The address calendar apps subscribe to
+export const icalFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ical-feed?token=${encodeURIComponent(token)}`;
+
+// The feed exactly as the ical-feed function serves it
+export async function previewIcalFeed(token: string): Promise<string> {
+  const { data, error } = await db.functions.invoke<string>('ical-feed', { body: { token } });
+  if (error) {
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+  return data ?? '';
+}
@@ -0,0 +1,58 @@
+import { db } from '../lib/supabase';
+import type { Tables, TablesInsert } from '../types/database';
+
+export type Installment = Tables<'invoice_installments'>;
+
+export async function listInstallmentsForInvoice(invoiceId: string): Promise<Installment[]> {
+  const { data, error } = await db
+    .from('invoice_installments')
+    .select('*')
+    .eq('invoice_id', invoiceId)
+    .order('sequence');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createInstallments(
+  invoiceId: string,
+  installments: Pick<TablesInsert<'invoice_installments'>, 'sequence' | 'amount' | 'due_date'>[],
+): Promise<Installment[]> {
+  const { data, error } = await db
+    .from('invoice_installments')
+    .insert(installments.map(installment => ({
+      ...installment,
+      invoice_id: invoiceId,
+      payment_token: crypto.randomUUID(),
+    })))
+    .select('*');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function deleteInstallmentsForInvoice(invoiceId: string): Promise<void> {
+  const { error } = await db.from('invoice_installments').delete().eq('invoice_id', invoiceId);
+  if (error) throw error;
+}
+
+// Open installments due before the given date (yyyy-MM-dd), with who the
+// invoice is for so the overdue list can name them
+export async function listOverdueInstallments(before: string) {
+  const { data, error } = await db
+    .from('invoice_installments')
+    .select(`
+      *,
+      invoices (
+        id, recipient_type, status,
+        couples (partner1_name, partner2_name, email),
+        vendors (name)
+      )
+    `)
+    .neq('status', 'paid')
+    .lt('due_date', before)
+    .order('due_date');
+  if (error) throw error;
+  // A void invoice owes nothing, whatever its schedule still says
+  return (data || []).filter(installment => installment.invoices?.status !== 'void');
+}
+
+export type OverdueInstallment = Awaited<ReturnType<typeof listOverdueInstallments>>[number];
@@ -0,0 +1,218 @@
+import { db } from '../lib/supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../types/database';
+import { listPaymentsForInvoice } from './payments';
+
+export type Invoice = Tables<'invoices'>;
+export type InvoiceLineItem = Tables<'invoice_line_items'>;
+
+const INVOICE_COLUMNS = 'id, recipient_type, couple_id, vendor_id, total_amount, remaining_balance, discount_amount, discount_percentage, deposit_amount, tax_state, tax_rate, tax_amount, card_fee_percentage, card_fee_amount, status, due_date, credited_amount, voided_at, void_reason, paid_at, payment_token, stripe_payment_intent_id' as const;
+const LINE_ITEM_COLUMNS = 'id, invoice_id, type, service_package_id, store_product_id, booking_id, custom_description, custom_price, quantity, taxable, vendor_id, stripe_account_id' as const;
+
+export async function getInvoice(id: string) {
+  const { data, error } = await db
+    .from('invoices')
+    .select(INVOICE_COLUMNS)
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function listInvoiceLineItems(invoiceId: string) {
+  const { data, error } = await db
+    .from('invoice_line_items')
+    .select(LINE_ITEM_COLUMNS)
+    .eq('invoice_id', invoiceId);
+  if (error) throw error;
+  return data || [];
+}
+
+// Everything an invoice can bill, for picking line items and naming them
+export async function getInvoiceCatalog() {
+  const [couples, vendors, users, servicePackages, storeProducts, bookings, events, vendorServicePackages] = await Promise.all([
+    db.from('couples').select('id, partner1_name, partner2_name, email, phone, venue_state'),
+    db.from('vendors').select('id, name, user_id, phone, stripe_account_id'),
+    db.from('users').select('id, email'),
+    db.from('service_packages').select('id, name, price'),
+    db.from('store_products').select('id, name, price'),
+    db.from('bookings').select('id, couple_id, vendor_id, package_id, amount, initial_payment, service_type, event_id'),
+    db.from('events').select('id, title, start_time'),
+    db.from('vendor_service_packages').select('vendor_id, service_package_id, service_type'),
+  ]);
+  for (const response of [couples, vendors, users, servicePackages, storeProducts, bookings, events, vendorServicePackages]) {
+    if (response.error) throw response.error;
+  }
+
+  const emails = new Map((users.data || []).map(user => [user.id, user.email]));
+  return {
+    couples: couples.data || [],
+    vendors: (vendors.data || []).map(vendor => ({ ...vendor, email: emails.get(vendor.user_id) || '' })),
+    servicePackages: servicePackages.data || [],
+    storeProducts: storeProducts.data || [],
+    bookings: bookings.data || [],
+    events: events.data || [],
+    vendorServicePackages: vendorServicePackages.data || [],
+  };
+}
+
+// The invoice editor: the invoice, its line items, the payments made against it
+// and the catalog to add lines from
+export async function getInvoiceEditorInputs(id: string) {
+  const [invoice, lineItems, catalog] = await Promise.all([getInvoice(id), listInvoiceLineItems(id), getInvoiceCatalog()]);
+  const bookingIds = lineItems.map(item => item.booking_id).filter((bookingId): bookingId is string => !!bookingId);
+  const payments = await listPaymentsForInvoice(id, bookingIds);
+  return { invoice, lineItems, ...catalog, payments };
+}
+
+export async function listInvoicesWithLineItems() {
+  const { data, error } = await db
+    .from('invoices')
+    .select(`${INVOICE_COLUMNS}, invoice_line_items (${LINE_ITEM_COLUMNS})`);
+  if (error) throw error;
+  return data || [];
+}
+
+// Creates a draft invoice with its line items
+export async function createInvoice(
+  invoice: TablesInsert<'invoices'>,
+  lineItems: Omit<TablesInsert<'invoice_line_items'>, 'invoice_id'>[],
+): Promise<Invoice> {
+  const { data, error } = await db.from('invoices').insert(invoice).select().single();
+  if (error) throw error;
+  const { error: lineItemsError } = await db
+    .from('invoice_line_items')
+    .insert(lineItems.map(item => ({ ...item, invoice_id: data.id })));
+  if (lineItemsError) throw lineItemsError;
+  return data;
+}
+
+// Line items can only change while the invoice is a draft (see
+// prevent_sent_invoice_changes)
+export async function saveInvoiceLineItems(
+  existing: TablesInsert<'invoice_line_items'>[],
+  added: TablesInsert<'invoice_line_items'>[],
+): Promise<void> {
+  if (existing.length > 0) {
+    const { error } = await db.from('invoice_line_items').upsert(existing, { onConflict: 'id' });
+    if (error) throw error;
+  }
+  if (added.length > 0) {
+    const { error } = await db.from('invoice_line_items').insert(added);
+    if (error) throw error;
+  }
+}
+
+export async function deleteInvoiceLineItem(id: string): Promise<void> {
+  const { error } = await db.from('invoice_line_items').delete().eq('id', id);
+  if (error) throw error;
+}
+
+// Invoices with the couple, vendor and first service package names used by the
+// payment pickers; pass statuses to limit the list (e.g. open invoices only)
+export async function listInvoicesWithParties(statuses?: string[]) {
+  let query = db
+    .from('invoices')
+    .select(`
+      id,
+      couple_id,
+      vendor_id,
+      status,
+      remaining_balance,
+      credited_amount,
+      couples!left (partner1_name, partner2_name),
+      vendors!left (name),
+      invoice_line_items!left (service_packages (name))
+    `);
+  if (statuses) query = query.in('status', statuses);
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export type InvoiceWithParties = Awaited<ReturnType<typeof listInvoicesWithParties>>[number];
+
+// Everything an invoice PDF shows: the invoice with its recipient and named line
+// items, plus the payments (on the invoice or its bookings) and their refunds
+export async function getInvoicePdfInputs(invoiceIds: string[]) {
+  if (invoiceIds.length === 0) return { invoices: [], payments: [], refunds: [] };
+  const { data: invoices, error } = await db
+    .from('invoices')
+    .select(`
+      id, recipient_type, couple_id, vendor_id, total_amount, remaining_balance,
+      discount_amount, discount_percentage, deposit_amount,
+      tax_state, tax_rate, tax_amount, card_fee_percentage, card_fee_amount,
+      status, credited_amount, void_reason, paid_at, payment_token, created_at,
+      couples (partner1_name, partner2_name, email),
+      vendors (name),
+      invoice_line_items (
+        id, type, booking_id, custom_description, custom_price, quantity, taxable,
+        service_packages (name),
+        store_products (name),
+        bookings (service_type, service_packages!bookings_package_id_fkey (name))
+      )
+    `)
+    .in('id', invoiceIds);
+  if (error) throw error;
+
+  const bookingIds = (invoices || []).flatMap(invoice =>
+    invoice.invoice_line_items.map(item => item.booking_id).filter((id): id is string => !!id),
+  );
+  const filter = bookingIds.length > 0
+    ? `invoice_id.in.(${invoiceIds.join(',')}),booking_id.in.(${bookingIds.join(',')})`
+    : `invoice_id.in.(${invoiceIds.join(',')})`;
+  const { data: payments, error: paymentsError } = await db
+    .from('payments')
+    .select('id, invoice_id, booking_id, amount, status, payment_type, created_at')
+    .or(filter)
+    .order('created_at');
+  if (paymentsError) throw paymentsError;
+
+  const paymentIds = (payments || []).map(payment => payment.id);
+  let refunds: { payment_id: string; amount: number; status: string }[] = [];
+  if (paymentIds.length > 0) {
+    const { data, error: refundsError } = await db
+      .from('refunds')
+      .select('payment_id, amount, status')
+      .in('payment_id', paymentIds)
+      .neq('status', 'failed');
+    if (refundsError) throw refundsError;
+    refunds = data || [];
+  }
+
+  return { invoices: invoices || [], payments: payments || [], refunds };
+}
+
+export type InvoicePdfInputs = Awaited<ReturnType<typeof getInvoicePdfInputs>>;
+
+export async function updateInvoice(id: string, changes: TablesUpdate<'invoices'>): Promise<void> {
+  const { error } = await db.from('invoices').update(changes).eq('id', id);
+  if (error) throw error;
+}
+
+export interface InvoiceEmailAttachment {
+  filename: string;
+  content: string; // base64
+}
+
+// Emails the invoice to its recipient; with an installment id it becomes a
+// reminder for that installment, linking to the installment's own payment page
+export async function sendInvoiceEmail(
+  invoiceId: string,
+  installmentId?: string,
+  attachment?: InvoiceEmailAttachment
+): Promise<void> {
+  const { error } = await db.functions.invoke('send-invoice-email', {
+    body: { invoice_id: invoiceId, installment_id: installmentId, attachment },
+  });
+  if (error) {
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+}
+
+// Only invoices with nothing left paid on them can be voided; refund first
+export async function voidInvoice(invoiceId: string, reason: string) {
+  const { data, error } = await db.rpc('void_invoice', { p_invoice_id: invoiceId, p_reason: reason });
+  if (error) throw error;
+  return data;
+}
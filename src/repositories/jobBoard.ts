@@ -0,0 +1,34 @@
+import { db } from '../lib/supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../types/database';
+
+export type Job = Tables<'job_board'>;
+
+export async function listJobs(): Promise<Job[]> {
+  const { data, error } = await db
+    .from('job_board')
+    .select('*')
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getJob(id: string): Promise<Job> {
+  const { data, error } = await db.from('job_board').select('*').eq('id', id).single();
+  if (error) throw error;
+  return data;
+}
+
+export async function createJobs(jobs: TablesInsert<'job_board'>[]): Promise<void> {
+  const { error } = await db.from('job_board').insert(jobs);
+  if (error) throw error;
+}
+
+export async function updateJob(id: string, changes: TablesUpdate<'job_board'>): Promise<void> {
+  const { error } = await db.from('job_board').update(changes).eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteJob(id: string): Promise<void> {
+  const { error } = await db.from('job_board').delete().eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,119 @@
+import { db } from '../lib/supabase';
+import { listVendorLoginEmails } from './vendors';
+import type { Tables, TablesInsert } from '../types/database';
+
+export type Payment = Tables<'payments'>;
+
+const PAYMENT_COLUMNS = 'id, invoice_id, booking_id, amount, status, stripe_payment_id, to_platform, installment_id, created_at, payment_type' as const;
+
+export async function listPaymentsForBooking(bookingId: string): Promise<Payment[]> {
+  const { data, error } = await db
+    .from('payments')
+    .select(PAYMENT_COLUMNS)
+    .eq('booking_id', bookingId);
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listPaymentsForBookings(bookingIds: string[]): Promise<Payment[]> {
+  if (bookingIds.length === 0) return [];
+  const { data, error } = await db
+    .from('payments')
+    .select(PAYMENT_COLUMNS)
+    .in('booking_id', bookingIds);
+  if (error) throw error;
+  return data || [];
+}
+
+// Payments made against the invoice itself or any booking on its line items
+export async function listPaymentsForInvoice(invoiceId: string, bookingIds: string[]): Promise<Payment[]> {
+  const filter = bookingIds.length > 0
+    ? `invoice_id.eq.${invoiceId},booking_id.in.(${bookingIds.join(',')})`
+    : `invoice_id.eq.${invoiceId}`;
+  const { data, error } = await db.from('payments').select(PAYMENT_COLUMNS).or(filter);
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createPayments(payments: TablesInsert<'payments'>[]): Promise<void> {
+  const { error } = await db.from('payments').insert(payments);
+  if (error) throw error;
+}
+
+// Payments list: the invoice or booking each payment was made against, with the
+// couple, vendor and package names the table shows
+export async function listPaymentsWithDetails() {
+  const { data, error } = await db
+    .from('payments')
+    .select(`
+      ${PAYMENT_COLUMNS},
+      invoices (
+        id, couple_id, vendor_id, remaining_balance,
+        couples (partner1_name, partner2_name),
+        vendors (name, stripe_account_id)
+      ),
+      bookings (
+        package_id, couple_id, vendor_id,
+        service_packages!bookings_package_id_fkey (name),
+        couples!bookings_couple_id_fkey (partner1_name, partner2_name),
+        vendors!bookings_vendor_id_fkey (name, stripe_account_id)
+      )
+    `);
+  if (error) throw error;
+  return data || [];
+}
+
+// Payment details page: the payment with its invoice (and the bookings and
+// vendors on its lines) or booking, the other payments on that invoice or
+// booking, and the login emails of the line items' vendors
+export async function getPaymentDetails(id: string) {
+  const { data: payment, error } = await db
+    .from('payments')
+    .select(`
+      ${PAYMENT_COLUMNS},
+      invoices (
+        id, couple_id, vendor_id, total_amount, remaining_balance, status,
+        couples (partner1_name, partner2_name),
+        vendors (name, stripe_account_id),
+        invoice_line_items (
+          id, type, service_package_id, store_product_id, booking_id, custom_description, custom_price, quantity, vendor_id,
+          service_packages (name),
+          bookings (
+            amount, service_type,
+            service_packages!bookings_package_id_fkey (name, price),
+            events!bookings_event_id_fkey (title),
+            vendors!bookings_vendor_id_fkey (name, phone, stripe_account_id, user_id)
+          )
+        )
+      ),
+      bookings (
+        id, package_id, couple_id, vendor_id,
+        service_packages!bookings_package_id_fkey (name),
+        couples!bookings_couple_id_fkey (partner1_name, partner2_name),
+        vendors!bookings_vendor_id_fkey (name, stripe_account_id)
+      )
+    `)
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+
+  const conditions: string[] = [];
+  if (payment.invoice_id) conditions.push(`invoice_id.eq.${payment.invoice_id}`);
+  if (payment.booking_id) conditions.push(`booking_id.eq.${payment.booking_id}`);
+  let relatedPayments: Payment[] = [];
+  if (conditions.length > 0) {
+    const { data, error: relatedError } = await db
+      .from('payments')
+      .select(PAYMENT_COLUMNS)
+      .or(conditions.join(','));
+    if (relatedError) throw relatedError;
+    relatedPayments = data || [];
+  }
+
+  const vendorUserIds = (payment.invoices?.invoice_line_items || [])
+    .map(item => item.bookings?.vendors?.user_id)
+    .filter((userId): userId is string => !!userId);
+  const vendorEmails = await listVendorLoginEmails([...new Set(vendorUserIds)]);
+
+  return { payment, relatedPayments, vendorEmails };
+}
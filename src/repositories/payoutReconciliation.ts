@@ -0,0 +1,97 @@
+import { db, selectAllPages } from '../lib/supabase';
+import type { Tables } from '../types/database';
+
+export type ReconciliationReview = Tables<'payout_reconciliation_reviews'>;
+
+const RECONCILIATION_BOOKING_COLUMNS = `
+  id, status, amount, initial_payment, final_payment, paid_amount, final_payment_status,
+  vendor_deposit_share, platform_deposit_share, vendor_final_share, platform_final_share,
+  couples!bookings_couple_id_fkey (name),
+  vendors!bookings_vendor_id_fkey (name)
+` as const;
+
+const RECONCILIATION_PAYMENT_COLUMNS = 'id, booking_id, invoice_id, amount, status, payment_type, to_platform' as const;
+
+async function listReconciliationBookings() {
+  return selectAllPages((from, to) =>
+    db
+      .from('bookings')
+      .select(RECONCILIATION_BOOKING_COLUMNS)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+}
+
+export type ReconciliationBooking = Awaited<ReturnType<typeof listReconciliationBookings>>[number];
+
+async function listReconciliationPayments() {
+  return selectAllPages((from, to) =>
+    db.from('payments').select(RECONCILIATION_PAYMENT_COLUMNS).order('id', { ascending: true }).range(from, to)
+  );
+}
+
+export type ReconciliationPayment = Awaited<ReturnType<typeof listReconciliationPayments>>[number];
+
+async function listReconciliationRefunds() {
+  return selectAllPages((from, to) =>
+    db
+      .from('refunds')
+      .select('payment_id, amount, status')
+      .neq('status', 'failed')
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+}
+
+export type ReconciliationRefund = Awaited<ReturnType<typeof listReconciliationRefunds>>[number];
+
+export interface ReconciliationInvoice {
+  id: string;
+  total_amount: number;
+  remaining_balance: number;
+  bookingIds: string[];
+}
+
+async function listReconciliationInvoices(): Promise<ReconciliationInvoice[]> {
+  const invoices = await selectAllPages((from, to) =>
+    db
+      .from('invoices')
+      .select('id, total_amount, remaining_balance, invoice_line_items (booking_id)')
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+  return invoices.map(({ invoice_line_items, ...invoice }) => ({
+    ...invoice,
+    bookingIds: [...new Set(invoice_line_items.flatMap(item => (item.booking_id ? [item.booking_id] : [])))],
+  }));
+}
+
+// Everything the payout reconciliation report compares, fetched in parallel
+export async function getReconciliationInputs() {
+  const [bookings, payments, invoices, refunds] = await Promise.all([
+    listReconciliationBookings(),
+    listReconciliationPayments(),
+    listReconciliationInvoices(),
+    listReconciliationRefunds(),
+  ]);
+  return { bookings, payments, invoices, refunds };
+}
+
+export async function listReconciliationReviews(): Promise<ReconciliationReview[]> {
+  const { data, error } = await db.from('payout_reconciliation_reviews').select('*');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function markReconciliationReviewed(
+  review: Pick<ReconciliationReview, 'booking_id' | 'fingerprint' | 'issues' | 'reviewed_by'>,
+): Promise<ReconciliationReview> {
+  const { data, error } = await db
+    .from('payout_reconciliation_reviews')
+    .upsert({ ...review, reviewed_at: new Date().toISOString() }, { onConflict: 'booking_id' })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
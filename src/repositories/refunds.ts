@@ -0,0 +1,64 @@
+import { db } from '../lib/supabase';
+import type { Tables } from '../types/database';
+
+export type Refund = Tables<'refunds'>;
+
+export async function listRefundsForPayment(paymentId: string): Promise<Refund[]> {
+  const { data, error } = await db
+    .from('refunds')
+    .select('*')
+    .eq('payment_id', paymentId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listRefundsForBooking(bookingId: string): Promise<Refund[]> {
+  const { data, error } = await db
+    .from('refunds')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listRefundsForPayments(paymentIds: string[]): Promise<Refund[]> {
+  if (paymentIds.length === 0) return [];
+  const { data, error } = await db
+    .from('refunds')
+    .select('*')
+    .in('payment_id', paymentIds)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export interface RefundRequest {
+  paymentId: string;
+  amount: number;
+  reason: string;
+  // Reused when the same refund is retried so Stripe refunds it only once
+  idempotencyKey: string;
+}
+
+// The refund-payment edge function refunds through Stripe (card payments only)
+// and records the refund with record_refund, which also reverses the
+// vendor/platform split and re-opens the invoice balance.
+export async function refundPayment(request: RefundRequest): Promise<Refund> {
+  const { data, error } = await db.functions.invoke<{ refund: Refund }>('refund-payment', {
+    body: {
+      payment_id: request.paymentId,
+      amount: request.amount,
+      reason: request.reason,
+      idempotency_key: request.idempotencyKey,
+    },
+  });
+  if (error) {
+    // Non-2xx responses carry the function's own error message in the body
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+  if (!data?.refund) throw new Error('Refund was not recorded');
+  return data.refund;
+}
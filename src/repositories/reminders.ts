@@ -0,0 +1,37 @@
+import { db } from '../lib/supabase';
+import type { Tables } from '../types/database';
+
+export type EmailLog = Tables<'email_logs'>;
+export type UpcomingReminder = Tables<'upcoming_reminders'>;
+
+export async function listEmailLogsForBooking(bookingId: string): Promise<EmailLog[]> {
+  const { data, error } = await db.from('email_logs').select('*').eq('booking_id', bookingId);
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listUpcomingRemindersForBooking(bookingId: string): Promise<UpcomingReminder[]> {
+  const { data, error } = await db.from('upcoming_reminders').select('*').eq('booking_id', bookingId);
+  if (error) throw error;
+  return data || [];
+}
+
+export async function sendVendorReminderEmail(vendorEmail: string, bookingId: string): Promise<void> {
+  const { error } = await db.functions.invoke('send-reminder-email', {
+    body: { user_id: vendorEmail, booking_id: bookingId },
+  });
+  if (error) throw error;
+}
+
+export async function sendVendorReminderText(phone: string, bookingId: string): Promise<void> {
+  const { error } = await db.functions.invoke('send-reminder-text', {
+    body: { phone, booking_id: bookingId },
+  });
+  if (error) throw error;
+}
+
+// The review_trigger row asks the couple for feedback on their vendors
+export async function requestCoupleFeedback(coupleId: string): Promise<void> {
+  const { error } = await db.from('review_trigger').insert({ couple_id: coupleId, send_request: true });
+  if (error) throw error;
+}
@@ -0,0 +1,80 @@
+import { db } from '../lib/supabase';
+import type { Tables } from '../types/database';
+
+export type TaxRate = Tables<'tax_rates'>;
+
+export async function listTaxRates(): Promise<TaxRate[]> {
+  const { data, error } = await db
+    .from('tax_rates')
+    .select('*')
+    .order('state', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function saveTaxRate(state: string, rate: number): Promise<TaxRate> {
+  const { data, error } = await db
+    .from('tax_rates')
+    .upsert({ state, rate, updated_at: new Date().toISOString() }, { onConflict: 'state' })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteTaxRate(state: string): Promise<void> {
+  const { error } = await db.from('tax_rates').delete().eq('state', state);
+  if (error) throw error;
+}
+
+// States the platform operates in, from the service areas
+export async function listServiceAreaStates(): Promise<string[]> {
+  const { data, error } = await db.from('service_areas').select('state');
+  if (error) throw error;
+  return [...new Set((data || []).map(area => area.state))].sort();
+}
+
+async function listTaxedInvoices() {
+  const { data, error } = await db
+    .from('invoices')
+    .select('id, total_amount, tax_state, tax_rate, tax_amount')
+    .gt('tax_amount', 0);
+  if (error) throw error;
+  return data || [];
+}
+
+export type TaxedInvoice = Awaited<ReturnType<typeof listTaxedInvoices>>[number];
+
+async function listInvoicePayments() {
+  const { data, error } = await db
+    .from('payments')
+    .select('id, invoice_id, amount, status, created_at')
+    .not('invoice_id', 'is', null)
+    .in('status', ['succeeded', 'paid']);
+  if (error) throw error;
+  return data || [];
+}
+
+export type TaxReportPayment = Awaited<ReturnType<typeof listInvoicePayments>>[number];
+
+async function listInvoiceRefunds() {
+  const { data, error } = await db
+    .from('refunds')
+    .select('invoice_id, amount, created_at')
+    .not('invoice_id', 'is', null)
+    .neq('status', 'failed');
+  if (error) throw error;
+  return data || [];
+}
+
+export type TaxReportRefund = Awaited<ReturnType<typeof listInvoiceRefunds>>[number];
+
+// Everything the monthly tax-collected report is built from
+export async function getTaxReportInputs() {
+  const [invoices, payments, refunds] = await Promise.all([
+    listTaxedInvoices(),
+    listInvoicePayments(),
+    listInvoiceRefunds(),
+  ]);
+  return { invoices, payments, refunds };
+}
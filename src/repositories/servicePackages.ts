@@ -0,0 +1,28 @@
+import { db } from '../lib/supabase';
+import type { Tables, TablesUpdate } from '../types/database';
+
+export type ServicePackage = Tables<'service_packages'>;
+export type ServicePackageOption = Pick<ServicePackage, 'id' | 'name' | 'description' | 'price' | 'service_type'>;
+
+export async function listServicePackageOptions(): Promise<ServicePackageOption[]> {
+  const { data, error } = await db
+    .from('service_packages')
+    .select('id, name, description, price, service_type');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getServicePackage(id: string): Promise<ServicePackage> {
+  const { data, error } = await db
+    .from('service_packages')
+    .select('*')
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateServicePackage(id: string, changes: TablesUpdate<'service_packages'>): Promise<void> {
+  const { error } = await db.from('service_packages').update(changes).eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,26 @@
+import { db } from '../lib/supabase';
+import type { Tables } from '../types/database';
+
+export type StripeEvent = Tables<'stripe_events'>;
+export type StripeEventStatus = StripeEvent['status'];
+
+// Newest first, one page at a time
+export async function listStripeEvents(status: StripeEventStatus | 'all', offset: number, limit: number): Promise<StripeEvent[]> {
+  let query = db
+    .from('stripe_events')
+    .select('*')
+    .order('received_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+  if (status !== 'all') query = query.eq('status', status);
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+// Applies a stored event again with process_stripe_event, the way the webhook
+// did when it arrived; the returned row carries the new status and error
+export async function replayStripeEvent(eventId: string): Promise<StripeEvent> {
+  const { data, error } = await db.rpc('process_stripe_event', { p_event_id: eventId });
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,59 @@
+import { db } from '../lib/supabase';
+import type { Tables, TablesUpdate } from '../types/database';
+
+export type VendorApplication = Tables<'vendor_applications'>;
+
+export type VendorApplicationSummary = Pick<
+  VendorApplication,
+  'id' | 'name' | 'email' | 'phone' | 'status' | 'created_at' | 'services_applying_for'
+>;
+
+export async function listVendorApplications(): Promise<VendorApplicationSummary[]> {
+  const { data, error } = await db
+    .from('vendor_applications')
+    .select('id, name, email, phone, status, created_at, services_applying_for')
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getVendorApplication(id: string): Promise<VendorApplication> {
+  const { data, error } = await db.from('vendor_applications').select('*').eq('id', id).single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateVendorApplication(id: string, changes: TablesUpdate<'vendor_applications'>): Promise<void> {
+  const { error } = await db.from('vendor_applications').update(changes).eq('id', id);
+  if (error) throw error;
+}
+
+// "State, region" names of the service areas an application lists
+export async function listServiceAreaNames(ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return [];
+  const { data, error } = await db.from('service_areas').select('id, state, region').in('id', ids);
+  if (error) throw error;
+  return (data || []).map(area => (area.region ? `${area.state}, ${area.region}` : area.state));
+}
+
+export interface VendorOnboardingResult {
+  vendorId: string;
+  // The vendor is created even when the welcome email fails; a password reset
+  // sends them a login link instead
+  emailSent: boolean;
+}
+
+// The approve-vendor-application edge function creates the vendor login, the
+// vendor with its services, service areas, gear and media, links the
+// application to it and emails the vendor a link to set their password.
+export async function approveVendorApplication(applicationId: string): Promise<VendorOnboardingResult> {
+  const { data, error } = await db.functions.invoke<{ vendor_id: string; email_sent: boolean }>('approve-vendor-application', {
+    body: { application_id: applicationId },
+  });
+  if (error) {
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+  if (!data?.vendor_id) throw new Error('Vendor was not created');
+  return { vendorId: data.vendor_id, emailSent: data.email_sent };
+}
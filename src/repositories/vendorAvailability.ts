@@ -0,0 +1,81 @@
+import { db } from '../lib/supabase';
+import type { TablesInsert } from '../types/database';
+import {
+  DEFAULT_TRAVEL_BUFFER_MINUTES,
+  ScheduledEvent,
+  VendorBlackout,
+  VendorSchedule,
+} from '../utils/vendorAvailability';
+
+// Each vendor's events and blackouts between from and to, with the venue of
+// the booking behind each event for the travel-buffer check. Vendors without
+// anything scheduled still get an entry.
+export async function getVendorSchedules(vendorIds: string[], from: string, to: string): Promise<Record<string, VendorSchedule>> {
+  const ids = [...new Set(vendorIds)];
+  if (ids.length === 0) return {};
+
+  const [eventsResult, blackoutsResult, vendorsResult] = await Promise.all([
+    db
+      .from('events')
+      .select('id, vendor_id, title, type, start_time, end_time, is_blocked_time')
+      .in('vendor_id', ids)
+      .lt('start_time', to)
+      .gt('end_time', from),
+    db
+      .from('vendor_blackouts')
+      .select('*')
+      .in('vendor_id', ids)
+      .lt('starts_at', to)
+      .gt('ends_at', from),
+    db.from('vendors').select('id, travel_buffer_minutes').in('id', ids),
+  ]);
+  if (eventsResult.error) throw eventsResult.error;
+  if (blackoutsResult.error) throw blackoutsResult.error;
+  if (vendorsResult.error) throw vendorsResult.error;
+
+  const events = eventsResult.data || [];
+  const venueByEvent: Record<string, string | null> = {};
+  if (events.length > 0) {
+    const { data, error } = await db
+      .from('bookings')
+      .select('event_id, venue_id')
+      .in('event_id', events.map(event => event.id));
+    if (error) throw error;
+    (data || []).forEach(booking => {
+      if (booking.event_id) venueByEvent[booking.event_id] = booking.venue_id;
+    });
+  }
+
+  const schedules: Record<string, VendorSchedule> = Object.fromEntries(ids.map(id => [id, {
+    events: [] as ScheduledEvent[],
+    blackouts: [] as VendorBlackout[],
+    travelBufferMinutes: vendorsResult.data?.find(vendor => vendor.id === id)?.travel_buffer_minutes ?? DEFAULT_TRAVEL_BUFFER_MINUTES,
+  }]));
+  events.forEach(event => schedules[event.vendor_id].events.push({
+    id: event.id,
+    title: event.title || event.type,
+    start_time: event.start_time,
+    end_time: event.end_time,
+    venue_id: venueByEvent[event.id] ?? null,
+    is_blocked_time: event.is_blocked_time,
+  }));
+  (blackoutsResult.data || []).forEach(blackout => schedules[blackout.vendor_id].blackouts.push(blackout));
+  return schedules;
+}
+
+export async function getVendorSchedule(vendorId: string, from: string, to: string): Promise<VendorSchedule> {
+  return (await getVendorSchedules([vendorId], from, to))[vendorId];
+}
+
+export async function addVendorBlackout(
+  blackout: Pick<TablesInsert<'vendor_blackouts'>, 'vendor_id' | 'starts_at' | 'ends_at' | 'reason'>,
+): Promise<VendorBlackout> {
+  const { data, error } = await db.from('vendor_blackouts').insert(blackout).select('*').single();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteVendorBlackout(id: string): Promise<void> {
+  const { error } = await db.from('vendor_blackouts').delete().eq('id', id);
+  if (error) throw error;
+}
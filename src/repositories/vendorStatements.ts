@@ -0,0 +1,52 @@
+import { db, selectAllPages } from '../lib/supabase';
+import { listBookingDisputes } from './disputes';
+import { DEPOSIT_PAID_STATUSES } from '../utils/bookingStatus';
+
+const STATEMENT_BOOKING_COLUMNS = `
+  id, vendor_id, status, amount, service_type, created_at, platform_fee, final_payment_status,
+  vendor_deposit_share, platform_deposit_share, vendor_final_share, platform_final_share,
+  vendor_total_earnings, tip_amount,
+  couples!bookings_couple_id_fkey (name),
+  events!bookings_event_id_fkey (start_time)
+` as const;
+
+// Bookings that earn the vendor money: inquiries and bookings still waiting on
+// their deposit have not taken one yet, and cancelled or refunded ones are not
+// paid out
+async function listStatementBookings(vendorId?: string) {
+  return selectAllPages((from, to) => {
+    let query = db
+      .from('bookings')
+      .select(STATEMENT_BOOKING_COLUMNS)
+      .in('status', DEPOSIT_PAID_STATUSES);
+    if (vendorId) query = query.eq('vendor_id', vendorId);
+    return query.order('created_at', { ascending: true }).order('id', { ascending: true }).range(from, to);
+  });
+}
+
+export type StatementBooking = Awaited<ReturnType<typeof listStatementBookings>>[number];
+
+// Refunds are matched to statement lines by booking, so only those tied to one are needed
+async function listStatementRefunds() {
+  return selectAllPages((from, to) =>
+    db
+      .from('refunds')
+      .select('booking_id, vendor_amount')
+      .neq('status', 'failed')
+      .not('booking_id', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+}
+
+export type StatementRefund = Awaited<ReturnType<typeof listStatementRefunds>>[number];
+
+// Everything a payout statement is built from, for one vendor or for all of them
+export async function getStatementInputs(vendorId?: string) {
+  const [bookings, refunds, disputes] = await Promise.all([
+    listStatementBookings(vendorId),
+    listStatementRefunds(),
+    listBookingDisputes(),
+  ]);
+  return { bookings, refunds, disputes };
+}
@@ -0,0 +1,133 @@
+import { db, selectAllPages } from '../lib/supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../types/database';
+
+export type Vendor = Tables<'vendors'>;
+export type VendorOption = Pick<Vendor, 'id' | 'name'>;
+
+const VENDOR_LIST_COLUMNS = `
+  id, user_id, name, profile, phone, years_experience, specialties, stripe_account_id, created_at, updated_at, rating,
+  vendor_services (id, vendor_id, service_type, is_active),
+  vendor_reviews (id, vendor_id),
+  vendor_service_packages (id, vendor_id, status),
+  vendor_service_areas (state),
+  vendor_gear (auto_rating)
+` as const;
+
+export async function listVendorOptions(): Promise<VendorOption[]> {
+  return selectAllPages((from, to) =>
+    db
+      .from('vendors')
+      .select('id, name')
+      .order('name', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+}
+
+// Vendors list: services, review and package counts, service-area states and
+// catalog gear ratings
+export async function listVendorsWithServices() {
+  const { data, error } = await db
+    .from('vendors')
+    .select(VENDOR_LIST_COLUMNS)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export type VendorListItem = Awaited<ReturnType<typeof listVendorsWithServices>>[number];
+
+// Total rewards points per vendor for the given year
+export async function getVendorRewardPoints(vendorIds: string[], year: number): Promise<Record<string, number>> {
+  if (vendorIds.length === 0) return {};
+  const { data, error } = await db
+    .from('vendor_rewards_points')
+    .select('vendor_id, points')
+    .in('vendor_id', vendorIds)
+    .eq('year', year);
+  if (error) throw error;
+  return (data || []).reduce((acc, { vendor_id, points }) => {
+    acc[vendor_id] = (acc[vendor_id] || 0) + points;
+    return acc;
+  }, {} as Record<string, number>);
+}
+
+// Login emails by user id, for the vendors whose user_id is given
+export async function listVendorLoginEmails(userIds: string[]): Promise<Record<string, string>> {
+  if (userIds.length === 0) return {};
+  const { data, error } = await db.from('users').select('id, email').in('id', userIds);
+  if (error) throw error;
+  return (data || []).reduce((acc, { id, email }) => {
+    acc[id] = email;
+    return acc;
+  }, {} as Record<string, string>);
+}
+
+// Name and phone of the vendor with the email of their login
+export async function getVendorContact(id: string): Promise<{ name: string; phone: string | null; email: string | null }> {
+  const { data: vendor, error } = await db
+    .from('vendors')
+    .select('name, phone, user_id')
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+
+  let email: string | null = null;
+  if (vendor.user_id) {
+    const { data: user, error: userError } = await db
+      .from('users')
+      .select('email')
+      .eq('id', vendor.user_id)
+      .maybeSingle();
+    if (userError) throw userError;
+    email = user?.email || null;
+  }
+  return { name: vendor.name, phone: vendor.phone, email };
+}
+
+// Vendor profile editor: services, reviews and packages
+export async function getVendorProfile(id: string) {
+  const { data, error } = await db
+    .from('vendors')
+    .select(`
+      *,
+      vendor_services (
+        id, vendor_id, service_type, is_active, package_status, created_at, updated_at
+      ),
+      vendor_reviews (
+        id, vendor_id, couple_id, rating, review_text, vendor_response, created_at, updated_at
+      ),
+      vendor_service_packages (
+        id, vendor_id, service_package_id, service_type, status, created_at, updated_at,
+        service_packages (
+          id, service_type, name, description, price, features, coverage, hour_amount, event_type, status, created_at, updated_at
+        )
+      )
+    `)
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function createVendorReview(review: TablesInsert<'vendor_reviews'>): Promise<Tables<'vendor_reviews'>> {
+  const { data, error } = await db.from('vendor_reviews').insert(review).select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function createVendor(vendor: TablesInsert<'vendors'>): Promise<Vendor> {
+  const { data, error } = await db.from('vendors').insert(vendor).select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateVendor(id: string, changes: TablesUpdate<'vendors'>): Promise<void> {
+  const { error } = await db.from('vendors').update(changes).eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteVendor(id: string): Promise<void> {
+  const { error } = await db.from('vendors').delete().eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,55 @@
+import { db, selectAllPages } from '../lib/supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../types/database';
+
+export type Venue = Tables<'venues'>;
+export type VenueSummary = Omit<Venue, 'service_area_id' | 'insurance' | 'updated_at'>;
+
+const VENUE_COLUMNS = 'id, name, phone, email, contact_name, street_address, city, state, zip, region, time_zone, created_at' as const;
+
+export async function listVenues(): Promise<VenueSummary[]> {
+  return selectAllPages((from, to) =>
+    db.from('venues').select(VENUE_COLUMNS).order('id', { ascending: true }).range(from, to)
+  );
+}
+
+// Number of bookings per venue name, from the venue_booking_counts view
+export async function getVenueBookingCounts(): Promise<Record<string, number>> {
+  const { data, error } = await db.from('venue_booking_counts').select('name, booking_count');
+  if (error) throw error;
+  return (data || []).reduce((acc, { name, booking_count }) => {
+    acc[name] = booking_count;
+    return acc;
+  }, {} as Record<string, number>);
+}
+
+export async function getVenue(id: string): Promise<VenueSummary> {
+  const { data, error } = await db
+    .from('venues')
+    .select(VENUE_COLUMNS)
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+// Up to five venues whose name or address contains the text
+export async function searchVenues(text: string): Promise<VenueSummary[]> {
+  const { data, error } = await db
+    .from('venues')
+    .select(VENUE_COLUMNS)
+    .or(`name.ilike.%${text}%,street_address.ilike.%${text}%,city.ilike.%${text}%,state.ilike.%${text}%,zip.ilike.%${text}%`)
+    .limit(5);
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createVenue(venue: TablesInsert<'venues'>): Promise<Venue> {
+  const { data, error } = await db.from('venues').insert(venue).select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateVenue(id: string, changes: TablesUpdate<'venues'>): Promise<void> {
+  const { error } = await db.from('venues').update(changes).eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,1203 @@
+// Schema of the public Supabase schema used by the dashboard.
+//
+// Helper names (Json, Database, Tables, TablesInsert, TablesUpdate) match the
+// output of `npm run types:generate`, so the file can be swapped for the
+// generated one without touching the repositories that import it (the
+// generator types profiles.permissions as Json rather than PermissionSet).
+// Amounts are stored in cents unless a column says otherwise.
+import type { PermissionSet } from '../lib/permissions';
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+type ForeignKey<Name extends string, Column extends string, Referenced extends string> = {
+  foreignKeyName: Name;
+  columns: [Column];
+  isOneToOne: false;
+  referencedRelation: Referenced;
+  referencedColumns: ['id'];
+};
+
+// Insert requires the listed columns; everything else has a database default or is nullable
+type Table<Row, Required extends keyof Row = never, Relationships extends ForeignKey<string, string, string>[] = []> = {
+  Row: Row;
+  Insert: Pick<Row, Required> & Partial<Omit<Row, Required>>;
+  Update: Partial<Row>;
+  Relationships: Relationships;
+};
+
+// The booking lifecycle (see the create_booking_status_history migration)
+type BookingStatus = 'inquiry' | 'pending_deposit' | 'confirmed' | 'completed' | 'reviewed' | 'cancelled' | 'refunded';
+
+type View<Row> = {
+  Row: Row;
+  Relationships: [];
+};
+
+export type Database = {
+  public: {
+    Tables: {
+      ads: Table<{
+        id: string;
+        sponsor_name: string;
+        email: string;
+        phone: string | null;
+        placement_type: string;
+        billing_cycle: string | null;
+        total_price: number | null;
+        start_date: string | null;
+        end_date: string | null;
+        status: string;
+        selected_pages: Json | null;
+        asset_url: string | null;
+        logo_url: string | null;
+        redirect_url: string | null;
+        admin_notes: string | null;
+        reviewed_at: string | null;
+        reviewed_by: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'sponsor_name' | 'email' | 'placement_type'>;
+      analytics_events: Table<{
+        id: string;
+        site: string;
+        event_type: string;
+        session_id: string;
+        user_id: string | null;
+        screen_name: string | null;
+        timestamp: string;
+      }, 'site' | 'event_type' | 'session_id'>;
+      application_review_settings: Table<{
+        id: boolean;
+        quorum: number;
+        updated_at: string;
+      }>;
+      application_rubric_criteria: Table<{
+        id: string;
+        name: string;
+        description: string | null;
+        weight: number;
+        max_score: number;
+        position: number;
+        is_active: boolean;
+        created_at: string;
+        updated_at: string;
+      }, 'name'>;
+      application_scores: Table<{
+        id: string;
+        application_id: string;
+        criterion_id: string;
+        reviewer_id: string;
+        score: number;
+        comment: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'application_id' | 'criterion_id' | 'score', [
+        ForeignKey<'application_scores_application_id_fkey', 'application_id', 'vendor_applications'>,
+        ForeignKey<'application_scores_criterion_id_fkey', 'criterion_id', 'application_rubric_criteria'>,
+      ]>;
+      audit_log: Table<{
+        id: string;
+        actor_id: string | null;
+        action: 'insert' | 'update' | 'delete';
+        table_name: string;
+        row_id: string | null;
+        before: Record<string, unknown> | null;
+        after: Record<string, unknown> | null;
+        changed_fields: string[];
+        created_at: string;
+      }, 'action' | 'table_name'>;
+      blog_categories: Table<{
+        id: string;
+        name: string;
+        slug: string;
+        description: string | null;
+        color: string;
+        post_count: number;
+        created_at: string;
+      }, 'name' | 'slug'>;
+      blog_post_likes: Table<{
+        id: string;
+        post_id: string;
+        user_id: string | null;
+        created_at: string;
+      }, 'post_id'>;
+      blog_post_views: Table<{
+        id: string;
+        post_id: string;
+        viewed_at: string;
+      }, 'post_id'>;
+      blog_posts: Table<{
+        id: string;
+        slug: string;
+        title: string;
+        excerpt: string;
+        content: string;
+        category: string;
+        status: 'draft' | 'published' | 'archived';
+        featured: boolean;
+        featured_image: string | null;
+        tags: string[] | null;
+        author_id: string | null;
+        read_time: number;
+        view_count: number;
+        like_count: number;
+        published_at: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'slug' | 'title' | 'content'>;
+      blog_subscriptions: Table<{
+        id: string;
+        email: string;
+        name: string | null;
+        status: string;
+        subscribed_at: string;
+        unsubscribed_at: string | null;
+        subscription_source: string | null;
+        preferences: Json | null;
+        created_at: string;
+        updated_at: string;
+      }, 'email'>;
+      booking_reschedules: Table<{
+        id: string;
+        booking_id: string;
+        event_id: string | null;
+        previous_start_time: string;
+        previous_end_time: string;
+        new_start_time: string;
+        new_end_time: string;
+        reason: string | null;
+        created_by: string | null;
+        created_at: string;
+      }, 'booking_id' | 'previous_start_time' | 'previous_end_time' | 'new_start_time' | 'new_end_time', [
+        ForeignKey<'booking_reschedules_booking_id_fkey', 'booking_id', 'bookings'>,
+        ForeignKey<'booking_reschedules_event_id_fkey', 'event_id', 'events'>,
+      ]>;
+      booking_status_history: Table<{
+        id: string;
+        booking_id: string;
+        from_status: BookingStatus | null;
+        to_status: BookingStatus;
+        note: string | null;
+        changed_by: string | null;
+        changed_at: string;
+      }, 'booking_id' | 'to_status', [
+        ForeignKey<'booking_status_history_booking_id_fkey', 'booking_id', 'bookings'>,
+      ]>;
+      bookings: Table<{
+        id: string;
+        couple_id: string;
+        vendor_id: string;
+        event_id: string | null;
+        package_id: string | null;
+        venue_id: string | null;
+        status: BookingStatus;
+        amount: number;
+        service_type: string;
+        initial_payment: number | null;
+        final_payment: number | null;
+        platform_fee: number | null;
+        paid_amount: number | null;
+        vendor_deposit_share: number | null;
+        platform_deposit_share: number | null;
+        vendor_final_share: number | null;
+        platform_final_share: number | null;
+        platform_total_earnings: number | null;
+        vendor_total_earnings: number | null;
+        tip_amount: number | null;
+        final_payment_status: 'pending' | 'paid' | null;
+        cancelled_at: string | null;
+        cancellation_reason: string | null;
+        cancellation_refund_percentage: number | null;
+        created_at: string;
+        updated_at: string;
+      }, 'couple_id' | 'vendor_id' | 'service_type' | 'amount', [
+        ForeignKey<'bookings_couple_id_fkey', 'couple_id', 'couples'>,
+        ForeignKey<'bookings_vendor_id_fkey', 'vendor_id', 'vendors'>,
+        ForeignKey<'bookings_event_id_fkey', 'event_id', 'events'>,
+        ForeignKey<'bookings_package_id_fkey', 'package_id', 'service_packages'>,
+        ForeignKey<'bookings_venue_id_fkey', 'venue_id', 'venues'>,
+      ]>;
+      cancellation_policy_tiers: Table<{
+        id: string;
+        min_days_before: number;
+        refund_percentage: number;
+        created_at: string;
+        updated_at: string;
+      }, 'min_days_before' | 'refund_percentage'>;
+      chat_messages: Table<{
+        id: string;
+        session_id: string;
+        sender_type: string;
+        message: string;
+        lead_id: string | null;
+        ip_address: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'session_id' | 'sender_type' | 'message'>;
+      contract_templates: Table<{
+        id: string;
+        service_type: string;
+        content: string;
+        created_at: string;
+        updated_at: string | null;
+      }, 'service_type' | 'content'>;
+      contracts: Table<{
+        id: string;
+        booking_id: string;
+        booking_intent_id: string | null;
+        content: string;
+        signature: string | null;
+        signed_at: string | null;
+        status: string;
+        created_at: string;
+        updated_at: string | null;
+      }, 'booking_id' | 'content'>;
+      conversation_participants: Table<{
+        id: string;
+        conversation_id: string;
+        user_id: string;
+        joined_at: string;
+      }, 'conversation_id' | 'user_id'>;
+      conversations: Table<{
+        id: string;
+        name: string | null;
+        is_group: boolean;
+        participant_ids: string[];
+        created_at: string;
+        updated_at: string;
+      }>;
+      couple_storage_extensions: Table<{
+        id: string;
+        couple_id: string;
+        file_upload_id: string;
+        expiry_date: string;
+        created_at: string;
+      }, 'couple_id' | 'file_upload_id' | 'expiry_date'>;
+      couple_subscriptions: Table<{
+        id: string;
+        couple_id: string;
+        subscription_id: string;
+        plan_id: string;
+        customer_id: string;
+        payment_status: string;
+        free_period_expiry: string | null;
+        created_at: string;
+        updated_at: string | null;
+      }, 'couple_id' | 'subscription_id' | 'plan_id' | 'customer_id'>;
+      couples: Table<{
+        id: string;
+        user_id: string;
+        name: string;
+        partner1_name: string | null;
+        partner2_name: string | null;
+        email: string | null;
+        phone: string | null;
+        wedding_date: string | null;
+        budget: number | null;
+        vibe_tags: string[] | null;
+        guest_count: number | null;
+        venue_id: string | null;
+        venue_name: string | null;
+        venue_street_address: string | null;
+        venue_city: string | null;
+        venue_state: string | null;
+        ical_feed_token: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'name'>;
+      credit_note_lines: Table<{
+        id: string;
+        credit_note_id: string;
+        invoice_line_item_id: string;
+        amount: number;
+        description: string | null;
+        created_at: string;
+      }, 'credit_note_id' | 'invoice_line_item_id' | 'amount', [
+        ForeignKey<'credit_note_lines_credit_note_id_fkey', 'credit_note_id', 'credit_notes'>,
+        ForeignKey<'credit_note_lines_invoice_line_item_id_fkey', 'invoice_line_item_id', 'invoice_line_items'>,
+      ]>;
+      credit_notes: Table<{
+        id: string;
+        invoice_id: string;
+        amount: number;
+        reason: string;
+        created_by: string | null;
+        created_at: string;
+      }, 'invoice_id' | 'amount' | 'reason', [
+        ForeignKey<'credit_notes_invoice_id_fkey', 'invoice_id', 'invoices'>,
+      ]>;
+      disputes: Table<{
+        id: string;
+        payment_id: string;
+        booking_id: string | null;
+        vendor_id: string | null;
+        stripe_dispute_id: string | null;
+        amount: number;
+        reason: string;
+        status:
+          | 'warning_needs_response'
+          | 'warning_under_review'
+          | 'warning_closed'
+          | 'needs_response'
+          | 'under_review'
+          | 'won'
+          | 'lost';
+        evidence_due_by: string | null;
+        evidence_files: string[];
+        notes: string | null;
+        opened_at: string;
+        closed_at: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'payment_id' | 'amount', [
+        ForeignKey<'disputes_payment_id_fkey', 'payment_id', 'payments'>,
+        ForeignKey<'disputes_booking_id_fkey', 'booking_id', 'bookings'>,
+        ForeignKey<'disputes_vendor_id_fkey', 'vendor_id', 'vendors'>,
+      ]>;
+      dunning_steps: Table<{
+        id: string;
+        name: string;
+        offset_days: number;
+        subject: string;
+        body: string;
+        is_active: boolean;
+        created_at: string;
+        updated_at: string;
+      }, 'name' | 'offset_days' | 'subject' | 'body'>;
+      email_logs: Table<{
+        id: string;
+        booking_id: string;
+        vendor_id: string;
+        couple_id: string;
+        email_to: string;
+        subject: string;
+        content: string;
+        type: string;
+        opened: boolean;
+        opened_at: string | null;
+        sent_at: string;
+      }, 'booking_id' | 'email_to' | 'subject'>;
+      emails: Table<{
+        id: string;
+        vendor_id: string | null;
+        couple_id: string | null;
+        lead_id: string | null;
+        subject: string;
+        body: string;
+        status: string;
+        recipient_name: string | null;
+        recipient_email: string | null;
+        sent_at: string;
+      }, 'subject' | 'body'>;
+      events: Table<{
+        id: string;
+        vendor_id: string;
+        couple_id: string | null;
+        start_time: string;
+        end_time: string;
+        type: string;
+        title: string | null;
+        description: string | null;
+        location: string | null;
+        is_blocked_time: boolean;
+        created_at: string;
+        updated_at: string;
+      }, 'vendor_id' | 'start_time' | 'end_time' | 'type', [
+        ForeignKey<'events_couple_id_fkey', 'couple_id', 'couples'>,
+        ForeignKey<'events_vendor_id_fkey', 'vendor_id', 'vendors'>,
+      ]>;
+      faq_logs: Table<{
+        id: string;
+        faq_id: string;
+        created_at: string;
+      }, 'faq_id'>;
+      faqs: Table<{
+        id: string;
+        question: string;
+        answer: string;
+        category: string;
+        display_order: number;
+        published: boolean;
+        view_count: number;
+        created_at: string;
+        updated_at: string;
+      }, 'question' | 'answer' | 'category'>;
+      file_uploads: Table<{
+        id: string;
+        vendor_id: string | null;
+        couple_id: string | null;
+        file_path: string;
+        file_name: string;
+        file_size: number;
+        upload_date: string;
+        expiry_date: string | null;
+        created_at: string;
+      }, 'file_path' | 'file_name' | 'file_size'>;
+      gear_catalog: Table<{
+        id: string;
+        service_type: string;
+        gear_type: string;
+        brand: string;
+        model: string;
+        rating: string;
+        notes: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'service_type' | 'gear_type' | 'brand' | 'model' | 'rating'>;
+      import_history: Table<{
+        id: string;
+        type: string;
+        filename: string;
+        user_id: string;
+        timestamp: string;
+        rows_added: number;
+        errors: number;
+        status: string;
+        error_details: Json;
+        created_at: string;
+      }, 'type' | 'filename' | 'user_id' | 'status'>;
+      invoice_installments: Table<{
+        id: string;
+        invoice_id: string;
+        sequence: number;
+        amount: number;
+        due_date: string;
+        payment_token: string;
+        paid_amount: number;
+        status: 'pending' | 'partially_paid' | 'paid';
+        paid_at: string | null;
+        last_reminded_at: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'invoice_id' | 'sequence' | 'amount' | 'due_date', [
+        ForeignKey<'invoice_installments_invoice_id_fkey', 'invoice_id', 'invoices'>,
+      ]>;
+      invoice_line_items: Table<{
+        id: string;
+        invoice_id: string;
+        type: 'service_package' | 'store_product' | 'custom';
+        service_package_id: string | null;
+        store_product_id: string | null;
+        booking_id: string | null;
+        vendor_id: string | null;
+        stripe_account_id: string | null;
+        custom_description: string | null;
+        custom_price: number;
+        quantity: number;
+        taxable: boolean;
+        created_at: string;
+      }, 'invoice_id' | 'type', [
+        ForeignKey<'invoice_line_items_invoice_id_fkey', 'invoice_id', 'invoices'>,
+        ForeignKey<'invoice_line_items_service_package_id_fkey', 'service_package_id', 'service_packages'>,
+        ForeignKey<'invoice_line_items_store_product_id_fkey', 'store_product_id', 'store_products'>,
+        ForeignKey<'invoice_line_items_booking_id_fkey', 'booking_id', 'bookings'>,
+        ForeignKey<'invoice_line_items_vendor_id_fkey', 'vendor_id', 'vendors'>,
+      ]>;
+      invoice_reminders: Table<{
+        id: string;
+        invoice_id: string;
+        step_id: string | null;
+        installment_id: string | null;
+        kind: 'invoice' | 'dunning' | 'installment';
+        recipient_email: string | null;
+        subject: string | null;
+        sent_by: string | null;
+        sent_at: string;
+      }, 'invoice_id' | 'kind', [
+        ForeignKey<'invoice_reminders_invoice_id_fkey', 'invoice_id', 'invoices'>,
+        ForeignKey<'invoice_reminders_step_id_fkey', 'step_id', 'dunning_steps'>,
+        ForeignKey<'invoice_reminders_installment_id_fkey', 'installment_id', 'invoice_installments'>,
+      ]>;
+      invoices: Table<{
+        id: string;
+        recipient_type: 'couple' | 'vendor';
+        couple_id: string | null;
+        vendor_id: string | null;
+        total_amount: number;
+        remaining_balance: number;
+        discount_amount: number;
+        discount_percentage: number;
+        deposit_amount: number;
+        tax_state: string | null;
+        tax_rate: number;
+        tax_amount: number;
+        card_fee_percentage: number;
+        card_fee_amount: number;
+        status: string;
+        due_date: string | null;
+        credited_amount: number;
+        voided_at: string | null;
+        void_reason: string | null;
+        voided_by: string | null;
+        paid_at: string | null;
+        payment_token: string;
+        stripe_payment_intent_id: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'recipient_type' | 'total_amount' | 'remaining_balance', [
+        ForeignKey<'invoices_couple_id_fkey', 'couple_id', 'couples'>,
+        ForeignKey<'invoices_vendor_id_fkey', 'vendor_id', 'vendors'>,
+      ]>;
+      job_board: Table<{
+        id: string;
+        job_type: string;
+        description: string | null;
+        couple_id: string;
+        service_package_id: string | null;
+        vendor_id: string | null;
+        venue_id: string | null;
+        is_open: boolean;
+        price: number | null;
+        event_start_time: string | null;
+        event_end_time: string | null;
+        created_at: string;
+        updated_at: string | null;
+      }, 'job_type' | 'couple_id'>;
+      languages: Table<{
+        id: string;
+        language: string;
+      }, 'language'>;
+      lead_notes: Table<{
+        id: string;
+        lead_id: string;
+        note_text: string;
+        created_by: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'lead_id' | 'note_text'>;
+      leads: Table<{
+        id: string;
+        name: string;
+        email: string;
+        phone: string | null;
+        partner_name: string | null;
+        source: string;
+        lead_source: string | null;
+        referral_source: string | null;
+        status: string;
+        response_status: string | null;
+        vendor_id: string | null;
+        preferred_contact_method: string | null;
+        wedding_date: string | null;
+        city: string | null;
+        state: string | null;
+        services_requested: string | null;
+        service_type: string | null;
+        form_notes: string | null;
+        photography_hours: number | null;
+        videography_hours: number | null;
+        dj_hours: number | null;
+        coordination_hours: number | null;
+        budget_range: string | null;
+        created_at: string;
+        updated_at: string | null;
+      }, 'name' | 'email'>;
+      messages: Table<{
+        id: string;
+        conversation_id: string;
+        sender_id: string;
+        message_text: string;
+        read_by: string[];
+        timestamp: string;
+        topic: string | null;
+        extension: string | null;
+        payload: Json | null;
+        event: string | null;
+        private: boolean | null;
+        inserted_at: string | null;
+        updated_at: string | null;
+      }, 'conversation_id' | 'sender_id' | 'message_text'>;
+      payments: Table<{
+        id: string;
+        invoice_id: string | null;
+        booking_id: string | null;
+        amount: number;
+        status: string;
+        payment_type: string | null;
+        stripe_payment_id: string | null;
+        to_platform: boolean;
+        installment_id: string | null;
+        created_at: string;
+      }, 'amount' | 'status', [
+        ForeignKey<'payments_invoice_id_fkey', 'invoice_id', 'invoices'>,
+        ForeignKey<'payments_booking_id_fkey', 'booking_id', 'bookings'>,
+        ForeignKey<'payments_installment_id_fkey', 'installment_id', 'invoice_installments'>,
+      ]>;
+      payout_reconciliation_reviews: Table<{
+        booking_id: string;
+        fingerprint: string;
+        issues: string[];
+        reviewed_by: string | null;
+        reviewed_at: string;
+      }, 'booking_id' | 'fingerprint', [
+        ForeignKey<'payout_reconciliation_reviews_booking_id_fkey', 'booking_id', 'bookings'>,
+      ]>;
+      profiles: Table<{
+        id: string;
+        role: string;
+        admin_level: string;
+        description: string | null;
+        permissions: PermissionSet | null;
+        created_at: string;
+        updated_at: string;
+      }, 'id'>;
+      referral_code_usages: Table<{
+        id: string;
+        vendor_id: string;
+        code: string;
+        created_at: string;
+      }, 'vendor_id' | 'code'>;
+      refunds: Table<{
+        id: string;
+        payment_id: string;
+        booking_id: string | null;
+        invoice_id: string | null;
+        amount: number;
+        vendor_amount: number;
+        platform_amount: number;
+        reason: string | null;
+        status: 'pending' | 'succeeded' | 'failed';
+        stripe_refund_id: string | null;
+        created_by: string | null;
+        created_at: string;
+      }, 'payment_id' | 'amount', [
+        ForeignKey<'refunds_payment_id_fkey', 'payment_id', 'payments'>,
+        ForeignKey<'refunds_booking_id_fkey', 'booking_id', 'bookings'>,
+        ForeignKey<'refunds_invoice_id_fkey', 'invoice_id', 'invoices'>,
+      ]>;
+      rental_periods: Table<{
+        id: string;
+        name: string;
+        duration_days: number;
+        price: number;
+        created_at: string;
+      }, 'name' | 'duration_days' | 'price'>;
+      review_trigger: Table<{
+        id: string;
+        couple_id: string;
+        send_request: boolean;
+        created_at: string;
+      }, 'couple_id'>;
+      service_areas: Table<{
+        id: string;
+        state: string;
+        region: string | null;
+      }, 'state'>;
+      service_packages: Table<{
+        id: string;
+        service_type: string;
+        name: string;
+        description: string | null;
+        price: number;
+        features: string[] | null;
+        coverage: Json | null;
+        hour_amount: number | null;
+        event_type: string | null;
+        status: string | null;
+        vendor_id: string | null;
+        lookup_key: string | null;
+        primary_image: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'service_type' | 'name' | 'price'>;
+      storage_subscriptions: Table<{
+        id: string;
+        vendor_id: string;
+        subscription_id: string;
+        plan_id: string;
+        storage_used: number;
+        payment_status: string;
+        created_at: string;
+        updated_at: string | null;
+      }, 'vendor_id' | 'subscription_id' | 'plan_id'>;
+      store_categories: Table<{
+        id: string;
+        name: string;
+        parent_id: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'name'>;
+      store_order_items: Table<{
+        id: string;
+        order_id: string;
+        product_id: string;
+        quantity: number;
+        unit_price: number;
+        variants: string | null;
+        is_rental: boolean;
+        rental_period_id: string | null;
+        rental_start_date: string | null;
+        rental_end_date: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'order_id' | 'product_id' | 'quantity' | 'unit_price'>;
+      store_orders: Table<{
+        id: string;
+        user_id: string;
+        vendor_id: string | null;
+        status: string;
+        total_amount: number;
+        tax_amount: number;
+        shipping_fee: number;
+        shipping_method: string | null;
+        shipping_address: Json | null;
+        shipping_provider: string | null;
+        tracking_number: string | null;
+        coupon_code: string | null;
+        coupon_discount: number | null;
+        payment_intent_id: string | null;
+        email: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'user_id' | 'total_amount'>;
+      store_products: Table<{
+        id: string;
+        name: string;
+        description: string;
+        category_id: string;
+        price: number;
+        rental_available: boolean;
+        stock_quantity: number;
+        rental_quantity: number;
+        images: string[] | null;
+        features: string[];
+        specifications: Json | null;
+        audience: string;
+        created_at: string;
+        updated_at: string;
+      }, 'name' | 'category_id' | 'price'>;
+      stripe_events: Table<{
+        id: string;
+        type: string;
+        livemode: boolean;
+        payload: Json;
+        status: 'received' | 'processed' | 'ignored' | 'failed';
+        error: string | null;
+        attempts: number;
+        received_at: string;
+        processed_at: string | null;
+      }, 'id' | 'type' | 'payload'>;
+      style_tags: Table<{
+        id: number;
+        label: string;
+        description: string | null;
+      }, 'label'>;
+      support_feedback: Table<{
+        id: string;
+        customer_name: string;
+        email: string;
+        event_type: string;
+        event_date: string;
+        booking_experience_rating: number;
+        support_experience_rating: number;
+        would_recommend: boolean;
+        feedback: string;
+        created_at: string;
+        updated_at: string | null;
+      }, 'customer_name' | 'email'>;
+      support_inquiries: Table<{
+        id: string;
+        user_id: string | null;
+        name: string;
+        email: string;
+        subject: string;
+        message: string;
+        priority: string;
+        status: string;
+        response: string | null;
+        responded_at: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'name' | 'email' | 'subject' | 'message'>;
+      tax_rates: Table<{
+        id: string;
+        state: string;
+        rate: number;
+        updated_by: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'state' | 'rate'>;
+      timeline_events: Table<{
+        id: string;
+        couple_id: string;
+        title: string;
+        description: string | null;
+        event_date: string;
+        event_time: string | null;
+        location: string | null;
+        type: string;
+        duration_minutes: number | null;
+        is_standard: boolean | null;
+        music_notes: string | null;
+        playlist_requests: string | null;
+        photo_shotlist: string | null;
+        created_at: string;
+        updated_at: string | null;
+      }, 'couple_id' | 'title' | 'event_date' | 'type'>;
+      timeline_shares: Table<{
+        id: string;
+        couple_id: string;
+        vendor_id: string | null;
+        status: string;
+        token: string;
+        created_at: string;
+      }, 'couple_id' | 'token'>;
+      users: Table<{
+        id: string;
+        email: string;
+        created_at: string;
+      }, 'id' | 'email'>;
+      vendor_applications: Table<{
+        id: string;
+        name: string;
+        phone: string;
+        email: string;
+        address: { street: string; city: string; state: string; zip: string } | null;
+        service_locations: string[];
+        services_applying_for: string[];
+        gear: { gear_type: string; brand: string; model: string; year: string; condition: string }[];
+        profile_photo: string | null;
+        drivers_license_front: string | null;
+        drivers_license_back: string | null;
+        description: string | null;
+        work_links: string[];
+        work_samples: string[];
+        status: string;
+        admin_notes: string | null;
+        reviewed_at: string | null;
+        reviewed_by: string | null;
+        vendor_id: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'name' | 'phone' | 'email', [
+        ForeignKey<'vendor_applications_vendor_id_fkey', 'vendor_id', 'vendors'>,
+      ]>;
+      vendor_blackouts: Table<{
+        id: string;
+        vendor_id: string;
+        starts_at: string;
+        ends_at: string;
+        reason: string | null;
+        created_by: string | null;
+        created_at: string;
+      }, 'vendor_id' | 'starts_at' | 'ends_at', [
+        ForeignKey<'vendor_blackouts_vendor_id_fkey', 'vendor_id', 'vendors'>,
+      ]>;
+      vendor_forum_posts: Table<{
+        id: string;
+        vendor_id: string | null;
+        content: string;
+        category: string;
+        is_hidden: boolean;
+        created_at: string;
+        updated_at: string | null;
+      }, 'content' | 'category'>;
+      vendor_forum_replies: Table<{
+        id: string;
+        post_id: string;
+        vendor_id: string | null;
+        content: string;
+        created_at: string;
+        updated_at: string | null;
+      }, 'post_id' | 'content'>;
+      vendor_forum_votes: Table<{
+        id: string;
+        post_id: string;
+        reply_id: string | null;
+        vendor_id: string | null;
+        vote_type: string;
+        created_at: string;
+      }, 'post_id' | 'vote_type'>;
+      vendor_gear: Table<{
+        id: string;
+        vendor_id: string;
+        gear_type: string;
+        brand: string;
+        model: string;
+        year: number | null;
+        condition: string;
+        gear_rating: string | null;
+        review_notes: string | null;
+        auto_rating: string | null;
+        auto_rating_reason: string | null;
+        submitted_at: string;
+      }, 'vendor_id' | 'gear_type' | 'brand' | 'model', [
+        ForeignKey<'vendor_gear_vendor_id_fkey', 'vendor_id', 'vendors'>,
+      ]>;
+      vendor_issues: Table<{
+        id: string;
+        vendor_id: string;
+        name: string;
+        issue_type: string;
+        severity: string;
+        description: string;
+        status: string;
+        admin_response: string | null;
+        created_at: string;
+      }, 'vendor_id' | 'issue_type' | 'description'>;
+      vendor_languages: Table<{
+        id: string;
+        vendor_id: string;
+        language_id: string;
+      }, 'vendor_id' | 'language_id', [
+        ForeignKey<'vendor_languages_vendor_id_fkey', 'vendor_id', 'vendors'>,
+        ForeignKey<'vendor_languages_language_id_fkey', 'language_id', 'languages'>,
+      ]>;
+      vendor_referral_codes: Table<{
+        id: string;
+        vendor_id: string;
+        code: string;
+        is_active: boolean;
+        created_at: string;
+      }, 'vendor_id' | 'code'>;
+      vendor_reviews: Table<{
+        id: string;
+        vendor_id: string;
+        couple_id: string | null;
+        rating: number | null;
+        review_text: string | null;
+        communication_rating: number | null;
+        experience_rating: number | null;
+        quality_rating: number | null;
+        overall_rating: number | null;
+        feedback: string | null;
+        vendor_response: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'vendor_id', [
+        ForeignKey<'vendor_reviews_vendor_id_fkey', 'vendor_id', 'vendors'>,
+        ForeignKey<'vendor_reviews_couple_id_fkey', 'couple_id', 'couples'>,
+      ]>;
+      vendor_rewards: Table<{
+        id: string;
+        vendor_id: string;
+        year: number;
+        points_required: number;
+        prize: number;
+      }, 'vendor_id' | 'year'>;
+      vendor_rewards_points: Table<{
+        id: string;
+        vendor_id: string;
+        year: number;
+        points: number;
+      }, 'vendor_id' | 'year'>;
+      vendor_service_areas: Table<{
+        id: string;
+        vendor_id: string;
+        service_area_id: string;
+        state: string;
+        region: string | null;
+      }, 'vendor_id' | 'service_area_id', [
+        ForeignKey<'vendor_service_areas_vendor_id_fkey', 'vendor_id', 'vendors'>,
+        ForeignKey<'vendor_service_areas_service_area_id_fkey', 'service_area_id', 'service_areas'>,
+      ]>;
+      vendor_service_packages: Table<{
+        id: string;
+        vendor_id: string;
+        service_package_id: string;
+        service_type: string;
+        status: string;
+        created_at: string;
+        updated_at: string;
+      }, 'vendor_id' | 'service_package_id' | 'service_type', [
+        ForeignKey<'vendor_service_packages_vendor_id_fkey', 'vendor_id', 'vendors'>,
+        ForeignKey<'vendor_service_packages_service_package_id_fkey', 'service_package_id', 'service_packages'>,
+      ]>;
+      vendor_services: Table<{
+        id: string;
+        vendor_id: string;
+        service_type: string;
+        is_active: boolean;
+        package_status: string;
+        created_at: string;
+        updated_at: string;
+      }, 'vendor_id' | 'service_type', [
+        ForeignKey<'vendor_services_vendor_id_fkey', 'vendor_id', 'vendors'>,
+      ]>;
+      vendor_style_tags: Table<{
+        id: string;
+        vendor_id: string;
+        style_id: number;
+      }, 'vendor_id' | 'style_id', [
+        ForeignKey<'vendor_style_tags_vendor_id_fkey', 'vendor_id', 'vendors'>,
+        ForeignKey<'vendor_style_tags_style_id_fkey', 'style_id', 'style_tags'>,
+      ]>;
+      vendor_vibe_tags: Table<{
+        id: string;
+        vendor_id: string;
+        vibe_id: number;
+      }, 'vendor_id' | 'vibe_id', [
+        ForeignKey<'vendor_vibe_tags_vendor_id_fkey', 'vendor_id', 'vendors'>,
+        ForeignKey<'vendor_vibe_tags_vibe_id_fkey', 'vibe_id', 'vibe_tags'>,
+      ]>;
+      vendors: Table<{
+        id: string;
+        user_id: string;
+        auth_id: string | null;
+        name: string;
+        profile: string | null;
+        phone: string | null;
+        phone_number: string | null;
+        rating: number | null;
+        years_experience: number | null;
+        profile_photo: string | null;
+        intro_video: string | null;
+        portfolio_photos: string[] | null;
+        portfolio_videos: string[] | null;
+        specialties: string[] | null;
+        awards: string[] | null;
+        education: string | null;
+        equipment: Json | null;
+        gear_list: string[] | null;
+        social_media: Json | null;
+        business_hours: Json | null;
+        languages: string[] | null;
+        service_areas: string[] | null;
+        service_types: string[] | null;
+        insurance_info: string | null;
+        business_license: string | null;
+        stripe_account_id: string | null;
+        stripe_customer_id: string | null;
+        stripe_status: string | null;
+        google_calendar_token: Json | null;
+        google_access_token: string | null;
+        google_refresh_token: string | null;
+        google_account_email: string | null;
+        outlook_access_token: string | null;
+        calcom_api_key: string | null;
+        ical_feed_token: string | null;
+        travel_buffer_minutes: number;
+        created_at: string;
+        updated_at: string;
+      }, 'user_id' | 'name'>;
+      venues: Table<{
+        id: string;
+        name: string;
+        phone: string | null;
+        email: string | null;
+        contact_name: string | null;
+        street_address: string | null;
+        city: string | null;
+        state: string | null;
+        zip: string | null;
+        region: string | null;
+        service_area_id: string | null;
+        insurance: string | null;
+        time_zone: string | null;
+        created_at: string;
+        updated_at: string;
+      }, 'name'>;
+      vibe_tags: Table<{
+        id: number;
+        label: string;
+        description: string | null;
+      }, 'label'>;
+    };
+    Views: {
+      daily_active_users: View<{
+        site: string;
+        day: string;
+        active_sessions: number;
+      }>;
+      upcoming_reminders: View<{
+        id: string;
+        booking_id: string;
+        event_id: string;
+        type: 'Email' | 'Text' | 'Feedback';
+        scheduled_at: string;
+        recipient: string;
+      }>;
+      venue_booking_counts: View<{
+        name: string;
+        booking_count: number;
+      }>;
+    };
+    Functions: {
+      application_quorum_error: {
+        Args: { p_application_id: string };
+        Returns: string | null;
+      };
+      booking_cancellation_error: {
+        Args: { p_booking_id: string; p_reason: string; p_refund_percentage: number };
+        Returns: string | null;
+      };
+      cancel_booking: {
+        Args: { p_booking_id: string; p_reason: string; p_refund_percentage: number };
+        Returns: Database['public']['Tables']['bookings']['Row'];
+      };
+      create_booking: {
+        Args: {
+          p_couple_id: string;
+          p_vendor_id: string;
+          p_status: string;
+          p_amount: number;
+          p_service_type: string;
+          p_event_type: string;
+          p_package_id: string | null;
+          p_venue_id: string | null;
+          p_event_id: string;
+        };
+        Returns: Json;
+      };
+      create_bookings_batch: {
+        Args: { p_bookings: Json };
+        Returns: Json;
+      };
+      get_top_screens: {
+        Args: { site_input: string; timestamp_input: string };
+        Returns: { screen_name: string; count: number }[];
+      };
+      issue_credit_note: {
+        Args: { p_invoice_id: string; p_reason: string; p_lines: Json };
+        Returns: Database['public']['Tables']['credit_notes']['Row'];
+      };
+      process_stripe_event: {
+        Args: { p_event_id: string };
+        Returns: Database['public']['Tables']['stripe_events']['Row'];
+      };
+      rate_gear: {
+        Args: { p_service_types: string[]; p_brand: string; p_model: string; p_condition: string };
+        Returns: { rating: string; reason: string }[];
+      };
+      record_refund: {
+        Args: { p_payment_id: string; p_amount: number; p_reason?: string | null; p_stripe_refund_id?: string | null };
+        Returns: Database['public']['Tables']['refunds']['Row'];
+      };
+      regenerate_ical_feed_token: {
+        Args: { p_kind: 'vendor' | 'couple'; p_id: string };
+        Returns: string;
+      };
+      reschedule_booking: {
+        Args: { p_booking_id: string; p_start_time: string; p_reason?: string | null };
+        Returns: Database['public']['Tables']['booking_reschedules']['Row'][];
+      };
+      transition_booking_status: {
+        Args: { p_booking_id: string; p_status: string; p_note?: string | null };
+        Returns: Database['public']['Tables']['bookings']['Row'];
+      };
+      vendor_schedule_conflict: {
+        Args: { p_vendor_id: string; p_start: string; p_end: string; p_ignore_event_id?: string | null };
+        Returns: string | null;
+      };
+      void_invoice: {
+        Args: { p_invoice_id: string; p_reason: string };
+        Returns: Database['public']['Tables']['invoices']['Row'];
+      };
+    };
+    Enums: Record<string, never>;
+    CompositeTypes: Record<string, never>;
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof PublicSchema['Tables'] | keyof PublicSchema['Views']> =
+  T extends keyof PublicSchema['Tables']
+    ? PublicSchema['Tables'][T]['Row']
+    : T extends keyof PublicSchema['Views']
+      ? PublicSchema['Views'][T]['Row']
+      : never;
+
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert'];
+
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update'];
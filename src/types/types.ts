@@ -19,7 +19,7 @@ export interface VendorService {
     coverage: any
     hour_amount: number | null
     event_type: string | null
-    status: string
+    status: string | null
     created_at: string
     updated_at: string
   }
@@ -39,8 +39,8 @@ export interface VendorService {
     id: string
     vendor_id: string
     couple_id: string | null
-    rating: number
-    review_text: string
+    rating: number | null
+    review_text: string | null
     vendor_response: string | null
     created_at: string
     updated_at: string
@@ -54,8 +54,8 @@ export interface VendorService {
     gear_list: string[] | null;
     rating: number | null;
     stripe_account_id: string | null;
-    created_at: string | null;
-    updated_at: string | null;
+    created_at: string;
+    updated_at: string;
     profile_photo: string | null;
     intro_video: string | null;
     years_experience: number | null;
@@ -96,7 +96,7 @@ export interface VendorServiceArea {
   vendor_id: string;
   service_area_id: string;
   state: string;
-  region: string;
+  region: string | null;
 }
 
 export interface VendorLanguage {
@@ -116,13 +116,16 @@ export interface VendorGear {
   condition: string;
   submitted_at: string;
   gear_rating: string | null;
-  review_notes: string;
+  review_notes: string | null;
+  // Set by the rate_vendor_gear trigger from the gear catalog
+  auto_rating?: string | null;
+  auto_rating_reason?: string | null;
 }
 
 export interface StyleTag {
   id: number;
   label: string;
-  description?: string;
+  description?: string | null;
 }
 
 export interface VendorStyleTag {
@@ -130,13 +133,13 @@ export interface VendorStyleTag {
   vendor_id: string;
   style_id: number;
   label: string;
-  description?: string;
+  description?: string | null;
 }
 
 export interface VibeTag {
   id: number;
   label: string;
-  description?: string;
+  description?: string | null;
 }
 
 export interface VendorVibeTag {
@@ -144,5 +147,5 @@ export interface VendorVibeTag {
   vendor_id: string;
   vibe_id: number;
   label: string;
-  description?: string;
+  description?: string | null;
 }
\ No newline at end of file
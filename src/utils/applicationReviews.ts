@@ -0,0 +1,97 @@
+import type { Tables } from '../types/database';
+
+export type RubricCriterion = Tables<'application_rubric_criteria'>;
+export type ApplicationScore = Tables<'application_scores'>;
+
+type ScoredCriterion = Pick<RubricCriterion, 'id' | 'weight' | 'max_score' | 'is_active'>;
+type Score = Pick<ApplicationScore, 'reviewer_id' | 'criterion_id' | 'score'>;
+
+// Reviewers more than this many points apart (out of 100) are flagged
+export const DISAGREEMENT_THRESHOLD = 20;
+
+export type ReviewerStatus = 'needs_my_review' | 'awaiting_quorum' | 'quorum_met';
+
+export const reviewerStatusLabels: Record<ReviewerStatus, string> = {
+  needs_my_review: 'Needs my review',
+  awaiting_quorum: 'Awaiting quorum',
+  quorum_met: 'Quorum met',
+};
+
+export interface ReviewerTotal {
+  reviewerId: string;
+  // Weighted score out of 100 over the criteria scored so far
+  score: number;
+  complete: boolean;
+}
+
+export interface ApplicationReviewSummary {
+  reviewers: ReviewerTotal[];
+  // With no active criteria no review can be complete
+  activeCriteria: number;
+  completeReviews: number;
+  quorumMet: boolean;
+  // Mean of the complete reviews, out of 100
+  aggregate: number | null;
+  // Points between the highest and lowest complete review
+  spread: number | null;
+  myReviewComplete: boolean;
+  status: ReviewerStatus;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function reviewerTotals(scores: Score[], criteria: ScoredCriterion[]): ReviewerTotal[] {
+  const active = new Map(criteria.filter(criterion => criterion.is_active).map(criterion => [criterion.id, criterion]));
+  const byReviewer = new Map<string, Score[]>();
+  scores
+    .filter(score => active.has(score.criterion_id))
+    .forEach(score => byReviewer.set(score.reviewer_id, [...(byReviewer.get(score.reviewer_id) || []), score]));
+
+  return [...byReviewer.entries()].map(([reviewerId, reviewerScores]) => {
+    let earned = 0;
+    let possible = 0;
+    reviewerScores.forEach(score => {
+      const criterion = active.get(score.criterion_id)!;
+      earned += score.score * Number(criterion.weight);
+      possible += criterion.max_score * Number(criterion.weight);
+    });
+    return {
+      reviewerId,
+      score: possible > 0 ? round1((earned / possible) * 100) : 0,
+      complete: reviewerScores.length === active.size,
+    };
+  });
+}
+
+// Same count application_quorum_error makes (see the
+// create_application_reviews migration), plus the aggregate and spread the
+// dashboard shows
+export function summarizeApplicationReview(
+  scores: Score[],
+  criteria: ScoredCriterion[],
+  quorum: number,
+  currentReviewerId: string | null,
+): ApplicationReviewSummary {
+  const reviewers = reviewerTotals(scores, criteria);
+  const activeCriteria = criteria.filter(criterion => criterion.is_active).length;
+  const complete = reviewers.filter(reviewer => reviewer.complete).map(reviewer => reviewer.score);
+  const quorumMet = activeCriteria > 0 && complete.length >= quorum;
+  const myReviewComplete = reviewers.some(reviewer => reviewer.reviewerId === currentReviewerId && reviewer.complete);
+  return {
+    reviewers,
+    activeCriteria,
+    completeReviews: complete.length,
+    quorumMet,
+    aggregate: complete.length > 0 ? round1(complete.reduce((sum, score) => sum + score, 0) / complete.length) : null,
+    spread: complete.length > 1 ? round1(Math.max(...complete) - Math.min(...complete)) : null,
+    myReviewComplete,
+    status: quorumMet ? 'quorum_met' : myReviewComplete ? 'awaiting_quorum' : 'needs_my_review',
+  };
+}
+
+export const quorumError = (summary: Pick<ApplicationReviewSummary, 'activeCriteria' | 'completeReviews'>, quorum: number) =>
+  summary.activeCriteria === 0
+    ? 'The review rubric has no active criteria; activate one before approving applications'
+    : summary.completeReviews >= quorum
+    ? null
+    : `Approval needs ${quorum} complete review${quorum === 1 ? '' : 's'}; this application has ${summary.completeReviews}`;
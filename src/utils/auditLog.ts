@@ -0,0 +1,136 @@
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// Rows are written by the audit_row_change trigger (see the create_audit_log migration)
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null;
+  action: AuditAction;
+  table_name: string;
+  row_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changed_fields: string[];
+  created_at: string;
+}
+
+export const auditEntityLabels: { [table: string]: string } = {
+  ads: 'Ad Purchase',
+  application_rubric_criteria: 'Rubric Criterion',
+  application_scores: 'Application Score',
+  blog_posts: 'Blog Post',
+  bookings: 'Booking',
+  cancellation_policy_tiers: 'Cancellation Policy Tier',
+  contract_templates: 'Contract Template',
+  contracts: 'Contract',
+  couples: 'Couple',
+  credit_note_lines: 'Credit Note Line',
+  credit_notes: 'Credit Note',
+  disputes: 'Dispute',
+  dunning_steps: 'Payment Reminder Step',
+  events: 'Event',
+  faqs: 'FAQ',
+  file_uploads: 'Stored File',
+  gear_catalog: 'Gear Catalog Entry',
+  invoice_installments: 'Invoice Installment',
+  invoice_line_items: 'Invoice Line Item',
+  invoices: 'Invoice',
+  job_board: 'Job',
+  lead_notes: 'Lead Note',
+  leads: 'Lead',
+  payments: 'Payment',
+  profiles: 'Profile',
+  refunds: 'Refund',
+  service_packages: 'Service Package',
+  store_categories: 'Store Category',
+  store_orders: 'Order',
+  store_products: 'Product',
+  support_inquiries: 'Inquiry',
+  tax_rates: 'Tax Rate',
+  timeline_events: 'Timeline Event',
+  timeline_shares: 'Timeline Share',
+  vendor_applications: 'Vendor Application',
+  vendor_blackouts: 'Vendor Blackout',
+  vendor_forum_posts: 'Forum Post',
+  vendor_forum_replies: 'Forum Reply',
+  vendor_gear: 'Vendor Gear',
+  vendor_issues: 'Vendor Issue',
+  vendor_languages: 'Vendor Language',
+  vendor_reviews: 'Vendor Review',
+  vendor_service_areas: 'Vendor Service Area',
+  vendor_service_packages: 'Vendor Service Package',
+  vendor_services: 'Vendor Service',
+  vendor_style_tags: 'Vendor Style Tag',
+  vendor_vibe_tags: 'Vendor Vibe Tag',
+  vendors: 'Vendor',
+  venues: 'Venue',
+};
+
+export const getAuditEntityLabel = (table: string) => auditEntityLabels[table] || table;
+
+// Tables with their own detail page, keyed by the row's id
+const recordRoutes: { [table: string]: string } = {
+  ads: 'ad-purchase',
+  blog_posts: 'blogposts',
+  bookings: 'booking',
+  couples: 'couple',
+  disputes: 'disputes',
+  events: 'event',
+  faqs: 'faq',
+  file_uploads: 'storage',
+  invoices: 'invoices',
+  job_board: 'job-board',
+  leads: 'lead',
+  payments: 'payment',
+  service_packages: 'service-package',
+  store_orders: 'orders',
+  store_products: 'products',
+  support_inquiries: 'inquiries',
+  vendor_applications: 'vendor-application',
+  vendor_forum_posts: 'forum',
+  vendor_issues: 'issues',
+  vendors: 'vendor',
+  venues: 'venue',
+};
+
+// Child rows link to the page of the record they belong to
+const parentRoutes: { [table: string]: { route: string; key: string } } = {
+  application_scores: { route: 'vendor-application', key: 'application_id' },
+  contracts: { route: 'booking', key: 'booking_id' },
+  credit_notes: { route: 'invoices', key: 'invoice_id' },
+  invoice_line_items: { route: 'invoices', key: 'invoice_id' },
+  lead_notes: { route: 'lead', key: 'lead_id' },
+  refunds: { route: 'payment', key: 'payment_id' },
+  timeline_events: { route: 'timelines', key: 'couple_id' },
+  vendor_blackouts: { route: 'vendor', key: 'vendor_id' },
+  vendor_forum_replies: { route: 'forum', key: 'post_id' },
+  vendor_gear: { route: 'vendor', key: 'vendor_id' },
+  vendor_languages: { route: 'vendor', key: 'vendor_id' },
+  vendor_reviews: { route: 'vendor', key: 'vendor_id' },
+  vendor_service_areas: { route: 'vendor', key: 'vendor_id' },
+  vendor_service_packages: { route: 'vendor', key: 'vendor_id' },
+  vendor_services: { route: 'vendor', key: 'vendor_id' },
+  vendor_style_tags: { route: 'vendor', key: 'vendor_id' },
+  vendor_vibe_tags: { route: 'vendor', key: 'vendor_id' },
+};
+
+// Returns null for deleted records and tables without a page to open
+export function getAuditRecordLink(entry: AuditLogEntry): string | null {
+  if (entry.action === 'delete' && recordRoutes[entry.table_name]) return null;
+
+  if (recordRoutes[entry.table_name] && entry.row_id) {
+    return `/dashboard/${recordRoutes[entry.table_name]}/${entry.row_id}`;
+  }
+
+  const parent = parentRoutes[entry.table_name];
+  if (parent) {
+    const parentId = entry.after?.[parent.key] ?? entry.before?.[parent.key];
+    if (typeof parentId === 'string' && parentId) return `/dashboard/${parent.route}/${parentId}`;
+  }
+  return null;
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,63 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Tables } from '../types/database';
+import { refundableAmount, splitRefund } from './refunds';
+
+export type CancellationPolicyTier = Tables<'cancellation_policy_tiers'>;
+
+type CancelledPayment = Pick<Tables<'payments'>, 'id' | 'amount' | 'status' | 'payment_type' | 'to_platform' | 'stripe_payment_id'>;
+type ShareColumns = Pick<
+  Tables<'bookings'>,
+  'vendor_deposit_share' | 'platform_deposit_share' | 'vendor_final_share' | 'platform_final_share'
+>;
+type TimedEvent = Pick<Tables<'events'>, 'id' | 'start_time' | 'end_time' | 'title' | 'type'>;
+
+export interface PlannedRefund {
+  payment: CancelledPayment;
+  amount: number;
+  vendorAmount: number;
+  platformAmount: number;
+}
+
+export const daysBeforeEvent = (startTime: string, today = new Date()) =>
+  differenceInCalendarDays(parseISO(startTime), today);
+
+// The tier with the highest min_days_before the cancellation still meets. A
+// booking without an event date gets the most generous tier.
+export function policyRefundPercentage(tiers: Pick<CancellationPolicyTier, 'min_days_before' | 'refund_percentage'>[], daysBefore: number | null): number {
+  const tier = [...tiers]
+    .sort((a, b) => b.min_days_before - a.min_days_before)
+    .find(candidate => daysBefore === null || daysBefore >= candidate.min_days_before);
+  return tier ? Number(tier.refund_percentage) : 0;
+}
+
+// What each succeeded payment gets back at the given percentage, less what was
+// already refunded on it, so running a half-finished cancellation again does
+// not refund twice. The vendor/platform split is the one record_refund applies.
+export function planCancellationRefunds(
+  payments: CancelledPayment[],
+  refunds: Pick<Tables<'refunds'>, 'payment_id' | 'amount' | 'status'>[],
+  booking: ShareColumns | null,
+  percentage: number,
+): PlannedRefund[] {
+  return payments
+    .filter(payment => ['succeeded', 'paid'].includes(payment.status))
+    .map(payment => {
+      const left = refundableAmount(payment, refunds.filter(refund => refund.payment_id === payment.id));
+      const due = Math.round((payment.amount * percentage) / 100) - (payment.amount - left);
+      const amount = Math.min(Math.max(due, 0), left);
+      const split = splitRefund(amount, payment, booking);
+      return { payment, amount, vendorAmount: split.vendorAmount, platformAmount: split.platformAmount };
+    })
+    .filter(refund => refund.amount > 0);
+}
+
+// Mirrors reschedule_booking (see the create_booking_cancellations migration):
+// every linked event moves by the same amount
+export function shiftEvents<T extends TimedEvent>(events: T[], shiftMs: number): T[] {
+  return events.map(event => ({
+    ...event,
+    start_time: new Date(Date.parse(event.start_time) + shiftMs).toISOString(),
+    end_time: new Date(Date.parse(event.end_time) + shiftMs).toISOString(),
+  }));
+}
+
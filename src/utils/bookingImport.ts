@@ -0,0 +1,254 @@
+import Papa from 'papaparse';
+import { listCoupleOptions } from '../repositories/couples';
+import { listVendorOptions } from '../repositories/vendors';
+import { listVenues } from '../repositories/venues';
+import { getVendorSchedules } from '../repositories/vendorAvailability';
+import { BookingStatus, initialBookingStatusError, isBookingStatus } from './bookingStatus';
+import { ScheduleConflict, findScheduleConflicts, isBlocked, withEvent } from './vendorAvailability';
+
+export interface BookingCsvRow {
+  couple_name: string;
+  vendor_name: string;
+  service_type: string;
+  event_type: string;
+  amount: string;
+  status: string;
+  venue_name: string;
+  start_time: string;
+  end_time: string;
+}
+
+export type MatchStatus = 'matched' | 'ambiguous' | 'not_found' | 'empty';
+export type PreviewStatus = 'create' | 'ambiguous' | 'not_found' | 'invalid';
+
+export interface MatchCandidate {
+  id: string;
+  label: string;
+}
+
+export interface EntityMatch {
+  status: MatchStatus;
+  candidates: MatchCandidate[];
+  selectedId: string | null;
+}
+
+export interface BookingPreviewRow {
+  row: number; // 1-based data row (header excluded)
+  data: Record<string, string>; // the row as it appeared in the file, for re-export
+  values: BookingCsvRow;
+  couple: EntityMatch;
+  vendor: EntityMatch;
+  venue: EntityMatch;
+  issues: string[];
+}
+
+// Accepted header spellings per column; headers are normalized before lookup
+const columnAliases: Record<keyof BookingCsvRow, string[]> = {
+  couple_name: ['couple_name', 'couple', 'couple_names'],
+  vendor_name: ['vendor_name', 'vendor'],
+  service_type: ['service_type', 'service'],
+  event_type: ['event_type'],
+  amount: ['amount', 'price', 'total'],
+  status: ['status', 'booking_status'],
+  venue_name: ['venue_name', 'venue'],
+  start_time: ['start_time', 'start', 'event_start'],
+  end_time: ['end_time', 'end', 'event_end'],
+};
+
+const requiredColumns: (keyof BookingCsvRow)[] = ['couple_name', 'vendor_name', 'start_time', 'end_time'];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+const normalizeName = (name: string | null | undefined) =>
+  (name || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Papa's errors for a row (a stray quote, too few or too many fields) become
+// that row's issues; errors about the whole file come back as fileErrors
+export function parseBookingsCsv(
+  file: File,
+): Promise<{ rows: BookingPreviewRow[]; missingColumns: string[]; fileErrors: string[] }> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: 'greedy',
+      complete: (results) => {
+        const headers = results.meta.fields || [];
+        const headerFor = {} as Record<keyof BookingCsvRow, string | undefined>;
+        (Object.keys(columnAliases) as (keyof BookingCsvRow)[]).forEach(column => {
+          headerFor[column] = headers.find(header => columnAliases[column].includes(normalizeHeader(header)));
+        });
+
+        const missingColumns = requiredColumns.filter(column => !headerFor[column]);
+        const fileErrors = results.errors.filter(error => error.row === undefined).map(error => error.message);
+        const rowErrors = (index: number) =>
+          results.errors.filter(error => error.row === index).map(error => `Row could not be read: ${error.message}`);
+        const rows = results.data.map((data, index) => {
+          const values = {} as BookingCsvRow;
+          (Object.keys(columnAliases) as (keyof BookingCsvRow)[]).forEach(column => {
+            const header = headerFor[column];
+            values[column] = header ? (data[header] || '').trim() : '';
+          });
+          return {
+            row: index + 1,
+            data,
+            values,
+            couple: emptyMatch(),
+            vendor: emptyMatch(),
+            venue: emptyMatch(),
+            issues: [...rowErrors(index), ...validateRow(values)],
+          };
+        });
+
+        resolve({ rows, missingColumns, fileErrors });
+      },
+      error: (error) => reject(error),
+    });
+  });
+}
+
+// Statuses from before the booking lifecycle, mapped as the
+// create_booking_status_history migration mapped existing bookings
+const LEGACY_BOOKING_STATUSES: Record<string, BookingStatus> = {
+  pending: 'pending_deposit',
+};
+
+const emptyMatch = (): EntityMatch => ({ status: 'empty', candidates: [], selectedId: null });
+
+function validateRow(values: BookingCsvRow) {
+  const issues: string[] = [];
+  if (!values.couple_name) issues.push('Missing couple name');
+  if (!values.vendor_name) issues.push('Missing vendor name');
+  if (values.amount && isNaN(parseFloat(values.amount.replace(/[$,]/g, '')))) {
+    issues.push(`Invalid amount: ${values.amount}`);
+  }
+  if (values.status) {
+    const statusError = initialBookingStatusError(LEGACY_BOOKING_STATUSES[values.status] ?? values.status);
+    if (statusError) issues.push(statusError);
+  }
+  const start = new Date(values.start_time);
+  const end = new Date(values.end_time);
+  if (isNaN(start.getTime())) issues.push(`Invalid start time: ${values.start_time || '(empty)'}`);
+  if (isNaN(end.getTime())) issues.push(`Invalid end time: ${values.end_time || '(empty)'}`);
+  if (!isNaN(start.getTime()) && !isNaN(end.getTime()) && end <= start) {
+    issues.push('End time must be after start time');
+  }
+  return issues;
+}
+
+function matchByName(name: string, candidates: (MatchCandidate & { names: string[] })[]): EntityMatch {
+  if (!name) return emptyMatch();
+  const target = normalizeName(name);
+  const matches = candidates
+    .filter(candidate => candidate.names.some(candidateName => normalizeName(candidateName) === target))
+    .map(({ id, label }) => ({ id, label }));
+  if (matches.length === 0) return { status: 'not_found', candidates: [], selectedId: null };
+  if (matches.length === 1) return { status: 'matched', candidates: matches, selectedId: matches[0].id };
+  return { status: 'ambiguous', candidates: matches, selectedId: null };
+}
+
+// Dry run: resolves every couple, vendor and venue against the full tables,
+// read a page at a time, instead of per-row lookups
+export async function resolveBookingRows(rows: BookingPreviewRow[]): Promise<BookingPreviewRow[]> {
+  const [couplesData, vendorsData, venuesData] = await Promise.all([
+    listCoupleOptions(),
+    listVendorOptions(),
+    listVenues(),
+  ]);
+
+  const coupleCandidates = couplesData.map(couple => ({
+    id: couple.id,
+    label: `${couple.name || `${couple.partner1_name} & ${couple.partner2_name || 'Partner'}`}${couple.email ? ` (${couple.email})` : ''}`,
+    names: [couple.name, `${couple.partner1_name} & ${couple.partner2_name}`, couple.email].filter((name): name is string => Boolean(name)),
+  }));
+  const vendorCandidates = vendorsData.map(vendor => ({
+    id: vendor.id,
+    label: vendor.name,
+    names: [vendor.name],
+  }));
+  const venueCandidates = venuesData.map(venue => ({
+    id: venue.id,
+    label: [venue.name, venue.city, venue.state].filter(Boolean).join(', '),
+    names: [venue.name],
+  }));
+
+  return rows.map(row => ({
+    ...row,
+    couple: matchByName(row.values.couple_name, coupleCandidates),
+    vendor: matchByName(row.values.vendor_name, vendorCandidates),
+    venue: matchByName(row.values.venue_name, venueCandidates),
+  }));
+}
+
+export function getPreviewStatus(row: BookingPreviewRow): PreviewStatus {
+  if (row.issues.length > 0) return 'invalid';
+  const matches = [row.couple, row.vendor, row.venue];
+  if (row.couple.status === 'not_found' || row.vendor.status === 'not_found' || row.venue.status === 'not_found') {
+    return 'not_found';
+  }
+  if (matches.some(match => match.status === 'ambiguous' && !match.selectedId)) return 'ambiguous';
+  return 'create';
+}
+
+// Schedule conflicts for each row that is ready to create, keyed by row
+// number. Earlier rows count as booked when checking later ones, so two rows
+// that double-book a vendor are caught before the import runs.
+export async function findImportConflicts(rows: BookingPreviewRow[]): Promise<Record<number, ScheduleConflict[]>> {
+  const candidates = rows.filter(row => getPreviewStatus(row) === 'create' && row.vendor.selectedId);
+  if (candidates.length === 0) return {};
+
+  const day = 24 * 60 * 60 * 1000;
+  const from = Math.min(...candidates.map(row => new Date(row.values.start_time).getTime())) - day;
+  const to = Math.max(...candidates.map(row => new Date(row.values.end_time).getTime())) + day;
+  const schedules = await getVendorSchedules(
+    candidates.map(row => row.vendor.selectedId!),
+    new Date(from).toISOString(),
+    new Date(to).toISOString()
+  );
+
+  const conflicts: Record<number, ScheduleConflict[]> = {};
+  candidates.forEach(row => {
+    const vendorId = row.vendor.selectedId!;
+    const slot = {
+      start_time: new Date(row.values.start_time).toISOString(),
+      end_time: new Date(row.values.end_time).toISOString(),
+      venue_id: row.venue.selectedId,
+    };
+    const rowConflicts = findScheduleConflicts(slot, schedules[vendorId]);
+    if (rowConflicts.length > 0) conflicts[row.row] = rowConflicts;
+    if (!isBlocked(rowConflicts)) {
+      schedules[vendorId] = withEvent(schedules[vendorId], {
+        id: `row-${row.row}`,
+        title: `row ${row.row}`,
+        is_blocked_time: true,
+        ...slot,
+      });
+    }
+  });
+  return conflicts;
+}
+
+export function describePreviewRow(row: BookingPreviewRow): string {
+  if (row.issues.length > 0) return row.issues.join('; ');
+  const problems: string[] = [];
+  const entities: [string, EntityMatch, string][] = [
+    ['Couple', row.couple, row.values.couple_name],
+    ['Vendor', row.vendor, row.values.vendor_name],
+    ['Venue', row.venue, row.values.venue_name],
+  ];
+  entities.forEach(([label, match, name]) => {
+    if (match.status === 'not_found') problems.push(`${label} not found: ${name}`);
+    if (match.status === 'ambiguous' && !match.selectedId) {
+      problems.push(`${label} "${name}" matches ${match.candidates.length} records`);
+    }
+  });
+  return problems.join('; ');
+}
+
+// Rows without a status start as inquiries; validateRow rejects any a booking
+// cannot start as
+export const parseBookingStatus = (status: string): BookingStatus => {
+  const current = LEGACY_BOOKING_STATUSES[status] ?? status;
+  return isBookingStatus(current) ? current : 'inquiry';
+};
+
+export const parseAmountCents = (amount: string) =>
+  amount ? Math.round(parseFloat(amount.replace(/[$,]/g, '')) * 100) : 0;
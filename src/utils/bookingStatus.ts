@@ -0,0 +1,110 @@
+import type { Tables } from '../types/database';
+
+export type BookingStatus = Tables<'bookings'>['status'];
+
+// In lifecycle order, with the cancelled branch last
+export const BOOKING_STATUSES: BookingStatus[] = [
+  'inquiry',
+  'pending_deposit',
+  'confirmed',
+  'completed',
+  'reviewed',
+  'cancelled',
+  'refunded',
+];
+
+export const bookingStatusLabels: Record<BookingStatus, string> = {
+  inquiry: 'Inquiry',
+  pending_deposit: 'Pending deposit',
+  confirmed: 'Confirmed',
+  completed: 'Completed',
+  reviewed: 'Reviewed',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+export const bookingStatusStyles: Record<BookingStatus, string> = {
+  inquiry: 'bg-blue-100 text-blue-800',
+  pending_deposit: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-green-100 text-green-800',
+  completed: 'bg-indigo-100 text-indigo-800',
+  reviewed: 'bg-purple-100 text-purple-800',
+  cancelled: 'bg-red-100 text-red-800',
+  refunded: 'bg-gray-200 text-gray-800',
+};
+
+export const isBookingStatus = (value: string): value is BookingStatus =>
+  (BOOKING_STATUSES as string[]).includes(value);
+
+// What a booking may be created as; it only gets further through the
+// transitions, so their guards always hold (see check_new_booking_status)
+export const INITIAL_BOOKING_STATUSES: BookingStatus[] = ['inquiry', 'pending_deposit'];
+
+export const isInitialBookingStatus = (value: string): value is BookingStatus =>
+  (INITIAL_BOOKING_STATUSES as string[]).includes(value);
+
+export const initialBookingStatusError = (status: string) => isInitialBookingStatus(status)
+  ? null
+  : `A booking starts as ${INITIAL_BOOKING_STATUSES.join(' or ')}, not ${status}`;
+
+// Bookings whose deposit has been paid and not given back: confirmed ones and
+// everything after them on the way to reviewed
+export const DEPOSIT_PAID_STATUSES: BookingStatus[] = ['confirmed', 'completed', 'reviewed'];
+
+// Bookings whose event has happened, so their final payment is due
+export const FINAL_PAYMENT_DUE_STATUSES: BookingStatus[] = ['completed', 'reviewed'];
+
+export const isDepositPaidStatus = (value: string) => (DEPOSIT_PAID_STATUSES as string[]).includes(value);
+
+export const isFinalPaymentDueStatus = (value: string) => (FINAL_PAYMENT_DUE_STATUSES as string[]).includes(value);
+
+// What the guards look at, gathered by getBookingTransitionFacts
+export interface BookingTransitionFacts {
+  depositPaid: boolean;
+  eventEndsAt: string | null;
+  coupleReviewedVendor: boolean;
+  refundSucceeded: boolean;
+}
+
+const transitions: Record<BookingStatus, BookingStatus[]> = {
+  inquiry: ['pending_deposit', 'cancelled'],
+  pending_deposit: ['confirmed', 'cancelled'],
+  confirmed: ['completed', 'cancelled'],
+  completed: ['reviewed'],
+  reviewed: [],
+  cancelled: ['refunded'],
+  refunded: [],
+};
+
+const guards: Partial<Record<BookingStatus, (facts: BookingTransitionFacts, now: Date) => string | null>> = {
+  confirmed: facts => facts.depositPaid ? null : 'A booking is confirmed once its deposit has been paid',
+  completed: (facts, now) => facts.eventEndsAt && new Date(facts.eventEndsAt) < now
+    ? null
+    : 'A booking is completed once its event has ended',
+  reviewed: facts => facts.coupleReviewedVendor ? null : 'A booking is reviewed once the couple has reviewed the vendor',
+  refunded: facts => facts.refundSucceeded ? null : 'A booking is refunded once a refund has gone through',
+};
+
+// Same rules enforce_booking_status applies (see the
+// create_booking_status_history migration): why `from` may not move to `to`,
+// or null when it may.
+export function bookingTransitionError(
+  from: BookingStatus,
+  to: BookingStatus,
+  facts: BookingTransitionFacts,
+  now = new Date(),
+): string | null {
+  if (!transitions[from].includes(to)) {
+    return `A ${from} booking cannot be moved to ${to}`;
+  }
+  return guards[to]?.(facts, now) ?? null;
+}
+
+// Every status the lifecycle allows next, with the reason a guard holds it back
+export function nextBookingStatuses(
+  from: BookingStatus,
+  facts: BookingTransitionFacts,
+  now = new Date(),
+): { status: BookingStatus; blockedBy: string | null }[] {
+  return transitions[from].map(status => ({ status, blockedBy: bookingTransitionError(from, status, facts, now) }));
+}
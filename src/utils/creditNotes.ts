@@ -0,0 +1,16 @@
+import type { Tables } from '../types/database';
+import { PricingLineItem, lineItemTotal } from './invoicePricing';
+
+type CreditedLine = Pick<Tables<'credit_note_lines'>, 'invoice_line_item_id' | 'amount'>;
+
+// Same limit issue_credit_note enforces (see the create_credit_notes migration):
+// a line can be credited up to its own total, less what earlier notes credited
+export function creditableAmount(item: PricingLineItem & { id?: string }, creditLines: CreditedLine[]): number {
+  const credited = creditLines
+    .filter(line => line.invoice_line_item_id === item.id)
+    .reduce((sum, line) => sum + line.amount, 0);
+  return Math.max(lineItemTotal(item) - credited, 0);
+}
+
+// Sent invoices are frozen; only drafts can still be edited in place
+export const isInvoiceEditable = (invoice: Pick<Tables<'invoices'>, 'status'>) => invoice.status === 'draft';
@@ -0,0 +1,51 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Tables } from '../types/database';
+
+export type DisputeStatus = Tables<'disputes'>['status'];
+
+// Stripe's dispute statuses, in the order a dispute moves through them
+export const disputeStatusLabels: Record<DisputeStatus, string> = {
+  warning_needs_response: 'Inquiry: needs response',
+  warning_under_review: 'Inquiry: under review',
+  warning_closed: 'Inquiry closed',
+  needs_response: 'Needs response',
+  under_review: 'Under review',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+export const disputeStatusStyles: Record<DisputeStatus, string> = {
+  warning_needs_response: 'bg-orange-100 text-orange-800',
+  warning_under_review: 'bg-yellow-100 text-yellow-800',
+  warning_closed: 'bg-gray-100 text-gray-800',
+  needs_response: 'bg-red-100 text-red-800',
+  under_review: 'bg-yellow-100 text-yellow-800',
+  won: 'bg-green-100 text-green-800',
+  lost: 'bg-gray-200 text-gray-800',
+};
+
+// Stripe's reasons, as the dropdown offers them when a dispute is recorded by hand
+export const DISPUTE_REASONS = [
+  'fraudulent',
+  'product_not_received',
+  'product_unacceptable',
+  'duplicate',
+  'credit_not_processed',
+  'unrecognized',
+  'subscription_canceled',
+  'general',
+] as const;
+
+export const formatDisputeReason = (reason: string) =>
+  reason.charAt(0).toUpperCase() + reason.slice(1).replace(/_/g, ' ');
+
+export const isDisputeOpen = (status: DisputeStatus) => !['won', 'lost', 'warning_closed'].includes(status);
+
+// The vendor is not paid a booking's share while it may still go back to the
+// cardholder, and a lost dispute means it has
+export const holdsVendorShare = (status: DisputeStatus) => isDisputeOpen(status) || status === 'lost';
+
+// Negative once the deadline has passed; null when Stripe gave no deadline
+export function daysUntilEvidenceDue(dispute: Pick<Tables<'disputes'>, 'evidence_due_by'>, today = new Date()): number | null {
+  return dispute.evidence_due_by ? differenceInCalendarDays(parseISO(dispute.evidence_due_by), today) : null;
+}
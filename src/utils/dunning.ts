@@ -0,0 +1,67 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { Tables } from '../types/database';
+
+type DunningStep = Pick<Tables<'dunning_steps'>, 'id' | 'name' | 'offset_days' | 'is_active'>;
+type DunningInvoice = Pick<Tables<'invoices'>, 'status' | 'due_date' | 'remaining_balance'>;
+type SentReminder = Pick<Tables<'invoice_reminders'>, 'step_id'>;
+
+// Placeholders the reminder templates may use; send-dunning-reminders fills them in
+export const DUNNING_PLACEHOLDERS = [
+  { key: 'recipient_name', example: 'Alex & Jordan' },
+  { key: 'invoice_number', example: '1A2B3C4D' },
+  { key: 'amount_due', example: '$1,250.00' },
+  { key: 'due_date', example: 'October 1, 2026' },
+  { key: 'days_past_due', example: '7' },
+  { key: 'payment_link', example: 'https://app.bremembered.io/invoice-payment/…' },
+] as const;
+
+const todayString = () => format(new Date(), 'yyyy-MM-dd');
+
+// Open invoices only: drafts have not gone out and paid or void invoices owe nothing
+export const isInvoiceOpen = (invoice: DunningInvoice) =>
+  !['paid', 'draft', 'void'].includes(invoice.status) && invoice.remaining_balance > 0;
+
+export function daysPastDue(dueDate: string, today = todayString()): number {
+  return differenceInCalendarDays(parseISO(today), parseISO(dueDate));
+}
+
+export function isInvoiceOverdue(invoice: DunningInvoice, today = todayString()): boolean {
+  return !!invoice.due_date && isInvoiceOpen(invoice) && daysPastDue(invoice.due_date, today) > 0;
+}
+
+export function renderDunningTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+export interface DunningTouch<Step extends DunningStep = DunningStep> {
+  step: Step;
+  // yyyy-MM-dd; today or earlier means the daily run sends it next
+  date: string;
+}
+
+// The step the daily run will send next: the first active step after the last
+// one already sent. When several are already due the run sends only the latest
+// of them, so that is the one reported.
+export function nextDunningTouch<Step extends DunningStep>(
+  invoice: DunningInvoice,
+  steps: Step[],
+  reminders: SentReminder[],
+  today = todayString(),
+): DunningTouch<Step> | null {
+  if (!invoice.due_date || !isInvoiceOpen(invoice)) return null;
+  const active = steps.filter(step => step.is_active).sort((a, b) => a.offset_days - b.offset_days);
+  const sentStepIds = new Set(reminders.map(reminder => reminder.step_id));
+  const lastSent = active.filter(step => sentStepIds.has(step.id)).pop();
+  const remaining = active.filter(step => !lastSent || step.offset_days > lastSent.offset_days);
+  if (remaining.length === 0) return null;
+
+  const elapsed = daysPastDue(invoice.due_date, today);
+  const step = remaining.filter(candidate => candidate.offset_days <= elapsed).pop() ?? remaining[0];
+  return { step, date: format(addDays(parseISO(invoice.due_date), step.offset_days), 'yyyy-MM-dd') };
+}
+
+export const formatOffset = (offsetDays: number) => {
+  if (offsetDays === 0) return 'On the due date';
+  const days = Math.abs(offsetDays);
+  return `${days} day${days === 1 ? '' : 's'} ${offsetDays < 0 ? 'before' : 'after'} due`;
+};
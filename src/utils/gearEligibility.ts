@@ -0,0 +1,54 @@
+import type { Tables } from '../types/database';
+
+export type GearCatalogEntry = Tables<'gear_catalog'>;
+export type GearRating = 'approved' | 'borderline' | 'rejected';
+
+export interface GearAssessment {
+  rating: GearRating;
+  reason: string;
+}
+
+type CatalogMatch = Pick<GearCatalogEntry, 'service_type' | 'brand' | 'model' | 'rating' | 'notes'>;
+type SubmittedGear = { brand: string; model: string; condition: string | null };
+
+export const gearRatingLabels: Record<GearRating, string> = {
+  approved: 'Approved',
+  borderline: 'Borderline',
+  rejected: 'Below minimum',
+};
+
+export const gearRatingStyles: Record<GearRating, string> = {
+  approved: 'text-green-700 bg-green-100',
+  borderline: 'text-yellow-700 bg-yellow-100',
+  rejected: 'text-red-700 bg-red-100',
+};
+
+const rank: Record<GearRating, number> = { approved: 0, borderline: 1, rejected: 2 };
+const normalize = (value: string | null | undefined) => (value ?? '').trim().toLowerCase();
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Same rules as rate_gear (see the create_gear_catalog migration): the best
+// catalog rating across the services offered, a step down in fair condition
+// and rejected in poor condition
+export function rateGear(item: SubmittedGear, serviceTypes: string[], catalog: CatalogMatch[]): GearAssessment {
+  const entry = catalog
+    .filter(candidate =>
+      serviceTypes.includes(candidate.service_type) &&
+      normalize(candidate.brand) === normalize(item.brand) &&
+      normalize(candidate.model) === normalize(item.model))
+    .sort((a, b) =>
+      rank[a.rating as GearRating] - rank[b.rating as GearRating] || a.service_type.localeCompare(b.service_type))[0];
+  const condition = normalize(item.condition);
+
+  if (condition === 'poor') return { rating: 'rejected', reason: 'In poor condition' };
+  if (!entry) return { rating: 'borderline', reason: 'Not in the gear catalog; rate it by hand' };
+  if (entry.rating === 'approved' && condition === 'fair') {
+    return { rating: 'borderline', reason: `Approved for ${entry.service_type}, but only in fair condition` };
+  }
+  return {
+    rating: entry.rating as GearRating,
+    reason: entry.notes ?? `${capitalize(entry.rating)} for ${entry.service_type}`,
+  };
+}
+
+export const isBelowMinimum = (ratings: (string | null | undefined)[]) => ratings.includes('rejected');
@@ -0,0 +1,5 @@
+// iCalendar (RFC 5545) feeds of vendor and couple calendars, built by the
+// module the ical-feed edge function serves them with
+export * from '../../supabase/functions/_shared/icalendar';
+
+export type IcalFeedKind = 'vendor' | 'couple';
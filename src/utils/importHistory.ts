@@ -0,0 +1,97 @@
+import Papa from 'papaparse';
+import { supabase } from '../lib/supabase';
+
+export type ImportType = 'vendors' | 'couples' | 'venues' | 'bookings' | 'service_packages';
+
+// A type alias rather than an interface so it is assignable to the Json of the
+// error_details column
+export type ImportErrorDetail = {
+  row: number; // 1-based data row (header excluded)
+  data: Record<string, string>;
+  error: string;
+};
+
+export interface ImportHistoryEntry {
+  id: string;
+  type: ImportType | string;
+  filename: string;
+  user_id: string;
+  timestamp: string;
+  rows_added: number;
+  errors: number;
+  status: string;
+  error_details: ImportErrorDetail[] | null;
+  created_at: string;
+}
+
+export const importTypeLabels: Record<ImportType, string> = {
+  vendors: 'Vendors',
+  couples: 'Couples',
+  venues: 'Venues',
+  bookings: 'Bookings',
+  service_packages: 'Service Packages',
+};
+
+export const getImportTypeLabel = (type: string) =>
+  importTypeLabels[type as ImportType] || type;
+
+export const getImportStatus = (rowsAdded: number, errorCount: number) => {
+  if (errorCount === 0) return 'success';
+  return rowsAdded > 0 ? 'partial' : 'failed';
+};
+
+// Zips a positional CSV row back onto the template header so failed rows can be re-exported
+export const toRowRecord = (headers: string[], values: string[]): Record<string, string> =>
+  headers.reduce((acc, header, index) => {
+    acc[header] = values[index] ?? '';
+    return acc;
+  }, {} as Record<string, string>);
+
+export async function recordImportHistory({
+  type,
+  filename,
+  rowsAdded,
+  errorDetails,
+}: {
+  type: ImportType;
+  filename: string;
+  rowsAdded: number;
+  errorDetails: ImportErrorDetail[];
+}) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      console.warn('Skipping import history: no authenticated user');
+      return;
+    }
+
+    const { error } = await supabase.from('import_history').insert({
+      type,
+      filename,
+      user_id: user.id,
+      timestamp: new Date().toISOString(),
+      rows_added: rowsAdded,
+      errors: errorDetails.length,
+      status: getImportStatus(rowsAdded, errorDetails.length),
+      error_details: errorDetails,
+    });
+    if (error) throw error;
+  } catch (error) {
+    // History is best-effort; never fail the import itself because of it
+    console.error('Error recording import history:', error);
+  }
+}
+
+export function downloadFailedRows(entry: ImportHistoryEntry) {
+  const rows = (entry.error_details || []).map(detail => detail.data);
+  const csv = Papa.unparse(rows);
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', `failed_${entry.filename.replace(/\.csv$/i, '')}.csv`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyPaymentToInstallments,
+  buildInstallmentSchedule,
+  isInstallmentOverdue,
+  refundFromInstallments,
+} from './installments';
+import type { Tables } from '../types/database';
+
+const installment = (sequence: number, amount: number, paidAmount = 0): Tables<'invoice_installments'> => ({
+  id: `inst-${sequence}`,
+  sequence,
+  amount,
+  paid_amount: paidAmount,
+  status: paidAmount >= amount ? 'paid' : paidAmount > 0 ? 'partially_paid' : 'pending',
+  paid_at: paidAmount >= amount ? '2026-01-01T00:00:00Z' : null,
+  invoice_id: 'inv-1',
+  due_date: '2026-03-01',
+  payment_token: `token-${sequence}`,
+  last_reminded_at: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+});
+
+describe('buildInstallmentSchedule', () => {
+  it('splits the amount evenly', () => {
+    const schedule = buildInstallmentSchedule({ amount: 30000, count: 3, firstDueDate: '2026-03-01', interval: 'monthly' });
+    expect(schedule.map(row => row.amount)).toEqual([10000, 10000, 10000]);
+    expect(schedule.map(row => row.sequence)).toEqual([1, 2, 3]);
+  });
+
+  it('puts the cents that do not divide on the first installments', () => {
+    const schedule = buildInstallmentSchedule({ amount: 10002, count: 4, firstDueDate: '2026-03-01', interval: 'monthly' });
+    expect(schedule.map(row => row.amount)).toEqual([2501, 2501, 2500, 2500]);
+    expect(schedule.reduce((sum, row) => sum + row.amount, 0)).toBe(10002);
+  });
+
+  it('spaces the due dates by the interval', () => {
+    const dueDates = (interval: 'weekly' | 'biweekly' | 'monthly') =>
+      buildInstallmentSchedule({ amount: 300, count: 3, firstDueDate: '2026-01-31', interval }).map(row => row.due_date);
+    expect(dueDates('weekly')).toEqual(['2026-01-31', '2026-02-07', '2026-02-14']);
+    expect(dueDates('biweekly')).toEqual(['2026-01-31', '2026-02-14', '2026-02-28']);
+    expect(dueDates('monthly')).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+  });
+
+  it('always has at least one installment', () => {
+    expect(buildInstallmentSchedule({ amount: 500, count: 0, firstDueDate: '2026-03-01', interval: 'weekly' }))
+      .toEqual([{ sequence: 1, amount: 500, due_date: '2026-03-01' }]);
+  });
+});
+
+describe('applyPaymentToInstallments', () => {
+  it('pays the earliest open installments first', () => {
+    const updates = applyPaymentToInstallments(
+      [installment(2, 1000), installment(1, 1000), installment(3, 1000)],
+      1500,
+      '2026-03-05T00:00:00Z',
+    );
+    expect(updates).toEqual([
+      { id: 'inst-1', paid_amount: 1000, status: 'paid', paid_at: '2026-03-05T00:00:00Z' },
+      { id: 'inst-2', paid_amount: 500, status: 'partially_paid', paid_at: null },
+    ]);
+  });
+
+  it('pays the installment the payment was taken for first', () => {
+    const updates = applyPaymentToInstallments(
+      [installment(1, 1000), installment(2, 1000)],
+      1000,
+      '2026-03-05T00:00:00Z',
+      'inst-2',
+    );
+    expect(updates).toEqual([{ id: 'inst-2', paid_amount: 1000, status: 'paid', paid_at: '2026-03-05T00:00:00Z' }]);
+  });
+
+  it('skips paid installments and tops up partly paid ones', () => {
+    const updates = applyPaymentToInstallments(
+      [installment(1, 1000, 1000), installment(2, 1000, 400), installment(3, 1000)],
+      800,
+      '2026-03-05T00:00:00Z',
+    );
+    expect(updates).toEqual([
+      { id: 'inst-2', paid_amount: 1000, status: 'paid', paid_at: '2026-03-05T00:00:00Z' },
+      { id: 'inst-3', paid_amount: 200, status: 'partially_paid', paid_at: null },
+    ]);
+  });
+
+  it('leaves an overpayment unapplied', () => {
+    const updates = applyPaymentToInstallments([installment(1, 1000)], 5000, '2026-03-05T00:00:00Z');
+    expect(updates).toEqual([{ id: 'inst-1', paid_amount: 1000, status: 'paid', paid_at: '2026-03-05T00:00:00Z' }]);
+  });
+});
+
+describe('refundFromInstallments', () => {
+  it('takes the refund from the latest paid installments first', () => {
+    const updates = refundFromInstallments(
+      [installment(1, 1000, 1000), installment(2, 1000, 1000), installment(3, 1000)],
+      1500,
+    );
+    expect(updates).toEqual([
+      { id: 'inst-2', paid_amount: 0, status: 'pending', paid_at: null },
+      { id: 'inst-1', paid_amount: 500, status: 'partially_paid', paid_at: null },
+    ]);
+  });
+
+  it('takes the refund from the installment the payment was taken for first', () => {
+    const updates = refundFromInstallments(
+      [installment(1, 1000, 1000), installment(2, 1000, 1000)],
+      400,
+      'inst-1',
+    );
+    expect(updates).toEqual([{ id: 'inst-1', paid_amount: 600, status: 'partially_paid', paid_at: null }]);
+  });
+});
+
+describe('isInstallmentOverdue', () => {
+  it('is overdue when unpaid past the due date', () => {
+    expect(isInstallmentOverdue({ due_date: '2026-03-01', status: 'pending' }, '2026-03-02')).toBe(true);
+    expect(isInstallmentOverdue({ due_date: '2026-03-01', status: 'partially_paid' }, '2026-03-02')).toBe(true);
+  });
+
+  it('is not overdue on the due date or once paid', () => {
+    expect(isInstallmentOverdue({ due_date: '2026-03-01', status: 'pending' }, '2026-03-01')).toBe(false);
+    expect(isInstallmentOverdue({ due_date: '2026-03-01', status: 'paid' }, '2026-03-02')).toBe(false);
+  });
+});
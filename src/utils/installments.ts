@@ -0,0 +1,120 @@
+import { addMonths, addWeeks, format, parseISO } from 'date-fns';
+import type { Tables } from '../types/database';
+
+type Installment = Tables<'invoice_installments'>;
+type ScheduledInstallment = Pick<Installment, 'sequence' | 'amount' | 'due_date'>;
+type AppliedInstallment = Pick<Installment, 'id' | 'sequence' | 'amount' | 'paid_amount' | 'status' | 'paid_at'>;
+
+export type InstallmentInterval = 'weekly' | 'biweekly' | 'monthly';
+
+export const INSTALLMENT_INTERVALS: { value: InstallmentInterval; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+export interface InstallmentPlan {
+  // Amount to split, in cents: normally the balance left after the deposit
+  amount: number;
+  count: number;
+  // yyyy-MM-dd
+  firstDueDate: string;
+  interval: InstallmentInterval;
+}
+
+const dueDateAt = (firstDueDate: string, interval: InstallmentInterval, index: number) => {
+  const first = parseISO(firstDueDate);
+  const due = interval === 'monthly'
+    ? addMonths(first, index)
+    : addWeeks(first, interval === 'biweekly' ? index * 2 : index);
+  return format(due, 'yyyy-MM-dd');
+};
+
+// Splits the amount evenly; the cents that do not divide go on the first
+// installments so the schedule always adds up to the amount exactly.
+export function buildInstallmentSchedule(plan: InstallmentPlan): ScheduledInstallment[] {
+  const count = Math.max(Math.floor(plan.count), 1);
+  const base = Math.floor(plan.amount / count);
+  const remainder = plan.amount - base * count;
+  return Array.from({ length: count }, (_, index) => ({
+    sequence: index + 1,
+    amount: base + (index < remainder ? 1 : 0),
+    due_date: dueDateAt(plan.firstDueDate, plan.interval, index),
+  }));
+}
+
+export type InstallmentUpdate = Pick<Installment, 'id' | 'paid_amount' | 'status' | 'paid_at'>;
+
+// Applies a payment to the schedule: to the installment it was taken for
+// first, then to the earliest installments still open. Whatever is left after
+// the last installment is paid is not applied anywhere.
+export function applyPaymentToInstallments(
+  installments: AppliedInstallment[],
+  amount: number,
+  paidAt: string,
+  installmentId?: string | null,
+): InstallmentUpdate[] {
+  const ordered = [...installments].sort((a, b) => {
+    if (a.id === installmentId) return -1;
+    if (b.id === installmentId) return 1;
+    return a.sequence - b.sequence;
+  });
+
+  const updates: InstallmentUpdate[] = [];
+  let left = amount;
+  for (const installment of ordered) {
+    if (left <= 0) break;
+    const open = installment.amount - installment.paid_amount;
+    if (open <= 0) continue;
+    const applied = Math.min(open, left);
+    left -= applied;
+    const paidAmount = installment.paid_amount + applied;
+    const paid = paidAmount >= installment.amount;
+    updates.push({
+      id: installment.id,
+      paid_amount: paidAmount,
+      status: paid ? 'paid' : 'partially_paid',
+      paid_at: paid ? paidAt : installment.paid_at,
+    });
+  }
+  return updates;
+}
+
+// Takes a refund back off the schedule, the reverse of applying a payment:
+// from the installment the payment was taken for first, then from the latest
+// installments with anything paid on them (see refund_invoice_installments)
+export function refundFromInstallments(
+  installments: AppliedInstallment[],
+  amount: number,
+  installmentId?: string | null,
+): InstallmentUpdate[] {
+  const ordered = [...installments].sort((a, b) => {
+    if (a.id === installmentId) return -1;
+    if (b.id === installmentId) return 1;
+    return b.sequence - a.sequence;
+  });
+
+  const updates: InstallmentUpdate[] = [];
+  let left = amount;
+  for (const installment of ordered) {
+    if (left <= 0) break;
+    if (installment.paid_amount <= 0) continue;
+    const taken = Math.min(installment.paid_amount, left);
+    left -= taken;
+    const paidAmount = installment.paid_amount - taken;
+    updates.push({
+      id: installment.id,
+      paid_amount: paidAmount,
+      status: paidAmount === 0 ? 'pending' : 'partially_paid',
+      paid_at: null,
+    });
+  }
+  return updates;
+}
+
+export function isInstallmentOverdue(installment: Pick<Installment, 'due_date' | 'status'>, today = format(new Date(), 'yyyy-MM-dd')): boolean {
+  return installment.status !== 'paid' && installment.due_date < today;
+}
+
+export const installmentPaymentLink = (paymentToken: string) =>
+  `https://app.bremembered.io/invoice-payment/${paymentToken}`;
@@ -0,0 +1,306 @@
+import jsPDF from 'jspdf';
+import JSZip from 'jszip';
+import { format, parseISO } from 'date-fns';
+import type { InvoicePdfInputs } from '../repositories/invoices';
+import { InvoiceTotals, lineItemTotal, priceInvoice } from './invoicePricing';
+
+type PdfInvoice = InvoicePdfInputs['invoices'][number];
+type PdfPayment = InvoicePdfInputs['payments'][number];
+type PdfRefund = InvoicePdfInputs['refunds'][number];
+
+export interface InvoiceDocumentLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  taxable: boolean;
+}
+
+export interface InvoiceDocumentPayment {
+  date: string;
+  label: string;
+  amount: number;
+  refunded: number;
+}
+
+export interface InvoiceDocument {
+  id: string;
+  status: string;
+  voidReason: string | null;
+  issuedOn: string;
+  recipientName: string;
+  recipientEmail: string | null;
+  paymentToken: string | null;
+  taxState: string | null;
+  taxRate: number;
+  cardFeePercentage: number;
+  lines: InvoiceDocumentLine[];
+  payments: InvoiceDocumentPayment[];
+  totals: InvoiceTotals;
+}
+
+const BRAND = 'B. Remembered';
+const BRAND_COLOR: [number, number, number] = [37, 99, 235];
+const PAID_STATUSES = ['succeeded', 'paid'];
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const lineDescription = (item: PdfInvoice['invoice_line_items'][number]) =>
+  item.custom_description
+  || item.bookings?.service_packages?.name
+  || item.service_packages?.name
+  || item.store_products?.name
+  || item.bookings?.service_type
+  || (item.type === 'store_product' ? 'Product' : 'Service');
+
+const paymentLabel = (paymentType: string | null) =>
+  (paymentType || 'payment').replace(/_/g, ' ').replace(/^\w/, letter => letter.toUpperCase());
+
+// Payments count toward an invoice when made on it or on one of its bookings,
+// the same rule the invoice details page uses
+export function buildInvoiceDocument(invoice: PdfInvoice, payments: PdfPayment[], refunds: PdfRefund[]): InvoiceDocument {
+  const bookingIds = new Set(invoice.invoice_line_items.map(item => item.booking_id).filter(Boolean));
+  const invoicePayments = payments.filter(payment =>
+    payment.invoice_id === invoice.id || (payment.booking_id && bookingIds.has(payment.booking_id)),
+  );
+  const paymentIds = new Set(invoicePayments.map(payment => payment.id));
+  const invoiceRefunds = refunds.filter(refund => paymentIds.has(refund.payment_id));
+
+  const totals = priceInvoice({
+    lineItems: invoice.invoice_line_items,
+    discount: invoice.discount_percentage > 0
+      ? { type: 'percentage', percentage: invoice.discount_percentage }
+      : { type: 'flat', amount: invoice.discount_amount },
+    payments: invoicePayments,
+    refunds: invoiceRefunds,
+    credited: invoice.credited_amount,
+    taxRate: invoice.tax_rate,
+    cardFeePercentage: invoice.card_fee_percentage,
+  });
+
+  const couple = invoice.couples;
+  const recipientName = invoice.recipient_type === 'vendor'
+    ? invoice.vendors?.name || 'Vendor'
+    : [couple?.partner1_name, couple?.partner2_name].filter(Boolean).join(' & ') || 'Couple';
+
+  return {
+    id: invoice.id,
+    status: invoice.status,
+    voidReason: invoice.void_reason,
+    issuedOn: invoice.created_at,
+    recipientName,
+    recipientEmail: invoice.recipient_type === 'couple' ? couple?.email ?? null : null,
+    paymentToken: invoice.payment_token,
+    taxState: invoice.tax_state,
+    taxRate: invoice.tax_rate,
+    cardFeePercentage: invoice.card_fee_percentage,
+    lines: invoice.invoice_line_items.map(item => ({
+      description: lineDescription(item),
+      quantity: item.quantity,
+      unitPrice: item.custom_price,
+      amount: lineItemTotal(item),
+      taxable: item.taxable,
+    })),
+    payments: invoicePayments
+      .filter(payment => PAID_STATUSES.includes(payment.status))
+      .map(payment => ({
+        date: payment.created_at,
+        label: paymentLabel(payment.payment_type),
+        amount: payment.amount,
+        refunded: invoiceRefunds
+          .filter(refund => refund.payment_id === payment.id)
+          .reduce((sum, refund) => sum + refund.amount, 0),
+      })),
+    // The deposit asked for is whatever was saved on the invoice; a void invoice is owed nothing
+    totals: { ...totals, deposit: invoice.deposit_amount, balanceDue: invoice.status === 'void' ? 0 : totals.balanceDue },
+  };
+}
+
+export function buildInvoiceDocuments(inputs: InvoicePdfInputs): InvoiceDocument[] {
+  return inputs.invoices.map(invoice => buildInvoiceDocument(invoice, inputs.payments, inputs.refunds));
+}
+
+export const invoiceNumber = (invoice: InvoiceDocument) => invoice.id.slice(0, 8).toUpperCase();
+
+export function invoiceFileName(invoice: InvoiceDocument) {
+  const slug = invoice.recipientName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'invoice';
+  // The full id keeps names unique inside a bulk ZIP
+  return `invoice_${slug}_${invoice.id}.pdf`;
+}
+
+const COLUMNS = [
+  { label: 'Description', x: 12, align: 'left' },
+  { label: 'Qty', x: 130, align: 'right' },
+  { label: 'Unit Price', x: 165, align: 'right' },
+  { label: 'Amount', x: 198, align: 'right' },
+] as const;
+
+export function renderInvoicePdf(invoice: InvoiceDocument) {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pdfWidth = pdf.internal.pageSize.getWidth();
+  const pdfHeight = pdf.internal.pageSize.getHeight();
+  const margin = 12;
+  const { totals } = invoice;
+
+  const writeRow = (cells: string[], position: number) => {
+    COLUMNS.forEach((column, index) => {
+      pdf.text(cells[index], column.x, position, { align: column.align });
+    });
+  };
+
+  const writeHeader = (position: number) => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(9);
+    writeRow(COLUMNS.map(column => column.label), position);
+    pdf.line(margin, position + 2, pdfWidth - margin, position + 2);
+    pdf.setFont('helvetica', 'normal');
+    return position + 7;
+  };
+
+  const ensureSpace = (position: number, needed: number) => {
+    if (position + needed <= pdfHeight - 20) return position;
+    pdf.addPage();
+    return margin + 10;
+  };
+
+  // Brand band across the top of the first page
+  pdf.setFillColor(...BRAND_COLOR);
+  pdf.rect(0, 0, pdfWidth, 24, 'F');
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(20);
+  pdf.text(BRAND, margin, 15);
+  pdf.setFontSize(14);
+  pdf.text('INVOICE', pdfWidth - margin, 15, { align: 'right' });
+  pdf.setTextColor(0, 0, 0);
+
+  let position = 36;
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Bill To', margin, position);
+  pdf.text(`Invoice #${invoiceNumber(invoice)}`, pdfWidth - margin, position, { align: 'right' });
+  pdf.setFont('helvetica', 'normal');
+  position += 5;
+  pdf.text(invoice.recipientName, margin, position);
+  pdf.text(`Issued ${format(parseISO(invoice.issuedOn), 'MMM d, yyyy')}`, pdfWidth - margin, position, { align: 'right' });
+  position += 5;
+  if (invoice.recipientEmail) pdf.text(invoice.recipientEmail, margin, position);
+  pdf.text(`Status: ${invoice.status}`, pdfWidth - margin, position, { align: 'right' });
+  if (invoice.voidReason) {
+    position += 5;
+    pdf.setTextColor(220, 38, 38);
+    pdf.text(`Void: ${invoice.voidReason}`, pdfWidth - margin, position, { align: 'right' });
+    pdf.setTextColor(0, 0, 0);
+  }
+  position += 12;
+
+  position = writeHeader(position);
+  invoice.lines.forEach(line => {
+    const description = pdf.splitTextToSize(`${line.description}${line.taxable && invoice.taxState ? ' (taxable)' : ''}`, 100) as string[];
+    if (position + description.length * 5 > pdfHeight - 20) {
+      pdf.addPage();
+      position = writeHeader(margin + 10);
+    }
+    writeRow([description[0], String(line.quantity), dollars(line.unitPrice), dollars(line.amount)], position);
+    description.slice(1).forEach(text => {
+      position += 5;
+      pdf.text(text, COLUMNS[0].x, position);
+    });
+    position += 7;
+  });
+  pdf.line(margin, position - 4, pdfWidth - margin, position - 4);
+
+  // Totals, right-aligned under the amount column
+  const summary: [string, string][] = [['Subtotal', dollars(totals.subtotal)]];
+  if (totals.discount > 0) summary.push(['Discount', `-${dollars(totals.discount)}`]);
+  if (totals.tax > 0) summary.push([`Sales tax (${invoice.taxState} ${invoice.taxRate}%)`, dollars(totals.tax)]);
+  if (totals.cardFee > 0) summary.push([`Card processing fee (${invoice.cardFeePercentage}%)`, dollars(totals.cardFee)]);
+  summary.push(['Total', dollars(totals.total)]);
+  if (totals.deposit > 0) summary.push(['Deposit requested', dollars(totals.deposit)]);
+  if (totals.credited > 0) summary.push(['Credits', `-${dollars(totals.credited)}`]);
+  summary.push(['Payments received', `-${dollars(totals.paid)}`]);
+
+  position = ensureSpace(position + 2, summary.length * 6 + 12);
+  pdf.setFontSize(10);
+  summary.forEach(([label, value]) => {
+    pdf.setFont('helvetica', label === 'Total' ? 'bold' : 'normal');
+    pdf.text(label, 150, position, { align: 'right' });
+    pdf.text(value, pdfWidth - margin, position, { align: 'right' });
+    position += 6;
+  });
+  position += 2;
+  pdf.setFillColor(239, 246, 255);
+  pdf.rect(100, position - 5, pdfWidth - margin - 100, 9, 'F');
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(12);
+  pdf.text('Balance Due', 150, position + 1, { align: 'right' });
+  pdf.text(dollars(totals.balanceDue), pdfWidth - margin, position + 1, { align: 'right' });
+  position += 14;
+
+  if (invoice.payments.length > 0) {
+    position = ensureSpace(position, 12 + invoice.payments.length * 5);
+    pdf.setFontSize(10);
+    pdf.text('Payments Received', margin, position);
+    position += 6;
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    invoice.payments.forEach(payment => {
+      position = ensureSpace(position, 5);
+      pdf.text(format(parseISO(payment.date), 'MM/dd/yyyy'), margin, position);
+      pdf.text(payment.label, margin + 28, position);
+      pdf.text(
+        payment.refunded > 0 ? `${dollars(payment.amount)} (${dollars(payment.refunded)} refunded)` : dollars(payment.amount),
+        pdfWidth - margin,
+        position,
+        { align: 'right' },
+      );
+      position += 5;
+    });
+    position += 6;
+  }
+
+  if (invoice.paymentToken && totals.balanceDue > 0) {
+    position = ensureSpace(position, 10);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(10);
+    pdf.text('Pay online:', margin, position);
+    pdf.setTextColor(...BRAND_COLOR);
+    pdf.textWithLink(
+      `https://app.bremembered.io/invoice-payment/${invoice.paymentToken}`,
+      margin + 20,
+      position,
+      { url: `https://app.bremembered.io/invoice-payment/${invoice.paymentToken}` },
+    );
+    pdf.setTextColor(0, 0, 0);
+  }
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.text(`Thank you for choosing ${BRAND}.`, pdfWidth / 2, pdfHeight - margin, { align: 'center' });
+  return pdf;
+}
+
+export function downloadInvoicePdf(invoice: InvoiceDocument) {
+  renderInvoicePdf(invoice).save(invoiceFileName(invoice));
+}
+
+// Base64 without the data-URI prefix, as the invoice email expects attachments
+export function invoicePdfBase64(invoice: InvoiceDocument) {
+  return renderInvoicePdf(invoice).output('datauristring').split(',')[1];
+}
+
+export async function downloadInvoicesZip(invoices: InvoiceDocument[]) {
+  const zip = new JSZip();
+  invoices.forEach(invoice => {
+    zip.file(invoiceFileName(invoice), renderInvoicePdf(invoice).output('blob'));
+  });
+  const content = await zip.generateAsync({ type: 'blob' });
+  const url = URL.createObjectURL(content);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', `invoices_${format(new Date(), 'yyyy-MM-dd')}.zip`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
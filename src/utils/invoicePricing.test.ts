@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { bookingLinePrice, discountAmount, lineItemTotal, priceInvoice } from './invoicePricing';
+
+describe('lineItemTotal', () => {
+  it('multiplies the price by the quantity', () => {
+    expect(lineItemTotal({ custom_price: 1999, quantity: 3 })).toBe(5997);
+  });
+
+  it('rounds fractional quantities to whole cents', () => {
+    expect(lineItemTotal({ custom_price: 1001, quantity: 1.5 })).toBe(1502);
+  });
+
+  it('treats a missing price as zero', () => {
+    expect(lineItemTotal({ custom_price: null, quantity: 4 })).toBe(0);
+  });
+});
+
+describe('discountAmount', () => {
+  it('is zero without a discount', () => {
+    expect(discountAmount(10000, null)).toBe(0);
+    expect(discountAmount(10000, undefined)).toBe(0);
+  });
+
+  it('takes a percentage of the subtotal, rounded to cents', () => {
+    expect(discountAmount(10000, { type: 'percentage', percentage: 10 })).toBe(1000);
+    expect(discountAmount(999, { type: 'percentage', percentage: 12.5 })).toBe(125);
+  });
+
+  it('takes a fixed amount, rounded to cents', () => {
+    expect(discountAmount(10000, { type: 'flat', amount: 500 })).toBe(500);
+    expect(discountAmount(10000, { type: 'flat', amount: 12.6 })).toBe(13);
+  });
+
+  it('never discounts more than the subtotal', () => {
+    expect(discountAmount(10000, { type: 'flat', amount: 20000 })).toBe(10000);
+    expect(discountAmount(10000, { type: 'percentage', percentage: 150 })).toBe(10000);
+  });
+
+  it('never discounts below zero', () => {
+    expect(discountAmount(10000, { type: 'flat', amount: -100 })).toBe(0);
+  });
+});
+
+describe('bookingLinePrice', () => {
+  const booking = { amount: 20000, initial_payment: 5000 };
+
+  it('bills the deposit when the invoice asks for one', () => {
+    expect(bookingLinePrice(booking, 25)).toBe(5000);
+  });
+
+  it('bills the full amount without a deposit', () => {
+    expect(bookingLinePrice(booking, 0)).toBe(20000);
+  });
+
+  it('falls back when the booking has no deposit amount', () => {
+    expect(bookingLinePrice({ amount: 20000, initial_payment: null }, 25)).toBe(0);
+    expect(bookingLinePrice({ amount: 20000, initial_payment: null }, 25, 1234)).toBe(1234);
+  });
+});
+
+describe('priceInvoice', () => {
+  it('applies a percentage discount before tax', () => {
+    const totals = priceInvoice({
+      lineItems: [
+        { custom_price: 10000, quantity: 1, taxable: true },
+        { custom_price: 2500, quantity: 2, taxable: true },
+      ],
+      discount: { type: 'percentage', percentage: 10 },
+      taxRate: 8.25,
+    });
+
+    expect(totals.subtotal).toBe(15000);
+    expect(totals.discount).toBe(1500);
+    expect(totals.taxableAmount).toBe(13500);
+    expect(totals.tax).toBe(1114);
+    expect(totals.total).toBe(14614);
+    expect(totals.balanceDue).toBe(14614);
+  });
+
+  it('applies a fixed discount', () => {
+    const totals = priceInvoice({
+      lineItems: [{ custom_price: 15000, quantity: 1 }],
+      discount: { type: 'flat', amount: 1000 },
+    });
+
+    expect(totals.discount).toBe(1000);
+    expect(totals.total).toBe(14000);
+  });
+
+  it('taxes only taxable items, less their share of the discount, and adds the card fee on top', () => {
+    const totals = priceInvoice({
+      lineItems: [
+        { custom_price: 10000, quantity: 1 },
+        { custom_price: 5000, quantity: 1, taxable: true },
+      ],
+      discount: { type: 'flat', amount: 3000 },
+      taxRate: 10,
+      cardFeePercentage: 2.9,
+    });
+
+    expect(totals.taxableAmount).toBe(4000);
+    expect(totals.tax).toBe(400);
+    expect(totals.cardFee).toBe(360);
+    expect(totals.total).toBe(12760);
+  });
+
+  it('rounds every derived amount to whole cents', () => {
+    const totals = priceInvoice({
+      lineItems: [{ custom_price: 1000, quantity: 1, taxable: true }],
+      discount: { type: 'percentage', percentage: 33.333 },
+      taxRate: 7,
+      depositPercentage: 50,
+    });
+
+    expect(totals.discount).toBe(333);
+    expect(totals.taxableAmount).toBe(667);
+    expect(totals.tax).toBe(47);
+    expect(totals.total).toBe(714);
+    expect(totals.deposit).toBe(357);
+    Object.values(totals).forEach(value => expect(Number.isInteger(value)).toBe(true));
+  });
+
+  it('caps a discount larger than the subtotal so nothing is owed', () => {
+    const totals = priceInvoice({
+      lineItems: [{ custom_price: 1000, quantity: 2, taxable: true }],
+      discount: { type: 'flat', amount: 5000 },
+      taxRate: 8,
+      depositPercentage: 25,
+    });
+
+    expect(totals.discount).toBe(2000);
+    expect(totals.taxableAmount).toBe(0);
+    expect(totals.tax).toBe(0);
+    expect(totals.total).toBe(0);
+    expect(totals.deposit).toBe(0);
+    expect(totals.balanceDue).toBe(0);
+  });
+
+  it('nets refunds and credits out of what is owed', () => {
+    const totals = priceInvoice({
+      lineItems: [{ custom_price: 10000, quantity: 1 }],
+      depositPercentage: 25,
+      payments: [
+        { id: 'p1', amount: 2500, status: 'succeeded', payment_type: 'deposit' },
+        { id: 'p2', amount: 3000, status: 'paid' },
+        { id: 'p3', amount: 9999, status: 'failed' },
+      ],
+      refunds: [{ payment_id: 'p2', amount: 1000 }],
+      credited: 500,
+    });
+
+    expect(totals.deposit).toBe(2500);
+    expect(totals.depositPaid).toBe(2500);
+    expect(totals.paid).toBe(4500);
+    expect(totals.refunded).toBe(1000);
+    expect(totals.credited).toBe(500);
+    expect(totals.balanceDue).toBe(5000);
+  });
+
+  it('never shows a negative balance when more was paid than is owed', () => {
+    const totals = priceInvoice({
+      lineItems: [{ custom_price: 1000, quantity: 1 }],
+      payments: [{ id: 'p1', amount: 1500, status: 'succeeded' }],
+    });
+
+    expect(totals.balanceDue).toBe(0);
+  });
+});
@@ -0,0 +1,138 @@
+// Invoice totals shared by the invoice list (create) and invoice details (edit)
+// pages. Everything is integer cents; each derived amount is rounded once so
+// the figures shown always add up to the figures saved.
+
+export interface PricingLineItem {
+  custom_price: number | null;
+  quantity: number;
+  // Only items marked taxable are taxed, as invoice_line_items.taxable defaults
+  // to false
+  taxable?: boolean;
+}
+
+export type InvoiceDiscount =
+  | { type: 'flat'; amount: number }
+  | { type: 'percentage'; percentage: number };
+
+export interface PricingPayment {
+  id?: string;
+  amount: number;
+  status: string;
+  payment_type?: string | null;
+}
+
+export interface PricingRefund {
+  payment_id: string;
+  amount: number;
+}
+
+export interface InvoicePricingInput {
+  lineItems: PricingLineItem[];
+  discount?: InvoiceDiscount | null;
+  // Share of the total asked for up front, e.g. 25 for 25%
+  depositPercentage?: number;
+  payments?: PricingPayment[];
+  // Refunds reduce what was paid on the payment they reverse
+  refunds?: PricingRefund[];
+  // Total of the credit notes issued against the invoice; reduces what is owed
+  credited?: number;
+  // Percentage applied to the taxable part of the discounted subtotal, e.g. 8.25
+  taxRate?: number;
+  // Card-processing fee as a percentage of the taxed total, e.g. 2.9
+  cardFeePercentage?: number;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  discount: number;
+  taxableAmount: number;
+  tax: number;
+  cardFee: number;
+  total: number;
+  deposit: number;
+  depositPaid: number;
+  paid: number;
+  refunded: number;
+  credited: number;
+  balanceDue: number;
+}
+
+// Suggested card-processing fee when an admin turns the fee line on
+export const DEFAULT_CARD_FEE_PERCENTAGE = 2.9;
+
+// Physical goods are taxed; services are not unless an admin marks them taxable
+export const isTaxableByDefault = (type: string) => type === 'store_product';
+
+const PAID_STATUSES = ['succeeded', 'paid'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export const lineItemTotal = (item: PricingLineItem) => Math.round((item.custom_price || 0) * (item.quantity || 0));
+
+export function discountAmount(subtotal: number, discount: InvoiceDiscount | null | undefined) {
+  if (!discount) return 0;
+  const amount = discount.type === 'percentage'
+    ? Math.round((subtotal * discount.percentage) / 100)
+    : Math.round(discount.amount);
+  return clamp(amount, 0, subtotal);
+}
+
+// A booking line bills the booking's deposit when the invoice asks for one, otherwise its full amount
+export function bookingLinePrice(
+  booking: { amount: number; initial_payment: number | null },
+  depositPercentage: number,
+  fallback = 0,
+) {
+  return (depositPercentage > 0 ? booking.initial_payment : booking.amount) || fallback;
+}
+
+export function priceInvoice(input: InvoicePricingInput): InvoiceTotals {
+  const subtotal = input.lineItems.reduce((sum, item) => sum + lineItemTotal(item), 0);
+  const discount = discountAmount(subtotal, input.discount);
+
+  // The discount is spread over all items, so taxable items carry their share of it
+  const taxableSubtotal = input.lineItems
+    .filter(item => item.taxable === true)
+    .reduce((sum, item) => sum + lineItemTotal(item), 0);
+  const taxableAmount = subtotal > 0 ? taxableSubtotal - Math.round((discount * taxableSubtotal) / subtotal) : 0;
+  const tax = input.taxRate ? Math.round((taxableAmount * input.taxRate) / 100) : 0;
+
+  const cardFee = input.cardFeePercentage ? Math.round(((subtotal - discount + tax) * input.cardFeePercentage) / 100) : 0;
+  const total = subtotal - discount + tax + cardFee;
+  const deposit = input.depositPercentage ? clamp(Math.round((total * input.depositPercentage) / 100), 0, total) : 0;
+
+  const refundedByPayment = new Map<string, number>();
+  (input.refunds || []).forEach(refund => {
+    refundedByPayment.set(refund.payment_id, (refundedByPayment.get(refund.payment_id) || 0) + refund.amount);
+  });
+
+  let paid = 0;
+  let depositPaid = 0;
+  let refunded = 0;
+  (input.payments || [])
+    .filter(payment => PAID_STATUSES.includes(payment.status))
+    .forEach(payment => {
+      const paymentRefunded = payment.id ? Math.min(refundedByPayment.get(payment.id) || 0, payment.amount) : 0;
+      const net = payment.amount - paymentRefunded;
+      refunded += paymentRefunded;
+      paid += net;
+      if (payment.payment_type === 'deposit') depositPaid += net;
+    });
+
+  const credited = clamp(input.credited || 0, 0, total);
+
+  return {
+    subtotal,
+    discount,
+    taxableAmount,
+    tax,
+    cardFee,
+    total,
+    deposit,
+    depositPaid,
+    paid,
+    refunded,
+    credited,
+    balanceDue: Math.max(total - credited - paid, 0),
+  };
+}
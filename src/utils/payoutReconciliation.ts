@@ -0,0 +1,284 @@
+import Papa from 'papaparse';
+import type {
+  ReconciliationBooking,
+  ReconciliationPayment,
+  ReconciliationInvoice,
+  ReconciliationRefund,
+} from '../repositories/payoutReconciliation';
+import { isDepositPaidStatus, isFinalPaymentDueStatus } from './bookingStatus';
+
+export type ReconciliationIssue =
+  | 'overpaid'
+  | 'underpaid'
+  | 'missing_final_payment'
+  | 'share_mismatch'
+  | 'balance_mismatch';
+
+export const reconciliationIssueLabels: Record<ReconciliationIssue, string> = {
+  overpaid: 'Overpaid',
+  underpaid: 'Underpaid',
+  missing_final_payment: 'Missing final payment',
+  share_mismatch: 'Share totals',
+  balance_mismatch: 'Balance mismatch',
+};
+
+export interface ReconciliationFinding {
+  issue: ReconciliationIssue;
+  message: string;
+}
+
+export interface ReconciliationRow {
+  bookingId: string;
+  coupleName: string;
+  vendorName: string;
+  status: string;
+  amount: number;
+  expected: {
+    vendorDeposit: number;
+    platformDeposit: number;
+    vendorFinal: number;
+    platformFinal: number;
+    deposit: number;
+    final: number;
+    // What should have been collected by now given the booking's status
+    collected: number;
+  };
+  // Net of refunds; refunded is shown separately for reference
+  received: {
+    deposit: number;
+    final: number;
+    other: number;
+    refunded: number;
+    total: number;
+    toPlatform: number;
+    toVendor: number;
+  };
+  paidAmount: number | null;
+  invoiceIds: string[];
+  invoiceRemaining: number | null;
+  expectedRemaining: number | null;
+  findings: ReconciliationFinding[];
+  // Changes whenever any figure the review was based on changes
+  fingerprint: string;
+}
+
+const SUCCEEDED_STATUSES = ['succeeded', 'paid'];
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+type NetPayment = ReconciliationPayment & { refunded: number };
+
+// Refunds are taken off the payment they reverse, so a partly refunded deposit
+// still counts as a deposit for what is left of it
+function netOfRefunds(payments: ReconciliationPayment[], refunds: ReconciliationRefund[]): NetPayment[] {
+  const refunded = new Map<string, number>();
+  refunds.forEach(refund => refunded.set(refund.payment_id, (refunded.get(refund.payment_id) || 0) + refund.amount));
+  return payments.map(payment => {
+    const amount = refunded.get(payment.id) || 0;
+    return { ...payment, amount: payment.amount - amount, refunded: amount };
+  });
+}
+
+// Payments recorded against an invoice rather than a booking belong to the
+// booking only when the invoice covers exactly one booking.
+function paymentsByBooking(payments: NetPayment[], invoices: ReconciliationInvoice[]) {
+  const soleBooking = new Map<string, string>();
+  invoices.forEach(invoice => {
+    if (invoice.bookingIds.length === 1) soleBooking.set(invoice.id, invoice.bookingIds[0]);
+  });
+
+  const byBooking = new Map<string, NetPayment[]>();
+  payments.forEach(payment => {
+    const bookingId = payment.booking_id || (payment.invoice_id ? soleBooking.get(payment.invoice_id) : undefined);
+    if (!bookingId) return;
+    byBooking.set(bookingId, [...(byBooking.get(bookingId) || []), payment]);
+  });
+  return byBooking;
+}
+
+function sumReceived(payments: NetPayment[]) {
+  const received = { deposit: 0, final: 0, other: 0, refunded: 0, total: 0, toPlatform: 0, toVendor: 0 };
+  payments
+    .filter(payment => SUCCEEDED_STATUSES.includes(payment.status))
+    .forEach(payment => {
+      const type = payment.payment_type || '';
+      received.refunded += payment.refunded;
+      if (type === 'deposit') received.deposit += payment.amount;
+      else if (type === 'final' || type === 'final_payment') received.final += payment.amount;
+      else received.other += payment.amount;
+      received.total += payment.amount;
+      if (payment.to_platform) received.toPlatform += payment.amount;
+      else received.toVendor += payment.amount;
+    });
+  return received;
+}
+
+// Remaining balance each invoice should show given every succeeded payment made
+// against it or against one of its bookings
+function expectedInvoiceBalances(payments: NetPayment[], invoices: ReconciliationInvoice[]) {
+  const balances = new Map<string, number>();
+  invoices.forEach(invoice => {
+    const paid = payments
+      .filter(payment => SUCCEEDED_STATUSES.includes(payment.status))
+      .filter(payment =>
+        payment.invoice_id === invoice.id ||
+        (!payment.invoice_id && !!payment.booking_id && invoice.bookingIds.includes(payment.booking_id))
+      )
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    balances.set(invoice.id, invoice.total_amount - paid);
+  });
+  return balances;
+}
+
+export function reconcileBookings(
+  bookings: ReconciliationBooking[],
+  payments: ReconciliationPayment[],
+  invoices: ReconciliationInvoice[],
+  refunds: ReconciliationRefund[],
+): ReconciliationRow[] {
+  const netPayments = netOfRefunds(payments, refunds);
+  const bookingPayments = paymentsByBooking(netPayments, invoices);
+  const invoiceBalances = expectedInvoiceBalances(netPayments, invoices);
+
+  return bookings.map(booking => {
+    const shares = [
+      booking.vendor_deposit_share,
+      booking.platform_deposit_share,
+      booking.vendor_final_share,
+      booking.platform_final_share,
+    ];
+    const hasShares = shares.some(share => share !== null);
+    const [vendorDeposit, platformDeposit, vendorFinal, platformFinal] = shares.map(share => share || 0);
+
+    const deposit = hasShares ? vendorDeposit + platformDeposit : booking.initial_payment || 0;
+    const final = hasShares ? vendorFinal + platformFinal : booking.final_payment ?? booking.amount - deposit;
+    const finalDue = booking.final_payment_status === 'paid' || isFinalPaymentDueStatus(booking.status);
+    const depositDue = isDepositPaidStatus(booking.status);
+    const collected = finalDue ? booking.amount : depositDue ? deposit : 0;
+
+    const received = sumReceived(bookingPayments.get(booking.id) || []);
+    const findings: ReconciliationFinding[] = [];
+
+    if (hasShares && deposit + final !== booking.amount) {
+      findings.push({
+        issue: 'share_mismatch',
+        message: `Shares total ${dollars(deposit + final)} but the booking amount is ${dollars(booking.amount)}`,
+      });
+    }
+    if (hasShares && booking.initial_payment !== null && booking.initial_payment !== deposit) {
+      findings.push({
+        issue: 'share_mismatch',
+        message: `Deposit shares total ${dollars(deposit)} but the initial payment is ${dollars(booking.initial_payment)}`,
+      });
+    }
+
+    if (received.total > booking.amount) {
+      findings.push({
+        issue: 'overpaid',
+        message: `${dollars(received.total)} received against a ${dollars(booking.amount)} booking`,
+      });
+    }
+
+    const missingFinal = finalDue && final > 0 && received.final === 0 && received.total < booking.amount;
+    if (missingFinal) {
+      findings.push({
+        issue: 'missing_final_payment',
+        message: `Final payment of ${dollars(final)} is due but no final payment is recorded`,
+      });
+    } else if (received.total < collected) {
+      findings.push({
+        issue: 'underpaid',
+        message: `${dollars(received.total)} received, ${dollars(collected)} expected by now`,
+      });
+    }
+
+    if (booking.paid_amount !== null && booking.paid_amount !== received.total) {
+      findings.push({
+        issue: 'balance_mismatch',
+        message: `Booking shows ${dollars(booking.paid_amount)} paid but payments total ${dollars(received.total)}`,
+      });
+    }
+
+    const bookingInvoices = invoices.filter(invoice => invoice.bookingIds.includes(booking.id));
+    const invoiceRemaining = bookingInvoices.length > 0
+      ? bookingInvoices.reduce((sum, invoice) => sum + invoice.remaining_balance, 0)
+      : null;
+    const expectedRemaining = bookingInvoices.length > 0
+      ? bookingInvoices.reduce((sum, invoice) => sum + (invoiceBalances.get(invoice.id) ?? 0), 0)
+      : null;
+    if (invoiceRemaining !== null && invoiceRemaining !== expectedRemaining) {
+      findings.push({
+        issue: 'balance_mismatch',
+        message: `Invoice balance is ${dollars(invoiceRemaining)} but payments leave ${dollars(expectedRemaining ?? 0)}`,
+      });
+    }
+
+    const fingerprint = [
+      booking.amount,
+      ...shares,
+      booking.initial_payment,
+      booking.paid_amount,
+      booking.status,
+      booking.final_payment_status,
+      received.total,
+      received.final,
+      invoiceRemaining,
+      findings.map(finding => finding.issue).join('+'),
+    ].join('|');
+
+    return {
+      bookingId: booking.id,
+      coupleName: booking.couples?.name || 'Unknown couple',
+      vendorName: booking.vendors?.name || 'Unknown vendor',
+      status: booking.status,
+      amount: booking.amount,
+      expected: { vendorDeposit, platformDeposit, vendorFinal, platformFinal, deposit, final, collected },
+      received,
+      paidAmount: booking.paid_amount,
+      invoiceIds: bookingInvoices.map(invoice => invoice.id),
+      invoiceRemaining,
+      expectedRemaining,
+      findings,
+      fingerprint,
+    };
+  });
+}
+
+export function downloadReconciliationCsv(rows: ReconciliationRow[], isReviewed: (row: ReconciliationRow) => boolean) {
+  const toDollars = (cents: number | null) => (cents === null ? '' : (cents / 100).toFixed(2));
+  const csv = Papa.unparse(rows.map(row => ({
+    booking_id: row.bookingId,
+    couple: row.coupleName,
+    vendor: row.vendorName,
+    status: row.status,
+    amount: toDollars(row.amount),
+    expected_vendor_deposit: toDollars(row.expected.vendorDeposit),
+    expected_platform_deposit: toDollars(row.expected.platformDeposit),
+    expected_vendor_final: toDollars(row.expected.vendorFinal),
+    expected_platform_final: toDollars(row.expected.platformFinal),
+    expected_collected: toDollars(row.expected.collected),
+    received_deposit: toDollars(row.received.deposit),
+    received_final: toDollars(row.received.final),
+    received_other: toDollars(row.received.other),
+    refunded: toDollars(row.received.refunded),
+    received_total: toDollars(row.received.total),
+    received_by_platform: toDollars(row.received.toPlatform),
+    received_by_vendor: toDollars(row.received.toVendor),
+    booking_paid_amount: toDollars(row.paidAmount),
+    invoice_ids: row.invoiceIds.join(' '),
+    invoice_remaining_balance: toDollars(row.invoiceRemaining),
+    expected_remaining_balance: toDollars(row.expectedRemaining),
+    issues: row.findings.map(finding => reconciliationIssueLabels[finding.issue]).join('; '),
+    details: row.findings.map(finding => finding.message).join('; '),
+    reviewed: isReviewed(row) ? 'yes' : 'no',
+  })));
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', `payout_reconciliation_${new Date().toISOString().slice(0, 10)}.csv`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,44 @@
+import type { Tables } from '../types/database';
+
+type RefundedPayment = Pick<Tables<'payments'>, 'amount' | 'payment_type' | 'to_platform'>;
+type ShareColumns = Pick<
+  Tables<'bookings'>,
+  'vendor_deposit_share' | 'platform_deposit_share' | 'vendor_final_share' | 'platform_final_share'
+>;
+
+export interface RefundSplit {
+  vendorAmount: number;
+  platformAmount: number;
+}
+
+// Same split record_refund applies (see the create_refunds migration), used to
+// preview it before the refund is sent: the refund is divided between vendor
+// and platform in proportion to the shares the payment was collected under.
+export function splitRefund(amount: number, payment: RefundedPayment, booking: ShareColumns | null): RefundSplit {
+  let vendorPart = 0;
+  let platformPart = 0;
+  if (booking) {
+    if (payment.payment_type === 'deposit') {
+      vendorPart = booking.vendor_deposit_share || 0;
+      platformPart = booking.platform_deposit_share || 0;
+    } else if (payment.payment_type === 'final' || payment.payment_type === 'final_payment') {
+      vendorPart = booking.vendor_final_share || 0;
+      platformPart = booking.platform_final_share || 0;
+    } else {
+      vendorPart = (booking.vendor_deposit_share || 0) + (booking.vendor_final_share || 0);
+      platformPart = (booking.platform_deposit_share || 0) + (booking.platform_final_share || 0);
+    }
+  }
+
+  const platformAmount = vendorPart + platformPart === 0
+    ? (payment.to_platform ? amount : 0)
+    : Math.round((amount * platformPart) / (vendorPart + platformPart));
+  return { vendorAmount: amount - platformAmount, platformAmount };
+}
+
+export function refundableAmount(payment: Pick<Tables<'payments'>, 'amount'>, refunds: Pick<Tables<'refunds'>, 'amount' | 'status'>[]): number {
+  const refunded = refunds
+    .filter(refund => refund.status !== 'failed')
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  return Math.max(payment.amount - refunded, 0);
+}
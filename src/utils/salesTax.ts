@@ -0,0 +1,84 @@
+import Papa from 'papaparse';
+import type { TaxedInvoice, TaxReportPayment, TaxReportRefund } from '../repositories/salesTax';
+
+export interface TaxReportRow {
+  // yyyy-MM
+  month: string;
+  state: string;
+  invoiceIds: string[];
+  // Payments received on taxed invoices, tax included
+  collected: number;
+  tax: number;
+  // Tax handed back through refunds made that month
+  refundedTax: number;
+  netTax: number;
+}
+
+// Tax is collected as invoices are paid: each payment (and each refund) carries
+// the invoice's tax in proportion to its share of the invoice total.
+const taxShare = (amount: number, invoice: TaxedInvoice) =>
+  invoice.total_amount > 0 ? Math.round((amount * invoice.tax_amount) / invoice.total_amount) : 0;
+
+export function monthlyTaxCollected(
+  invoices: TaxedInvoice[],
+  payments: TaxReportPayment[],
+  refunds: TaxReportRefund[],
+): TaxReportRow[] {
+  const invoicesById = new Map(invoices.map(invoice => [invoice.id, invoice]));
+  const rows = new Map<string, TaxReportRow>();
+
+  const rowFor = (createdAt: string, invoice: TaxedInvoice) => {
+    const month = createdAt.slice(0, 7);
+    const state = invoice.tax_state || 'Unknown';
+    const key = `${month}|${state}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = { month, state, invoiceIds: [], collected: 0, tax: 0, refundedTax: 0, netTax: 0 };
+      rows.set(key, row);
+    }
+    if (!row.invoiceIds.includes(invoice.id)) row.invoiceIds.push(invoice.id);
+    return row;
+  };
+
+  payments.forEach(payment => {
+    const invoice = payment.invoice_id ? invoicesById.get(payment.invoice_id) : undefined;
+    if (!invoice) return;
+    const row = rowFor(payment.created_at, invoice);
+    row.collected += payment.amount;
+    row.tax += taxShare(payment.amount, invoice);
+  });
+
+  refunds.forEach(refund => {
+    const invoice = refund.invoice_id ? invoicesById.get(refund.invoice_id) : undefined;
+    if (!invoice) return;
+    const row = rowFor(refund.created_at, invoice);
+    row.collected -= refund.amount;
+    row.refundedTax += taxShare(refund.amount, invoice);
+  });
+
+  return [...rows.values()]
+    .map(row => ({ ...row, netTax: row.tax - row.refundedTax }))
+    .sort((a, b) => b.month.localeCompare(a.month) || a.state.localeCompare(b.state));
+}
+
+export function downloadTaxReportCsv(rows: TaxReportRow[]) {
+  const toDollars = (cents: number) => (cents / 100).toFixed(2);
+  const csv = Papa.unparse(rows.map(row => ({
+    month: row.month,
+    state: row.state,
+    invoices: row.invoiceIds.length,
+    collected: toDollars(row.collected),
+    tax_collected: toDollars(row.tax),
+    tax_refunded: toDollars(row.refundedTax),
+    net_tax: toDollars(row.netTax),
+  })));
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', `sales_tax_${new Date().toISOString().slice(0, 10)}.csv`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
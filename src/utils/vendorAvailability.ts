@@ -0,0 +1,100 @@
+import { format, parseISO } from 'date-fns';
+import type { Tables } from '../types/database';
+
+export type VendorBlackout = Tables<'vendor_blackouts'>;
+
+export const DEFAULT_TRAVEL_BUFFER_MINUTES = 60;
+
+// An event on the vendor's calendar, with the venue of the booking it belongs
+// to when there is one
+export interface ScheduledEvent {
+  id: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+  venue_id: string | null;
+  is_blocked_time: boolean;
+}
+
+export interface VendorSchedule {
+  events: ScheduledEvent[];
+  blackouts: VendorBlackout[];
+  travelBufferMinutes: number;
+}
+
+export interface ScheduleSlot {
+  start_time: string;
+  end_time: string;
+  venue_id: string | null;
+}
+
+export type ConflictKind = 'blackout' | 'overlap' | 'travel';
+
+export interface ScheduleConflict {
+  kind: ConflictKind;
+  // Blackouts and overlaps stop the booking; travel conflicts only warn
+  blocking: boolean;
+  message: string;
+}
+
+const overlaps = (startA: number, endA: number, startB: number, endB: number) => startA < endB && startB < endA;
+const describeTime = (iso: string) => format(parseISO(iso), 'MMM d, yyyy h:mm a');
+
+// Same checks as vendor_schedule_conflict (see the create_vendor_availability
+// migration), plus the travel warnings: events at another venue, or at an
+// unknown one, that end or start within the vendor's travel buffer.
+export function findScheduleConflicts(
+  slot: ScheduleSlot,
+  schedule: VendorSchedule,
+  ignoreEventId: string | null = null,
+): ScheduleConflict[] {
+  const start = Date.parse(slot.start_time);
+  const end = Date.parse(slot.end_time);
+  if (!(end > start)) return [{ kind: 'overlap', blocking: true, message: 'The event must end after it starts' }];
+
+  const conflicts: ScheduleConflict[] = [];
+  schedule.blackouts
+    .filter(blackout => overlaps(start, end, Date.parse(blackout.starts_at), Date.parse(blackout.ends_at)))
+    .forEach(blackout => conflicts.push({
+      kind: 'blackout',
+      blocking: true,
+      message: `Blacked out ${describeTime(blackout.starts_at)} to ${describeTime(blackout.ends_at)}${blackout.reason ? ` (${blackout.reason})` : ''}`,
+    }));
+
+  const buffer = schedule.travelBufferMinutes * 60 * 1000;
+  schedule.events
+    .filter(event => event.is_blocked_time && event.id !== ignoreEventId)
+    .sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time))
+    .forEach(event => {
+      const eventStart = Date.parse(event.start_time);
+      const eventEnd = Date.parse(event.end_time);
+      if (overlaps(start, end, eventStart, eventEnd)) {
+        conflicts.push({
+          kind: 'overlap',
+          blocking: true,
+          message: `Already booked: ${event.title} runs ${describeTime(event.start_time)} to ${describeTime(event.end_time)}`,
+        });
+        return;
+      }
+      const sameVenue = slot.venue_id !== null && slot.venue_id === event.venue_id;
+      if (!sameVenue && buffer > 0 && overlaps(start - buffer, end + buffer, eventStart, eventEnd)) {
+        const gap = Math.round((start >= eventEnd ? start - eventEnd : eventStart - end) / 60000);
+        conflicts.push({
+          kind: 'travel',
+          blocking: false,
+          message: `Only ${gap} minutes ${start >= eventEnd ? 'after' : 'before'} ${event.title} at ${event.venue_id ? 'another venue' : 'an unknown venue'}; the vendor needs ${schedule.travelBufferMinutes} to travel`,
+        });
+      }
+    });
+
+  return conflicts;
+}
+
+export const isBlocked = (conflicts: ScheduleConflict[]) => conflicts.some(conflict => conflict.blocking);
+
+// Adds a slot to a schedule as if it were booked, so the rows of an import are
+// also checked against each other
+export const withEvent = (schedule: VendorSchedule, event: ScheduledEvent): VendorSchedule => ({
+  ...schedule,
+  events: [...schedule.events, event],
+});
@@ -0,0 +1,281 @@
+import { jsPDF } from 'jspdf';
+import JSZip from 'jszip';
+import { format, parseISO } from 'date-fns';
+import type { VendorOption } from '../repositories/vendors';
+import type { StatementBooking, StatementRefund } from '../repositories/vendorStatements';
+import type { BookingDispute } from '../repositories/disputes';
+import { holdsVendorShare } from './disputes';
+import { isFinalPaymentDueStatus } from './bookingStatus';
+
+// Inclusive yyyy-MM-dd bounds, matched against the event date
+export interface StatementPeriod {
+  start: string;
+  end: string;
+}
+
+export interface StatementLine {
+  bookingId: string;
+  date: string;
+  coupleName: string;
+  serviceType: string;
+  status: string;
+  // Vendor's share of the deposit and final payment collected so far
+  deposit: number;
+  final: number;
+  tip: number;
+  platformFee: number;
+  // Vendor's share of refunds taken back from the booking
+  refunded: number;
+  // What the booking would pay the vendor, held back while it is disputed
+  held: number;
+  net: number;
+}
+
+export interface StatementTotals {
+  deposit: number;
+  final: number;
+  tip: number;
+  platformFee: number;
+  refunded: number;
+  held: number;
+  net: number;
+}
+
+export interface VendorStatement {
+  vendor: VendorOption;
+  period: StatementPeriod;
+  lines: StatementLine[];
+  totals: StatementTotals;
+}
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// Bookings without an event fall back to when they were booked
+const statementDate = (booking: StatementBooking) => booking.events?.start_time || booking.created_at;
+
+function statementLine(booking: StatementBooking, refunded: number, disputed: boolean): StatementLine {
+  const hasShares = [
+    booking.vendor_deposit_share,
+    booking.platform_deposit_share,
+    booking.vendor_final_share,
+    booking.platform_final_share,
+  ].some(share => share !== null);
+  const finalPaid = booking.final_payment_status === 'paid' || isFinalPaymentDueStatus(booking.status);
+
+  // Without shares only the booking totals are known, and they are earned once the final payment is in
+  const deposit = hasShares ? booking.vendor_deposit_share || 0 : 0;
+  const final = !finalPaid
+    ? 0
+    : hasShares
+      ? booking.vendor_final_share || 0
+      : booking.vendor_total_earnings ?? booking.amount - (booking.platform_fee || 0);
+  const platformFee = hasShares
+    ? (booking.platform_deposit_share || 0) + (finalPaid ? booking.platform_final_share || 0 : 0)
+    : finalPaid ? booking.platform_fee || 0 : 0;
+  const tip = booking.tip_amount || 0;
+  const held = disputed ? Math.max(deposit + final + tip - refunded, 0) : 0;
+
+  return {
+    bookingId: booking.id,
+    date: statementDate(booking),
+    coupleName: booking.couples?.name || 'Unknown couple',
+    serviceType: booking.service_type,
+    status: booking.status,
+    deposit,
+    final,
+    tip,
+    platformFee,
+    refunded,
+    held,
+    net: deposit + final + tip - refunded - held,
+  };
+}
+
+function sumLines(lines: StatementLine[]): StatementTotals {
+  return lines.reduce(
+    (totals, line) => ({
+      deposit: totals.deposit + line.deposit,
+      final: totals.final + line.final,
+      tip: totals.tip + line.tip,
+      platformFee: totals.platformFee + line.platformFee,
+      refunded: totals.refunded + line.refunded,
+      held: totals.held + line.held,
+      net: totals.net + line.net,
+    }),
+    { deposit: 0, final: 0, tip: 0, platformFee: 0, refunded: 0, held: 0, net: 0 },
+  );
+}
+
+// One statement per vendor with at least one booking whose event falls in the period
+export function buildVendorStatements(
+  vendors: VendorOption[],
+  bookings: StatementBooking[],
+  refunds: StatementRefund[],
+  disputes: BookingDispute[],
+  period: StatementPeriod,
+): VendorStatement[] {
+  const refundedByBooking = new Map<string, number>();
+  refunds.forEach(refund => {
+    if (!refund.booking_id) return;
+    refundedByBooking.set(refund.booking_id, (refundedByBooking.get(refund.booking_id) || 0) + refund.vendor_amount);
+  });
+  const disputedBookings = new Set(
+    disputes.filter(dispute => dispute.booking_id && holdsVendorShare(dispute.status)).map(dispute => dispute.booking_id),
+  );
+
+  const inPeriod = bookings.filter(booking => {
+    const day = statementDate(booking).slice(0, 10);
+    return day >= period.start && day <= period.end;
+  });
+
+  return vendors.flatMap(vendor => {
+    const lines = inPeriod
+      .filter(booking => booking.vendor_id === vendor.id)
+      .map(booking => statementLine(booking, refundedByBooking.get(booking.id) || 0, disputedBookings.has(booking.id)))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    return lines.length > 0 ? [{ vendor, period, lines, totals: sumLines(lines) }] : [];
+  });
+}
+
+export function statementFileName(statement: VendorStatement) {
+  const slug = statement.vendor.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'vendor';
+  return `payout_statement_${slug}_${statement.vendor.id.slice(0, 8)}_${statement.period.start}_${statement.period.end}.pdf`;
+}
+
+const COLUMNS = [
+  { label: 'Event Date', x: 10, align: 'left' },
+  { label: 'Couple', x: 34, align: 'left' },
+  { label: 'Service', x: 74, align: 'left' },
+  { label: 'Deposit', x: 118, align: 'right' },
+  { label: 'Final', x: 136, align: 'right' },
+  { label: 'Tip', x: 152, align: 'right' },
+  { label: 'Fees', x: 168, align: 'right' },
+  { label: 'Refunds', x: 184, align: 'right' },
+  { label: 'Net', x: 200, align: 'right' },
+] as const;
+
+function renderStatementPdf(statement: VendorStatement) {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pdfWidth = pdf.internal.pageSize.getWidth();
+  const pdfHeight = pdf.internal.pageSize.getHeight();
+  const margin = 10;
+  const periodLabel = `${format(parseISO(statement.period.start), 'MMM d, yyyy')} to ${format(parseISO(statement.period.end), 'MMM d, yyyy')}`;
+
+  const writeRow = (cells: string[], position: number) => {
+    COLUMNS.forEach((column, index) => {
+      pdf.text(cells[index], column.x, position, { align: column.align });
+    });
+  };
+
+  const writeHeader = (position: number) => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(9);
+    writeRow(COLUMNS.map(column => column.label), position);
+    pdf.line(margin, position + 2, pdfWidth - margin, position + 2);
+    pdf.setFont('helvetica', 'normal');
+    return position + 7;
+  };
+
+  let position = margin + 10;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(18);
+  pdf.text('Vendor Payout Statement', pdfWidth / 2, position, { align: 'center' });
+  position += 10;
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(12);
+  pdf.text(statement.vendor.name, pdfWidth / 2, position, { align: 'center' });
+  position += 6;
+  pdf.setFontSize(10);
+  pdf.text(`Period: ${periodLabel}`, pdfWidth / 2, position, { align: 'center' });
+  position += 5;
+  pdf.text(`Generated ${format(new Date(), 'MMM d, yyyy')}`, pdfWidth / 2, position, { align: 'center' });
+  position += 12;
+
+  position = writeHeader(position);
+  statement.lines.forEach(line => {
+    if (position > pdfHeight - 20) {
+      pdf.addPage();
+      position = writeHeader(margin + 10);
+    }
+    writeRow([
+      format(parseISO(line.date), 'MM/dd/yyyy'),
+      pdf.splitTextToSize(line.coupleName, 38)[0],
+      pdf.splitTextToSize(line.serviceType, 28)[0],
+      dollars(line.deposit),
+      dollars(line.final),
+      dollars(line.tip),
+      dollars(line.platformFee),
+      line.refunded > 0 ? `-${dollars(line.refunded)}` : dollars(0),
+      line.held > 0 ? 'Held' : dollars(line.net),
+    ], position);
+    position += 6;
+  });
+
+  if (position > pdfHeight - 50) {
+    pdf.addPage();
+    position = margin + 10;
+  }
+  pdf.line(margin, position - 3, pdfWidth - margin, position - 3);
+  pdf.setFont('helvetica', 'bold');
+  writeRow([
+    'Total',
+    `${statement.lines.length} booking${statement.lines.length === 1 ? '' : 's'}`,
+    '',
+    dollars(statement.totals.deposit),
+    dollars(statement.totals.final),
+    dollars(statement.totals.tip),
+    dollars(statement.totals.platformFee),
+    statement.totals.refunded > 0 ? `-${dollars(statement.totals.refunded)}` : dollars(0),
+    dollars(statement.totals.net),
+  ], position);
+  position += 14;
+
+  // Summary block: what the vendor earned, what the platform kept and what is paid out
+  pdf.setFontSize(11);
+  const summary: [string, number][] = [
+    ['Vendor earnings (deposit + final)', statement.totals.deposit + statement.totals.final],
+    ['Tips', statement.totals.tip],
+    ['Refunds', -statement.totals.refunded],
+    ...(statement.totals.held > 0 ? [['Held for disputes', -statement.totals.held] as [string, number]] : []),
+    ['Net payout', statement.totals.net],
+  ];
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(`Platform fees withheld: ${dollars(statement.totals.platformFee)}`, margin, position);
+  position += 8;
+  summary.forEach(([label, cents], index) => {
+    if (index === summary.length - 1) pdf.setFont('helvetica', 'bold');
+    pdf.text(label, margin, position);
+    pdf.text(cents < 0 ? `-${dollars(-cents)}` : dollars(cents), pdfWidth - margin, position, { align: 'right' });
+    position += 6;
+  });
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.text(
+    'Deposit and final columns show the vendor share collected so far. Fees are the platform share of the same payments.',
+    margin,
+    pdfHeight - margin,
+  );
+  return pdf;
+}
+
+export function downloadStatementPdf(statement: VendorStatement) {
+  renderStatementPdf(statement).save(statementFileName(statement));
+}
+
+export async function downloadStatementsZip(statements: VendorStatement[], period: StatementPeriod) {
+  const zip = new JSZip();
+  statements.forEach(statement => {
+    zip.file(statementFileName(statement), renderStatementPdf(statement).output('blob'));
+  });
+  const content = await zip.generateAsync({ type: 'blob' });
+  const url = URL.createObjectURL(content);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', `payout_statements_${period.start}_${period.end}.zip`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
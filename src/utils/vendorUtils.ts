@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
+import { deleteVendor } from '../repositories/vendors';
 
 export async function handleImageUpload(
   e: React.ChangeEvent<HTMLInputElement>,
@@ -29,11 +30,7 @@ export async function handleImageUpload(
 export async function handleDeleteVendor(vendorId: string, navigate: (path: string) => void) {
   if (!window.confirm('Are you sure you want to delete this vendor and all associated data?')) return;
   try {
-    const { error } = await supabase
-      .from('vendors')
-      .delete()
-      .eq('id', vendorId);
-    if (error) throw error;
+    await deleteVendor(vendorId);
     toast.success('Vendor deleted successfully');
     navigate('/dashboard/vendors');
   } catch (error: any) {
@@ -0,0 +1,33 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+// Permissions regular admins only hold when granted them; the same list as
+// RESTRICTED_PERMISSIONS in src/lib/permissions.ts
+const RESTRICTED_PERMISSIONS = ['vendors.delete', 'payments.write', 'emails.broadcast', 'blog.publish'];
+
+// The id of the admin whose session token the request carries, when they hold
+// the permission (resolved like resolvePermissions in src/lib/permissions.ts);
+// null for anyone else
+export async function authorizedAdminId(req: Request, permission: string): Promise<string | null> {
+  const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data: caller } = await supabase.auth.getUser(token);
+  if (!caller.user) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role, admin_level, permissions')
+    .eq('id', caller.user.id)
+    .single();
+  if (profile?.role !== 'admin') return null;
+  if (profile.admin_level === 'super_admin') return caller.user.id;
+
+  const granted = (profile.permissions ?? {})[permission];
+  const allowed = typeof granted === 'boolean' ? granted : !RESTRICTED_PERMISSIONS.includes(permission);
+  return allowed ? caller.user.id : null;
+}
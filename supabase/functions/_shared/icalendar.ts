@@ -0,0 +1,226 @@
+// iCalendar (RFC 5545) feeds of vendor and couple calendars. The ical-feed
+// function serves them; the dashboard re-exports this module from
+// src/utils/icalendar.ts, and the mock backend builds its stand-in feed with it.
+// Plain TypeScript without imports, so Deno and Vite both load it.
+
+// Venues without a time zone are taken to be on the east coast, like the
+// times in booking emails
+export const DEFAULT_TIME_ZONE = 'America/New_York';
+
+// Events that ended more than a year ago are left out of the feed
+export const FEED_HISTORY_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Fixed so a calendar app recognises the same event on every refresh
+const UID_DOMAIN = 'bremembered.io';
+
+// The columns of venues, events and timeline_events the feeds use
+export interface FeedVenue {
+  name: string;
+  street_address: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  time_zone: string | null;
+}
+
+export interface FeedEvent {
+  id: string;
+  title: string | null;
+  type: string;
+  description: string | null;
+  location: string | null;
+  start_time: string;
+  end_time: string;
+  is_blocked_time: boolean;
+  updated_at: string;
+  // Status and venue of the booking the event belongs to, when there is one
+  booking_status: string | null;
+  venue: FeedVenue | null;
+}
+
+export interface FeedTimelineEvent {
+  id: string;
+  title: string;
+  description: string | null;
+  event_date: string;
+  event_time: string | null;
+  duration_minutes: number | null;
+  location: string | null;
+  updated_at: string | null;
+  created_at: string;
+}
+
+// A point in time, or a whole day for timeline items without a time
+type IcsTime = { dateTime: string } | { date: string };
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  start: IcsTime;
+  end: IcsTime | null;
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  transparent: boolean;
+  lastModified: string | null;
+}
+
+export const venueLocation = (venue: FeedVenue) =>
+  [venue.name, venue.street_address, venue.city, [venue.state, venue.zip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+
+const bookingEventStatus = (status: string | null): IcsEvent['status'] => {
+  if (status === 'cancelled' || status === 'refunded') return 'CANCELLED';
+  if (status === 'inquiry' || status === 'pending_deposit') return 'TENTATIVE';
+  return 'CONFIRMED';
+};
+
+// Minutes the zone is ahead of UTC at the given instant
+function zoneOffsetMinutes(instant: number, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(new Date(instant))
+      .map(part => [part.type, part.value])
+  );
+  const wall = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return (wall - instant) / 60000;
+}
+
+// The instant a wall-clock date and time in the given zone refers to. The
+// offset is looked up twice so times next to a daylight-saving change land on
+// the right side of it.
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute, second = 0] = time.split(':').map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  const guess = wall - zoneOffsetMinutes(wall, timeZone) * 60000;
+  return new Date(wall - zoneOffsetMinutes(guess, timeZone) * 60000).toISOString();
+}
+
+export function bookingFeedEvents(events: FeedEvent[]): IcsEvent[] {
+  return events.map(event => ({
+    uid: `event-${event.id}@${UID_DOMAIN}`,
+    summary: event.title || event.type,
+    description: event.description,
+    location: event.venue ? venueLocation(event.venue) : event.location,
+    start: { dateTime: event.start_time },
+    end: { dateTime: event.end_time },
+    status: bookingEventStatus(event.booking_status),
+    transparent: !event.is_blocked_time,
+    lastModified: event.updated_at,
+  }));
+}
+
+// The couple's bookings and their wedding-day timeline. Timeline times are
+// wall-clock times at the couple's venue.
+export function coupleFeedEvents(
+  events: FeedEvent[],
+  timeline: FeedTimelineEvent[],
+  venue: FeedVenue | null,
+): IcsEvent[] {
+  const timeZone = venue?.time_zone || DEFAULT_TIME_ZONE;
+  const timelineEvents = timeline.map((item): IcsEvent => {
+    let start: IcsTime;
+    let end: IcsTime | null = null;
+    if (item.event_time) {
+      const startTime = zonedTimeToUtc(item.event_date, item.event_time, timeZone);
+      start = { dateTime: startTime };
+      if (item.duration_minutes) {
+        end = { dateTime: new Date(Date.parse(startTime) + item.duration_minutes * 60000).toISOString() };
+      }
+    } else {
+      start = { date: item.event_date };
+    }
+    return {
+      uid: `timeline-${item.id}@${UID_DOMAIN}`,
+      summary: item.title,
+      description: item.description,
+      location: item.location || (venue ? venueLocation(venue) : null),
+      start,
+      end,
+      status: 'CONFIRMED',
+      transparent: false,
+      lastModified: item.updated_at || item.created_at,
+    };
+  });
+  return [...bookingFeedEvents(events), ...timelineEvents];
+}
+
+const formatDateTime = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const formatDate = (date: string) => date.replace(/-/g, '');
+
+const nextDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+};
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines that start
+// with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (lines.length === 0 ? 75 : 74)) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+const timeProperty = (name: 'DTSTART' | 'DTEND', time: IcsTime) =>
+  'date' in time ? `${name};VALUE=DATE:${formatDate(time.date)}` : `${name}:${formatDateTime(time.dateTime)}`;
+
+// Times are written in UTC, which every calendar app converts to the viewer's
+// zone; X-WR-TIMEZONE tells apps that honour it which zone to show by default
+export function buildIcsCalendar(name: string, timeZone: string, events: IcsEvent[], now = new Date()): string {
+  const stamp = formatDateTime(now.toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//B. Remembered//Admin Dashboard//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+  ];
+  events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      timeProperty('DTSTART', event.start),
+    );
+    if (event.end) lines.push(timeProperty('DTEND', event.end));
+    else if ('date' in event.start) lines.push(timeProperty('DTEND', { date: nextDay(event.start.date) }));
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    lines.push(`STATUS:${event.status}`);
+    if (event.transparent) lines.push('TRANSP:TRANSPARENT');
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+    lines.push('END:VEVENT');
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
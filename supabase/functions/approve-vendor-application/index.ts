@@ -0,0 +1,224 @@
+import { serve } from 'https://deno.land/std@0.224.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Resend } from 'https://esm.sh/resend';
+import { authorizedAdminId } from '../_shared/adminAuth.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+const resend = new Resend(Deno.env.get('RESEND_API_KEY')!);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const VIDEO_EXTENSIONS = ['mp4', 'mov', 'webm', 'm4v', 'avi'];
+
+// Applications store either a public URL or a path in the vendor-applications
+// bucket, sometimes only the file name; resolve it the way the application
+// page does
+const applicationPath = (value: string, folder: string, applicationId: string) => {
+  const marker = '/vendor-applications/';
+  if (value.startsWith('https://') && value.includes(marker)) {
+    return decodeURIComponent(value.slice(value.indexOf(marker) + marker.length));
+  }
+  return value.includes(folder) ? value : `${folder}/${applicationId}/${value.split('/').pop() || value}`;
+};
+
+// Creates the vendor an approved application describes: the login, the vendor
+// row, its services, service areas and gear, and its photos copied into
+// vendor-media. The application is then marked approved and linked to the
+// vendor, and the vendor is emailed a link to set their password. Anything
+// already created is removed again if a step fails.
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const { application_id } = await req.json();
+  if (!application_id) {
+    return json({ error: 'application_id is required' }, 400);
+  }
+
+  // This runs with the service role, so check the caller may create vendors first
+  const adminId = await authorizedAdminId(req, 'vendors.write');
+  if (!adminId) {
+    return json({ error: 'Only admins who can create vendors can approve vendor applications' }, 403);
+  }
+
+  const { data: application, error: applicationError } = await supabase
+    .from('vendor_applications')
+    .select('*')
+    .eq('id', application_id)
+    .single();
+  if (applicationError || !application) {
+    return json({ error: 'Application not found' }, 404);
+  }
+  if (application.vendor_id) {
+    return json({ error: 'This application has already been turned into a vendor' }, 409);
+  }
+
+  // The status update at the end would fail on the quorum trigger anyway, but
+  // only after the login and vendor had been created and torn down again
+  const { data: quorumError } = await supabase.rpc('application_quorum_error', { p_application_id: application.id });
+  if (quorumError) {
+    return json({ error: quorumError }, 409);
+  }
+
+  const { data: created, error: userError } = await supabase.auth.admin.createUser({
+    email: application.email,
+    email_confirm: true,
+    user_metadata: { name: application.name, role: 'vendor' },
+  });
+  if (userError || !created.user) {
+    return json({ error: userError?.message || 'Failed to create the vendor login' }, 409);
+  }
+  const userId = created.user.id;
+  let vendorId: string | null = null;
+  const uploaded: string[] = [];
+
+  try {
+    const { error: usersError } = await supabase.from('users').upsert({ id: userId, email: application.email });
+    if (usersError) throw usersError;
+
+    const { data: areas, error: areasError } = application.service_locations.length > 0
+      ? await supabase.from('service_areas').select('id, state, region').in('id', application.service_locations)
+      : { data: [], error: null };
+    if (areasError) throw areasError;
+
+    const { data: vendor, error: vendorError } = await supabase
+      .from('vendors')
+      .insert({
+        user_id: userId,
+        auth_id: userId,
+        name: application.name,
+        phone: application.phone,
+        profile: application.description,
+        service_types: application.services_applying_for,
+        service_areas: (areas || []).map(area => (area.region ? `${area.state}, ${area.region}` : area.state)),
+        gear_list: application.gear.map((item: { gear_type: string; brand: string; model: string }) =>
+          `${item.gear_type}: ${item.brand} ${item.model}`),
+      })
+      .select('id')
+      .single();
+    if (vendorError) throw vendorError;
+    vendorId = vendor.id;
+
+    const now = new Date().toISOString();
+    const inserts = [
+      application.services_applying_for.length > 0 && supabase.from('vendor_services').insert(
+        application.services_applying_for.map((service_type: string) => ({
+          vendor_id: vendor.id,
+          service_type,
+          is_active: true,
+          package_status: 'pending',
+          created_at: now,
+          updated_at: now,
+        })),
+      ),
+      (areas || []).length > 0 && supabase.from('vendor_service_areas').insert(
+        areas!.map(area => ({ vendor_id: vendor.id, service_area_id: area.id, state: area.state, region: area.region })),
+      ),
+      application.gear.length > 0 && supabase.from('vendor_gear').insert(
+        application.gear.map((item: { gear_type: string; brand: string; model: string; year: string; condition: string }) => ({
+          vendor_id: vendor.id,
+          gear_type: item.gear_type,
+          brand: item.brand,
+          model: item.model,
+          year: parseInt(item.year, 10) || null,
+          condition: item.condition,
+          submitted_at: application.created_at,
+        })),
+      ),
+    ];
+    for (const insert of inserts) {
+      if (!insert) continue;
+      const { error } = await insert;
+      if (error) throw error;
+    }
+
+    // Copy the photos into vendor-media
+    const copy = async (value: string, folder: string, target: string) => {
+      const source = applicationPath(value, folder, application.id);
+      const { data: file, error: downloadError } = await supabase.storage.from('vendor-applications').download(source);
+      if (downloadError || !file) throw new Error(`Could not read ${source}: ${downloadError?.message ?? 'missing file'}`);
+      const path = `${vendor.id}/${target}/${source.split('/').pop()}`;
+      const { error: uploadError } = await supabase.storage.from('vendor-media').upload(path, file, { upsert: true, contentType: file.type });
+      if (uploadError) throw uploadError;
+      uploaded.push(path);
+      return supabase.storage.from('vendor-media').getPublicUrl(path).data.publicUrl;
+    };
+
+    const profilePhoto = application.profile_photo ? await copy(application.profile_photo, 'profile', 'profile') : null;
+    const photos: string[] = [];
+    const videos: string[] = [];
+    for (const sample of application.work_samples as string[]) {
+      const url = await copy(sample, 'work-samples', 'portfolio');
+      const extension = url.split('.').pop()?.toLowerCase() ?? '';
+      (VIDEO_EXTENSIONS.includes(extension) ? videos : photos).push(url);
+    }
+    const { error: mediaError } = await supabase
+      .from('vendors')
+      .update({ profile_photo: profilePhoto, portfolio_photos: photos, portfolio_videos: videos })
+      .eq('id', vendor.id);
+    if (mediaError) throw mediaError;
+
+    const { error: linkError } = await supabase
+      .from('vendor_applications')
+      .update({
+        status: 'approved',
+        vendor_id: vendor.id,
+        reviewed_at: now,
+        reviewed_by: adminId,
+        updated_at: now,
+      })
+      .eq('id', application.id);
+    if (linkError) throw linkError;
+  } catch (error) {
+    console.error('Vendor onboarding error:', error);
+    if (uploaded.length > 0) await supabase.storage.from('vendor-media').remove(uploaded);
+    if (vendorId) {
+      for (const table of ['vendor_gear', 'vendor_service_areas', 'vendor_services']) {
+        await supabase.from(table).delete().eq('vendor_id', vendorId);
+      }
+      await supabase.from('vendors').delete().eq('id', vendorId);
+    }
+    await supabase.from('users').delete().eq('id', userId);
+    await supabase.auth.admin.deleteUser(userId);
+    return json({ error: error instanceof Error ? error.message : 'Failed to create the vendor' }, 500);
+  }
+
+  // The vendor exists either way; a failed email can be resent with a password reset
+  let emailSent = true;
+  try {
+    const { data: link, error: linkError } = await supabase.auth.admin.generateLink({
+      type: 'recovery',
+      email: application.email,
+    });
+    if (linkError) throw linkError;
+    await resend.emails.send({
+      from: 'admin@yourdomain.com', // Replace with your verified Resend sender email
+      to: application.email,
+      subject: 'Your vendor application was approved',
+      html: `<p>Hi ${escapeHtml(application.name)},</p>
+        <p>Welcome aboard! Your vendor application has been approved and your account is ready.</p>
+        <p><a href="${link.properties.action_link}">Set your password</a> to log in and finish your profile.</p>`,
+    });
+  } catch (error) {
+    console.error('Vendor welcome email error:', error);
+    emailSent = false;
+  }
+
+  return json({ vendor_id: vendorId, email_sent: emailSent });
+});
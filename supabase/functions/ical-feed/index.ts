@@ -0,0 +1,124 @@
+import { serve } from 'https://deno.land/std@0.224.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  DEFAULT_TIME_ZONE,
+  FEED_HISTORY_MS,
+  FeedEvent,
+  FeedVenue,
+  IcsEvent,
+  bookingFeedEvents,
+  buildIcsCalendar,
+  coupleFeedEvents,
+} from '../_shared/icalendar.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// The vendor's or couple's events from the last year on, each with the status
+// and venue of its booking
+async function loadEvents(column: 'vendor_id' | 'couple_id', ownerId: string): Promise<FeedEvent[]> {
+  const { data: events, error } = await supabase
+    .from('events')
+    .select('id, title, type, description, location, start_time, end_time, is_blocked_time, updated_at')
+    .eq(column, ownerId)
+    .gt('end_time', new Date(Date.now() - FEED_HISTORY_MS).toISOString())
+    .order('start_time');
+  if (error) throw error;
+  if (!events || events.length === 0) return [];
+
+  const { data: bookings, error: bookingsError } = await supabase
+    .from('bookings')
+    .select('event_id, status, venues!bookings_venue_id_fkey (name, street_address, city, state, zip, time_zone)')
+    .in('event_id', events.map(event => event.id));
+  if (bookingsError) throw bookingsError;
+  const bookingByEvent = new Map((bookings || []).map(booking => [booking.event_id, booking]));
+
+  return events.map(event => {
+    const booking = bookingByEvent.get(event.id);
+    return {
+      ...event,
+      booking_status: booking?.status ?? null,
+      venue: (booking?.venues ?? null) as FeedVenue | null,
+    };
+  });
+}
+
+// Serves the iCalendar feed of the vendor or couple whose ical_feed_token is
+// given, as ?token= (calendar apps) or { token } in a POST body (the dashboard
+// preview). Calendar apps cannot sign in, so deploy with --no-verify-jwt; the
+// token is the only credential.
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const token = req.method === 'GET'
+    ? new URL(req.url).searchParams.get('token')
+    : (await req.json().catch(() => ({}))).token;
+  if (!token || typeof token !== 'string') {
+    return json({ error: 'token is required' }, 400);
+  }
+
+  try {
+    let name: string;
+    let timeZone = DEFAULT_TIME_ZONE;
+    let events: IcsEvent[];
+
+    const { data: vendor } = await supabase.from('vendors').select('id, name').eq('ical_feed_token', token).maybeSingle();
+    if (vendor) {
+      name = `${vendor.name} bookings`;
+      events = bookingFeedEvents(await loadEvents('vendor_id', vendor.id));
+    } else {
+      const { data: couple } = await supabase
+        .from('couples')
+        .select('id, name, venue_id')
+        .eq('ical_feed_token', token)
+        .maybeSingle();
+      if (!couple) {
+        return json({ error: 'Feed not found' }, 404);
+      }
+
+      const { data: venue } = couple.venue_id
+        ? await supabase.from('venues').select('name, street_address, city, state, zip, time_zone').eq('id', couple.venue_id).maybeSingle()
+        : { data: null };
+      timeZone = venue?.time_zone || DEFAULT_TIME_ZONE;
+
+      const { data: timeline, error: timelineError } = await supabase
+        .from('timeline_events')
+        .select('id, title, description, event_date, event_time, duration_minutes, location, updated_at, created_at')
+        .eq('couple_id', couple.id)
+        .order('event_date')
+        .order('event_time');
+      if (timelineError) throw timelineError;
+
+      name = `${couple.name} wedding`;
+      events = coupleFeedEvents(await loadEvents('couple_id', couple.id), timeline || [], venue);
+    }
+
+    return new Response(buildIcsCalendar(name, timeZone, events), {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building iCalendar feed:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to build feed' }, 500);
+  }
+});
@@ -0,0 +1,104 @@
+import { serve } from 'https://deno.land/std@0.224.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import Stripe from 'https://esm.sh/stripe@14?target=deno';
+import { authorizedAdminId } from '../_shared/adminAuth.ts';
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
+  apiVersion: '2023-10-16',
+  httpClient: Stripe.createFetchHttpClient(),
+});
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// Refunds all or part of a payment. Card payments are refunded through Stripe
+// first; manual payments (no stripe_payment_id) are refunded outside the
+// platform and only recorded. The refund is then recorded with record_refund as
+// the calling admin, so RLS and the audit log see who issued it.
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  // Checked before anything reaches Stripe; record_refund's RLS would only
+  // stop an unauthorised caller after the money had gone back
+  if (!(await authorizedAdminId(req, 'payments.write'))) {
+    return json({ error: 'Only admins who can record payments can issue refunds' }, 403);
+  }
+
+  const { payment_id, amount, reason, idempotency_key } = await req.json();
+  if (!payment_id || !Number.isInteger(amount) || amount <= 0) {
+    return json({ error: 'payment_id and a positive integer amount (cents) are required' }, 400);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  try {
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .select('id, amount, status, stripe_payment_id')
+      .eq('id', payment_id)
+      .single();
+    if (paymentError || !payment) {
+      return json({ error: 'Payment not found' }, 404);
+    }
+
+    // record_refund checks this again inside its transaction; checking here too
+    // keeps an over-refund from reaching Stripe
+    const { data: previous } = await supabase
+      .from('refunds')
+      .select('amount')
+      .eq('payment_id', payment_id)
+      .neq('status', 'failed');
+    const refundable = payment.amount - (previous || []).reduce((sum, row) => sum + row.amount, 0);
+    if (amount > refundable) {
+      return json({ error: `Only ${refundable} cents are left to refund on this payment` }, 400);
+    }
+
+    let stripeRefundId: string | null = null;
+    if (payment.stripe_payment_id) {
+      const refund = await stripe.refunds.create(
+        { payment_intent: payment.stripe_payment_id, amount, reason: 'requested_by_customer' },
+        // Retrying the same refund from the dashboard must not refund twice
+        idempotency_key ? { idempotencyKey: idempotency_key } : undefined
+      );
+      stripeRefundId = refund.id;
+    }
+
+    const { data: recorded, error: recordError } = await supabase.rpc('record_refund', {
+      p_payment_id: payment_id,
+      p_amount: amount,
+      p_reason: reason ?? null,
+      p_stripe_refund_id: stripeRefundId,
+    });
+    if (recordError) {
+      // The stripe-webhook function may have recorded the refund from Stripe's
+      // refund.created event before we got here
+      if (stripeRefundId) {
+        const { data: existing } = await supabase
+          .from('refunds')
+          .select('*')
+          .eq('stripe_refund_id', stripeRefundId)
+          .maybeSingle();
+        if (existing) return json({ refund: existing });
+      }
+      console.error('Refund issued but not recorded:', { payment_id, stripeRefundId, recordError });
+      return json({ error: recordError.message, stripe_refund_id: stripeRefundId }, 400);
+    }
+
+    return json({ refund: recorded });
+  } catch (error) {
+    console.error('Refund error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to refund payment' }, 500);
+  }
+});
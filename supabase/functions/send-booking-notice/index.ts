@@ -0,0 +1,150 @@
+import { serve } from 'https://deno.land/std@0.224.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Resend } from 'https://esm.sh/resend';
+import { authorizedAdminId } from '../_shared/adminAuth.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+const resend = new Resend(Deno.env.get('RESEND_API_KEY')!);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short', timeZone: 'America/New_York' });
+
+// Tells the couple and the vendor that a booking was cancelled or rescheduled.
+// kind is 'cancelled' or 'rescheduled'; what the emails say is read from the
+// booking, its refunds and its latest booking_reschedules row rather than
+// taken from the caller. Each email is logged in email_logs against the booking.
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  // This runs with the service role and emails customers, so check the caller
+  if (!(await authorizedAdminId(req, 'bookings.write'))) {
+    return json({ error: 'Only admins who can edit bookings can send booking notices' }, 403);
+  }
+
+  const { booking_id, kind } = await req.json();
+  if (!booking_id || !['cancelled', 'rescheduled'].includes(kind)) {
+    return json({ error: "booking_id and a kind of 'cancelled' or 'rescheduled' are required" }, 400);
+  }
+
+  try {
+    const { data: booking, error: bookingError } = await supabase
+      .from('bookings')
+      .select(`
+        id, couple_id, vendor_id, event_id, status, service_type, cancellation_reason,
+        couples!bookings_couple_id_fkey (name, email),
+        vendors!bookings_vendor_id_fkey (name, user_id),
+        events!bookings_event_id_fkey (start_time, end_time)
+      `)
+      .eq('id', booking_id)
+      .single();
+    if (bookingError || !booking) {
+      return json({ error: 'Booking not found' }, 404);
+    }
+
+    let refundAmount = 0;
+    let previousStartTime: string | null = null;
+    if (kind === 'cancelled') {
+      if (!['cancelled', 'refunded'].includes(booking.status)) {
+        return json({ error: 'This booking has not been cancelled' }, 409);
+      }
+      const { data: refunds, error: refundsError } = await supabase
+        .from('refunds')
+        .select('amount')
+        .eq('booking_id', booking.id)
+        .neq('status', 'failed');
+      if (refundsError) throw refundsError;
+      refundAmount = (refunds || []).reduce((sum, refund) => sum + refund.amount, 0);
+    } else {
+      const { data: reschedule, error: rescheduleError } = await supabase
+        .from('booking_reschedules')
+        .select('previous_start_time')
+        .eq('booking_id', booking.id)
+        .eq('event_id', booking.event_id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (rescheduleError) throw rescheduleError;
+      if (!reschedule) {
+        return json({ error: 'This booking has not been rescheduled' }, 409);
+      }
+      previousStartTime = reschedule.previous_start_time;
+    }
+
+    const { data: vendorUser } = booking.vendors?.user_id
+      ? await supabase.from('users').select('email').eq('id', booking.vendors.user_id).single()
+      : { data: null };
+
+    const service = escapeHtml(booking.service_type);
+    const coupleName = escapeHtml(booking.couples?.name ?? '');
+    const vendorName = escapeHtml(booking.vendors?.name ?? '');
+    const when = booking.events ? formatWhen(booking.events.start_time) : 'your event';
+
+    let subject: string;
+    let coupleHtml: string;
+    let vendorHtml: string;
+    if (kind === 'cancelled') {
+      const reason = booking.cancellation_reason ? `<p>Reason: ${escapeHtml(booking.cancellation_reason)}</p>` : '';
+      const refund = refundAmount > 0
+        ? `<p>A refund of <strong>${dollars(refundAmount)}</strong> has been issued to the original payment method.</p>`
+        : '<p>No refund is due under the cancellation policy.</p>';
+      subject = `Booking cancelled: ${booking.service_type} on ${when}`;
+      coupleHtml = `<p>Hi ${coupleName},</p><p>Your ${service} booking with ${vendorName} on ${when} has been cancelled.</p>${reason}${refund}`;
+      vendorHtml = `<p>Hi ${vendorName},</p><p>The ${service} booking for ${coupleName} on ${when} has been cancelled and is off your calendar.</p>${reason}`;
+    } else {
+      const previous = previousStartTime ? ` from ${formatWhen(previousStartTime)}` : '';
+      subject = `Booking rescheduled: ${booking.service_type} now on ${when}`;
+      coupleHtml = `<p>Hi ${coupleName},</p><p>Your ${service} booking with ${vendorName} has been moved${previous} to <strong>${when}</strong>.</p>`;
+      vendorHtml = `<p>Hi ${vendorName},</p><p>The ${service} booking for ${coupleName} has been moved${previous} to <strong>${when}</strong>. Your calendar has been updated.</p>`;
+    }
+
+    const recipients = [
+      { email: booking.couples?.email, html: coupleHtml },
+      { email: vendorUser?.email, html: vendorHtml },
+    ].filter((recipient): recipient is { email: string; html: string } => !!recipient.email);
+
+    for (const recipient of recipients) {
+      await resend.emails.send({
+        from: 'admin@yourdomain.com', // Replace with your verified Resend sender email
+        to: recipient.email,
+        subject,
+        html: recipient.html,
+      });
+      await supabase.from('email_logs').insert({
+        booking_id: booking.id,
+        vendor_id: booking.vendor_id,
+        couple_id: booking.couple_id,
+        email_to: recipient.email,
+        subject,
+        content: recipient.html,
+        type: kind === 'cancelled' ? 'Cancellation' : 'Reschedule',
+        sent_at: new Date().toISOString(),
+      });
+    }
+
+    return json({ sent: recipients.map(recipient => recipient.email) });
+  } catch (error) {
+    console.error('Booking notice error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to send booking notice' }, 500);
+  }
+});
@@ -0,0 +1,201 @@
+import { serve } from 'https://deno.land/std@0.224.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Resend } from 'https://esm.sh/resend';
+import { authorizedAdminId } from '../_shared/adminAuth.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+const resend = new Resend(Deno.env.get('RESEND_API_KEY')!);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const today = () => new Date().toISOString().slice(0, 10);
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+interface DunningStep {
+  id: string;
+  name: string;
+  offset_days: number;
+  subject: string;
+  body: string;
+}
+
+interface DunningInvoice {
+  id: string;
+  recipient_type: 'couple' | 'vendor';
+  remaining_balance: number;
+  due_date: string;
+  payment_token: string;
+  couples: { partner1_name: string | null; partner2_name: string | null; email: string | null } | null;
+  vendors: { name: string; user_id: string } | null;
+  invoice_reminders: { step_id: string | null }[];
+}
+
+// Same rule as nextDunningTouch in src/utils/dunning.ts: the latest step that is
+// due and later than the last step sent for the invoice
+function dueStep(steps: DunningStep[], sentStepIds: Set<string>, daysFromDue: number) {
+  const lastSent = steps.filter(step => sentStepIds.has(step.id)).pop();
+  return steps
+    .filter(step => step.offset_days <= daysFromDue)
+    .filter(step => !lastSent || step.offset_days > lastSent.offset_days)
+    .pop();
+}
+
+function render(template: string, values: Record<string, string>) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => values[key] ?? match);
+}
+
+async function recipientFor(invoice: DunningInvoice) {
+  if (invoice.recipient_type === 'couple') {
+    const couple = invoice.couples;
+    return {
+      email: couple?.email ?? null,
+      name: [couple?.partner1_name, couple?.partner2_name].filter(Boolean).join(' & '),
+    };
+  }
+  if (!invoice.vendors) return { email: null, name: '' };
+  const { data: user } = await supabase.from('users').select('email').eq('id', invoice.vendors.user_id).single();
+  return { email: user?.email ?? null, name: invoice.vendors.name };
+}
+
+async function sendStep(invoice: DunningInvoice, step: DunningStep, sentBy: string | null) {
+  const recipient = await recipientFor(invoice);
+  if (!recipient.email) throw new Error('The invoice recipient has no email address');
+
+  const values = {
+    recipient_name: recipient.name,
+    invoice_number: invoice.id.slice(0, 8).toUpperCase(),
+    amount_due: dollars(invoice.remaining_balance),
+    due_date: new Date(`${invoice.due_date}T00:00:00`).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }),
+    days_past_due: String(Math.max(daysBetween(invoice.due_date, today()), 0)),
+    payment_link: `https://app.bremembered.io/invoice-payment/${invoice.payment_token}`,
+  };
+  const subject = render(step.subject, values);
+  const html = render(step.body, values)
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('')
+    .replace(escapeHtml(values.payment_link), `<a href="${values.payment_link}">${values.payment_link}</a>`);
+
+  await resend.emails.send({
+    from: 'admin@yourdomain.com', // Replace with your verified Resend sender email
+    to: recipient.email,
+    subject,
+    html,
+  });
+
+  const { error } = await supabase.from('invoice_reminders').insert({
+    invoice_id: invoice.id,
+    step_id: step.id,
+    kind: 'dunning',
+    recipient_email: recipient.email,
+    subject,
+    sent_by: sentBy,
+  });
+  if (error) console.error('Reminder sent but not logged:', { invoice_id: invoice.id, step_id: step.id, error });
+}
+
+// With no body this is the daily run over every open invoice with a due date;
+// the schedule has to send DUNNING_CRON_SECRET in an x-cron-secret header.
+// With { invoice_id } it sends that invoice's next due step now (or the given
+// step_id), as the admin who asked, who needs payments.write.
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const { invoice_id, step_id } = body as { invoice_id?: string; step_id?: string };
+
+  let sentBy: string | null = null;
+  if (invoice_id) {
+    sentBy = await authorizedAdminId(req, 'payments.write');
+    if (!sentBy) {
+      return json({ error: 'Only admins who can edit invoices can send payment reminders' }, 403);
+    }
+  } else {
+    const secret = Deno.env.get('DUNNING_CRON_SECRET');
+    if (!secret || req.headers.get('x-cron-secret') !== secret) {
+      return json({ error: 'The daily run needs the cron secret' }, 403);
+    }
+  }
+
+  try {
+    const { data: steps, error: stepsError } = await supabase
+      .from('dunning_steps')
+      .select('id, name, offset_days, subject, body')
+      .eq('is_active', true)
+      .order('offset_days');
+    if (stepsError) throw stepsError;
+
+    let query = supabase
+      .from('invoices')
+      .select(`
+        id, recipient_type, remaining_balance, due_date, payment_token,
+        couples (partner1_name, partner2_name, email),
+        vendors (name, user_id),
+        invoice_reminders (step_id)
+      `)
+      .not('due_date', 'is', null)
+      .not('status', 'in', '(paid,draft,void)')
+      .gt('remaining_balance', 0);
+    if (invoice_id) query = query.eq('id', invoice_id);
+    const { data: invoices, error: invoicesError } = await query;
+    if (invoicesError) throw invoicesError;
+    if (invoice_id && (!invoices || invoices.length === 0)) {
+      return json({ error: 'Invoice is not open or has no due date' }, 400);
+    }
+
+    const sent: { invoice_id: string; step: string }[] = [];
+    const errors: { invoice_id: string; error: string }[] = [];
+    for (const invoice of (invoices || []) as DunningInvoice[]) {
+      // The reminders come embedded with each invoice: listing every open
+      // invoice id in an .in() filter outgrows the request URL
+      const sentStepIds = new Set(
+        invoice.invoice_reminders.map(row => row.step_id).filter((stepId): stepId is string => !!stepId)
+      );
+      const daysFromDue = daysBetween(invoice.due_date, today());
+      // Asked for by an admin, the latest step that applies is resent if nothing new is due
+      const step = step_id
+        ? (steps || []).find((row: DunningStep) => row.id === step_id)
+        : dueStep(steps || [], sentStepIds, daysFromDue)
+          ?? (invoice_id ? (steps || []).filter((row: DunningStep) => row.offset_days <= daysFromDue).pop() : undefined);
+      if (!step) {
+        if (invoice_id) errors.push({ invoice_id: invoice.id, error: 'No reminder is due for this invoice yet' });
+        continue;
+      }
+      try {
+        await sendStep(invoice, step, sentBy);
+        sent.push({ invoice_id: invoice.id, step: step.name });
+      } catch (error) {
+        errors.push({ invoice_id: invoice.id, error: (error as Error).message });
+      }
+    }
+
+    if (invoice_id && errors.length > 0) {
+      return json({ error: errors[0].error }, 400);
+    }
+    return json({ sent, errors });
+  } catch (error) {
+    console.error('Dunning run error:', error);
+    return json({ error: 'Failed to send reminders' }, 500);
+  }
+});
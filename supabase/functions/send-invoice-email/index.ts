@@ -0,0 +1,209 @@
+import { serve } from 'https://deno.land/std@0.224.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Resend } from 'https://esm.sh/resend';
+import { authorizedAdminId } from '../_shared/adminAuth.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+const resend = new Resend(Deno.env.get('RESEND_API_KEY')!);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  // The invoice goes to its own recipient, so any admin who can see invoices
+  // may send it
+  const sentBy = await authorizedAdminId(req, 'payments.read');
+  if (!sentBy) {
+    return json({ error: 'Only admins who can view invoices can email them' }, 403);
+  }
+
+  // attachment is the invoice PDF the admin app renders: { filename, content } with base64 content
+  const { invoice_id, installment_id, attachment } = await req.json();
+  if (!invoice_id) {
+    return json({ error: 'invoice_id is required' }, 400);
+  }
+
+  try {
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .select(`
+        id, recipient_type, couple_id, vendor_id, total_amount, remaining_balance,
+        discount_amount, discount_percentage, deposit_amount,
+        tax_state, tax_rate, tax_amount, card_fee_percentage, card_fee_amount, payment_token,
+        invoice_line_items (
+          custom_description, custom_price, quantity, taxable,
+          service_packages (name),
+          store_products (name)
+        )
+      `)
+      .eq('id', invoice_id)
+      .single();
+    if (invoiceError || !invoice) {
+      return json({ error: 'Invoice not found' }, 404);
+    }
+
+    let email: string | null = null;
+    let name = '';
+    if (invoice.recipient_type === 'couple' && invoice.couple_id) {
+      const { data: couple } = await supabase.from('couples').select('name, email').eq('id', invoice.couple_id).single();
+      email = couple?.email ?? null;
+      name = couple?.name ?? '';
+    } else if (invoice.vendor_id) {
+      const { data: vendor } = await supabase.from('vendors').select('name, user_id').eq('id', invoice.vendor_id).single();
+      const { data: user } = vendor?.user_id
+        ? await supabase.from('users').select('email').eq('id', vendor.user_id).single()
+        : { data: null };
+      email = user?.email ?? null;
+      name = vendor?.name ?? '';
+    }
+    if (!email) {
+      return json({ error: 'The invoice recipient has no email address' }, 400);
+    }
+
+    // A reminder for one installment of the invoice's payment plan
+    if (installment_id) {
+      const { data: installments, error: installmentsError } = await supabase
+        .from('invoice_installments')
+        .select('id, sequence, amount, paid_amount, due_date, payment_token, status')
+        .eq('invoice_id', invoice_id)
+        .order('sequence');
+      const installment = installments?.find((row: { id: string }) => row.id === installment_id);
+      if (installmentsError || !installment) {
+        return json({ error: 'Installment not found' }, 404);
+      }
+      if (installment.status === 'paid') {
+        return json({ error: 'This installment is already paid' }, 400);
+      }
+
+      const due = dollars(installment.amount - installment.paid_amount);
+      const dueDate = new Date(`${installment.due_date}T00:00:00`).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+      const installmentUrl = `https://app.bremembered.io/invoice-payment/${installment.payment_token}`;
+      const reminderSubject = `Payment reminder: installment ${installment.sequence} of ${installments!.length} (${due})`;
+      await resend.emails.send({
+        from: 'admin@yourdomain.com', // Replace with your verified Resend sender email
+        to: email,
+        subject: reminderSubject,
+        html: `
+          <p>Hi ${escapeHtml(name)},</p>
+          <p>This is a reminder that installment ${installment.sequence} of ${installments!.length} on your B. Remembered invoice,
+          <strong>${due}</strong>, was due on ${dueDate}.</p>
+          <p>Invoice total: ${dollars(invoice.total_amount)}. Remaining balance: ${dollars(invoice.remaining_balance)}.</p>
+          <p><a href="${installmentUrl}">Pay this installment online</a></p>
+        `,
+      });
+
+      await supabase
+        .from('invoice_installments')
+        .update({ last_reminded_at: new Date().toISOString() })
+        .eq('id', installment.id);
+      await supabase.from('invoice_reminders').insert({
+        invoice_id,
+        installment_id: installment.id,
+        kind: 'installment',
+        recipient_email: email,
+        subject: reminderSubject,
+        sent_by: sentBy,
+      });
+
+      return json({ success: true });
+    }
+
+    const items = invoice.invoice_line_items || [];
+    const subtotal = items.reduce((sum: number, item: { custom_price: number; quantity: number }) => sum + item.custom_price * item.quantity, 0);
+    // The stored totals already include the discount, tax and fee; the discount is what is left over
+    const discount = subtotal + invoice.tax_amount + invoice.card_fee_amount - invoice.total_amount;
+
+    const rows = items.map((item: {
+      custom_description: string | null;
+      custom_price: number;
+      quantity: number;
+      taxable: boolean;
+      service_packages: { name: string } | null;
+      store_products: { name: string } | null;
+    }) => {
+      const description = item.custom_description || item.service_packages?.name || item.store_products?.name || 'Item';
+      return `<tr>
+        <td style="padding:6px 8px;border-bottom:1px solid #eee">${escapeHtml(description)}${item.taxable && invoice.tax_amount > 0 ? ' <span style="color:#888">(taxable)</span>' : ''}</td>
+        <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${item.quantity}</td>
+        <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${dollars(item.custom_price)}</td>
+        <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${dollars(item.custom_price * item.quantity)}</td>
+      </tr>`;
+    }).join('');
+
+    const summary: [string, string][] = [['Subtotal', dollars(subtotal)]];
+    if (discount > 0) summary.push(['Discount', `-${dollars(discount)}`]);
+    if (invoice.tax_amount > 0) summary.push([`Sales tax (${invoice.tax_state} ${invoice.tax_rate}%)`, dollars(invoice.tax_amount)]);
+    if (invoice.card_fee_amount > 0) summary.push([`Card processing fee (${invoice.card_fee_percentage}%)`, dollars(invoice.card_fee_amount)]);
+    summary.push(['Total', dollars(invoice.total_amount)]);
+    if (invoice.deposit_amount > 0) summary.push(['Deposit due now', dollars(invoice.deposit_amount)]);
+    summary.push(['Balance due', dollars(invoice.remaining_balance)]);
+
+    const paymentUrl = `https://app.bremembered.io/invoice-payment/${invoice.payment_token}`;
+    const html = `
+      <p>Hi ${escapeHtml(name)},</p>
+      <p>Here is your invoice from B. Remembered.</p>
+      <table style="border-collapse:collapse;width:100%;max-width:600px">
+        <thead>
+          <tr>
+            <th style="padding:6px 8px;text-align:left;border-bottom:2px solid #ccc">Item</th>
+            <th style="padding:6px 8px;text-align:right;border-bottom:2px solid #ccc">Qty</th>
+            <th style="padding:6px 8px;text-align:right;border-bottom:2px solid #ccc">Price</th>
+            <th style="padding:6px 8px;text-align:right;border-bottom:2px solid #ccc">Amount</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <table style="border-collapse:collapse;width:100%;max-width:600px;margin-top:12px">
+        ${summary.map(([label, value]) => `<tr>
+          <td style="padding:4px 8px;text-align:right">${label}</td>
+          <td style="padding:4px 8px;text-align:right;width:120px"><strong>${value}</strong></td>
+        </tr>`).join('')}
+      </table>
+      <p><a href="${paymentUrl}">Pay your invoice online</a></p>
+      ${attachment?.content ? '<p>A PDF copy of this invoice is attached.</p>' : ''}
+    `;
+
+    const subject = `Your invoice for ${dollars(invoice.total_amount)}`;
+    await resend.emails.send({
+      from: 'admin@yourdomain.com', // Replace with your verified Resend sender email
+      to: email,
+      subject,
+      html,
+      attachments: attachment?.content
+        ? [{ filename: attachment.filename || `invoice_${invoice.id.slice(0, 8)}.pdf`, content: attachment.content }]
+        : undefined,
+    });
+    await supabase.from('invoice_reminders').insert({
+      invoice_id,
+      kind: 'invoice',
+      recipient_email: email,
+      subject,
+      sent_by: sentBy,
+    });
+
+    return json({ success: true });
+  } catch (error) {
+    console.error('Invoice email error:', error);
+    return json({ error: 'Failed to send invoice email' }, 500);
+  }
+});
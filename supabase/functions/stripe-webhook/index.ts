@@ -0,0 +1,83 @@
+import { serve } from 'https://deno.land/std@0.224.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import Stripe from 'https://esm.sh/stripe@14?target=deno';
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
+  apiVersion: '2023-10-16',
+  httpClient: Stripe.createFetchHttpClient(),
+});
+const cryptoProvider = Stripe.createSubtleCryptoProvider();
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Stripe's webhook endpoint. Deploy with --no-verify-jwt: Stripe signs its
+// requests instead of sending a Supabase token. Each verified event is stored
+// in stripe_events and applied with process_stripe_event (see the
+// create_stripe_events migration). An event that fails to apply is still
+// acknowledged, since Stripe retrying it will not fix it; it stays on the
+// Stripe events page with its error to be replayed. Only failing to store the
+// event returns an error, so that Stripe delivers it again.
+//
+// fixtures/ holds recorded payloads; send-fixture.ts signs one with the
+// endpoint secret and posts it here.
+serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const signature = req.headers.get('Stripe-Signature');
+  if (!signature) {
+    return json({ error: 'Missing Stripe-Signature header' }, 400);
+  }
+
+  const payload = await req.text();
+  let event: Stripe.Event;
+  try {
+    event = await stripe.webhooks.constructEventAsync(
+      payload,
+      signature,
+      Deno.env.get('STRIPE_WEBHOOK_SECRET')!,
+      undefined,
+      cryptoProvider
+    );
+  } catch (error) {
+    return json({ error: `Signature verification failed: ${error instanceof Error ? error.message : error}` }, 400);
+  }
+
+  try {
+    const { error: storeError } = await supabase
+      .from('stripe_events')
+      .upsert(
+        { id: event.id, type: event.type, livemode: event.livemode, payload: event },
+        { onConflict: 'id', ignoreDuplicates: true }
+      );
+    if (storeError) throw storeError;
+
+    const { data: stored, error: storedError } = await supabase
+      .from('stripe_events')
+      .select('status')
+      .eq('id', event.id)
+      .single();
+    if (storedError) throw storedError;
+    if (stored.status === 'processed' || stored.status === 'ignored') {
+      return json({ received: true, duplicate: true });
+    }
+
+    const { data: processed, error: processError } = await supabase.rpc('process_stripe_event', { p_event_id: event.id });
+    if (processError) throw processError;
+    if (processed.status === 'failed') {
+      console.error('Stripe event not applied:', { event_id: event.id, type: event.type, error: processed.error });
+    }
+
+    return json({ received: true, status: processed.status });
+  } catch (error) {
+    console.error('Stripe webhook error:', { event_id: event.id, error });
+    return json({ error: 'Failed to store event' }, 500);
+  }
+});
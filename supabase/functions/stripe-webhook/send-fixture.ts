@@ -0,0 +1,53 @@
+// Posts a recorded event from fixtures/ to the stripe-webhook function, signed
+// the way Stripe signs deliveries so it passes signature verification:
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_... deno run --allow-net --allow-env --allow-read \
+//     supabase/functions/stripe-webhook/send-fixture.ts \
+//     supabase/functions/stripe-webhook/fixtures/payment_intent.succeeded.json \
+//     data.object.metadata.invoice_id=<invoice uuid>
+//
+// Each path=value argument overrides one field of the payload, e.g. to point a
+// fixture at an invoice or payment intent that exists in the database being
+// tested. Sending the same event id twice exercises the duplicate handling; give
+// it a new id=evt_... to have it applied again. The endpoint defaults to the
+// local functions server; set WEBHOOK_URL to post elsewhere.
+const [fixturePath, ...overrides] = Deno.args;
+if (!fixturePath) {
+  console.error('Usage: send-fixture.ts <fixture.json> [path=value ...]');
+  Deno.exit(1);
+}
+
+const secret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+if (!secret) {
+  console.error('STRIPE_WEBHOOK_SECRET must be set to the secret the function verifies with');
+  Deno.exit(1);
+}
+const url = Deno.env.get('WEBHOOK_URL') ?? 'http://localhost:54321/functions/v1/stripe-webhook';
+
+const event = JSON.parse(await Deno.readTextFile(fixturePath));
+for (const override of overrides) {
+  const [path, value] = override.split(/=(.*)/s);
+  const keys = path.split('.');
+  const parent = keys.slice(0, -1).reduce((node, key) => (node[key] ??= {}), event);
+  parent[keys[keys.length - 1]] = /^-?\d+$/.test(value) ? Number(value) : value;
+}
+
+// Stripe-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+const body = JSON.stringify(event, null, 2);
+const timestamp = Math.floor(Date.now() / 1000);
+const key = await crypto.subtle.importKey(
+  'raw',
+  new TextEncoder().encode(secret),
+  { name: 'HMAC', hash: 'SHA-256' },
+  false,
+  ['sign']
+);
+const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+const signature = [...new Uint8Array(mac)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'Stripe-Signature': `t=${timestamp},v1=${signature}` },
+  body,
+});
+console.log(response.status, await response.text());
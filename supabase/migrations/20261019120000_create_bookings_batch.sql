@@ -0,0 +1,68 @@
+-- Creates bookings together with their events in a single transaction.
+--
+-- Each element of p_bookings is an object with couple_id, vendor_id, status,
+-- amount (cents), service_type, event_type, package_id, venue_id, start_time,
+-- end_time, title and optional is_blocked_time. The event is inserted first and
+-- handed to the existing create_booking RPC. Any failure aborts the whole call,
+-- so no booking is left without its event (or the reverse). The 1-based index
+-- of the failing element is returned in the error DETAIL as JSON:
+-- {"failed_index": n}.
+create or replace function public.create_bookings_batch(p_bookings jsonb)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_item jsonb;
+  v_index integer := 0;
+  v_event_id uuid;
+  v_created jsonb := '[]'::jsonb;
+begin
+  if jsonb_typeof(p_bookings) <> 'array' then
+    raise exception 'p_bookings must be a JSON array';
+  end if;
+
+  for v_item in select value from jsonb_array_elements(p_bookings)
+  loop
+    v_index := v_index + 1;
+    begin
+      insert into public.events (
+        couple_id, vendor_id, start_time, end_time, type, title, is_blocked_time, created_at, updated_at
+      )
+      values (
+        (v_item->>'couple_id')::uuid,
+        (v_item->>'vendor_id')::uuid,
+        (v_item->>'start_time')::timestamptz,
+        (v_item->>'end_time')::timestamptz,
+        coalesce(v_item->>'event_type', 'wedding'),
+        v_item->>'title',
+        coalesce((v_item->>'is_blocked_time')::boolean, true),
+        now(),
+        now()
+      )
+      returning id into v_event_id;
+
+      perform public.create_booking(
+        p_couple_id := (v_item->>'couple_id')::uuid,
+        p_vendor_id := (v_item->>'vendor_id')::uuid,
+        p_status := coalesce(v_item->>'status', 'pending'),
+        p_amount := coalesce((v_item->>'amount')::integer, 0),
+        p_service_type := coalesce(v_item->>'service_type', 'Unknown'),
+        p_event_type := coalesce(v_item->>'event_type', 'wedding'),
+        p_package_id := nullif(v_item->>'package_id', '')::uuid,
+        p_venue_id := nullif(v_item->>'venue_id', '')::uuid,
+        p_event_id := v_event_id
+      );
+
+      v_created := v_created || jsonb_build_object('index', v_index, 'event_id', v_event_id);
+    exception when others then
+      raise exception 'Booking % of % failed: %', v_index, jsonb_array_length(p_bookings), sqlerrm
+        using detail = jsonb_build_object('failed_index', v_index)::text;
+    end;
+  end loop;
+
+  return v_created;
+end;
+$$;
+
+grant execute on function public.create_bookings_batch(jsonb) to authenticated;
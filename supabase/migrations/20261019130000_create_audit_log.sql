@@ -0,0 +1,107 @@
+-- Admin audit log.
+--
+-- Every insert, update and delete an admin performs against the tables the
+-- dashboard edits is written to audit_log by a single row trigger, so inline
+-- edits, modals, imports and RPCs (e.g. create_bookings_batch) are all covered
+-- without each page having to remember to log. before/after hold the full row
+-- on either side of the change and changed_fields lists the columns whose
+-- values differ, which is what the Audit Log page diffs. Writes made by
+-- vendors, couples or the service role are not recorded.
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid references auth.users(id) on delete set null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  table_name text not null,
+  row_id text,
+  before jsonb,
+  after jsonb,
+  changed_fields text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc);
+create index if not exists audit_log_actor_id_idx on public.audit_log (actor_id);
+create index if not exists audit_log_record_idx on public.audit_log (table_name, row_id);
+
+alter table public.audit_log enable row level security;
+
+drop policy if exists "Admins can read the audit log" on public.audit_log;
+create policy "Admins can read the audit log"
+  on public.audit_log
+  for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  v_new jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  v_changed text[];
+begin
+  if not exists (select 1 from public.profiles where id = auth.uid() and role = 'admin') then
+    return null;
+  end if;
+
+  if tg_op = 'UPDATE' then
+    select array_agg(key order by key)
+    into v_changed
+    from jsonb_each(v_new)
+    where key <> 'updated_at' and value is distinct from v_old->key;
+
+    -- Touching only updated_at is not worth an entry
+    if v_changed is null then
+      return null;
+    end if;
+  else
+    select coalesce(array_agg(key order by key), '{}')
+    into v_changed
+    from jsonb_object_keys(coalesce(v_new, v_old)) as key;
+  end if;
+
+  insert into public.audit_log (actor_id, action, table_name, row_id, before, after, changed_fields)
+  values (
+    auth.uid(),
+    lower(tg_op),
+    tg_table_name,
+    coalesce(v_new->>'id', v_old->>'id'),
+    v_old,
+    v_new,
+    v_changed
+  );
+
+  return null;
+end;
+$$;
+
+-- Attach the trigger to every table the dashboard writes to; tables missing
+-- from this database are skipped so the migration can run on partial schemas.
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array[
+    'ads', 'blog_posts', 'bookings', 'contract_templates', 'contracts', 'couples',
+    'events', 'faqs', 'file_uploads', 'invoice_line_items', 'invoices', 'job_board',
+    'lead_notes', 'leads', 'payments', 'profiles', 'service_packages',
+    'store_categories', 'store_orders', 'store_products', 'support_inquiries',
+    'timeline_events', 'timeline_shares', 'vendor_applications', 'vendor_forum_posts',
+    'vendor_forum_replies', 'vendor_gear', 'vendor_issues', 'vendor_languages',
+    'vendor_reviews', 'vendor_service_areas', 'vendor_service_packages',
+    'vendor_services', 'vendor_style_tags', 'vendor_vibe_tags', 'vendors', 'venues'
+  ]
+  loop
+    if to_regclass('public.' || v_table) is not null then
+      execute format('drop trigger if exists audit_row_change on public.%I', v_table);
+      execute format(
+        'create trigger audit_row_change after insert or update or delete on public.%I '
+        'for each row execute function public.audit_row_change()',
+        v_table
+      );
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,23 @@
+-- Payout reconciliation reviews.
+--
+-- The Payout Reconciliation page recomputes each booking's deposit/final split
+-- and compares it with the recorded payments and invoice balance. When an admin
+-- marks a flagged booking as reviewed, the figures they looked at are stored as
+-- a fingerprint; the booking only drops off the report while its figures still
+-- match, so a later payment or edit brings it back for another look.
+create table if not exists public.payout_reconciliation_reviews (
+  booking_id uuid primary key references public.bookings(id) on delete cascade,
+  fingerprint text not null,
+  issues text[] not null default '{}',
+  reviewed_by uuid references auth.users(id) on delete set null,
+  reviewed_at timestamptz not null default now()
+);
+
+alter table public.payout_reconciliation_reviews enable row level security;
+
+drop policy if exists "Admins can manage payout reconciliation reviews" on public.payout_reconciliation_reviews;
+create policy "Admins can manage payout reconciliation reviews"
+  on public.payout_reconciliation_reviews
+  for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
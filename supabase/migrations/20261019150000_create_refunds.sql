@@ -0,0 +1,148 @@
+-- Full and partial refunds of recorded payments.
+--
+-- A refund never edits the original payment row; it is its own row linked to
+-- the payment (and, for convenience, the payment's booking and invoice). The
+-- refund-payment edge function issues the Stripe refund and then calls
+-- record_refund, which in one transaction:
+--   * checks the amount does not exceed what is left to refund on the payment,
+--   * splits it between vendor and platform in the same proportion as the
+--     share columns the original payment was made under (deposit or final),
+--   * takes it off the booking's paid_amount and vendor/platform earnings and
+--     re-opens the booking's final payment if the final payment was refunded,
+--   * adds it back to the invoice's remaining_balance and re-opens a paid invoice.
+create table if not exists public.refunds (
+  id uuid primary key default gen_random_uuid(),
+  payment_id uuid not null references public.payments(id) on delete cascade,
+  booking_id uuid references public.bookings(id) on delete set null,
+  invoice_id uuid references public.invoices(id) on delete set null,
+  amount integer not null check (amount > 0),
+  vendor_amount integer not null default 0,
+  platform_amount integer not null default 0,
+  reason text,
+  status text not null default 'succeeded' check (status in ('pending', 'succeeded', 'failed')),
+  stripe_refund_id text,
+  created_by uuid references auth.users(id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists refunds_payment_id_idx on public.refunds (payment_id);
+create index if not exists refunds_booking_id_idx on public.refunds (booking_id);
+
+alter table public.refunds enable row level security;
+
+drop policy if exists "Admins can read refunds" on public.refunds;
+create policy "Admins can read refunds"
+  on public.refunds
+  for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop policy if exists "Admins can record refunds" on public.refunds;
+create policy "Admins can record refunds"
+  on public.refunds
+  for insert
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop trigger if exists audit_row_change on public.refunds;
+create trigger audit_row_change after insert or update or delete on public.refunds
+  for each row execute function public.audit_row_change();
+
+create or replace function public.record_refund(
+  p_payment_id uuid,
+  p_amount integer,
+  p_reason text default null,
+  p_stripe_refund_id text default null
+)
+returns public.refunds
+language plpgsql
+security invoker
+as $$
+declare
+  v_payment public.payments;
+  v_booking public.bookings;
+  v_refunded integer;
+  v_vendor_part integer := 0;
+  v_platform_part integer := 0;
+  v_platform_amount integer;
+  v_refund public.refunds;
+begin
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id;
+  end if;
+  if v_payment.status not in ('succeeded', 'paid') then
+    raise exception 'Only succeeded payments can be refunded (status is %)', v_payment.status;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_refunded
+  from public.refunds
+  where payment_id = p_payment_id and status <> 'failed';
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Refund amount must be greater than zero';
+  end if;
+  if p_amount > v_payment.amount - v_refunded then
+    raise exception 'Refund of % exceeds the % left to refund on this payment', p_amount, v_payment.amount - v_refunded;
+  end if;
+
+  if v_payment.booking_id is not null then
+    select * into v_booking from public.bookings where id = v_payment.booking_id for update;
+  end if;
+
+  if v_booking.id is not null then
+    if v_payment.payment_type = 'deposit' then
+      v_vendor_part := coalesce(v_booking.vendor_deposit_share, 0);
+      v_platform_part := coalesce(v_booking.platform_deposit_share, 0);
+    elsif v_payment.payment_type in ('final', 'final_payment') then
+      v_vendor_part := coalesce(v_booking.vendor_final_share, 0);
+      v_platform_part := coalesce(v_booking.platform_final_share, 0);
+    else
+      v_vendor_part := coalesce(v_booking.vendor_deposit_share, 0) + coalesce(v_booking.vendor_final_share, 0);
+      v_platform_part := coalesce(v_booking.platform_deposit_share, 0) + coalesce(v_booking.platform_final_share, 0);
+    end if;
+  end if;
+
+  -- Without shares to go by, the refund comes out of whoever received the payment
+  if v_vendor_part + v_platform_part = 0 then
+    v_platform_amount := case when v_payment.to_platform then p_amount else 0 end;
+  else
+    v_platform_amount := round(p_amount::numeric * v_platform_part / (v_vendor_part + v_platform_part));
+  end if;
+
+  insert into public.refunds (
+    payment_id, booking_id, invoice_id, amount, vendor_amount, platform_amount, reason, stripe_refund_id
+  )
+  values (
+    p_payment_id, v_payment.booking_id, v_payment.invoice_id, p_amount,
+    p_amount - v_platform_amount, v_platform_amount, nullif(trim(p_reason), ''), p_stripe_refund_id
+  )
+  returning * into v_refund;
+
+  if v_booking.id is not null then
+    update public.bookings
+    set
+      paid_amount = greatest(coalesce(paid_amount, 0) - p_amount, 0),
+      vendor_total_earnings = coalesce(vendor_total_earnings, 0) - v_refund.vendor_amount,
+      platform_total_earnings = coalesce(platform_total_earnings, 0) - v_refund.platform_amount,
+      final_payment_status = case
+        when v_payment.payment_type in ('final', 'final_payment', 'full_payment') then 'pending'
+        else final_payment_status
+      end,
+      updated_at = now()
+    where id = v_booking.id;
+  end if;
+
+  if v_payment.invoice_id is not null then
+    update public.invoices
+    set
+      remaining_balance = least(remaining_balance + p_amount, total_amount),
+      status = case when status = 'paid' then 'sent' else status end,
+      paid_at = null,
+      updated_at = now()
+    where id = v_payment.invoice_id;
+  end if;
+
+  return v_refund;
+end;
+$$;
+
+grant execute on function public.record_refund(uuid, integer, text, text) to authenticated;
@@ -0,0 +1,47 @@
+-- Sales tax and card-processing fees on invoices.
+--
+-- Rates are configured per state, using the same state codes as
+-- service_areas.state. An invoice copies the rate of the state it is taxed in
+-- when it is saved, so later rate changes do not alter invoices already sent.
+-- Tax applies only to line items marked taxable (store products by default);
+-- the card fee is an optional percentage added on top of the taxed total.
+create table if not exists public.tax_rates (
+  id uuid primary key default gen_random_uuid(),
+  state text not null unique,
+  rate numeric(6, 3) not null check (rate >= 0 and rate < 100),
+  updated_by uuid references auth.users(id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.tax_rates enable row level security;
+
+drop policy if exists "Authenticated users can read tax rates" on public.tax_rates;
+create policy "Authenticated users can read tax rates"
+  on public.tax_rates
+  for select
+  using (auth.role() = 'authenticated');
+
+drop policy if exists "Admins can manage tax rates" on public.tax_rates;
+create policy "Admins can manage tax rates"
+  on public.tax_rates
+  for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop trigger if exists audit_row_change on public.tax_rates;
+create trigger audit_row_change after insert or update or delete on public.tax_rates
+  for each row execute function public.audit_row_change();
+
+alter table public.invoice_line_items
+  add column if not exists taxable boolean not null default false;
+
+-- Physical goods were always meant to be taxed; services are not by default
+update public.invoice_line_items set taxable = true where type = 'store_product';
+
+alter table public.invoices
+  add column if not exists tax_state text,
+  add column if not exists tax_rate numeric(6, 3) not null default 0,
+  add column if not exists tax_amount integer not null default 0,
+  add column if not exists card_fee_percentage numeric(5, 2) not null default 0,
+  add column if not exists card_fee_amount integer not null default 0;
@@ -0,0 +1,43 @@
+-- Installment plans on invoices.
+--
+-- An invoice can split what is left after its deposit into a schedule of
+-- installments, each with its own due date and payment link token. Payments
+-- recorded against the invoice are applied to the installments in due-date
+-- order (or to the installment they were taken for), which keeps paid_amount
+-- and status current. last_reminded_at is set by send-invoice-email when it
+-- sends a reminder for a single installment.
+create table if not exists public.invoice_installments (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references public.invoices(id) on delete cascade,
+  sequence integer not null check (sequence > 0),
+  amount integer not null check (amount > 0),
+  due_date date not null,
+  payment_token text not null unique default gen_random_uuid()::text,
+  paid_amount integer not null default 0 check (paid_amount >= 0),
+  status text not null default 'pending' check (status in ('pending', 'partially_paid', 'paid')),
+  paid_at timestamptz,
+  last_reminded_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (invoice_id, sequence)
+);
+
+create index if not exists invoice_installments_due_date_idx
+  on public.invoice_installments (due_date)
+  where status <> 'paid';
+
+alter table public.invoice_installments enable row level security;
+
+drop policy if exists "Admins can manage invoice installments" on public.invoice_installments;
+create policy "Admins can manage invoice installments"
+  on public.invoice_installments
+  for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop trigger if exists audit_row_change on public.invoice_installments;
+create trigger audit_row_change after insert or update or delete on public.invoice_installments
+  for each row execute function public.audit_row_change();
+
+alter table public.payments
+  add column if not exists installment_id uuid references public.invoice_installments(id) on delete set null;
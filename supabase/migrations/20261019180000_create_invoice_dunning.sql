@@ -0,0 +1,94 @@
+-- Due dates and dunning (payment reminder) schedules for invoices.
+--
+-- dunning_steps is the schedule every open invoice with a due date follows:
+-- each step fires offset_days from the due date (negative = before it) and
+-- emails its subject/body template. Templates may use {{recipient_name}},
+-- {{invoice_number}}, {{amount_due}}, {{due_date}}, {{days_past_due}} and
+-- {{payment_link}}.
+--
+-- The send-dunning-reminders edge function runs once a day (schedule it from
+-- the Supabase dashboard) and sends, per invoice, the latest step that is due
+-- and comes after the last step already sent, so an invoice never gets a
+-- backlog of reminders in one go. Every invoice email, dunning step or manual
+-- send, is logged in invoice_reminders.
+alter table public.invoices
+  add column if not exists due_date date;
+
+create index if not exists invoices_due_date_idx
+  on public.invoices (due_date)
+  where status not in ('paid', 'draft');
+
+create table if not exists public.dunning_steps (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  offset_days integer not null unique,
+  subject text not null,
+  body text not null,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.dunning_steps enable row level security;
+
+drop policy if exists "Admins can manage dunning steps" on public.dunning_steps;
+create policy "Admins can manage dunning steps"
+  on public.dunning_steps
+  for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop trigger if exists audit_row_change on public.dunning_steps;
+create trigger audit_row_change after insert or update or delete on public.dunning_steps
+  for each row execute function public.audit_row_change();
+
+insert into public.dunning_steps (name, offset_days, subject, body)
+values
+  (
+    'Upcoming',
+    -3,
+    'Invoice {{invoice_number}} is due {{due_date}}',
+    E'Hi {{recipient_name}},\n\nA friendly reminder that {{amount_due}} on invoice {{invoice_number}} is due on {{due_date}}.\n\nYou can pay online here: {{payment_link}}'
+  ),
+  (
+    'Due today',
+    0,
+    'Invoice {{invoice_number}} is due today',
+    E'Hi {{recipient_name}},\n\nInvoice {{invoice_number}} for {{amount_due}} is due today.\n\nPay online here: {{payment_link}}'
+  ),
+  (
+    '7 days overdue',
+    7,
+    'Invoice {{invoice_number}} is {{days_past_due}} days past due',
+    E'Hi {{recipient_name}},\n\nWe have not yet received {{amount_due}} for invoice {{invoice_number}}, which was due on {{due_date}}.\n\nPlease pay here: {{payment_link}}\n\nIf you have already paid, please disregard this email.'
+  ),
+  (
+    '14 days overdue',
+    14,
+    'Final reminder: invoice {{invoice_number}} is {{days_past_due}} days past due',
+    E'Hi {{recipient_name}},\n\nInvoice {{invoice_number}} for {{amount_due}} is now {{days_past_due}} days past due. Please pay as soon as possible or reply to this email so we can help.\n\nPay here: {{payment_link}}'
+  )
+on conflict (offset_days) do nothing;
+
+create table if not exists public.invoice_reminders (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references public.invoices(id) on delete cascade,
+  step_id uuid references public.dunning_steps(id) on delete set null,
+  installment_id uuid references public.invoice_installments(id) on delete set null,
+  kind text not null check (kind in ('invoice', 'dunning', 'installment')),
+  recipient_email text,
+  subject text,
+  -- Null for reminders the daily run sent
+  sent_by uuid references auth.users(id) on delete set null default auth.uid(),
+  sent_at timestamptz not null default now()
+);
+
+create index if not exists invoice_reminders_invoice_id_idx on public.invoice_reminders (invoice_id, sent_at desc);
+
+alter table public.invoice_reminders enable row level security;
+
+drop policy if exists "Admins can read invoice reminders" on public.invoice_reminders;
+create policy "Admins can read invoice reminders"
+  on public.invoice_reminders
+  for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
@@ -0,0 +1,367 @@
+-- Credit notes and voiding, so a sent invoice is never rewritten.
+--
+-- Once an invoice leaves draft its line items and pricing columns are frozen
+-- (prevent_sent_invoice_changes). Corrections are made with credit notes: a
+-- credit note belongs to one invoice and credits amounts against specific
+-- line items of it, never more than is left uncredited on each line.
+-- issue_credit_note records it in one transaction and takes it off the
+-- invoice's remaining_balance (adding it to credited_amount); an invoice
+-- credited down to nothing owed is marked paid. Credit beyond the balance due
+-- is not paid back automatically; refund the payment for that.
+--
+-- void_invoice cancels an invoice outright with a reason. Anything paid on it
+-- has to be refunded first, so a void invoice never holds money.
+alter table public.invoices
+  add column if not exists credited_amount integer not null default 0,
+  add column if not exists voided_at timestamptz,
+  add column if not exists void_reason text,
+  add column if not exists voided_by uuid references auth.users(id) on delete set null;
+
+create table if not exists public.credit_notes (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references public.invoices(id) on delete cascade,
+  amount integer not null check (amount > 0),
+  reason text not null,
+  created_by uuid references auth.users(id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.credit_note_lines (
+  id uuid primary key default gen_random_uuid(),
+  credit_note_id uuid not null references public.credit_notes(id) on delete cascade,
+  invoice_line_item_id uuid not null references public.invoice_line_items(id) on delete restrict,
+  amount integer not null check (amount > 0),
+  description text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists credit_notes_invoice_id_idx on public.credit_notes (invoice_id);
+create index if not exists credit_note_lines_credit_note_id_idx on public.credit_note_lines (credit_note_id);
+create index if not exists credit_note_lines_invoice_line_item_id_idx on public.credit_note_lines (invoice_line_item_id);
+
+alter table public.credit_notes enable row level security;
+alter table public.credit_note_lines enable row level security;
+
+drop policy if exists "Admins can read credit notes" on public.credit_notes;
+create policy "Admins can read credit notes"
+  on public.credit_notes
+  for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop policy if exists "Admins can issue credit notes" on public.credit_notes;
+create policy "Admins can issue credit notes"
+  on public.credit_notes
+  for insert
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop policy if exists "Admins can read credit note lines" on public.credit_note_lines;
+create policy "Admins can read credit note lines"
+  on public.credit_note_lines
+  for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop policy if exists "Admins can issue credit note lines" on public.credit_note_lines;
+create policy "Admins can issue credit note lines"
+  on public.credit_note_lines
+  for insert
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop trigger if exists audit_row_change on public.credit_notes;
+create trigger audit_row_change after insert or update or delete on public.credit_notes
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_row_change on public.credit_note_lines;
+create trigger audit_row_change after insert or update or delete on public.credit_note_lines
+  for each row execute function public.audit_row_change();
+
+-- Freezes what a sent invoice billed. Balance, status, due date and the like
+-- keep changing as payments, refunds and credits come in.
+create or replace function public.prevent_sent_invoice_changes()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_status text;
+begin
+  if tg_table_name = 'invoices' then
+    if old.status = 'draft' then
+      return case when tg_op = 'DELETE' then old else new end;
+    end if;
+    if tg_op = 'DELETE' then
+      raise exception 'Invoice % has been sent and cannot be deleted; void it instead', old.id;
+    end if;
+    if (new.recipient_type, new.couple_id, new.vendor_id, new.total_amount, new.discount_amount,
+        new.discount_percentage, new.deposit_amount, new.tax_state, new.tax_rate, new.tax_amount,
+        new.card_fee_percentage, new.card_fee_amount)
+      is distinct from
+       (old.recipient_type, old.couple_id, old.vendor_id, old.total_amount, old.discount_amount,
+        old.discount_percentage, old.deposit_amount, old.tax_state, old.tax_rate, old.tax_amount,
+        old.card_fee_percentage, old.card_fee_amount) then
+      raise exception 'Invoice % has been sent and cannot be edited; issue a credit note instead', old.id;
+    end if;
+    return new;
+  end if;
+
+  select status into v_status
+  from public.invoices
+  where id = case when tg_op = 'DELETE' then old.invoice_id else new.invoice_id end;
+  -- A missing invoice means it is being deleted along with its lines
+  if v_status is not null and v_status <> 'draft' then
+    raise exception 'Line items of a sent invoice cannot be changed; issue a credit note instead';
+  end if;
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+drop trigger if exists prevent_sent_invoice_changes on public.invoices;
+create trigger prevent_sent_invoice_changes before update or delete on public.invoices
+  for each row execute function public.prevent_sent_invoice_changes();
+
+drop trigger if exists prevent_sent_invoice_changes on public.invoice_line_items;
+create trigger prevent_sent_invoice_changes before insert or update or delete on public.invoice_line_items
+  for each row execute function public.prevent_sent_invoice_changes();
+
+-- p_lines: [{ "invoice_line_item_id": uuid, "amount": cents, "description": text? }]
+create or replace function public.issue_credit_note(
+  p_invoice_id uuid,
+  p_reason text,
+  p_lines jsonb
+)
+returns public.credit_notes
+language plpgsql
+security invoker
+as $$
+declare
+  v_invoice public.invoices;
+  v_line jsonb;
+  v_item public.invoice_line_items;
+  v_amount integer;
+  v_credited integer;
+  v_total integer := 0;
+  v_credit_note public.credit_notes;
+begin
+  select * into v_invoice from public.invoices where id = p_invoice_id for update;
+  if not found then
+    raise exception 'Invoice % not found', p_invoice_id;
+  end if;
+  if v_invoice.status = 'draft' then
+    raise exception 'Draft invoices can still be edited; credit notes are for sent invoices';
+  end if;
+  if v_invoice.status = 'void' then
+    raise exception 'Invoice % is void', p_invoice_id;
+  end if;
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'A credit note needs a reason';
+  end if;
+  if p_lines is null or jsonb_array_length(p_lines) = 0 then
+    raise exception 'A credit note needs at least one line';
+  end if;
+
+  insert into public.credit_notes (invoice_id, amount, reason)
+  values (p_invoice_id, 1, trim(p_reason))
+  returning * into v_credit_note;
+
+  for v_line in select * from jsonb_array_elements(p_lines) loop
+    select * into v_item
+    from public.invoice_line_items
+    where id = (v_line->>'invoice_line_item_id')::uuid and invoice_id = p_invoice_id;
+    if not found then
+      raise exception 'Line item % is not on invoice %', v_line->>'invoice_line_item_id', p_invoice_id;
+    end if;
+
+    v_amount := (v_line->>'amount')::integer;
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Credit amounts must be greater than zero';
+    end if;
+
+    select coalesce(sum(amount), 0) into v_credited
+    from public.credit_note_lines
+    where invoice_line_item_id = v_item.id;
+    if v_amount > round(coalesce(v_item.custom_price, 0) * coalesce(v_item.quantity, 0)) - v_credited then
+      raise exception 'Credit of % exceeds the % left to credit on line item %',
+        v_amount, round(coalesce(v_item.custom_price, 0) * coalesce(v_item.quantity, 0)) - v_credited, v_item.id;
+    end if;
+
+    insert into public.credit_note_lines (credit_note_id, invoice_line_item_id, amount, description)
+    values (v_credit_note.id, v_item.id, v_amount, nullif(trim(v_line->>'description'), ''));
+    v_total := v_total + v_amount;
+  end loop;
+
+  if v_total > v_invoice.total_amount - v_invoice.credited_amount then
+    raise exception 'Credit of % exceeds the % left to credit on the invoice',
+      v_total, v_invoice.total_amount - v_invoice.credited_amount;
+  end if;
+
+  update public.credit_notes set amount = v_total where id = v_credit_note.id
+  returning * into v_credit_note;
+
+  update public.invoices
+  set
+    credited_amount = credited_amount + v_total,
+    remaining_balance = greatest(remaining_balance - v_total, 0),
+    status = case when remaining_balance - v_total <= 0 then 'paid' else status end,
+    paid_at = case when remaining_balance - v_total <= 0 then coalesce(paid_at, now()) else paid_at end,
+    updated_at = now()
+  where id = p_invoice_id;
+
+  return v_credit_note;
+end;
+$$;
+
+grant execute on function public.issue_credit_note(uuid, text, jsonb) to authenticated;
+
+create or replace function public.void_invoice(
+  p_invoice_id uuid,
+  p_reason text
+)
+returns public.invoices
+language plpgsql
+security invoker
+as $$
+declare
+  v_invoice public.invoices;
+  v_paid integer;
+begin
+  select * into v_invoice from public.invoices where id = p_invoice_id for update;
+  if not found then
+    raise exception 'Invoice % not found', p_invoice_id;
+  end if;
+  if v_invoice.status = 'void' then
+    raise exception 'Invoice % is already void', p_invoice_id;
+  end if;
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'Voiding an invoice needs a reason';
+  end if;
+
+  select coalesce(sum(p.amount), 0) - coalesce(sum(r.refunded), 0) into v_paid
+  from public.payments p
+  left join (
+    select payment_id, sum(amount) as refunded
+    from public.refunds
+    where status <> 'failed'
+    group by payment_id
+  ) r on r.payment_id = p.id
+  where p.invoice_id = p_invoice_id and p.status in ('succeeded', 'paid');
+  if v_paid > 0 then
+    raise exception 'Refund the % paid on this invoice before voiding it', v_paid;
+  end if;
+
+  update public.invoices
+  set
+    status = 'void',
+    remaining_balance = 0,
+    voided_at = now(),
+    void_reason = trim(p_reason),
+    voided_by = auth.uid(),
+    updated_at = now()
+  where id = p_invoice_id
+  returning * into v_invoice;
+
+  return v_invoice;
+end;
+$$;
+
+grant execute on function public.void_invoice(uuid, text) to authenticated;
+
+-- Refunds re-open the balance only up to what is left after credits
+create or replace function public.record_refund(
+  p_payment_id uuid,
+  p_amount integer,
+  p_reason text default null,
+  p_stripe_refund_id text default null
+)
+returns public.refunds
+language plpgsql
+security invoker
+as $$
+declare
+  v_payment public.payments;
+  v_booking public.bookings;
+  v_refunded integer;
+  v_vendor_part integer := 0;
+  v_platform_part integer := 0;
+  v_platform_amount integer;
+  v_refund public.refunds;
+begin
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id;
+  end if;
+  if v_payment.status not in ('succeeded', 'paid') then
+    raise exception 'Only succeeded payments can be refunded (status is %)', v_payment.status;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_refunded
+  from public.refunds
+  where payment_id = p_payment_id and status <> 'failed';
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Refund amount must be greater than zero';
+  end if;
+  if p_amount > v_payment.amount - v_refunded then
+    raise exception 'Refund of % exceeds the % left to refund on this payment', p_amount, v_payment.amount - v_refunded;
+  end if;
+
+  if v_payment.booking_id is not null then
+    select * into v_booking from public.bookings where id = v_payment.booking_id for update;
+  end if;
+
+  if v_booking.id is not null then
+    if v_payment.payment_type = 'deposit' then
+      v_vendor_part := coalesce(v_booking.vendor_deposit_share, 0);
+      v_platform_part := coalesce(v_booking.platform_deposit_share, 0);
+    elsif v_payment.payment_type in ('final', 'final_payment') then
+      v_vendor_part := coalesce(v_booking.vendor_final_share, 0);
+      v_platform_part := coalesce(v_booking.platform_final_share, 0);
+    else
+      v_vendor_part := coalesce(v_booking.vendor_deposit_share, 0) + coalesce(v_booking.vendor_final_share, 0);
+      v_platform_part := coalesce(v_booking.platform_deposit_share, 0) + coalesce(v_booking.platform_final_share, 0);
+    end if;
+  end if;
+
+  -- Without shares to go by, the refund comes out of whoever received the payment
+  if v_vendor_part + v_platform_part = 0 then
+    v_platform_amount := case when v_payment.to_platform then p_amount else 0 end;
+  else
+    v_platform_amount := round(p_amount::numeric * v_platform_part / (v_vendor_part + v_platform_part));
+  end if;
+
+  insert into public.refunds (
+    payment_id, booking_id, invoice_id, amount, vendor_amount, platform_amount, reason, stripe_refund_id
+  )
+  values (
+    p_payment_id, v_payment.booking_id, v_payment.invoice_id, p_amount,
+    p_amount - v_platform_amount, v_platform_amount, nullif(trim(p_reason), ''), p_stripe_refund_id
+  )
+  returning * into v_refund;
+
+  if v_booking.id is not null then
+    update public.bookings
+    set
+      paid_amount = greatest(coalesce(paid_amount, 0) - p_amount, 0),
+      vendor_total_earnings = coalesce(vendor_total_earnings, 0) - v_refund.vendor_amount,
+      platform_total_earnings = coalesce(platform_total_earnings, 0) - v_refund.platform_amount,
+      final_payment_status = case
+        when v_payment.payment_type in ('final', 'final_payment', 'full_payment') then 'pending'
+        else final_payment_status
+      end,
+      updated_at = now()
+    where id = v_booking.id;
+  end if;
+
+  -- A void invoice stays void with nothing owed
+  if v_payment.invoice_id is not null then
+    update public.invoices
+    set
+      remaining_balance = least(remaining_balance + p_amount, total_amount - credited_amount),
+      status = case when status = 'paid' and remaining_balance + p_amount > 0 then 'sent' else status end,
+      paid_at = case when status = 'paid' and remaining_balance + p_amount > 0 then null else paid_at end,
+      updated_at = now()
+    where id = v_payment.invoice_id and status <> 'void';
+  end if;
+
+  return v_refund;
+end;
+$$;
+
+grant execute on function public.record_refund(uuid, integer, text, text) to authenticated;
@@ -0,0 +1,196 @@
+-- Stripe webhook events and the payment status they keep in sync.
+--
+-- The stripe-webhook edge function verifies each delivery's signature and
+-- stores the raw event here, keyed by its Stripe event id so a redelivered
+-- event is stored once. It then calls process_stripe_event, which applies it:
+--   * payment_intent.succeeded marks the intent's payments succeeded (and
+--     records one against the invoice named in the intent's metadata if
+--     checkout never did), marks the invoice paid once nothing is owed on it and
+--     the booking's final payment paid when that is what the intent paid;
+--   * payment_intent.payment_failed and payment_intent.canceled mark the
+--     intent's payments that have not succeeded as failed;
+--   * refund.created and refund.updated record a succeeded refund with
+--     record_refund unless it was already recorded (refunds issued from the
+--     Stripe dashboard rather than through refund-payment).
+-- Any other type is kept and marked ignored. If applying an event fails, its
+-- changes are rolled back and the error is kept on the row; the Stripe events
+-- page replays it through the same function once the cause is fixed.
+create table if not exists public.stripe_events (
+  id text primary key,
+  type text not null,
+  livemode boolean not null default false,
+  payload jsonb not null,
+  status text not null default 'received' check (status in ('received', 'processed', 'ignored', 'failed')),
+  error text,
+  attempts integer not null default 0,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz
+);
+
+create index if not exists stripe_events_received_at_idx on public.stripe_events (received_at desc);
+create index if not exists stripe_events_status_idx on public.stripe_events (status);
+
+alter table public.stripe_events enable row level security;
+
+drop policy if exists "Admins can read stripe events" on public.stripe_events;
+create policy "Admins can read stripe events"
+  on public.stripe_events
+  for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop policy if exists "Admins can replay stripe events" on public.stripe_events;
+create policy "Admins can replay stripe events"
+  on public.stripe_events
+  for update
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- A Stripe refund is recorded once, whether refund-payment or the webhook gets
+-- to it first
+create unique index if not exists refunds_stripe_refund_id_key
+  on public.refunds (stripe_refund_id)
+  where stripe_refund_id is not null;
+
+create or replace function public.apply_stripe_payment_intent_succeeded(p_intent jsonb, p_at timestamptz)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_intent_id text := p_intent->>'id';
+  v_amount integer := (p_intent->>'amount_received')::integer;
+  v_invoice_id uuid := nullif(p_intent->'metadata'->>'invoice_id', '')::uuid;
+begin
+  if v_invoice_id is null then
+    select id into v_invoice_id from public.invoices where stripe_payment_intent_id = v_intent_id;
+  end if;
+
+  update public.payments
+  set status = 'succeeded'
+  where stripe_payment_id = v_intent_id and status not in ('succeeded', 'paid');
+
+  if not exists (select 1 from public.payments where stripe_payment_id = v_intent_id) then
+    if v_invoice_id is null then
+      raise exception 'No payment is recorded for payment intent % and its metadata names no invoice', v_intent_id;
+    end if;
+    insert into public.payments (invoice_id, installment_id, amount, status, payment_type, stripe_payment_id, created_at)
+    values (
+      v_invoice_id,
+      nullif(p_intent->'metadata'->>'installment_id', '')::uuid,
+      v_amount,
+      'succeeded',
+      coalesce(nullif(p_intent->'metadata'->>'payment_type', ''), 'invoice'),
+      v_intent_id,
+      p_at
+    );
+    update public.invoices
+    set remaining_balance = greatest(remaining_balance - v_amount, 0), updated_at = now()
+    where id = v_invoice_id and status <> 'void';
+  end if;
+
+  update public.invoices
+  set
+    status = 'paid',
+    paid_at = coalesce(paid_at, p_at),
+    stripe_payment_intent_id = coalesce(stripe_payment_intent_id, v_intent_id),
+    updated_at = now()
+  where id = v_invoice_id and remaining_balance <= 0 and status not in ('paid', 'void', 'draft');
+
+  update public.bookings b
+  set final_payment_status = 'paid', updated_at = now()
+  from public.payments p
+  where p.stripe_payment_id = v_intent_id
+    and p.booking_id = b.id
+    and p.payment_type in ('final', 'final_payment', 'full_payment')
+    and b.final_payment_status is distinct from 'paid';
+end;
+$$;
+
+create or replace function public.apply_stripe_payment_intent_failed(p_intent jsonb)
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  update public.payments
+  set status = 'failed'
+  where stripe_payment_id = p_intent->>'id' and status not in ('succeeded', 'paid', 'failed');
+end;
+$$;
+
+create or replace function public.apply_stripe_refund(p_refund jsonb)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_payment_id uuid;
+begin
+  if p_refund->>'status' <> 'succeeded'
+    or exists (select 1 from public.refunds where stripe_refund_id = p_refund->>'id') then
+    return;
+  end if;
+
+  select id into v_payment_id
+  from public.payments
+  where stripe_payment_id = p_refund->>'payment_intent' and status in ('succeeded', 'paid')
+  order by created_at
+  limit 1;
+  if v_payment_id is null then
+    raise exception 'No succeeded payment is recorded for payment intent %', p_refund->>'payment_intent';
+  end if;
+
+  perform public.record_refund(
+    v_payment_id,
+    (p_refund->>'amount')::integer,
+    coalesce(nullif(p_refund->>'reason', ''), 'Refunded in Stripe'),
+    p_refund->>'id'
+  );
+end;
+$$;
+
+create or replace function public.process_stripe_event(p_event_id text)
+returns public.stripe_events
+language plpgsql
+security invoker
+as $$
+declare
+  v_event public.stripe_events;
+  v_object jsonb;
+  v_status text := 'processed';
+  v_error text;
+begin
+  select * into v_event from public.stripe_events where id = p_event_id for update;
+  if not found then
+    raise exception 'Stripe event % not found', p_event_id;
+  end if;
+  v_object := v_event.payload->'data'->'object';
+
+  -- The inner block is its own savepoint: a failure undoes only this event's changes
+  begin
+    if v_event.type = 'payment_intent.succeeded' then
+      perform public.apply_stripe_payment_intent_succeeded(
+        v_object,
+        to_timestamp((v_event.payload->>'created')::bigint)
+      );
+    elsif v_event.type in ('payment_intent.payment_failed', 'payment_intent.canceled') then
+      perform public.apply_stripe_payment_intent_failed(v_object);
+    elsif v_event.type in ('refund.created', 'refund.updated') then
+      perform public.apply_stripe_refund(v_object);
+    else
+      v_status := 'ignored';
+    end if;
+  exception when others then
+    v_status := 'failed';
+    v_error := sqlerrm;
+  end;
+
+  update public.stripe_events
+  set status = v_status, error = v_error, attempts = attempts + 1, processed_at = now()
+  where id = p_event_id
+  returning * into v_event;
+
+  return v_event;
+end;
+$$;
+
+grant execute on function public.process_stripe_event(text) to authenticated;
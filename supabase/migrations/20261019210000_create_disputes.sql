@@ -0,0 +1,199 @@
+-- Disputes (chargebacks) on card payments.
+--
+-- A dispute belongs to the payment the cardholder disputed, and through it to
+-- the payment's booking and vendor. Disputes raised in Stripe arrive as
+-- charge.dispute.* webhook events, which process_stripe_event now applies by
+-- matching the dispute's payment intent to payments.stripe_payment_id; admins
+-- can also record one by hand. Status and reason use Stripe's values.
+--
+-- Evidence files are uploaded to the private dispute-evidence bucket under the
+-- dispute's id; evidence_files lists their paths.
+--
+-- While a dispute is open (or was lost) the booking's vendor share is held back
+-- from the vendor's payout statement; see src/utils/disputes.ts.
+create table if not exists public.disputes (
+  id uuid primary key default gen_random_uuid(),
+  payment_id uuid not null references public.payments(id) on delete cascade,
+  booking_id uuid references public.bookings(id) on delete set null,
+  vendor_id uuid references public.vendors(id) on delete set null,
+  stripe_dispute_id text unique,
+  amount integer not null check (amount > 0),
+  reason text not null default 'general',
+  status text not null default 'needs_response' check (status in (
+    'warning_needs_response', 'warning_under_review', 'warning_closed',
+    'needs_response', 'under_review', 'won', 'lost'
+  )),
+  evidence_due_by timestamptz,
+  evidence_files text[] not null default '{}',
+  notes text,
+  opened_at timestamptz not null default now(),
+  closed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists disputes_payment_id_idx on public.disputes (payment_id);
+create index if not exists disputes_booking_id_idx on public.disputes (booking_id);
+create index if not exists disputes_vendor_id_idx on public.disputes (vendor_id);
+create index if not exists disputes_evidence_due_by_idx on public.disputes (evidence_due_by) where closed_at is null;
+
+alter table public.disputes enable row level security;
+
+drop policy if exists "Admins can read disputes" on public.disputes;
+create policy "Admins can read disputes"
+  on public.disputes
+  for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop policy if exists "Admins can record disputes" on public.disputes;
+create policy "Admins can record disputes"
+  on public.disputes
+  for insert
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop policy if exists "Admins can update disputes" on public.disputes;
+create policy "Admins can update disputes"
+  on public.disputes
+  for update
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop trigger if exists audit_row_change on public.disputes;
+create trigger audit_row_change after insert or update or delete on public.disputes
+  for each row execute function public.audit_row_change();
+
+insert into storage.buckets (id, name, public)
+values ('dispute-evidence', 'dispute-evidence', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Admins can read dispute evidence" on storage.objects;
+create policy "Admins can read dispute evidence"
+  on storage.objects
+  for select
+  using (
+    bucket_id = 'dispute-evidence'
+    and exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+drop policy if exists "Admins can upload dispute evidence" on storage.objects;
+create policy "Admins can upload dispute evidence"
+  on storage.objects
+  for insert
+  with check (
+    bucket_id = 'dispute-evidence'
+    and exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+drop policy if exists "Admins can delete dispute evidence" on storage.objects;
+create policy "Admins can delete dispute evidence"
+  on storage.objects
+  for delete
+  using (
+    bucket_id = 'dispute-evidence'
+    and exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+-- Creates or updates the dispute from a Stripe dispute object. Closing
+-- statuses stamp closed_at; a dispute Stripe re-opens clears it again.
+create or replace function public.apply_stripe_dispute(p_dispute jsonb)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_payment public.payments;
+  v_vendor_id uuid;
+  v_closed boolean := p_dispute->>'status' in ('won', 'lost', 'warning_closed');
+begin
+  select * into v_payment
+  from public.payments
+  where stripe_payment_id = p_dispute->>'payment_intent'
+  order by created_at
+  limit 1;
+  if not found then
+    raise exception 'No payment is recorded for payment intent %', p_dispute->>'payment_intent';
+  end if;
+
+  select coalesce(
+    (select vendor_id from public.bookings where id = v_payment.booking_id),
+    (select vendor_id from public.invoices where id = v_payment.invoice_id)
+  ) into v_vendor_id;
+
+  insert into public.disputes (
+    payment_id, booking_id, vendor_id, stripe_dispute_id, amount, reason, status,
+    evidence_due_by, opened_at, closed_at
+  )
+  values (
+    v_payment.id,
+    v_payment.booking_id,
+    v_vendor_id,
+    p_dispute->>'id',
+    (p_dispute->>'amount')::integer,
+    coalesce(nullif(p_dispute->>'reason', ''), 'general'),
+    p_dispute->>'status',
+    to_timestamp(nullif(p_dispute->'evidence_details'->>'due_by', '')::bigint),
+    coalesce(to_timestamp(nullif(p_dispute->>'created', '')::bigint), now()),
+    case when v_closed then now() end
+  )
+  on conflict (stripe_dispute_id) do update
+  set
+    amount = excluded.amount,
+    reason = excluded.reason,
+    status = excluded.status,
+    evidence_due_by = excluded.evidence_due_by,
+    closed_at = case when v_closed then coalesce(public.disputes.closed_at, now()) end,
+    updated_at = now();
+end;
+$$;
+
+-- Same as in create_stripe_events, with the dispute events added
+create or replace function public.process_stripe_event(p_event_id text)
+returns public.stripe_events
+language plpgsql
+security invoker
+as $$
+declare
+  v_event public.stripe_events;
+  v_object jsonb;
+  v_status text := 'processed';
+  v_error text;
+begin
+  select * into v_event from public.stripe_events where id = p_event_id for update;
+  if not found then
+    raise exception 'Stripe event % not found', p_event_id;
+  end if;
+  v_object := v_event.payload->'data'->'object';
+
+  -- The inner block is its own savepoint: a failure undoes only this event's changes
+  begin
+    if v_event.type = 'payment_intent.succeeded' then
+      perform public.apply_stripe_payment_intent_succeeded(
+        v_object,
+        to_timestamp((v_event.payload->>'created')::bigint)
+      );
+    elsif v_event.type in ('payment_intent.payment_failed', 'payment_intent.canceled') then
+      perform public.apply_stripe_payment_intent_failed(v_object);
+    elsif v_event.type in ('refund.created', 'refund.updated') then
+      perform public.apply_stripe_refund(v_object);
+    elsif v_event.type in (
+      'charge.dispute.created', 'charge.dispute.updated', 'charge.dispute.closed',
+      'charge.dispute.funds_withdrawn', 'charge.dispute.funds_reinstated'
+    ) then
+      perform public.apply_stripe_dispute(v_object);
+    else
+      v_status := 'ignored';
+    end if;
+  exception when others then
+    v_status := 'failed';
+    v_error := sqlerrm;
+  end;
+
+  update public.stripe_events
+  set status = v_status, error = v_error, attempts = attempts + 1, processed_at = now()
+  where id = p_event_id
+  returning * into v_event;
+
+  return v_event;
+end;
+$$;
+
+grant execute on function public.process_stripe_event(text) to authenticated;
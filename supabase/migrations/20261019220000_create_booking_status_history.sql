@@ -0,0 +1,235 @@
+-- Booking lifecycle with enforced transitions and a history of every change.
+--
+-- A booking moves inquiry -> pending_deposit -> confirmed -> completed ->
+-- reviewed. It can be cancelled until it is completed, and a cancelled
+-- booking whose money has been given back is marked refunded:
+--
+--   inquiry          -> pending_deposit, cancelled
+--   pending_deposit  -> confirmed, cancelled
+--   confirmed        -> completed, cancelled
+--   completed        -> reviewed
+--   cancelled        -> refunded
+--
+-- Some moves have guard conditions: confirmed needs a succeeded deposit
+-- payment, completed needs the booked event to have ended, reviewed needs a
+-- review of the vendor by the couple and refunded needs a succeeded refund.
+-- enforce_booking_status rejects anything else, whichever path the update
+-- takes, and writes each change to booking_status_history. The dashboard goes
+-- through transition_booking_status so a note can be kept with the change.
+-- src/utils/bookingStatus.ts carries the same rules for the UI.
+update public.bookings set status = 'pending_deposit' where status = 'pending';
+update public.bookings
+set status = 'inquiry'
+where status not in ('inquiry', 'pending_deposit', 'confirmed', 'completed', 'reviewed', 'cancelled', 'refunded');
+
+alter table public.bookings
+  alter column status set default 'inquiry',
+  drop constraint if exists bookings_status_check,
+  add constraint bookings_status_check
+    check (status in ('inquiry', 'pending_deposit', 'confirmed', 'completed', 'reviewed', 'cancelled', 'refunded'));
+
+create table if not exists public.booking_status_history (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  note text,
+  changed_by uuid references auth.users(id) on delete set null default auth.uid(),
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists booking_status_history_booking_id_idx
+  on public.booking_status_history (booking_id, changed_at);
+
+alter table public.booking_status_history enable row level security;
+
+drop policy if exists "Admins can read booking status history" on public.booking_status_history;
+create policy "Admins can read booking status history"
+  on public.booking_status_history
+  for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- Why p_booking may not move to p_to_status, or null when it may
+create or replace function public.booking_transition_error(p_booking public.bookings, p_to_status text)
+returns text
+language plpgsql
+stable
+security invoker
+as $$
+begin
+  if not (p_booking.status, p_to_status) in (
+    ('inquiry', 'pending_deposit'), ('inquiry', 'cancelled'),
+    ('pending_deposit', 'confirmed'), ('pending_deposit', 'cancelled'),
+    ('confirmed', 'completed'), ('confirmed', 'cancelled'),
+    ('completed', 'reviewed'),
+    ('cancelled', 'refunded')
+  ) then
+    return format('A %s booking cannot be moved to %s', p_booking.status, p_to_status);
+  end if;
+
+  if p_to_status = 'confirmed' and not exists (
+    select 1 from public.payments
+    where booking_id = p_booking.id and payment_type = 'deposit' and status in ('succeeded', 'paid')
+  ) then
+    return 'A booking is confirmed once its deposit has been paid';
+  end if;
+
+  if p_to_status = 'completed' and not exists (
+    select 1 from public.events where id = p_booking.event_id and end_time < now()
+  ) then
+    return 'A booking is completed once its event has ended';
+  end if;
+
+  if p_to_status = 'reviewed' and not exists (
+    select 1 from public.vendor_reviews
+    where vendor_id = p_booking.vendor_id and couple_id = p_booking.couple_id
+  ) then
+    return 'A booking is reviewed once the couple has reviewed the vendor';
+  end if;
+
+  if p_to_status = 'refunded' and not exists (
+    select 1 from public.refunds where booking_id = p_booking.id and status = 'succeeded'
+  ) then
+    return 'A booking is refunded once a refund has gone through';
+  end if;
+
+  return null;
+end;
+$$;
+
+-- Security definer so the history is written whoever changes the booking
+create or replace function public.enforce_booking_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_error text;
+begin
+  if tg_op = 'UPDATE' then
+    if new.status is not distinct from old.status then
+      return new;
+    end if;
+    v_error := public.booking_transition_error(old, new.status);
+    if v_error is not null then
+      raise exception '%', v_error;
+    end if;
+  end if;
+
+  insert into public.booking_status_history (booking_id, from_status, to_status, note)
+  values (
+    new.id,
+    case when tg_op = 'UPDATE' then old.status end,
+    new.status,
+    nullif(current_setting('app.booking_status_note', true), '')
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_booking_status on public.bookings;
+create trigger enforce_booking_status before update of status on public.bookings
+  for each row execute function public.enforce_booking_status();
+
+-- The history row needs the booking to exist, so inserts are recorded after
+drop trigger if exists record_booking_status on public.bookings;
+create trigger record_booking_status after insert on public.bookings
+  for each row execute function public.enforce_booking_status();
+
+create or replace function public.transition_booking_status(
+  p_booking_id uuid,
+  p_status text,
+  p_note text default null
+)
+returns public.bookings
+language plpgsql
+security invoker
+as $$
+declare
+  v_booking public.bookings;
+begin
+  perform set_config('app.booking_status_note', coalesce(p_note, ''), true);
+
+  update public.bookings
+  set status = p_status, updated_at = now()
+  where id = p_booking_id
+  returning * into v_booking;
+  if not found then
+    raise exception 'Booking % not found', p_booking_id;
+  end if;
+
+  perform set_config('app.booking_status_note', '', true);
+  return v_booking;
+end;
+$$;
+
+grant execute on function public.transition_booking_status(uuid, text, text) to authenticated;
+
+-- Bookings already in place start their history where they are now
+insert into public.booking_status_history (booking_id, from_status, to_status, note, changed_by, changed_at)
+select b.id, null, b.status, 'Status before the booking lifecycle was introduced', null, b.created_at
+from public.bookings b
+where not exists (select 1 from public.booking_status_history h where h.booking_id = b.id);
+
+-- Same as in create_bookings_batch, with bookings that name no status starting
+-- as inquiries rather than the old 'pending'
+create or replace function public.create_bookings_batch(p_bookings jsonb)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_item jsonb;
+  v_index integer := 0;
+  v_event_id uuid;
+  v_created jsonb := '[]'::jsonb;
+begin
+  if jsonb_typeof(p_bookings) <> 'array' then
+    raise exception 'p_bookings must be a JSON array';
+  end if;
+
+  for v_item in select value from jsonb_array_elements(p_bookings)
+  loop
+    v_index := v_index + 1;
+    begin
+      insert into public.events (
+        couple_id, vendor_id, start_time, end_time, type, title, is_blocked_time, created_at, updated_at
+      )
+      values (
+        (v_item->>'couple_id')::uuid,
+        (v_item->>'vendor_id')::uuid,
+        (v_item->>'start_time')::timestamptz,
+        (v_item->>'end_time')::timestamptz,
+        coalesce(v_item->>'event_type', 'wedding'),
+        v_item->>'title',
+        coalesce((v_item->>'is_blocked_time')::boolean, true),
+        now(),
+        now()
+      )
+      returning id into v_event_id;
+
+      perform public.create_booking(
+        p_couple_id := (v_item->>'couple_id')::uuid,
+        p_vendor_id := (v_item->>'vendor_id')::uuid,
+        p_status := coalesce(v_item->>'status', 'inquiry'),
+        p_amount := coalesce((v_item->>'amount')::integer, 0),
+        p_service_type := coalesce(v_item->>'service_type', 'Unknown'),
+        p_event_type := coalesce(v_item->>'event_type', 'wedding'),
+        p_package_id := nullif(v_item->>'package_id', '')::uuid,
+        p_venue_id := nullif(v_item->>'venue_id', '')::uuid,
+        p_event_id := v_event_id
+      );
+
+      v_created := v_created || jsonb_build_object('index', v_index, 'event_id', v_event_id);
+    exception when others then
+      raise exception 'Booking % of % failed: %', v_index, jsonb_array_length(p_bookings), sqlerrm
+        using detail = jsonb_build_object('failed_index', v_index)::text;
+    end;
+  end loop;
+
+  return v_created;
+end;
+$$;
+
+grant execute on function public.create_bookings_batch(jsonb) to authenticated;
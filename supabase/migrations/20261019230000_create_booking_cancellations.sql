@@ -0,0 +1,251 @@
+-- Guided cancellation and rescheduling of bookings.
+--
+-- cancellation_policy_tiers is the refund policy: a booking cancelled at least
+-- min_days_before days ahead of its event gets refund_percentage of what was
+-- paid back, taking the tier with the highest min_days_before that applies.
+-- The dashboard works out the refunds from it (src/utils/bookingChanges.ts),
+-- issues them one payment at a time through the refund-payment function, and
+-- then calls cancel_booking. That moves the booking to cancelled (and on to
+-- refunded once a refund has gone through) and settles its invoices: an
+-- invoice with nothing left paid on it is voided, and the unpaid balance of
+-- any other is credited so nothing more is chased.
+--
+-- reschedule_booking moves the booking's event, and the couple's other
+-- upcoming events with the same vendor, by the same amount of time. It
+-- refuses when a moved event would overlap another event blocking the
+-- vendor's calendar, and keeps each move in booking_reschedules.
+create table if not exists public.cancellation_policy_tiers (
+  id uuid primary key default gen_random_uuid(),
+  min_days_before integer not null unique check (min_days_before >= 0),
+  refund_percentage numeric(5, 2) not null check (refund_percentage between 0 and 100),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.cancellation_policy_tiers enable row level security;
+
+drop policy if exists "Admins can manage cancellation policy" on public.cancellation_policy_tiers;
+create policy "Admins can manage cancellation policy"
+  on public.cancellation_policy_tiers
+  for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop trigger if exists audit_row_change on public.cancellation_policy_tiers;
+create trigger audit_row_change after insert or update or delete on public.cancellation_policy_tiers
+  for each row execute function public.audit_row_change();
+
+insert into public.cancellation_policy_tiers (min_days_before, refund_percentage)
+values (90, 100), (30, 50), (0, 0)
+on conflict (min_days_before) do nothing;
+
+alter table public.bookings
+  add column if not exists cancelled_at timestamptz,
+  add column if not exists cancellation_reason text,
+  add column if not exists cancellation_refund_percentage numeric(5, 2);
+
+create table if not exists public.booking_reschedules (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  event_id uuid references public.events(id) on delete set null,
+  previous_start_time timestamptz not null,
+  previous_end_time timestamptz not null,
+  new_start_time timestamptz not null,
+  new_end_time timestamptz not null,
+  reason text,
+  created_by uuid references auth.users(id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists booking_reschedules_booking_id_idx on public.booking_reschedules (booking_id);
+
+alter table public.booking_reschedules enable row level security;
+
+drop policy if exists "Admins can read booking reschedules" on public.booking_reschedules;
+create policy "Admins can read booking reschedules"
+  on public.booking_reschedules
+  for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop policy if exists "Admins can record booking reschedules" on public.booking_reschedules;
+create policy "Admins can record booking reschedules"
+  on public.booking_reschedules
+  for insert
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- Refunds are issued before this is called; p_refund_percentage is kept on the
+-- booking as the share of the payments the cancellation gave back
+create or replace function public.cancel_booking(
+  p_booking_id uuid,
+  p_reason text,
+  p_refund_percentage numeric
+)
+returns public.bookings
+language plpgsql
+security invoker
+as $$
+declare
+  v_booking public.bookings;
+  v_invoice public.invoices;
+  v_paid integer;
+  v_remaining integer;
+  v_line record;
+  v_take integer;
+  v_lines jsonb;
+  v_reason text := nullif(trim(p_reason), '');
+begin
+  if v_reason is null then
+    raise exception 'A cancellation needs a reason';
+  end if;
+  if p_refund_percentage is null or p_refund_percentage not between 0 and 100 then
+    raise exception 'The refund percentage must be between 0 and 100';
+  end if;
+
+  select * into v_booking from public.bookings where id = p_booking_id for update;
+  if not found then
+    raise exception 'Booking % not found', p_booking_id;
+  end if;
+
+  perform public.transition_booking_status(p_booking_id, 'cancelled', v_reason);
+  update public.bookings
+  set
+    cancelled_at = now(),
+    cancellation_reason = v_reason,
+    cancellation_refund_percentage = p_refund_percentage,
+    updated_at = now()
+  where id = p_booking_id;
+
+  for v_invoice in
+    select * from public.invoices
+    where status <> 'void'
+      and (
+        id in (select invoice_id from public.invoice_line_items where booking_id = p_booking_id)
+        or id in (select invoice_id from public.payments where booking_id = p_booking_id)
+      )
+    for update
+  loop
+    select coalesce(sum(p.amount), 0) - coalesce(sum(r.refunded), 0) into v_paid
+    from public.payments p
+    left join (
+      select payment_id, sum(amount) as refunded
+      from public.refunds
+      where status <> 'failed'
+      group by payment_id
+    ) r on r.payment_id = p.id
+    where p.invoice_id = v_invoice.id and p.status in ('succeeded', 'paid');
+
+    if v_paid <= 0 then
+      perform public.void_invoice(v_invoice.id, 'Booking cancelled: ' || v_reason);
+    elsif v_invoice.status <> 'draft' and v_invoice.remaining_balance > 0 then
+      -- Credit the balance line by line, as far as the lines can still be credited
+      v_remaining := v_invoice.remaining_balance;
+      v_lines := '[]'::jsonb;
+      for v_line in
+        select
+          li.id,
+          round(coalesce(li.custom_price, 0) * coalesce(li.quantity, 0))
+            - coalesce((select sum(amount) from public.credit_note_lines where invoice_line_item_id = li.id), 0) as creditable
+        from public.invoice_line_items li
+        where li.invoice_id = v_invoice.id
+        order by li.created_at
+      loop
+        exit when v_remaining <= 0;
+        v_take := least(v_line.creditable, v_remaining);
+        if v_take > 0 then
+          v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+            'invoice_line_item_id', v_line.id,
+            'amount', v_take,
+            'description', 'Booking cancelled'
+          ));
+          v_remaining := v_remaining - v_take;
+        end if;
+      end loop;
+
+      if jsonb_array_length(v_lines) > 0 then
+        perform public.issue_credit_note(v_invoice.id, 'Booking cancelled: ' || v_reason, v_lines);
+      end if;
+    end if;
+  end loop;
+
+  if exists (select 1 from public.refunds where booking_id = p_booking_id and status = 'succeeded') then
+    perform public.transition_booking_status(p_booking_id, 'refunded', 'Cancellation refunds issued');
+  end if;
+
+  select * into v_booking from public.bookings where id = p_booking_id;
+  return v_booking;
+end;
+$$;
+
+grant execute on function public.cancel_booking(uuid, text, numeric) to authenticated;
+
+create or replace function public.reschedule_booking(
+  p_booking_id uuid,
+  p_start_time timestamptz,
+  p_reason text default null
+)
+returns setof public.booking_reschedules
+language plpgsql
+security invoker
+as $$
+declare
+  v_booking public.bookings;
+  v_event public.events;
+  v_shift interval;
+  v_conflict public.events;
+begin
+  select * into v_booking from public.bookings where id = p_booking_id for update;
+  if not found then
+    raise exception 'Booking % not found', p_booking_id;
+  end if;
+  if v_booking.status not in ('inquiry', 'pending_deposit', 'confirmed') then
+    raise exception 'A % booking cannot be rescheduled', v_booking.status;
+  end if;
+
+  select * into v_event from public.events where id = v_booking.event_id;
+  if not found then
+    raise exception 'Booking % has no event to move', p_booking_id;
+  end if;
+  v_shift := p_start_time - v_event.start_time;
+  if v_shift = interval '0' then
+    raise exception 'The booking already starts at that time';
+  end if;
+
+  drop table if exists rescheduled_events;
+  create temporary table rescheduled_events on commit drop as
+  select id, start_time, end_time
+  from public.events
+  where id = v_booking.event_id
+     or (couple_id = v_booking.couple_id and vendor_id = v_booking.vendor_id and end_time > now());
+
+  select e.* into v_conflict
+  from public.events e
+  where e.vendor_id = v_booking.vendor_id
+    and e.is_blocked_time
+    and e.id not in (select id from rescheduled_events)
+    and exists (
+      select 1 from rescheduled_events m
+      where tstzrange(m.start_time + v_shift, m.end_time + v_shift) && tstzrange(e.start_time, e.end_time)
+    )
+  order by e.start_time
+  limit 1;
+  if found then
+    raise exception 'The vendor is not available: % runs from % to %',
+      coalesce(v_conflict.title, v_conflict.type), v_conflict.start_time, v_conflict.end_time;
+  end if;
+
+  update public.events e
+  set start_time = e.start_time + v_shift, end_time = e.end_time + v_shift, updated_at = now()
+  from rescheduled_events m
+  where e.id = m.id;
+
+  return query
+  insert into public.booking_reschedules (
+    booking_id, event_id, previous_start_time, previous_end_time, new_start_time, new_end_time, reason
+  )
+  select p_booking_id, m.id, m.start_time, m.end_time, m.start_time + v_shift, m.end_time + v_shift, nullif(trim(p_reason), '')
+  from rescheduled_events m
+  returning *;
+end;
+$$;
+
+grant execute on function public.reschedule_booking(uuid, timestamptz, text) to authenticated;
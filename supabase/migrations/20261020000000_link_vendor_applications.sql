@@ -0,0 +1,31 @@
+-- Approving a vendor application can create the vendor in one step (the
+-- approve-vendor-application function). The application keeps the id of the
+-- vendor it became, which also stops it being onboarded twice.
+--
+-- vendor-media holds the vendor's public photos and videos. The function
+-- copies the applicant's profile photo and work samples into it from the
+-- vendor-applications bucket.
+alter table public.vendor_applications
+  add column if not exists vendor_id uuid unique references public.vendors(id) on delete set null;
+
+insert into storage.buckets (id, name, public)
+values ('vendor-media', 'vendor-media', true)
+on conflict (id) do nothing;
+
+drop policy if exists "Admins can upload vendor media" on storage.objects;
+create policy "Admins can upload vendor media"
+  on storage.objects
+  for insert
+  with check (
+    bucket_id = 'vendor-media'
+    and exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+drop policy if exists "Admins can delete vendor media" on storage.objects;
+create policy "Admins can delete vendor media"
+  on storage.objects
+  for delete
+  using (
+    bucket_id = 'vendor-media'
+    and exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
@@ -0,0 +1,181 @@
+-- Vendor applications are scored against a rubric by several admins, each on
+-- their own.
+--
+-- application_rubric_criteria is the rubric: each criterion is scored from 0
+-- to max_score and counts towards the total by its weight. application_scores
+-- holds one score per reviewer per criterion. A reviewer's review is complete
+-- once they have scored every active criterion, and an application can only be
+-- approved once application_review_settings.quorum reviewers have completed
+-- theirs. The dashboard works out the aggregate score and how far reviewers
+-- disagree from the same rows (src/utils/applicationReviews.ts).
+create table if not exists public.application_rubric_criteria (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  weight numeric(5, 2) not null default 1 check (weight > 0),
+  max_score integer not null default 5 check (max_score between 1 and 10),
+  position integer not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.application_rubric_criteria enable row level security;
+
+drop policy if exists "Admins can manage the application rubric" on public.application_rubric_criteria;
+create policy "Admins can manage the application rubric"
+  on public.application_rubric_criteria
+  for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop trigger if exists audit_row_change on public.application_rubric_criteria;
+create trigger audit_row_change after insert or update or delete on public.application_rubric_criteria
+  for each row execute function public.audit_row_change();
+
+insert into public.application_rubric_criteria (name, description, weight, position)
+select name, description, weight, position
+from (values
+  ('Portfolio quality', 'Composition, consistency and storytelling in the work samples and links', 2, 1),
+  ('Gear', 'Professional, backed-up equipment in good condition', 1, 2),
+  ('Experience', 'Weddings and comparable events worked', 1.5, 3),
+  ('Coverage area demand', 'How much we need more vendors in the areas they cover', 1, 4)
+) as seed(name, description, weight, position)
+where not exists (select 1 from public.application_rubric_criteria);
+
+create table if not exists public.application_review_settings (
+  id boolean primary key default true check (id),
+  quorum integer not null default 2 check (quorum >= 1),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.application_review_settings enable row level security;
+
+drop policy if exists "Admins can manage application review settings" on public.application_review_settings;
+create policy "Admins can manage application review settings"
+  on public.application_review_settings
+  for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+insert into public.application_review_settings (id, quorum)
+values (true, 2)
+on conflict (id) do nothing;
+
+create table if not exists public.application_scores (
+  id uuid primary key default gen_random_uuid(),
+  application_id uuid not null references public.vendor_applications(id) on delete cascade,
+  criterion_id uuid not null references public.application_rubric_criteria(id) on delete cascade,
+  reviewer_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  score integer not null check (score >= 0),
+  comment text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (application_id, criterion_id, reviewer_id)
+);
+
+create index if not exists application_scores_application_id_idx on public.application_scores (application_id);
+
+alter table public.application_scores enable row level security;
+
+drop policy if exists "Admins can read application scores" on public.application_scores;
+create policy "Admins can read application scores"
+  on public.application_scores
+  for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- Reviewers only ever write their own scores
+drop policy if exists "Admins can score applications" on public.application_scores;
+create policy "Admins can score applications"
+  on public.application_scores
+  for all
+  using (
+    reviewer_id = auth.uid()
+    and exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  )
+  with check (
+    reviewer_id = auth.uid()
+    and exists (select 1 from public.profiles where id = auth.uid() and role = 'admin')
+  );
+
+drop trigger if exists audit_row_change on public.application_scores;
+create trigger audit_row_change after insert or update or delete on public.application_scores
+  for each row execute function public.audit_row_change();
+
+create or replace function public.check_application_score()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_max integer;
+begin
+  select max_score into v_max from public.application_rubric_criteria where id = new.criterion_id;
+  if new.score > v_max then
+    raise exception 'Scores for this criterion go up to %', v_max;
+  end if;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists check_application_score on public.application_scores;
+create trigger check_application_score before insert or update on public.application_scores
+  for each row execute function public.check_application_score();
+
+-- Why the application cannot be approved yet, or null once enough reviewers
+-- have scored every active criterion
+create or replace function public.application_quorum_error(p_application_id uuid)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_quorum integer;
+  v_criteria integer;
+  v_complete integer;
+begin
+  select coalesce((select quorum from public.application_review_settings), 1) into v_quorum;
+  select count(*) into v_criteria from public.application_rubric_criteria where is_active;
+
+  select count(*) into v_complete
+  from (
+    select s.reviewer_id
+    from public.application_scores s
+    join public.application_rubric_criteria c on c.id = s.criterion_id and c.is_active
+    where s.application_id = p_application_id
+    group by s.reviewer_id
+    having count(*) = v_criteria
+  ) complete;
+
+  if v_complete >= v_quorum then
+    return null;
+  end if;
+  return format('Approval needs %s complete review%s; this application has %s',
+    v_quorum, case when v_quorum = 1 then '' else 's' end, v_complete);
+end;
+$$;
+
+grant execute on function public.application_quorum_error(uuid) to authenticated;
+
+create or replace function public.enforce_application_quorum()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_error text;
+begin
+  if new.status = 'approved' and old.status is distinct from 'approved' then
+    v_error := public.application_quorum_error(new.id);
+    if v_error is not null then
+      raise exception '%', v_error;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_application_quorum on public.vendor_applications;
+create trigger enforce_application_quorum before update of status on public.vendor_applications
+  for each row execute function public.enforce_application_quorum();
@@ -0,0 +1,166 @@
+-- A maintained catalog of gear models and whether each is good enough for a
+-- service type, so submitted gear can be rated without an admin looking up
+-- every model.
+--
+-- rate_gear rates one item for the services a vendor or applicant offers:
+-- the best catalog rating across those services, turned down a step for gear
+-- in fair condition and rejected outright in poor condition. Models the
+-- catalog does not list are borderline until an admin rates them by hand.
+-- vendor_gear keeps the result in auto_rating next to the manual gear_rating,
+-- and is re-rated whenever the catalog or the vendor's services change.
+-- Applications are rated on the fly from their gear json with the same rules
+-- (src/utils/gearEligibility.ts).
+create table if not exists public.gear_catalog (
+  id uuid primary key default gen_random_uuid(),
+  service_type text not null,
+  gear_type text not null,
+  brand text not null,
+  model text not null,
+  rating text not null check (rating in ('approved', 'borderline', 'rejected')),
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists gear_catalog_model_key
+  on public.gear_catalog (service_type, lower(brand), lower(model));
+
+alter table public.gear_catalog enable row level security;
+
+drop policy if exists "Admins can manage the gear catalog" on public.gear_catalog;
+create policy "Admins can manage the gear catalog"
+  on public.gear_catalog
+  for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop trigger if exists audit_row_change on public.gear_catalog;
+create trigger audit_row_change after insert or update or delete on public.gear_catalog
+  for each row execute function public.audit_row_change();
+
+insert into public.gear_catalog (service_type, gear_type, brand, model, rating, notes)
+select service_type, gear_type, brand, model, rating, notes
+from (values
+  ('Photography', 'Camera', 'Sony', 'A7 IV', 'approved', null),
+  ('Photography', 'Camera', 'Canon', 'EOS R6', 'approved', null),
+  ('Photography', 'Camera', 'Nikon', 'Z6 II', 'approved', null),
+  ('Photography', 'Camera', 'Canon', 'EOS Rebel T7', 'borderline', 'Entry-level body; needs a fast lens for receptions'),
+  ('Photography', 'Camera', 'Canon', 'EOS 5D Mark II', 'rejected', 'Single card slot and poor low-light performance'),
+  ('Photography', 'Lens', 'Sigma', '35mm f/1.4 Art', 'approved', null),
+  ('Videography', 'Camera', 'Sony', 'FX3', 'approved', null),
+  ('Videography', 'Camera', 'Sony', 'A7 IV', 'approved', null),
+  ('Videography', 'Camera', 'Panasonic', 'GH5', 'borderline', 'Fine in daylight, noisy at receptions'),
+  ('DJ Services', 'Controller', 'Pioneer', 'DDJ-FLX10', 'approved', null),
+  ('DJ Services', 'Controller', 'Pioneer', 'DDJ-200', 'rejected', 'Hobbyist controller without booth outputs')
+) as seed(service_type, gear_type, brand, model, rating, notes)
+where not exists (select 1 from public.gear_catalog);
+
+alter table public.vendor_gear
+  add column if not exists auto_rating text check (auto_rating in ('approved', 'borderline', 'rejected')),
+  add column if not exists auto_rating_reason text;
+
+create index if not exists vendor_gear_auto_rating_idx on public.vendor_gear (auto_rating);
+
+create or replace function public.rate_gear(
+  p_service_types text[],
+  p_brand text,
+  p_model text,
+  p_condition text
+)
+returns table (rating text, reason text)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_entry public.gear_catalog%rowtype;
+  v_condition text := lower(trim(coalesce(p_condition, '')));
+begin
+  select * into v_entry
+  from public.gear_catalog c
+  where c.service_type = any (coalesce(p_service_types, '{}'))
+    and lower(c.brand) = lower(trim(p_brand))
+    and lower(c.model) = lower(trim(p_model))
+  order by case c.rating when 'approved' then 0 when 'borderline' then 1 else 2 end, c.service_type
+  limit 1;
+
+  if v_condition = 'poor' then
+    return query select 'rejected'::text, 'In poor condition';
+  elsif v_entry.id is null then
+    return query select 'borderline'::text, 'Not in the gear catalog; rate it by hand';
+  elsif v_entry.rating = 'approved' and v_condition = 'fair' then
+    return query select 'borderline'::text, format('Approved for %s, but only in fair condition', v_entry.service_type);
+  else
+    return query select v_entry.rating,
+      coalesce(v_entry.notes, format('%s for %s', initcap(v_entry.rating), v_entry.service_type));
+  end if;
+end;
+$$;
+
+grant execute on function public.rate_gear(text[], text, text, text) to authenticated;
+
+create or replace function public.rate_vendor_gear()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  select r.rating, r.reason into new.auto_rating, new.auto_rating_reason
+  from public.vendors v
+  cross join lateral public.rate_gear(v.service_types, new.brand, new.model, new.condition) r
+  where v.id = new.vendor_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists rate_vendor_gear on public.vendor_gear;
+create trigger rate_vendor_gear before insert or update of brand, model, condition on public.vendor_gear
+  for each row execute function public.rate_vendor_gear();
+
+-- Re-rates the gear of one vendor, or of every vendor when none is given
+create or replace function public.refresh_gear_ratings(p_vendor_id uuid default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.vendor_gear g
+  set auto_rating = r.rating,
+      auto_rating_reason = r.reason
+  from public.vendors v
+  cross join lateral public.rate_gear(v.service_types, g.brand, g.model, g.condition) r
+  where v.id = g.vendor_id
+    and (p_vendor_id is null or g.vendor_id = p_vendor_id);
+$$;
+
+create or replace function public.refresh_gear_ratings_on_catalog_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.refresh_gear_ratings();
+  return null;
+end;
+$$;
+
+drop trigger if exists refresh_gear_ratings on public.gear_catalog;
+create trigger refresh_gear_ratings after insert or update or delete on public.gear_catalog
+  for each statement execute function public.refresh_gear_ratings_on_catalog_change();
+
+create or replace function public.refresh_gear_ratings_on_service_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.refresh_gear_ratings(new.id);
+  return null;
+end;
+$$;
+
+drop trigger if exists refresh_gear_ratings on public.vendors;
+create trigger refresh_gear_ratings after update of service_types on public.vendors
+  for each row
+  when (old.service_types is distinct from new.service_types)
+  execute function public.refresh_gear_ratings_on_service_change();
+
+select public.refresh_gear_ratings();
@@ -0,0 +1,165 @@
+-- Vendor availability: blackout periods, a travel buffer between venues, and a
+-- hard stop on double-booking.
+--
+-- A vendor is unavailable during their blackouts and during any event that
+-- blocks their time. vendor_schedule_conflict says why a slot cannot be
+-- booked, and create_bookings_batch now refuses bookings that hit one, so a
+-- booking added by hand or imported can never overlap another. Bookings at a
+-- different venue that start or end within the vendor's travel_buffer_minutes
+-- of another are allowed, but the dashboard warns about them before saving
+-- (src/utils/vendorAvailability.ts applies the same rules to what it shows).
+create table if not exists public.vendor_blackouts (
+  id uuid primary key default gen_random_uuid(),
+  vendor_id uuid not null references public.vendors(id) on delete cascade,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  reason text,
+  created_by uuid default auth.uid() references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (ends_at > starts_at)
+);
+
+create index if not exists vendor_blackouts_vendor_id_idx on public.vendor_blackouts (vendor_id, starts_at);
+
+alter table public.vendor_blackouts enable row level security;
+
+drop policy if exists "Admins can manage vendor blackouts" on public.vendor_blackouts;
+create policy "Admins can manage vendor blackouts"
+  on public.vendor_blackouts
+  for all
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop trigger if exists audit_row_change on public.vendor_blackouts;
+create trigger audit_row_change after insert or update or delete on public.vendor_blackouts
+  for each row execute function public.audit_row_change();
+
+alter table public.vendors
+  add column if not exists travel_buffer_minutes integer not null default 60 check (travel_buffer_minutes >= 0);
+
+-- Why the vendor cannot take an event in the given slot, or null when they can
+create or replace function public.vendor_schedule_conflict(
+  p_vendor_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_ignore_event_id uuid default null
+)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_blackout public.vendor_blackouts;
+  v_event public.events;
+begin
+  if p_end <= p_start then
+    return 'The event must end after it starts';
+  end if;
+
+  select * into v_blackout
+  from public.vendor_blackouts b
+  where b.vendor_id = p_vendor_id
+    and tstzrange(b.starts_at, b.ends_at) && tstzrange(p_start, p_end)
+  order by b.starts_at
+  limit 1;
+  if found then
+    return format('The vendor is blacked out from %s to %s%s',
+      v_blackout.starts_at, v_blackout.ends_at,
+      coalesce(' (' || nullif(trim(v_blackout.reason), '') || ')', ''));
+  end if;
+
+  select * into v_event
+  from public.events e
+  where e.vendor_id = p_vendor_id
+    and e.is_blocked_time
+    and e.id is distinct from p_ignore_event_id
+    and tstzrange(e.start_time, e.end_time) && tstzrange(p_start, p_end)
+  order by e.start_time
+  limit 1;
+  if found then
+    return format('The vendor is already booked: %s runs from %s to %s',
+      coalesce(v_event.title, v_event.type), v_event.start_time, v_event.end_time);
+  end if;
+
+  return null;
+end;
+$$;
+
+grant execute on function public.vendor_schedule_conflict(uuid, timestamptz, timestamptz, uuid) to authenticated;
+
+-- Same as in create_booking_status_history, refusing events that would
+-- double-book the vendor. Each event is written before the next item is
+-- checked, so two overlapping rows in one batch are caught too.
+create or replace function public.create_bookings_batch(p_bookings jsonb)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_item jsonb;
+  v_index integer := 0;
+  v_event_id uuid;
+  v_conflict text;
+  v_created jsonb := '[]'::jsonb;
+begin
+  if jsonb_typeof(p_bookings) <> 'array' then
+    raise exception 'p_bookings must be a JSON array';
+  end if;
+
+  for v_item in select value from jsonb_array_elements(p_bookings)
+  loop
+    v_index := v_index + 1;
+    begin
+      if coalesce((v_item->>'is_blocked_time')::boolean, true) then
+        v_conflict := public.vendor_schedule_conflict(
+          (v_item->>'vendor_id')::uuid,
+          (v_item->>'start_time')::timestamptz,
+          (v_item->>'end_time')::timestamptz
+        );
+        if v_conflict is not null then
+          raise exception '%', v_conflict;
+        end if;
+      end if;
+
+      insert into public.events (
+        couple_id, vendor_id, start_time, end_time, type, title, is_blocked_time, created_at, updated_at
+      )
+      values (
+        (v_item->>'couple_id')::uuid,
+        (v_item->>'vendor_id')::uuid,
+        (v_item->>'start_time')::timestamptz,
+        (v_item->>'end_time')::timestamptz,
+        coalesce(v_item->>'event_type', 'wedding'),
+        v_item->>'title',
+        coalesce((v_item->>'is_blocked_time')::boolean, true),
+        now(),
+        now()
+      )
+      returning id into v_event_id;
+
+      perform public.create_booking(
+        p_couple_id := (v_item->>'couple_id')::uuid,
+        p_vendor_id := (v_item->>'vendor_id')::uuid,
+        p_status := coalesce(v_item->>'status', 'inquiry'),
+        p_amount := coalesce((v_item->>'amount')::integer, 0),
+        p_service_type := coalesce(v_item->>'service_type', 'Unknown'),
+        p_event_type := coalesce(v_item->>'event_type', 'wedding'),
+        p_package_id := nullif(v_item->>'package_id', '')::uuid,
+        p_venue_id := nullif(v_item->>'venue_id', '')::uuid,
+        p_event_id := v_event_id
+      );
+
+      v_created := v_created || jsonb_build_object('index', v_index, 'event_id', v_event_id);
+    exception when others then
+      raise exception 'Booking % of % failed: %', v_index, jsonb_array_length(p_bookings), sqlerrm
+        using detail = jsonb_build_object('failed_index', v_index)::text;
+    end;
+  end loop;
+
+  return v_created;
+end;
+$$;
+
+grant execute on function public.create_bookings_batch(jsonb) to authenticated;
@@ -0,0 +1,47 @@
+-- iCalendar feeds for vendors and couples.
+--
+-- The ical-feed edge function serves a vendor's or couple's calendar to anyone
+-- holding its ical_feed_token, so calendar apps can subscribe without signing
+-- in. Vendors already had the column; couples get one here. A token is
+-- revoked by setting it to null and replaced with regenerate_ical_feed_token,
+-- which cuts off everyone holding the old link.
+--
+-- Venues get an IANA time zone, used to place a couple's wedding-day timeline
+-- (which is kept as wall-clock times) on the calendar.
+alter table public.couples
+  add column if not exists ical_feed_token text;
+
+create unique index if not exists vendors_ical_feed_token_key on public.vendors (ical_feed_token);
+create unique index if not exists couples_ical_feed_token_key on public.couples (ical_feed_token);
+
+alter table public.venues
+  add column if not exists time_zone text;
+
+-- Replaces the feed token of a vendor ('vendor') or couple ('couple') with a
+-- new random one and returns it. Runs as the caller, so only those allowed to
+-- edit the row can do it.
+create or replace function public.regenerate_ical_feed_token(p_kind text, p_id uuid)
+returns text
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_token text := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+begin
+  if p_kind = 'vendor' then
+    update public.vendors set ical_feed_token = v_token, updated_at = now() where id = p_id;
+  elsif p_kind = 'couple' then
+    update public.couples set ical_feed_token = v_token, updated_at = now() where id = p_id;
+  else
+    raise exception 'Unknown feed kind: %', p_kind;
+  end if;
+
+  if not found then
+    raise exception 'No % with id %', p_kind, p_id;
+  end if;
+  return v_token;
+end;
+$$;
+
+grant execute on function public.regenerate_ical_feed_token(text, uuid) to authenticated;
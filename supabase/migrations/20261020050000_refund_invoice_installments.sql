@@ -0,0 +1,150 @@
+-- Refunds re-open installments as well as the invoice.
+--
+-- record_refund put the refunded amount back on the invoice's
+-- remaining_balance but left its installment schedule showing the money as
+-- paid. refund_invoice_installments takes a refund back off the schedule, the
+-- reverse of how payments are applied (see applyPaymentToInstallments in
+-- src/utils/installments.ts): from the installment the payment was taken for
+-- first, then from the latest installments with anything paid on them.
+create or replace function public.refund_invoice_installments(
+  p_invoice_id uuid,
+  p_amount integer,
+  p_installment_id uuid default null
+)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_left integer := p_amount;
+  v_installment public.invoice_installments;
+  v_taken integer;
+begin
+  for v_installment in
+    select * from public.invoice_installments
+    where invoice_id = p_invoice_id and paid_amount > 0
+    order by coalesce(id = p_installment_id, false) desc, sequence desc
+    for update
+  loop
+    exit when v_left <= 0;
+    v_taken := least(v_installment.paid_amount, v_left);
+    v_left := v_left - v_taken;
+
+    update public.invoice_installments
+    set
+      paid_amount = paid_amount - v_taken,
+      status = case when paid_amount - v_taken = 0 then 'pending' else 'partially_paid' end,
+      paid_at = null,
+      updated_at = now()
+    where id = v_installment.id;
+  end loop;
+end;
+$$;
+
+grant execute on function public.refund_invoice_installments(uuid, integer, uuid) to authenticated;
+
+create or replace function public.record_refund(
+  p_payment_id uuid,
+  p_amount integer,
+  p_reason text default null,
+  p_stripe_refund_id text default null
+)
+returns public.refunds
+language plpgsql
+security invoker
+as $$
+declare
+  v_payment public.payments;
+  v_booking public.bookings;
+  v_refunded integer;
+  v_vendor_part integer := 0;
+  v_platform_part integer := 0;
+  v_platform_amount integer;
+  v_refund public.refunds;
+begin
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id;
+  end if;
+  if v_payment.status not in ('succeeded', 'paid') then
+    raise exception 'Only succeeded payments can be refunded (status is %)', v_payment.status;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_refunded
+  from public.refunds
+  where payment_id = p_payment_id and status <> 'failed';
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Refund amount must be greater than zero';
+  end if;
+  if p_amount > v_payment.amount - v_refunded then
+    raise exception 'Refund of % exceeds the % left to refund on this payment', p_amount, v_payment.amount - v_refunded;
+  end if;
+
+  if v_payment.booking_id is not null then
+    select * into v_booking from public.bookings where id = v_payment.booking_id for update;
+  end if;
+
+  if v_booking.id is not null then
+    if v_payment.payment_type = 'deposit' then
+      v_vendor_part := coalesce(v_booking.vendor_deposit_share, 0);
+      v_platform_part := coalesce(v_booking.platform_deposit_share, 0);
+    elsif v_payment.payment_type in ('final', 'final_payment') then
+      v_vendor_part := coalesce(v_booking.vendor_final_share, 0);
+      v_platform_part := coalesce(v_booking.platform_final_share, 0);
+    else
+      v_vendor_part := coalesce(v_booking.vendor_deposit_share, 0) + coalesce(v_booking.vendor_final_share, 0);
+      v_platform_part := coalesce(v_booking.platform_deposit_share, 0) + coalesce(v_booking.platform_final_share, 0);
+    end if;
+  end if;
+
+  -- Without shares to go by, the refund comes out of whoever received the payment
+  if v_vendor_part + v_platform_part = 0 then
+    v_platform_amount := case when v_payment.to_platform then p_amount else 0 end;
+  else
+    v_platform_amount := round(p_amount::numeric * v_platform_part / (v_vendor_part + v_platform_part));
+  end if;
+
+  insert into public.refunds (
+    payment_id, booking_id, invoice_id, amount, vendor_amount, platform_amount, reason, stripe_refund_id
+  )
+  values (
+    p_payment_id, v_payment.booking_id, v_payment.invoice_id, p_amount,
+    p_amount - v_platform_amount, v_platform_amount, nullif(trim(p_reason), ''), p_stripe_refund_id
+  )
+  returning * into v_refund;
+
+  if v_booking.id is not null then
+    update public.bookings
+    set
+      paid_amount = greatest(coalesce(paid_amount, 0) - p_amount, 0),
+      vendor_total_earnings = coalesce(vendor_total_earnings, 0) - v_refund.vendor_amount,
+      platform_total_earnings = coalesce(platform_total_earnings, 0) - v_refund.platform_amount,
+      final_payment_status = case
+        when v_payment.payment_type in ('final', 'final_payment', 'full_payment') then 'pending'
+        else final_payment_status
+      end,
+      updated_at = now()
+    where id = v_booking.id;
+  end if;
+
+  -- A void invoice stays void with nothing owed
+  if v_payment.invoice_id is not null then
+    update public.invoices
+    set
+      remaining_balance = least(remaining_balance + p_amount, total_amount - credited_amount),
+      status = case when status = 'paid' and remaining_balance + p_amount > 0 then 'sent' else status end,
+      paid_at = case when status = 'paid' and remaining_balance + p_amount > 0 then null else paid_at end,
+      updated_at = now()
+    where id = v_payment.invoice_id and status <> 'void';
+
+    if found then
+      perform public.refund_invoice_installments(v_payment.invoice_id, p_amount, v_payment.installment_id);
+    end if;
+  end if;
+
+  return v_refund;
+end;
+$$;
+
+grant execute on function public.record_refund(uuid, integer, text, text) to authenticated;
@@ -0,0 +1,110 @@
+-- Payments recorded from Stripe are applied to installments.
+--
+-- apply_stripe_payment_intent_succeeded took a payment it recorded off the
+-- invoice's remaining_balance but not off its installment schedule, so a plan
+-- paid through Stripe still showed every installment as due.
+-- apply_payment_to_installments applies a payment the way the dashboard does
+-- (see applyPaymentToInstallments in src/utils/installments.ts): to the
+-- installment it was taken for first, then to the earliest installments still
+-- open. Whatever is left after the last installment is paid is not applied.
+create or replace function public.apply_payment_to_installments(
+  p_invoice_id uuid,
+  p_amount integer,
+  p_paid_at timestamptz,
+  p_installment_id uuid default null
+)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_left integer := p_amount;
+  v_installment public.invoice_installments;
+  v_applied integer;
+begin
+  for v_installment in
+    select * from public.invoice_installments
+    where invoice_id = p_invoice_id and paid_amount < amount
+    order by coalesce(id = p_installment_id, false) desc, sequence
+    for update
+  loop
+    exit when v_left <= 0;
+    v_applied := least(v_installment.amount - v_installment.paid_amount, v_left);
+    v_left := v_left - v_applied;
+
+    update public.invoice_installments
+    set
+      paid_amount = paid_amount + v_applied,
+      status = case when paid_amount + v_applied >= amount then 'paid' else 'partially_paid' end,
+      paid_at = case when paid_amount + v_applied >= amount then p_paid_at else paid_at end,
+      updated_at = now()
+    where id = v_installment.id;
+  end loop;
+end;
+$$;
+
+grant execute on function public.apply_payment_to_installments(uuid, integer, timestamptz, uuid) to authenticated;
+
+create or replace function public.apply_stripe_payment_intent_succeeded(p_intent jsonb, p_at timestamptz)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_intent_id text := p_intent->>'id';
+  v_amount integer := (p_intent->>'amount_received')::integer;
+  v_invoice_id uuid := nullif(p_intent->'metadata'->>'invoice_id', '')::uuid;
+begin
+  if v_invoice_id is null then
+    select id into v_invoice_id from public.invoices where stripe_payment_intent_id = v_intent_id;
+  end if;
+
+  update public.payments
+  set status = 'succeeded'
+  where stripe_payment_id = v_intent_id and status not in ('succeeded', 'paid');
+
+  if not exists (select 1 from public.payments where stripe_payment_id = v_intent_id) then
+    if v_invoice_id is null then
+      raise exception 'No payment is recorded for payment intent % and its metadata names no invoice', v_intent_id;
+    end if;
+    insert into public.payments (invoice_id, installment_id, amount, status, payment_type, stripe_payment_id, created_at)
+    values (
+      v_invoice_id,
+      nullif(p_intent->'metadata'->>'installment_id', '')::uuid,
+      v_amount,
+      'succeeded',
+      coalesce(nullif(p_intent->'metadata'->>'payment_type', ''), 'invoice'),
+      v_intent_id,
+      p_at
+    );
+    update public.invoices
+    set remaining_balance = greatest(remaining_balance - v_amount, 0), updated_at = now()
+    where id = v_invoice_id and status <> 'void';
+
+    if found then
+      perform public.apply_payment_to_installments(
+        v_invoice_id,
+        v_amount,
+        p_at,
+        nullif(p_intent->'metadata'->>'installment_id', '')::uuid
+      );
+    end if;
+  end if;
+
+  update public.invoices
+  set
+    status = 'paid',
+    paid_at = coalesce(paid_at, p_at),
+    stripe_payment_intent_id = coalesce(stripe_payment_intent_id, v_intent_id),
+    updated_at = now()
+  where id = v_invoice_id and remaining_balance <= 0 and status not in ('paid', 'void', 'draft');
+
+  update public.bookings b
+  set final_payment_status = 'paid', updated_at = now()
+  from public.payments p
+  where p.stripe_payment_id = v_intent_id
+    and p.booking_id = b.id
+    and p.payment_type in ('final', 'final_payment', 'full_payment')
+    and b.final_payment_status is distinct from 'paid';
+end;
+$$;
@@ -0,0 +1,171 @@
+-- Reschedules are checked against vendor availability, and checks of one
+-- vendor's schedule no longer race.
+--
+-- reschedule_booking had its own overlap query, which missed blackouts;
+-- it now asks vendor_schedule_conflict about each moved event, like
+-- create_bookings_batch does for new ones. Both read the schedule and then
+-- write to it, so two admins booking the same vendor at once could each see
+-- the slot free. lock_vendor_schedule takes a row lock on the vendor first,
+-- which holds until the transaction ends, so the second check waits for the
+-- first write and sees it.
+create or replace function public.lock_vendor_schedule(p_vendor_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform 1 from public.vendors where id = p_vendor_id for update;
+end;
+$$;
+
+grant execute on function public.lock_vendor_schedule(uuid) to authenticated;
+
+-- Same as in create_vendor_availability, locking the vendor's schedule before
+-- each check
+create or replace function public.create_bookings_batch(p_bookings jsonb)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_item jsonb;
+  v_index integer := 0;
+  v_event_id uuid;
+  v_conflict text;
+  v_created jsonb := '[]'::jsonb;
+begin
+  if jsonb_typeof(p_bookings) <> 'array' then
+    raise exception 'p_bookings must be a JSON array';
+  end if;
+
+  for v_item in select value from jsonb_array_elements(p_bookings)
+  loop
+    v_index := v_index + 1;
+    begin
+      if coalesce((v_item->>'is_blocked_time')::boolean, true) then
+        perform public.lock_vendor_schedule((v_item->>'vendor_id')::uuid);
+        v_conflict := public.vendor_schedule_conflict(
+          (v_item->>'vendor_id')::uuid,
+          (v_item->>'start_time')::timestamptz,
+          (v_item->>'end_time')::timestamptz
+        );
+        if v_conflict is not null then
+          raise exception '%', v_conflict;
+        end if;
+      end if;
+
+      insert into public.events (
+        couple_id, vendor_id, start_time, end_time, type, title, is_blocked_time, created_at, updated_at
+      )
+      values (
+        (v_item->>'couple_id')::uuid,
+        (v_item->>'vendor_id')::uuid,
+        (v_item->>'start_time')::timestamptz,
+        (v_item->>'end_time')::timestamptz,
+        coalesce(v_item->>'event_type', 'wedding'),
+        v_item->>'title',
+        coalesce((v_item->>'is_blocked_time')::boolean, true),
+        now(),
+        now()
+      )
+      returning id into v_event_id;
+
+      perform public.create_booking(
+        p_couple_id := (v_item->>'couple_id')::uuid,
+        p_vendor_id := (v_item->>'vendor_id')::uuid,
+        p_status := coalesce(v_item->>'status', 'inquiry'),
+        p_amount := coalesce((v_item->>'amount')::integer, 0),
+        p_service_type := coalesce(v_item->>'service_type', 'Unknown'),
+        p_event_type := coalesce(v_item->>'event_type', 'wedding'),
+        p_package_id := nullif(v_item->>'package_id', '')::uuid,
+        p_venue_id := nullif(v_item->>'venue_id', '')::uuid,
+        p_event_id := v_event_id
+      );
+
+      v_created := v_created || jsonb_build_object('index', v_index, 'event_id', v_event_id);
+    exception when others then
+      raise exception 'Booking % of % failed: %', v_index, jsonb_array_length(p_bookings), sqlerrm
+        using detail = jsonb_build_object('failed_index', v_index)::text;
+    end;
+  end loop;
+
+  return v_created;
+end;
+$$;
+
+grant execute on function public.create_bookings_batch(jsonb) to authenticated;
+
+-- Same as in create_booking_cancellations, checking each moved event that
+-- blocks the vendor's time with vendor_schedule_conflict. The events are moved
+-- first so they are checked against each other's new times; a conflict rolls
+-- the move back.
+create or replace function public.reschedule_booking(
+  p_booking_id uuid,
+  p_start_time timestamptz,
+  p_reason text default null
+)
+returns setof public.booking_reschedules
+language plpgsql
+security invoker
+as $$
+declare
+  v_booking public.bookings;
+  v_event public.events;
+  v_shift interval;
+  v_moved public.events;
+  v_conflict text;
+begin
+  select * into v_booking from public.bookings where id = p_booking_id for update;
+  if not found then
+    raise exception 'Booking % not found', p_booking_id;
+  end if;
+  if v_booking.status not in ('inquiry', 'pending_deposit', 'confirmed') then
+    raise exception 'A % booking cannot be rescheduled', v_booking.status;
+  end if;
+
+  select * into v_event from public.events where id = v_booking.event_id;
+  if not found then
+    raise exception 'Booking % has no event to move', p_booking_id;
+  end if;
+  v_shift := p_start_time - v_event.start_time;
+  if v_shift = interval '0' then
+    raise exception 'The booking already starts at that time';
+  end if;
+
+  perform public.lock_vendor_schedule(v_booking.vendor_id);
+
+  drop table if exists rescheduled_events;
+  create temporary table rescheduled_events on commit drop as
+  select id, start_time, end_time
+  from public.events
+  where id = v_booking.event_id
+     or (couple_id = v_booking.couple_id and vendor_id = v_booking.vendor_id and end_time > now());
+
+  update public.events e
+  set start_time = e.start_time + v_shift, end_time = e.end_time + v_shift, updated_at = now()
+  from rescheduled_events m
+  where e.id = m.id;
+
+  for v_moved in
+    select e.* from public.events e
+    where e.id in (select id from rescheduled_events) and e.is_blocked_time
+    order by e.start_time
+  loop
+    v_conflict := public.vendor_schedule_conflict(v_booking.vendor_id, v_moved.start_time, v_moved.end_time, v_moved.id);
+    if v_conflict is not null then
+      raise exception '%', v_conflict;
+    end if;
+  end loop;
+
+  return query
+  insert into public.booking_reschedules (
+    booking_id, event_id, previous_start_time, previous_end_time, new_start_time, new_end_time, reason
+  )
+  select p_booking_id, m.id, m.start_time, m.end_time, m.start_time + v_shift, m.end_time + v_shift, nullif(trim(p_reason), '')
+  from rescheduled_events m
+  returning *;
+end;
+$$;
+
+grant execute on function public.reschedule_booking(uuid, timestamptz, text) to authenticated;
@@ -0,0 +1,23 @@
+-- New bookings start as inquiry or pending_deposit.
+--
+-- enforce_booking_status only guarded updates, so an insert (or
+-- create_bookings_batch, or the CSV import through it) could create a booking
+-- as confirmed, completed or reviewed without the deposit, the finished event
+-- or the review those statuses stand for. A booking now has to be created at
+-- the start of the lifecycle and moved on through the transitions, whose
+-- guards apply. src/utils/bookingStatus.ts carries the same rule for the UI.
+create or replace function public.check_new_booking_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status not in ('inquiry', 'pending_deposit') then
+    raise exception 'A booking starts as inquiry or pending_deposit, not %', new.status;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_new_booking_status on public.bookings;
+create trigger check_new_booking_status before insert on public.bookings
+  for each row execute function public.check_new_booking_status();
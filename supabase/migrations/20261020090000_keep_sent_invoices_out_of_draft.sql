@@ -0,0 +1,46 @@
+-- A sent invoice cannot go back to draft.
+--
+-- prevent_sent_invoice_changes only freezes an invoice once it has left
+-- draft, so setting a sent invoice's status back to draft unfroze it: its
+-- pricing and line items could then be rewritten after the couple or vendor
+-- had been billed. The status change itself is now refused; the rest of the
+-- function is as in create_credit_notes, and its triggers are unchanged.
+create or replace function public.prevent_sent_invoice_changes()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_status text;
+begin
+  if tg_table_name = 'invoices' then
+    if old.status = 'draft' then
+      return case when tg_op = 'DELETE' then old else new end;
+    end if;
+    if tg_op = 'DELETE' then
+      raise exception 'Invoice % has been sent and cannot be deleted; void it instead', old.id;
+    end if;
+    if new.status = 'draft' then
+      raise exception 'Invoice % has been sent and cannot go back to draft', old.id;
+    end if;
+    if (new.recipient_type, new.couple_id, new.vendor_id, new.total_amount, new.discount_amount,
+        new.discount_percentage, new.deposit_amount, new.tax_state, new.tax_rate, new.tax_amount,
+        new.card_fee_percentage, new.card_fee_amount)
+      is distinct from
+       (old.recipient_type, old.couple_id, old.vendor_id, old.total_amount, old.discount_amount,
+        old.discount_percentage, old.deposit_amount, old.tax_state, old.tax_rate, old.tax_amount,
+        old.card_fee_percentage, old.card_fee_amount) then
+      raise exception 'Invoice % has been sent and cannot be edited; issue a credit note instead', old.id;
+    end if;
+    return new;
+  end if;
+
+  select status into v_status
+  from public.invoices
+  where id = case when tg_op = 'DELETE' then old.invoice_id else new.invoice_id end;
+  -- A missing invoice means it is being deleted along with its lines
+  if v_status is not null and v_status <> 'draft' then
+    raise exception 'Line items of a sent invoice cannot be changed; issue a credit note instead';
+  end if;
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
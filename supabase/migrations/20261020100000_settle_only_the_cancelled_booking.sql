@@ -0,0 +1,169 @@
+-- Cancelling a booking settles only that booking's part of its invoices, and
+-- can be checked before any money moves.
+--
+-- cancel_booking settled every invoice mentioning the booking as a whole: it
+-- voided the invoice or credited its lines until the whole remaining_balance
+-- was gone, so an invoice that also billed other bookings stopped asking for
+-- them too. An invoice is now voided (nothing paid) or credited in full only
+-- when every line on it belongs to the cancelled booking. Otherwise only the
+-- booking's own lines are credited, up to what is still owed on them: their
+-- amount less what was paid for the booking on that invoice. Draft invoices
+-- billing other bookings are left for an admin to edit.
+--
+-- The dashboard refunds the booking's payments before cancelling it, so it
+-- asks booking_cancellation_error first; cancel_booking runs the same checks.
+
+-- Why the booking may not be cancelled with this reason and percentage, or
+-- null when it may
+create or replace function public.booking_cancellation_error(
+  p_booking_id uuid,
+  p_reason text,
+  p_refund_percentage numeric
+)
+returns text
+language plpgsql
+stable
+security invoker
+as $$
+declare
+  v_booking public.bookings;
+begin
+  if nullif(trim(p_reason), '') is null then
+    return 'A cancellation needs a reason';
+  end if;
+  if p_refund_percentage is null or p_refund_percentage not between 0 and 100 then
+    return 'The refund percentage must be between 0 and 100';
+  end if;
+
+  select * into v_booking from public.bookings where id = p_booking_id;
+  if not found then
+    return format('Booking %s not found', p_booking_id);
+  end if;
+  return public.booking_transition_error(v_booking, 'cancelled');
+end;
+$$;
+
+grant execute on function public.booking_cancellation_error(uuid, text, numeric) to authenticated;
+
+-- Same as in create_booking_cancellations, settling only the booking's lines
+-- of invoices that bill other bookings too
+create or replace function public.cancel_booking(
+  p_booking_id uuid,
+  p_reason text,
+  p_refund_percentage numeric
+)
+returns public.bookings
+language plpgsql
+security invoker
+as $$
+declare
+  v_booking public.bookings;
+  v_invoice public.invoices;
+  v_error text;
+  v_whole_invoice boolean;
+  v_paid integer;
+  v_booking_paid integer;
+  v_remaining integer;
+  v_line record;
+  v_take integer;
+  v_lines jsonb;
+  v_reason text := nullif(trim(p_reason), '');
+begin
+  select * into v_booking from public.bookings where id = p_booking_id for update;
+  v_error := public.booking_cancellation_error(p_booking_id, p_reason, p_refund_percentage);
+  if v_error is not null then
+    raise exception '%', v_error;
+  end if;
+
+  perform public.transition_booking_status(p_booking_id, 'cancelled', v_reason);
+  update public.bookings
+  set
+    cancelled_at = now(),
+    cancellation_reason = v_reason,
+    cancellation_refund_percentage = p_refund_percentage,
+    updated_at = now()
+  where id = p_booking_id;
+
+  for v_invoice in
+    select * from public.invoices
+    where status <> 'void'
+      and (
+        id in (select invoice_id from public.invoice_line_items where booking_id = p_booking_id)
+        or id in (select invoice_id from public.payments where booking_id = p_booking_id)
+      )
+    for update
+  loop
+    select not exists (
+      select 1 from public.invoice_line_items
+      where invoice_id = v_invoice.id and booking_id is distinct from p_booking_id
+    ) into v_whole_invoice;
+
+    select
+      coalesce(sum(p.amount - coalesce(r.refunded, 0)), 0),
+      coalesce(sum(p.amount - coalesce(r.refunded, 0)) filter (where p.booking_id = p_booking_id), 0)
+    into v_paid, v_booking_paid
+    from public.payments p
+    left join (
+      select payment_id, sum(amount) as refunded
+      from public.refunds
+      where status <> 'failed'
+      group by payment_id
+    ) r on r.payment_id = p.id
+    where p.invoice_id = v_invoice.id and p.status in ('succeeded', 'paid');
+
+    if v_whole_invoice and v_paid <= 0 then
+      perform public.void_invoice(v_invoice.id, 'Booking cancelled: ' || v_reason);
+    elsif v_invoice.status <> 'draft' and v_invoice.remaining_balance > 0 then
+      if v_whole_invoice then
+        v_remaining := v_invoice.remaining_balance;
+      else
+        select coalesce(sum(
+          round(coalesce(li.custom_price, 0) * coalesce(li.quantity, 0))
+            - coalesce((select sum(amount) from public.credit_note_lines where invoice_line_item_id = li.id), 0)
+        ), 0) - v_booking_paid
+        into v_remaining
+        from public.invoice_line_items li
+        where li.invoice_id = v_invoice.id and li.booking_id = p_booking_id;
+        v_remaining := least(v_remaining, v_invoice.remaining_balance);
+      end if;
+
+      -- Credit what is owed line by line, as far as the lines can still be credited
+      v_lines := '[]'::jsonb;
+      for v_line in
+        select
+          li.id,
+          round(coalesce(li.custom_price, 0) * coalesce(li.quantity, 0))
+            - coalesce((select sum(amount) from public.credit_note_lines where invoice_line_item_id = li.id), 0) as creditable
+        from public.invoice_line_items li
+        where li.invoice_id = v_invoice.id
+          and (v_whole_invoice or li.booking_id = p_booking_id)
+        order by li.created_at
+      loop
+        exit when v_remaining <= 0;
+        v_take := least(v_line.creditable, v_remaining);
+        if v_take > 0 then
+          v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+            'invoice_line_item_id', v_line.id,
+            'amount', v_take,
+            'description', 'Booking cancelled'
+          ));
+          v_remaining := v_remaining - v_take;
+        end if;
+      end loop;
+
+      if jsonb_array_length(v_lines) > 0 then
+        perform public.issue_credit_note(v_invoice.id, 'Booking cancelled: ' || v_reason, v_lines);
+      end if;
+    end if;
+  end loop;
+
+  if exists (select 1 from public.refunds where booking_id = p_booking_id and status = 'succeeded') then
+    perform public.transition_booking_status(p_booking_id, 'refunded', 'Cancellation refunds issued');
+  end if;
+
+  select * into v_booking from public.bookings where id = p_booking_id;
+  return v_booking;
+end;
+$$;
+
+grant execute on function public.cancel_booking(uuid, text, numeric) to authenticated;
@@ -0,0 +1,97 @@
+-- Every payment is applied to its invoice's installments, however it is
+-- recorded.
+--
+-- Only payments recorded from Stripe reached the installment schedule (through
+-- apply_stripe_payment_intent_succeeded); the dashboard applied the ones it
+-- recorded itself row by row from the invoice page, and payments entered on
+-- the payments page or imported there never did. A trigger on payments now
+-- applies each one with apply_payment_to_installments when it is recorded as
+-- succeeded or paid, or later moves to either. Deposits come before the
+-- schedule and are left out, as the dashboard always did, and so are payments
+-- on void invoices.
+create or replace function public.apply_payment_on_success()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.invoice_id is null
+    or new.status not in ('succeeded', 'paid')
+    or new.payment_type = 'deposit'
+    or (tg_op = 'UPDATE' and old.status in ('succeeded', 'paid')) then
+    return new;
+  end if;
+
+  if exists (select 1 from public.invoices where id = new.invoice_id and status <> 'void') then
+    perform public.apply_payment_to_installments(
+      new.invoice_id,
+      new.amount,
+      case when tg_op = 'INSERT' then new.created_at else now() end,
+      new.installment_id
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_payment_on_success on public.payments;
+create trigger apply_payment_on_success after insert or update of status on public.payments
+  for each row execute function public.apply_payment_on_success();
+
+-- Same as in apply_stripe_payments_to_installments, leaving the installments
+-- to the trigger
+create or replace function public.apply_stripe_payment_intent_succeeded(p_intent jsonb, p_at timestamptz)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_intent_id text := p_intent->>'id';
+  v_amount integer := (p_intent->>'amount_received')::integer;
+  v_invoice_id uuid := nullif(p_intent->'metadata'->>'invoice_id', '')::uuid;
+begin
+  if v_invoice_id is null then
+    select id into v_invoice_id from public.invoices where stripe_payment_intent_id = v_intent_id;
+  end if;
+
+  update public.payments
+  set status = 'succeeded'
+  where stripe_payment_id = v_intent_id and status not in ('succeeded', 'paid');
+
+  if not exists (select 1 from public.payments where stripe_payment_id = v_intent_id) then
+    if v_invoice_id is null then
+      raise exception 'No payment is recorded for payment intent % and its metadata names no invoice', v_intent_id;
+    end if;
+    insert into public.payments (invoice_id, installment_id, amount, status, payment_type, stripe_payment_id, created_at)
+    values (
+      v_invoice_id,
+      nullif(p_intent->'metadata'->>'installment_id', '')::uuid,
+      v_amount,
+      'succeeded',
+      coalesce(nullif(p_intent->'metadata'->>'payment_type', ''), 'invoice'),
+      v_intent_id,
+      p_at
+    );
+    update public.invoices
+    set remaining_balance = greatest(remaining_balance - v_amount, 0), updated_at = now()
+    where id = v_invoice_id and status <> 'void';
+  end if;
+
+  update public.invoices
+  set
+    status = 'paid',
+    paid_at = coalesce(paid_at, p_at),
+    stripe_payment_intent_id = coalesce(stripe_payment_intent_id, v_intent_id),
+    updated_at = now()
+  where id = v_invoice_id and remaining_balance <= 0 and status not in ('paid', 'void', 'draft');
+
+  update public.bookings b
+  set final_payment_status = 'paid', updated_at = now()
+  from public.payments p
+  where p.stripe_payment_id = v_intent_id
+    and p.booking_id = b.id
+    and p.payment_type in ('final', 'final_payment', 'full_payment')
+    and b.final_payment_status is distinct from 'paid';
+end;
+$$;
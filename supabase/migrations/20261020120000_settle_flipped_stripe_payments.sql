@@ -0,0 +1,78 @@
+-- A Stripe payment that was recorded as pending settles its invoice when the
+-- intent succeeds, and a payment recorded from the intent keeps its booking.
+--
+-- apply_stripe_payment_intent_succeeded only took the amount off the
+-- invoice's remaining_balance when it inserted the payment itself. A pending
+-- payment that flipped to succeeded left the balance as it was, so the invoice
+-- never became paid. The flipped amount now comes off the balance too; the
+-- apply_payment_on_success trigger applies it to the installments on the flip.
+-- The inserted payment also took no booking_id, so the booking's
+-- final_payment_status was never set from it; it now comes from the intent's
+-- metadata like the invoice and installment do.
+
+-- Same as in apply_every_payment_to_installments, settling the balance for
+-- flipped payments and keeping the booking from the metadata
+create or replace function public.apply_stripe_payment_intent_succeeded(p_intent jsonb, p_at timestamptz)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_intent_id text := p_intent->>'id';
+  v_amount integer := (p_intent->>'amount_received')::integer;
+  v_invoice_id uuid := nullif(p_intent->'metadata'->>'invoice_id', '')::uuid;
+  v_settled integer;
+begin
+  if v_invoice_id is null then
+    select id into v_invoice_id from public.invoices where stripe_payment_intent_id = v_intent_id;
+  end if;
+
+  with flipped as (
+    update public.payments
+    set status = 'succeeded'
+    where stripe_payment_id = v_intent_id and status not in ('succeeded', 'paid')
+    returning amount
+  )
+  select coalesce(sum(amount), 0) into v_settled from flipped;
+
+  if not exists (select 1 from public.payments where stripe_payment_id = v_intent_id) then
+    if v_invoice_id is null then
+      raise exception 'No payment is recorded for payment intent % and its metadata names no invoice', v_intent_id;
+    end if;
+    insert into public.payments (invoice_id, booking_id, installment_id, amount, status, payment_type, stripe_payment_id, created_at)
+    values (
+      v_invoice_id,
+      nullif(p_intent->'metadata'->>'booking_id', '')::uuid,
+      nullif(p_intent->'metadata'->>'installment_id', '')::uuid,
+      v_amount,
+      'succeeded',
+      coalesce(nullif(p_intent->'metadata'->>'payment_type', ''), 'invoice'),
+      v_intent_id,
+      p_at
+    );
+    v_settled := v_amount;
+  end if;
+
+  if v_settled > 0 then
+    update public.invoices
+    set remaining_balance = greatest(remaining_balance - v_settled, 0), updated_at = now()
+    where id = v_invoice_id and status <> 'void';
+  end if;
+
+  update public.invoices
+  set
+    status = 'paid',
+    paid_at = coalesce(paid_at, p_at),
+    stripe_payment_intent_id = coalesce(stripe_payment_intent_id, v_intent_id),
+    updated_at = now()
+  where id = v_invoice_id and remaining_balance <= 0 and status not in ('paid', 'void', 'draft');
+
+  update public.bookings b
+  set final_payment_status = 'paid', updated_at = now()
+  from public.payments p
+  where p.stripe_payment_id = v_intent_id
+    and p.booking_id = b.id
+    and p.payment_type in ('final', 'final_payment', 'full_payment')
+    and b.final_payment_status is distinct from 'paid';
+end;
+$$;
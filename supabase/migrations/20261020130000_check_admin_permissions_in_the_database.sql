@@ -0,0 +1,405 @@
+-- Admin permissions are enforced by the database as well as the dashboard.
+--
+-- profiles.permissions and admin_level were only checked by the dashboard
+-- (resolvePermissions in src/lib/permissions.ts) and the edge functions
+-- (authorizedAdminId). Any admin could write their own row to grant
+-- themselves payments.write or super_admin, and the money-moving RPCs and
+-- settings tables only asked for role = 'admin'.
+--
+-- admin_has_permission resolves a permission for the calling user the same
+-- way resolvePermissions does. Only super admins may change an admin's role,
+-- admin_level or permissions. Refunds, credit notes, voids, cancellations and
+-- the tax, cancellation and dunning settings need payments.write; the settings
+-- stay readable to every admin.
+
+-- Whether the calling user is an admin holding the permission: super admins
+-- hold every permission, other admins what their permissions grant or, for
+-- anything not set there, the default (everything but the restricted list,
+-- the same list as RESTRICTED_PERMISSIONS in src/lib/permissions.ts)
+create or replace function public.admin_has_permission(p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select
+      p.admin_level = 'super_admin'
+      or case
+        when jsonb_typeof(p.permissions -> p_permission) = 'boolean' then (p.permissions ->> p_permission)::boolean
+        else p_permission not in ('vendors.delete', 'payments.write', 'emails.broadcast', 'blog.publish')
+      end
+    from public.profiles p
+    where p.id = auth.uid() and p.role = 'admin'
+  ), false);
+$$;
+
+grant execute on function public.admin_has_permission(text) to authenticated;
+
+-- Raises unless the caller holds the permission. The service role (the
+-- stripe-webhook function replaying refunds, scheduled jobs) is trusted.
+create or replace function public.require_admin_permission(p_permission text)
+returns void
+language plpgsql
+stable
+as $$
+begin
+  if coalesce(auth.role(), '') <> 'service_role' and not public.admin_has_permission(p_permission) then
+    raise exception 'Only admins who hold % can do this', p_permission;
+  end if;
+end;
+$$;
+
+grant execute on function public.require_admin_permission(text) to authenticated;
+
+create or replace function public.protect_admin_permissions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Without a signed-in user this is the service role or a migration
+  if auth.uid() is null then
+    return new;
+  end if;
+  if exists (select 1 from public.profiles where id = auth.uid() and role = 'admin' and admin_level = 'super_admin') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.role = 'admin' or new.admin_level is not null or coalesce(new.permissions, '{}'::jsonb) <> '{}'::jsonb then
+      raise exception 'Only super admins can create admin profiles';
+    end if;
+  elsif new.role is distinct from old.role
+    or new.admin_level is distinct from old.admin_level
+    or new.permissions is distinct from old.permissions then
+    raise exception 'Only super admins can change an admin''s role, level or permissions';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_admin_permissions on public.profiles;
+create trigger protect_admin_permissions before insert or update on public.profiles
+  for each row execute function public.protect_admin_permissions();
+
+drop policy if exists "Admins can manage tax rates" on public.tax_rates;
+create policy "Admins can manage tax rates"
+  on public.tax_rates
+  for all
+  using (public.admin_has_permission('payments.write'))
+  with check (public.admin_has_permission('payments.write'));
+
+drop policy if exists "Admins can read cancellation policy" on public.cancellation_policy_tiers;
+create policy "Admins can read cancellation policy"
+  on public.cancellation_policy_tiers
+  for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop policy if exists "Admins can manage cancellation policy" on public.cancellation_policy_tiers;
+create policy "Admins can manage cancellation policy"
+  on public.cancellation_policy_tiers
+  for all
+  using (public.admin_has_permission('payments.write'))
+  with check (public.admin_has_permission('payments.write'));
+
+drop policy if exists "Admins can read dunning steps" on public.dunning_steps;
+create policy "Admins can read dunning steps"
+  on public.dunning_steps
+  for select
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+drop policy if exists "Admins can manage dunning steps" on public.dunning_steps;
+create policy "Admins can manage dunning steps"
+  on public.dunning_steps
+  for all
+  using (public.admin_has_permission('payments.write'))
+  with check (public.admin_has_permission('payments.write'));
+
+-- Same as in settle_only_the_cancelled_booking, refusing admins who cannot
+-- move money. cancel_booking asks this first, so it needs no check of its own.
+create or replace function public.booking_cancellation_error(
+  p_booking_id uuid,
+  p_reason text,
+  p_refund_percentage numeric
+)
+returns text
+language plpgsql
+stable
+security invoker
+as $$
+declare
+  v_booking public.bookings;
+begin
+  if coalesce(auth.role(), '') <> 'service_role' and not public.admin_has_permission('payments.write') then
+    return 'Only admins who can record payments can cancel bookings';
+  end if;
+  if nullif(trim(p_reason), '') is null then
+    return 'A cancellation needs a reason';
+  end if;
+  if p_refund_percentage is null or p_refund_percentage not between 0 and 100 then
+    return 'The refund percentage must be between 0 and 100';
+  end if;
+
+  select * into v_booking from public.bookings where id = p_booking_id;
+  if not found then
+    return format('Booking %s not found', p_booking_id);
+  end if;
+  return public.booking_transition_error(v_booking, 'cancelled');
+end;
+$$;
+
+-- Same as in refund_invoice_installments, for admins who hold payments.write
+create or replace function public.record_refund(
+  p_payment_id uuid,
+  p_amount integer,
+  p_reason text default null,
+  p_stripe_refund_id text default null
+)
+returns public.refunds
+language plpgsql
+security invoker
+as $$
+declare
+  v_payment public.payments;
+  v_booking public.bookings;
+  v_refunded integer;
+  v_vendor_part integer := 0;
+  v_platform_part integer := 0;
+  v_platform_amount integer;
+  v_refund public.refunds;
+begin
+  perform public.require_admin_permission('payments.write');
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id;
+  end if;
+  if v_payment.status not in ('succeeded', 'paid') then
+    raise exception 'Only succeeded payments can be refunded (status is %)', v_payment.status;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_refunded
+  from public.refunds
+  where payment_id = p_payment_id and status <> 'failed';
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Refund amount must be greater than zero';
+  end if;
+  if p_amount > v_payment.amount - v_refunded then
+    raise exception 'Refund of % exceeds the % left to refund on this payment', p_amount, v_payment.amount - v_refunded;
+  end if;
+
+  if v_payment.booking_id is not null then
+    select * into v_booking from public.bookings where id = v_payment.booking_id for update;
+  end if;
+
+  if v_booking.id is not null then
+    if v_payment.payment_type = 'deposit' then
+      v_vendor_part := coalesce(v_booking.vendor_deposit_share, 0);
+      v_platform_part := coalesce(v_booking.platform_deposit_share, 0);
+    elsif v_payment.payment_type in ('final', 'final_payment') then
+      v_vendor_part := coalesce(v_booking.vendor_final_share, 0);
+      v_platform_part := coalesce(v_booking.platform_final_share, 0);
+    else
+      v_vendor_part := coalesce(v_booking.vendor_deposit_share, 0) + coalesce(v_booking.vendor_final_share, 0);
+      v_platform_part := coalesce(v_booking.platform_deposit_share, 0) + coalesce(v_booking.platform_final_share, 0);
+    end if;
+  end if;
+
+  -- Without shares to go by, the refund comes out of whoever received the payment
+  if v_vendor_part + v_platform_part = 0 then
+    v_platform_amount := case when v_payment.to_platform then p_amount else 0 end;
+  else
+    v_platform_amount := round(p_amount::numeric * v_platform_part / (v_vendor_part + v_platform_part));
+  end if;
+
+  insert into public.refunds (
+    payment_id, booking_id, invoice_id, amount, vendor_amount, platform_amount, reason, stripe_refund_id
+  )
+  values (
+    p_payment_id, v_payment.booking_id, v_payment.invoice_id, p_amount,
+    p_amount - v_platform_amount, v_platform_amount, nullif(trim(p_reason), ''), p_stripe_refund_id
+  )
+  returning * into v_refund;
+
+  if v_booking.id is not null then
+    update public.bookings
+    set
+      paid_amount = greatest(coalesce(paid_amount, 0) - p_amount, 0),
+      vendor_total_earnings = coalesce(vendor_total_earnings, 0) - v_refund.vendor_amount,
+      platform_total_earnings = coalesce(platform_total_earnings, 0) - v_refund.platform_amount,
+      final_payment_status = case
+        when v_payment.payment_type in ('final', 'final_payment', 'full_payment') then 'pending'
+        else final_payment_status
+      end,
+      updated_at = now()
+    where id = v_booking.id;
+  end if;
+
+  -- A void invoice stays void with nothing owed
+  if v_payment.invoice_id is not null then
+    update public.invoices
+    set
+      remaining_balance = least(remaining_balance + p_amount, total_amount - credited_amount),
+      status = case when status = 'paid' and remaining_balance + p_amount > 0 then 'sent' else status end,
+      paid_at = case when status = 'paid' and remaining_balance + p_amount > 0 then null else paid_at end,
+      updated_at = now()
+    where id = v_payment.invoice_id and status <> 'void';
+
+    if found then
+      perform public.refund_invoice_installments(v_payment.invoice_id, p_amount, v_payment.installment_id);
+    end if;
+  end if;
+
+  return v_refund;
+end;
+$$;
+
+grant execute on function public.record_refund(uuid, integer, text, text) to authenticated;
+
+-- Same as in create_credit_notes, for admins who hold payments.write
+create or replace function public.issue_credit_note(
+  p_invoice_id uuid,
+  p_reason text,
+  p_lines jsonb
+)
+returns public.credit_notes
+language plpgsql
+security invoker
+as $$
+declare
+  v_invoice public.invoices;
+  v_line jsonb;
+  v_item public.invoice_line_items;
+  v_amount integer;
+  v_credited integer;
+  v_total integer := 0;
+  v_credit_note public.credit_notes;
+begin
+  perform public.require_admin_permission('payments.write');
+  select * into v_invoice from public.invoices where id = p_invoice_id for update;
+  if not found then
+    raise exception 'Invoice % not found', p_invoice_id;
+  end if;
+  if v_invoice.status = 'draft' then
+    raise exception 'Draft invoices can still be edited; credit notes are for sent invoices';
+  end if;
+  if v_invoice.status = 'void' then
+    raise exception 'Invoice % is void', p_invoice_id;
+  end if;
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'A credit note needs a reason';
+  end if;
+  if p_lines is null or jsonb_array_length(p_lines) = 0 then
+    raise exception 'A credit note needs at least one line';
+  end if;
+
+  insert into public.credit_notes (invoice_id, amount, reason)
+  values (p_invoice_id, 1, trim(p_reason))
+  returning * into v_credit_note;
+
+  for v_line in select * from jsonb_array_elements(p_lines) loop
+    select * into v_item
+    from public.invoice_line_items
+    where id = (v_line->>'invoice_line_item_id')::uuid and invoice_id = p_invoice_id;
+    if not found then
+      raise exception 'Line item % is not on invoice %', v_line->>'invoice_line_item_id', p_invoice_id;
+    end if;
+
+    v_amount := (v_line->>'amount')::integer;
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Credit amounts must be greater than zero';
+    end if;
+
+    select coalesce(sum(amount), 0) into v_credited
+    from public.credit_note_lines
+    where invoice_line_item_id = v_item.id;
+    if v_amount > round(coalesce(v_item.custom_price, 0) * coalesce(v_item.quantity, 0)) - v_credited then
+      raise exception 'Credit of % exceeds the % left to credit on line item %',
+        v_amount, round(coalesce(v_item.custom_price, 0) * coalesce(v_item.quantity, 0)) - v_credited, v_item.id;
+    end if;
+
+    insert into public.credit_note_lines (credit_note_id, invoice_line_item_id, amount, description)
+    values (v_credit_note.id, v_item.id, v_amount, nullif(trim(v_line->>'description'), ''));
+    v_total := v_total + v_amount;
+  end loop;
+
+  if v_total > v_invoice.total_amount - v_invoice.credited_amount then
+    raise exception 'Credit of % exceeds the % left to credit on the invoice',
+      v_total, v_invoice.total_amount - v_invoice.credited_amount;
+  end if;
+
+  update public.credit_notes set amount = v_total where id = v_credit_note.id
+  returning * into v_credit_note;
+
+  update public.invoices
+  set
+    credited_amount = credited_amount + v_total,
+    remaining_balance = greatest(remaining_balance - v_total, 0),
+    status = case when remaining_balance - v_total <= 0 then 'paid' else status end,
+    paid_at = case when remaining_balance - v_total <= 0 then coalesce(paid_at, now()) else paid_at end,
+    updated_at = now()
+  where id = p_invoice_id;
+
+  return v_credit_note;
+end;
+$$;
+
+grant execute on function public.issue_credit_note(uuid, text, jsonb) to authenticated;
+
+-- Same as in create_credit_notes, for admins who hold payments.write
+create or replace function public.void_invoice(
+  p_invoice_id uuid,
+  p_reason text
+)
+returns public.invoices
+language plpgsql
+security invoker
+as $$
+declare
+  v_invoice public.invoices;
+  v_paid integer;
+begin
+  perform public.require_admin_permission('payments.write');
+  select * into v_invoice from public.invoices where id = p_invoice_id for update;
+  if not found then
+    raise exception 'Invoice % not found', p_invoice_id;
+  end if;
+  if v_invoice.status = 'void' then
+    raise exception 'Invoice % is already void', p_invoice_id;
+  end if;
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'Voiding an invoice needs a reason';
+  end if;
+
+  select coalesce(sum(p.amount), 0) - coalesce(sum(r.refunded), 0) into v_paid
+  from public.payments p
+  left join (
+    select payment_id, sum(amount) as refunded
+    from public.refunds
+    where status <> 'failed'
+    group by payment_id
+  ) r on r.payment_id = p.id
+  where p.invoice_id = p_invoice_id and p.status in ('succeeded', 'paid');
+  if v_paid > 0 then
+    raise exception 'Refund the % paid on this invoice before voiding it', v_paid;
+  end if;
+
+  update public.invoices
+  set
+    status = 'void',
+    remaining_balance = 0,
+    voided_at = now(),
+    void_reason = trim(p_reason),
+    voided_by = auth.uid(),
+    updated_at = now()
+  where id = p_invoice_id
+  returning * into v_invoice;
+
+  return v_invoice;
+end;
+$$;
+
+grant execute on function public.void_invoice(uuid, text) to authenticated;
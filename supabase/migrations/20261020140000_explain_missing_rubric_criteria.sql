@@ -0,0 +1,48 @@
+-- An application cannot be approved while the rubric has no active criteria,
+-- and says so.
+--
+-- application_quorum_error counted reviewers who scored every active
+-- criterion, so with none active no reviewer could ever be complete and
+-- approval was blocked with "needs N complete reviews; this application has
+-- 0" although there was nothing left to score. It now says the rubric needs
+-- an active criterion first. summarizeApplicationReview and quorumError in
+-- src/utils/applicationReviews.ts make the same check for the dashboard.
+
+-- Same as in create_application_reviews, explaining an empty rubric
+create or replace function public.application_quorum_error(p_application_id uuid)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_quorum integer;
+  v_criteria integer;
+  v_complete integer;
+begin
+  select coalesce((select quorum from public.application_review_settings), 1) into v_quorum;
+  select count(*) into v_criteria from public.application_rubric_criteria where is_active;
+  if v_criteria = 0 then
+    return 'The review rubric has no active criteria; activate one before approving applications';
+  end if;
+
+  select count(*) into v_complete
+  from (
+    select s.reviewer_id
+    from public.application_scores s
+    join public.application_rubric_criteria c on c.id = s.criterion_id and c.is_active
+    where s.application_id = p_application_id
+    group by s.reviewer_id
+    having count(*) = v_criteria
+  ) complete;
+
+  if v_complete >= v_quorum then
+    return null;
+  end if;
+  return format('Approval needs %s complete review%s; this application has %s',
+    v_quorum, case when v_quorum = 1 then '' else 's' end, v_complete);
+end;
+$$;
+
+grant execute on function public.application_quorum_error(uuid) to authenticated;